@@ -16,10 +16,10 @@ test.describe('Electron app', () => {
     const window = await app.firstWindow();
 
     // Wait for the app to render
-    await window.waitForSelector('.query-input-title', { timeout: 10000 });
+    await window.waitForSelector('.input-mode-toggle', { timeout: 10000 });
 
     // Verify key UI elements are present
-    await expect(window.locator('.query-input-title')).toHaveText('SQL Query');
+    await expect(window.locator('.input-mode-btn.active')).toHaveText('SQL Query');
     await expect(window.locator('.query-textarea')).toBeVisible();
     await expect(window.locator('.query-btn.primary')).toBeVisible();
     await expect(window.locator('#format-select')).toBeVisible();
@@ -67,7 +67,7 @@ test.describe('Electron app', () => {
     const app = await electron.launch({ args: launchArgs });
     const window = await app.firstWindow();
 
-    await window.waitForSelector('.query-input-title', { timeout: 10000 });
+    await window.waitForSelector('.input-mode-toggle', { timeout: 10000 });
 
     // Upload button should be present and clickable
     const uploadBtn = window.locator('button', { hasText: 'Upload' });
@@ -76,4 +76,45 @@ test.describe('Electron app', () => {
 
     await app.close();
   });
+
+  test('row builder encodes typed values without a server', async () => {
+    const app = await electron.launch({ args: launchArgs });
+    const window = await app.firstWindow();
+
+    await window.waitForSelector('.input-mode-toggle', { timeout: 10000 });
+    await window.locator('.input-mode-btn', { hasText: 'Build Rows' }).click();
+    await expect(window.locator('.row-builder-table')).toBeVisible();
+    await expect(window.locator('#builder-format-select')).toHaveValue('RowBinaryWithNamesAndTypes');
+
+    // An invalid value is reported; fixing it clears the error.
+    const cell = window.locator('[aria-label="Row 1, column 1"]');
+    await cell.fill('-1');
+    await expect(window.locator('.query-error-text')).toContainText('out of range for UInt64');
+    await cell.fill('42');
+    await expect(window.locator('.query-error')).toHaveCount(0);
+
+    await app.close();
+  });
+
+  test('hex edits are decoded again and can be reverted', async () => {
+    const app = await electron.launch({ args: launchArgs });
+    const window = await app.firstWindow();
+
+    await window.waitForSelector('.input-mode-toggle', { timeout: 10000 });
+    await window.locator('.input-mode-btn', { hasText: 'Build Rows' }).click();
+    await expect(window.locator('.hex-byte').first()).toHaveText('03');
+
+    // Claim one column too many in the header: the body no longer decodes.
+    await window.locator('.hex-byte').first().click();
+    await window.keyboard.type('04');
+    await expect(window.locator('.hex-byte').first()).toHaveText('04');
+    await expect(window.locator('.hex-edit-status')).toContainText('1 edit');
+    await expect(window.locator('.hex-edit-error')).toContainText('Decode failed');
+
+    await window.locator('.hex-edit-btn', { hasText: 'Revert' }).click();
+    await expect(window.locator('.hex-byte').first()).toHaveText('03');
+    await expect(window.locator('.hex-edit-error')).toHaveCount(0);
+
+    await app.close();
+  });
 });
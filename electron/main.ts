@@ -2,9 +2,11 @@ import { app, BrowserWindow, ipcMain } from 'electron';
 import { fileURLToPath } from 'node:url';
 import path from 'node:path';
 import fs from 'node:fs';
-import { appendClickHouseRequestParams } from '../src/core/clickhouse/request-params';
+import { appendClickHouseRequestParams, httpAcceptEncoding } from '../src/core/clickhouse/request-params';
+import { rawFetch } from '../src/core/clickhouse/raw-fetch';
+import { HttpCompression } from '../src/core/types/formats';
 import { DEFAULT_NATIVE_PROTOCOL_VERSION } from '../src/core/types/native-protocol';
-import { captureNativeQuery } from './native-capture';
+import { captureNativeQuery } from '../src/core/clickhouse/native-client';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -79,20 +81,34 @@ function createWindow(): void {
   }
 }
 
-// IPC: Execute a ClickHouse query
-ipcMain.handle('execute-query', async (_event, options: { query: string; format: string; nativeProtocolVersion?: number }) => {
+interface ExecuteQueryOptions {
+  query: string;
+  format: string;
+  nativeProtocolVersion?: number;
+  compression?: HttpCompression;
+}
+
+// IPC: Execute a ClickHouse query. The body is returned as received, so a
+// compressed response reaches the renderer still compressed.
+ipcMain.handle('execute-query', async (_event, options: ExecuteQueryOptions) => {
   const config = loadConfig();
+  const compression = options.compression ?? HttpCompression.None;
   const params = new URLSearchParams(CLICKHOUSE_SETTINGS);
   appendClickHouseRequestParams(
     params,
     options.format,
-    options.nativeProtocolVersion ?? DEFAULT_NATIVE_PROTOCOL_VERSION
+    options.nativeProtocolVersion ?? DEFAULT_NATIVE_PROTOCOL_VERSION,
+    compression
   );
 
-  const response = await fetch(`${config.host}/?${params}`, {
+  const headers: Record<string, string> = { 'Content-Type': 'text/plain' };
+  const acceptEncoding = httpAcceptEncoding(compression);
+  if (acceptEncoding) headers['Accept-Encoding'] = acceptEncoding;
+
+  const response = await rawFetch(`${config.host}/?${params}`, {
     method: 'POST',
     body: options.query,
-    headers: { 'Content-Type': 'text/plain' },
+    headers,
   });
 
   if (!response.ok) {
@@ -103,8 +119,9 @@ ipcMain.handle('execute-query', async (_event, options: { query: string; format:
   return await response.arrayBuffer();
 });
 
-// IPC: Capture a query over the native TCP protocol via the proxy harness.
-// Returns the two per-direction byte streams for the protocol decoder.
+// IPC: Capture a query over the native TCP protocol with the built-in client.
+// Returns the two per-direction byte streams for the protocol decoder, and
+// the timed segments they arrived in for the Timeline view.
 ipcMain.handle('capture-native-protocol', async (_event, options: { query: string }) => {
   const config = loadConfig();
   const result = await captureNativeQuery({
@@ -115,10 +132,18 @@ ipcMain.handle('capture-native-protocol', async (_event, options: { query: strin
     password: config.password,
     settings: CLICKHOUSE_SETTINGS,
   });
+  // Each segment located in its direction's stream, as parseChprotoDump reports them.
+  const streamLength = [0, 0];
+  const segments = result.segments.map(({ dir, data, time }) => {
+    const offset = streamLength[dir];
+    streamLength[dir] += data.length;
+    return { dir, offset, length: data.length, time };
+  });
   return {
     c2s: new Uint8Array(result.c2s),
     s2c: new Uint8Array(result.s2c),
     meta: result.meta,
+    segments,
   };
 });
 
@@ -1,9 +1,16 @@
 import { contextBridge, ipcRenderer } from 'electron';
 
 contextBridge.exposeInMainWorld('electronAPI', {
-  executeQuery: (options: { query: string; format: string; nativeProtocolVersion?: number }): Promise<ArrayBuffer> =>
+  executeQuery: (options: { query: string; format: string; nativeProtocolVersion?: number; compression?: string }): Promise<ArrayBuffer> =>
     ipcRenderer.invoke('execute-query', options),
-  captureNativeProtocol: (options: { query: string }): Promise<{ c2s: Uint8Array; s2c: Uint8Array; meta?: Record<string, unknown> }> =>
+  captureNativeProtocol: (options: {
+    query: string;
+  }): Promise<{
+    c2s: Uint8Array;
+    s2c: Uint8Array;
+    meta?: Record<string, unknown>;
+    segments?: { dir: number; offset: number; length: number; time?: number }[];
+  }> =>
     ipcRenderer.invoke('capture-native-protocol', options),
   getConfig: (): Promise<{ host: string }> =>
     ipcRenderer.invoke('get-config'),
@@ -3,12 +3,15 @@
 import type { Buffer } from 'node:buffer';
 
 export const MAGIC: string;
+export const MAGIC_TIMED: string;
 export const DIR_C2S: 0;
 export const DIR_S2C: 1;
 
 export interface Segment {
   dir: 0 | 1;
   data: Buffer;
+  /** Microseconds since the connection was accepted; written as CHPROTO2 */
+  time?: number;
 }
 
 export interface Capture {
@@ -28,6 +31,8 @@ export interface CaptureQueryOptions {
   clientPath?: string;
   clientArgs?: string[];
   settings?: Record<string, string>;
+  /** Local file piped to clickhouse-client's stdin as INSERT data. */
+  insertFile?: string;
 }
 
 export function startProxy(opts: {
@@ -6,38 +6,52 @@
  * forwarding bytes in both directions and teeing every byte into a capture.
  * Because the proxy listens on localhost and clickhouse-client disables
  * compression for localhost connections, the captured stream is plaintext,
- * uncompressed native-protocol packets — exactly what protocol-decoder.ts
- * consumes. TLS and compression are intentionally out of scope.
+ * uncompressed native-protocol packets. Other clients may compress (the
+ * decoder handles compressed frames); TLS is intentionally out of scope.
  *
  * The capture is stored as two concatenated per-direction byte streams
  * (client->server and server->client). Each direction is an independent,
  * ordered native-protocol stream: a packet may be split across TCP segments,
  * so the decoder must treat each direction as one contiguous buffer. The raw
- * segment log (with direction + order) is kept too, for a faithful timeline.
+ * segment log (with direction, order and arrival time) is kept too, for a
+ * faithful timeline.
  *
  * Dump file layout (.chproto):
- *   magic     "CHPROTO1"                (8 bytes)
+ *   magic     "CHPROTO2"                (8 bytes; "CHPROTO1" has no timestamps)
  *   metaLen   u32 LE                     length of the metadata JSON
  *   meta      metaLen bytes              UTF-8 JSON {query, host, port, ...}
  *   segments  repeated until EOF:
  *               dir   u8                 0 = client->server, 1 = server->client
+ *               time  u64 LE             CHPROTO2 only: microseconds since the
+ *                                        connection was accepted (monotonic)
  *               len   u32 LE             segment byte length
  *               data  len bytes          raw segment bytes
  */
 
 import net from 'node:net';
 import { spawn } from 'node:child_process';
+import { createReadStream } from 'node:fs';
 import { Buffer } from 'node:buffer';
 
 export const MAGIC = 'CHPROTO1';
+export const MAGIC_TIMED = 'CHPROTO2';
 export const DIR_C2S = 0;
 export const DIR_S2C = 1;
 
 /**
- * @typedef {{ dir: 0 | 1, data: Buffer }} Segment
+ * @typedef {{ dir: 0 | 1, data: Buffer, time?: number }} Segment  time: µs since the connection was accepted
  * @typedef {{ c2s: Buffer, s2c: Buffer, segments: Segment[], meta: Record<string, unknown> }} Capture
  */
 
+/**
+ * A monotonic clock reading microseconds since it was started.
+ * @returns {() => number}
+ */
+function connectionClock() {
+  const start = process.hrtime.bigint();
+  return () => Number((process.hrtime.bigint() - start) / 1000n);
+}
+
 /**
  * Start a one-shot capturing TCP proxy. It accepts a single client connection,
  * forwards it to (targetHost, targetPort), records every byte, and resolves
@@ -90,6 +104,7 @@ export function startProxy({ targetHost, targetPort, listenHost = '127.0.0.1' })
       handled = true;
 
       const upstream = net.connect(targetPort, targetHost);
+      const now = connectionClock();
       let openEnds = 2;
       const closeOne = () => {
         openEnds -= 1;
@@ -97,11 +112,11 @@ export function startProxy({ targetHost, targetPort, listenHost = '127.0.0.1' })
       };
 
       client.on('data', (chunk) => {
-        segments.push({ dir: DIR_C2S, data: Buffer.from(chunk) });
+        segments.push({ dir: DIR_C2S, data: Buffer.from(chunk), time: now() });
         upstream.write(chunk);
       });
       upstream.on('data', (chunk) => {
-        segments.push({ dir: DIR_S2C, data: Buffer.from(chunk) });
+        segments.push({ dir: DIR_S2C, data: Buffer.from(chunk), time: now() });
         client.write(chunk);
       });
 
@@ -192,6 +207,7 @@ export function startCaptureProxy({
       sockets.add(client);
       const upstream = net.connect(targetPort, targetHost);
       sockets.add(upstream);
+      const now = connectionClock();
 
       /** @type {Segment[]} */
       const segments = [];
@@ -227,12 +243,12 @@ export function startCaptureProxy({
       // Forward with backpressure so a slow consumer can't make us buffer the
       // whole stream in the socket layer (we already retain it in `segments`).
       client.on('data', (chunk) => {
-        segments.push({ dir: DIR_C2S, data: Buffer.from(chunk) });
+        segments.push({ dir: DIR_C2S, data: Buffer.from(chunk), time: now() });
         if (upstream.write(chunk) === false) client.pause();
       });
       upstream.on('drain', () => client.resume());
       upstream.on('data', (chunk) => {
-        segments.push({ dir: DIR_S2C, data: Buffer.from(chunk) });
+        segments.push({ dir: DIR_S2C, data: Buffer.from(chunk), time: now() });
         if (client.write(chunk) === false) upstream.pause();
       });
       client.on('drain', () => upstream.resume());
@@ -295,6 +311,8 @@ export function splitStreams(segments) {
  * @param {string} [opts.clientPath]      path to clickhouse-client (default "clickhouse-client")
  * @param {string[]} [opts.clientArgs]    extra args appended to clickhouse-client
  * @param {Record<string,string>} [opts.settings]  per-query settings (--name=value)
+ * @param {string} [opts.insertFile]      piped to clickhouse-client's stdin, which sends it as
+ *                                        the data of an `INSERT ... FORMAT <fmt>` query
  * @returns {Promise<Capture>}
  */
 export async function captureQuery({
@@ -307,6 +325,7 @@ export async function captureQuery({
   clientPath = 'clickhouse-client',
   clientArgs = [],
   settings = {},
+  insertFile,
 }) {
   const { port: proxyPort, done, close } = await startProxy({ targetHost: host, targetPort: port });
 
@@ -317,7 +336,19 @@ export async function captureQuery({
   for (const [k, v] of Object.entries(settings)) args.push(`--${k}=${v}`);
   args.push(...clientArgs);
 
-  const child = spawn(clientPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+  const child = spawn(clientPath, args, { stdio: [insertFile ? 'pipe' : 'ignore', 'pipe', 'pipe'] });
+  /** @type {Error | null} */
+  let inputError = null;
+  if (insertFile && child.stdin) {
+    const input = createReadStream(insertFile);
+    input.on('error', (err) => {
+      inputError = err;
+      child.kill();
+    });
+    // The client may exit (e.g. on a server exception) before reading it all.
+    child.stdin.on('error', () => {});
+    input.pipe(child.stdin);
+  }
   let stderr = '';
   child.stderr.on('data', (d) => { stderr += d.toString(); });
   // Drain stdout so the client isn't blocked on a full pipe.
@@ -340,6 +371,9 @@ export async function captureQuery({
       close();
     }
     segments = await done;
+    if (inputError) {
+      throw new Error(`cannot read insert file ${insertFile}: ${/** @type {Error} */ (inputError).message}`);
+    }
     if (code !== 0 && segments.every((s) => s.dir === DIR_C2S)) {
       // Client failed before the server answered anything useful.
       throw new Error(`clickhouse-client exited ${code}: ${stderr.trim()}`);
@@ -354,26 +388,39 @@ export async function captureQuery({
     c2s,
     s2c,
     segments,
-    meta: { query, host, port, user, database, settings, stderr: stderr.trim() },
+    meta: {
+      query,
+      host,
+      port,
+      user,
+      database,
+      settings,
+      ...(insertFile ? { insertFile } : {}),
+      stderr: stderr.trim(),
+    },
   };
 }
 
 /**
- * Serialize a capture to the .chproto dump format.
+ * Serialize a capture to the .chproto dump format: CHPROTO2 when every
+ * segment carries its time, CHPROTO1 otherwise.
  * @param {Capture} capture
  * @returns {Buffer}
  */
 export function encodeDump(capture) {
+  const timed = capture.segments.length > 0 && capture.segments.every((seg) => seg.time !== undefined);
+  const magic = timed ? MAGIC_TIMED : MAGIC;
   const metaJson = Buffer.from(JSON.stringify(capture.meta), 'utf-8');
-  const head = Buffer.alloc(MAGIC.length + 4);
-  head.write(MAGIC, 0, 'ascii');
-  head.writeUInt32LE(metaJson.length, MAGIC.length);
+  const head = Buffer.alloc(magic.length + 4);
+  head.write(magic, 0, 'ascii');
+  head.writeUInt32LE(metaJson.length, magic.length);
 
   const parts = [head, metaJson];
   for (const seg of capture.segments) {
-    const segHead = Buffer.alloc(5);
+    const segHead = Buffer.alloc(timed ? 13 : 5);
     segHead.writeUInt8(seg.dir, 0);
-    segHead.writeUInt32LE(seg.data.length, 1);
+    if (timed) segHead.writeBigUInt64LE(BigInt(Math.round(/** @type {number} */ (seg.time))), 1);
+    segHead.writeUInt32LE(seg.data.length, timed ? 9 : 1);
     parts.push(segHead, seg.data);
   }
   return Buffer.concat(parts);
@@ -385,9 +432,11 @@ export function encodeDump(capture) {
  * @returns {Capture}
  */
 export function decodeDump(buf) {
-  if (buf.subarray(0, MAGIC.length).toString('ascii') !== MAGIC) {
+  const magic = buf.subarray(0, MAGIC.length).toString('ascii');
+  if (magic !== MAGIC && magic !== MAGIC_TIMED) {
     throw new Error('not a CHPROTO dump (bad magic)');
   }
+  const timed = magic === MAGIC_TIMED;
   let pos = MAGIC.length;
   const metaLen = buf.readUInt32LE(pos);
   pos += 4;
@@ -399,9 +448,16 @@ export function decodeDump(buf) {
   while (pos < buf.length) {
     const dir = /** @type {0 | 1} */ (buf.readUInt8(pos));
     pos += 1;
+    /** @type {number | undefined} */
+    let time;
+    if (timed) {
+      time = Number(buf.readBigUInt64LE(pos));
+      pos += 8;
+    }
     const len = buf.readUInt32LE(pos);
     pos += 4;
-    segments.push({ dir, data: Buffer.from(buf.subarray(pos, pos + len)) });
+    const data = Buffer.from(buf.subarray(pos, pos + len));
+    segments.push(time === undefined ? { dir, data } : { dir, data, time });
     pos += len;
   }
   const { c2s, s2c } = splitStreams(segments);
@@ -0,0 +1,17 @@
+import { captureQuery as captureViaClickHouseClient, type Capture } from '../../scripts/native-proxy.mjs';
+
+import { captureNativeQuery } from '../core/clickhouse/native-client';
+import type { CaptureOptions } from './connection';
+
+/**
+ * Default capture for `query --protocol tcp` and `capture`. The built-in
+ * native client is used unless a clickhouse-client path was given (--client /
+ * CLICKHOUSE_CLIENT) or the capture needs clickhouse-client to turn an
+ * --insert-file into Native blocks; then the client runs behind the proxy.
+ */
+export function captureWithDefaultClient(opts: CaptureOptions): Promise<Capture> {
+  if (opts.clientPath !== undefined || opts.insertFile !== undefined) {
+    return captureViaClickHouseClient(opts);
+  }
+  return captureNativeQuery(opts);
+}
@@ -1,20 +1,26 @@
 import { describe, it, expect } from 'vitest';
-import { readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
 import { fileURLToPath } from 'node:url';
 import { execFileSync, execSync } from 'node:child_process';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import net from 'node:net';
+import { gzipSync } from 'node:zlib';
 
-import { decodeBuffer, decodeCommand } from './commands/decode';
+import { decodeBuffer, decodeCommand, decodeStreamCommand } from './commands/decode';
 import { queryCommand } from './commands/query';
 import { captureCommand } from './commands/capture';
 import { proxyCommand, type ProxyDeps } from './commands/proxy';
+import { encodeCommand } from './commands/encode';
+import { diffCommand } from './commands/diff';
+import { lintCommand, LINT_VIOLATION_EXIT_CODE } from './commands/lint';
+import { NativeEncoder } from '../core/encoder/native-encoder';
 import { resolveCaptureOptions, resolveHttpConnection, parseHostPort } from './connection';
 import { parseArgs, stringOption, boolOption, arrayOption } from './args';
 import { stringify, CliError } from './output';
 import { ClickHouseFormat } from '../core/types/formats';
-import { parseChprotoDump } from '../core/decoder/protocol-dump';
+import { encodeChprotoDump, parseChprotoDump } from '../core/decoder/protocol-dump';
+import { encodeProtocolScript } from '../core/encoder/protocol-encoder';
 import { captureQuery, startCaptureProxy, encodeDump, type Capture } from '../../scripts/native-proxy.mjs';
 
 /** Run `fn` with env vars temporarily set, restoring prior values after. */
@@ -156,9 +162,31 @@ describe('decodeBuffer — raw bodies', () => {
     }
   });
 
-  it('propagates a decode failure when forced to the wrong format', () => {
+  it('decodes the header-less RowBinary variants with --schema', () => {
+    const schema = [{ name: 'x', type: { kind: 'UInt8' as const }, typeString: 'UInt8' }];
+    const plain = decodeBuffer(Uint8Array.of(0x01, 0x02), { format: 'rowbinary-plain', schema });
+    expect(plain.format).toBe(ClickHouseFormat.RowBinary);
+    expect(plain.parsed.rows?.map((r) => r.values[0].value)).toEqual([1, 2]);
+
+    const named = decodeBuffer(Uint8Array.of(0x01, 0x01, ...enc('y'), 0x07), { format: 'rowbinary-names', schema });
+    expect(named.parsed.header.columns[0].name).toBe('y');
+    expect(named.parsed.rows?.[0].values[0].value).toBe(7);
+
+    const defaults = decodeBuffer(Uint8Array.of(0x01, 0x00, 0x05), { format: 'rowbinary-defaults', schema });
+    expect(defaults.parsed.rows?.map((r) => r.values[0].displayValue)).toEqual(['DEFAULT', '5']);
+  });
+
+  it('requires --schema exactly for the header-less RowBinary variants', () => {
+    expect(() => decodeBuffer(Uint8Array.of(0x01), { format: 'rowbinary-plain' })).toThrow(/needs --schema/);
+    const schema = [{ name: 'x', type: { kind: 'UInt8' as const }, typeString: 'UInt8' }];
+    expect(() => decodeBuffer(ROWBINARY_BODY, { format: 'rowbinary', schema })).toThrow(/only applies/);
+  });
+
+  it('reports a decode failure when forced to the wrong format', () => {
     const chproto = readFixture(fixtures[0]);
-    expect(() => decodeBuffer(chproto, { format: 'rowbinary' })).toThrow();
+    const { parsed } = decodeBuffer(chproto, { format: 'rowbinary' });
+    expect(parsed.trailingNodes?.map((n) => n.type)).toEqual(['DecodeError']);
+    expect(parsed.diagnostics?.map((d) => d.code)).toEqual(['decode.incomplete']);
   });
 });
 
@@ -187,6 +215,114 @@ describe('decodeCommand (file + envelope)', () => {
   it('rejects an unknown --format value', async () => {
     await expect(decodeCommand([fixturePath(fixtures[0]), '--format', 'bogus'])).rejects.toThrow(CliError);
   });
+
+  it('adds a coverage section with --coverage', async () => {
+    const path = join(tmpdir(), `chfx-coverage-${process.pid}.bin`);
+    writeFileSync(path, ROWBINARY_BODY);
+    try {
+      const { data } = await decodeCommand([path, '--coverage']);
+      expect((data as { coverage: unknown }).coverage).toEqual({
+        totalBytes: ROWBINARY_BODY.length,
+        coveredBytes: ROWBINARY_BODY.length,
+        coveragePercent: 100,
+        gaps: [],
+        overlaps: [],
+      });
+      const { data: plain } = await decodeCommand([path]);
+      expect(plain).not.toHaveProperty('coverage');
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  it('lists the nodes matching --find', async () => {
+    const path = join(tmpdir(), `chfx-find-${process.pid}.bin`);
+    writeFileSync(path, ROWBINARY_BODY);
+    try {
+      const { data } = await decodeCommand([path, '--find', 'column=x type=UInt8']);
+      expect((data as { find: unknown }).find).toEqual({
+        expression: 'column=x type=UInt8',
+        matchCount: 1,
+        matches: [
+          expect.objectContaining({ label: 'x', displayValue: '1', byteRange: { start: 9, end: 10 }, path: ['row-0'], bytes: '01' }),
+        ],
+      });
+      await expect(decodeCommand([path, '--find', '/('])).rejects.toThrow('invalid --find');
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  it('keeps one exchange of a capture with --query-index', async () => {
+    const path = fixturePath('04-exception.chproto');
+    const { data } = await decodeCommand([path, '--query-index', '0', '--no-node-bytes']);
+    const env = data as { queryIndex: number; data: { metadata: { exchanges: { index: number; status: string }[] } } };
+    expect(env.queryIndex).toBe(0);
+    expect(env.data.metadata.exchanges).toEqual([expect.objectContaining({ index: 0, status: 'exception' })]);
+
+    await expect(decodeCommand([path, '--query-index', '1'])).rejects.toThrow('no query 1; the capture has 1');
+    await expect(decodeCommand([path, '--query-index', '-1'])).rejects.toThrow('non-negative integer');
+    const body = join(tmpdir(), `chfx-query-index-${process.pid}.bin`);
+    writeFileSync(body, ROWBINARY_BODY);
+    try {
+      await expect(decodeCommand([body, '--query-index', '0'])).rejects.toThrow('only applies to .chproto');
+    } finally {
+      rmSync(body, { force: true });
+    }
+  });
+
+  it('sums the ProfileEvents of each query with --profile-events', async () => {
+    const path = fixturePath('06-logs.chproto');
+    const { data } = await decodeCommand([path, '--profile-events', '--no-node-bytes']);
+    const env = data as { profileEvents: { queries: { index: number; events: { name: string; type: string }[] }[] } };
+    expect(env.profileEvents.queries).toHaveLength(1);
+    expect(env.profileEvents.queries[0].index).toBe(0);
+    expect(env.profileEvents.queries[0].events).toContainEqual(
+      expect.objectContaining({ name: 'MemoryTrackerPeakUsage', type: 'gauge', value: 637519 }),
+    );
+    expect((await decodeCommand([path, '--no-node-bytes'])).data).not.toHaveProperty('profileEvents');
+
+    const body = join(tmpdir(), `chfx-profile-events-${process.pid}.bin`);
+    writeFileSync(body, ROWBINARY_BODY);
+    try {
+      await expect(decodeCommand([body, '--profile-events'])).rejects.toThrow('only applies to .chproto');
+    } finally {
+      rmSync(body, { force: true });
+    }
+  });
+
+  it('prints NDJSON items with --stream', async () => {
+    const path = join(tmpdir(), `chfx-stream-${process.pid}.bin`);
+    writeFileSync(path, NATIVE_BODY);
+    try {
+      const lines: string[] = [];
+      const write = async (line: string) => {
+        lines.push(line);
+      };
+      await decodeStreamCommand([path, '--stream', '-f', 'native'], write);
+      const items = lines.map((line) => JSON.parse(line));
+      expect(items.map((i) => i.kind)).toEqual(['block', 'end']);
+      expect(items[0].block.columns[0].values[0].value).toBe(1);
+      expect(items[1]).toEqual({ kind: 'end', totalBytes: NATIVE_BODY.length });
+      await expect(decodeStreamCommand([path, '--stream'], write)).rejects.toMatchObject({ kind: 'usage' });
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  it('parses --schema and reports a malformed one as a usage error', async () => {
+    const path = join(tmpdir(), `chfx-schema-${process.pid}.bin`);
+    writeFileSync(path, Uint8Array.of(0x02, ...enc('ab')));
+    try {
+      const { data } = await decodeCommand([path, '--format', 'rowbinary-plain', '--schema', 's String']);
+      expect((data as { format: string }).format).toBe('RowBinary');
+      await expect(
+        decodeCommand([path, '--format', 'rowbinary-plain', '--schema', 's Strng']),
+      ).rejects.toMatchObject({ kind: 'usage' });
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
 });
 
 describe('per-node inline bytes', () => {
@@ -272,6 +408,16 @@ describe('resolveCaptureOptions', () => {
     expect(opts.settings).toHaveProperty('allow_experimental_json_type', '1');
   });
 
+  it('reads --protocol-version for the built-in client only', () => {
+    const flags = { valueFlags: ['query', 'protocol-version', 'client'] };
+    const opts = resolveCaptureOptions(parseArgs(['--query', 'x', '--protocol-version', '54441'], flags));
+    expect(opts.protocolVersion).toBe(54441);
+    expect(() => resolveCaptureOptions(parseArgs(['--query', 'x', '--protocol-version', '54405'], flags))).toThrow(/>= 54429/);
+    expect(() =>
+      resolveCaptureOptions(parseArgs(['--query', 'x', '--protocol-version', '54441', '--client', 'ch'], flags)),
+    ).toThrow(/needs the built-in client/);
+  });
+
   it('rejects a non-numeric port', () => {
     expect(() => resolveCaptureOptions(parseArgs(['--query', 'x', '--port', 'abc'], { valueFlags: ['query', 'port'] }))).toThrow(
       CliError,
@@ -333,6 +479,39 @@ describe('query / capture (with injected capture)', () => {
       rmSync(path, { force: true });
     }
   });
+
+  it('capture --insert-file hands the file to the client and records it', async () => {
+    const path = join(tmpdir(), `chfx-insert-${process.pid}.csv`);
+    writeFileSync(path, '1,a\n2,b\n');
+    try {
+      let seen: string | undefined;
+      const spy = { captureQuery: async (opts: { insertFile?: string }) => ((seen = opts.insertFile), fakeCapture()) };
+      const out = await captureCommand(['--query', 'INSERT INTO t FORMAT CSV', '--insert-file', path, '--out', '-'], spy);
+      expect(out.stdout).toBe('raw');
+      expect(seen).toBe(path);
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  it('passes --protocol-version to the capture, but not with --insert-file', async () => {
+    let seen: number | undefined;
+    const spy = { captureQuery: async (opts: { protocolVersion?: number }) => ((seen = opts.protocolVersion), fakeCapture()) };
+    await queryCommand(['--query', 'SELECT 1', '--protocol-version', '54460'], spy);
+    expect(seen).toBe(54460);
+    await expect(
+      captureCommand(['--query', 'INSERT INTO t FORMAT CSV', '--insert-file', 'x.csv', '--protocol-version', '54460'], deps),
+    ).rejects.toThrow(/cannot be combined with --insert-file/);
+  });
+
+  it('capture --insert-file rejects a non-INSERT query and a missing file', async () => {
+    await expect(captureCommand(['--query', 'SELECT 1', '--insert-file', 'x.csv'], deps)).rejects.toMatchObject({
+      kind: 'usage',
+    });
+    await expect(
+      captureCommand(['--query', 'INSERT INTO t FORMAT CSV', '--insert-file', join(tmpdir(), 'chfx-missing.csv')], deps),
+    ).rejects.toMatchObject({ kind: 'io' });
+  });
 });
 
 describe('query --protocol http (injected fetch)', () => {
@@ -367,6 +546,42 @@ describe('query --protocol http (injected fetch)', () => {
     await expect(queryCommand(['--query', 'x', '--protocol', 'http', '--save', '/tmp/x'], { fetch: fetchReturning(NATIVE_BODY) }))
       .rejects.toThrow(/--save only applies/);
   });
+
+  it('unwraps a compressed body and reports the wire layer', async () => {
+    const wire = new Uint8Array(gzipSync(NATIVE_BODY));
+    const out = await queryCommand(
+      ['--query', 'SELECT 1', '--protocol', 'http', '--compression', 'gzip'],
+      { fetch: fetchReturning(wire) },
+    );
+    const env = out.data as {
+      format: string;
+      bytesHex: string;
+      source: { compression: string };
+      wire: { compression: string; byteLength: number; decompressedLength: number; bytesHex: string; nodes: { type: string; bytes: string }[] };
+    };
+    expect(env.format).toBe('Native');
+    expect(env.bytesHex).toBe(Buffer.from(NATIVE_BODY).toString('hex'));
+    expect(env.source.compression).toBe('gzip');
+    expect(env.wire).toMatchObject({ compression: 'gzip', byteLength: wire.length, decompressedLength: NATIVE_BODY.length });
+    expect(env.wire.bytesHex).toBe(Buffer.from(wire).toString('hex'));
+    expect(env.wire.nodes[0].type).toBe('Compression.GzipMember');
+    expect(env.wire.nodes[0].bytes).toBe(env.wire.bytesHex);
+  });
+
+  it('decodes the body as is when the server did not compress it', async () => {
+    const out = await queryCommand(
+      ['--query', 'SELECT 1', '--protocol', 'http', '--compression', 'zstd'],
+      { fetch: fetchReturning(NATIVE_BODY) },
+    );
+    expect((out.data as { wire?: unknown }).wire).toBeUndefined();
+  });
+
+  it('rejects --compression with tcp and unknown methods', async () => {
+    await expect(queryCommand(['--query', 'x', '--compression', 'gzip'], { captureQuery: async () => { throw new Error('unused'); } }))
+      .rejects.toThrow(/--compression only applies/);
+    await expect(queryCommand(['--query', 'x', '--protocol', 'http', '--compression', 'brotli'], { fetch: fetchReturning(NATIVE_BODY) }))
+      .rejects.toThrow(/unknown --compression/);
+  });
 });
 
 describe('decode — edge & error paths', () => {
@@ -449,6 +664,21 @@ describe('query — http request construction (spied fetch)', () => {
     await queryCommand(['--query', 'x', '--protocol', 'http', '--protocol-version', '54465'], { fetch: fetchSpy }).catch(() => {});
     expect(new URL(url).searchParams.get('client_protocol_version')).toBe('54465');
   });
+
+  it('asks for --compression via compress=1 or enable_http_compression + Accept-Encoding', async () => {
+    const requests: { url: URL; headers: Record<string, string> }[] = [];
+    const fetchSpy = (async (u: string | URL | Request, i?: RequestInit) => {
+      requests.push({ url: new URL(String(u)), headers: i!.headers as Record<string, string> });
+      return new Response(NATIVE_BODY, { status: 200 });
+    }) as typeof fetch;
+    await queryCommand(['--query', 'x', '--protocol', 'http', '--compression', 'native'], { fetch: fetchSpy }).catch(() => {});
+    await queryCommand(['--query', 'x', '--protocol', 'http', '--compression', 'lz4'], { fetch: fetchSpy });
+
+    expect(requests[0].url.searchParams.get('compress')).toBe('1');
+    expect(requests[0].headers['Accept-Encoding']).toBeUndefined();
+    expect(requests[1].url.searchParams.get('enable_http_compression')).toBe('1');
+    expect(requests[1].headers['Accept-Encoding']).toBe('lz4');
+  });
 });
 
 describe('query / capture — failure modes', () => {
@@ -523,6 +753,128 @@ describe('capture — aliases & raw stdout variants', () => {
   });
 });
 
+describe('encode', () => {
+  it('scripts a .chproto dump and encodes the edited script back to a dump', async () => {
+    const scriptPath = join(tmpdir(), `chfx-encode-${process.pid}.json`);
+    try {
+      const scripted = await encodeCommand([fixturePath('01-simple-select.chproto')]);
+      if (scripted.stdout !== 'json') throw new Error('expected json');
+      const script = scripted.data as { chfx: { command: string }; packets: Record<string, unknown>[] };
+      expect(script.chfx.command).toBe('encode');
+      expect(script.packets[0]).toMatchObject({ dir: 'client', type: 'ClientHello', protocol_version: 54482 });
+
+      const unchanged = await encodeCommand(['-o', scriptPath, fixturePath('01-simple-select.chproto')]);
+      expect((unchanged as { data: { packets: number } }).data.packets).toBe(script.packets.length);
+      const dump = await encodeCommand([scriptPath]);
+      if (dump.stdout !== 'raw') throw new Error('expected raw');
+      const original = parseChprotoDump(readFixture('01-simple-select.chproto'));
+      const reparsed = parseChprotoDump(dump.bytes);
+      expect(Buffer.from(reparsed.c2s).equals(Buffer.from(original.c2s))).toBe(true);
+      expect(Buffer.from(reparsed.s2c).equals(Buffer.from(original.s2c))).toBe(true);
+
+      const query = script.packets.find((p) => p.type === 'Query')!;
+      query.query_body = 'SELECT 1';
+      writeFileSync(scriptPath, JSON.stringify(script));
+      const dumpPath = scriptPath.replace(/\.json$/, '.chproto');
+      const summary = await encodeCommand([scriptPath, '--out', dumpPath]);
+      expect(summary).toMatchObject({ stdout: 'json', data: { saved: dumpPath, protocolVersion: 54482 } });
+      const decoded = decodeBuffer(new Uint8Array(readFileSync(dumpPath)));
+      expect(JSON.stringify(decoded.parsed.trailingNodes, (_k, v) => (typeof v === 'bigint' ? String(v) : v))).toContain(
+        '"SELECT 1"',
+      );
+      rmSync(dumpPath, { force: true });
+    } finally {
+      rmSync(scriptPath, { force: true });
+    }
+  });
+
+  it('reports malformed input and invalid scripts', async () => {
+    const path = join(tmpdir(), `chfx-encode-bad-${process.pid}.json`);
+    try {
+      writeFileSync(path, 'not json');
+      await expect(encodeCommand([path])).rejects.toMatchObject({ kind: 'usage' });
+      writeFileSync(path, JSON.stringify({ packets: [{ dir: 'client', type: 'Hello' }] }));
+      await expect(encodeCommand([path])).rejects.toMatchObject({
+        kind: 'decode',
+        message: expect.stringMatching(/packet 0 \(client Hello\): unknown client packet type "Hello"/),
+      });
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+});
+
+describe('diff', () => {
+  it('reports a changed value with both sides and their bytes', async () => {
+    const dir = join(tmpdir(), `chfx-diff-${process.pid}`);
+    mkdirSync(dir, { recursive: true });
+    try {
+      writeFileSync(join(dir, 'a.bin'), ROWBINARY_BODY);
+      writeFileSync(join(dir, 'b.bin'), new Uint8Array([...ROWBINARY_BODY.subarray(0, -1), 0x02]));
+      const out = await diffCommand([join(dir, 'a.bin'), join(dir, 'b.bin'), '--format', 'rowbinary', '--compact']);
+      expect(out.compact).toBe(true);
+      const data = out.data as { chfx: { command: string }; identical: boolean; summary: unknown; entries: unknown[] };
+      expect(data.chfx.command).toBe('diff');
+      expect(data.identical).toBe(false);
+      expect(data.summary).toEqual({ added: 0, removed: 0, changed: 1, unchanged: 3 });
+      expect(data.entries).toEqual([
+        {
+          path: 'row[0]/x',
+          depth: 1,
+          status: 'changed',
+          a: { nodeId: 'node-0', type: 'UInt8', value: '1', byteRange: { start: 9, end: 10 }, bytes: '01' },
+          b: { nodeId: 'node-0', type: 'UInt8', value: '2', byteRange: { start: 9, end: 10 }, bytes: '02' },
+        },
+      ]);
+
+      const all = await diffCommand([join(dir, 'a.bin'), join(dir, 'a.bin'), '-f', 'rowbinary', '--all', '--no-node-bytes']);
+      const same = all.data as { identical: boolean; entries: { status: string; a: Record<string, unknown> }[] };
+      expect(same.identical).toBe(true);
+      expect(same.entries.map((e) => e.status)).toEqual(Array(4).fill('unchanged'));
+      expect(same.entries[0].a.bytes).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('aligns two captures by packet and reads input b at --protocol-version-b', async () => {
+    const out = await diffCommand([fixturePath('01-simple-select.chproto'), fixturePath('05-multiblock.chproto')]);
+    const data = out.data as { a: { format: string }; entries: { path: string; status: string }[] };
+    expect(data.a.format).toBe(ClickHouseFormat.NativeProtocol);
+    expect(data.entries).toContainEqual(expect.objectContaining({ path: 'client → server/Query/query_body', status: 'changed' }));
+
+    const dir = join(tmpdir(), `chfx-diff-native-${process.pid}`);
+    mkdirSync(dir, { recursive: true });
+    try {
+      // The same block as a client at 54405 receives it: with BlockInfo.
+      writeFileSync(join(dir, 'old.bin'), NATIVE_BODY);
+      writeFileSync(join(dir, 'new.bin'), new NativeEncoder(54405).encode([[{ name: 'x', type: 'UInt8', values: [1] }]]));
+      const versions = await diffCommand([join(dir, 'old.bin'), join(dir, 'new.bin'), '-f', 'native', '--protocol-version-b', '54405']);
+      const diff = versions.data as { a: unknown; b: unknown; entries: { path: string; status: string }[] };
+      expect(diff).toMatchObject({ a: { protocolVersion: 0 }, b: { protocolVersion: 54405 } });
+      expect(diff.entries).toContainEqual(expect.objectContaining({ path: 'block[0]/header/blockInfo', status: 'added' }));
+      expect(diff.entries.filter((e) => e.path.startsWith('block[0]/column[x]') && e.status !== 'unchanged')).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('needs exactly two inputs and names the side that fails to decode', async () => {
+    await expect(diffCommand([fixturePath('01-simple-select.chproto')])).rejects.toMatchObject({ kind: 'usage' });
+    await expect(diffCommand(['-', '-'])).rejects.toMatchObject({ kind: 'usage', message: 'only one diff input can be stdin' });
+    const bad = join(tmpdir(), `chfx-diff-bad-${process.pid}.bin`);
+    writeFileSync(bad, 'garbage');
+    try {
+      await expect(diffCommand([bad, fixturePath('01-simple-select.chproto'), '-f', 'chproto'])).rejects.toMatchObject({
+        kind: 'decode',
+        message: expect.stringMatching(/^input a: /),
+      });
+    } finally {
+      rmSync(bad, { force: true });
+    }
+  });
+});
+
 describe('connection — env fallbacks & precedence', () => {
   it('uses CH_NATIVE_HOST/PORT when flags are absent, flags win when present', () => {
     withEnv({ CH_NATIVE_HOST: 'envhost', CH_NATIVE_PORT: '9999' }, () => {
@@ -559,6 +911,91 @@ describe('native proxy — no hang when the client exits before connecting', ()
     // 10s timeout fails the test if that regresses.
     await expect(captureQuery({ query: 'SELECT 1', clientPath: 'false' })).rejects.toThrow(/exited/);
   }, 10000);
+
+  it('pipes insertFile to the client, which forwards it through the proxy', async () => {
+    // A stand-in client: connect to --port and copy stdin onto the socket.
+    const dir = join(tmpdir(), `chfx-fake-client-${process.pid}`);
+    const client = join(dir, 'client.mjs');
+    const data = join(dir, 'rows.csv');
+    const upstream = net.createServer((sock) => sock.on('data', () => {}).on('end', () => sock.end()));
+    await new Promise<void>((r) => upstream.listen(0, '127.0.0.1', r));
+    try {
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(
+        client,
+        `#!/usr/bin/env node\nimport net from 'node:net';\nconst port = Number(process.argv[process.argv.indexOf('--port') + 1]);\nconst s = net.connect(port, '127.0.0.1', () => process.stdin.pipe(s));\ns.on('close', () => process.exit(0));\n`,
+        { mode: 0o755 },
+      );
+      writeFileSync(data, '1,a\n2,b\n');
+      const { port } = upstream.address() as net.AddressInfo;
+      const capture = await captureQuery({ query: 'INSERT INTO t FORMAT CSV', port, clientPath: client, insertFile: data });
+      expect(capture.c2s.toString()).toBe('1,a\n2,b\n');
+      expect(capture.meta.insertFile).toBe(data);
+    } finally {
+      upstream.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }, 10000);
+});
+
+/** A dump whose query is never ended by the server and whose first Data block has a row */
+function writeNonConformingDump(path: string): void {
+  const script = encodeProtocolScript({
+    packets: [
+      { dir: 'client', type: 'ClientHello', protocol_version: 54483 },
+      { dir: 'server', type: 'ServerHello', version_major: 26, version_minor: 2, protocol_version: 54483 },
+      { dir: 'client', type: 'Addendum' },
+      { dir: 'client', type: 'Query', query_body: 'SELECT 1' },
+      { dir: 'client', type: 'Data', block: { rows: 1, columns: [{ name: 'x', type: 'UInt8', data: '01' }] } },
+    ],
+  });
+  writeFileSync(path, encodeChprotoDump(script));
+}
+
+describe('lint', () => {
+  it('passes a conforming capture', async () => {
+    const out = await lintCommand([fixturePath('01-simple-select.chproto')]);
+    expect(out.exitCode).toBe(0);
+    const data = out.data as { chfx: { command: string }; ok: boolean; findings: unknown[]; rules: { id: string }[] };
+    expect(data.chfx.command).toBe('lint');
+    expect(data.ok).toBe(true);
+    expect(data.findings).toEqual([]);
+    expect(data.rules.map((r) => r.id)).toContain('query.end-of-stream');
+  });
+
+  it('lists the violations with their bytes and exits nonzero', async () => {
+    const path = join(tmpdir(), `chfx-lint-${process.pid}.chproto`);
+    writeNonConformingDump(path);
+    try {
+      const out = await lintCommand([path]);
+      expect(out.exitCode).toBe(LINT_VIOLATION_EXIT_CODE);
+      const data = out.data as { ok: boolean; errors: number; findings: { code: string; bytes: string }[] };
+      expect(data).toMatchObject({ ok: false, errors: 2 });
+      expect(data.findings.map((f) => f.code)).toEqual(['query.empty-block-first', 'query.end-of-stream']);
+      expect(data.findings[0].bytes).toMatch(/^02/); // the client Data packet
+
+      const only = await lintCommand([path, '--rule', 'query.end-of-stream', '--no-node-bytes']);
+      expect((only.data as { findings: object[] }).findings).toEqual([
+        expect.not.objectContaining({ bytes: expect.anything() }),
+      ]);
+      await expect(lintCommand([path, '--rule', 'nope'])).rejects.toThrow('invalid --rule');
+      await expect(lintCommand([fixturePath('01-simple-select.chproto'), '--format', 'native'])).rejects.toThrow(
+        'unknown option',
+      );
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  it('rejects input that is not a .chproto dump', async () => {
+    const path = join(tmpdir(), `chfx-lint-body-${process.pid}.bin`);
+    writeFileSync(path, ROWBINARY_BODY);
+    try {
+      await expect(lintCommand([path])).rejects.toMatchObject({ kind: 'usage' });
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
 });
 
 describe('end-to-end via tsx (entry, stdin, exit codes)', () => {
@@ -589,6 +1026,24 @@ describe('end-to-end via tsx (entry, stdin, exit codes)', () => {
     expect(JSON.parse(stderr).error.kind).toBe('usage');
   }, 30000);
 
+  it('lint prints its findings and exits 3 on violations', () => {
+    const path = join(tmpdir(), `chfx-lint-e2e-${process.pid}.chproto`);
+    writeNonConformingDump(path);
+    let code = 0;
+    let stdout = '';
+    try {
+      execFileSync('npx', ['tsx', CLI_ENTRY, 'lint', path, '--compact'], { stdio: ['ignore', 'pipe', 'pipe'] });
+    } catch (err) {
+      const e = err as { status: number; stdout: Buffer };
+      code = e.status;
+      stdout = e.stdout.toString();
+    } finally {
+      rmSync(path, { force: true });
+    }
+    expect(code).toBe(3);
+    expect(JSON.parse(stdout).errors).toBe(2);
+  }, 30000);
+
   it('prints the version and exits 0', () => {
     expect(run(['--version']).trim()).toMatch(/^\d+\.\d+\.\d+/);
   }, 30000);
@@ -812,9 +1267,14 @@ describe('startCaptureProxy — real sockets', () => {
     expect([...captured!.c2s]).toEqual([0x01, 0x02, 0x03]);
     expect([...captured!.s2c]).toEqual([0xaa, 0xbb, 0x01, 0x02, 0x03]);
     expect(captured!.meta).toMatchObject({ source: 'proxy', connection: 1, target: `127.0.0.1:${upPort}` });
-    // A round-tripped dump preserves the captured streams.
-    const round = parseChprotoDump(new Uint8Array(encodeDump(captured!)));
+    // A round-tripped dump preserves the captured streams, and when each segment was seen.
+    const dump = new Uint8Array(encodeDump(captured!));
+    expect(Buffer.from(dump.subarray(0, 8)).toString()).toBe('CHPROTO2');
+    const round = parseChprotoDump(dump);
     expect([...round.c2s]).toEqual([0x01, 0x02, 0x03]);
+    const times = round.segments.map((s) => s.time!);
+    expect(times).toEqual(captured!.segments.map((s) => s.time));
+    expect(times).toEqual([...times].sort((a, b) => a - b));
   }, 15000);
 
   it('does not hang in `once` mode when the upstream refuses the connection', async () => {
@@ -1,39 +1,60 @@
-import { writeFile } from 'node:fs/promises';
+import { access, writeFile } from 'node:fs/promises';
 
-import {
-  captureQuery as defaultCaptureQuery,
-  encodeDump,
-  type Capture,
-  type CaptureQueryOptions,
-} from '../../../scripts/native-proxy.mjs';
+import { encodeDump, type Capture } from '../../../scripts/native-proxy.mjs';
 
 import { parseArgs, stringOption, boolOption, rejectUnknownArgs } from '../args';
 import { CliError, type CommandOutput } from '../output';
 import { CHFX_VERSION, CLI_SCHEMA_VERSION } from '../version';
-import { resolveCaptureOptions, CONNECTION_VALUE_FLAGS, CONNECTION_MULTI_FLAGS, CONNECTION_ALLOWED } from '../connection';
+import { captureWithDefaultClient } from '../capture-client';
+import {
+  resolveCaptureOptions,
+  CONNECTION_VALUE_FLAGS,
+  CONNECTION_MULTI_FLAGS,
+  CONNECTION_ALLOWED,
+  type CaptureOptions,
+} from '../connection';
 
 export interface CaptureDeps {
-  captureQuery: (opts: CaptureQueryOptions) => Promise<Capture>;
+  captureQuery: (opts: CaptureOptions) => Promise<Capture>;
 }
 
 /**
  * Capture a query over the native protocol to a .chproto dump, without decoding.
  * With `--out <file>` it writes the dump and prints a JSON summary; otherwise it
  * streams the raw dump bytes to stdout (so `chfx capture … | chfx decode` works).
+ * The built-in client does the capture unless `--client` names a
+ * clickhouse-client. `--insert-file <path>` always goes through
+ * clickhouse-client, which parses the file and sends it as the data of an
+ * `INSERT … FORMAT <fmt>` query, so the capture holds the client's Data blocks.
  */
 export async function captureCommand(
   rest: string[],
-  deps: CaptureDeps = { captureQuery: defaultCaptureQuery },
+  deps: CaptureDeps = { captureQuery: captureWithDefaultClient },
 ): Promise<CommandOutput> {
   const args = parseArgs(rest, {
-    valueFlags: [...CONNECTION_VALUE_FLAGS, 'out'],
+    valueFlags: [...CONNECTION_VALUE_FLAGS, 'out', 'insert-file'],
     multiFlags: CONNECTION_MULTI_FLAGS,
     aliases: { o: 'out' },
   });
-  rejectUnknownArgs(args, [...CONNECTION_ALLOWED, 'out', 'compact']);
+  rejectUnknownArgs(args, [...CONNECTION_ALLOWED, 'out', 'insert-file', 'compact']);
   const compact = boolOption(args, 'compact');
   const out = stringOption(args, 'out');
+  const insertFile = stringOption(args, 'insert-file');
   const captureOpts = resolveCaptureOptions(args);
+  if (insertFile !== undefined) {
+    if (captureOpts.protocolVersion !== undefined) {
+      throw new CliError('usage', '--protocol-version cannot be combined with --insert-file (the file is sent through clickhouse-client)');
+    }
+    if (!/^\s*INSERT\b/i.test(captureOpts.query)) {
+      throw new CliError('usage', '--insert-file needs an INSERT query, e.g. --query "INSERT INTO t FORMAT CSV"');
+    }
+    try {
+      await access(insertFile);
+    } catch (err) {
+      throw new CliError('io', `cannot read --insert-file: ${insertFile}`, { cause: (err as Error).message });
+    }
+    captureOpts.insertFile = insertFile;
+  }
 
   let capture: Capture;
   try {
@@ -56,6 +77,7 @@ export async function captureCommand(
   const data = {
     chfx: { tool: 'chfx', version: CHFX_VERSION, schemaVersion: CLI_SCHEMA_VERSION, command: 'capture' },
     query: captureOpts.query,
+    ...(insertFile !== undefined ? { insertFile } : {}),
     saved: out,
     bytes: dump.length,
     c2sBytes: capture.c2s.length,
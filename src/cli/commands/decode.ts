@@ -1,21 +1,49 @@
 import process from 'node:process';
-import { readFile } from 'node:fs/promises';
+import { once } from 'node:events';
+import { open, readFile } from 'node:fs/promises';
 import { Buffer } from 'node:buffer';
 
-import { ClickHouseFormat } from '../../core/types/formats';
-import type { ParsedData } from '../../core/types/ast';
-import { createDecoder, ProtocolDecoder } from '../../core/decoder';
+import { ClickHouseFormat, HttpCompression } from '../../core/types/formats';
+import type { AstNode, ParsedData } from '../../core/types/ast';
+import { looksCompressed, readHttpWireLayer } from '../../core/compression/http-body';
+import { createDecoder, exchangesOf, profileEventsOf, ProtocolDecoder, selectExchange } from '../../core/decoder';
+import { undecodedRanges } from '../../core/decoder/format-decoder';
+import { decodeStream, type ByteSource } from '../../core/decoder/stream-decoder';
+import { analyzeCoverage } from '../../core/coverage';
+import { parseSearch, searchParsed, type SearchTerm } from '../../core/search';
 import { parseChprotoDump } from '../../core/decoder/protocol-dump';
 import { DEFAULT_NATIVE_PROTOCOL_VERSION } from '../../core/types/native-protocol';
+import { parseSchema, type SchemaColumn } from '../../core/parser/schema-parser';
+import type { RowBinaryFormat } from '../../core/decoder/rowbinary-decoder';
 
-import { CliError, type JsonOutput } from '../output';
+import { CliError, jsonReplacer, type JsonOutput, type NoneOutput } from '../output';
 import { CHFX_VERSION, CLI_SCHEMA_VERSION } from '../version';
 import { parseArgs, stringOption, boolOption, rejectUnknownArgs } from '../args';
 
-export const FORMAT_NAMES = ['chproto', 'native', 'rowbinary'] as const;
+export const FORMAT_NAMES = ['chproto', 'native', 'rowbinary', 'rowbinary-plain', 'rowbinary-names', 'rowbinary-defaults'] as const;
 export type FormatName = (typeof FORMAT_NAMES)[number];
 
-const CHPROTO_MAGIC = 'CHPROTO1';
+/** RowBinary variants whose types are not in the data; they need `--schema`. */
+const SCHEMA_FORMATS: Partial<Record<FormatName, RowBinaryFormat>> = {
+  'rowbinary-plain': ClickHouseFormat.RowBinary,
+  'rowbinary-names': ClickHouseFormat.RowBinaryWithNames,
+  'rowbinary-defaults': ClickHouseFormat.RowBinaryWithDefaults,
+};
+
+/** The decoder each `--format` name selects. */
+const STREAM_FORMATS: Record<FormatName, ClickHouseFormat> = {
+  chproto: ClickHouseFormat.NativeProtocol,
+  native: ClickHouseFormat.Native,
+  rowbinary: ClickHouseFormat.RowBinaryWithNamesAndTypes,
+  'rowbinary-plain': ClickHouseFormat.RowBinary,
+  'rowbinary-names': ClickHouseFormat.RowBinaryWithNames,
+  'rowbinary-defaults': ClickHouseFormat.RowBinaryWithDefaults,
+};
+
+export const COMPRESSION_NAMES = Object.values(HttpCompression);
+
+/** Dump revisions: CHPROTO2 adds a timestamp to every segment */
+const CHPROTO_MAGICS = ['CHPROTO1', 'CHPROTO2'];
 
 export interface DecodeCore {
   format: ClickHouseFormat;
@@ -28,16 +56,27 @@ export interface DecodeCore {
   protocol?: { negotiatedVersion: number | null; c2sLength: number; dumpMeta: Record<string, unknown> };
 }
 
+/** The compressed bytes of an HTTP body, decoded down to frames / blocks. */
+export interface WireLayer {
+  compression: HttpCompression;
+  bytes: Uint8Array;
+  nodes: AstNode[];
+}
+
 export interface DecodeResult extends DecodeCore {
   formatDetected: boolean;
+  /** Present when the input was a compressed HTTP body; outputBytes is then the decompressed body. */
+  wire?: WireLayer;
 }
 
-function isChproto(bytes: Uint8Array): boolean {
-  if (bytes.length < CHPROTO_MAGIC.length) return false;
-  for (let i = 0; i < CHPROTO_MAGIC.length; i++) {
-    if (bytes[i] !== CHPROTO_MAGIC.charCodeAt(i)) return false;
-  }
-  return true;
+export function isChproto(bytes: Uint8Array): boolean {
+  return CHPROTO_MAGICS.some((magic) => {
+    if (bytes.length < magic.length) return false;
+    for (let i = 0; i < magic.length; i++) {
+      if (bytes[i] !== magic.charCodeAt(i)) return false;
+    }
+    return true;
+  });
 }
 
 /**
@@ -78,9 +117,42 @@ function decodeNative(bytes: Uint8Array, protocolVersion: number): DecodeCore {
   return { format: ClickHouseFormat.Native, protocolVersion, outputBytes: bytes, parsed };
 }
 
-function decodeRowBinary(bytes: Uint8Array): DecodeCore {
-  const parsed = createDecoder(bytes, ClickHouseFormat.RowBinaryWithNamesAndTypes).decode();
-  return { format: ClickHouseFormat.RowBinaryWithNamesAndTypes, protocolVersion: null, outputBytes: bytes, parsed };
+function decodeRowBinary(
+  bytes: Uint8Array,
+  format: RowBinaryFormat = ClickHouseFormat.RowBinaryWithNamesAndTypes,
+  schema?: SchemaColumn[],
+): DecodeCore {
+  const parsed = createDecoder(bytes, format, { schema }).decode();
+  return { format, protocolVersion: null, outputBytes: bytes, parsed };
+}
+
+/** Parse a `--schema` column list; undefined when not given. */
+export function parseSchemaOption(raw: string | undefined): SchemaColumn[] | undefined {
+  if (raw === undefined) return undefined;
+  try {
+    return parseSchema(raw);
+  } catch (err) {
+    throw new CliError('usage', `invalid --schema: ${(err as Error).message}`);
+  }
+}
+
+/** A `--find` expression and its parsed terms; undefined when not given. */
+export function parseFindOption(raw: string | undefined): { expression: string; terms: SearchTerm[] } | undefined {
+  if (raw === undefined) return undefined;
+  try {
+    return { expression: raw, terms: parseSearch(raw) };
+  } catch (err) {
+    throw new CliError('usage', `invalid --find: ${(err as Error).message}`);
+  }
+}
+
+/** Parse a `--compression` value; undefined means none. */
+export function parseCompression(raw: string | undefined): HttpCompression {
+  if (raw === undefined) return HttpCompression.None;
+  if (!COMPRESSION_NAMES.includes(raw as HttpCompression)) {
+    throw new CliError('usage', `unknown --compression '${raw}'; expected one of ${COMPRESSION_NAMES.join(', ')}`);
+  }
+  return raw as HttpCompression;
 }
 
 /**
@@ -88,11 +160,40 @@ function decodeRowBinary(bytes: Uint8Array): DecodeCore {
  * detected by its magic header and raw bodies are autodetected best-effort by
  * trial decode (RowBinary vs Native). Ambiguous or unrecognized input is a
  * usage error directing the caller to pass `--format`.
+ *
+ * The schema-based RowBinary variants are never autodetected: they need
+ * `format` plus a `schema` with the column names and types.
+ *
+ * With `compression`, the buffer is an HTTP body that was requested
+ * compressed: it is unwrapped first and the frames are returned as `wire`. A
+ * body the server sent uncompressed anyway is decoded as is.
  */
 export function decodeBuffer(
   bytes: Uint8Array,
-  opts: { format?: FormatName; protocolVersion?: number } = {},
+  opts: { format?: FormatName; protocolVersion?: number; compression?: HttpCompression; schema?: SchemaColumn[] } = {},
 ): DecodeResult {
+  const schemaFormat = opts.format && SCHEMA_FORMATS[opts.format];
+  if (schemaFormat && !opts.schema) {
+    throw new CliError('usage', `--format ${opts.format} needs --schema "<name> <type>, ..."`);
+  }
+  if (opts.schema && !schemaFormat) {
+    throw new CliError('usage', `--schema only applies to --format ${Object.keys(SCHEMA_FORMATS).join('|')}`);
+  }
+
+  const compression = opts.compression ?? HttpCompression.None;
+  if (compression !== HttpCompression.None) {
+    if (opts.format === 'chproto' || isChproto(bytes)) {
+      throw new CliError('usage', '--compression applies to HTTP bodies, not .chproto captures');
+    }
+    if (!looksCompressed(bytes, compression)) {
+      return decodeBuffer(bytes, { ...opts, compression: undefined });
+    }
+    let id = 0;
+    const layer = readHttpWireLayer(bytes, compression, () => `wire-${id++}`);
+    const inner = decodeBuffer(layer.body, { ...opts, compression: undefined });
+    return { ...inner, wire: { compression, bytes, nodes: layer.nodes } };
+  }
+
   const version = opts.protocolVersion ?? DEFAULT_NATIVE_PROTOCOL_VERSION;
 
   if (opts.format) {
@@ -101,7 +202,7 @@ export function decodeBuffer(
         ? decodeChproto(bytes)
         : opts.format === 'native'
           ? decodeNative(bytes, version)
-          : decodeRowBinary(bytes);
+          : decodeRowBinary(bytes, schemaFormat || undefined, opts.schema);
     return { ...core, formatDetected: false };
   }
 
@@ -109,15 +210,21 @@ export function decodeBuffer(
     return { ...decodeChproto(bytes), formatDetected: true };
   }
 
-  // Raw body: trial-decode each candidate; a wrong format almost always throws.
-  const matched: DecodeCore[] = [];
+  // Raw body: trial-decode each candidate; a wrong format almost always
+  // stops part-way, so only complete decodes match. A truncated body decodes
+  // completely as neither; then the one candidate that decoded any data wins.
+  const candidates: DecodeCore[] = [];
   for (const run of [() => decodeRowBinary(bytes), () => decodeNative(bytes, version)]) {
     try {
-      matched.push(run());
+      candidates.push(run());
     } catch {
       // not this format
     }
   }
+  let matched = candidates.filter((c) => undecodedRanges(c.parsed).length === 0);
+  if (matched.length === 0) {
+    matched = candidates.filter((c) => (c.parsed.rows?.length ?? 0) > 0 || c.parsed.blocks?.some((b) => b.columns.length > 0));
+  }
   if (matched.length === 1) {
     return { ...matched[0], formatDetected: true };
   }
@@ -162,12 +269,24 @@ function attachNodeBytes(value: unknown, buffer: Uint8Array): unknown {
 /**
  * Build the JSON envelope shared by `decode` and `query`: tool metadata, the
  * format/version, the whole buffer as `bytesHex`, and the ParsedData tree (with
- * per-node inline bytes unless disabled).
+ * per-node inline bytes unless disabled). With `coverage`, a `coverage`
+ * section lists the bytes no leaf node claims and the bytes several claim;
+ * with `find`, a `find` section lists the nodes matching the expression;
+ * with `profileEvents`, a `profileEvents` section sums a chproto capture's
+ * ProfileEvents counters per query. `queryIndex` records which exchange a
+ * chproto decode was cut down to.
  */
 export function buildDecodeEnvelope(
   result: DecodeResult,
   source: Record<string, unknown>,
-  opts: { command: string; includeNodeBytes: boolean },
+  opts: {
+    command: string;
+    includeNodeBytes: boolean;
+    coverage?: boolean;
+    find?: { expression: string; terms: SearchTerm[] };
+    queryIndex?: number;
+    profileEvents?: boolean;
+  },
 ): Record<string, unknown> {
   return {
     chfx: { tool: 'chfx', version: CHFX_VERSION, schemaVersion: CLI_SCHEMA_VERSION, command: opts.command },
@@ -177,6 +296,11 @@ export function buildDecodeEnvelope(
     protocolVersion: result.protocolVersion,
     nodeBytes: opts.includeNodeBytes,
     ...(result.protocol ? { protocol: result.protocol } : {}),
+    ...(opts.queryIndex !== undefined ? { queryIndex: opts.queryIndex } : {}),
+    ...(result.wire ? { wire: buildWireSection(result.wire, result.outputBytes, opts.includeNodeBytes) } : {}),
+    ...(opts.coverage ? { coverage: analyzeCoverage(result.parsed, result.outputBytes.length) } : {}),
+    ...(opts.find ? { find: buildFindSection(result, opts.find, opts.includeNodeBytes) } : {}),
+    ...(opts.profileEvents ? { profileEvents: buildProfileEventsSection(result.parsed) } : {}),
     conventions: {
       byteRange:
         'Each node has byteRange {start, end} into bytesHex (2 hex chars per byte; start inclusive, end exclusive).',
@@ -188,7 +312,67 @@ export function buildDecodeEnvelope(
   };
 }
 
-async function readInput(path: string | undefined): Promise<{ bytes: Uint8Array; source: Record<string, unknown> }> {
+/**
+ * The compressed layer of an HTTP body: the bytes as received and their frame
+ * nodes, whose byteRanges index into this section's own bytesHex. The
+ * top-level bytesHex / data describe the decompressed body.
+ */
+function buildWireSection(wire: WireLayer, body: Uint8Array, includeNodeBytes: boolean): Record<string, unknown> {
+  return {
+    compression: wire.compression,
+    byteLength: wire.bytes.length,
+    decompressedLength: body.length,
+    bytesHex: Buffer.from(wire.bytes).toString('hex'),
+    nodes: includeNodeBytes ? attachNodeBytes(wire.nodes, wire.bytes) : wire.nodes,
+  };
+}
+
+/**
+ * Cut a chproto decode down to the `--query-index` exchange, so the tree and
+ * every section built from it cover only that query's packets.
+ */
+function selectQuery(result: DecodeResult, queryIndex: number): DecodeResult {
+  if (result.format !== ClickHouseFormat.NativeProtocol) {
+    throw new CliError('usage', '--query-index only applies to .chproto captures');
+  }
+  try {
+    return { ...result, parsed: selectExchange(result.parsed, queryIndex) };
+  } catch (err) {
+    throw new CliError('usage', `invalid --query-index: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * What the server counted while running each query: its ProfileEvents
+ * counters summed per event name, increments added up and gauges at their
+ * latest reading.
+ */
+function buildProfileEventsSection(parsed: ParsedData): Record<string, unknown> {
+  return {
+    queries: exchangesOf(parsed).map((exchange) => ({
+      index: exchange.index,
+      queryId: exchange.queryId,
+      query: exchange.query,
+      events: profileEventsOf(parsed, exchange.index),
+    })),
+  };
+}
+
+/** The nodes matching a `--find` expression, in tree order, with their bytes unless disabled. */
+function buildFindSection(
+  result: DecodeResult,
+  find: { expression: string; terms: SearchTerm[] },
+  includeNodeBytes: boolean,
+): Record<string, unknown> {
+  const { matches } = searchParsed(result.parsed, find.terms);
+  return {
+    expression: find.expression,
+    matchCount: matches.length,
+    matches: includeNodeBytes ? attachNodeBytes(matches, result.outputBytes) : matches,
+  };
+}
+
+export async function readInput(path: string | undefined): Promise<{ bytes: Uint8Array; source: Record<string, unknown> }> {
   if (path && path !== '-') {
     try {
       const buf = await readFile(path);
@@ -206,7 +390,7 @@ async function readInput(path: string | undefined): Promise<{ bytes: Uint8Array;
   return { bytes: new Uint8Array(buf), source: { kind: 'stdin', byteLength: buf.length } };
 }
 
-function parseProtocolVersion(raw: string | undefined): number | undefined {
+export function parseProtocolVersion(raw: string | undefined): number | undefined {
   if (raw === undefined) return undefined;
   const n = Number(raw);
   if (!Number.isInteger(n) || n < 0) {
@@ -215,27 +399,129 @@ function parseProtocolVersion(raw: string | undefined): number | undefined {
   return n;
 }
 
+function parseQueryIndex(raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  if (raw.trim() === '' || !Number.isInteger(n) || n < 0) {
+    throw new CliError('usage', `--query-index must be a non-negative integer, got: ${raw}`);
+  }
+  return n;
+}
+
 export async function decodeCommand(rest: string[]): Promise<JsonOutput> {
   const args = parseArgs(rest, {
-    valueFlags: ['format', 'protocol-version'],
+    valueFlags: ['format', 'protocol-version', 'compression', 'schema', 'find', 'query-index'],
     aliases: { f: 'format' },
   });
-  rejectUnknownArgs(args, ['format', 'protocol-version', 'compact', 'no-node-bytes'], 1);
+  rejectUnknownArgs(
+    args,
+    [
+      'format',
+      'protocol-version',
+      'compression',
+      'schema',
+      'compact',
+      'no-node-bytes',
+      'coverage',
+      'find',
+      'query-index',
+      'profile-events',
+    ],
+    1,
+  );
 
   const format = stringOption(args, 'format') as FormatName | undefined;
   if (format && !FORMAT_NAMES.includes(format)) {
     throw new CliError('usage', `unknown --format '${format}'; expected one of ${FORMAT_NAMES.join(', ')}`);
   }
   const protocolVersion = parseProtocolVersion(stringOption(args, 'protocol-version'));
+  const compression = parseCompression(stringOption(args, 'compression'));
+  const schema = parseSchemaOption(stringOption(args, 'schema'));
   const compact = boolOption(args, 'compact');
   const includeNodeBytes = !boolOption(args, 'no-node-bytes');
+  const coverage = boolOption(args, 'coverage');
+  const find = parseFindOption(stringOption(args, 'find'));
+  const queryIndex = parseQueryIndex(stringOption(args, 'query-index'));
+  const profileEvents = boolOption(args, 'profile-events');
 
   const { bytes, source } = await readInput(args.positionals[0]);
   if (bytes.length === 0) {
     throw new CliError('usage', 'input is empty');
   }
 
-  const result = decodeBuffer(bytes, { format, protocolVersion });
-  const data = buildDecodeEnvelope(result, source, { command: 'decode', includeNodeBytes });
+  let result = decodeBuffer(bytes, { format, protocolVersion, compression, schema });
+  if (queryIndex !== undefined) result = selectQuery(result, queryIndex);
+  if (profileEvents && result.format !== ClickHouseFormat.NativeProtocol) {
+    throw new CliError('usage', '--profile-events only applies to .chproto captures');
+  }
+  const data = buildDecodeEnvelope(result, source, {
+    command: 'decode',
+    includeNodeBytes,
+    coverage,
+    find,
+    queryIndex,
+    profileEvents,
+  });
   return { stdout: 'json', data, compact };
 }
+
+/** Write one NDJSON line to stdout, waiting for the pipe to drain when it is full. */
+async function writeLine(line: string): Promise<void> {
+  if (!process.stdout.write(`${line}\n`)) await once(process.stdout, 'drain');
+}
+
+/** The input as chunks, without reading it all first. */
+async function openInput(path: string | undefined): Promise<ByteSource> {
+  if (path && path !== '-') {
+    try {
+      return (await open(path)).createReadStream();
+    } catch (err) {
+      throw new CliError('io', `cannot read file: ${path}`, { cause: (err as Error).message });
+    }
+  }
+  if (process.stdin.isTTY) {
+    throw new CliError('usage', 'no input: pass a file path or pipe binary data to stdin');
+  }
+  return process.stdin;
+}
+
+/**
+ * `chfx decode --stream`: decode the input as it is read and print one JSON
+ * line per header / row / block / packet / diagnostic, ending with an `end`
+ * line, so a dump too large for one JSON document can be piped through.
+ * Nodes carry no inline bytes; byteRanges index into the buffer `decode`
+ * would report (the input, or a capture's client then server bytes). `write`
+ * receives each line (stdout by default).
+ */
+export async function decodeStreamCommand(
+  rest: string[],
+  write: (line: string) => Promise<void> = writeLine,
+): Promise<NoneOutput> {
+  const args = parseArgs(rest, {
+    valueFlags: ['format', 'protocol-version', 'schema'],
+    aliases: { f: 'format' },
+  });
+  rejectUnknownArgs(args, ['stream', 'format', 'protocol-version', 'schema'], 1);
+
+  const format = stringOption(args, 'format') as FormatName | undefined;
+  if (!format) {
+    throw new CliError('usage', `--stream cannot autodetect; pass --format ${FORMAT_NAMES.join('|')}`);
+  }
+  if (!FORMAT_NAMES.includes(format)) {
+    throw new CliError('usage', `unknown --format '${format}'; expected one of ${FORMAT_NAMES.join(', ')}`);
+  }
+  const schema = parseSchemaOption(stringOption(args, 'schema'));
+  if (SCHEMA_FORMATS[format] && !schema) {
+    throw new CliError('usage', `--format ${format} needs --schema "<name> <type>, ..."`);
+  }
+  if (schema && !SCHEMA_FORMATS[format]) {
+    throw new CliError('usage', `--schema only applies to --format ${Object.keys(SCHEMA_FORMATS).join('|')}`);
+  }
+  const nativeProtocolVersion = parseProtocolVersion(stringOption(args, 'protocol-version'));
+
+  const source = await openInput(args.positionals[0]);
+  for await (const item of decodeStream(source, STREAM_FORMATS[format], { nativeProtocolVersion, schema })) {
+    await write(JSON.stringify(item, jsonReplacer));
+  }
+  return { stdout: 'none' };
+}
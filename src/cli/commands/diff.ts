@@ -0,0 +1,95 @@
+import { Buffer } from 'node:buffer';
+
+import { diffParsed, type DiffSide } from '../../core/structural-diff';
+
+import { parseArgs, stringOption, boolOption, rejectUnknownArgs } from '../args';
+import { CliError, type JsonOutput } from '../output';
+import { CHFX_VERSION, CLI_SCHEMA_VERSION } from '../version';
+import {
+  decodeBuffer,
+  parseCompression,
+  parseProtocolVersion,
+  parseSchemaOption,
+  readInput,
+  FORMAT_NAMES,
+  type DecodeResult,
+  type FormatName,
+} from './decode';
+
+/**
+ * Decode two dumps the way `decode` would and emit their structural diff:
+ * nodes aligned by label path, each added, removed, changed or (with --all)
+ * unchanged. `--protocol-version-b` reads the second input at another Native
+ * protocol version, for comparing what two client revisions receive.
+ */
+export async function diffCommand(rest: string[]): Promise<JsonOutput> {
+  const valueFlags = ['format', 'protocol-version', 'protocol-version-b', 'compression', 'schema'];
+  const args = parseArgs(rest, { valueFlags, aliases: { f: 'format' } });
+  rejectUnknownArgs(args, [...valueFlags, 'all', 'compact', 'no-node-bytes'], 2);
+  if (args.positionals.length !== 2) {
+    throw new CliError('usage', 'diff needs two inputs: chfx diff <a> <b>');
+  }
+  if (args.positionals.every((p) => p === '-')) {
+    throw new CliError('usage', 'only one diff input can be stdin');
+  }
+
+  const format = stringOption(args, 'format') as FormatName | undefined;
+  if (format && !FORMAT_NAMES.includes(format)) {
+    throw new CliError('usage', `unknown --format '${format}'; expected one of ${FORMAT_NAMES.join(', ')}`);
+  }
+  const protocolVersion = parseProtocolVersion(stringOption(args, 'protocol-version'));
+  const protocolVersionB = parseProtocolVersion(stringOption(args, 'protocol-version-b')) ?? protocolVersion;
+  const compression = parseCompression(stringOption(args, 'compression'));
+  const schema = parseSchemaOption(stringOption(args, 'schema'));
+  const includeUnchanged = boolOption(args, 'all');
+  const includeNodeBytes = !boolOption(args, 'no-node-bytes');
+  const compact = boolOption(args, 'compact');
+
+  const decodeSide = async (name: 'a' | 'b', path: string, version: number | undefined) => {
+    const { bytes, source } = await readInput(path);
+    if (bytes.length === 0) {
+      throw new CliError('usage', `input ${name} is empty`);
+    }
+    try {
+      return { source, result: decodeBuffer(bytes, { format, protocolVersion: version, compression, schema }) };
+    } catch (err) {
+      if (err instanceof CliError) throw new CliError(err.kind, `input ${name}: ${err.message}`, err.details);
+      throw new CliError('decode', `input ${name}: ${(err as Error).message}`, { source });
+    }
+  };
+  const a = await decodeSide('a', args.positionals[0], protocolVersion);
+  const b = await decodeSide('b', args.positionals[1], protocolVersionB);
+
+  const diff = diffParsed(
+    { data: a.result.outputBytes, parsed: a.result.parsed },
+    { data: b.result.outputBytes, parsed: b.result.parsed },
+  );
+  const withBytes = (s: DiffSide | undefined, result: DecodeResult) =>
+    s && includeNodeBytes
+      ? { ...s, bytes: Buffer.from(result.outputBytes.subarray(s.byteRange.start, s.byteRange.end)).toString('hex') }
+      : s;
+  const describe = ({ source, result }: typeof a) => ({
+    source,
+    format: result.format,
+    protocolVersion: result.protocolVersion,
+    byteLength: result.outputBytes.length,
+  });
+
+  const data = {
+    chfx: { tool: 'chfx', version: CHFX_VERSION, schemaVersion: CLI_SCHEMA_VERSION, command: 'diff' },
+    a: describe(a),
+    b: describe(b),
+    identical: diff.summary.added + diff.summary.removed + diff.summary.changed === 0,
+    summary: diff.summary,
+    nodeBytes: includeNodeBytes,
+    conventions: {
+      path: 'Nodes are aligned by label path: block[i] / column[name] / row index, then value labels; repeats are numbered #2, #3, ...',
+      byteRange: "a.byteRange indexes into input a's decoded buffer, b.byteRange into input b's (decompressed bodies when --compression is set).",
+      status: 'changed = type differs, or a leaf value / its bytes differ; containers report changes through their children.',
+    },
+    entries: diff.entries
+      .filter((e) => includeUnchanged || e.status !== 'unchanged')
+      .map((e) => ({ ...e, a: withBytes(e.a, a.result), b: withBytes(e.b, b.result) })),
+  };
+  return { stdout: 'json', data, compact };
+}
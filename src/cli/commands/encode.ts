@@ -0,0 +1,89 @@
+import { writeFile } from 'node:fs/promises';
+
+import { encodeChprotoDump, parseChprotoDump } from '../../core/decoder/protocol-dump';
+import { encodeProtocolScript } from '../../core/encoder/protocol-encoder';
+import { scriptFromCapture, type ProtocolScript } from '../../core/encoder/protocol-script';
+
+import { parseArgs, stringOption, boolOption, rejectUnknownArgs } from '../args';
+import { CliError, type CommandOutput } from '../output';
+import { CHFX_VERSION, CLI_SCHEMA_VERSION } from '../version';
+import { isChproto, readInput } from './decode';
+
+const TEXT_DECODER = new TextDecoder();
+
+/**
+ * Turn a JSON protocol script (see src/core/encoder/protocol-script.ts) into a
+ * .chproto dump, or a .chproto dump into the script that re-encodes it. The
+ * input kind is detected by the dump's magic header, so
+ * `chfx encode a.chproto > a.json`, editing a.json, then
+ * `chfx encode a.json --out b.chproto` round-trips a capture through an edit.
+ * Like `capture`, a dump goes to --out (with a JSON summary on stdout) or is
+ * streamed raw to stdout.
+ */
+export async function encodeCommand(rest: string[]): Promise<CommandOutput> {
+  const args = parseArgs(rest, { valueFlags: ['out'], aliases: { o: 'out' } });
+  rejectUnknownArgs(args, ['out', 'compact'], 1);
+  const compact = boolOption(args, 'compact');
+  const out = stringOption(args, 'out');
+
+  const { bytes, source } = await readInput(args.positionals[0]);
+  if (bytes.length === 0) {
+    throw new CliError('usage', 'input is empty');
+  }
+  const chfx = { tool: 'chfx', version: CHFX_VERSION, schemaVersion: CLI_SCHEMA_VERSION, command: 'encode' };
+
+  if (isChproto(bytes)) {
+    let script: ProtocolScript;
+    try {
+      script = scriptFromCapture(parseChprotoDump(bytes));
+    } catch (err) {
+      throw new CliError('decode', (err as Error).message, { source });
+    }
+    const data = { chfx, ...script };
+    if (out && out !== '-') {
+      await writeOut(out, JSON.stringify(data, null, 2) + '\n');
+      return { stdout: 'json', data: { chfx, source, saved: out, packets: script.packets.length }, compact };
+    }
+    return { stdout: 'json', data, compact };
+  }
+
+  let script: ProtocolScript;
+  try {
+    script = JSON.parse(TEXT_DECODER.decode(bytes)) as ProtocolScript;
+  } catch (err) {
+    throw new CliError('usage', 'input is neither a .chproto dump nor a JSON protocol script', {
+      cause: (err as Error).message,
+    });
+  }
+  let encoded: ReturnType<typeof encodeProtocolScript>;
+  try {
+    encoded = encodeProtocolScript(script);
+  } catch (err) {
+    throw new CliError('decode', `invalid protocol script: ${(err as Error).message}`, { source });
+  }
+  const dump = encodeChprotoDump(encoded);
+
+  if (!out || out === '-') {
+    return { stdout: 'raw', bytes: dump };
+  }
+  await writeOut(out, dump);
+  const data = {
+    chfx,
+    source,
+    saved: out,
+    bytes: dump.length,
+    c2sBytes: encoded.c2s.length,
+    s2cBytes: encoded.s2c.length,
+    packets: script.packets.length,
+    protocolVersion: encoded.meta.protocolVersion,
+  };
+  return { stdout: 'json', data, compact };
+}
+
+async function writeOut(path: string, contents: string | Uint8Array): Promise<void> {
+  try {
+    await writeFile(path, contents);
+  } catch (err) {
+    throw new CliError('io', `cannot write --out file: ${path}`, { cause: (err as Error).message });
+  }
+}
@@ -0,0 +1,70 @@
+import { Buffer } from 'node:buffer';
+
+import type { ParsedData } from '../../core/types/ast';
+import { checkConformance, type ConformanceReport } from '../../core/protocol-conformance';
+
+import { parseArgs, boolOption, arrayOption, rejectUnknownArgs } from '../args';
+import { CliError, type JsonOutput } from '../output';
+import { CHFX_VERSION, CLI_SCHEMA_VERSION } from '../version';
+import { decodeBuffer, isChproto, readInput } from './decode';
+
+/** Exit code when the capture violates the protocol (errors; warnings alone exit 0) */
+export const LINT_VIOLATION_EXIT_CODE = 3;
+
+function checkRules(parsed: ParsedData, rules: string[]): ConformanceReport {
+  try {
+    return checkConformance(parsed, rules);
+  } catch (err) {
+    throw new CliError('usage', `invalid --rule: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Check a .chproto capture against the native protocol spec and list the
+ * violations: one finding per rule breach, with the packet's byte range into
+ * the capture's combined buffer. Exits nonzero when any finding is an error,
+ * so a driver's test suite can gate on it.
+ */
+export async function lintCommand(rest: string[]): Promise<JsonOutput> {
+  const args = parseArgs(rest, { multiFlags: ['rule'] });
+  rejectUnknownArgs(args, ['rule', 'compact', 'no-node-bytes'], 1);
+  const rules = arrayOption(args, 'rule');
+  const includeNodeBytes = !boolOption(args, 'no-node-bytes');
+  const compact = boolOption(args, 'compact');
+
+  const { bytes, source } = await readInput(args.positionals[0]);
+  if (bytes.length === 0) {
+    throw new CliError('usage', 'input is empty');
+  }
+  if (!isChproto(bytes)) {
+    throw new CliError('usage', 'lint checks native protocol captures; the input is not a .chproto dump');
+  }
+
+  const result = decodeBuffer(bytes, { format: 'chproto' });
+  const report = checkRules(result.parsed, rules);
+  const findings = report.findings.map((finding) =>
+    includeNodeBytes && finding.byteRange
+      ? {
+          ...finding,
+          bytes: Buffer.from(result.outputBytes.subarray(finding.byteRange.start, finding.byteRange.end)).toString('hex'),
+        }
+      : finding,
+  );
+
+  const data = {
+    chfx: { tool: 'chfx', version: CHFX_VERSION, schemaVersion: CLI_SCHEMA_VERSION, command: 'lint' },
+    source,
+    protocolVersion: report.negotiatedVersion,
+    ok: report.errors === 0,
+    errors: report.errors,
+    warnings: report.warnings,
+    nodeBytes: includeNodeBytes,
+    conventions: {
+      byteRange: 'Each finding has byteRange {start, end} into the combined [client → server][server → client] buffer `decode` reports as bytesHex.',
+      code: 'The id of the rule that reported the finding; see "rules" for what each checks.',
+    },
+    rules: report.rules,
+    findings,
+  };
+  return { stdout: 'json', data, compact, exitCode: report.errors > 0 ? LINT_VIOLATION_EXIT_CODE : 0 };
+}
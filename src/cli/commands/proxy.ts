@@ -75,8 +75,8 @@ const ALLOWED = ['listen', 'target', 'out', 'save-dir', 'decode', 'persistent',
  *   `--save-dir` and/or stream decoded JSON per connection (`--decode`). Stops
  *   on Ctrl-C.
  *
- * Plaintext/uncompressed streams only (same constraint as `capture`/`query`);
- * TLS and compressed connections are unsupported.
+ * Plaintext streams only (same constraint as `capture`/`query`): TLS is
+ * unsupported; clients that enable compression are decoded frame by frame.
  */
 export async function proxyCommand(rest: string[], deps: Partial<ProxyDeps> = {}): Promise<CommandOutput> {
   const d: ProxyDeps = { ...DEFAULT_DEPS, ...deps };
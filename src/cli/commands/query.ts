@@ -1,15 +1,12 @@
 import { writeFile } from 'node:fs/promises';
 
-import {
-  captureQuery as defaultCaptureQuery,
-  encodeDump,
-  type Capture,
-  type CaptureQueryOptions,
-} from '../../../scripts/native-proxy.mjs';
-
-import { ClickHouseFormat } from '../../core/types/formats';
-import { appendClickHouseRequestParams } from '../../core/clickhouse/request-params';
+import { encodeDump, type Capture } from '../../../scripts/native-proxy.mjs';
+
+import { ClickHouseFormat, HttpCompression } from '../../core/types/formats';
+import { appendClickHouseRequestParams, httpAcceptEncoding } from '../../core/clickhouse/request-params';
+import { rawFetch } from '../../core/clickhouse/raw-fetch';
 import { parseArgs, stringOption, boolOption, rejectUnknownArgs } from '../args';
+import { captureWithDefaultClient } from '../capture-client';
 import { CliError, type JsonOutput } from '../output';
 import {
   resolveCaptureOptions,
@@ -17,15 +14,24 @@ import {
   CONNECTION_VALUE_FLAGS,
   CONNECTION_MULTI_FLAGS,
   CONNECTION_ALLOWED,
+  type CaptureOptions,
 } from '../connection';
-import { decodeBuffer, decodeCaptureStreams, buildDecodeEnvelope, type DecodeResult, type FormatName } from './decode';
+import {
+  decodeBuffer,
+  decodeCaptureStreams,
+  buildDecodeEnvelope,
+  parseCompression,
+  type DecodeResult,
+  type FormatName,
+} from './decode';
 
 export interface QueryDeps {
-  captureQuery: (opts: CaptureQueryOptions) => Promise<Capture>;
+  captureQuery: (opts: CaptureOptions) => Promise<Capture>;
   fetch: typeof fetch;
 }
 
-const DEFAULT_DEPS: QueryDeps = { captureQuery: defaultCaptureQuery, fetch: globalThis.fetch };
+// rawFetch, not globalThis.fetch: the latter would silently inflate gzip/zstd bodies.
+const DEFAULT_DEPS: QueryDeps = { captureQuery: captureWithDefaultClient, fetch: rawFetch };
 
 /** HTTP `--format` accepts the short or full name; maps to the wire format + decoder. */
 function resolveHttpFormat(raw: string | undefined): { wire: ClickHouseFormat; cli: FormatName } {
@@ -51,18 +57,31 @@ function parseProtocolVersion(raw: string | undefined): number {
 
 /**
  * Run a query and decode the result in one step.
- * - `--protocol tcp` (default): drive clickhouse-client through the capturing
- *   proxy and decode the full native packet stream. `--save <file>` keeps the dump.
+ * - `--protocol tcp` (default): capture the native packet stream with the
+ *   built-in client (or clickhouse-client behind the proxy, given `--client`)
+ *   and decode it. `--protocol-version` pins the ClientHello version;
+ *   `--save <file>` keeps the dump.
  * - `--protocol http`: POST to ClickHouse HTTP, requesting `--format`
  *   (native | RowBinaryWithNamesAndTypes), and decode the response body.
+ *   `--protocol-version` is the HTTP `client_protocol_version` parameter.
+ *   `--compression` asks for a compressed body, which is unwrapped and
+ *   reported as the envelope's `wire` section.
  */
 export async function queryCommand(rest: string[], deps: Partial<QueryDeps> = {}): Promise<JsonOutput> {
   const merged: QueryDeps = { ...DEFAULT_DEPS, ...deps };
   const args = parseArgs(rest, {
-    valueFlags: [...CONNECTION_VALUE_FLAGS, 'save', 'protocol', 'format', 'protocol-version'],
+    valueFlags: [...CONNECTION_VALUE_FLAGS, 'save', 'protocol', 'format', 'compression'],
     multiFlags: CONNECTION_MULTI_FLAGS,
   });
-  rejectUnknownArgs(args, [...CONNECTION_ALLOWED, 'save', 'protocol', 'format', 'protocol-version', 'compact', 'no-node-bytes']);
+  rejectUnknownArgs(args, [
+    ...CONNECTION_ALLOWED,
+    'save',
+    'protocol',
+    'format',
+    'compression',
+    'compact',
+    'no-node-bytes',
+  ]);
   const compact = boolOption(args, 'compact');
   const includeNodeBytes = !boolOption(args, 'no-node-bytes');
 
@@ -87,6 +106,9 @@ async function runTcp(
   if (stringOption(args, 'format') !== undefined) {
     throw new CliError('usage', '--format only applies to --protocol http');
   }
+  if (stringOption(args, 'compression') !== undefined) {
+    throw new CliError('usage', '--compression only applies to --protocol http');
+  }
   const save = stringOption(args, 'save');
   if (save === '-') {
     throw new CliError('usage', "--save '-' is not supported (stdout carries the decoded JSON); pass a file path");
@@ -129,16 +151,19 @@ async function runHttp(
   }
   const format = resolveHttpFormat(stringOption(args, 'format'));
   const protocolVersion = parseProtocolVersion(stringOption(args, 'protocol-version'));
+  const compression = parseCompression(stringOption(args, 'compression'));
   const conn = resolveHttpConnection(args);
 
   const params = new URLSearchParams();
-  appendClickHouseRequestParams(params, format.wire, protocolVersion);
+  appendClickHouseRequestParams(params, format.wire, protocolVersion, compression);
   for (const [key, value] of Object.entries(conn.settings)) params.set(key, value);
   if (conn.database) params.set('database', conn.database);
 
   const headers: Record<string, string> = { 'Content-Type': 'text/plain' };
   if (conn.user) headers['X-ClickHouse-User'] = conn.user;
   if (conn.password) headers['X-ClickHouse-Key'] = conn.password;
+  const acceptEncoding = httpAcceptEncoding(compression);
+  if (acceptEncoding) headers['Accept-Encoding'] = acceptEncoding;
 
   let res: Response;
   try {
@@ -158,7 +183,7 @@ async function runHttp(
     throw new CliError('decode', 'server returned an empty body');
   }
 
-  const result = decodeBuffer(body, { format: format.cli, protocolVersion });
+  const result = decodeBuffer(body, { format: format.cli, protocolVersion, compression });
   const source: Record<string, unknown> = {
     kind: 'query',
     protocol: 'http',
@@ -166,6 +191,9 @@ async function runHttp(
     host: conn.host,
     port: conn.port,
     httpFormat: format.wire,
+    ...(compression !== HttpCompression.None
+      ? { compression, contentEncoding: res.headers.get('content-encoding') }
+      : {}),
   };
   return buildDecodeEnvelope(result, source, { command: 'query', includeNodeBytes });
 }
@@ -3,6 +3,7 @@ import process from 'node:process';
 import { stringOption, arrayOption, boolOption, type ParsedArgs } from './args';
 import { CliError } from './output';
 import type { CaptureQueryOptions } from '../../scripts/native-proxy.mjs';
+import { NATIVE_PROTOCOL_FEATURES } from '../core/types/native-protocol';
 
 /**
  * Experimental type settings sent per-query so Variant/Dynamic/JSON/QBit decode.
@@ -19,7 +20,7 @@ const EXPERIMENTAL_SETTINGS: Record<string, string> = {
 };
 
 /** Flags shared by `query` and `capture` for arg-parser specs. */
-export const CONNECTION_VALUE_FLAGS = ['query', 'host', 'port', 'user', 'password', 'database', 'client'];
+export const CONNECTION_VALUE_FLAGS = ['query', 'host', 'port', 'user', 'password', 'database', 'client', 'protocol-version'];
 export const CONNECTION_MULTI_FLAGS = ['setting'];
 /** Every connection-related option name (for unknown-arg rejection). */
 export const CONNECTION_ALLOWED = [...CONNECTION_VALUE_FLAGS, ...CONNECTION_MULTI_FLAGS, 'no-experimental-settings'];
@@ -125,18 +126,43 @@ function parsePort(raw: string | undefined): number | undefined {
   return port;
 }
 
+/** Capture options plus the ClientHello version the built-in client advertises. */
+export type CaptureOptions = CaptureQueryOptions & { protocolVersion?: number };
+
 /**
- * Native-protocol (TCP) capture options. Undefined host/port let the proxy apply
- * its own defaults (127.0.0.1:9000). Env: CH_NATIVE_PORT, CLICKHOUSE_CLIENT.
+ * Native-protocol (TCP) capture options. Undefined host/port let the capture
+ * apply its own defaults (127.0.0.1:9000). Env: CH_NATIVE_PORT, CLICKHOUSE_CLIENT.
+ * `--protocol-version` is only honoured by the built-in client, so it cannot be
+ * combined with a clickhouse-client path.
  */
-export function resolveCaptureOptions(args: ParsedArgs): CaptureQueryOptions {
+export function resolveCaptureOptions(args: ParsedArgs): CaptureOptions {
+  const clientPath = stringOption(args, 'client') ?? process.env.CLICKHOUSE_CLIENT;
+  const protocolVersion = parseClientProtocolVersion(stringOption(args, 'protocol-version'));
+  if (protocolVersion !== undefined && clientPath !== undefined) {
+    throw new CliError(
+      'usage',
+      '--protocol-version needs the built-in client; clickhouse-client always sends its own version (drop --client / CLICKHOUSE_CLIENT)',
+    );
+  }
   return {
     ...resolveQueryBase(args),
     port: parsePort(stringOption(args, 'port') ?? process.env.CH_NATIVE_PORT),
-    clientPath: stringOption(args, 'client') ?? process.env.CLICKHOUSE_CLIENT,
+    clientPath,
+    ...(protocolVersion !== undefined ? { protocolVersion } : {}),
   };
 }
 
+/** A TCP ClientHello version; below v54429 Query settings are binary, which neither side here speaks. */
+function parseClientProtocolVersion(raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined;
+  const min = NATIVE_PROTOCOL_FEATURES.SETTINGS_AS_STRINGS;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < min) {
+    throw new CliError('usage', `--protocol-version for the native protocol must be an integer >= ${min}, got: ${raw}`);
+  }
+  return n;
+}
+
 /** HTTP connection: host/port default 127.0.0.1:8123 (env CH_NATIVE_HOST, CH_HTTP_PORT). */
 export function resolveHttpConnection(args: ParsedArgs): QueryBase & { host: string; port: number } {
   const base = resolveQueryBase(args);
@@ -3,10 +3,13 @@ import process from 'node:process';
 import { CliError, emitError, writeStdout, stringify, type CommandOutput } from './output';
 import { CHFX_VERSION } from './version';
 import { COMMANDS, findCommand, type CommandDoc } from './registry';
-import { decodeCommand } from './commands/decode';
+import { decodeCommand, decodeStreamCommand } from './commands/decode';
 import { queryCommand } from './commands/query';
 import { captureCommand } from './commands/capture';
 import { proxyCommand } from './commands/proxy';
+import { encodeCommand } from './commands/encode';
+import { diffCommand } from './commands/diff';
+import { lintCommand } from './commands/lint';
 
 function generalHelp(): string {
   const lines = [
@@ -24,7 +27,8 @@ function generalHelp(): string {
     '  --version, -V   Print version',
     '',
     'Output: a single JSON document on stdout; diagnostics and a JSON error',
-    'envelope on stderr. Exit codes: 0 ok, 2 usage, 1 i/o or decode.',
+    'envelope on stderr. Exit codes: 0 ok, 2 usage, 1 i/o or decode,',
+    '3 protocol violations found by lint.',
   ];
   return lines.join('\n');
 }
@@ -63,7 +67,7 @@ async function run(argv: string[]): Promise<number> {
   let out: CommandOutput;
   switch (command) {
     case 'decode':
-      out = await decodeCommand(rest);
+      out = rest.includes('--stream') ? await decodeStreamCommand(rest) : await decodeCommand(rest);
       break;
     case 'query':
       out = await queryCommand(rest);
@@ -74,12 +78,22 @@ async function run(argv: string[]): Promise<number> {
     case 'proxy':
       out = await proxyCommand(rest);
       break;
+    case 'encode':
+      out = await encodeCommand(rest);
+      break;
+    case 'diff':
+      out = await diffCommand(rest);
+      break;
+    case 'lint':
+      out = await lintCommand(rest);
+      break;
     default:
       throw new CliError('usage', `unknown command: ${command} (try: chfx --help)`);
   }
 
   if (out.stdout === 'json') {
     writeStdout(stringify(out.data, out.compact));
+    return out.exitCode ?? 0;
   } else if (out.stdout === 'raw') {
     process.stdout.write(out.bytes);
   }
@@ -30,6 +30,8 @@ export interface JsonOutput {
   stdout: 'json';
   data: unknown;
   compact: boolean;
+  /** Exit with this code once the document is written (e.g. lint violations); default 0 */
+  exitCode?: number;
 }
 export interface RawOutput {
   stdout: 'raw';
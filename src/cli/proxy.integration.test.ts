@@ -147,7 +147,7 @@ describe('chfx proxy — integration (real ClickHouse + real native client)', ()
     const { out } = await runOnce([], `SELECT '${marker}' AS m`);
     expect(out.stdout).toBe('raw');
     const bytes = (out as { bytes: Uint8Array }).bytes;
-    expect(Buffer.from(bytes.subarray(0, 8)).toString()).toBe('CHPROTO1');
+    expect(Buffer.from(bytes.subarray(0, 8)).toString()).toBe('CHPROTO2');
     const decoded = decodeBuffer(bytes, { format: 'chproto' });
     expect(decoded.format).toBe(ClickHouseFormat.NativeProtocol);
     // The captured stream carries both the query (c2s) and the result (s2c).
@@ -17,25 +17,68 @@ export const COMMANDS: CommandDoc[] = [
   {
     name: 'decode',
     summary: 'Decode a binary dump (.chproto / Native / RowBinary) to structured JSON.',
-    usage: 'chfx decode [file] [--format chproto|native|rowbinary] [--protocol-version N] [--compact]',
+    usage: 'chfx decode [file] [--format chproto|native|rowbinary|...] [--schema "..."] [--protocol-version N] [--compression ...] [--coverage] [--find "<expr>"] [--query-index N] [--profile-events] [--stream] [--compact]',
     details: 'Reads from <file>, or from stdin when no path is given (or path is "-").',
     options: [
       {
         flag: '--format, -f',
-        value: 'chproto|native|rowbinary',
+        value: 'chproto|native|rowbinary|rowbinary-plain|rowbinary-names|rowbinary-defaults',
         description:
-          'Force the decoder. Omit to autodetect: .chproto by magic header, raw bodies by trial decode (ambiguous → error asking for --format).',
+          'Force the decoder. Omit to autodetect: .chproto by magic header, raw bodies by trial decode (ambiguous → error asking for --format). ' +
+          'rowbinary = RowBinaryWithNamesAndTypes; the other RowBinary variants are never autodetected and need --schema.',
+      },
+      {
+        flag: '--schema',
+        value: '"name Type, ..."',
+        description:
+          'Column list for RowBinary, RowBinaryWithNames (types only; names come from the header) and RowBinaryWithDefaults.',
       },
       {
         flag: '--protocol-version',
         value: 'N',
         description: 'Native client_protocol_version used to interpret a raw Native body (default 0).',
       },
+      {
+        flag: '--compression',
+        value: 'none|native|gzip|zstd|lz4',
+        description: 'The input is an HTTP body saved with this compression; unwrap it first and report the frames under "wire".',
+      },
       {
         flag: '--no-node-bytes',
         description:
           "Omit each node's inline raw bytes; consumers slice the top-level bytesHex by byteRange instead. Smaller output.",
       },
+      {
+        flag: '--coverage',
+        description:
+          'Add a "coverage" section: the byte ranges no leaf node claims (gaps) and those several claim (overlaps), with the covered percentage.',
+      },
+      {
+        flag: '--find',
+        value: 'expr',
+        description:
+          'Add a "find" section listing the nodes that match every term, with their byte ranges: text (any of value / label / type / metadata contains it), ' +
+          '/regex/flags, field:text, field:/regex/ or field=exact, where field is value, label, type, meta or column (e.g. "column=user_id value=42").',
+      },
+      {
+        flag: '--query-index',
+        value: 'N',
+        description:
+          'For a .chproto capture of several queries on one connection: keep only the Nth exchange (0-based, Query through EndOfStream / Exception). ' +
+          'Every capture lists its exchanges under data.metadata.exchanges.',
+      },
+      {
+        flag: '--profile-events',
+        description:
+          'For a .chproto capture: add a "profileEvents" section with each query\'s ProfileEvents counters summed per event name ' +
+          '(increments added up, gauges at their latest reading).',
+      },
+      {
+        flag: '--stream',
+        description:
+          'Decode while reading and print NDJSON: one line per header / row / block / packet / diagnostic, then an "end" line. ' +
+          'Needs --format; no --compression, --coverage, --find, --query-index, --profile-events or inline node bytes. For dumps too large to hold as one document.',
+      },
       { flag: '--compact', description: 'Emit single-line JSON instead of pretty-printed (2-space) JSON.' },
       { flag: '--help, -h', description: 'Show help for this command.' },
     ],
@@ -45,20 +88,34 @@ export const COMMANDS: CommandDoc[] = [
     summary: 'Run a query and decode the result in one step (native TCP capture or HTTP).',
     usage: 'chfx query --query "<sql>" [--protocol tcp|http] [--format ...] [connection options]',
     details:
-      'tcp (default): drive clickhouse-client through a capturing proxy and decode the full packet ' +
-      'stream (--save keeps the .chproto). http: POST to ClickHouse HTTP, request --format, decode the body.',
+      'tcp (default): capture the full packet stream with the built-in native client (or clickhouse-client ' +
+      'via --client) and decode it (--save keeps the .chproto). http: POST to ClickHouse HTTP, request --format, decode the body.',
     options: [
       { flag: '--query', value: 'sql', description: 'SQL to run (required).' },
       { flag: '--protocol', value: 'tcp|http', description: 'Transport. tcp = native capture (default); http = HTTP request.' },
       { flag: '--format', value: 'native|RowBinaryWithNamesAndTypes', description: 'HTTP body format to request + decode (http only; default native).' },
-      { flag: '--protocol-version', value: 'N', description: 'client_protocol_version for an http Native query (default 0).' },
+      {
+        flag: '--protocol-version',
+        value: 'N',
+        description:
+          'http: client_protocol_version for a Native query (default 0). tcp: version the built-in client sends in ClientHello (default 54483, min 54429).',
+      },
+      {
+        flag: '--compression',
+        value: 'none|native|gzip|zstd|lz4',
+        description: 'Request a compressed http body (native = compress=1, else Accept-Encoding); decode it and report the frames under "wire".',
+      },
       { flag: '--save', value: 'file', description: 'Write the raw .chproto capture here (tcp only).' },
       { flag: '--host / --port', value: 'h / p', description: 'Server host / port (env CH_NATIVE_HOST, CH_NATIVE_PORT/CH_HTTP_PORT; default 9000 tcp, 8123 http).' },
       { flag: '--user / --password', description: 'Credentials (env CH_USER / CH_PASSWORD).' },
       { flag: '--database', value: 'db', description: 'Default database (env CH_DATABASE).' },
       { flag: '--setting', value: 'k=v', description: 'Per-query setting; repeatable.' },
       { flag: '--no-experimental-settings', description: 'Do not send Variant/Dynamic/JSON/QBit enabling settings.' },
-      { flag: '--client', value: 'path', description: 'Path to clickhouse-client, tcp only (env CLICKHOUSE_CLIENT).' },
+      {
+        flag: '--client',
+        value: 'path',
+        description: 'Capture through this clickhouse-client behind a proxy instead of the built-in client, tcp only (env CLICKHOUSE_CLIENT).',
+      },
       { flag: '--no-node-bytes / --compact', description: 'Same output controls as decode.' },
       { flag: '--help, -h', description: 'Show help for this command.' },
     ],
@@ -66,12 +123,21 @@ export const COMMANDS: CommandDoc[] = [
   {
     name: 'capture',
     summary: 'Capture a query over the native protocol to a .chproto dump (no decode).',
-    usage: 'chfx capture --query "<sql>" [--out <file>] [connection options]',
+    usage: 'chfx capture --query "<sql>" [--out <file>] [--insert-file <file>] [connection options]',
     details: 'Writes the dump to --out, or streams raw dump bytes to stdout when --out is omitted.',
     options: [
       { flag: '--query', value: 'sql', description: 'SQL to run (required).' },
       { flag: '--out, -o', value: 'file', description: 'Write the .chproto dump here; omit to stream raw bytes to stdout.' },
-      { flag: '(connection)', description: 'Same --host/--port/--user/--password/--database/--setting/--client as query.' },
+      {
+        flag: '--insert-file',
+        value: 'file',
+        description:
+          'Send this file through clickhouse-client as the data of an INSERT query (--query "INSERT INTO t FORMAT CSV"), so the capture includes the client Data blocks.',
+      },
+      {
+        flag: '(connection)',
+        description: 'Same --host/--port/--user/--password/--database/--setting/--client/--protocol-version as query.',
+      },
       { flag: '--help, -h', description: 'Show help for this command.' },
     ],
   },
@@ -81,7 +147,7 @@ export const COMMANDS: CommandDoc[] = [
     usage: 'chfx proxy --listen [host:]port --target host:port [--out file | --save-dir dir] [--decode] [--persistent]',
     details:
       'Forwards every connection to --target and records the native stream. Single-shot by default (capture ' +
-      'the first connection, then exit); --persistent keeps serving until Ctrl-C. Plaintext/uncompressed only.',
+      'the first connection, then exit); --persistent keeps serving until Ctrl-C. Plaintext only (compressed streams decode; TLS does not).',
     options: [
       { flag: '--listen', value: '[host:]port', description: 'Address to listen on (host defaults to 127.0.0.1).' },
       { flag: '--target', value: 'host:port', description: 'Upstream ClickHouse native endpoint (default port 9000).' },
@@ -93,6 +159,58 @@ export const COMMANDS: CommandDoc[] = [
       { flag: '--help, -h', description: 'Show help for this command.' },
     ],
   },
+  {
+    name: 'encode',
+    summary: 'Encode a JSON packet script to a .chproto dump, or a .chproto dump to its script.',
+    usage: 'chfx encode [file] [--out <file>] [--compact]',
+    details:
+      'Reads from <file>, or from stdin when no path is given (or path is "-"). A .chproto input (detected by magic) ' +
+      'prints the editable JSON script: one entry per packet, with the decoder\'s packet and field names and Block ' +
+      'column bodies as hex. Any other input is read as a script and written as a .chproto dump to --out, or as raw ' +
+      'dump bytes to stdout. Fields the negotiated version does not carry are ignored; missing fields take defaults.',
+    options: [
+      {
+        flag: '--out, -o',
+        value: 'file',
+        description: 'Write the result (dump or script) here and print a JSON summary; omit to write it to stdout.',
+      },
+      { flag: '--compact', description: 'Emit single-line JSON instead of pretty-printed (2-space) JSON.' },
+      { flag: '--help, -h', description: 'Show help for this command.' },
+    ],
+  },
+  {
+    name: 'diff',
+    summary: 'Structural diff of two dumps: nodes aligned by path, reported as added / removed / changed.',
+    usage: 'chfx diff <a> <b> [--format ...] [--protocol-version N] [--protocol-version-b N] [--all] [--compact]',
+    details:
+      'Decodes both inputs as `decode` would (either may be "-" for stdin) and aligns the trees by label path ' +
+      '(block / column / row, then value labels). Entries list each side\'s node id, type, value and byteRange.',
+    options: [
+      { flag: '--format, -f', value: 'chproto|native|rowbinary|...', description: 'Force the decoder for both inputs (default: autodetect each).' },
+      { flag: '--schema', value: '"name Type, ..."', description: 'Column list for the header-less RowBinary variants, as for decode.' },
+      { flag: '--protocol-version', value: 'N', description: 'Native client_protocol_version for raw Native bodies (default 0).' },
+      { flag: '--protocol-version-b', value: 'N', description: 'Read input b at this version instead (compare two client revisions).' },
+      { flag: '--compression', value: 'none|native|gzip|zstd|lz4', description: 'Both inputs are HTTP bodies saved with this compression; the bodies are diffed.' },
+      { flag: '--all', description: 'Also list unchanged nodes.' },
+      { flag: '--no-node-bytes / --compact', description: 'Same output controls as decode.' },
+      { flag: '--help, -h', description: 'Show help for this command.' },
+    ],
+  },
+  {
+    name: 'lint',
+    summary: 'Check a .chproto capture against the native protocol spec; exit 3 on violations.',
+    usage: 'chfx lint [file.chproto] [--rule <id>]... [--no-node-bytes] [--compact]',
+    details:
+      'Reads from <file>, or from stdin when no path is given (or path is "-"). Decodes the capture and runs each ' +
+      'conformance rule (handshake and Addendum, settings terminators, the empty Data block after a Query, silence ' +
+      'after Cancel, EndOfStream per query, ...). Prints every finding with its rule id, severity, message and ' +
+      'byteRange; exits 3 when any is an error, 0 when there are only warnings or none.',
+    options: [
+      { flag: '--rule', value: 'id', description: 'Run only this rule; repeatable. The output lists every rule id.' },
+      { flag: '--no-node-bytes / --compact', description: "Omit each finding's inline bytes / emit single-line JSON." },
+      { flag: '--help, -h', description: 'Show help for this command.' },
+    ],
+  },
 ];
 
 export function findCommand(name: string): CommandDoc | undefined {
@@ -1,11 +1,22 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
 import { HexViewer } from './HexViewer/HexViewer';
 import { AstTree } from './AstTree/AstTree';
+import { SearchPanel } from './SearchPanel/SearchPanel';
+import { SequenceDiagram } from './Timeline/SequenceDiagram';
+import { ExchangeList } from './Exchanges/ExchangeList';
+import { ValidationPanel } from './Validation/ValidationPanel';
+import { ServerLog } from './ServerEvents/ServerLog';
+import { ProfileEvents } from './ServerEvents/ProfileEvents';
 import { QueryInput } from './QueryInput';
+import { RowBuilder } from './RowBuilder';
+import { DiffInput } from './DiffInput';
+import { DiffView } from './DiffView/DiffView';
 import { decodeBase64Url } from '../core/base64url';
+import { isTimed } from '../core/protocol-timeline';
+import { exchangesOf } from '../core/decoder';
 import { useStore } from '../store/store';
-import { ClickHouseFormat } from '../core/types/formats';
+import { ClickHouseFormat, HttpCompression, HTTP_COMPRESSION_METADATA } from '../core/types/formats';
 import {
   DEFAULT_NATIVE_PROTOCOL_VERSION,
   isNativeProtocolVersion,
@@ -13,16 +24,112 @@ import {
 import logo from '../assets/clickhouse-yellow-badge.svg';
 import '../styles/app.css';
 
+/**
+ * Switch between the compressed frames as received and the decompressed body.
+ * Only shown when the last HTTP response was actually compressed.
+ */
+function LayerToggle() {
+  const layers = useStore((s) => s.layers);
+  const activeLayer = useStore((s) => s.activeLayer);
+  const setActiveLayer = useStore((s) => s.setActiveLayer);
+
+  if (!layers) return null;
+  const compression = layers.wire.parsed.metadata?.compression as HttpCompression;
+
+  return (
+    <span className="layer-toggle">
+      <button
+        className={`layer-toggle-btn${activeLayer === 'wire' ? ' active' : ''}`}
+        onClick={() => setActiveLayer('wire')}
+        title="Compressed frames as received"
+      >
+        Wire · {HTTP_COMPRESSION_METADATA[compression].displayName} ({layers.wire.data.length}B)
+      </button>
+      <button
+        className={`layer-toggle-btn${activeLayer === 'body' ? ' active' : ''}`}
+        onClick={() => setActiveLayer('body')}
+        title="Decompressed body"
+      >
+        Body ({layers.body.data.length}B)
+      </button>
+    </span>
+  );
+}
+
+type TreeView = 'tree' | 'exchanges' | 'timeline' | 'validation' | 'logs' | 'events';
+
+const TREE_VIEWS: Record<TreeView, { name: string; title?: string }> = {
+  tree: { name: 'Tree' },
+  exchanges: { name: 'Queries', title: 'One group per query on the connection' },
+  timeline: { name: 'Timeline', title: 'Client and server packets in the order they were seen' },
+  validation: { name: 'Validation', title: 'Check the capture against the native protocol spec' },
+  logs: { name: 'Logs', title: 'The log messages the server sent (send_logs_level)' },
+  events: { name: 'Events', title: 'ProfileEvents counters per event name' },
+};
+
+/**
+ * Switch the right panel between the AST Tree and the views of a protocol
+ * capture: its queries, the packet timeline when the capture recorded when
+ * each segment was seen, its protocol conformance, and the server's Log and
+ * ProfileEvents packets when it sent any. Only shown when there is more than
+ * the tree.
+ */
+function TreeViewToggle({
+  views,
+  view,
+  onChange,
+}: {
+  views: TreeView[];
+  view: TreeView;
+  onChange: (view: TreeView) => void;
+}) {
+  return (
+    <span className="layer-toggle">
+      {views.map((v) => (
+        <button
+          key={v}
+          className={`layer-toggle-btn${view === v ? ' active' : ''}`}
+          onClick={() => onChange(v)}
+          title={TREE_VIEWS[v].title}
+        >
+          {TREE_VIEWS[v].name}
+        </button>
+      ))}
+    </span>
+  );
+}
+
 function App() {
   const setQuery = useStore((s) => s.setQuery);
   const setFormat = useStore((s) => s.setFormat);
   const setNativeProtocolVersion = useStore((s) => s.setNativeProtocolVersion);
+  const setCompression = useStore((s) => s.setCompression);
+  const setSchema = useStore((s) => s.setSchema);
+  const inputMode = useStore((s) => s.inputMode);
+  const timed = useStore((s) => isTimed(s.decodeContext?.protocolSegments));
+  const hasExchanges = useStore((s) => !!s.parsedData && exchangesOf(s.parsedData).length > 0);
+  const isProtocol = useStore((s) => s.parsedData?.format === ClickHouseFormat.NativeProtocol);
+  const serverPackets = useStore((s) => (isProtocol ? s.parsedData?.trailingNodes?.[1]?.children : undefined));
+  const hasLogs = !!serverPackets?.some((packet) => packet.label === 'Log');
+  const hasProfileEvents = !!serverPackets?.some((packet) => packet.label === 'ProfileEvents');
+  const [treeView, setTreeView] = useState<TreeView>('tree');
+  const treeViews: TreeView[] = [
+    'tree',
+    ...(hasExchanges ? ['exchanges' as const] : []),
+    ...(timed ? ['timeline' as const] : []),
+    ...(isProtocol ? ['validation' as const] : []),
+    ...(hasLogs ? ['logs' as const] : []),
+    ...(hasProfileEvents ? ['events' as const] : []),
+  ];
+  const shownView = treeViews.includes(treeView) ? treeView : 'tree';
 
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const q = params.get('q');
     const f = params.get('f');
     const pv = params.get('pv');
+    const c = params.get('c');
+    const schema = params.get('s');
 
     if (q) {
       try {
@@ -43,7 +150,19 @@ function App() {
       }
     }
 
-    if (q || f || pv) {
+    if (c && Object.values(HttpCompression).includes(c as HttpCompression)) {
+      setCompression(c as HttpCompression);
+    }
+
+    if (schema) {
+      try {
+        setSchema(decodeBase64Url(schema));
+      } catch {
+        // ignore malformed base64
+      }
+    }
+
+    if (q || f || pv || c || schema) {
       window.history.replaceState({}, '', window.location.pathname);
     }
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
@@ -58,31 +177,56 @@ function App() {
       <PanelGroup direction="vertical" autoSaveId="vertical-panels" className="app-body">
         <Panel defaultSize={20} minSize={10} maxSize={50}>
           <div className="app-query">
-            <QueryInput />
+            {inputMode === 'builder' ? <RowBuilder /> : inputMode === 'diff' ? <DiffInput /> : <QueryInput />}
           </div>
         </Panel>
         <PanelResizeHandle className="resize-handle-horizontal" />
         <Panel defaultSize={80} minSize={30}>
           <main className="app-main">
-            <PanelGroup direction="horizontal" autoSaveId="main-panels">
-              <Panel defaultSize={50} minSize={20}>
-                <div className="panel-container">
-                  <div className="panel-header">Hex View</div>
-                  <div className="panel-content">
-                    <HexViewer />
+            {inputMode === 'diff' ? (
+              <DiffView />
+            ) : (
+              <PanelGroup direction="horizontal" autoSaveId="main-panels">
+                <Panel defaultSize={50} minSize={20}>
+                  <div className="panel-container">
+                    <div className="panel-header">
+                      Hex View
+                      <LayerToggle />
+                    </div>
+                    <div className="panel-content">
+                      <HexViewer />
+                    </div>
                   </div>
-                </div>
-              </Panel>
-              <PanelResizeHandle className="resize-handle" />
-              <Panel defaultSize={50} minSize={20}>
-                <div className="panel-container">
-                  <div className="panel-header">AST Tree</div>
-                  <div className="panel-content">
-                    <AstTree />
+                </Panel>
+                <PanelResizeHandle className="resize-handle" />
+                <Panel defaultSize={50} minSize={20}>
+                  <div className="panel-container">
+                    <div className="panel-header">
+                      {shownView === 'tree' ? 'AST Tree' : TREE_VIEWS[shownView].name}
+                      {treeViews.length > 1 && (
+                        <TreeViewToggle views={treeViews} view={shownView} onChange={setTreeView} />
+                      )}
+                    </div>
+                    {shownView === 'tree' && <SearchPanel />}
+                    <div className="panel-content">
+                      {shownView === 'timeline' ? (
+                        <SequenceDiagram />
+                      ) : shownView === 'exchanges' ? (
+                        <ExchangeList />
+                      ) : shownView === 'validation' ? (
+                        <ValidationPanel />
+                      ) : shownView === 'logs' ? (
+                        <ServerLog />
+                      ) : shownView === 'events' ? (
+                        <ProfileEvents />
+                      ) : (
+                        <AstTree />
+                      )}
+                    </div>
                   </div>
-                </div>
-              </Panel>
-            </PanelGroup>
+                </Panel>
+              </PanelGroup>
+            )}
           </main>
         </Panel>
       </PanelGroup>
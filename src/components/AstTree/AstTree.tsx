@@ -1,7 +1,9 @@
-import { memo, useCallback, useEffect } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef } from 'react';
+import { FixedSizeList as List, FixedSizeList, ListChildComponentProps } from 'react-window';
 import { useStore } from '../../store/store';
-import { AstNode } from '../../core/types/ast';
+import { AstNode, ParsedData } from '../../core/types/ast';
 import { ClickHouseFormat } from '../../core/types/formats';
+import { flattenTree, TreeLine } from '../../core/tree-lines';
 import '../../styles/ast-tree.css';
 
 function formatNodeCopyText(node: AstNode, label?: string): string {
@@ -79,107 +81,251 @@ function getShortType(type: string): string {
   return type;
 }
 
-interface AstNodeItemProps {
-  node: AstNode;
-  depth: number;
-  columnName?: string;
+/** Deepest "expand to depth" offered; deeper nodes open one at a time */
+const MAX_EXPAND_DEPTH = 8;
+const LINE_HEIGHT = 24;
+
+function lineStart(line: TreeLine, parsed: ParsedData): number {
+  switch (line.kind) {
+    case 'header':
+      return parsed.header.byteRange.start;
+    case 'column-count':
+      return parsed.header.columnCountRange.start;
+    case 'column-def':
+    case 'column-name':
+      return parsed.header.columns[line.column].nameByteRange.start;
+    case 'column-type':
+      return parsed.header.columns[line.column].typeByteRange.start;
+    case 'row':
+      return line.row.byteRange.start;
+    case 'block':
+      return line.block.byteRange.start;
+    case 'column':
+      return line.column.nameByteRange.start;
+    case 'node':
+      return line.node.byteRange.start;
+  }
 }
 
-const AstNodeItem = memo(function AstNodeItem({ node, depth, columnName }: AstNodeItemProps) {
-  const activeNodeId = useStore((s) => s.activeNodeId);
-  const hoveredNodeId = useStore((s) => s.hoveredNodeId);
-  const expandedNodes = useStore((s) => s.expandedNodes);
-  const setActiveNode = useStore((s) => s.setActiveNode);
-  const setHoveredNode = useStore((s) => s.setHoveredNode);
-  const toggleExpanded = useStore((s) => s.toggleExpanded);
-  const scrollToHex = useStore((s) => s.scrollToHex);
+function headerLabel(parsed: ParsedData): string {
+  // RowBinary / RowBinaryWithDefaults carry no header: the columns come from the schema.
+  const isSchemaOnly = parsed.header.byteRange.end === parsed.header.byteRange.start;
+  return isSchemaOnly ? `${parsed.format} schema (not in data)` : `${parsed.format} header`;
+}
 
-  const isActive = node.id === activeNodeId;
-  const isHovered = node.id === hoveredNodeId;
-  const isExpanded = expandedNodes.has(node.id);
-  const hasChildren = node.children && node.children.length > 0;
-  const nodeColor = getTypeColor(node.type);
-  const label = columnName || node.label;
-
-  const handleClick = useCallback(() => {
-    setActiveNode(node.id, formatNodeCopyText(node, label));
-    if (hasChildren) {
-      toggleExpanded(node.id);
+function lineCopyText(line: TreeLine, parsed: ParsedData): string {
+  switch (line.kind) {
+    case 'header':
+      return `${headerLabel(parsed)} (Header)`;
+    case 'column-count':
+      return `columnCount: ${parsed.header.columnCount} (LEB128)`;
+    case 'column-def': {
+      const col = parsed.header.columns[line.column];
+      return `${col.name} (${col.typeString})`;
     }
-  }, [node, label, hasChildren, setActiveNode, toggleExpanded]);
+    case 'column-name':
+      return `name: "${parsed.header.columns[line.column].name}" (String)`;
+    case 'column-type':
+      return `type: "${parsed.header.columns[line.column].typeString}" (String)`;
+    case 'row':
+      return `Row ${line.row.index}`;
+    case 'block':
+      return `Block ${line.block.index}`;
+    case 'column':
+      return `${line.column.name} (${line.column.typeString})`;
+    case 'node':
+      return formatNodeCopyText(line.node, line.label);
+  }
+}
 
-  const handleDoubleClick = useCallback(() => {
-    scrollToHex(node.byteRange.start);
-  }, [node.byteRange.start, scrollToHex]);
+function bytesLabel(range: { start: number; end: number }): string {
+  return `[${range.start}:${range.end}] (${range.end - range.start}B)`;
+}
 
-  const handleMouseEnter = useCallback(() => {
-    setHoveredNode(node.id);
-  }, [node.id, setHoveredNode]);
+/** What one line shows after its expand arrow */
+function LineContent({ line, parsed }: { line: TreeLine; parsed: ParsedData }) {
+  switch (line.kind) {
+    case 'header': {
+      const isSchemaOnly = parsed.header.byteRange.end === parsed.header.byteRange.start;
+      return (
+        <>
+          <span className="ast-metadata-badge">{isSchemaOnly ? 'Schema' : 'Header'}</span>
+          <span className="ast-metadata-label">{headerLabel(parsed)}</span>
+          <span className="ast-metadata-bytes">{bytesLabel(parsed.header.byteRange)}</span>
+        </>
+      );
+    }
+    case 'column-count':
+      return (
+        <>
+          <span className="ast-metadata-badge">LEB128</span>
+          <span className="ast-metadata-label">columnCount:</span>
+          <span className="ast-metadata-value">{parsed.header.columnCount}</span>
+          <span className="ast-metadata-bytes">{bytesLabel(parsed.header.columnCountRange)}</span>
+        </>
+      );
+    case 'column-def': {
+      const col = parsed.header.columns[line.column];
+      return (
+        <>
+          <span className="ast-column-badge" style={{ background: getTypeColor(col.typeString) }}>
+            {getShortType(col.typeString)}
+          </span>
+          <span className="ast-column-name">{col.name}</span>
+          <span className="ast-metadata-bytes">
+            {bytesLabel({ start: col.nameByteRange.start, end: col.typeByteRange.end })}
+          </span>
+        </>
+      );
+    }
+    case 'column-name': {
+      const col = parsed.header.columns[line.column];
+      return (
+        <>
+          <span className="ast-metadata-badge">String</span>
+          <span className="ast-metadata-label">name:</span>
+          <span className="ast-metadata-value">"{col.name}"</span>
+          <span className="ast-metadata-bytes">{bytesLabel(col.nameByteRange)}</span>
+        </>
+      );
+    }
+    case 'column-type': {
+      const col = parsed.header.columns[line.column];
+      return (
+        <>
+          <span className="ast-metadata-badge">String</span>
+          <span className="ast-metadata-label">type:</span>
+          <span className="ast-metadata-value">"{col.typeString}"</span>
+          <span className="ast-metadata-bytes">
+            {col.typeByteRange.end === col.typeByteRange.start ? '(schema)' : bytesLabel(col.typeByteRange)}
+          </span>
+        </>
+      );
+    }
+    case 'row':
+      return (
+        <>
+          <span className="ast-row-label">Row {line.row.index}</span>
+          <span className="ast-row-bytes">{bytesLabel(line.row.byteRange)}</span>
+        </>
+      );
+    case 'block':
+      return (
+        <>
+          <span className="ast-block-label">Block {line.block.index}</span>
+          <span className="ast-block-info">
+            {line.block.rowCount} rows × {line.block.columns.length} columns
+          </span>
+          <span className="ast-block-bytes">{bytesLabel(line.block.byteRange)}</span>
+        </>
+      );
+    case 'column': {
+      const col = line.column;
+      return (
+        <>
+          <span className="ast-column-badge" style={{ background: getTypeColor(col.typeString) }}>
+            {getShortType(col.typeString)}
+          </span>
+          <span className="ast-column-name">{col.name}</span>
+          <span className="ast-column-count">[{line.block.deferred ? line.block.rowCount : col.values.length} values]</span>
+          <span className="ast-column-bytes">{bytesLabel(col.dataByteRange)}</span>
+        </>
+      );
+    }
+    case 'node': {
+      const node = line.node;
+      const label = line.label || node.label;
+      return (
+        <>
+          <span className="ast-node-badge" style={{ background: getTypeColor(node.type) }}>
+            {getShortType(node.type)}
+          </span>
+          {label && <span className="ast-node-label">{label}:</span>}
+          <span className={`ast-node-value ${getValueClass(node.value, node.displayValue)}`}>{node.displayValue}</span>
+          <span className="ast-node-bytes">{bytesLabel(node.byteRange)}</span>
+        </>
+      );
+    }
+  }
+}
 
-  const handleMouseLeave = useCallback(() => {
-    setHoveredNode(null);
-  }, [setHoveredNode]);
+/** Class of each line kind, as the tree styled it before it was flattened */
+const LINE_CLASS: Record<TreeLine['kind'], string> = {
+  header: 'ast-metadata-header',
+  'column-count': 'ast-metadata-item',
+  'column-def': 'ast-metadata-header',
+  'column-name': 'ast-metadata-item',
+  'column-type': 'ast-metadata-item',
+  row: 'ast-row-header',
+  block: 'ast-block-header',
+  column: 'ast-column-header',
+  node: 'ast-node',
+};
+
+function lineColor(line: TreeLine): string | undefined {
+  if (line.kind === 'node') return getTypeColor(line.node.type);
+  if (line.kind === 'column') return getTypeColor(line.column.typeString);
+  return undefined;
+}
 
-  const handleExpandClick = useCallback(
-    (e: React.MouseEvent) => {
-      e.stopPropagation();
-      toggleExpanded(node.id);
-    },
-    [node.id, toggleExpanded]
-  );
+interface LineData {
+  lines: TreeLine[];
+  parsed: ParsedData;
+  activeNodeId: string | null;
+  hoveredNodeId: string | null;
+  activate: (index: number) => void;
+  toggle: (line: TreeLine) => void;
+}
 
-  const byteCount = node.byteRange.end - node.byteRange.start;
+const TreeLineRow = memo(function TreeLineRow({ index, style, data }: ListChildComponentProps<LineData>) {
+  const setHoveredNode = useStore((s) => s.setHoveredNode);
+  const scrollToHex = useStore((s) => s.scrollToHex);
+  const { lines, parsed, activeNodeId, hoveredNodeId, activate, toggle } = data;
+  const line = lines[index];
+  const isActive = line.id === activeNodeId;
+  const isHovered = line.id === hoveredNodeId;
+
+  const handleExpandClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    toggle(line);
+  };
 
   return (
-    <>
-      <div
-        className={`ast-node ${isActive ? 'active' : ''} ${isHovered ? 'hovered' : ''}`}
-        style={{ '--depth': depth, '--node-color': nodeColor } as React.CSSProperties}
-        onClick={handleClick}
-        onDoubleClick={handleDoubleClick}
-        onMouseEnter={handleMouseEnter}
-        onMouseLeave={handleMouseLeave}
-      >
-        <span
-          className={`ast-expand-btn ${!hasChildren ? 'hidden' : ''}`}
-          onClick={handleExpandClick}
-        >
-          {hasChildren ? (isExpanded ? '▼' : '▶') : ''}
-        </span>
-        <span className="ast-node-badge" style={{ background: nodeColor }}>
-          {getShortType(node.type)}
-        </span>
-        {label && <span className="ast-node-label">{label}:</span>}
-        <span className={`ast-node-value ${getValueClass(node.value, node.displayValue)}`}>
-          {node.displayValue}
-        </span>
-        <span className="ast-node-bytes">
-          [{node.byteRange.start}:{node.byteRange.end}] ({byteCount}B)
-        </span>
-      </div>
-      {hasChildren && isExpanded && (
-        <div className="ast-children">
-          {node.children!.map((child) => (
-            <AstNodeItem key={child.id} node={child} depth={depth + 1} />
-          ))}
-        </div>
-      )}
-    </>
+    <div
+      className={`ast-line ${LINE_CLASS[line.kind]} ${isActive ? 'active' : ''} ${isHovered ? 'hovered' : ''}`}
+      style={{ ...style, '--depth': line.depth, '--node-color': lineColor(line) } as React.CSSProperties}
+      onClick={() => {
+        activate(index);
+        if (line.expandable) toggle(line);
+      }}
+      onDoubleClick={() => scrollToHex(lineStart(line, parsed))}
+      onMouseEnter={() => setHoveredNode(line.id)}
+      onMouseLeave={() => setHoveredNode(null)}
+    >
+      <span className={`ast-expand-btn ${line.expandable ? '' : 'hidden'}`} onClick={handleExpandClick}>
+        {line.expandable ? (line.expanded ? '▼' : '▶') : ''}
+      </span>
+      <LineContent line={line} parsed={parsed} />
+    </div>
   );
 });
 
 export function AstTree() {
   const parsedData = useStore((s) => s.parsedData);
-  const expandedNodes = useStore((s) => s.expandedNodes);
+  const expansion = useStore((s) => s.expansion);
   const activeNodeId = useStore((s) => s.activeNodeId);
   const activeCopyText = useStore((s) => s.activeCopyText);
   const hoveredNodeId = useStore((s) => s.hoveredNodeId);
-  const expandAll = useStore((s) => s.expandAll);
+  const expandToDepth = useStore((s) => s.expandToDepth);
   const collapseAll = useStore((s) => s.collapseAll);
   const toggleExpanded = useStore((s) => s.toggleExpanded);
+  const materializeBlock = useStore((s) => s.materializeBlock);
   const setActiveNode = useStore((s) => s.setActiveNode);
   const setHoveredNode = useStore((s) => s.setHoveredNode);
   const scrollToHex = useStore((s) => s.scrollToHex);
+  const listRef = useRef<FixedSizeList>(null);
+
+  const lines = useMemo(() => (parsedData ? flattenTree(parsedData, expansion) : []), [parsedData, expansion]);
 
   // Handle Ctrl+C to copy active node text
   useEffect(() => {
@@ -199,7 +345,84 @@ export function AstTree() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [activeCopyText]);
 
-  if (!parsedData) {
+  // Bring the active line into view when it is selected elsewhere (a search match, the Hex View).
+  useEffect(() => {
+    const index = lines.findIndex((l) => l.id === activeNodeId);
+    if (index >= 0) listRef.current?.scrollToItem(index);
+  }, [activeNodeId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // A block streamed without its values decodes them when first opened.
+  const toggle = useCallback(
+    (line: TreeLine) => {
+      if (line.kind === 'block' && line.block.deferred && !line.expanded) {
+        materializeBlock(line.block.index);
+      } else {
+        toggleExpanded(line);
+      }
+    },
+    [materializeBlock, toggleExpanded]
+  );
+
+  const activate = useCallback(
+    (index: number) => {
+      if (!parsedData) return;
+      setActiveNode(lines[index].id, lineCopyText(lines[index], parsedData));
+    },
+    [lines, parsedData, setActiveNode]
+  );
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (lines.length === 0) return;
+      const cursor = lines.findIndex((l) => l.id === activeNodeId);
+      const line = cursor >= 0 ? lines[cursor] : null;
+      const moveTo = (index: number) => {
+        const target = Math.min(Math.max(index, 0), lines.length - 1);
+        activate(target);
+        listRef.current?.scrollToItem(target);
+      };
+
+      switch (e.key) {
+        case 'ArrowDown':
+          moveTo(cursor + 1);
+          break;
+        case 'ArrowUp':
+          moveTo(cursor < 0 ? 0 : cursor - 1);
+          break;
+        case 'ArrowRight':
+          if (!line) moveTo(0);
+          else if (line.expandable && !line.expanded) toggle(line);
+          else if (line.expanded) moveTo(cursor + 1);
+          break;
+        case 'ArrowLeft':
+          if (!line) moveTo(0);
+          else if (line.expanded) toggle(line);
+          else if (line.parent >= 0) moveTo(line.parent);
+          break;
+        case 'Enter':
+        case ' ':
+          if (line?.expandable) toggle(line);
+          break;
+        case 'Home':
+          moveTo(0);
+          break;
+        case 'End':
+          moveTo(lines.length - 1);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    },
+    [lines, activeNodeId, activate, toggle]
+  );
+
+  const itemData = useMemo<LineData | null>(
+    () => (parsedData ? { lines, parsed: parsedData, activeNodeId, hoveredNodeId, activate, toggle } : null),
+    [lines, parsedData, activeNodeId, hoveredNodeId, activate, toggle]
+  );
+
+  if (!parsedData || !itemData) {
     return (
       <div className="ast-tree">
         <div className="ast-tree-empty">No data loaded</div>
@@ -208,6 +431,7 @@ export function AstTree() {
   }
 
   const isProtocol = parsedData.format === ClickHouseFormat.NativeProtocol;
+  const isWire = parsedData.metadata?.layer === 'wire';
   const isBlockBased = !!parsedData.blocks;
   const itemCount = parsedData.rows?.length ?? parsedData.blocks?.length ?? 0;
   const packetCount = isProtocol
@@ -217,14 +441,29 @@ export function AstTree() {
   return (
     <div className="ast-tree">
       <div className="ast-header">
-        <button className="ast-header-btn" onClick={expandAll}>
-          Expand All
-        </button>
+        <select
+          className="ast-header-btn"
+          value={expansion.depth}
+          onChange={(e) => expandToDepth(Number(e.target.value))}
+          title="Open every node down to this depth"
+        >
+          {Array.from({ length: MAX_EXPAND_DEPTH }, (_, i) => i + 1).map((depth) => (
+            <option key={depth} value={depth}>
+              Expand to depth {depth}
+            </option>
+          ))}
+          {expansion.depth === 0 && <option value={0}>Collapsed</option>}
+        </select>
         <button className="ast-header-btn" onClick={collapseAll}>
           Collapse All
         </button>
         <span style={{ marginLeft: 'auto', color: 'var(--text-muted)', fontSize: 11 }}>
-          {isProtocol ? (
+          {isWire ? (
+            <>
+              {parsedData.totalBytes} bytes on the wire | {parsedData.trailingNodes?.length ?? 0} frame(s) |{' '}
+              {String(parsedData.metadata?.decompressedBytes)} bytes decompressed
+            </>
+          ) : isProtocol ? (
             <>
               {parsedData.totalBytes} bytes | {packetCount} packet(s) | protocol v
               {String(parsedData.metadata?.negotiatedVersion ?? '?')}
@@ -238,249 +477,47 @@ export function AstTree() {
         </span>
       </div>
 
-      {/* RowBinary Header */}
-      {parsedData.rows && (() => {
-        const headerId = 'rowbinary-header';
-        const isHeaderExpanded = expandedNodes.has(headerId);
-        const headerByteCount = parsedData.header.byteRange.end - parsedData.header.byteRange.start;
-        const columnCountId = 'rowbinary-header-colcount';
-
-        return (
-          <div className="ast-metadata-section" style={{ padding: '8px 12px', borderBottom: '1px solid var(--border-color)' }}>
-            <div
-              className={`ast-metadata-header ${activeNodeId === headerId ? 'active' : ''} ${hoveredNodeId === headerId ? 'hovered' : ''}`}
-              onClick={() => {
-                setActiveNode(headerId, 'RowBinaryWithNamesAndTypes header (Header)');
-                toggleExpanded(headerId);
-              }}
-              onDoubleClick={() => scrollToHex(parsedData.header.byteRange.start)}
-              onMouseEnter={() => setHoveredNode(headerId)}
-              onMouseLeave={() => setHoveredNode(null)}
-              style={{ '--depth': 0 } as React.CSSProperties}
-            >
-              <span>{isHeaderExpanded ? '▼' : '▶'}</span>
-              <span className="ast-metadata-badge">Header</span>
-              <span className="ast-metadata-label">RowBinaryWithNamesAndTypes header</span>
-              <span className="ast-metadata-bytes">
-                [{parsedData.header.byteRange.start}:{parsedData.header.byteRange.end}] ({headerByteCount}B)
-              </span>
-            </div>
-            {isHeaderExpanded && (
-              <div className="ast-children">
-                {/* Column count */}
-                <div
-                  className={`ast-metadata-item ${activeNodeId === columnCountId ? 'active' : ''} ${hoveredNodeId === columnCountId ? 'hovered' : ''}`}
-                  style={{ '--depth': 1 } as React.CSSProperties}
-                  onClick={() => setActiveNode(columnCountId, `columnCount: ${parsedData.header.columnCount} (LEB128)`)}
-                  onDoubleClick={() => scrollToHex(parsedData.header.columnCountRange.start)}
-                  onMouseEnter={() => setHoveredNode(columnCountId)}
-                  onMouseLeave={() => setHoveredNode(null)}
-                >
-                  <span className="ast-metadata-badge">LEB128</span>
-                  <span className="ast-metadata-label">columnCount:</span>
-                  <span className="ast-metadata-value">{parsedData.header.columnCount}</span>
-                  <span className="ast-metadata-bytes">
-                    [{parsedData.header.columnCountRange.start}:{parsedData.header.columnCountRange.end}] (
-                    {parsedData.header.columnCountRange.end - parsedData.header.columnCountRange.start}B)
-                  </span>
-                </div>
-
-                {/* Column definitions */}
-                {parsedData.header.columns.map((col, colIndex) => {
-                  const colDefId = `rowbinary-header-col-${colIndex}`;
-                  const colNameId = `rowbinary-header-col-${colIndex}-name`;
-                  const colTypeId = `rowbinary-header-col-${colIndex}-type`;
-                  const isColDefExpanded = expandedNodes.has(colDefId);
-
-                  return (
-                    <div key={colDefId} className="ast-metadata-section">
-                      <div
-                        className={`ast-metadata-header ${activeNodeId === colDefId ? 'active' : ''} ${hoveredNodeId === colDefId ? 'hovered' : ''}`}
-                        onClick={() => {
-                          setActiveNode(colDefId, `${col.name} (${col.typeString})`);
-                          toggleExpanded(colDefId);
-                        }}
-                        onDoubleClick={() => scrollToHex(col.nameByteRange.start)}
-                        onMouseEnter={() => setHoveredNode(colDefId)}
-                        onMouseLeave={() => setHoveredNode(null)}
-                        style={{ '--depth': 1 } as React.CSSProperties}
-                      >
-                        <span>{isColDefExpanded ? '▼' : '▶'}</span>
-                        <span className="ast-column-badge" style={{ background: getTypeColor(col.typeString) }}>
-                          {col.typeString.length > 20 ? col.typeString.split('(')[0] + '(...)' : col.typeString}
-                        </span>
-                        <span className="ast-column-name">{col.name}</span>
-                        <span className="ast-metadata-bytes">
-                          [{col.nameByteRange.start}:{col.typeByteRange.end}] (
-                          {col.typeByteRange.end - col.nameByteRange.start}B)
-                        </span>
-                      </div>
-                      {isColDefExpanded && (
-                        <div className="ast-children">
-                          <div
-                            className={`ast-metadata-item ${activeNodeId === colNameId ? 'active' : ''} ${hoveredNodeId === colNameId ? 'hovered' : ''}`}
-                            style={{ '--depth': 2 } as React.CSSProperties}
-                            onClick={() => setActiveNode(colNameId, `name: "${col.name}" (String)`)}
-                            onDoubleClick={() => scrollToHex(col.nameByteRange.start)}
-                            onMouseEnter={() => setHoveredNode(colNameId)}
-                            onMouseLeave={() => setHoveredNode(null)}
-                          >
-                            <span className="ast-metadata-badge">String</span>
-                            <span className="ast-metadata-label">name:</span>
-                            <span className="ast-metadata-value">"{col.name}"</span>
-                            <span className="ast-metadata-bytes">
-                              [{col.nameByteRange.start}:{col.nameByteRange.end}] (
-                              {col.nameByteRange.end - col.nameByteRange.start}B)
-                            </span>
-                          </div>
-                          <div
-                            className={`ast-metadata-item ${activeNodeId === colTypeId ? 'active' : ''} ${hoveredNodeId === colTypeId ? 'hovered' : ''}`}
-                            style={{ '--depth': 2 } as React.CSSProperties}
-                            onClick={() => setActiveNode(colTypeId, `type: "${col.typeString}" (String)`)}
-                            onDoubleClick={() => scrollToHex(col.typeByteRange.start)}
-                            onMouseEnter={() => setHoveredNode(colTypeId)}
-                            onMouseLeave={() => setHoveredNode(null)}
-                          >
-                            <span className="ast-metadata-badge">String</span>
-                            <span className="ast-metadata-label">type:</span>
-                            <span className="ast-metadata-value">"{col.typeString}"</span>
-                            <span className="ast-metadata-bytes">
-                              [{col.typeByteRange.start}:{col.typeByteRange.end}] (
-                              {col.typeByteRange.end - col.typeByteRange.start}B)
-                            </span>
-                          </div>
-                        </div>
-                      )}
-                    </div>
-                  );
-                })}
+      {/* Findings on data that decoded (e.g. INSERT blocks not matching their schema) */}
+      {parsedData.diagnostics && parsedData.diagnostics.length > 0 && (
+        <div className="ast-metadata-section ast-diagnostics">
+          {parsedData.diagnostics.map((d, i) => {
+            const diagnosticId = d.nodeId ?? `diagnostic-${i}`;
+            return (
+              <div
+                key={`${d.code}-${i}`}
+                className={`ast-metadata-item ast-diagnostic ${d.severity} ${activeNodeId === diagnosticId ? 'active' : ''}`}
+                style={{ '--depth': 0 } as React.CSSProperties}
+                onClick={() => {
+                  setActiveNode(diagnosticId, `${d.code}: ${d.message}`);
+                  if (d.byteRange) scrollToHex(d.byteRange.start);
+                }}
+                onMouseEnter={() => d.nodeId && setHoveredNode(d.nodeId)}
+                onMouseLeave={() => setHoveredNode(null)}
+              >
+                <span className="ast-metadata-badge">{d.severity}</span>
+                <span className="ast-metadata-label">{d.code}</span>
+                <span className="ast-metadata-value">{d.message}</span>
               </div>
-            )}
-          </div>
-        );
-      })()}
-
-      {/* Row-based display (RowBinary) */}
-      {parsedData.rows?.map((row, rowIndex) => {
-        const rowId = `row-${rowIndex}`;
-        const isExpanded = expandedNodes.has(rowId);
-
-        return (
-          <div key={rowId} className="ast-row">
-            <div
-              className="ast-row-header"
-              onClick={() => toggleExpanded(rowId)}
-              onDoubleClick={() => scrollToHex(row.byteRange.start)}
-            >
-              <span>{isExpanded ? '▼' : '▶'}</span>
-              <span className="ast-row-label">Row {rowIndex}</span>
-              <span className="ast-row-bytes">
-                [{row.byteRange.start}:{row.byteRange.end}] (
-                {row.byteRange.end - row.byteRange.start}B)
-              </span>
-            </div>
-            {isExpanded && (
-              <div className="ast-children">
-                {row.values.map((node, colIndex) => (
-                  <AstNodeItem
-                    key={node.id}
-                    node={node}
-                    depth={1}
-                    columnName={parsedData.header.columns[colIndex]?.name}
-                  />
-                ))}
-              </div>
-            )}
-          </div>
-        );
-      })}
-
-      {/* Block-based display (Native) */}
-      {parsedData.blocks?.map((block, blockIndex) => {
-        const blockId = `block-${blockIndex}`;
-        const isBlockExpanded = expandedNodes.has(blockId);
-        const byteCount = block.byteRange.end - block.byteRange.start;
-
-        return (
-          <div key={blockId} className="ast-block">
-            <div
-              className="ast-block-header"
-              onClick={() => toggleExpanded(blockId)}
-              onDoubleClick={() => scrollToHex(block.byteRange.start)}
-            >
-              <span>{isBlockExpanded ? '▼' : '▶'}</span>
-              <span className="ast-block-label">Block {blockIndex}</span>
-              <span className="ast-block-info">
-                {block.rowCount} rows × {block.columns.length} columns
-              </span>
-              <span className="ast-block-bytes">
-                [{block.byteRange.start}:{block.byteRange.end}] ({byteCount}B)
-              </span>
-            </div>
-            {isBlockExpanded && (
-              <div className="ast-children">
-                <AstNodeItem node={block.header.astNode} depth={1} />
-
-                {/* Columns */}
-                {block.columns.map((col) => {
-                  const isColExpanded = expandedNodes.has(col.id);
-                  const isColActive = col.id === activeNodeId;
-                  const isColHovered = col.id === hoveredNodeId;
-                  const colByteCount = col.dataByteRange.end - col.dataByteRange.start;
-
-                  return (
-                    <div key={col.id} className="ast-column">
-                      <div
-                        className={`ast-column-header ${isColActive ? 'active' : ''} ${isColHovered ? 'hovered' : ''}`}
-                        onClick={() => {
-                          setActiveNode(col.id, `${col.name} (${col.typeString})`);
-                          toggleExpanded(col.id);
-                        }}
-                        onDoubleClick={() => scrollToHex(col.nameByteRange.start)}
-                        onMouseEnter={() => setHoveredNode(col.id)}
-                        onMouseLeave={() => setHoveredNode(null)}
-                        style={{ '--depth': 1, '--node-color': getTypeColor(col.typeString) } as React.CSSProperties}
-                      >
-                        <span>{isColExpanded ? '▼' : '▶'}</span>
-                        <span className="ast-column-badge" style={{ background: getTypeColor(col.typeString) }}>
-                          {col.typeString.length > 20 ? col.typeString.split('(')[0] + '(...)' : col.typeString}
-                        </span>
-                        <span className="ast-column-name">{col.name}</span>
-                        <span className="ast-column-count">[{col.values.length} values]</span>
-                        <span className="ast-column-bytes">
-                          [{col.dataByteRange.start}:{col.dataByteRange.end}] ({colByteCount}B)
-                        </span>
-                      </div>
-                      {isColExpanded && (
-                        <div className="ast-children">
-                          <AstNodeItem node={col.metadataNode} depth={2} />
-                          {col.dataPrefixNodes.map((node) => (
-                            <AstNodeItem key={node.id} node={node} depth={2} />
-                          ))}
-
-                          {/* Column Values */}
-                          {col.values.map((node, valueIndex) => (
-                            <AstNodeItem
-                              key={node.id}
-                              node={node}
-                              depth={2}
-                              columnName={`[${valueIndex}]`}
-                            />
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  );
-                })}
-              </div>
-            )}
-          </div>
-        );
-      })}
-
-      {parsedData.trailingNodes?.map((node) => (
-        <AstNodeItem key={node.id} node={node} depth={0} />
-      ))}
+            );
+          })}
+        </div>
+      )}
+
+      {/* One fixed-height line per visible node; only the lines in view are rendered */}
+      <div className="ast-tree-list" tabIndex={0} onKeyDown={handleKeyDown}>
+        <List
+          ref={listRef}
+          height={window.innerHeight - 150} // Approximate, will be resized by parent
+          itemCount={lines.length}
+          itemSize={LINE_HEIGHT}
+          width="100%"
+          itemData={itemData}
+          itemKey={(index, data) => data.lines[index].id}
+          style={{ height: '100%' }}
+        >
+          {TreeLineRow}
+        </List>
+      </div>
     </div>
   );
 }
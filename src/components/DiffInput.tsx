@@ -0,0 +1,137 @@
+import { useCallback, useRef, useState } from 'react';
+import { useStore, DiffSideName } from '../store/store';
+import { InputModeToggle } from './InputModeToggle';
+import { ClickHouseFormat, FORMAT_METADATA } from '../core/types/formats';
+import { NATIVE_PROTOCOL_PRESETS } from '../core/types/native-protocol';
+
+const SIDES: DiffSideName[] = ['a', 'b'];
+
+/**
+ * Inputs for the diff view: load a file into each side, or run the current
+ * query at two Native protocol versions. Files decode with the format,
+ * schema and compression chosen in the query editor.
+ */
+export function DiffInput() {
+  const query = useStore((s) => s.query);
+  const setQuery = useStore((s) => s.setQuery);
+  const format = useStore((s) => s.format);
+  const diffSources = useStore((s) => s.diffSources);
+  const diffResult = useStore((s) => s.diffResult);
+  const diffError = useStore((s) => s.diffError);
+  const loadDiffFile = useStore((s) => s.loadDiffFile);
+  const runDiffQueries = useStore((s) => s.runDiffQueries);
+  const isLoading = useStore((s) => s.isLoading);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadSide = useRef<DiffSideName>('a');
+  const [versions, setVersions] = useState<Record<DiffSideName, number>>({
+    a: NATIVE_PROTOCOL_PRESETS[0].value,
+    b: NATIVE_PROTOCOL_PRESETS[NATIVE_PROTOCOL_PRESETS.length - 1].value,
+  });
+
+  const handleUploadClick = useCallback((side: DiffSideName) => {
+    uploadSide.current = side;
+    fileInputRef.current?.click();
+  }, []);
+
+  const handleFileChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) {
+        loadDiffFile(uploadSide.current, file);
+      }
+      // Reset the input so the same file can be selected again
+      e.target.value = '';
+    },
+    [loadDiffFile]
+  );
+
+  const summary = diffResult?.summary;
+
+  return (
+    <div className="query-input">
+      <div className="query-input-header">
+        <InputModeToggle />
+        <span className="query-format-label">Format: {FORMAT_METADATA[format].displayName}</span>
+        {format === ClickHouseFormat.Native &&
+          SIDES.map((side) => (
+            <div key={side} className="query-format-selector">
+              <label htmlFor={`diff-version-${side}`} className="query-format-label">
+                {side.toUpperCase()}:
+              </label>
+              <select
+                id={`diff-version-${side}`}
+                className="query-format-select"
+                value={versions[side]}
+                onChange={(e) => setVersions((v) => ({ ...v, [side]: Number(e.target.value) }))}
+                disabled={isLoading}
+                title={`Native client_protocol_version for side ${side.toUpperCase()}`}
+              >
+                {NATIVE_PROTOCOL_PRESETS.map((preset) => (
+                  <option key={preset.value} value={preset.value}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        <div className="query-input-actions">
+          <input
+            ref={fileInputRef}
+            type="file"
+            onChange={handleFileChange}
+            style={{ display: 'none' }}
+            accept="*"
+          />
+          {SIDES.map((side) => (
+            <button
+              key={side}
+              className="query-btn secondary"
+              onClick={() => handleUploadClick(side)}
+              disabled={isLoading}
+              title={diffSources[side]?.label ?? `Load a file as side ${side.toUpperCase()}`}
+            >
+              Load {side.toUpperCase()}
+            </button>
+          ))}
+          <button
+            className="query-btn primary"
+            onClick={() => runDiffQueries(versions.a, versions.b)}
+            disabled={isLoading}
+            title="Run the query once per side and diff the responses"
+          >
+            {isLoading ? 'Running...' : 'Run Both'}
+          </button>
+        </div>
+      </div>
+      <textarea
+        className="query-textarea"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Enter your SQL query..."
+        disabled={isLoading}
+        spellCheck={false}
+      />
+      <div className="diff-input-status">
+        {SIDES.map((side) => (
+          <span key={side} className="diff-input-source">
+            {side.toUpperCase()}: {diffSources[side]?.label ?? 'not loaded'}
+          </span>
+        ))}
+        {summary && (
+          <span className="diff-input-summary">
+            {summary.changed} changed · {summary.added} added · {summary.removed} removed
+          </span>
+        )}
+      </div>
+      {diffError && (
+        <div className="query-error">
+          <span className="query-error-icon">!</span>
+          <span className="query-error-text">{diffError.message}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DiffInput;
@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FixedSizeList as List, FixedSizeList } from 'react-window';
+import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
+import { useStore, DiffSideName, DiffSource } from '../../store/store';
+import { DiffEntry, DiffStatus } from '../../core/structural-diff';
+import { BYTES_PER_ROW, HexRow, HighlightInfo } from '../HexViewer/HexViewer';
+import '../../styles/diff-view.css';
+
+const STATUS_COLORS: Record<DiffStatus, string> = {
+  changed: '#ffb74d',
+  added: '#81c784',
+  removed: '#e57373',
+  unchanged: '#9e9e9e',
+};
+
+const STATUS_MARKS: Record<DiffStatus, string> = {
+  changed: '~',
+  added: '+',
+  removed: '-',
+  unchanged: ' ',
+};
+
+/**
+ * Byte highlights for one side: every byte of a node that differs, in its
+ * status color (children are listed after their parents, so the most
+ * specific node wins), and the selected entry outlined.
+ */
+function buildDiffHighlightMap(
+  entries: DiffEntry[],
+  side: DiffSideName,
+  activePath: string | null
+): Map<number, HighlightInfo> {
+  const map = new Map<number, HighlightInfo>();
+  for (const entry of entries) {
+    const node = entry[side];
+    const isActive = entry.path === activePath;
+    if (!node || (entry.status === 'unchanged' && !isActive)) continue;
+    for (let i = node.byteRange.start; i < node.byteRange.end; i++) {
+      if (map.get(i)?.isActive && !isActive) continue;
+      map.set(i, { color: STATUS_COLORS[entry.status], isActive, isHovered: false });
+    }
+  }
+  return map;
+}
+
+/** The most deeply nested entry whose node on `side` contains `offset`. */
+function entryAt(entries: DiffEntry[], side: DiffSideName, offset: number): DiffEntry | null {
+  let found: DiffEntry | null = null;
+  for (const entry of entries) {
+    const range = entry[side]?.byteRange;
+    if (range && offset >= range.start && offset < range.end && (!found || entry.depth >= found.depth)) {
+      found = entry;
+    }
+  }
+  return found;
+}
+
+interface DiffHexPaneProps {
+  side: DiffSideName;
+  source: DiffSource | null;
+  entries: DiffEntry[];
+  activePath: string | null;
+  onSelect: (path: string) => void;
+}
+
+function DiffHexPane({ side, source, entries, activePath, onSelect }: DiffHexPaneProps) {
+  const listRef = useRef<FixedSizeList>(null);
+
+  const highlightMap = useMemo(() => buildDiffHighlightMap(entries, side, activePath), [entries, side, activePath]);
+
+  // Bring the selected entry's bytes into view on this side
+  useEffect(() => {
+    const range = entries.find((e) => e.path === activePath)?.[side]?.byteRange;
+    if (range && listRef.current) {
+      listRef.current.scrollToItem(Math.floor(range.start / BYTES_PER_ROW), 'center');
+    }
+  }, [entries, side, activePath]);
+
+  const handleByteClick = useCallback(
+    (offset: number) => {
+      const entry = entryAt(entries, side, offset);
+      if (entry) onSelect(entry.path);
+    },
+    [entries, side, onSelect]
+  );
+
+  return (
+    <div className="panel-container">
+      <div className="panel-header">
+        {side.toUpperCase()}
+        <span className="diff-pane-label">{source ? `${source.label} (${source.data.length}B)` : 'not loaded'}</span>
+      </div>
+      <div className="panel-content">
+        <div className="hex-viewer">
+          {source ? (
+            <List
+              ref={listRef}
+              height={window.innerHeight - 150} // Approximate, will be resized by parent
+              itemCount={Math.ceil(source.data.length / BYTES_PER_ROW)}
+              itemSize={22}
+              width="100%"
+              itemData={{ bytes: source.data, highlightMap, selected: null, onByteClick: handleByteClick }}
+              style={{ height: '100%' }}
+            >
+              {HexRow}
+            </List>
+          ) : (
+            <div className="hex-viewer-empty">No data loaded</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface DiffEntryRowProps {
+  index: number;
+  style: React.CSSProperties;
+  data: {
+    entries: DiffEntry[];
+    activePath: string | null;
+    onSelect: (path: string) => void;
+  };
+}
+
+function DiffEntryRow({ index, style, data }: DiffEntryRowProps) {
+  const entry = data.entries[index];
+  const name = entry.path.slice(entry.path.lastIndexOf('/') + 1);
+  const values =
+    entry.status === 'changed'
+      ? `${entry.a!.value} → ${entry.b!.value}`
+      : (entry.b ?? entry.a)!.value;
+  const types = entry.a && entry.b && entry.a.type !== entry.b.type ? `${entry.a.type} → ${entry.b.type}` : (entry.b ?? entry.a)!.type;
+
+  return (
+    <div
+      className={`diff-entry status-${entry.status}${entry.path === data.activePath ? ' active' : ''}`}
+      style={{ ...style, '--depth': entry.depth, '--status-color': STATUS_COLORS[entry.status] } as React.CSSProperties}
+      onClick={() => data.onSelect(entry.path)}
+      title={entry.path}
+    >
+      <span className="diff-entry-mark">{STATUS_MARKS[entry.status]}</span>
+      <span className="diff-entry-name">{name}</span>
+      <span className="diff-entry-type">{types}</span>
+      <span className="diff-entry-value">{values}</span>
+    </div>
+  );
+}
+
+/**
+ * Side-by-side structural diff: hex of A, the aligned node list, hex of B.
+ * Selecting a node (in the list or by clicking a byte on either side)
+ * highlights its bytes in both hex panes.
+ */
+export function DiffView() {
+  const diffSources = useStore((s) => s.diffSources);
+  const diffResult = useStore((s) => s.diffResult);
+  const activePath = useStore((s) => s.diffActivePath);
+  const setDiffActivePath = useStore((s) => s.setDiffActivePath);
+
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const listRef = useRef<FixedSizeList>(null);
+
+  const entries = useMemo(() => diffResult?.entries ?? [], [diffResult]);
+  const visible = useMemo(
+    () => (showUnchanged ? entries : entries.filter((e) => e.status !== 'unchanged' || e.path === activePath)),
+    [entries, showUnchanged, activePath]
+  );
+
+  // Keep the selected entry visible in the list
+  useEffect(() => {
+    const index = visible.findIndex((e) => e.path === activePath);
+    if (index >= 0) listRef.current?.scrollToItem(index, 'smart');
+  }, [visible, activePath]);
+
+  return (
+    <PanelGroup direction="horizontal" autoSaveId="diff-panels">
+      <Panel defaultSize={33} minSize={15}>
+        <DiffHexPane side="a" source={diffSources.a} entries={entries} activePath={activePath} onSelect={setDiffActivePath} />
+      </Panel>
+      <PanelResizeHandle className="resize-handle" />
+      <Panel defaultSize={34} minSize={15}>
+        <div className="panel-container">
+          <div className="panel-header">
+            Structural Diff
+            <label className="diff-view-toggle">
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+              Show unchanged
+            </label>
+          </div>
+          <div className="panel-content">
+            {!diffResult ? (
+              <div className="hex-viewer-empty">Load two files, or run the query at two protocol versions</div>
+            ) : visible.length === 0 ? (
+              <div className="hex-viewer-empty">No structural differences</div>
+            ) : (
+              <List
+                ref={listRef}
+                height={window.innerHeight - 150} // Approximate, will be resized by parent
+                itemCount={visible.length}
+                itemSize={22}
+                width="100%"
+                itemData={{ entries: visible, activePath, onSelect: setDiffActivePath }}
+                style={{ height: '100%' }}
+              >
+                {DiffEntryRow}
+              </List>
+            )}
+          </div>
+        </div>
+      </Panel>
+      <PanelResizeHandle className="resize-handle" />
+      <Panel defaultSize={33} minSize={15}>
+        <DiffHexPane side="b" source={diffSources.b} entries={entries} activePath={activePath} onSelect={setDiffActivePath} />
+      </Panel>
+    </PanelGroup>
+  );
+}
+
+export default DiffView;
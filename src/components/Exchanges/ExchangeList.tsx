@@ -0,0 +1,137 @@
+import { useMemo, useState } from 'react';
+import { useStore } from '../../store/store';
+import { exchangesOf, ProtocolExchange } from '../../core/decoder';
+import { AstNode } from '../../core/types/ast';
+import '../../styles/exchange-list.css';
+
+interface PacketRef {
+  node: AstNode;
+  /** Id of the stream the packet is in */
+  streamId: string;
+  from: 'client' | 'server';
+}
+
+const STATUS_TEXT: Record<ProtocolExchange['status'], string> = {
+  ok: 'EndOfStream',
+  exception: 'Exception',
+  incomplete: 'no reply',
+};
+
+function ExchangeGroup({
+  exchange,
+  packets,
+  open,
+  onToggle,
+}: {
+  exchange: ProtocolExchange;
+  packets: Map<string, PacketRef>;
+  open: boolean;
+  onToggle: () => void;
+}) {
+  const activeNodeId = useStore((s) => s.activeNodeId);
+  const revealMatch = useStore((s) => s.revealMatch);
+  const setHoveredNode = useStore((s) => s.setHoveredNode);
+  const refs = [...exchange.clientPacketIds, ...exchange.serverPacketIds]
+    .map((id) => packets.get(id))
+    .filter((ref): ref is PacketRef => !!ref)
+    .sort((a, b) => (a.from === b.from ? 0 : a.from === 'client' ? -1 : 1));
+
+  return (
+    <div className={`exchange exchange-${exchange.status}`}>
+      <div className="exchange-header" onClick={onToggle}>
+        <span className="exchange-toggle">{open ? '▾' : '▸'}</span>
+        <span className="exchange-index">#{exchange.index}</span>
+        <span className="exchange-query" title={exchange.query}>
+          {exchange.query || '(empty query)'}
+        </span>
+        <span className="exchange-rows">{exchange.rows} row(s)</span>
+        <span className="exchange-status" title={exchange.exception}>
+          {STATUS_TEXT[exchange.status]}
+        </span>
+      </div>
+      {open && (
+        <div className="exchange-body">
+          <div className="exchange-meta">query_id: {exchange.queryId || '(none)'}</div>
+          {exchange.exception && <div className="exchange-error">{exchange.exception}</div>}
+          {refs.map(({ node, streamId, from }) => (
+            <div
+              key={node.id}
+              className={`exchange-packet ${node.id === activeNodeId ? 'active' : ''}`}
+              onClick={() =>
+                revealMatch({
+                  nodeId: node.id,
+                  type: node.type,
+                  label: node.label,
+                  displayValue: node.displayValue,
+                  byteRange: node.byteRange,
+                  path: [streamId],
+                })
+              }
+              onMouseEnter={() => setHoveredNode(node.id)}
+              onMouseLeave={() => setHoveredNode(null)}
+              title={node.displayValue}
+            >
+              <span className="exchange-dir">{from === 'client' ? '→' : '←'}</span>
+              {node.label}
+              <span className="exchange-size">{node.byteRange.end - node.byteRange.start}B</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The queries of a native-protocol capture, one group per exchange (Query
+ * through EndOfStream / Exception) with its query_id, query text, rows
+ * returned and how it ended. Opening a group lists its packets, client then
+ * server; clicking one selects it in the Hex View and AST Tree.
+ */
+export function ExchangeList() {
+  const parsedData = useStore((s) => s.parsedData);
+  const [closed, setClosed] = useState<Set<number>>(new Set());
+
+  const exchanges = useMemo(() => (parsedData ? exchangesOf(parsedData) : []), [parsedData]);
+  const packets = useMemo(() => {
+    const refs = new Map<string, PacketRef>();
+    parsedData?.trailingNodes?.forEach((stream, i) => {
+      for (const node of stream.children ?? []) {
+        refs.set(node.id, { node, streamId: stream.id, from: i === 0 ? 'client' : 'server' });
+      }
+    });
+    return refs;
+  }, [parsedData]);
+
+  if (exchanges.length === 0) {
+    return <div className="exchange-list-empty">No queries in this capture</div>;
+  }
+
+  const toggle = (index: number) =>
+    setClosed((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(index)) next.add(index);
+      return next;
+    });
+  const failed = exchanges.filter((e) => e.status === 'exception').length;
+
+  return (
+    <div className="exchange-list">
+      <div className="exchange-summary">
+        {exchanges.length} quer{exchanges.length === 1 ? 'y' : 'ies'} on this connection
+        {failed > 0 && `, ${failed} failed`}
+      </div>
+      {exchanges.map((exchange) => (
+        <ExchangeGroup
+          key={exchange.queryNodeId}
+          exchange={exchange}
+          packets={packets}
+          open={!closed.has(exchange.index)}
+          onToggle={() => toggle(exchange.index)}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default ExchangeList;
@@ -0,0 +1,62 @@
+import { CoverageReport } from '../../core/coverage';
+import { ByteRange } from '../../core/types/ast';
+
+interface CoverageMinimapProps {
+  report: CoverageReport;
+  onSeek: (byteOffset: number) => void;
+}
+
+/**
+ * A strip beside the hex rows scaled to the whole buffer, marking the bytes
+ * no AST leaf claims (gaps) and the bytes several leaves claim (overlaps).
+ * Clicking it scrolls the hex view to that point; clicking a mark, to its start.
+ */
+export function CoverageMinimap({ report, onSeek }: CoverageMinimapProps) {
+  const { totalBytes, gaps, overlaps } = report;
+  const percent = report.coveragePercent === 100 ? '100' : report.coveragePercent.toFixed(1);
+
+  const position = (range: ByteRange) => ({
+    top: `${(range.start / totalBytes) * 100}%`,
+    height: `${((range.end - range.start) / totalBytes) * 100}%`,
+  });
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1);
+    onSeek(Math.min(Math.floor(fraction * totalBytes), totalBytes - 1));
+  };
+
+  const mark = (kind: 'gap' | 'overlap', range: ByteRange, title: string) => (
+    <div
+      key={`${kind}-${range.start}`}
+      className={`coverage-mark ${kind}`}
+      style={position(range)}
+      title={title}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSeek(range.start);
+      }}
+    />
+  );
+
+  const bytes = (range: ByteRange) => `${range.end - range.start} B at 0x${range.start.toString(16).toUpperCase()}`;
+
+  return (
+    <div className="coverage-minimap">
+      <div
+        className="coverage-percent"
+        title={`${report.coveredBytes} of ${totalBytes} bytes covered, ${gaps.length} gap(s), ${overlaps.length} overlap(s)`}
+      >
+        {percent}%
+      </div>
+      {totalBytes > 0 && (
+        <div className="coverage-strip" onClick={handleClick}>
+          {overlaps.map((o) => mark('overlap', o.byteRange, `Overlap: ${bytes(o.byteRange)} (${o.nodeIds.length} nodes)`))}
+          {gaps.map((g) => mark('gap', g, `Not covered: ${bytes(g)}`))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CoverageMinimap;
@@ -0,0 +1,60 @@
+import { useMemo, useState } from 'react';
+import { inspectBytes } from '../../core/data-inspector';
+import { ByteRange } from '../../core/types/ast';
+
+interface DataInspectorProps {
+  data: Uint8Array;
+  /** The selection start, or null when no byte is selected */
+  offset: number | null;
+  /** Select the bytes a reading takes */
+  onSelect: (range: ByteRange) => void;
+}
+
+/**
+ * The bytes at the selection start read as every primitive type, whatever the
+ * decoder made of them, to make sense of misaligned or mistyped data.
+ */
+export function DataInspector({ data, offset, onSelect }: DataInspectorProps) {
+  const [scale, setScale] = useState(2);
+  const readings = useMemo(
+    () => (offset === null ? [] : inspectBytes(data, offset, { decimalScale: scale })),
+    [data, offset, scale]
+  );
+
+  return (
+    <div className="data-inspector">
+      <div className="data-inspector-header">
+        <span>{offset === null ? 'Data Inspector' : `At 0x${offset.toString(16).toUpperCase()}`}</span>
+        <label className="data-inspector-scale" title="Scale of the Decimal readings">
+          scale
+          <input
+            type="number"
+            min={0}
+            max={76}
+            value={scale}
+            onChange={(e) => setScale(Math.min(76, Math.max(0, Math.floor(Number(e.target.value) || 0))))}
+          />
+        </label>
+      </div>
+      {offset === null ? (
+        <div className="data-inspector-empty">Select a byte to read it as each type</div>
+      ) : (
+        <table className="data-inspector-table">
+          <tbody>
+            {readings.map((reading) => (
+              <tr
+                key={reading.type}
+                className={reading.displayValue === null ? 'past-end' : ''}
+                onClick={() => reading.displayValue !== null && onSelect(reading.byteRange)}
+                title={reading.displayValue === null ? undefined : `${reading.byteRange.end - reading.byteRange.start} B, click to select them`}
+              >
+                <td className="data-inspector-type">{reading.type}</td>
+                <td className="data-inspector-value">{reading.displayValue ?? 'past the end'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
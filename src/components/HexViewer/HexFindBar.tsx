@@ -0,0 +1,162 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useStore } from '../../store/store';
+import { BYTE_PATTERN_KINDS, BytePatternKind, findBytePattern, nodesContaining, parseBytePattern } from '../../core/byte-search';
+import { materializeBlock } from '../../core/decoder/stream-decoder';
+import { SearchMatch } from '../../core/search';
+import { ByteRange } from '../../core/types/ast';
+import { DEFAULT_NATIVE_PROTOCOL_VERSION } from '../../core/types/native-protocol';
+
+/** Occurrences highlighted at most */
+const HIT_LIMIT = 10000;
+
+/** The occurrences of a byte search, sorted, and the one being shown */
+export interface FindHits {
+  hits: ByteRange[];
+  current: number;
+}
+
+/** The column (and element) a node belongs to, or its label outside any column */
+function ownerName(owner: SearchMatch): string {
+  if (!owner.column) return owner.label ?? owner.nodeId;
+  return owner.label && owner.label !== owner.column ? `${owner.column} ${owner.label}` : owner.column;
+}
+
+interface HexFindBarProps {
+  onChange: (find: FindHits | null) => void;
+}
+
+/**
+ * Search the raw bytes for a hex pattern, a string or an encoded number, and
+ * step through the occurrences. The one shown is mapped to the deepest AST
+ * node holding all of its bytes (which column it came from); clicking that
+ * node opens it in the AST Tree.
+ */
+export function HexFindBar({ onChange }: HexFindBarProps) {
+  const rawData = useStore((s) => s.rawData);
+  const parsedData = useStore((s) => s.parsedData);
+  const decodeContext = useStore((s) => s.decodeContext);
+  const revealMatch = useStore((s) => s.revealMatch);
+  const scrollToHex = useStore((s) => s.scrollToHex);
+  const [kind, setKind] = useState<BytePatternKind>('hex');
+  const [text, setText] = useState('');
+  const [searched, setSearched] = useState<string | null>(null);
+  const [hits, setHits] = useState<ByteRange[] | null>(null);
+  const [current, setCurrent] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Offsets found in other bytes mean nothing here.
+  useEffect(() => {
+    setHits(null);
+    setSearched(null);
+    onChange(null);
+  }, [rawData]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Only the hit being shown is mapped to its node; the walk skips everything around it.
+  const owner = useMemo(() => {
+    if (!hits || hits.length === 0 || !parsedData || !rawData) return null;
+    const version = decodeContext?.nativeProtocolVersion ?? DEFAULT_NATIVE_PROTOCOL_VERSION;
+    return nodesContaining(parsedData, [hits[current]], {
+      materialize: (block) => materializeBlock(rawData, block, version),
+    })[0];
+  }, [hits, current, parsedData, rawData, decodeContext]);
+
+  const show = (found: ByteRange[], index: number) => {
+    if (found.length === 0) return;
+    const wrapped = (index + found.length) % found.length;
+    setCurrent(wrapped);
+    onChange({ hits: found, current: wrapped });
+    scrollToHex(found[wrapped].start);
+  };
+
+  const runFind = () => {
+    if (!rawData) return;
+    try {
+      const found = findBytePattern(rawData, parseBytePattern(kind, text), HIT_LIMIT);
+      setHits(found);
+      setSearched(`${kind}:${text}`);
+      setError(null);
+      setCurrent(0);
+      onChange(found.length > 0 ? { hits: found, current: 0 } : null);
+      if (found.length > 0) scrollToHex(found[0].start);
+    } catch (err) {
+      setHits(null);
+      setSearched(null);
+      setError((err as Error).message);
+      onChange(null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (hits && searched === `${kind}:${text}`) show(hits, current + (e.shiftKey ? -1 : 1));
+    else runFind();
+  };
+
+  const hex = (offset: number) => `0x${offset.toString(16).toUpperCase()}`;
+
+  return (
+    <>
+      <div className="hex-edit-bar hex-find-bar">
+        <select
+          className="hex-find-kind"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as BytePatternKind)}
+          aria-label="Pattern kind"
+        >
+          {BYTE_PATTERN_KINDS.map(({ kind: k, label }) => (
+            <option key={k} value={k}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          className="hex-edit-input hex-find-input"
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={kind === 'hex' ? 'find bytes, e.g. 0a ?? ff' : kind === 'text' ? 'find text' : 'find value'}
+          spellCheck={false}
+          aria-label="Bytes to find"
+        />
+        <button className="hex-edit-btn" onClick={runFind} disabled={text === ''}>
+          Find
+        </button>
+        <button
+          className="hex-edit-btn"
+          onClick={() => hits && show(hits, current - 1)}
+          disabled={!hits || hits.length === 0}
+          title="Previous occurrence (Shift+Enter)"
+        >
+          ↑
+        </button>
+        <button
+          className="hex-edit-btn"
+          onClick={() => hits && show(hits, current + 1)}
+          disabled={!hits || hits.length === 0}
+          title="Next occurrence (Enter)"
+        >
+          ↓
+        </button>
+        {hits && (
+          <span className="hex-find-count">
+            {hits.length === 0
+              ? 'No matches'
+              : `${current + 1} / ${hits.length}${hits.length === HIT_LIMIT ? '+' : ''} at ${hex(hits[current].start)}`}
+          </span>
+        )}
+        {hits && hits.length > 0 && (
+          <span
+            className={`hex-find-owner ${owner ? '' : 'none'}`}
+            onClick={() => owner && revealMatch(owner)}
+            title={owner ? 'Show in the AST Tree' : undefined}
+          >
+            {owner ? `in ${ownerName(owner)}: ${owner.type} ${owner.displayValue}` : 'not inside one node'}
+          </span>
+        )}
+      </div>
+      {error && <div className="hex-edit-error">{error}</div>}
+    </>
+  );
+}
@@ -1,12 +1,36 @@
-import { useMemo, useCallback, useRef, useEffect } from 'react';
+import { useMemo, useCallback, useRef, useEffect, useState } from 'react';
 import { FixedSizeList as List, FixedSizeList } from 'react-window';
 import { useStore } from '../../store/store';
-import { AstNode } from '../../core/types/ast';
+import { AstNode, ByteRange } from '../../core/types/ast';
+import { undecodedRanges } from '../../core/decoder/format-decoder';
+import { analyzeCoverage } from '../../core/coverage';
+import { CoverageMinimap } from './CoverageMinimap';
+import { DataInspector } from './DataInspector';
+import { FindHits, HexFindBar } from './HexFindBar';
+import {
+  ByteEdit,
+  deepestNodeAt,
+  deleteEdit,
+  insertEdit,
+  overwriteEdit,
+  parseHexBytes,
+} from '../../core/hex-edit';
 import '../../styles/hex-viewer.css';
 
-const BYTES_PER_ROW = 16;
+export const BYTES_PER_ROW = 16;
 
-interface HighlightInfo {
+/** Selected bytes, both ends inclusive; `anchor` is where the selection started. */
+interface Selection {
+  anchor: number;
+  focus: number;
+}
+
+function selectionRange(selection: Selection | null): { start: number; end: number } | null {
+  if (!selection) return null;
+  return { start: Math.min(selection.anchor, selection.focus), end: Math.max(selection.anchor, selection.focus) };
+}
+
+export interface HighlightInfo {
   color: string;
   isActive: boolean;
   isHovered: boolean;
@@ -171,20 +195,41 @@ function getTypeColor(typeName: string): string {
   return colors[baseType] || '#9e9e9e';
 }
 
-interface HexRowProps {
+export interface HexRowProps {
   index: number;
   style: React.CSSProperties;
   data: {
     bytes: Uint8Array;
     highlightMap: Map<number, HighlightInfo>;
-    onByteClick: (offset: number) => void;
+    selected: { start: number; end: number } | null;
+    onByteClick: (offset: number, extend: boolean) => void;
+    /** Ranges the decoder gave up on; their bytes are shaded. */
+    undecoded?: ByteRange[];
+    /** Occurrences of a byte search; their bytes are marked, the current one more strongly. */
+    find?: FindHits | null;
   };
 }
 
-function HexRow({ index, style, data }: HexRowProps) {
-  const { bytes, highlightMap, onByteClick } = data;
+/** The hits (sorted, all of one length) overlapping bytes [start, end) */
+function hitsBetween(hits: ByteRange[], start: number, end: number): ByteRange[] {
+  let lo = 0;
+  let hi = hits.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (hits[mid].end <= start) lo = mid + 1;
+    else hi = mid;
+  }
+  const out: ByteRange[] = [];
+  for (let i = lo; i < hits.length && hits[i].start < end; i++) out.push(hits[i]);
+  return out;
+}
+
+export function HexRow({ index, style, data }: HexRowProps) {
+  const { bytes, highlightMap, selected, onByteClick, undecoded, find } = data;
   const startOffset = index * BYTES_PER_ROW;
   const rowBytes = bytes.slice(startOffset, startOffset + BYTES_PER_ROW);
+  const rowHits = find ? hitsBetween(find.hits, startOffset, startOffset + BYTES_PER_ROW) : [];
+  const currentHit = find ? find.hits[find.current] : null;
 
   const formatAddress = (offset: number) => {
     return offset.toString(16).padStart(8, '0').toUpperCase();
@@ -198,6 +243,10 @@ function HexRow({ index, style, data }: HexRowProps) {
     return byte >= 0x20 && byte < 0x7f;
   };
 
+  const isUndecoded = (offset: number) => !!undecoded?.some((r) => offset >= r.start && offset < r.end);
+  const isHit = (offset: number) => rowHits.some((r) => offset >= r.start && offset < r.end);
+  const isCurrentHit = (offset: number) => !!currentHit && offset >= currentHit.start && offset < currentHit.end;
+
   return (
     <div className="hex-row" style={style}>
       <div className="hex-address">{formatAddress(startOffset)}</div>
@@ -208,6 +257,11 @@ function HexRow({ index, style, data }: HexRowProps) {
           const classNames = ['hex-byte'];
           if (highlight?.isActive) classNames.push('active', 'highlighted');
           else if (highlight?.isHovered) classNames.push('hovered', 'highlighted');
+          else if (highlight) classNames.push('highlighted');
+          if (selected && offset >= selected.start && offset <= selected.end) classNames.push('selected');
+          if (isUndecoded(offset)) classNames.push('undecoded');
+          if (isCurrentHit(offset)) classNames.push('find-current');
+          else if (isHit(offset)) classNames.push('find-hit');
           if ((i + 1) % 8 === 0 && i < BYTES_PER_ROW - 1) classNames.push('group-end');
 
           return (
@@ -215,7 +269,7 @@ function HexRow({ index, style, data }: HexRowProps) {
               key={i}
               className={classNames.join(' ')}
               style={highlight ? { '--highlight-color': highlight.color } as React.CSSProperties : undefined}
-              onClick={() => onByteClick(offset)}
+              onClick={(e) => onByteClick(offset, e.shiftKey)}
             >
               {formatByte(byte)}
             </span>
@@ -237,7 +291,11 @@ function HexRow({ index, style, data }: HexRowProps) {
           const classNames = ['hex-ascii-char'];
           if (!isPrintable(byte)) classNames.push('non-printable');
           if (highlight?.isActive) classNames.push('active', 'highlighted');
-          else if (highlight?.isHovered) classNames.push('highlighted');
+          else if (highlight) classNames.push('highlighted');
+          if (selected && offset >= selected.start && offset <= selected.end) classNames.push('selected');
+          if (isUndecoded(offset)) classNames.push('undecoded');
+          if (isCurrentHit(offset)) classNames.push('find-current');
+          else if (isHit(offset)) classNames.push('find-hit');
 
           return (
             <span
@@ -262,9 +320,29 @@ export function HexViewer() {
   const setActiveNode = useStore((s) => s.setActiveNode);
   const scrollRequest = useStore((s) => s.scrollRequest);
   const clearScrollTarget = useStore((s) => s.clearScrollTarget);
+  const scrollToHex = useStore((s) => s.scrollToHex);
+  const editBytes = useStore((s) => s.editBytes);
+  const revertEdits = useStore((s) => s.revertEdits);
+  const editCount = useStore((s) => s.editCount);
+  const parseError = useStore((s) => s.parseError);
 
   const listRef = useRef<FixedSizeList>(null);
   const lastScrollId = useRef<number | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [pendingNibble, setPendingNibble] = useState<string | null>(null);
+  const [hexInput, setHexInput] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [find, setFind] = useState<FindHits | null>(null);
+  const [showInspector, setShowInspector] = useState(true);
+  // The buffer our own last edit produced; any other change is a new load.
+  const ownData = useRef<Uint8Array | null>(null);
+
+  useEffect(() => {
+    if (rawData !== ownData.current) {
+      setSelection(null);
+      setPendingNibble(null);
+    }
+  }, [rawData]);
 
   // Scroll to byte offset when requested
   useEffect(() => {
@@ -281,42 +359,100 @@ export function HexViewer() {
     [parsedData, activeNodeId, hoveredNodeId]
   );
 
+  const undecoded = useMemo(() => (parsedData ? undecodedRanges(parsedData) : []), [parsedData]);
+
+  const coverage = useMemo(
+    () => (parsedData && rawData ? analyzeCoverage(parsedData, rawData.length) : null),
+    [parsedData, rawData]
+  );
+
   const handleByteClick = useCallback(
-    (offset: number) => {
-      // Find the deepest node containing this byte
-      if (!parsedData) return;
-
-      let deepestNode: AstNode | null = null;
-      let deepestDepth = -1;
-
-      function visitNode(node: AstNode, depth: number) {
-        if (offset >= node.byteRange.start && offset < node.byteRange.end) {
-          if (depth > deepestDepth) {
-            deepestNode = node;
-            deepestDepth = depth;
-          }
-        }
-        node.children?.forEach((child) => visitNode(child, depth + 1));
+    (offset: number, extend: boolean) => {
+      setSelection((current) => (extend && current ? { ...current, focus: offset } : { anchor: offset, focus: offset }));
+      setPendingNibble(null);
+      // Activate the deepest node containing this byte
+      const node = parsedData && deepestNodeAt(parsedData, offset);
+      if (node) {
+        setActiveNode(node.id);
       }
+    },
+    [parsedData, setActiveNode]
+  );
 
-      parsedData.rows?.forEach((row) => {
-        row.values.forEach((node) => visitNode(node, 0));
-      });
-      parsedData.blocks?.forEach((block) => {
-        visitNode(block.header.astNode, 0);
-        block.columns.forEach((col) => {
-          visitNode(col.metadataNode, 0);
-          col.dataPrefixNodes.forEach((node) => visitNode(node, 0));
-          col.values.forEach((node) => visitNode(node, 0));
-        });
-      });
-      parsedData.trailingNodes?.forEach((node) => visitNode(node, 0));
-
-      if (deepestNode) {
-        setActiveNode((deepestNode as AstNode).id);
+  /** Apply an edit and select the bytes it wrote (or the byte after a deletion). */
+  const applyEdit = useCallback(
+    (edit: ByteEdit) => {
+      editBytes(edit);
+      const edited = useStore.getState().rawData;
+      ownData.current = edited;
+      const length = edited?.length ?? 0;
+      if (edit.insert.length > 0) {
+        setSelection({ anchor: edit.offset, focus: edit.offset + edit.insert.length - 1 });
+      } else if (length > 0) {
+        const at = Math.min(edit.offset, length - 1);
+        setSelection({ anchor: at, focus: at });
+      } else {
+        setSelection(null);
       }
     },
-    [parsedData, setActiveNode]
+    [editBytes]
+  );
+
+  const selected = selectionRange(selection);
+
+  /** Bytes typed into the edit bar, or null (with the reason shown) when they are not hex. */
+  const typedBytes = useCallback(() => {
+    try {
+      const bytes = parseHexBytes(hexInput);
+      if (bytes.length === 0) throw new Error('Type the bytes to write, e.g. 0a ff');
+      setInputError(null);
+      return bytes;
+    } catch (err) {
+      setInputError((err as Error).message);
+      return null;
+    }
+  }, [hexInput]);
+
+  const handleOverwrite = useCallback(() => {
+    const bytes = typedBytes();
+    if (bytes && selected && rawData) applyEdit(overwriteEdit(rawData, selected.start, bytes));
+  }, [typedBytes, selected, rawData, applyEdit]);
+
+  const handleInsert = useCallback(() => {
+    const bytes = typedBytes();
+    if (bytes) applyEdit(insertEdit(selected?.start ?? 0, bytes));
+  }, [typedBytes, selected, applyEdit]);
+
+  const handleDelete = useCallback(() => {
+    if (selected) applyEdit(deleteEdit(selected.start, selected.end + 1));
+  }, [selected, applyEdit]);
+
+  // Typing hex digits over the selection overwrites one byte per two digits,
+  // moving on to the next byte; Delete / Backspace remove the selection.
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (!selected || !rawData || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (/^[0-9a-fA-F]$/.test(e.key)) {
+        e.preventDefault();
+        if (pendingNibble === null) {
+          setPendingNibble(e.key);
+          return;
+        }
+        setPendingNibble(null);
+        const offset = selected.start;
+        applyEdit(overwriteEdit(rawData, offset, parseHexBytes(pendingNibble + e.key)));
+        const next = Math.min(offset + 1, Math.max(rawData.length - 1, 0));
+        setSelection({ anchor: next, focus: next });
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        setPendingNibble(null);
+        handleDelete();
+      } else if (e.key === 'Escape') {
+        setPendingNibble(null);
+        setSelection(null);
+      }
+    },
+    [selected, rawData, pendingNibble, applyEdit, handleDelete]
   );
 
   if (!rawData) {
@@ -328,24 +464,94 @@ export function HexViewer() {
   }
 
   const rowCount = Math.ceil(rawData.length / BYTES_PER_ROW);
+  const hex = (offset: number) => `0x${offset.toString(16).toUpperCase()}`;
 
   return (
     <div className="hex-viewer">
-      <List
-        ref={listRef}
-        height={window.innerHeight - 150} // Approximate, will be resized by parent
-        itemCount={rowCount}
-        itemSize={22}
-        width="100%"
-        itemData={{
-          bytes: rawData,
-          highlightMap,
-          onByteClick: handleByteClick,
-        }}
-        style={{ height: '100%' }}
-      >
-        {HexRow}
-      </List>
+      <div className="hex-edit-bar">
+        <span className="hex-edit-selection">
+          {selected
+            ? `${hex(selected.start)}${selected.end > selected.start ? `–${hex(selected.end)}` : ''} (${selected.end - selected.start + 1} B)`
+            : 'Click a byte to select, shift-click to extend'}
+          {pendingNibble !== null && <span className="hex-edit-pending"> {pendingNibble.toUpperCase()}_</span>}
+        </span>
+        <input
+          className="hex-edit-input"
+          type="text"
+          value={hexInput}
+          onChange={(e) => {
+            setHexInput(e.target.value);
+            setInputError(null);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleOverwrite()}
+          placeholder="hex bytes, e.g. 0a ff"
+          spellCheck={false}
+          aria-label="Bytes to write"
+        />
+        <button className="hex-edit-btn" onClick={handleOverwrite} disabled={!selected} title="Write the bytes over the selection start">
+          Overwrite
+        </button>
+        <button
+          className="hex-edit-btn"
+          onClick={handleInsert}
+          disabled={!selected && rawData.length > 0}
+          title="Insert the bytes before the selection"
+        >
+          Insert
+        </button>
+        <button className="hex-edit-btn" onClick={handleDelete} disabled={!selected} title="Delete the selected bytes">
+          Delete
+        </button>
+        <button
+          className={`hex-edit-btn ${showInspector ? 'active' : ''}`}
+          onClick={() => setShowInspector((shown) => !shown)}
+          title="Read the selected bytes as every type"
+        >
+          Inspector
+        </button>
+        {editCount > 0 && (
+          <span className="hex-edit-status">
+            {editCount} edit{editCount === 1 ? '' : 's'}
+            <button className="hex-edit-btn" onClick={revertEdits} title="Restore the bytes as loaded">
+              Revert
+            </button>
+          </span>
+        )}
+      </div>
+      <HexFindBar onChange={setFind} />
+      {(inputError || (editCount > 0 && parseError)) && (
+        <div className="hex-edit-error">{inputError ?? `Decode failed: ${parseError!.message}`}</div>
+      )}
+      <div className="hex-viewer-body">
+        <div className="hex-viewer-list" tabIndex={0} onKeyDown={handleKeyDown}>
+          <List
+            ref={listRef}
+            height={window.innerHeight - 150} // Approximate, will be resized by parent
+            itemCount={rowCount}
+            itemSize={22}
+            width="100%"
+            itemData={{
+              bytes: rawData,
+              highlightMap,
+              selected,
+              onByteClick: handleByteClick,
+              undecoded,
+              find,
+            }}
+            style={{ height: '100%' }}
+          >
+            {HexRow}
+          </List>
+        </div>
+        {showInspector && (
+          <DataInspector
+            data={rawData}
+            offset={selected?.start ?? null}
+            onSelect={(range) => setSelection({ anchor: range.start, focus: range.end - 1 })}
+          />
+        )}
+        {coverage && <CoverageMinimap report={coverage} onSeek={scrollToHex} />}
+      </div>
     </div>
   );
 }
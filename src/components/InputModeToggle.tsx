@@ -0,0 +1,30 @@
+import { useStore, InputMode } from '../store/store';
+
+const MODES: { mode: InputMode; label: string; title: string }[] = [
+  { mode: 'query', label: 'SQL Query', title: 'Run a query against ClickHouse and decode the response' },
+  { mode: 'builder', label: 'Build Rows', title: 'Type a schema and values and see them encoded as RowBinary' },
+  { mode: 'diff', label: 'Diff', title: 'Compare two dumps, or one query at two protocol versions, node by node' },
+];
+
+/** Switch the top panel between the query editor, the row builder and the diff inputs. */
+export function InputModeToggle() {
+  const inputMode = useStore((s) => s.inputMode);
+  const setInputMode = useStore((s) => s.setInputMode);
+  const isLoading = useStore((s) => s.isLoading);
+
+  return (
+    <span className="input-mode-toggle">
+      {MODES.map(({ mode, label, title }) => (
+        <button
+          key={mode}
+          className={`input-mode-btn${inputMode === mode ? ' active' : ''}`}
+          onClick={() => setInputMode(mode)}
+          disabled={isLoading}
+          title={title}
+        >
+          {label}
+        </button>
+      ))}
+    </span>
+  );
+}
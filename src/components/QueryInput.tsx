@@ -1,7 +1,13 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useStore } from '../store/store';
+import { InputModeToggle } from './InputModeToggle';
 import { DEFAULT_QUERY } from '../core/clickhouse/client';
-import { ClickHouseFormat, FORMAT_METADATA } from '../core/types/formats';
+import {
+  ClickHouseFormat,
+  FORMAT_METADATA,
+  HttpCompression,
+  HTTP_COMPRESSION_METADATA,
+} from '../core/types/formats';
 import { encodeBase64Url } from '../core/base64url';
 import {
   DEFAULT_NATIVE_PROTOCOL_VERSION,
@@ -10,6 +16,12 @@ import {
 
 const isElectron = !!window.electronAPI;
 
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 export function QueryInput() {
   const query = useStore((s) => s.query);
   const setQuery = useStore((s) => s.setQuery);
@@ -17,9 +29,15 @@ export function QueryInput() {
   const setFormat = useStore((s) => s.setFormat);
   const nativeProtocolVersion = useStore((s) => s.nativeProtocolVersion);
   const setNativeProtocolVersion = useStore((s) => s.setNativeProtocolVersion);
+  const compression = useStore((s) => s.compression);
+  const setCompression = useStore((s) => s.setCompression);
+  const schema = useStore((s) => s.schema);
+  const setSchema = useStore((s) => s.setSchema);
   const executeQuery = useStore((s) => s.executeQuery);
   const loadFile = useStore((s) => s.loadFile);
   const isLoading = useStore((s) => s.isLoading);
+  const decodeProgress = useStore((s) => s.decodeProgress);
+  const cancelDecode = useStore((s) => s.cancelDecode);
   const parseError = useStore((s) => s.parseError);
   const queryTiming = useStore((s) => s.queryTiming);
 
@@ -57,10 +75,16 @@ export function QueryInput() {
     if (format === ClickHouseFormat.Native && nativeProtocolVersion !== DEFAULT_NATIVE_PROTOCOL_VERSION) {
       url.searchParams.set('pv', String(nativeProtocolVersion));
     }
+    if (format !== ClickHouseFormat.NativeProtocol && compression !== HttpCompression.None) {
+      url.searchParams.set('c', compression);
+    }
+    if (FORMAT_METADATA[format].needsSchema && schema.trim()) {
+      url.searchParams.set('s', encodeBase64Url(schema));
+    }
     navigator.clipboard.writeText(url.toString());
     setShareLabel('Copied!');
     setTimeout(() => setShareLabel('Share'), 2000);
-  }, [query, format, nativeProtocolVersion]);
+  }, [query, format, nativeProtocolVersion, compression, schema]);
 
   const handleExecute = useCallback(() => {
     executeQuery();
@@ -97,6 +121,13 @@ export function QueryInput() {
     [setNativeProtocolVersion]
   );
 
+  const handleCompressionChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setCompression(e.target.value as HttpCompression);
+    },
+    [setCompression]
+  );
+
   const handleFileChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
@@ -112,7 +143,7 @@ export function QueryInput() {
   return (
     <div className="query-input">
       <div className="query-input-header">
-        <span className="query-input-title">SQL Query</span>
+        <InputModeToggle />
         {isElectron && (
           <div className="query-host-selector">
             <label htmlFor="host-input" className="query-format-label">
@@ -168,6 +199,45 @@ export function QueryInput() {
             </select>
           </div>
         )}
+        {FORMAT_METADATA[format].needsSchema && (
+          <div className="query-host-selector">
+            <label htmlFor="schema-input" className="query-format-label">
+              Schema:
+            </label>
+            <input
+              id="schema-input"
+              className="query-host-input query-schema-input"
+              type="text"
+              value={schema}
+              onChange={(e) => setSchema(e.target.value)}
+              placeholder="id UInt64, name String"
+              disabled={isLoading}
+              spellCheck={false}
+              title="Column names and types, comma-separated (the body does not carry them)"
+            />
+          </div>
+        )}
+        {format !== ClickHouseFormat.NativeProtocol && (
+          <div className="query-format-selector">
+            <label htmlFor="compression-select" className="query-format-label">
+              Compression:
+            </label>
+            <select
+              id="compression-select"
+              className="query-format-select"
+              value={compression}
+              onChange={handleCompressionChange}
+              disabled={isLoading}
+              title="Response compression to request over HTTP"
+            >
+              {Object.values(HttpCompression).map((c) => (
+                <option key={c} value={c} title={HTTP_COMPRESSION_METADATA[c].description}>
+                  {HTTP_COMPRESSION_METADATA[c].displayName}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
         <div className="query-input-actions">
           <input
             ref={fileInputRef}
@@ -192,6 +262,11 @@ export function QueryInput() {
           <button className="query-btn secondary" onClick={handleReset} disabled={isLoading}>
             Reset
           </button>
+          {isLoading && (
+            <button className="query-btn secondary" onClick={cancelDecode} title="Stop, keeping what has been decoded">
+              Cancel
+            </button>
+          )}
           <button className="query-btn primary" onClick={handleExecute} disabled={isLoading}>
             {isLoading ? 'Running...' : 'Execute (Ctrl+Enter)'}
           </button>
@@ -212,6 +287,12 @@ export function QueryInput() {
           <span className="query-error-text">{parseError.message}</span>
         </div>
       )}
+      {decodeProgress && (
+        <div className="query-timing">
+          Decoding {formatBytes(decodeProgress.bytesDecoded)} of {formatBytes(decodeProgress.totalBytes)}
+          {decodeProgress.blocks > 0 && ` · ${decodeProgress.blocks} blocks`} · {decodeProgress.rows} rows
+        </div>
+      )}
       {queryTiming !== null && !parseError && (
         <div className="query-timing">Query executed in {queryTiming.toFixed(0)}ms</div>
       )}
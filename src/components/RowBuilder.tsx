@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useStore } from '../store/store';
+import { InputModeToggle } from './InputModeToggle';
+import { RowBinaryFormat } from '../core/decoder/rowbinary-decoder';
+import { RowBinaryEncoder } from '../core/encoder/rowbinary-encoder';
+import { parseType } from '../core/parser/type-parser';
+import { ClickHouseType, typeToString } from '../core/types/clickhouse-types';
+import { ClickHouseFormat, FORMAT_METADATA } from '../core/types/formats';
+
+const ROW_BINARY_FORMATS: RowBinaryFormat[] = [
+  ClickHouseFormat.RowBinaryWithNamesAndTypes,
+  ClickHouseFormat.RowBinary,
+  ClickHouseFormat.RowBinaryWithNames,
+  ClickHouseFormat.RowBinaryWithDefaults,
+];
+
+interface BuilderColumn {
+  name: string;
+  type: string;
+}
+
+const EXAMPLE_COLUMNS: BuilderColumn[] = [
+  { name: 'id', type: 'UInt64' },
+  { name: 'name', type: 'Nullable(String)' },
+  { name: 'tags', type: 'Array(String)' },
+];
+const EXAMPLE_ROWS = [
+  ['1', 'alice', '["admin", "dev"]'],
+  ['2', 'NULL', '[]'],
+];
+
+/** Leaf kinds whose cells are plain text (no JSON quoting), after Nullable/LowCardinality. */
+const TEXT_KINDS = new Set([
+  'String', 'FixedString', 'UUID', 'IPv4', 'IPv6', 'Date', 'Date32', 'DateTime', 'DateTime64',
+  'Enum8', 'Enum16', 'Decimal32', 'Decimal64', 'Decimal128', 'Decimal256',
+]);
+
+/**
+ * A cell's text as the value handed to the encoder. Text-like types take the
+ * text as is; everything else is JSON (integers beyond 2^53 stay exact as
+ * bigints), falling back to the text when it is not valid JSON. NULL (or an
+ * empty cell in RowBinaryWithDefaults, meaning DEFAULT) is recognised first.
+ */
+function cellValue(text: string, type: ClickHouseType, withDefaults: boolean): unknown {
+  const trimmed = text.trim();
+  if (withDefaults && trimmed === '') return undefined;
+  let base = type;
+  let nullable = false;
+  while (base.kind === 'Nullable' || base.kind === 'LowCardinality') {
+    nullable ||= base.kind === 'Nullable';
+    base = base.inner;
+  }
+  if ((nullable || base.kind === 'Dynamic' || base.kind === 'Variant') && /^(NULL|null)$/.test(trimmed)) return null;
+  if (TEXT_KINDS.has(base.kind)) return text;
+  if (/^-?\d+$/.test(trimmed) && !Number.isSafeInteger(Number(trimmed))) return BigInt(trimmed);
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Form for building RowBinary data by hand: column names and types, rows of
+ * values. Every edit is encoded with RowBinaryEncoder and loaded into the Hex
+ * View and AST Tree, so the format can be explored without a server.
+ */
+export function RowBuilder() {
+  const loadEncoded = useStore((s) => s.loadEncoded);
+
+  const [format, setFormat] = useState<RowBinaryFormat>(ClickHouseFormat.RowBinaryWithNamesAndTypes);
+  const [columns, setColumns] = useState<BuilderColumn[]>(EXAMPLE_COLUMNS);
+  const [rows, setRows] = useState<string[][]>(EXAMPLE_ROWS);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      const types = columns.map((c, i) => {
+        try {
+          return parseType(c.type);
+        } catch (err) {
+          throw new Error(`Column ${i + 1} (${c.name || 'unnamed'}): ${(err as Error).message}`);
+        }
+      });
+      const withDefaults = format === ClickHouseFormat.RowBinaryWithDefaults;
+      const values = rows.map((row) => types.map((type, i) => cellValue(row[i] ?? '', type, withDefaults)));
+      const bytes = new RowBinaryEncoder(format).encode(
+        columns.map((c, i) => ({ name: c.name, type: types[i] })),
+        values,
+      );
+      const schema = columns.map((c, i) => ({ name: c.name, type: types[i], typeString: typeToString(types[i]) }));
+      loadEncoded(bytes, format, schema);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [format, columns, rows, loadEncoded]);
+
+  const updateColumn = useCallback((index: number, patch: Partial<BuilderColumn>) => {
+    setColumns((cols) => cols.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  }, []);
+
+  const addColumn = useCallback(() => {
+    setColumns((cols) => [...cols, { name: `c${cols.length + 1}`, type: 'String' }]);
+    setRows((rs) => rs.map((r) => [...r, '']));
+  }, []);
+
+  const removeColumn = useCallback((index: number) => {
+    setColumns((cols) => cols.filter((_, i) => i !== index));
+    setRows((rs) => rs.map((r) => r.filter((_, i) => i !== index)));
+  }, []);
+
+  const updateCell = useCallback((row: number, col: number, text: string) => {
+    setRows((rs) => rs.map((r, i) => (i === row ? r.map((c, j) => (j === col ? text : c)) : r)));
+  }, []);
+
+  const addRow = useCallback(() => {
+    setRows((rs) => [...rs, columns.map(() => '')]);
+  }, [columns]);
+
+  const removeRow = useCallback((index: number) => {
+    setRows((rs) => rs.filter((_, i) => i !== index));
+  }, []);
+
+  const handleReset = useCallback(() => {
+    setColumns(EXAMPLE_COLUMNS);
+    setRows(EXAMPLE_ROWS);
+  }, []);
+
+  return (
+    <div className="query-input">
+      <div className="query-input-header">
+        <InputModeToggle />
+        <div className="query-format-selector">
+          <label htmlFor="builder-format-select" className="query-format-label">
+            Format:
+          </label>
+          <select
+            id="builder-format-select"
+            className="query-format-select"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as RowBinaryFormat)}
+          >
+            {ROW_BINARY_FORMATS.map((fmt) => (
+              <option key={fmt} value={fmt}>
+                {FORMAT_METADATA[fmt].displayName}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="query-input-actions">
+          <button className="query-btn secondary" onClick={addColumn}>
+            Add Column
+          </button>
+          <button className="query-btn secondary" onClick={addRow}>
+            Add Row
+          </button>
+          <button className="query-btn secondary" onClick={handleReset}>
+            Reset
+          </button>
+        </div>
+      </div>
+      <div className="row-builder">
+        <table className="row-builder-table">
+          <thead>
+            <tr>
+              <th />
+              {columns.map((col, i) => (
+                <th key={i}>
+                  <div className="row-builder-column">
+                    <input
+                      className="row-builder-input"
+                      value={col.name}
+                      onChange={(e) => updateColumn(i, { name: e.target.value })}
+                      placeholder="name"
+                      spellCheck={false}
+                      aria-label={`Column ${i + 1} name`}
+                    />
+                    <button
+                      className="row-builder-remove"
+                      onClick={() => removeColumn(i)}
+                      title="Remove column"
+                      disabled={columns.length === 1}
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <input
+                    className="row-builder-input row-builder-type"
+                    value={col.type}
+                    onChange={(e) => updateColumn(i, { type: e.target.value })}
+                    placeholder="Type"
+                    spellCheck={false}
+                    aria-label={`Column ${i + 1} type`}
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, r) => (
+              <tr key={r}>
+                <td>
+                  <button className="row-builder-remove" onClick={() => removeRow(r)} title="Remove row">
+                    ×
+                  </button>
+                </td>
+                {columns.map((_, c) => (
+                  <td key={c}>
+                    <input
+                      className="row-builder-input"
+                      value={row[c] ?? ''}
+                      onChange={(e) => updateCell(r, c, e.target.value)}
+                      spellCheck={false}
+                      aria-label={`Row ${r + 1}, column ${c + 1}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="row-builder-hint">
+          Values are JSON (numbers, arrays, objects, strings in quotes); text types such as String, dates, UUID
+          and Decimal take plain text. NULL is a NULL; in RowBinaryWithDefaults an empty cell is DEFAULT.
+        </div>
+      </div>
+      {error && (
+        <div className="query-error">
+          <span className="query-error-icon">!</span>
+          <span className="query-error-text">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RowBuilder;
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { useStore } from '../../store/store';
+import { materializeBlock } from '../../core/decoder/stream-decoder';
+import { parseSearch, searchParsed, SearchResult } from '../../core/search';
+import { DEFAULT_NATIVE_PROTOCOL_VERSION } from '../../core/types/native-protocol';
+import '../../styles/search-panel.css';
+
+/** Matches listed at most; a search finding more says so */
+const MATCH_LIMIT = 1000;
+
+const SYNTAX_HELP =
+  'All terms must match one node. text: value, label, type or metadata contains it; /regex/flags; ' +
+  'field:text, field:/regex/ or field=exact, where field is value, label, type, meta or column. ' +
+  'Enter: search / next match, Shift+Enter: previous.';
+
+/**
+ * Search the decoded values, labels, types and metadata, and jump the AST
+ * Tree and Hex View to each match. Blocks streamed without their values are
+ * decoded for the search, one at a time, and dropped again.
+ */
+export function SearchPanel() {
+  const rawData = useStore((s) => s.rawData);
+  const parsedData = useStore((s) => s.parsedData);
+  const decodeContext = useStore((s) => s.decodeContext);
+  const revealMatch = useStore((s) => s.revealMatch);
+  const [expression, setExpression] = useState('');
+  const [searched, setSearched] = useState<string | null>(null);
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [current, setCurrent] = useState(-1);
+
+  // Matches point into the bytes they were found in; new bytes need a new search.
+  useEffect(() => {
+    setSearched(null);
+    setResult(null);
+    setCurrent(-1);
+  }, [rawData]);
+
+  const reveal = (index: number) => {
+    if (!result || result.matches.length === 0) return;
+    const wrapped = (index + result.matches.length) % result.matches.length;
+    setCurrent(wrapped);
+    revealMatch(result.matches[wrapped]);
+  };
+
+  const runSearch = () => {
+    if (!parsedData || !rawData) return;
+    try {
+      const terms = parseSearch(expression);
+      const version = decodeContext?.nativeProtocolVersion ?? DEFAULT_NATIVE_PROTOCOL_VERSION;
+      const found = searchParsed(parsedData, terms, {
+        limit: MATCH_LIMIT,
+        materialize: (block) => materializeBlock(rawData, block, version),
+      });
+      setResult(found);
+      setSearched(expression);
+      setError(null);
+      setCurrent(0);
+      if (found.matches.length > 0) revealMatch(found.matches[0]);
+    } catch (err) {
+      setResult(null);
+      setSearched(null);
+      setError((err as Error).message);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (result && searched === expression) reveal(current + (e.shiftKey ? -1 : 1));
+    else runSearch();
+  };
+
+  const matches = result?.matches ?? [];
+
+  return (
+    <div className="search-panel">
+      <div className="search-bar">
+        <input
+          className="search-input"
+          type="text"
+          value={expression}
+          placeholder='Search: 42, column=user_id value=42, type:Nullable value=NULL, /^"a/'
+          title={SYNTAX_HELP}
+          onChange={(e) => setExpression(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={!parsedData}
+        />
+        <button className="search-btn" onClick={runSearch} disabled={!parsedData || expression.trim() === ''}>
+          Find
+        </button>
+        <button className="search-btn" onClick={() => reveal(current - 1)} disabled={matches.length === 0} title="Previous match">
+          ↑
+        </button>
+        <button className="search-btn" onClick={() => reveal(current + 1)} disabled={matches.length === 0} title="Next match">
+          ↓
+        </button>
+        {result && (
+          <span className="search-count">
+            {matches.length === 0
+              ? 'No matches'
+              : `${current + 1} / ${matches.length}${result.truncated ? '+' : ''}`}
+          </span>
+        )}
+      </div>
+      {error && <div className="search-error">{error}</div>}
+      {matches.length > 0 && (
+        <div className="search-results">
+          {matches.map((match, i) => (
+            <div
+              key={match.nodeId}
+              className={`search-match ${i === current ? 'active' : ''}`}
+              ref={i === current ? (el) => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+              onClick={() => reveal(i)}
+            >
+              <span className="search-match-type">{match.type}</span>
+              {match.label && <span className="search-match-label">{match.label}:</span>}
+              <span className="search-match-value">{match.displayValue}</span>
+              <span className="search-match-bytes">
+                [{match.byteRange.start}:{match.byteRange.end}]
+              </span>
+            </div>
+          ))}
+          {result?.truncated && <div className="search-more">Showing the first {MATCH_LIMIT} matches</div>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SearchPanel;
@@ -0,0 +1,99 @@
+import { useMemo, useState } from 'react';
+import { useStore } from '../../store/store';
+import { exchangesOf, profileEventsOf, ProfileEventType } from '../../core/decoder';
+import '../../styles/server-events.css';
+
+/**
+ * The ProfileEvents counters of a native-protocol capture, one line per
+ * event name: increments summed over the packets, gauges at their latest
+ * reading. Narrowed to one query of the connection and filtered by name or
+ * type.
+ */
+export function ProfileEvents() {
+  const parsedData = useStore((s) => s.parsedData);
+  const [filter, setFilter] = useState('');
+  const [type, setType] = useState<ProfileEventType | 'all'>('all');
+  const [query, setQuery] = useState(-1);
+
+  const exchanges = useMemo(() => (parsedData ? exchangesOf(parsedData) : []), [parsedData]);
+  const events = useMemo(
+    () => (parsedData ? profileEventsOf(parsedData, query < 0 ? undefined : query) : []),
+    [parsedData, query],
+  );
+  if (!parsedData) return null;
+
+  const needle = filter.trim().toLowerCase();
+  const shown = events.filter(
+    (event) => (type === 'all' || event.type === type) && (needle === '' || event.name.toLowerCase().includes(needle)),
+  );
+
+  return (
+    <div className="server-events">
+      <div className="server-events-bar">
+        <input
+          className="search-input"
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="filter event names"
+          spellCheck={false}
+          aria-label="Filter profile events"
+        />
+        <select
+          className="server-events-select"
+          value={type}
+          onChange={(e) => setType(e.target.value as ProfileEventType | 'all')}
+          aria-label="Event type"
+        >
+          <option value="all">all types</option>
+          <option value="increment">increment</option>
+          <option value="gauge">gauge</option>
+        </select>
+        {exchanges.length > 1 && (
+          <select
+            className="server-events-select"
+            value={query}
+            onChange={(e) => setQuery(Number(e.target.value))}
+            aria-label="Query"
+          >
+            <option value={-1}>all queries</option>
+            {exchanges.map((exchange) => (
+              <option key={exchange.index} value={exchange.index}>
+                #{exchange.index} {exchange.query.slice(0, 40)}
+              </option>
+            ))}
+          </select>
+        )}
+        <span className="server-events-count">
+          {shown.length} of {events.length}
+        </span>
+      </div>
+      {events.length === 0 ? (
+        <div className="server-events-empty">The server sent no ProfileEvents</div>
+      ) : (
+        <table className="server-events-table">
+          <thead>
+            <tr>
+              <th>name</th>
+              <th>type</th>
+              <th className="server-events-number">value</th>
+              <th className="server-events-number">samples</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((event) => (
+              <tr key={event.name}>
+                <td>{event.name}</td>
+                <td className={`profile-${event.type}`}>{event.type}</td>
+                <td className="server-events-number">{event.value.toLocaleString('en-US')}</td>
+                <td className="server-events-number">{event.samples}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default ProfileEvents;
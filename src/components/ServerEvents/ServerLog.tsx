@@ -0,0 +1,115 @@
+import { useMemo, useState } from 'react';
+import { useStore } from '../../store/store';
+import { LOG_PRIORITIES, serverLogOf, ServerLogEntry } from '../../core/decoder';
+import { matchOf, walkParse } from '../../core/search';
+import '../../styles/server-events.css';
+
+/** Most verbose level shown by default: everything */
+const ALL_LEVELS = 9;
+
+/**
+ * The server's Log packets of a native-protocol capture as one table of
+ * messages (time, host, query_id, thread, priority, source, text), filtered
+ * by text and by the most verbose level to show. Clicking a message selects
+ * its text in the Hex View and AST Tree.
+ */
+export function ServerLog() {
+  const parsedData = useStore((s) => s.parsedData);
+  const activeNodeId = useStore((s) => s.activeNodeId);
+  const revealMatch = useStore((s) => s.revealMatch);
+  const setHoveredNode = useStore((s) => s.setHoveredNode);
+  const [filter, setFilter] = useState('');
+  const [level, setLevel] = useState(ALL_LEVELS);
+
+  const entries = useMemo(() => (parsedData ? serverLogOf(parsedData) : []), [parsedData]);
+  if (!parsedData) return null;
+
+  const needle = filter.trim().toLowerCase();
+  const shown = entries.filter(
+    (entry) =>
+      entry.priority <= level &&
+      (needle === '' ||
+        [entry.text, entry.source, entry.host, entry.queryId, entry.threadId].some((field) =>
+          field.toLowerCase().includes(needle),
+        )),
+  );
+
+  const reveal = (entry: ServerLogEntry) => {
+    walkParse(parsedData, (node, place) => {
+      if (node.id !== entry.nodeId) return true;
+      revealMatch(matchOf(node, place));
+      return false;
+    });
+  };
+
+  return (
+    <div className="server-events">
+      <div className="server-events-bar">
+        <input
+          className="search-input"
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="filter messages, sources, hosts, query ids"
+          spellCheck={false}
+          aria-label="Filter log messages"
+        />
+        <select
+          className="server-events-select"
+          value={level}
+          onChange={(e) => setLevel(Number(e.target.value))}
+          aria-label="Most verbose level"
+        >
+          {Object.entries(LOG_PRIORITIES).map(([priority, name]) => (
+            <option key={priority} value={priority}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <span className="server-events-count">
+          {shown.length} of {entries.length}
+        </span>
+      </div>
+      {entries.length === 0 ? (
+        <div className="server-events-empty">The server sent no log messages (send_logs_level)</div>
+      ) : (
+        <table className="server-events-table server-log">
+          <thead>
+            <tr>
+              <th>time</th>
+              <th>host</th>
+              <th>query_id</th>
+              <th>thread</th>
+              <th>priority</th>
+              <th>source</th>
+              <th>text</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((entry) => (
+              <tr
+                key={entry.nodeId}
+                className={`log-${entry.level.toLowerCase()} ${entry.nodeId === activeNodeId ? 'active' : ''}`}
+                onClick={() => reveal(entry)}
+                onMouseEnter={() => setHoveredNode(entry.nodeId)}
+                onMouseLeave={() => setHoveredNode(null)}
+              >
+                <td className="server-events-nowrap">{entry.time}</td>
+                <td className="server-events-nowrap">{entry.host}</td>
+                <td className="server-events-nowrap" title={entry.queryId}>
+                  {entry.queryId.slice(0, 8)}
+                </td>
+                <td>{entry.threadId}</td>
+                <td className="log-level">{entry.level}</td>
+                <td className="server-events-nowrap">{entry.source}</td>
+                <td className="server-events-text">{entry.text}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default ServerLog;
@@ -0,0 +1,130 @@
+import { useMemo } from 'react';
+import { FixedSizeList as List, ListChildComponentProps } from 'react-window';
+import { useStore } from '../../store/store';
+import { buildTimeline, formatMicros, QueryTiming, TimelineEvent } from '../../core/protocol-timeline';
+import '../../styles/sequence-diagram.css';
+
+const ROW_HEIGHT = 24;
+
+interface RowData {
+  events: TimelineEvent[];
+  activeNodeId: string | null;
+  onSelect: (event: TimelineEvent) => void;
+  onHover: (id: string | null) => void;
+}
+
+function SequenceRow({ index, style, data }: ListChildComponentProps<RowData>) {
+  const event = data.events[index];
+  const previous = index > 0 ? data.events[index - 1] : null;
+  const size = event.byteRange.end - event.byteRange.start;
+  return (
+    <div
+      className={`sequence-row ${event.nodeId === data.activeNodeId ? 'active' : ''}`}
+      style={style}
+      onClick={() => data.onSelect(event)}
+      onMouseEnter={() => data.onHover(event.nodeId)}
+      onMouseLeave={() => data.onHover(null)}
+      title={event.displayValue}
+    >
+      <span className="sequence-time">+{formatMicros(event.time)}</span>
+      <span className="sequence-lanes">
+        <span className={`sequence-arrow ${event.from === 'client' ? 'to-server' : 'to-client'}`}>
+          <span className="sequence-packet">
+            {event.packet} <span className="sequence-size">{size}B</span>
+          </span>
+        </span>
+      </span>
+      <span className="sequence-gap">{previous ? `Δ ${formatMicros(event.time - previous.time)}` : ''}</span>
+    </div>
+  );
+}
+
+function QuerySummary({ timing, index }: { timing: QueryTiming; index: number }) {
+  const gaps = timing.progressIntervals;
+  const mean = gaps.length > 0 ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length : 0;
+  return (
+    <div className="sequence-query">
+      <span className="sequence-query-name">Query {index + 1}</span>
+      <span>first Data {timing.firstData === null ? '—' : `after ${formatMicros(timing.firstData)}`}</span>
+      <span>
+        {gaps.length === 0
+          ? 'no Progress'
+          : `${gaps.length} Progress, every ${formatMicros(mean)} (max ${formatMicros(Math.max(...gaps))})`}
+      </span>
+      <span>{timing.duration === null ? 'unfinished' : `done after ${formatMicros(timing.duration)}`}</span>
+    </div>
+  );
+}
+
+/**
+ * The packets of a timed native-protocol capture as a sequence diagram:
+ * client and server packets in the order they were seen, with the time since
+ * the connection opened and since the previous packet, and per query the
+ * latency to the first Data, the Progress cadence and the total duration.
+ * Clicking a packet selects it in the Hex View and AST Tree.
+ */
+export function SequenceDiagram() {
+  const parsedData = useStore((s) => s.parsedData);
+  const decodeContext = useStore((s) => s.decodeContext);
+  const activeNodeId = useStore((s) => s.activeNodeId);
+  const revealMatch = useStore((s) => s.revealMatch);
+  const setHoveredNode = useStore((s) => s.setHoveredNode);
+
+  const timeline = useMemo(
+    () =>
+      parsedData && decodeContext?.protocolSegments
+        ? buildTimeline(parsedData, decodeContext.protocolSegments, decodeContext.protocolC2SLength ?? 0)
+        : null,
+    [parsedData, decodeContext]
+  );
+
+  if (!timeline) {
+    return (
+      <div className="sequence-diagram-empty">
+        No packet times: load a CHPROTO2 capture (recorded through the proxy) to see the timeline
+      </div>
+    );
+  }
+
+  const rowData: RowData = {
+    events: timeline.events,
+    activeNodeId,
+    onSelect: (event) => revealMatch({ ...event, label: event.packet }),
+    onHover: setHoveredNode,
+  };
+
+  return (
+    <div className="sequence-diagram">
+      <div className="sequence-summary">
+        <div>
+          {timeline.events.length} packets in {formatMicros(timeline.duration)}
+        </div>
+        {timeline.queries.map((timing, i) => (
+          <QuerySummary key={timing.query.nodeId} timing={timing} index={i} />
+        ))}
+      </div>
+      <div className="sequence-row sequence-header">
+        <span className="sequence-time">since open</span>
+        <span className="sequence-lanes">
+          <span>Client</span>
+          <span>Server</span>
+        </span>
+        <span className="sequence-gap">since previous</span>
+      </div>
+      <div className="sequence-list">
+        <List
+          height={window.innerHeight - 150} // Approximate, will be resized by parent
+          itemCount={timeline.events.length}
+          itemSize={ROW_HEIGHT}
+          width="100%"
+          itemData={rowData}
+          style={{ height: '100%' }}
+        >
+          {SequenceRow}
+        </List>
+      </div>
+    </div>
+  );
+}
+
+export default SequenceDiagram;
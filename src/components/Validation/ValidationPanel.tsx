@@ -0,0 +1,67 @@
+import { useMemo } from 'react';
+import { useStore } from '../../store/store';
+import { checkConformance } from '../../core/protocol-conformance';
+import { matchOf, walkParse } from '../../core/search';
+import { Diagnostic } from '../../core/types/ast';
+import '../../styles/validation-panel.css';
+
+/**
+ * The conformance rules run over the loaded native-protocol capture: a
+ * pass / fail line per rule and the violations each found. Clicking a finding
+ * selects its packet in the Hex View and AST Tree.
+ */
+export function ValidationPanel() {
+  const parsedData = useStore((s) => s.parsedData);
+  const activeNodeId = useStore((s) => s.activeNodeId);
+  const revealMatch = useStore((s) => s.revealMatch);
+  const setHoveredNode = useStore((s) => s.setHoveredNode);
+
+  const report = useMemo(() => (parsedData ? checkConformance(parsedData) : null), [parsedData]);
+  if (!parsedData || !report) return null;
+
+  const reveal = (finding: Diagnostic) => {
+    walkParse(parsedData, (node, place) => {
+      if (node.id !== finding.nodeId) return true;
+      revealMatch(matchOf(node, place));
+      return false;
+    });
+  };
+
+  return (
+    <div className="validation-panel">
+      <div className={`validation-summary ${report.errors > 0 ? 'failed' : 'passed'}`}>
+        {report.errors === 0 && report.warnings === 0
+          ? `Conforms to protocol v${report.negotiatedVersion}: ${report.rules.length} rules passed`
+          : `${report.errors} violation(s), ${report.warnings} warning(s) against protocol v${report.negotiatedVersion}`}
+      </div>
+      {report.rules.map((rule) => {
+        const findings = report.findings.filter((finding) => finding.code === rule.id);
+        return (
+          <div key={rule.id} className="validation-rule">
+            <div className="validation-rule-header" title={rule.description}>
+              <span className={`validation-badge ${findings.length > 0 ? findings[0].severity : 'pass'}`}>
+                {findings.length > 0 ? findings.length : '✓'}
+              </span>
+              <span className="validation-rule-id">{rule.id}</span>
+              <span className="validation-rule-description">{rule.description}</span>
+            </div>
+            {findings.map((finding, i) => (
+              <div
+                key={`${rule.id}-${i}`}
+                className={`validation-finding ${finding.severity} ${finding.nodeId === activeNodeId ? 'active' : ''}`}
+                onClick={() => reveal(finding)}
+                onMouseEnter={() => finding.nodeId && setHoveredNode(finding.nodeId)}
+                onMouseLeave={() => setHoveredNode(null)}
+              >
+                <span className="validation-severity">{finding.severity}</span>
+                {finding.message}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ValidationPanel;
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { findBytePattern, nodesContaining, parseBytePattern } from './byte-search';
+import { createDecoder } from './decoder';
+import { NativeEncoder } from './encoder/native-encoder';
+import { RowBinaryEncoder } from './encoder/rowbinary-encoder';
+import { ClickHouseFormat } from './types/formats';
+
+describe('parseBytePattern', () => {
+  it('encodes each kind little-endian', () => {
+    expect(parseBytePattern('hex', '0x0A ?? ff')).toEqual([0x0a, null, 0xff]);
+    expect(parseBytePattern('text', 'hé')).toEqual([0x68, 0xc3, 0xa9]);
+    expect(parseBytePattern('int16', '-2')).toEqual([0xfe, 0xff]);
+    expect(parseBytePattern('int32', '0x01020304')).toEqual([4, 3, 2, 1]);
+    expect(parseBytePattern('int8', '255')).toEqual([0xff]);
+    expect(parseBytePattern('float64', '1')).toEqual([0, 0, 0, 0, 0, 0, 0xf0, 0x3f]);
+    expect(parseBytePattern('leb128', '300')).toEqual([0xac, 0x02]);
+  });
+
+  it('rejects what does not parse or fit', () => {
+    expect(() => parseBytePattern('hex', 'a')).toThrow('not a sequence of hex bytes');
+    expect(() => parseBytePattern('hex', '?? ??')).toThrow('at least one fixed byte');
+    expect(() => parseBytePattern('int8', '256')).toThrow('does not fit in 1 byte(s)');
+    expect(() => parseBytePattern('int32', '1.5')).toThrow('not an integer');
+    expect(() => parseBytePattern('float32', 'abc')).toThrow('not a number');
+    expect(() => parseBytePattern('leb128', '-1')).toThrow('not a UInt64');
+    expect(() => parseBytePattern('text', '')).toThrow('empty pattern');
+  });
+});
+
+describe('findBytePattern', () => {
+  it('finds overlapping occurrences, with wildcards, up to a limit', () => {
+    const data = new Uint8Array([1, 1, 1, 2, 1, 3, 1]);
+    expect(findBytePattern(data, [1, 1])).toEqual([
+      { start: 0, end: 2 },
+      { start: 1, end: 3 },
+    ]);
+    expect(findBytePattern(data, [null, 1]).map((r) => r.start)).toEqual([0, 1, 3, 5]);
+    expect(findBytePattern(data, [1, null], 2).map((r) => r.start)).toEqual([0, 1]);
+    expect(findBytePattern(data, [3, 1, 4])).toEqual([]);
+  });
+});
+
+describe('nodesContaining', () => {
+  it('maps each match to the deepest node holding all of it', () => {
+    const data = new RowBinaryEncoder().encode(
+      [
+        { name: 'id', type: 'UInt32' },
+        { name: 'tags', type: 'Array(String)' },
+      ],
+      [[42, ['alpha', 'beta']]],
+    );
+    const parsed = createDecoder(data, ClickHouseFormat.RowBinaryWithNamesAndTypes).decode();
+    const ranges = [
+      ...findBytePattern(data, parseBytePattern('text', 'tags')),
+      ...findBytePattern(data, parseBytePattern('int32', '42')),
+      ...findBytePattern(data, parseBytePattern('text', 'eta')),
+    ];
+    const [name, id, beta] = nodesContaining(parsed, ranges);
+    expect(name).toMatchObject({ nodeId: 'rowbinary-header-col-1-name', column: 'tags' });
+    expect(id).toMatchObject({ column: 'id', type: 'UInt32', path: ['row-0'] });
+    expect(beta).toMatchObject({ column: 'tags', type: 'String', displayValue: '"beta"' });
+    expect(beta!.path).toHaveLength(2);
+
+    // The end of "alpha" and the length of "beta" are both in the array; the
+    // end of the id and the array length are only in the same row.
+    const [inArray] = nodesContaining(parsed, findBytePattern(data, parseBytePattern('hex', '61 04')));
+    expect(inArray).toMatchObject({ type: 'Array(String)', column: 'tags' });
+    expect(nodesContaining(parsed, findBytePattern(data, parseBytePattern('hex', '00 02')))).toEqual([null]);
+  });
+
+  it('looks inside the Native blocks a match falls in', () => {
+    const data = new NativeEncoder().encode([[{ name: 'n', type: 'UInt16', values: [7, 4660] }]]);
+    const parsed = createDecoder(data, ClickHouseFormat.Native).decode();
+    const [hit] = nodesContaining(parsed, findBytePattern(data, parseBytePattern('int16', '4660')));
+    expect(hit).toMatchObject({ column: 'n', label: '[1]', block: 0 });
+  });
+});
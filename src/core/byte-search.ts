@@ -0,0 +1,176 @@
+import { BinaryWriter } from './encoder/writer';
+import { matchOf, NodePlace, SearchMatch, walkParse, WalkOptions } from './search';
+import { AstNode, ByteRange, ParsedData } from './types/ast';
+
+/** How the text of a byte search is turned into bytes */
+export type BytePatternKind =
+  | 'hex'
+  | 'text'
+  | 'int8'
+  | 'int16'
+  | 'int32'
+  | 'int64'
+  | 'int128'
+  | 'float32'
+  | 'float64'
+  | 'leb128';
+
+export const BYTE_PATTERN_KINDS: { kind: BytePatternKind; label: string }[] = [
+  { kind: 'hex', label: 'Hex (?? = any byte)' },
+  { kind: 'text', label: 'Text (UTF-8)' },
+  { kind: 'int8', label: 'Int8 / UInt8' },
+  { kind: 'int16', label: 'Int16 / UInt16 LE' },
+  { kind: 'int32', label: 'Int32 / UInt32 LE' },
+  { kind: 'int64', label: 'Int64 / UInt64 LE' },
+  { kind: 'int128', label: 'Int128 / UInt128 LE' },
+  { kind: 'float32', label: 'Float32 LE' },
+  { kind: 'float64', label: 'Float64 LE' },
+  { kind: 'leb128', label: 'VarUInt (LEB128)' },
+];
+
+/** Bytes to look for; null stands for any byte */
+export type BytePattern = (number | null)[];
+
+const INT_WIDTHS: Partial<Record<BytePatternKind, number>> = { int8: 1, int16: 2, int32: 4, int64: 8, int128: 16 };
+
+function parseInteger(text: string): bigint {
+  const trimmed = text.trim();
+  if (!/^-?(0x[0-9a-f]+|\d+)$/i.test(trimmed)) {
+    throw new Error(`Byte search: "${text}" is not an integer`);
+  }
+  const negative = trimmed.startsWith('-');
+  const magnitude = BigInt(negative ? trimmed.slice(1) : trimmed);
+  return negative ? -magnitude : magnitude;
+}
+
+/** `value` little-endian in `width` bytes, accepting the signed and the unsigned range */
+function encodeInt(value: bigint, width: number): number[] {
+  const bits = BigInt(width * 8);
+  if (value < -(1n << (bits - 1n)) || value >= 1n << bits) {
+    throw new Error(`Byte search: ${value} does not fit in ${width} byte(s)`);
+  }
+  let rest = BigInt.asUintN(width * 8, value);
+  const bytes: number[] = [];
+  for (let i = 0; i < width; i++) {
+    bytes.push(Number(rest & 0xffn));
+    rest >>= 8n;
+  }
+  return bytes;
+}
+
+function encodeLeb128(value: bigint): number[] {
+  if (value < 0n || value >= 1n << 64n) throw new Error(`Byte search: ${value} is not a UInt64`);
+  return Array.from(new BinaryWriter(10).writeVarUInt(value).toBytes());
+}
+
+function encodeFloat(text: string, width: 4 | 8): number[] {
+  const trimmed = text.trim();
+  const value = Number(trimmed);
+  if (trimmed === '' || (Number.isNaN(value) && trimmed.toLowerCase() !== 'nan')) {
+    throw new Error(`Byte search: "${text}" is not a number`);
+  }
+  const writer = new BinaryWriter(width);
+  if (width === 4) writer.writeFloat32LE(value);
+  else writer.writeFloat64LE(value);
+  return Array.from(writer.toBytes());
+}
+
+function parseHexPattern(text: string): BytePattern {
+  const digits = text.replace(/0x/gi, '').replace(/[\s,]/g, '');
+  if (!/^([0-9a-fA-F]{2}|\?\?)*$/.test(digits)) {
+    throw new Error(`Byte search: "${text}" is not a sequence of hex bytes (?? for any byte)`);
+  }
+  const pattern: BytePattern = [];
+  for (let i = 0; i < digits.length; i += 2) {
+    const pair = digits.slice(i, i + 2);
+    pattern.push(pair === '??' ? null : parseInt(pair, 16));
+  }
+  return pattern;
+}
+
+/** The bytes `text` stands for as a `kind`; throws when it does not parse. */
+export function parseBytePattern(kind: BytePatternKind, text: string): BytePattern {
+  let pattern: BytePattern;
+  if (kind === 'hex') pattern = parseHexPattern(text);
+  else if (kind === 'text') pattern = Array.from(new TextEncoder().encode(text));
+  else if (kind === 'float32') pattern = encodeFloat(text, 4);
+  else if (kind === 'float64') pattern = encodeFloat(text, 8);
+  else if (kind === 'leb128') pattern = encodeLeb128(parseInteger(text));
+  else pattern = encodeInt(parseInteger(text), INT_WIDTHS[kind]!);
+
+  if (pattern.length === 0) throw new Error('Byte search: empty pattern');
+  if (pattern.every((b) => b === null)) throw new Error('Byte search: the pattern needs at least one fixed byte');
+  return pattern;
+}
+
+/**
+ * Where `pattern` occurs in `data`, in offset order; occurrences may
+ * overlap. Stops after `limit` matches.
+ */
+export function findBytePattern(data: Uint8Array, pattern: BytePattern, limit = Infinity): ByteRange[] {
+  const matches: ByteRange[] = [];
+  // Scan for the first fixed byte, then compare the rest.
+  const anchor = pattern.findIndex((b) => b !== null);
+  const anchorByte = pattern[anchor]!;
+  const last = data.length - pattern.length;
+  let at = data.indexOf(anchorByte, anchor);
+  while (at >= 0 && at - anchor <= last && matches.length < limit) {
+    const start = at - anchor;
+    if (pattern.every((b, i) => b === null || data[start + i] === b)) {
+      matches.push({ start, end: start + pattern.length });
+    }
+    at = data.indexOf(anchorByte, at + 1);
+  }
+  return matches;
+}
+
+/** First index in `ranges` (sorted by start) whose start is at or after `offset` */
+function firstFrom(ranges: ByteRange[], offset: number): number {
+  let lo = 0;
+  let hi = ranges.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (ranges[mid].start < offset) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * For each of `ranges` (sorted by start), the deepest node whose bytes
+ * contain all of it, or null when no node does (bytes the decoder skipped, or
+ * a match spanning two values). Only the parts of the tree that overlap a
+ * range are walked.
+ */
+export function nodesContaining(
+  parsed: ParsedData,
+  ranges: ByteRange[],
+  options: Pick<WalkOptions, 'materialize'> = {},
+): (SearchMatch | null)[] {
+  const found: ({ node: AstNode; place: NodePlace } | null)[] = ranges.map(() => null);
+  // furthestEnd[i]: the largest end among ranges[0..i]
+  const furthestEnd: number[] = [];
+  ranges.forEach((r, i) => furthestEnd.push(Math.max(r.end, i > 0 ? furthestEnd[i - 1] : 0)));
+  // Whether a range starting before `range.end` ends after its start
+  const overlaps = (range: ByteRange) => {
+    const i = firstFrom(ranges, range.end);
+    return i > 0 && furthestEnd[i - 1] > range.start;
+  };
+
+  walkParse(
+    parsed,
+    (node, place) => {
+      const { start, end } = node.byteRange;
+      for (let i = firstFrom(ranges, start); i < ranges.length && ranges[i].start < end; i++) {
+        // Children come after their parents, so the deepest node seen wins.
+        const best = found[i];
+        if (ranges[i].end <= end && (!best || place.path.length >= best.place.path.length)) {
+          found[i] = { node, place };
+        }
+      }
+      return true;
+    },
+    { materialize: options.materialize, enter: overlaps },
+  );
+  return found.map((f) => f && matchOf(f.node, f.place));
+}
@@ -1,14 +1,21 @@
-import { ClickHouseFormat } from '../types/formats';
+import { ClickHouseFormat, HttpCompression } from '../types/formats';
 import { DEFAULT_NATIVE_PROTOCOL_VERSION } from '../types/native-protocol';
-import { appendClickHouseRequestParams } from './request-params';
-import { parseChprotoDump } from '../decoder/protocol-dump';
+import { appendClickHouseRequestParams, httpAcceptEncoding, PROXY_ACCEPT_ENCODING_HEADER } from './request-params';
+import { CaptureSegment, parseChprotoDump } from '../decoder/protocol-dump';
 
 /**
  * Electron IPC API exposed via preload script
  */
 interface ElectronAPI {
-  executeQuery(options: { query: string; format: string; nativeProtocolVersion?: number }): Promise<ArrayBuffer>;
-  captureNativeProtocol(options: { query: string }): Promise<{ c2s: Uint8Array; s2c: Uint8Array; meta?: Record<string, unknown> }>;
+  executeQuery(options: {
+    query: string;
+    format: string;
+    nativeProtocolVersion?: number;
+    compression?: HttpCompression;
+  }): Promise<ArrayBuffer>;
+  captureNativeProtocol(options: {
+    query: string;
+  }): Promise<{ c2s: Uint8Array; s2c: Uint8Array; meta?: Record<string, unknown>; segments?: CaptureSegment[] }>;
   getConfig(): Promise<{ host: string }>;
   saveConfig(config: { host: string }): Promise<void>;
 }
@@ -27,6 +34,8 @@ export interface QueryOptions {
   query: string;
   format?: ClickHouseFormat;
   nativeProtocolVersion?: number;
+  /** Response compression to request; the returned data is the body as sent (still compressed). */
+  compression?: HttpCompression;
   timeout?: number;
 }
 
@@ -42,6 +51,8 @@ export interface ProtocolCaptureResult {
   c2sLength: number;
   timing: number;
   meta?: Record<string, unknown>;
+  /** The TCP segments as captured, with their times when the dump has them */
+  segments?: CaptureSegment[];
 }
 
 export class ClickHouseClient {
@@ -60,12 +71,13 @@ export class ClickHouseClient {
     query,
     format = ClickHouseFormat.RowBinaryWithNamesAndTypes,
     nativeProtocolVersion = DEFAULT_NATIVE_PROTOCOL_VERSION,
+    compression = HttpCompression.None,
     timeout = 30000,
   }: QueryOptions): Promise<QueryResult> {
     if (window.electronAPI) {
       const startTime = performance.now();
       const buffer = await Promise.race([
-        window.electronAPI.executeQuery({ query, format, nativeProtocolVersion }),
+        window.electronAPI.executeQuery({ query, format, nativeProtocolVersion, compression }),
         new Promise<never>((_, reject) =>
           setTimeout(() => reject(new Error(`Query timeout after ${timeout}ms`)), timeout)
         ),
@@ -80,14 +92,21 @@ export class ClickHouseClient {
 
     try {
       const params = new URLSearchParams();
-      appendClickHouseRequestParams(params, format, nativeProtocolVersion);
+      appendClickHouseRequestParams(params, format, nativeProtocolVersion, compression);
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'text/plain',
+      };
+      // The dev-server proxy turns this into Accept-Encoding (see request-params.ts).
+      const acceptEncoding = httpAcceptEncoding(compression);
+      if (acceptEncoding) {
+        headers[PROXY_ACCEPT_ENCODING_HEADER] = acceptEncoding;
+      }
 
       const response = await fetch(`${this.baseUrl}/?${params.toString()}`, {
         method: 'POST',
         body: query,
-        headers: {
-          'Content-Type': 'text/plain',
-        },
+        headers,
         signal: controller.signal,
       });
 
@@ -112,11 +131,11 @@ export class ClickHouseClient {
   }
 
   /**
-   * Capture a query over the native TCP protocol. Drives clickhouse-client
-   * through a capturing proxy and returns both per-direction streams
-   * concatenated for the protocol decoder.
+   * Capture a query over the native TCP protocol and return both
+   * per-direction streams concatenated for the protocol decoder.
    *
-   * - Desktop (Electron): the proxy runs in the main process via IPC.
+   * - Desktop (Electron): the main process runs the built-in native client
+   *   via IPC.
    * - Web: POSTs the SQL to the `/capture` endpoint (Vite dev/preview server),
    *   which runs the proxy server-side and returns a `.chproto` dump. The
    *   browser cannot open raw TCP itself, so this requires the dev/preview
@@ -126,8 +145,8 @@ export class ClickHouseClient {
     const startTime = performance.now();
 
     if (window.electronAPI?.captureNativeProtocol) {
-      const { c2s, s2c, meta } = await window.electronAPI.captureNativeProtocol({ query });
-      return assembleCapture(new Uint8Array(c2s), new Uint8Array(s2c), meta, startTime);
+      const { c2s, s2c, meta, segments } = await window.electronAPI.captureNativeProtocol({ query });
+      return { ...assembleCapture(new Uint8Array(c2s), new Uint8Array(s2c), meta, startTime), segments };
     }
 
     const response = await fetch(this.captureUrl, {
@@ -140,8 +159,8 @@ export class ClickHouseClient {
       throw new Error(`Capture failed (${response.status}): ${text}`);
     }
     const dump = new Uint8Array(await response.arrayBuffer());
-    const { c2s, s2c, meta } = parseChprotoDump(dump);
-    return assembleCapture(c2s, s2c, meta, startTime);
+    const { c2s, s2c, meta, segments } = parseChprotoDump(dump);
+    return { ...assembleCapture(c2s, s2c, meta, startTime), segments };
   }
 }
 
@@ -0,0 +1,266 @@
+/**
+ * The built-in native client against a scripted TCP server that replays the
+ * server side of recorded captures. With the identity clickhouse-client sent,
+ * the client must reproduce the recorded client stream byte for byte.
+ */
+import net from 'node:net';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { captureNativeQuery, NativeClient } from './native-client';
+import { encodeChprotoDump, parseChprotoDump } from '../decoder/protocol-dump';
+import { ProtocolDecoder, type ProtocolCapture } from '../decoder/protocol-decoder';
+import { BinaryWriter } from '../encoder/writer';
+import { AstNode } from '../types/ast';
+
+const FIXTURES = join(__dirname, '../decoder/fixtures/protocol');
+
+/** How clickhouse-client 25.12.1 identified itself when the fixtures were recorded. */
+const RECORDED_CLIENT = {
+  clientName: 'ClickHouse client',
+  clientVersion: { major: 25, minor: 12, patch: 1 },
+  clientHostname: 'AlexClickhouse.localdomain',
+  osUser: '',
+  protocolVersion: 54482,
+  user: 'default',
+};
+
+/** After `after` client bytes have arrived, the server sends `reply`, in `pieces` writes if set. */
+interface Stage {
+  after: number;
+  reply: Uint8Array;
+  pieces?: number;
+}
+
+const servers: net.Server[] = [];
+
+afterEach(() => {
+  for (const server of servers.splice(0)) server.close();
+});
+
+function fakeServer(stages: Stage[]): Promise<number> {
+  const server = net.createServer((socket) => {
+    let received = 0;
+    let next = 0;
+    socket.on('data', (chunk) => {
+      received += chunk.length;
+      while (next < stages.length && received >= stages[next].after) {
+        const { reply, pieces = 1 } = stages[next++];
+        // Spaced out past the client's settle time, so packets straddle its reads.
+        const size = Math.ceil(reply.length / pieces);
+        for (let i = 0; i < pieces; i++) {
+          setTimeout(() => socket.write(reply.subarray(i * size, (i + 1) * size)), i * 20);
+        }
+      }
+    });
+    socket.on('error', () => {});
+  });
+  servers.push(server);
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port));
+  });
+}
+
+function loadFixture(name: string): ProtocolCapture {
+  return parseChprotoDump(new Uint8Array(readFileSync(join(FIXTURES, name))));
+}
+
+function streams(capture: ProtocolCapture): { client: AstNode[]; server: AstNode[] } {
+  const [client, server] = ProtocolDecoder.fromCapture(capture).decode().trailingNodes!;
+  return { client: client.children!, server: server.children! };
+}
+
+/**
+ * Split the recorded server stream into replies: the ServerHello answers the
+ * ClientHello, and everything else is sent once the client stream has reached
+ * the end of packet `clientPacket` (in capture order).
+ */
+function replay(capture: ProtocolCapture, points: { clientPacket: number; serverPacket: number }[]): Stage[] {
+  const { client, server } = streams(capture);
+  const c2sLength = capture.c2s.length;
+  const serverEnd = (i: number) => (i < server.length ? server[i].byteRange.end - c2sLength : capture.s2c.length);
+  const stages: Stage[] = [];
+  let from = 0;
+  for (const { clientPacket, serverPacket } of points) {
+    const to = serverEnd(serverPacket);
+    stages.push({ after: client[clientPacket].byteRange.end, reply: capture.s2c.subarray(from, to) });
+    from = to;
+  }
+  return stages;
+}
+
+/** The SQL as sent on the wire (clickhouse-client strips inline INSERT data). */
+function queryBody(client: AstNode[]): string {
+  const query = client.find((p) => p.type === 'Protocol.Query')!;
+  return String(query.children!.find((c) => c.label === 'query_body')!.value);
+}
+
+function serverHello(version: number): Uint8Array {
+  // Fields up to v54460: name, major, minor, revision, timezone, display name, patch.
+  return new BinaryWriter()
+    .writeVarUInt(0)
+    .writeString('ClickHouse')
+    .writeVarUInt(23)
+    .writeVarUInt(8)
+    .writeVarUInt(version)
+    .writeString('UTC')
+    .writeString('fake')
+    .writeVarUInt(1)
+    .toBytes();
+}
+
+describe('NativeClient', () => {
+  it('reproduces a recorded SELECT exchange byte for byte', async () => {
+    const recorded = loadFixture('01-simple-select.chproto');
+    const { client, server } = streams(recorded);
+    const port = await fakeServer(
+      replay(recorded, [
+        { clientPacket: 0, serverPacket: 0 },
+        { clientPacket: 3, serverPacket: server.length },
+      ]),
+    );
+
+    const capture = await captureNativeQuery({ ...RECORDED_CLIENT, port, query: queryBody(client) });
+    expect(Buffer.from(capture.c2s).equals(Buffer.from(recorded.c2s))).toBe(true);
+    expect(Buffer.from(capture.s2c).equals(Buffer.from(recorded.s2c))).toBe(true);
+    expect(capture.segments.length).toBeGreaterThan(2);
+    // Timed like a proxy capture, so the dump is CHPROTO2 and has a timeline.
+    const times = capture.segments.map((segment) => segment.time);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    expect(new TextDecoder().decode(encodeChprotoDump(capture).subarray(0, 8))).toBe('CHPROTO2');
+    expect(capture.meta).toMatchObject({ client: 'builtin', protocolVersion: 54482, port });
+  });
+
+  it('reads a reply whose packets arrive split across writes', async () => {
+    const recorded = loadFixture('01-simple-select.chproto');
+    const { client, server } = streams(recorded);
+    const stages = replay(recorded, [
+      { clientPacket: 0, serverPacket: 0 },
+      { clientPacket: 3, serverPacket: server.length },
+    ]);
+    const port = await fakeServer(stages.map((stage) => ({ ...stage, pieces: 5 })));
+
+    const capture = await captureNativeQuery({ ...RECORDED_CLIENT, port, query: queryBody(client) });
+    expect(Buffer.from(capture.s2c).equals(Buffer.from(recorded.s2c))).toBe(true);
+    expect(capture.segments.filter((segment) => segment.dir === 1).length).toBeGreaterThan(5);
+  });
+
+  it('sends INSERT data after the sample block and ends it with an empty block', async () => {
+    const recorded = loadFixture('07-insert.chproto');
+    const { client } = streams(recorded);
+    const dataPacket = client[client.length - 2];
+    const block = dataPacket.children!.find((c) => c.label === 'block')!;
+    const insertBlock = recorded.c2s.subarray(block.byteRange.start, block.byteRange.end);
+
+    const serverPackets = streams(recorded).server;
+    const sample = serverPackets.findIndex((p) => p.type === 'Protocol.Data');
+    const port = await fakeServer(
+      replay(recorded, [
+        { clientPacket: 0, serverPacket: 0 },
+        { clientPacket: 3, serverPacket: sample },
+        { clientPacket: client.length - 1, serverPacket: serverPackets.length },
+      ]),
+    );
+
+    const capture = await captureNativeQuery({
+      ...RECORDED_CLIENT,
+      port,
+      insertBlocks: [insertBlock],
+      query: queryBody(client),
+    });
+    expect(Buffer.from(capture.c2s).equals(Buffer.from(recorded.c2s))).toBe(true);
+    expect(ProtocolDecoder.fromCapture(capture).decode().diagnostics).toBeUndefined();
+  });
+
+  it('pins the server to a forced client_protocol_version', async () => {
+    const endOfStream = Uint8Array.of(5);
+    const port = await fakeServer([
+      { after: 1, reply: serverHello(54483) },
+      { after: 40, reply: endOfStream },
+    ]);
+
+    const capture = await captureNativeQuery({ port, query: 'SELECT 1', protocolVersion: 54441 });
+    const parsed = ProtocolDecoder.fromCapture(capture).decode();
+    expect(parsed.metadata?.negotiatedVersion).toBe(54441);
+    const [client, server] = parsed.trailingNodes!;
+    // No Addendum below v54458, and no Query parameters below v54459.
+    expect(client.children!.map((p) => p.label)).toEqual(['ClientHello', 'Query', 'Data']);
+    expect(client.children![1].children!.map((c) => c.label)).not.toContain('parameters');
+    expect(server.children!.map((p) => p.label)).toEqual(['ServerHello', 'EndOfStream']);
+    expect(capture.meta.protocolVersion).toBe(54441);
+  });
+
+  it('keeps a handshake Exception in the capture instead of failing', async () => {
+    const exception = new BinaryWriter()
+      .writeVarUInt(2)
+      .writeInt32LE(516)
+      .writeString('DB::Exception')
+      .writeString('default: Authentication failed')
+      .writeString('')
+      .writeUInt8(0)
+      .toBytes();
+    const port = await fakeServer([{ after: 1, reply: exception }]);
+
+    const capture = await captureNativeQuery({ port, query: 'SELECT 1' });
+    const { client, server } = streams(capture);
+    expect(client.map((p) => p.label)).toEqual(['ClientHello']);
+    expect(server.map((p) => p.label)).toEqual(['Exception']);
+
+    await expect(NativeClient.connect({ port })).rejects.toThrow(/Authentication failed/);
+  });
+
+  it('answers Ping with Pong after a query and times out on silence', async () => {
+    const opts = { protocolVersion: 54441, clientHostname: 'h', osUser: 'u', timeoutMs: 200 };
+    // A Pong straight after ServerHello is indistinguishable from a trailing
+    // hello field, so ping once a query has ended. Measure that query first.
+    const probe = await fakeServer([
+      { after: 1, reply: serverHello(54441) },
+      { after: 40, reply: Uint8Array.of(5) },
+    ]);
+    const queryEnd = (await captureNativeQuery({ ...opts, port: probe, query: 'SELECT 1' })).c2s.length;
+
+    const port = await fakeServer([
+      { after: 1, reply: serverHello(54441) },
+      { after: queryEnd, reply: Uint8Array.of(5) },
+      { after: queryEnd + 1, reply: Uint8Array.of(4) },
+    ]);
+    const client = await NativeClient.connect({ ...opts, port });
+    try {
+      expect(client.negotiatedVersion).toBe(54441);
+      await client.query('SELECT 1');
+      const [pong] = await client.ping();
+      expect(pong.type).toBe('Protocol.Pong');
+      await expect(client.ping()).rejects.toThrow(/timed out after 200ms waiting for Pong/);
+    } finally {
+      client.close();
+    }
+  });
+
+  it('fails at once on a reply that does not decode, and names a cut-off one on timeout', async () => {
+    const opts = { protocolVersion: 54441, clientHostname: 'h', osUser: 'u', query: 'SELECT 1' };
+    const probe = await fakeServer([
+      { after: 1, reply: serverHello(54441) },
+      { after: 40, reply: Uint8Array.of(5) },
+    ]);
+    const queryEnd = (await captureNativeQuery({ ...opts, port: probe })).c2s.length;
+
+    const malformed = await fakeServer([
+      { after: 1, reply: serverHello(54441) },
+      { after: queryEnd, reply: Uint8Array.of(0x7f) },
+    ]);
+    const started = Date.now();
+    await expect(captureNativeQuery({ ...opts, port: malformed, timeoutMs: 5000 })).rejects.toThrow(
+      /server sent a packet that does not decode \(unsupported server packet type 127/,
+    );
+    expect(Date.now() - started).toBeLessThan(1000);
+
+    // An Exception cut off inside its message.
+    const cutOff = await fakeServer([
+      { after: 1, reply: serverHello(54441) },
+      { after: queryEnd, reply: Uint8Array.of(2, 0x04, 0x02, 0, 0, 13, ...new TextEncoder().encode('DB::')) },
+    ]);
+    await expect(captureNativeQuery({ ...opts, port: cutOff, timeoutMs: 200 })).rejects.toThrow(
+      /timed out after 200ms waiting for the query result \(10 byte\(s\) not read: Unexpected end of data/,
+    );
+  });
+});
@@ -0,0 +1,464 @@
+import net from 'node:net';
+import os from 'node:os';
+import { Buffer } from 'node:buffer';
+
+import { ProtocolDecoder } from '../decoder/protocol-decoder';
+import { encodeProtocolPacket } from '../encoder/protocol-encoder';
+import { toHex, type ScriptPacket } from '../encoder/protocol-script';
+import { AstNode } from '../types/ast';
+import { CURRENT_NATIVE_PROTOCOL_VERSION, NATIVE_PROTOCOL_FEATURES as F } from '../types/native-protocol';
+
+/**
+ * Minimal ClickHouse native-protocol client for Node callers (CLI, Electron
+ * main process). It speaks Hello/Addendum/Query/Data/Ping/Cancel over a plain
+ * TCP socket and records every byte in both directions, so a capture needs
+ * neither clickhouse-client nor the proxy harness, and the ClientHello can
+ * advertise any `client_protocol_version` to pin the server to an older wire
+ * layout.
+ *
+ * The client never parses server packets itself: after each burst of incoming
+ * bytes it has ProtocolDecoder read the whole packets among the bytes not read
+ * yet, and waits until the reply ends with the packet it is waiting for. A
+ * packet cut off at the end of a burst is read again only once its bytes have
+ * doubled or the server pauses, so a large packet is not re-decoded on every
+ * burst; a packet that does not decode fails the wait at once. Queries are
+ * sent uncompressed and the chunked framing of v54470+ is declined, so the
+ * capture is always plain packets. TLS is out of scope.
+ */
+
+const DIR_C2S = 0;
+const DIR_S2C = 1;
+
+/** Quiet period after a chunk arrives before the new bytes are read. */
+const SETTLE_MS = 5;
+/** Quiet period before a cut-off packet is read again with less than twice its bytes. */
+const STALL_MS = 50;
+
+/** Versions announced in the Addendum, as sent by clickhouse-client 25.12. */
+const PARALLEL_REPLICAS_PROTOCOL_VERSION = 5;
+const CLUSTER_FUNCTION_PROTOCOL_VERSION = 4;
+
+const INSERT_QUERY = /^\s*INSERT\b/i;
+
+/** A client packet of a ProtocolScript; the direction is implied. */
+type ClientScriptPacket = Omit<ScriptPacket, 'dir' | 'type'> & { type: string };
+
+export interface NativeClientOptions {
+  host?: string;
+  port?: number;
+  user?: string;
+  password?: string;
+  database?: string;
+  /** `protocol_version` sent in ClientHello; the server answers with min(this, its own). */
+  protocolVersion?: number;
+  clientName?: string;
+  clientVersion?: { major: number; minor: number; patch: number };
+  /** `client_hostname` / `os_user` reported in ClientInfo. */
+  clientHostname?: string;
+  osUser?: string;
+  /** How long to wait for each server reply before giving up (ms). */
+  timeoutMs?: number;
+}
+
+export interface NativeQueryOptions {
+  queryId?: string;
+  settings?: Record<string, string>;
+  /** Values for `{name:Type}` query parameters. */
+  parameters?: Record<string, string>;
+  /**
+   * Protocol Blocks (BlockInfo + columns, serialized for the negotiated
+   * version) sent as INSERT data once the server has sent the table's sample
+   * block. The empty block ending the data is always sent.
+   */
+  insertBlocks?: Uint8Array[];
+}
+
+export interface NativeCaptureSegment {
+  dir: 0 | 1;
+  data: Buffer;
+  /** Microseconds since the connection was opened, so the dump is timed (CHPROTO2) like a proxy capture */
+  time: number;
+}
+
+/** Same shape as the proxy harness' Capture, so encodeDump can serialize it. */
+export interface NativeCapture {
+  c2s: Buffer;
+  s2c: Buffer;
+  segments: NativeCaptureSegment[];
+  meta: Record<string, unknown>;
+}
+
+interface PendingReply {
+  what: string;
+  isDone: (packets: AstNode[]) => boolean;
+  resolve: (packets: AstNode[]) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class NativeClient {
+  private readonly socket: net.Socket;
+  private readonly opts: NativeClientOptions;
+  private readonly segments: NativeCaptureSegment[] = [];
+  private pending: PendingReply | null = null;
+  private settleTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Server bytes not read into packets yet: a packet still arriving, or a reply nobody waits for yet. */
+  private unread: Buffer[] = [];
+  private unreadLength = 0;
+  /** Unread bytes when they were last found cut off; 0 when nothing is cut off. */
+  private cutOffAt = 0;
+  /** Server packets read since the previous reply was handed back. */
+  private received: AstNode[] = [];
+  /** Why the unread bytes did not decode when last read, for the error if the wait fails. */
+  private readError: string | null = null;
+  private closed = false;
+  private failure: Error | null = null;
+  private queryCount = 0;
+  private negotiated = 0;
+  /** Segment timestamps: the same monotonic µs clock as the proxy harness' */
+  private readonly now = connectionClock();
+
+  private constructor(socket: net.Socket, opts: NativeClientOptions) {
+    this.socket = socket;
+    this.opts = opts;
+    socket.on('data', (chunk: Buffer) => {
+      const data = Buffer.from(chunk);
+      this.segments.push({ dir: DIR_S2C, data, time: this.now() });
+      this.unread.push(data);
+      this.unreadLength += data.length;
+      this.scheduleCheck();
+    });
+    socket.on('error', (err) => {
+      this.failure = err;
+      this.pending?.reject(err);
+    });
+    socket.on('close', () => {
+      this.closed = true;
+      this.checkPending();
+    });
+  }
+
+  /** Open the TCP connection without saying hello (see handshake()). */
+  static open(opts: NativeClientOptions = {}): Promise<NativeClient> {
+    const host = opts.host ?? '127.0.0.1';
+    const port = opts.port ?? 9000;
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host, port });
+      socket.setNoDelay(true);
+      socket.once('error', reject);
+      socket.once('connect', () => {
+        socket.off('error', reject);
+        resolve(new NativeClient(socket, opts));
+      });
+    });
+  }
+
+  /** Open a connection and complete the handshake; a server Exception rejects. */
+  static async connect(opts: NativeClientOptions = {}): Promise<NativeClient> {
+    const client = await NativeClient.open(opts);
+    try {
+      const reply = await client.handshake();
+      if (reply.type === 'Protocol.Exception') {
+        throw new Error(`server rejected the handshake: ${exceptionMessage(reply)}`);
+      }
+    } catch (err) {
+      client.close();
+      throw err;
+    }
+    return client;
+  }
+
+  /** The version both sides use after the handshake: min(client, server). */
+  get negotiatedVersion(): number {
+    return this.negotiated;
+  }
+
+  /**
+   * Send ClientHello (and the Addendum once the server's version is known).
+   * Resolves with the ServerHello packet, or the Exception the server sent
+   * instead (bad credentials, unknown database, ...).
+   */
+  async handshake(): Promise<AstNode> {
+    const clientVersion = this.opts.protocolVersion ?? CURRENT_NATIVE_PROTOCOL_VERSION;
+    const version = this.opts.clientVersion ?? { major: 0, minor: 0, patch: 1 };
+    this.sendPacket({
+      type: 'ClientHello',
+      client_name: this.opts.clientName ?? 'chfx',
+      version_major: version.major,
+      version_minor: version.minor,
+      protocol_version: clientVersion,
+      database: this.opts.database ?? '',
+      user: this.opts.user ?? 'default',
+      password: this.opts.password ?? '',
+    });
+
+    const [reply] = await this.waitFor('ServerHello', (packets) => packets.length > 0);
+    if (reply.type !== 'Protocol.ServerHello') return reply;
+
+    this.negotiated = Math.min(clientVersion, Number(childValue(reply, 'protocol_version')));
+    const chunkedOnly = ['proto_send_chunked_srv', 'proto_recv_chunked_srv'].some((f) => childValue(reply, f) === 'chunked');
+    if (this.negotiated >= F.CHUNKED_PROTOCOL && chunkedOnly) {
+      throw new Error('server requires chunked packet framing, which the built-in client does not speak');
+    }
+    if (this.negotiated >= F.ADDENDUM) {
+      this.sendPacket({
+        type: 'Addendum',
+        quota_key: '',
+        proto_send_chunked: 'notchunked',
+        proto_recv_chunked: 'notchunked',
+        parallel_replicas_protocol_version: PARALLEL_REPLICAS_PROTOCOL_VERSION,
+        cluster_function_protocol_version: CLUSTER_FUNCTION_PROTOCOL_VERSION,
+      });
+    }
+    return reply;
+  }
+
+  /**
+   * Run one query and resolve with the server packets answering it, ending
+   * with EndOfStream or Exception. The Query packet is followed by the empty
+   * block that ends the (absent) external tables; an INSERT without inline
+   * data additionally gets `insertBlocks` and the terminating empty block once
+   * the server has sent the table's sample block.
+   */
+  async query(sql: string, opts: NativeQueryOptions = {}): Promise<AstNode[]> {
+    this.queryCount += 1;
+    this.sendPacket(this.queryPacket(sql, opts));
+    this.sendPacket({ type: 'Data' });
+    if (!INSERT_QUERY.test(sql)) return this.waitFor('the query result', (packets) => endsQuery(packets));
+
+    // The server answers an INSERT with the table's sample block and waits for the data.
+    const head = await this.waitFor(
+      'the insert sample block',
+      (packets) => endsQuery(packets) || packets.some((p) => p.type === 'Protocol.Data'),
+    );
+    if (endsQuery(head)) return head;
+    for (const block of opts.insertBlocks ?? []) this.sendPacket({ type: 'Data', block: { hex: toHex(block) } });
+    this.sendPacket({ type: 'Data' });
+    const rest = await this.waitFor('the query result', (packets) => endsQuery(packets));
+    return [...head, ...rest];
+  }
+
+  /**
+   * Send Ping and resolve with the server's Pong. Ping between queries: a
+   * Pong right after ServerHello decodes as one of the undocumented trailing
+   * hello fields (see ProtocolDecoder.decodeServerHello).
+   */
+  async ping(): Promise<AstNode[]> {
+    this.sendPacket({ type: 'Ping' });
+    return this.waitFor('Pong', (packets) => packets[packets.length - 1]?.type === 'Protocol.Pong');
+  }
+
+  /** Ask the server to stop the running query; the pending query() still resolves. */
+  cancel(): void {
+    this.sendPacket({ type: 'Cancel' });
+  }
+
+  close(): void {
+    if (this.settleTimer) clearTimeout(this.settleTimer);
+    this.socket.destroy();
+  }
+
+  /** Both byte streams recorded so far, in the proxy harness' Capture shape. */
+  capture(meta: Record<string, unknown> = {}): NativeCapture {
+    return {
+      c2s: Buffer.concat(this.segments.filter((s) => s.dir === DIR_C2S).map((s) => s.data)),
+      s2c: Buffer.concat(this.segments.filter((s) => s.dir === DIR_S2C).map((s) => s.data)),
+      segments: [...this.segments],
+      meta,
+    };
+  }
+
+  // --- packet encoding (see encoder/protocol-encoder) ---------------------
+
+  private queryPacket(sql: string, opts: NativeQueryOptions): ClientScriptPacket {
+    if (this.negotiated < F.PARAMETERS && opts.parameters && Object.keys(opts.parameters).length > 0) {
+      throw new Error(`query parameters need protocol v${F.PARAMETERS}+; negotiated ${this.negotiated}`);
+    }
+    const version = this.opts.clientVersion ?? { major: 0, minor: 0, patch: 1 };
+    const quoted = Object.entries(opts.parameters ?? {}).map(([name, value]) => ({
+      name,
+      value: `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`,
+    }));
+    return {
+      type: 'Query',
+      query_id: opts.queryId ?? '',
+      client_info: {
+        // INITIAL_QUERY over TCP; initial_user is filled in by the server.
+        query_kind: 1,
+        initial_address: '0.0.0.0:0',
+        query_interface: 1,
+        os_user: this.opts.osUser ?? currentOsUser(),
+        client_hostname: this.opts.clientHostname ?? os.hostname(),
+        client_name: this.opts.clientName ?? 'chfx',
+        client_version_major: version.major,
+        client_version_minor: version.minor,
+        client_protocol_version: this.opts.protocolVersion ?? CURRENT_NATIVE_PROTOCOL_VERSION,
+        client_version_patch: version.patch,
+        script_query_number: this.queryCount,
+        script_line_number: 1,
+      },
+      settings: opts.settings ?? {},
+      stage: 2, // QueryProcessingStage::Complete
+      compression: 0,
+      query_body: sql,
+      parameters: quoted,
+    };
+  }
+
+  // --- transport ----------------------------------------------------------
+
+  private sendPacket(packet: ClientScriptPacket): void {
+    this.send(encodeProtocolPacket({ ...packet, dir: 'client' }, this.negotiated));
+  }
+
+  private send(bytes: Uint8Array): void {
+    if (this.closed || this.failure) {
+      throw this.failure ?? new Error('connection is closed');
+    }
+    this.segments.push({ dir: DIR_C2S, data: Buffer.from(bytes), time: this.now() });
+    this.socket.write(bytes);
+  }
+
+  /**
+   * Resolve with the server packets received after the previous reply once
+   * `isDone` accepts them. Rejects on timeout, socket error, or the server
+   * closing the connection first.
+   */
+  private waitFor(what: string, isDone: (packets: AstNode[]) => boolean): Promise<AstNode[]> {
+    if (this.pending) return Promise.reject(new Error(`already waiting for ${this.pending.what}`));
+    if (this.failure) return Promise.reject(this.failure);
+    const timeoutMs = this.opts.timeoutMs ?? 30_000;
+    return new Promise((resolve, reject) => {
+      const settle = (fn: () => void) => {
+        clearTimeout(this.pending?.timer);
+        this.pending = null;
+        fn();
+      };
+      this.pending = {
+        what,
+        isDone,
+        resolve: (packets) => settle(() => resolve(packets)),
+        reject: (err) => settle(() => reject(err)),
+        timer: setTimeout(() => {
+          const message = `timed out after ${timeoutMs}ms waiting for ${what}${this.readErrorDetail()}`;
+          this.pending?.reject(new Error(message));
+        }, timeoutMs),
+      };
+      this.checkPending();
+    });
+  }
+
+  private scheduleCheck(): void {
+    if (this.settleTimer) clearTimeout(this.settleTimer);
+    const delay = this.unreadLength >= 2 * this.cutOffAt ? SETTLE_MS : STALL_MS;
+    this.settleTimer = setTimeout(() => {
+      this.settleTimer = null;
+      this.checkPending();
+    }, delay);
+  }
+
+  private checkPending(): void {
+    const pending = this.pending;
+    if (!pending) return;
+    const malformed = this.readServerPackets();
+    if (malformed) {
+      this.failure = new Error(`server sent a packet that does not decode (${malformed})`);
+      this.socket.destroy();
+      pending.reject(this.failure);
+    } else if (this.received.length > 0 && pending.isDone(this.received)) {
+      const packets = this.received;
+      this.received = [];
+      pending.resolve(packets);
+    } else if (this.closed) {
+      const message = `server closed the connection while waiting for ${pending.what}${this.readErrorDetail()}`;
+      pending.reject(new Error(message));
+    }
+  }
+
+  /**
+   * Move the whole packets among the unread server bytes to `received`,
+   * keeping a packet that is cut off for later. Returns why the unread bytes
+   * do not decode if they are malformed rather than cut off.
+   */
+  private readServerPackets(): string | null {
+    // Nothing arrived since the unread bytes were found cut off.
+    if (this.unreadLength === 0 || this.unreadLength === this.cutOffAt) return null;
+    const bytes = Buffer.concat(this.unread);
+    const read =
+      this.negotiated > 0
+        ? ProtocolDecoder.readServerPackets(bytes, this.negotiated)
+        : ProtocolDecoder.readServerHello(this.capture().c2s, bytes);
+    this.received.push(...read.packets);
+    this.unread = read.length < bytes.length ? [bytes.subarray(read.length)] : [];
+    this.unreadLength = bytes.length - read.length;
+    this.readError = read.error ?? null;
+    this.cutOffAt = read.cutOff ? this.unreadLength : 0;
+    return read.error !== undefined && !read.cutOff ? read.error : null;
+  }
+
+  private readErrorDetail(): string {
+    return this.readError ? ` (${this.unreadLength} byte(s) not read: ${this.readError})` : '';
+  }
+}
+
+/** Whether a reply so far ends its query (EndOfStream or Exception). */
+function endsQuery(packets: AstNode[]): boolean {
+  const last = packets[packets.length - 1];
+  return last?.type === 'Protocol.EndOfStream' || last?.type === 'Protocol.Exception';
+}
+
+/** A monotonic clock reading microseconds since it was started (connectionClock in scripts/native-proxy.mjs). */
+function connectionClock(): () => number {
+  const start = process.hrtime.bigint();
+  return () => Number((process.hrtime.bigint() - start) / 1000n);
+}
+
+function currentOsUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return ''; // no passwd entry for the uid (e.g. some containers)
+  }
+}
+
+function childValue(packet: AstNode, label: string): unknown {
+  return packet.children?.find((c) => c.label === label)?.value;
+}
+
+/** The top-level message of a decoded Exception packet. */
+export function exceptionMessage(packet: AstNode): string {
+  const exception = packet.children?.find((c) => c.label === 'exception');
+  return String(exception ? childValue(exception, 'message') : packet.displayValue);
+}
+
+export interface NativeCaptureOptions extends NativeClientOptions, NativeQueryOptions {
+  query: string;
+}
+
+/**
+ * Capture one query end to end with the built-in client: handshake, query,
+ * and every packet the server sends back. A server Exception (at handshake
+ * or for the query) is part of the capture, not an error; only transport
+ * failures reject.
+ */
+export async function captureNativeQuery(opts: NativeCaptureOptions): Promise<NativeCapture> {
+  const client = await NativeClient.open(opts);
+  try {
+    const reply = await client.handshake();
+    if (reply.type === 'Protocol.ServerHello') {
+      await client.query(opts.query, opts);
+    }
+  } finally {
+    client.close();
+  }
+  return client.capture({
+    query: opts.query,
+    host: opts.host ?? '127.0.0.1',
+    port: opts.port ?? 9000,
+    user: opts.user,
+    database: opts.database,
+    settings: opts.settings ?? {},
+    client: 'builtin',
+    protocolVersion: opts.protocolVersion ?? CURRENT_NATIVE_PROTOCOL_VERSION,
+  });
+}
@@ -0,0 +1,38 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { rawFetch } from './raw-fetch';
+
+describe('rawFetch', () => {
+  const body = gzipSync('compressed on the wire');
+  let server: http.Server;
+  let url: string;
+  let received: { method?: string; headers: http.IncomingHttpHeaders; body: string } | null = null;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (c: Buffer) => chunks.push(c));
+      req.on('end', () => {
+        received = { method: req.method, headers: req.headers, body: Buffer.concat(chunks).toString() };
+        res.writeHead(200, { 'Content-Encoding': 'gzip' });
+        res.end(body);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/?q=1`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('returns a gzip body undecoded and forwards method, headers and body', async () => {
+    const res = await rawFetch(url, { method: 'POST', body: 'SELECT 1', headers: { 'Accept-Encoding': 'gzip' } });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-encoding')).toBe('gzip');
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(new Uint8Array(body));
+    expect(received).toMatchObject({ method: 'POST', body: 'SELECT 1' });
+    expect(received!.headers['accept-encoding']).toBe('gzip');
+  });
+});
@@ -0,0 +1,50 @@
+import http from 'node:http';
+import https from 'node:https';
+
+/**
+ * `fetch` for Node callers (CLI, Electron main process) that hands back the
+ * response body exactly as it came off the wire. Node's built-in fetch decodes
+ * gzip/deflate/br transparently, which would hide the compressed bytes that
+ * `enable_http_compression` responses are requested for. Only string bodies
+ * are supported — enough for POSTing SQL.
+ */
+export function rawFetch(input: string | URL | Request, init: RequestInit = {}): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : input);
+  if (init.body !== undefined && init.body !== null && typeof init.body !== 'string') {
+    return Promise.reject(new TypeError('rawFetch only supports string request bodies'));
+  }
+  const body = init.body ?? undefined;
+  const headers: Record<string, string> = {};
+  new Headers(init.headers).forEach((value, key) => {
+    headers[key] = value;
+  });
+  if (body !== undefined) headers['content-length'] = String(Buffer.byteLength(body));
+
+  const transport = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = transport.request(url, { method: init.method ?? 'GET', headers, signal: init.signal ?? undefined }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('error', reject);
+      res.on('end', () => {
+        const responseHeaders = new Headers();
+        for (const [key, value] of Object.entries(res.headers)) {
+          if (value === undefined) continue;
+          for (const v of Array.isArray(value) ? value : [value]) responseHeaders.append(key, v);
+        }
+        const status = res.statusCode ?? 0;
+        // Null-body statuses must not be given a body, even an empty one.
+        const payload = [204, 205, 304].includes(status) ? null : new Uint8Array(Buffer.concat(chunks));
+        resolve(
+          new Response(payload, {
+            status,
+            statusText: res.statusMessage,
+            headers: responseHeaders,
+          }),
+        );
+      });
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
-import { appendClickHouseRequestParams } from './request-params';
-import { ClickHouseFormat } from '../types/formats';
+import { appendClickHouseRequestParams, httpAcceptEncoding } from './request-params';
+import { ClickHouseFormat, HttpCompression } from '../types/formats';
 
 describe('appendClickHouseRequestParams', () => {
   it('always sets default_format', () => {
@@ -29,3 +29,36 @@ describe('appendClickHouseRequestParams', () => {
     expect(params.get('client_protocol_version')).toBe('54483');
   });
 });
+
+describe('HTTP compression params', () => {
+  it('requests ClickHouse compressed frames with compress=1', () => {
+    const params = new URLSearchParams();
+
+    appendClickHouseRequestParams(params, ClickHouseFormat.Native, 0, HttpCompression.Native);
+
+    expect(params.get('compress')).toBe('1');
+    expect(params.has('enable_http_compression')).toBe(false);
+    expect(httpAcceptEncoding(HttpCompression.Native)).toBeNull();
+  });
+
+  it.each([HttpCompression.Gzip, HttpCompression.Zstd, HttpCompression.Lz4])(
+    'enables HTTP compression and asks for %s',
+    (compression) => {
+      const params = new URLSearchParams();
+
+      appendClickHouseRequestParams(params, ClickHouseFormat.RowBinaryWithNamesAndTypes, 0, compression);
+
+      expect(params.get('enable_http_compression')).toBe('1');
+      expect(params.has('compress')).toBe(false);
+      expect(httpAcceptEncoding(compression)).toBe(compression);
+    },
+  );
+
+  it('adds nothing when compression is off', () => {
+    const params = new URLSearchParams();
+
+    appendClickHouseRequestParams(params, ClickHouseFormat.Native);
+
+    expect([...params.keys()]).toEqual(['default_format']);
+  });
+});
@@ -1,14 +1,43 @@
-import { ClickHouseFormat } from '../types/formats';
+import { ClickHouseFormat, HttpCompression } from '../types/formats';
 import { DEFAULT_NATIVE_PROTOCOL_VERSION } from '../types/native-protocol';
 
+/**
+ * Browsers refuse to set `Accept-Encoding` and transparently decode gzip/zstd
+ * responses, which would hide the wire bytes. The web client sends the wanted
+ * encoding in this header instead; the dev-server proxy forwards it as
+ * `Accept-Encoding` and renames the response `Content-Encoding` to
+ * PROXY_CONTENT_ENCODING_HEADER so the browser hands over the raw body.
+ */
+export const PROXY_ACCEPT_ENCODING_HEADER = 'x-explorer-accept-encoding';
+export const PROXY_CONTENT_ENCODING_HEADER = 'x-explorer-content-encoding';
+
 export function appendClickHouseRequestParams(
   params: URLSearchParams,
   format: string,
   nativeProtocolVersion: number = DEFAULT_NATIVE_PROTOCOL_VERSION,
+  compression: HttpCompression = HttpCompression.None,
 ): void {
   params.set('default_format', format);
 
   if (format === ClickHouseFormat.Native && nativeProtocolVersion !== DEFAULT_NATIVE_PROTOCOL_VERSION) {
     params.set('client_protocol_version', String(nativeProtocolVersion));
   }
+
+  if (compression === HttpCompression.Native) {
+    params.set('compress', '1');
+  } else if (compression !== HttpCompression.None) {
+    params.set('enable_http_compression', '1');
+  }
+}
+
+/** `Accept-Encoding` value for an HTTP-level compression, or null for none/native. */
+export function httpAcceptEncoding(compression: HttpCompression): string | null {
+  switch (compression) {
+    case HttpCompression.Gzip:
+    case HttpCompression.Zstd:
+    case HttpCompression.Lz4:
+      return compression;
+    default:
+      return null;
+  }
 }
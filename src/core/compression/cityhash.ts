@@ -0,0 +1,192 @@
+/**
+ * CityHash128 v1.0.2 — the historical variant ClickHouse uses for the checksum
+ * of compressed frames. Modern Google CityHash (v1.0.3+) changed the long-input
+ * path and produces different results, so it cannot be swapped in.
+ *
+ * Arithmetic is done on BigInt and masked to 64 bits after every operation
+ * that can overflow.
+ */
+
+const MASK64 = (1n << 64n) - 1n;
+const k0 = 0xc3a5c85c97cb3127n;
+const k1 = 0xb492b66fbe98f273n;
+const k2 = 0x9ae16a3b2f90404fn;
+const k3 = 0xc949d7c7509e6557n;
+const kMul = 0x9ddfea08eb382d69n;
+
+export interface CityHash128 {
+  low: bigint;
+  high: bigint;
+}
+
+function fetch64(view: DataView, p: number): bigint {
+  return view.getBigUint64(p, true);
+}
+
+function fetch32(view: DataView, p: number): bigint {
+  return BigInt(view.getUint32(p, true));
+}
+
+function mul(a: bigint, b: bigint): bigint {
+  return (a * b) & MASK64;
+}
+
+function add(...xs: bigint[]): bigint {
+  let r = 0n;
+  for (const x of xs) r += x;
+  return r & MASK64;
+}
+
+function rotate(val: bigint, shift: number): bigint {
+  if (shift === 0) return val;
+  const s = BigInt(shift);
+  return ((val >> s) | (val << (64n - s))) & MASK64;
+}
+
+function shiftMix(val: bigint): bigint {
+  return val ^ (val >> 47n);
+}
+
+function hashLen16(u: bigint, v: bigint): bigint {
+  let a = mul(u ^ v, kMul);
+  a ^= a >> 47n;
+  let b = mul(v ^ a, kMul);
+  b ^= b >> 47n;
+  return mul(b, kMul);
+}
+
+function hashLen0to16(view: DataView, s: number, len: number): bigint {
+  if (len > 8) {
+    const a = fetch64(view, s);
+    const b = fetch64(view, s + len - 8);
+    // RotateByAtLeast1: len is in 9..16 here, so the shift is never 0.
+    return hashLen16(a, rotate(add(b, BigInt(len)), len)) ^ b;
+  }
+  if (len >= 4) {
+    const a = fetch32(view, s);
+    return hashLen16(add(BigInt(len), (a << 3n) & MASK64), fetch32(view, s + len - 4));
+  }
+  if (len > 0) {
+    const a = BigInt(view.getUint8(s));
+    const b = BigInt(view.getUint8(s + (len >> 1)));
+    const c = BigInt(view.getUint8(s + len - 1));
+    const y = (a + (b << 8n)) & 0xffffffffn;
+    const z = (BigInt(len) + (c << 2n)) & 0xffffffffn;
+    return mul(shiftMix(mul(y, k2) ^ mul(z, k3)), k2);
+  }
+  return k2;
+}
+
+function weakHashLen32WithSeeds(view: DataView, s: number, a: bigint, b: bigint): [bigint, bigint] {
+  const w = fetch64(view, s);
+  const x = fetch64(view, s + 8);
+  const y = fetch64(view, s + 16);
+  const z = fetch64(view, s + 24);
+  a = add(a, w);
+  b = rotate(add(b, a, z), 21);
+  const c = a;
+  a = add(a, x, y);
+  b = add(b, rotate(a, 44));
+  return [add(a, z), add(b, c)];
+}
+
+function cityMurmur(view: DataView, s: number, len: number, seedLow: bigint, seedHigh: bigint): CityHash128 {
+  let a = seedLow;
+  let b = seedHigh;
+  let c: bigint;
+  let d: bigint;
+  let l = len - 16;
+  if (l <= 0) {
+    a = mul(shiftMix(mul(a, k1)), k1);
+    c = add(mul(b, k1), hashLen0to16(view, s, len));
+    d = shiftMix(add(a, len >= 8 ? fetch64(view, s) : c));
+  } else {
+    c = hashLen16(add(fetch64(view, s + len - 8), k1), a);
+    d = hashLen16(add(b, BigInt(len)), add(c, fetch64(view, s + len - 16)));
+    a = add(a, d);
+    do {
+      a ^= mul(shiftMix(mul(fetch64(view, s), k1)), k1);
+      a = mul(a, k1);
+      b ^= a;
+      c ^= mul(shiftMix(mul(fetch64(view, s + 8), k1)), k1);
+      c = mul(c, k1);
+      d ^= c;
+      s += 16;
+      l -= 16;
+    } while (l > 0);
+  }
+  a = hashLen16(a, c);
+  b = hashLen16(d, b);
+  return { low: a ^ b, high: hashLen16(b, a) };
+}
+
+function cityHash128WithSeed(view: DataView, s: number, len: number, seedLow: bigint, seedHigh: bigint): CityHash128 {
+  if (len < 128) {
+    return cityMurmur(view, s, len, seedLow, seedHigh);
+  }
+
+  let x = seedLow;
+  let y = seedHigh;
+  let z = mul(BigInt(len), k1);
+  const vFirst = add(mul(rotate(y ^ k1, 49), k1), fetch64(view, s));
+  let v: [bigint, bigint] = [vFirst, add(mul(rotate(vFirst, 42), k1), fetch64(view, s + 8))];
+  let w: [bigint, bigint] = [
+    add(mul(rotate(add(y, z), 35), k1), x),
+    mul(rotate(add(x, fetch64(view, s + 88)), 53), k1),
+  ];
+
+  // Same 64-byte round as the C++ source, which unrolls it twice per 128 bytes.
+  const round = () => {
+    x = mul(rotate(add(x, y, v[0], fetch64(view, s + 16)), 37), k1);
+    y = mul(rotate(add(y, v[1], fetch64(view, s + 48)), 42), k1);
+    x ^= w[1];
+    y ^= v[0];
+    z = rotate(z ^ w[0], 33);
+    v = weakHashLen32WithSeeds(view, s, mul(v[1], k1), add(x, w[0]));
+    w = weakHashLen32WithSeeds(view, s + 32, add(z, w[1]), y);
+    [z, x] = [x, z];
+    s += 64;
+  };
+  do {
+    round();
+    round();
+    len -= 128;
+  } while (len >= 128);
+
+  y = add(y, mul(rotate(w[0], 37), k0), z);
+  x = add(x, mul(rotate(add(v[0], z), 49), k0));
+  // Hash up to 4 remaining chunks of 32 bytes, taken from the end of the input.
+  for (let tailDone = 0; tailDone < len; ) {
+    tailDone += 32;
+    y = add(mul(rotate((y - x) & MASK64, 42), k0), v[1]);
+    w[0] = add(w[0], fetch64(view, s + len - tailDone + 16));
+    x = add(mul(rotate(x, 49), k0), w[0]);
+    w[0] = add(w[0], v[0]);
+    v = weakHashLen32WithSeeds(view, s + len - tailDone, v[0], v[1]);
+  }
+  x = hashLen16(x, v[0]);
+  y = hashLen16(y, w[0]);
+  return {
+    low: add(hashLen16(add(x, v[1]), w[1]), y),
+    high: hashLen16(add(x, w[1]), add(y, v[1])),
+  };
+}
+
+/** CityHash128 (v1.0.2) of `data`. */
+export function cityHash128(data: Uint8Array): CityHash128 {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const len = data.length;
+  if (len >= 16) {
+    return cityHash128WithSeed(view, 16, len - 16, fetch64(view, 0) ^ k3, fetch64(view, 8));
+  }
+  if (len >= 8) {
+    return cityHash128WithSeed(
+      view,
+      0,
+      0,
+      fetch64(view, 0) ^ mul(BigInt(len), k0),
+      fetch64(view, len - 8) ^ k1,
+    );
+  }
+  return cityHash128WithSeed(view, 0, len, k0, k1);
+}
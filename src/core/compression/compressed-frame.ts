@@ -0,0 +1,200 @@
+import { AstNode, ByteRange } from '../types/ast';
+import { cityHash128, CityHash128 } from './cityhash';
+import { lz4DecompressBlock } from './lz4';
+import { zstdDecompress } from './zstd';
+
+/**
+ * ClickHouse compressed frame (docs/full_native_spec.md §compression-frame):
+ *
+ *   checksum          16 bytes  CityHash128 v1.0.2 of header + body (low64 LE, high64 LE)
+ *   method             1 byte   0x02 NONE, 0x82 LZ4, 0x90 ZSTD
+ *   compressed_size    u32 LE   header + body, excluding the checksum
+ *   uncompressed_size  u32 LE
+ *   body               compressed_size - 9 bytes
+ *
+ * The same framing is used by the native TCP protocol (per-query `compression`)
+ * and by HTTP responses requested with `compress=1`.
+ */
+export const CompressionMethod = {
+  None: 0x02,
+  LZ4: 0x82,
+  ZSTD: 0x90,
+} as const;
+
+export const COMPRESSED_FRAME_CHECKSUM_SIZE = 16;
+export const COMPRESSED_FRAME_HEADER_SIZE = 9;
+/**
+ * Largest compressed or uncompressed size ClickHouse accepts in a frame
+ * (DBMS_MAX_COMPRESSED_SIZE, 1 GiB). The sizes come from the input, so a
+ * frame declaring more is rejected before any buffer is allocated for it.
+ */
+export const MAX_COMPRESSED_FRAME_SIZE = 0x40000000;
+
+const METHOD_NAMES: Record<number, string> = {
+  [CompressionMethod.None]: 'NONE',
+  [CompressionMethod.LZ4]: 'LZ4',
+  [CompressionMethod.ZSTD]: 'ZSTD',
+};
+
+export interface CompressedFrame {
+  /** The whole frame, checksum included, in the coordinates of the source buffer. */
+  byteRange: ByteRange;
+  /** The compressed body (after the 9-byte header). */
+  payloadRange: ByteRange;
+  method: number;
+  methodName: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  checksum: CityHash128;
+  computedChecksum: CityHash128;
+  checksumValid: boolean;
+  /** The decompressed body. */
+  data: Uint8Array;
+}
+
+export function compressionMethodName(method: number): string {
+  return METHOD_NAMES[method] ?? `0x${method.toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Parse and decompress one frame starting at `offset`. Throws when the frame
+ * is truncated (past `limit`), uses an unknown method, or does not decompress
+ * to the declared size. A checksum mismatch does not throw — it is reported
+ * via `checksumValid` so the frame can still be inspected.
+ */
+export function readCompressedFrame(bytes: Uint8Array, offset: number, limit: number = bytes.length): CompressedFrame {
+  const headerStart = offset + COMPRESSED_FRAME_CHECKSUM_SIZE;
+  const payloadStart = headerStart + COMPRESSED_FRAME_HEADER_SIZE;
+  if (payloadStart > limit) {
+    throw new Error(`truncated compressed frame header at offset ${offset}`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const checksum: CityHash128 = {
+    low: view.getBigUint64(offset, true),
+    high: view.getBigUint64(offset + 8, true),
+  };
+  const method = view.getUint8(headerStart);
+  const compressedSize = view.getUint32(headerStart + 1, true);
+  const uncompressedSize = view.getUint32(headerStart + 5, true);
+  if (!(method in METHOD_NAMES)) {
+    throw new Error(`unknown compression method 0x${method.toString(16)} at offset ${headerStart}`);
+  }
+  if (compressedSize < COMPRESSED_FRAME_HEADER_SIZE || compressedSize > MAX_COMPRESSED_FRAME_SIZE) {
+    throw new Error(`invalid compressed_size ${compressedSize} at offset ${headerStart + 1}`);
+  }
+  if (uncompressedSize > MAX_COMPRESSED_FRAME_SIZE) {
+    throw new Error(`uncompressed_size ${uncompressedSize} at offset ${headerStart + 5} exceeds the 1 GiB frame limit`);
+  }
+  const end = headerStart + compressedSize;
+  if (end > limit) {
+    throw new Error(`compressed frame at offset ${offset} overruns the stream (${compressedSize} bytes declared)`);
+  }
+
+  const computedChecksum = cityHash128(bytes.subarray(headerStart, end));
+  const body = bytes.subarray(payloadStart, end);
+
+  return {
+    byteRange: { start: offset, end },
+    payloadRange: { start: payloadStart, end },
+    method,
+    methodName: compressionMethodName(method),
+    compressedSize,
+    uncompressedSize,
+    checksum,
+    computedChecksum,
+    checksumValid: computedChecksum.low === checksum.low && computedChecksum.high === checksum.high,
+    data: decompressBody(method, body, uncompressedSize),
+  };
+}
+
+function decompressBody(method: number, body: Uint8Array, uncompressedSize: number): Uint8Array {
+  switch (method) {
+    case CompressionMethod.None:
+      if (body.length !== uncompressedSize) {
+        throw new Error(`NONE frame body is ${body.length} bytes, header says ${uncompressedSize}`);
+      }
+      return body;
+    case CompressionMethod.LZ4:
+      return lz4DecompressBlock(body, uncompressedSize);
+    case CompressionMethod.ZSTD:
+      return zstdDecompress(body, uncompressedSize);
+    default:
+      throw new Error(`unknown compression method 0x${method.toString(16)}`);
+  }
+}
+
+function checksumHex(c: CityHash128): string {
+  const bytes = new Uint8Array(16);
+  const view = new DataView(bytes.buffer);
+  view.setBigUint64(0, c.low, true);
+  view.setBigUint64(8, c.high, true);
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * AST for a frame's own bytes: checksum, the 9-byte header fields and the
+ * compressed payload. The decompressed content is decoded separately by the
+ * caller, which knows what the frame carries.
+ */
+export function compressedFrameToAst(frame: CompressedFrame, nextId: () => string): AstNode {
+  const { start } = frame.byteRange;
+  const headerStart = start + COMPRESSED_FRAME_CHECKSUM_SIZE;
+  const stored = checksumHex(frame.checksum);
+  const computed = checksumHex(frame.computedChecksum);
+
+  const children: AstNode[] = [
+    {
+      id: nextId(),
+      type: 'UInt128',
+      byteRange: { start, end: headerStart },
+      value: stored,
+      displayValue: frame.checksumValid ? `0x${stored} (ok)` : `0x${stored} (mismatch, computed 0x${computed})`,
+      label: 'checksum',
+      metadata: { algorithm: 'CityHash128 v1.0.2', computed, valid: frame.checksumValid },
+    },
+    {
+      id: nextId(),
+      type: 'UInt8',
+      byteRange: { start: headerStart, end: headerStart + 1 },
+      value: frame.method,
+      displayValue: `0x${frame.method.toString(16).padStart(2, '0')} (${frame.methodName})`,
+      label: 'method',
+    },
+    {
+      id: nextId(),
+      type: 'UInt32',
+      byteRange: { start: headerStart + 1, end: headerStart + 5 },
+      value: frame.compressedSize,
+      displayValue: String(frame.compressedSize),
+      label: 'compressed_size',
+    },
+    {
+      id: nextId(),
+      type: 'UInt32',
+      byteRange: { start: headerStart + 5, end: headerStart + 9 },
+      value: frame.uncompressedSize,
+      displayValue: String(frame.uncompressedSize),
+      label: 'uncompressed_size',
+    },
+    {
+      id: nextId(),
+      type: 'Compression.Payload',
+      byteRange: frame.payloadRange,
+      value: frame.payloadRange.end - frame.payloadRange.start,
+      displayValue: `${frame.payloadRange.end - frame.payloadRange.start} byte(s) ${frame.methodName}`,
+      label: 'compressed_data',
+    },
+  ];
+
+  const mismatch = frame.checksumValid ? '' : ' · checksum mismatch';
+  return {
+    id: nextId(),
+    type: 'Compression.Frame',
+    byteRange: frame.byteRange,
+    value: { method: frame.methodName, compressedSize: frame.compressedSize, uncompressedSize: frame.uncompressedSize },
+    displayValue: `${frame.methodName} · ${frame.compressedSize}B → ${frame.uncompressedSize}B${mismatch}`,
+    label: 'compressed_frame',
+    metadata: { checksumValid: frame.checksumValid },
+    children,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for the compressed-frame primitives. CityHash vectors come from
+ * the C++ CityHash v1.0.2 reference; the LZ4 and ZSTD bodies were produced by
+ * the lz4 CLI (block extracted from its frame) and zstd level 19.
+ */
+import { describe, expect, it } from 'vitest';
+import { cityHash128 } from './cityhash';
+import { lz4DecompressBlock } from './lz4';
+import { zstdDecompress } from './zstd';
+import {
+  CompressionMethod,
+  compressedFrameToAst,
+  readCompressedFrame,
+} from './compressed-frame';
+
+const TEXT = new TextEncoder().encode(
+  'SELECT number, toString(number) FROM system.numbers LIMIT 10;\n'.repeat(4)
+    + 'ClickHouse native block compression\n'.repeat(3),
+);
+
+const LZ4_BODY =
+  'f20953454c454354206e756d6265722c20746f537472696e67281100e2292046524f4d2073797374656d2e1400cf73204c494d49542031303b0a3e00a7ff14436c69636b486f757365206e617469766520626c6f636b20636f6d7072657373696f6e2400315073696f6e0a';
+
+const ZSTD_BODY =
+  '28b52ffd6064001503006205141960af0e1091322fc0604900bcf0ee7f5c02cd8e0422809762056c72ec5e4a498697204fd0d78af599dfae1891609c1a3388e2ce535ef21ee4d6befacac21c0f8068465a1bae17e842b29a779a4b5c130400aca3e8bb058126378782863906';
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], (b) => parseInt(b, 16));
+}
+
+function pattern(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+}
+
+/** Build a frame around `body` with a correct (or deliberately wrong) checksum. */
+function frame(method: number, body: Uint8Array, uncompressedSize: number, corrupt = false): Uint8Array {
+  const out = new Uint8Array(16 + 9 + body.length);
+  const view = new DataView(out.buffer);
+  view.setUint8(16, method);
+  view.setUint32(17, 9 + body.length, true);
+  view.setUint32(21, uncompressedSize, true);
+  out.set(body, 25);
+  const hash = cityHash128(out.subarray(16));
+  view.setBigUint64(0, hash.low ^ (corrupt ? 1n : 0n), true);
+  view.setBigUint64(8, hash.high, true);
+  return out;
+}
+
+describe('cityHash128 (v1.0.2)', () => {
+  const vectors: [number, string, string][] = [
+    [0, '3df09dfc64c09a2b', '3cb540c392e51e29'],
+    [9, '338434c54a2565e1', '1001bbb07bd33771'],
+    [17, 'aee34bf68bb2e0a2', 'e0d6910555f00b87'],
+    [64, 'e225cf33b373dc02', '8d252ce5152d6d96'],
+    [127, 'c244dc8a06ce8c41', 'f30e2cf6b33629a6'],
+    [144, '2ca82631884c46a7', '71edb8d50338bb1f'],
+    [200, '67b5c9a4f885f24b', 'b4a0f54a58082487'],
+    [1000, '597ff4957972ad7e', '7f39a4abd7c010e1'],
+  ];
+
+  it.each(vectors)('hashes %i bytes', (length, low, high) => {
+    const hash = cityHash128(pattern(length));
+    expect(hash.low.toString(16).padStart(16, '0')).toBe(low);
+    expect(hash.high.toString(16).padStart(16, '0')).toBe(high);
+  });
+});
+
+describe('lz4DecompressBlock', () => {
+  it('decompresses a block written by the reference encoder', () => {
+    expect(lz4DecompressBlock(fromHex(LZ4_BODY), TEXT.length)).toEqual(TEXT);
+  });
+
+  it('replicates overlapping matches', () => {
+    // literal "ab", then a 6-byte match at offset 2 → "abababab"
+    const block = Uint8Array.of(0x22, 0x61, 0x62, 0x02, 0x00, 0x00);
+    expect(new TextDecoder().decode(lz4DecompressBlock(block, 8))).toBe('abababab');
+  });
+
+  it('rejects a block that does not fill the declared size', () => {
+    expect(() => lz4DecompressBlock(Uint8Array.of(0x10, 0x61), 2)).toThrow(/expected 2/);
+  });
+});
+
+describe('zstdDecompress', () => {
+  it('decompresses a frame with Huffman literals and FSE sequences', () => {
+    expect(zstdDecompress(fromHex(ZSTD_BODY), TEXT.length)).toEqual(TEXT);
+  });
+
+  it('decodes raw and RLE blocks', () => {
+    // single-segment frame, 1-byte content size 5; raw block "ab" + last RLE block "x"×3
+    const bytes = Uint8Array.of(0x28, 0xb5, 0x2f, 0xfd, 0x20, 0x05, 0x10, 0x00, 0x00, 0x61, 0x62, 0x1b, 0x00, 0x00, 0x78);
+    expect(new TextDecoder().decode(zstdDecompress(bytes))).toBe('abxxx');
+  });
+
+  it('rejects data without the zstd magic', () => {
+    expect(() => zstdDecompress(Uint8Array.of(1, 2, 3, 4))).toThrow(/magic/);
+  });
+});
+
+describe('readCompressedFrame', () => {
+  it.each([
+    ['NONE', CompressionMethod.None, TEXT],
+    ['LZ4', CompressionMethod.LZ4, fromHex(LZ4_BODY)],
+    ['ZSTD', CompressionMethod.ZSTD, fromHex(ZSTD_BODY)],
+  ])('reads a %s frame', (name, method, body) => {
+    const bytes = frame(method, body, TEXT.length);
+    const parsed = readCompressedFrame(bytes, 0);
+    expect(parsed.methodName).toBe(name);
+    expect(parsed.checksumValid).toBe(true);
+    expect(parsed.byteRange).toEqual({ start: 0, end: bytes.length });
+    expect(parsed.payloadRange).toEqual({ start: 25, end: bytes.length });
+    expect(parsed.data).toEqual(TEXT);
+  });
+
+  it('reports a checksum mismatch without throwing', () => {
+    const parsed = readCompressedFrame(frame(CompressionMethod.None, TEXT, TEXT.length, true), 0);
+    expect(parsed.checksumValid).toBe(false);
+    expect(parsed.data).toEqual(TEXT);
+  });
+
+  it('rejects unknown methods and frames that overrun the stream', () => {
+    expect(() => readCompressedFrame(frame(0x42, TEXT, TEXT.length), 0)).toThrow(/unknown compression method/);
+    const bytes = frame(CompressionMethod.None, TEXT, TEXT.length);
+    expect(() => readCompressedFrame(bytes, 0, bytes.length - 1)).toThrow(/overruns/);
+  });
+
+  it('rejects a frame declaring more than 1 GiB before decompressing it', () => {
+    const bytes = frame(CompressionMethod.LZ4, fromHex(LZ4_BODY), 0xffffffff);
+    expect(() => readCompressedFrame(bytes, 0)).toThrow(/exceeds the 1 GiB frame limit/);
+  });
+
+  it('builds an AST whose leaves cover the whole frame', () => {
+    const bytes = frame(CompressionMethod.LZ4, fromHex(LZ4_BODY), TEXT.length);
+    let id = 0;
+    const node = compressedFrameToAst(readCompressedFrame(bytes, 0), () => `n${id++}`);
+    expect(node.type).toBe('Compression.Frame');
+    expect(node.children!.map((c) => c.label)).toEqual([
+      'checksum', 'method', 'compressed_size', 'uncompressed_size', 'compressed_data',
+    ]);
+    let covered = 0;
+    node.children!.forEach((c) => (covered += c.byteRange.end - c.byteRange.start));
+    expect(covered).toBe(bytes.length);
+  });
+});
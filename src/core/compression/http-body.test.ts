@@ -0,0 +1,177 @@
+/**
+ * Wire-layer parsing of compressed HTTP bodies. The zstd and LZ4 vectors were
+ * produced by the zstd (level 19) and lz4 CLIs; gzip bodies come from zlib.
+ */
+import { deflateRawSync, gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { AstNode } from '../types/ast';
+import { HttpCompression } from '../types/formats';
+import { cityHash128 } from './cityhash';
+import { inflateRaw } from './inflate';
+import { looksCompressed, readHttpWireLayer } from './http-body';
+
+const TEXT = new TextEncoder().encode(
+  'SELECT number, toString(number) FROM system.numbers LIMIT 10;\n'.repeat(2)
+    + 'ClickHouse HTTP compression\n'.repeat(2),
+);
+
+const ZSTD_FRAME =
+  '28b52ffd24b4dd0200e284121880cb03206a93693e3f00dc23827a75d4931a83b2aa6c71238956f9eff6993572d2cdd81faaac89d251c9200aeef69ae31fa6df8f9e1fa21c1c000c95f6c27a59b0be4c8872abe5160c0400fc306e0196c9cda1a0618e016c841f99';
+
+const LZ4_FRAME =
+  '04224d186c40b4000000000000002963000000f20953454c454354206e756d6265722c20746f537472696e67281100e2292046524f4d2073797374656d2e1400cf73204c494d49542031303b0a3e002bff0c436c69636b486f757365204854545020636f6d7072657373696f6e1c00055073696f6e0a0000000042edd372';
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], (b) => parseInt(b, 16));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
+
+/** A ClickHouse NONE frame around `body`, as sent for `compress=1`. */
+function nativeFrame(body: Uint8Array): Uint8Array {
+  const out = new Uint8Array(25 + body.length);
+  const view = new DataView(out.buffer);
+  view.setUint8(16, 0x02);
+  view.setUint32(17, 9 + body.length, true);
+  view.setUint32(21, body.length, true);
+  out.set(body, 25);
+  const hash = cityHash128(out.subarray(16));
+  view.setBigUint64(0, hash.low, true);
+  view.setBigUint64(8, hash.high, true);
+  return out;
+}
+
+function read(data: Uint8Array, compression: HttpCompression) {
+  let id = 0;
+  return readHttpWireLayer(data, compression, () => `w${id++}`);
+}
+
+function decompressedRange(node: AstNode): unknown {
+  return node.metadata?.decompressedRange;
+}
+
+describe('readHttpWireLayer', () => {
+  it('splits compress=1 bodies into ClickHouse frames', () => {
+    const data = concat(nativeFrame(TEXT.subarray(0, 100)), nativeFrame(TEXT.subarray(100)));
+    const layer = read(data, HttpCompression.Native);
+    expect(layer.body).toEqual(TEXT);
+    expect(layer.nodes.map((n) => n.type)).toEqual(['Compression.Frame', 'Compression.Frame']);
+    expect(layer.nodes.map(decompressedRange)).toEqual([
+      { start: 0, end: 100 },
+      { start: 100, end: TEXT.length },
+    ]);
+  });
+
+  it('parses gzip members, deflate blocks and a verified CRC', () => {
+    const data = gzipSync(TEXT);
+    const layer = read(data, HttpCompression.Gzip);
+    expect(layer.body).toEqual(TEXT);
+    const [member] = layer.nodes;
+    expect(member.type).toBe('Compression.GzipMember');
+    expect(member.byteRange).toEqual({ start: 0, end: data.length });
+    expect(member.children!.map((c) => c.label)).toEqual(['header', 'deflate', 'crc32', 'isize']);
+    expect(member.metadata?.crcValid).toBe(true);
+    expect(member.children![3].value).toBe(TEXT.length);
+  });
+
+  it('flags a gzip CRC mismatch without failing', () => {
+    const data = new Uint8Array(gzipSync(TEXT));
+    data[data.length - 8] ^= 0xff;
+    const [member] = read(data, HttpCompression.Gzip).nodes;
+    expect(member.metadata?.crcValid).toBe(false);
+    expect(member.children![2].displayValue).toMatch(/mismatch/);
+  });
+
+  it('decodes concatenated gzip members', () => {
+    const data = concat(gzipSync(TEXT.subarray(0, 50)), gzipSync(TEXT.subarray(50)));
+    const layer = read(data, HttpCompression.Gzip);
+    expect(layer.body).toEqual(TEXT);
+    expect(layer.nodes.map(decompressedRange)).toEqual([
+      { start: 0, end: 50 },
+      { start: 50, end: TEXT.length },
+    ]);
+  });
+
+  it('walks zstd frame headers, blocks and checksum', () => {
+    const data = fromHex(ZSTD_FRAME);
+    const layer = read(data, HttpCompression.Zstd);
+    expect(layer.body).toEqual(TEXT);
+    const [frame] = layer.nodes;
+    expect(frame.type).toBe('Compression.ZstdFrame');
+    expect(frame.children!.map((c) => c.label)).toEqual([
+      'magic', 'frame_header_descriptor', 'frame_content_size', 'block', 'content_checksum',
+    ]);
+    expect(frame.children![2].value).toBe(TEXT.length);
+  });
+
+  it('walks LZ4 frame descriptors and blocks', () => {
+    const data = fromHex(LZ4_FRAME);
+    const layer = read(data, HttpCompression.Lz4);
+    expect(layer.body).toEqual(TEXT);
+    const [frame] = layer.nodes;
+    expect(frame.children!.map((c) => c.label)).toEqual([
+      'magic', 'flg', 'bd', 'content_size', 'header_checksum', 'block', 'end_mark', 'content_checksum',
+    ]);
+    expect(frame.byteRange.end).toBe(data.length);
+  });
+
+  it('lets linked LZ4 blocks reference earlier blocks of the frame', () => {
+    // FLG: version 1, linked blocks; BD: 64KB. Block 1 = literals "abcd";
+    // block 2 = a 4-byte match at offset 4 (into block 1), then literal "x".
+    const data = Uint8Array.of(
+      0x04, 0x22, 0x4d, 0x18, 0x40, 0x40, 0x00,
+      0x05, 0x00, 0x00, 0x00, 0x40, 0x61, 0x62, 0x63, 0x64,
+      0x05, 0x00, 0x00, 0x00, 0x00, 0x04, 0x00, 0x10, 0x78,
+      0x00, 0x00, 0x00, 0x00,
+    );
+    const layer = read(data, HttpCompression.Lz4);
+    expect(new TextDecoder().decode(layer.body)).toBe('abcdabcdx');
+    const blocks = layer.nodes[0].children!.filter((c) => c.label === 'block');
+    expect(blocks.map(decompressedRange)).toEqual([
+      { start: 0, end: 4 },
+      { start: 4, end: 9 },
+    ]);
+  });
+
+  it('rejects truncated bodies', () => {
+    const data = gzipSync(TEXT);
+    expect(() => read(data.subarray(0, data.length - 4), HttpCompression.Gzip)).toThrow(/truncated/);
+  });
+});
+
+describe('looksCompressed', () => {
+  it('recognizes each container by its magic', () => {
+    expect(looksCompressed(gzipSync(TEXT), HttpCompression.Gzip)).toBe(true);
+    expect(looksCompressed(fromHex(ZSTD_FRAME), HttpCompression.Zstd)).toBe(true);
+    expect(looksCompressed(fromHex(LZ4_FRAME), HttpCompression.Lz4)).toBe(true);
+    expect(looksCompressed(TEXT, HttpCompression.Gzip)).toBe(false);
+    expect(looksCompressed(TEXT, HttpCompression.None)).toBe(false);
+  });
+});
+
+describe('inflateRaw', () => {
+  it('reports block boundaries for stored, fixed and dynamic blocks', () => {
+    // Stored block "hi" (not final), then a fixed-Huffman final block holding "a".
+    const data = Uint8Array.of(0x00, 0x02, 0x00, 0xfd, 0xff, 0x68, 0x69, 0x4b, 0x04, 0x00);
+    const result = inflateRaw(data);
+    expect(new TextDecoder().decode(result.data)).toBe('hia');
+    expect(result.blocks.map((b) => [b.type, b.final])).toEqual([
+      ['stored', false],
+      ['fixed', true],
+    ]);
+    expect(result.end).toBe(data.length);
+
+    const long = new TextEncoder().encode(Array.from({ length: 400 }, (_, i) => `row ${i * 7919}\n`).join(''));
+    const dynamic = inflateRaw(deflateRawSync(long));
+    expect(dynamic.data).toEqual(long);
+    expect(dynamic.blocks.map((b) => b.type)).toContain('dynamic');
+  });
+});
@@ -0,0 +1,539 @@
+import { AstNode, ByteRange } from '../types/ast';
+import { HttpCompression } from '../types/formats';
+import { compressedFrameToAst, readCompressedFrame } from './compressed-frame';
+import { crc32, inflateRaw } from './inflate';
+import { lz4DecompressBlockInto } from './lz4';
+import { zstdDecompress } from './zstd';
+
+/**
+ * Wire layer of a compressed HTTP response body: the container structure
+ * (ClickHouse frames, gzip members, zstd / LZ4 frames and their blocks) as AST
+ * nodes over the bytes received, plus the decompressed body the format decoder
+ * runs on. Nodes that produce output carry `metadata.decompressedRange` in body
+ * coordinates.
+ */
+export interface HttpWireLayer {
+  compression: HttpCompression;
+  nodes: AstNode[];
+  body: Uint8Array;
+}
+
+const GZIP_MAGIC = 0x8b1f;
+const ZSTD_MAGIC = 0xfd2fb528;
+const LZ4_MAGIC = 0x184d2204;
+const SKIPPABLE_MAGIC_MASK = 0xfffffff0;
+const ZSTD_SKIPPABLE_MAGIC = 0x184d2a50;
+
+const GZIP_FLAGS = { FTEXT: 0x01, FHCRC: 0x02, FEXTRA: 0x04, FNAME: 0x08, FCOMMENT: 0x10 } as const;
+const GZIP_OS_NAMES: Record<number, string> = { 0: 'FAT', 3: 'Unix', 7: 'Macintosh', 11: 'NTFS', 255: 'unknown' };
+const LZ4_BLOCK_MAX_SIZES: Record<number, number> = { 4: 1 << 16, 5: 1 << 18, 6: 1 << 20, 7: 1 << 22 };
+const ZSTD_BLOCK_TYPES = ['Raw', 'RLE', 'Compressed', 'Reserved'];
+
+/**
+ * Whether `data` starts like a response compressed with `compression`. A
+ * server can ignore the request (for example when `enable_http_compression`
+ * is disabled by a profile), so callers fall back to a plain body when not.
+ */
+export function looksCompressed(data: Uint8Array, compression: HttpCompression): boolean {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  switch (compression) {
+    case HttpCompression.Native:
+      return data.length >= 25;
+    case HttpCompression.Gzip:
+      return data.length >= 2 && view.getUint16(0, true) === GZIP_MAGIC;
+    case HttpCompression.Zstd:
+      return data.length >= 4 && view.getUint32(0, true) === ZSTD_MAGIC;
+    case HttpCompression.Lz4:
+      return data.length >= 4 && view.getUint32(0, true) === LZ4_MAGIC;
+    default:
+      return false;
+  }
+}
+
+/** Parse the container structure of a compressed response and decompress it. */
+export function readHttpWireLayer(data: Uint8Array, compression: HttpCompression, nextId: () => string): HttpWireLayer {
+  const out = new BodyBuilder();
+  const nodes: AstNode[] = [];
+  const ctx: WireContext = { data, view: new DataView(data.buffer, data.byteOffset, data.byteLength), nextId, out };
+
+  let pos = 0;
+  while (pos < data.length) {
+    let node: AstNode;
+    switch (compression) {
+      case HttpCompression.Native:
+        node = readNativeFrame(ctx, pos);
+        break;
+      case HttpCompression.Gzip:
+        node = readGzipMember(ctx, pos);
+        break;
+      case HttpCompression.Zstd:
+        node = readZstdFrame(ctx, pos);
+        break;
+      case HttpCompression.Lz4:
+        node = readLz4Frame(ctx, pos);
+        break;
+      default:
+        throw new Error(`not a compressed response: ${compression}`);
+    }
+    nodes.push(node);
+    pos = node.byteRange.end;
+  }
+
+  return { compression, nodes, body: out.toBytes() };
+}
+
+// --- shared helpers -----------------------------------------------------------
+
+interface WireContext {
+  data: Uint8Array;
+  view: DataView;
+  nextId: () => string;
+  out: BodyBuilder;
+}
+
+/** Accumulates the decompressed body; LZ4 blocks decode straight into it. */
+class BodyBuilder {
+  buf = new Uint8Array(1024);
+  length = 0;
+
+  ensure(extra: number): void {
+    if (this.length + extra <= this.buf.length) return;
+    let cap = this.buf.length * 2;
+    while (cap < this.length + extra) cap *= 2;
+    const next = new Uint8Array(cap);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+  }
+
+  append(bytes: Uint8Array): ByteRange {
+    this.ensure(bytes.length);
+    this.buf.set(bytes, this.length);
+    const range = { start: this.length, end: this.length + bytes.length };
+    this.length += bytes.length;
+    return range;
+  }
+
+  toBytes(): Uint8Array {
+    return this.buf.slice(0, this.length);
+  }
+}
+
+function need(ctx: WireContext, pos: number, size: number, what: string): void {
+  if (pos + size > ctx.data.length) {
+    throw new Error(`truncated ${what} at offset ${pos}`);
+  }
+}
+
+function hex(value: number, digits: number): string {
+  return `0x${value.toString(16).padStart(digits, '0')}`;
+}
+
+function uintNode(ctx: WireContext, pos: number, size: 1 | 2 | 4, label: string, displayValue?: string): AstNode {
+  need(ctx, pos, size, label);
+  const value =
+    size === 1 ? ctx.view.getUint8(pos) : size === 2 ? ctx.view.getUint16(pos, true) : ctx.view.getUint32(pos, true);
+  return {
+    id: ctx.nextId(),
+    type: `UInt${size * 8}`,
+    byteRange: { start: pos, end: pos + size },
+    value,
+    displayValue: displayValue ?? String(value),
+    label,
+  };
+}
+
+function uint64Node(ctx: WireContext, pos: number, label: string): AstNode {
+  need(ctx, pos, 8, label);
+  const value = ctx.view.getBigUint64(pos, true);
+  return {
+    id: ctx.nextId(),
+    type: 'UInt64',
+    byteRange: { start: pos, end: pos + 8 },
+    value,
+    displayValue: value.toString(),
+    label,
+  };
+}
+
+function magicNode(ctx: WireContext, pos: number, size: 2 | 4, expected: number, what: string): AstNode {
+  const node = uintNode(ctx, pos, size, 'magic');
+  if (node.value !== expected) {
+    throw new Error(`bad ${what} magic ${hex(node.value as number, size * 2)} at offset ${pos}`);
+  }
+  node.displayValue = `${hex(expected, size * 2)} (${what})`;
+  return node;
+}
+
+function payloadNode(ctx: WireContext, range: ByteRange, label: string, displayValue: string): AstNode {
+  return {
+    id: ctx.nextId(),
+    type: 'Compression.Payload',
+    byteRange: range,
+    value: range.end - range.start,
+    displayValue,
+    label,
+  };
+}
+
+function outputSummary(range: ByteRange): string {
+  return `${range.end - range.start}B`;
+}
+
+// --- compress=1: ClickHouse compressed frames ---------------------------------
+
+function readNativeFrame(ctx: WireContext, pos: number): AstNode {
+  const frame = readCompressedFrame(ctx.data, pos);
+  const node = compressedFrameToAst(frame, ctx.nextId);
+  node.metadata = { ...node.metadata, decompressedRange: ctx.out.append(frame.data) };
+  return node;
+}
+
+// --- gzip (RFC 1952) ------------------------------------------------------------
+
+function readZeroTerminated(ctx: WireContext, pos: number, label: string): AstNode {
+  let end = pos;
+  while (end < ctx.data.length && ctx.data[end] !== 0) end++;
+  need(ctx, end, 1, label);
+  const text = new TextDecoder().decode(ctx.data.subarray(pos, end));
+  return {
+    id: ctx.nextId(),
+    type: 'String',
+    byteRange: { start: pos, end: end + 1 },
+    value: text,
+    displayValue: JSON.stringify(text),
+    label,
+  };
+}
+
+function readGzipMember(ctx: WireContext, start: number): AstNode {
+  const header: AstNode[] = [magicNode(ctx, start, 2, GZIP_MAGIC, 'gzip')];
+  const method = uintNode(ctx, start + 2, 1, 'method');
+  if (method.value !== 8) throw new Error(`unsupported gzip method ${String(method.value)} at offset ${start + 2}`);
+  method.displayValue = '8 (deflate)';
+  const flags = uintNode(ctx, start + 3, 1, 'flags');
+  const flagBits = flags.value as number;
+  flags.displayValue =
+    (Object.entries(GZIP_FLAGS) as [string, number][])
+      .filter(([, bit]) => flagBits & bit)
+      .map(([name]) => name)
+      .join(' | ') || '0';
+  const os = uintNode(ctx, start + 9, 1, 'os');
+  os.displayValue = `${String(os.value)} (${GZIP_OS_NAMES[os.value as number] ?? 'other'})`;
+  header.push(method, flags, uintNode(ctx, start + 4, 4, 'mtime'), uintNode(ctx, start + 8, 1, 'extra_flags'), os);
+
+  let pos = start + 10;
+  if (flagBits & GZIP_FLAGS.FEXTRA) {
+    const xlen = uintNode(ctx, pos, 2, 'extra_length');
+    const len = xlen.value as number;
+    need(ctx, pos + 2, len, 'gzip extra field');
+    header.push(xlen, payloadNode(ctx, { start: pos + 2, end: pos + 2 + len }, 'extra', `${len} byte(s)`));
+    pos += 2 + len;
+  }
+  if (flagBits & GZIP_FLAGS.FNAME) {
+    const name = readZeroTerminated(ctx, pos, 'file_name');
+    header.push(name);
+    pos = name.byteRange.end;
+  }
+  if (flagBits & GZIP_FLAGS.FCOMMENT) {
+    const comment = readZeroTerminated(ctx, pos, 'comment');
+    header.push(comment);
+    pos = comment.byteRange.end;
+  }
+  if (flagBits & GZIP_FLAGS.FHCRC) {
+    header.push(uintNode(ctx, pos, 2, 'header_crc16'));
+    pos += 2;
+  }
+
+  const headerNode: AstNode = {
+    id: ctx.nextId(),
+    type: 'Compression.GzipHeader',
+    byteRange: { start, end: pos },
+    value: flagBits,
+    displayValue: `${pos - start}B`,
+    label: 'header',
+    children: header,
+  };
+
+  const deflateStart = pos;
+  const inflated = inflateRaw(ctx.data, deflateStart);
+  const bodyRange = ctx.out.append(inflated.data);
+  const blocks: AstNode[] = inflated.blocks.map((block) => {
+    const outputRange = {
+      start: bodyRange.start + block.outputRange.start,
+      end: bodyRange.start + block.outputRange.end,
+    };
+    return {
+      id: ctx.nextId(),
+      type: 'Compression.DeflateBlock',
+      // Deflate blocks are bit-aligned; show the bytes each one touches.
+      byteRange: { start: block.startBit >> 3, end: (block.endBit + 7) >> 3 },
+      value: block.type,
+      displayValue: `${block.type}${block.final ? ' (final)' : ''} → ${outputSummary(outputRange)}`,
+      label: 'block',
+      metadata: { startBit: block.startBit, endBit: block.endBit, decompressedRange: outputRange },
+    };
+  });
+  const deflateNode: AstNode = {
+    id: ctx.nextId(),
+    type: 'Compression.DeflateStream',
+    byteRange: { start: deflateStart, end: inflated.end },
+    value: inflated.blocks.length,
+    displayValue: `${inflated.end - deflateStart}B → ${outputSummary(bodyRange)} · ${blocks.length} block(s)`,
+    label: 'deflate',
+    metadata: { decompressedRange: bodyRange },
+    children: blocks,
+  };
+
+  pos = inflated.end;
+  const computedCrc = crc32(inflated.data);
+  const crcNode = uintNode(ctx, pos, 4, 'crc32');
+  const crcValid = crcNode.value === computedCrc;
+  crcNode.displayValue = crcValid
+    ? `${hex(computedCrc, 8)} (ok)`
+    : `${hex(crcNode.value as number, 8)} (mismatch, computed ${hex(computedCrc, 8)})`;
+  crcNode.metadata = { computed: computedCrc, valid: crcValid };
+  const isizeNode = uintNode(ctx, pos + 4, 4, 'isize');
+  pos += 8;
+
+  return {
+    id: ctx.nextId(),
+    type: 'Compression.GzipMember',
+    byteRange: { start, end: pos },
+    value: { compressedSize: pos - start, uncompressedSize: inflated.data.length },
+    displayValue: `gzip · ${pos - start}B → ${outputSummary(bodyRange)}${crcValid ? '' : ' · CRC mismatch'}`,
+    label: 'gzip_member',
+    metadata: { decompressedRange: bodyRange, crcValid },
+    children: [headerNode, deflateNode, crcNode, isizeNode],
+  };
+}
+
+// --- zstd (RFC 8878) ------------------------------------------------------------
+
+function readSkippableFrame(ctx: WireContext, start: number): AstNode {
+  const magic = uintNode(ctx, start, 4, 'magic');
+  magic.displayValue = `${hex(magic.value as number, 8)} (skippable)`;
+  const size = uintNode(ctx, start + 4, 4, 'frame_size');
+  const len = size.value as number;
+  need(ctx, start + 8, len, 'skippable frame');
+  return {
+    id: ctx.nextId(),
+    type: 'Compression.SkippableFrame',
+    byteRange: { start, end: start + 8 + len },
+    value: len,
+    displayValue: `skippable · ${len}B`,
+    label: 'skippable_frame',
+    children: [magic, size, payloadNode(ctx, { start: start + 8, end: start + 8 + len }, 'user_data', `${len} byte(s)`)],
+  };
+}
+
+function readZstdFrame(ctx: WireContext, start: number): AstNode {
+  need(ctx, start, 4, 'zstd frame magic');
+  if ((ctx.view.getUint32(start, true) & SKIPPABLE_MAGIC_MASK) >>> 0 === ZSTD_SKIPPABLE_MAGIC) {
+    return readSkippableFrame(ctx, start);
+  }
+  const children: AstNode[] = [magicNode(ctx, start, 4, ZSTD_MAGIC, 'zstd')];
+
+  const descriptorNode = uintNode(ctx, start + 4, 1, 'frame_header_descriptor');
+  const descriptor = descriptorNode.value as number;
+  const fcsFlag = descriptor >> 6;
+  const singleSegment = (descriptor >> 5) & 1;
+  const hasChecksum = (descriptor >> 2) & 1;
+  const dictIdSize = [0, 1, 2, 4][descriptor & 3];
+  descriptorNode.displayValue =
+    `${hex(descriptor, 2)} (fcs=${fcsFlag}, single_segment=${singleSegment}, checksum=${hasChecksum}, dict_id=${dictIdSize}B)`;
+  children.push(descriptorNode);
+
+  let pos = start + 5;
+  if (!singleSegment) {
+    const window = uintNode(ctx, pos, 1, 'window_descriptor');
+    const w = window.value as number;
+    const base = 2 ** (10 + (w >> 3));
+    window.displayValue = `${hex(w, 2)} (window ${base + (base / 8) * (w & 7)}B)`;
+    children.push(window);
+    pos += 1;
+  }
+  if (dictIdSize > 0) {
+    children.push(uintNode(ctx, pos, dictIdSize as 1 | 2 | 4, 'dictionary_id'));
+    pos += dictIdSize;
+  }
+  const fcsSize = fcsFlag === 0 ? singleSegment : [0, 2, 4, 8][fcsFlag];
+  if (fcsSize === 8) {
+    children.push(uint64Node(ctx, pos, 'frame_content_size'));
+  } else if (fcsSize > 0) {
+    const fcs = uintNode(ctx, pos, fcsSize as 1 | 2 | 4, 'frame_content_size');
+    // The 2-byte form is stored minus 256.
+    if (fcsSize === 2) {
+      fcs.value = (fcs.value as number) + 256;
+      fcs.displayValue = String(fcs.value);
+    }
+    children.push(fcs);
+  }
+  pos += fcsSize;
+
+  const blocks: AstNode[] = [];
+  let last = false;
+  while (!last) {
+    need(ctx, pos, 3, 'zstd block header');
+    const raw = ctx.data[pos] | (ctx.data[pos + 1] << 8) | (ctx.data[pos + 2] << 16);
+    last = (raw & 1) === 1;
+    const blockType = (raw >> 1) & 3;
+    const blockSize = raw >> 3;
+    const contentSize = blockType === 1 ? 1 : blockSize;
+    need(ctx, pos + 3, contentSize, 'zstd block');
+    const typeName = ZSTD_BLOCK_TYPES[blockType];
+    const headerNode: AstNode = {
+      id: ctx.nextId(),
+      type: 'Compression.BlockHeader',
+      byteRange: { start: pos, end: pos + 3 },
+      value: { last, type: typeName, size: blockSize },
+      displayValue: `${typeName}, ${blockSize}B${last ? ', last' : ''}`,
+      label: 'block_header',
+    };
+    const contentRange = { start: pos + 3, end: pos + 3 + contentSize };
+    blocks.push({
+      id: ctx.nextId(),
+      type: 'Compression.ZstdBlock',
+      byteRange: { start: pos, end: contentRange.end },
+      value: typeName,
+      displayValue: blockType === 1 ? `RLE × ${blockSize}` : `${typeName} · ${contentSize}B`,
+      label: 'block',
+      children: [headerNode, payloadNode(ctx, contentRange, 'content', `${contentSize} byte(s)`)],
+    });
+    pos = contentRange.end;
+  }
+  children.push(...blocks);
+
+  if (hasChecksum) {
+    const checksum = uintNode(ctx, pos, 4, 'content_checksum');
+    checksum.displayValue = `${hex(checksum.value as number, 8)} (XXH64 low 32 bits, not verified)`;
+    children.push(checksum);
+    pos += 4;
+  }
+
+  const bodyRange = ctx.out.append(zstdDecompress(ctx.data.subarray(start, pos)));
+  return {
+    id: ctx.nextId(),
+    type: 'Compression.ZstdFrame',
+    byteRange: { start, end: pos },
+    value: { compressedSize: pos - start, uncompressedSize: bodyRange.end - bodyRange.start },
+    displayValue: `zstd · ${pos - start}B → ${outputSummary(bodyRange)} · ${blocks.length} block(s)`,
+    label: 'zstd_frame',
+    metadata: { decompressedRange: bodyRange },
+    children,
+  };
+}
+
+// --- LZ4 frame format -----------------------------------------------------------
+
+function readLz4Frame(ctx: WireContext, start: number): AstNode {
+  need(ctx, start, 4, 'LZ4 frame magic');
+  if ((ctx.view.getUint32(start, true) & SKIPPABLE_MAGIC_MASK) >>> 0 === ZSTD_SKIPPABLE_MAGIC) {
+    return readSkippableFrame(ctx, start);
+  }
+  const children: AstNode[] = [magicNode(ctx, start, 4, LZ4_MAGIC, 'LZ4 frame')];
+
+  const flgNode = uintNode(ctx, start + 4, 1, 'flg');
+  const flg = flgNode.value as number;
+  if (flg >> 6 !== 1) throw new Error(`unsupported LZ4 frame version ${flg >> 6} at offset ${start + 4}`);
+  const independent = (flg >> 5) & 1;
+  const blockChecksum = (flg >> 4) & 1;
+  const hasContentSize = (flg >> 3) & 1;
+  const contentChecksum = (flg >> 2) & 1;
+  const hasDictId = flg & 1;
+  flgNode.displayValue =
+    `${hex(flg, 2)} (${independent ? 'independent' : 'linked'} blocks` +
+    `${blockChecksum ? ', block checksum' : ''}${hasContentSize ? ', content size' : ''}` +
+    `${contentChecksum ? ', content checksum' : ''}${hasDictId ? ', dict id' : ''})`;
+  const bdNode = uintNode(ctx, start + 5, 1, 'bd');
+  const blockMax = LZ4_BLOCK_MAX_SIZES[((bdNode.value as number) >> 4) & 7];
+  if (blockMax === undefined) throw new Error(`invalid LZ4 block max size at offset ${start + 5}`);
+  bdNode.displayValue = `${hex(bdNode.value as number, 2)} (block max ${blockMax / 1024}KB)`;
+  children.push(flgNode, bdNode);
+
+  let pos = start + 6;
+  if (hasContentSize) {
+    children.push(uint64Node(ctx, pos, 'content_size'));
+    pos += 8;
+  }
+  if (hasDictId) {
+    children.push(uintNode(ctx, pos, 4, 'dictionary_id'));
+    pos += 4;
+  }
+  const hc = uintNode(ctx, pos, 1, 'header_checksum');
+  hc.displayValue = `${hex(hc.value as number, 2)} (not verified)`;
+  children.push(hc);
+  pos += 1;
+
+  // Linked blocks may reference earlier blocks of the same frame, so they are
+  // decoded in place at the end of the body, after this frame's prior output.
+  const frameOutputStart = ctx.out.length;
+  let blockCount = 0;
+  while (true) {
+    const sizeNode = uintNode(ctx, pos, 4, 'block_size');
+    const raw = sizeNode.value as number;
+    if (raw === 0) {
+      sizeNode.label = 'end_mark';
+      sizeNode.displayValue = '0 (end mark)';
+      children.push(sizeNode);
+      pos += 4;
+      break;
+    }
+    const uncompressed = raw >>> 31 === 1;
+    const size = raw & 0x7fffffff;
+    sizeNode.displayValue = `${size}${uncompressed ? ' (uncompressed)' : ''}`;
+    const dataRange = { start: pos + 4, end: pos + 4 + size };
+    need(ctx, dataRange.start, size, 'LZ4 block');
+
+    const outputStart = ctx.out.length;
+    if (uncompressed) {
+      ctx.out.append(ctx.data.subarray(dataRange.start, dataRange.end));
+    } else {
+      ctx.out.ensure(blockMax);
+      const { buf } = ctx.out;
+      // Offsets cannot reach before this frame's first block.
+      const frameView = buf.subarray(frameOutputStart, ctx.out.length + blockMax);
+      const op = lz4DecompressBlockInto(ctx.data.subarray(dataRange.start, dataRange.end), frameView, ctx.out.length - frameOutputStart);
+      ctx.out.length = frameOutputStart + op;
+    }
+    const outputRange = { start: outputStart, end: ctx.out.length };
+
+    const blockChildren = [sizeNode, payloadNode(ctx, dataRange, 'data', `${size} byte(s)`)];
+    pos = dataRange.end;
+    if (blockChecksum) {
+      const checksum = uintNode(ctx, pos, 4, 'block_checksum');
+      checksum.displayValue = `${hex(checksum.value as number, 8)} (not verified)`;
+      blockChildren.push(checksum);
+      pos += 4;
+    }
+    children.push({
+      id: ctx.nextId(),
+      type: 'Compression.Lz4Block',
+      byteRange: { start: sizeNode.byteRange.start, end: pos },
+      value: size,
+      displayValue: `${uncompressed ? 'stored' : 'LZ4'} · ${size}B → ${outputSummary(outputRange)}`,
+      label: 'block',
+      metadata: { decompressedRange: outputRange },
+      children: blockChildren,
+    });
+    blockCount++;
+  }
+
+  if (contentChecksum) {
+    const checksum = uintNode(ctx, pos, 4, 'content_checksum');
+    checksum.displayValue = `${hex(checksum.value as number, 8)} (XXH32, not verified)`;
+    children.push(checksum);
+    pos += 4;
+  }
+
+  const bodyRange = { start: frameOutputStart, end: ctx.out.length };
+  return {
+    id: ctx.nextId(),
+    type: 'Compression.Lz4Frame',
+    byteRange: { start, end: pos },
+    value: { compressedSize: pos - start, uncompressedSize: bodyRange.end - bodyRange.start },
+    displayValue: `lz4 · ${pos - start}B → ${outputSummary(bodyRange)} · ${blockCount} block(s)`,
+    label: 'lz4_frame',
+    metadata: { decompressedRange: bodyRange },
+    children,
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * Raw DEFLATE decompressor (RFC 1951) — the payload of a gzip member, which is
+ * what ClickHouse sends for `Accept-Encoding: gzip`. Besides the output it
+ * reports where every block starts and ends (in bits) so the wire view can show
+ * the block structure over the compressed bytes.
+ */
+
+import { ByteRange } from '../types/ast';
+
+export type DeflateBlockType = 'stored' | 'fixed' | 'dynamic';
+
+export interface DeflateBlock {
+  type: DeflateBlockType;
+  final: boolean;
+  /** Bit offsets into the source, relative to byte 0 (blocks are not byte aligned). */
+  startBit: number;
+  endBit: number;
+  /** Bytes this block produced, in output coordinates. */
+  outputRange: ByteRange;
+}
+
+export interface InflateResult {
+  data: Uint8Array;
+  blocks: DeflateBlock[];
+  /** Byte offset just past the stream (the final block is padded to a byte). */
+  end: number;
+}
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+/** Order in which code-length code lengths are transmitted (dynamic blocks). */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const MAX_BITS = 15;
+
+/**
+ * Canonical Huffman decode table indexed by the next `maxBits` input bits
+ * (LSB first). Each entry packs `symbol << 4 | codeLength`.
+ */
+interface HuffmanTable {
+  maxBits: number;
+  entries: Uint32Array;
+}
+
+function buildTable(lengths: ArrayLike<number>): HuffmanTable {
+  const counts = new Array<number>(MAX_BITS + 1).fill(0);
+  let maxBits = 0;
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+    if (lengths[i] > maxBits) maxBits = lengths[i];
+  }
+  counts[0] = 0;
+  const nextCode = new Array<number>(MAX_BITS + 2).fill(0);
+  let code = 0;
+  for (let bits = 1; bits <= MAX_BITS; bits++) {
+    code = (code + counts[bits - 1]) << 1;
+    nextCode[bits] = code;
+  }
+
+  const entries = new Uint32Array(1 << Math.max(maxBits, 1));
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const len = lengths[symbol];
+    if (len === 0) continue;
+    // Codes are stored MSB first; the bit reader is LSB first, so reverse.
+    let c = nextCode[len]++;
+    let reversed = 0;
+    for (let i = 0; i < len; i++) {
+      reversed = (reversed << 1) | (c & 1);
+      c >>= 1;
+    }
+    for (let i = reversed; i < entries.length; i += 1 << len) {
+      entries[i] = (symbol << 4) | len;
+    }
+  }
+  return { maxBits, entries };
+}
+
+let fixedTables: { literal: HuffmanTable; distance: HuffmanTable } | null = null;
+
+function getFixedTables(): { literal: HuffmanTable; distance: HuffmanTable } {
+  if (!fixedTables) {
+    const lit = new Array<number>(288);
+    for (let i = 0; i < 288; i++) lit[i] = i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8;
+    fixedTables = { literal: buildTable(lit), distance: buildTable(new Array<number>(30).fill(5)) };
+  }
+  return fixedTables;
+}
+
+/** LSB-first bit reader over the deflate stream. */
+class BitReader {
+  bitPos: number;
+
+  constructor(private readonly src: Uint8Array, start: number) {
+    this.bitPos = start * 8;
+  }
+
+  peek(n: number): number {
+    let result = 0;
+    let got = 0;
+    let b = this.bitPos;
+    while (got < n) {
+      const byte = this.src[b >> 3] ?? 0;
+      const bitOff = b & 7;
+      const take = Math.min(8 - bitOff, n - got);
+      result |= ((byte >> bitOff) & ((1 << take) - 1)) << got;
+      got += take;
+      b += take;
+    }
+    return result >>> 0;
+  }
+
+  read(n: number): number {
+    if (n === 0) return 0;
+    if (this.bitPos + n > this.src.length * 8) throw new Error('inflate: unexpected end of input');
+    const v = this.peek(n);
+    this.bitPos += n;
+    return v;
+  }
+
+  decode(table: HuffmanTable): number {
+    const entry = table.entries[this.peek(table.maxBits)];
+    const len = entry & 15;
+    if (len === 0) throw new Error(`inflate: invalid Huffman code at bit ${this.bitPos}`);
+    if (this.bitPos + len > this.src.length * 8) throw new Error('inflate: unexpected end of input');
+    this.bitPos += len;
+    return entry >> 4;
+  }
+
+  alignToByte(): void {
+    this.bitPos = (this.bitPos + 7) & ~7;
+  }
+}
+
+/** Growable output buffer; back-references may reach anything already written. */
+class Output {
+  buf: Uint8Array;
+  length = 0;
+
+  constructor(capacity: number) {
+    this.buf = new Uint8Array(Math.max(capacity, 64));
+  }
+
+  ensure(extra: number): void {
+    if (this.length + extra <= this.buf.length) return;
+    let cap = this.buf.length * 2;
+    while (cap < this.length + extra) cap *= 2;
+    const next = new Uint8Array(cap);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+  }
+
+  push(byte: number): void {
+    this.ensure(1);
+    this.buf[this.length++] = byte;
+  }
+
+  copyMatch(distance: number, length: number): void {
+    if (distance > this.length) {
+      throw new Error(`inflate: distance ${distance} beyond ${this.length} decoded bytes`);
+    }
+    this.ensure(length);
+    let from = this.length - distance;
+    for (let i = 0; i < length; i++) this.buf[this.length++] = this.buf[from++];
+  }
+}
+
+/** Decompress one raw DEFLATE stream starting at byte `offset` of `src`. */
+export function inflateRaw(src: Uint8Array, offset = 0): InflateResult {
+  const bits = new BitReader(src, offset);
+  const out = new Output(src.length * 4);
+  const blocks: DeflateBlock[] = [];
+
+  let final = false;
+  while (!final) {
+    const startBit = bits.bitPos;
+    const outputStart = out.length;
+    final = bits.read(1) === 1;
+    const btype = bits.read(2);
+
+    let type: DeflateBlockType;
+    switch (btype) {
+      case 0:
+        type = 'stored';
+        inflateStored(src, bits, out);
+        break;
+      case 1: {
+        type = 'fixed';
+        const { literal, distance } = getFixedTables();
+        inflateCompressed(bits, out, literal, distance);
+        break;
+      }
+      case 2: {
+        type = 'dynamic';
+        const { literal, distance } = readDynamicTables(bits);
+        inflateCompressed(bits, out, literal, distance);
+        break;
+      }
+      default:
+        throw new Error(`inflate: reserved block type at bit ${startBit}`);
+    }
+    blocks.push({ type, final, startBit, endBit: bits.bitPos, outputRange: { start: outputStart, end: out.length } });
+  }
+
+  bits.alignToByte();
+  return { data: out.buf.slice(0, out.length), blocks, end: bits.bitPos >> 3 };
+}
+
+function inflateStored(src: Uint8Array, bits: BitReader, out: Output): void {
+  bits.alignToByte();
+  const pos = bits.bitPos >> 3;
+  if (pos + 4 > src.length) throw new Error('inflate: truncated stored block header');
+  const len = src[pos] | (src[pos + 1] << 8);
+  const nlen = src[pos + 2] | (src[pos + 3] << 8);
+  if ((len ^ 0xffff) !== nlen) throw new Error(`inflate: stored block length check failed at ${pos}`);
+  if (pos + 4 + len > src.length) throw new Error('inflate: truncated stored block');
+  out.ensure(len);
+  out.buf.set(src.subarray(pos + 4, pos + 4 + len), out.length);
+  out.length += len;
+  bits.bitPos = (pos + 4 + len) * 8;
+}
+
+function readDynamicTables(bits: BitReader): { literal: HuffmanTable; distance: HuffmanTable } {
+  const hlit = bits.read(5) + 257;
+  const hdist = bits.read(5) + 1;
+  const hclen = bits.read(4) + 4;
+
+  const codeLengthLengths = new Array<number>(19).fill(0);
+  for (let i = 0; i < hclen; i++) codeLengthLengths[CODE_LENGTH_ORDER[i]] = bits.read(3);
+  const codeLengthTable = buildTable(codeLengthLengths);
+
+  const lengths = new Array<number>(hlit + hdist).fill(0);
+  for (let i = 0; i < lengths.length; ) {
+    const symbol = bits.decode(codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new Error('inflate: repeat with no previous code length');
+      value = lengths[i - 1];
+      repeat = 3 + bits.read(2);
+    } else if (symbol === 17) {
+      repeat = 3 + bits.read(3);
+    } else {
+      repeat = 11 + bits.read(7);
+    }
+    if (i + repeat > lengths.length) throw new Error('inflate: code lengths overflow');
+    for (let j = 0; j < repeat; j++) lengths[i++] = value;
+  }
+  if (lengths[256] === 0) throw new Error('inflate: missing end-of-block code');
+
+  return {
+    literal: buildTable(lengths.slice(0, hlit)),
+    distance: buildTable(lengths.slice(hlit)),
+  };
+}
+
+function inflateCompressed(bits: BitReader, out: Output, literal: HuffmanTable, distance: HuffmanTable): void {
+  while (true) {
+    const symbol = bits.decode(literal);
+    if (symbol < 256) {
+      out.push(symbol);
+      continue;
+    }
+    if (symbol === 256) return;
+
+    const lengthCode = symbol - 257;
+    if (lengthCode >= LENGTH_BASE.length) throw new Error(`inflate: invalid length symbol ${symbol}`);
+    const length = LENGTH_BASE[lengthCode] + bits.read(LENGTH_EXTRA[lengthCode]);
+    const distCode = bits.decode(distance);
+    if (distCode >= DIST_BASE.length) throw new Error(`inflate: invalid distance symbol ${distCode}`);
+    const dist = DIST_BASE[distCode] + bits.read(DIST_EXTRA[distCode]);
+    out.copyMatch(dist, length);
+  }
+}
+
+let crcTable: Uint32Array | null = null;
+
+/** CRC-32 (IEEE 802.3), as stored in the gzip trailer. */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,71 @@
+/**
+ * LZ4 decompressor. ClickHouse writes the bare block format (no frame header,
+ * no magic number) inside a compressed frame with method 0x82; HTTP responses
+ * requested with `Accept-Encoding: lz4` use the LZ4 frame format, whose blocks
+ * are the same records but may reference earlier blocks of the frame.
+ *
+ * A block is a sequence of [token][literal length ext][literals][offset u16 LE]
+ * [match length ext] records; the final record carries literals only.
+ */
+export function lz4DecompressBlock(src: Uint8Array, uncompressedSize: number): Uint8Array {
+  const out = new Uint8Array(uncompressedSize);
+  const op = lz4DecompressBlockInto(src, out, 0);
+  if (op !== out.length) {
+    throw new Error(`LZ4: decompressed ${op} bytes, expected ${out.length}`);
+  }
+  return out;
+}
+
+/**
+ * Decompress one block into `out` starting at `op`, returning the new output
+ * length. Matches may reach back into `out[0, op)`, which is how linked blocks
+ * of an LZ4 frame use the previous blocks as their dictionary.
+ */
+export function lz4DecompressBlockInto(src: Uint8Array, out: Uint8Array, op: number): number {
+  let ip = 0;
+
+  while (ip < src.length) {
+    const token = src[ip++];
+
+    let literalLength = token >> 4;
+    if (literalLength === 15) {
+      let b: number;
+      do {
+        if (ip >= src.length) throw new Error('LZ4: truncated literal length');
+        b = src[ip++];
+        literalLength += b;
+      } while (b === 255);
+    }
+    if (ip + literalLength > src.length) throw new Error('LZ4: literals run past end of input');
+    if (op + literalLength > out.length) throw new Error('LZ4: output exceeds declared size');
+    out.set(src.subarray(ip, ip + literalLength), op);
+    ip += literalLength;
+    op += literalLength;
+
+    // The last sequence has no match part.
+    if (ip >= src.length) break;
+
+    if (ip + 2 > src.length) throw new Error('LZ4: truncated match offset');
+    const offset = src[ip] | (src[ip + 1] << 8);
+    ip += 2;
+    if (offset === 0 || offset > op) throw new Error(`LZ4: invalid match offset ${offset} at output ${op}`);
+
+    let matchLength = token & 0x0f;
+    if (matchLength === 15) {
+      let b: number;
+      do {
+        if (ip >= src.length) throw new Error('LZ4: truncated match length');
+        b = src[ip++];
+        matchLength += b;
+      } while (b === 255);
+    }
+    matchLength += 4;
+    if (op + matchLength > out.length) throw new Error('LZ4: output exceeds declared size');
+
+    // Byte-by-byte so overlapping matches (offset < length) replicate correctly.
+    let from = op - offset;
+    for (let i = 0; i < matchLength; i++) out[op++] = out[from++];
+  }
+
+  return op;
+}
@@ -0,0 +1,714 @@
+/**
+ * Zstandard decompressor (RFC 8878), sufficient for the single-frame streams
+ * ClickHouse writes inside a compressed frame with method 0x90. Supports raw,
+ * RLE and compressed blocks, Huffman-coded literals (1 and 4 streams, treeless
+ * reuse), FSE-coded sequences in every table mode, and skippable frames.
+ * Dictionaries are not supported; the optional content checksum is skipped.
+ */
+
+const ZSTD_MAGIC = 0xfd2fb528;
+const SKIPPABLE_MAGIC_MASK = 0xfffffff0;
+const SKIPPABLE_MAGIC = 0x184d2a50;
+
+const BLOCK_RAW = 0;
+const BLOCK_RLE = 1;
+const BLOCK_COMPRESSED = 2;
+
+const LITERALS_RAW = 0;
+const LITERALS_RLE = 1;
+const LITERALS_COMPRESSED = 2; // 3 = treeless: reuse the previous block's Huffman table
+
+const MODE_PREDEFINED = 0;
+const MODE_RLE = 1;
+const MODE_FSE = 2;
+const MODE_REPEAT = 3;
+
+const LL_DEFAULT_NORM = [
+  4, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 1, 1, 1, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 2, 1, 1, 1, 1, 1, -1, -1, -1, -1,
+];
+const ML_DEFAULT_NORM = [
+  1, 4, 3, 2, 2, 2, 2, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1,
+  1, 1, 1, 1, 1, 1, 1, 1, -1, -1, -1, -1, -1, -1, -1,
+];
+const OF_DEFAULT_NORM = [
+  1, 1, 1, 1, 1, 1, 2, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, -1, -1, -1, -1, -1,
+];
+
+const LL_BASE = [
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 18, 20, 22, 24, 28, 32, 40, 48, 64, 128, 256, 512,
+  1024, 2048, 4096, 8192, 16384, 32768, 65536,
+];
+const LL_BITS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 3, 3, 4, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16,
+];
+const ML_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30, 31, 32,
+  33, 34, 35, 37, 39, 41, 43, 47, 51, 59, 67, 83, 99, 131, 259, 515, 1027, 2051, 4099, 8195, 16387, 32771, 65539,
+];
+const ML_BITS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2,
+  3, 3, 4, 4, 5, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16,
+];
+
+const LL_MAX_SYMBOL = 35;
+const ML_MAX_SYMBOL = 52;
+const OF_MAX_SYMBOL = 31;
+const LL_MAX_LOG = 9;
+const ML_MAX_LOG = 9;
+const OF_MAX_LOG = 8;
+const HUF_WEIGHT_MAX_LOG = 6;
+const HUF_MAX_BITS = 11;
+
+interface FseTable {
+  accuracyLog: number;
+  symbol: Uint8Array;
+  nbBits: Uint8Array;
+  baseline: Uint16Array;
+}
+
+interface HuffmanTable {
+  maxBits: number;
+  symbol: Uint8Array;
+  nbBits: Uint8Array;
+}
+
+/** Per-frame state carried from one block to the next. */
+interface FrameState {
+  huffman: HuffmanTable | null;
+  llTable: FseTable | null;
+  ofTable: FseTable | null;
+  mlTable: FseTable | null;
+  repeatOffsets: [number, number, number];
+}
+
+function highBit(n: number): number {
+  return 31 - Math.clz32(n);
+}
+
+/**
+ * Read `n` (≤ 32) bits starting at absolute bit `start` of `src[base..]`,
+ * least-significant bit first. Bits before `base` read as zero, which is how a
+ * backward stream behaves once it has been fully consumed.
+ */
+function getBits(src: Uint8Array, base: number, start: number, n: number): number {
+  let result = 0;
+  let got = 0;
+  let b = start;
+  const end = start + n;
+  while (b < end) {
+    if (b < 0) {
+      const skip = Math.min(end, 0) - b;
+      got += skip;
+      b += skip;
+      continue;
+    }
+    const bitOff = b & 7;
+    const take = Math.min(8 - bitOff, end - b);
+    const byte = src[base + (b >> 3)] ?? 0;
+    result += ((byte >> bitOff) & ((1 << take) - 1)) * 2 ** got;
+    got += take;
+    b += take;
+  }
+  return result;
+}
+
+/** Forward (little-endian) bit reader, used for FSE table descriptions. */
+class ForwardBits {
+  bitPos = 0;
+
+  constructor(private readonly src: Uint8Array, private readonly base: number) {}
+
+  peek(n: number): number {
+    return getBits(this.src, this.base, this.bitPos, n);
+  }
+
+  skip(n: number): void {
+    this.bitPos += n;
+  }
+
+  read(n: number): number {
+    const v = this.peek(n);
+    this.bitPos += n;
+    return v;
+  }
+
+  get bytesConsumed(): number {
+    return Math.ceil(this.bitPos / 8);
+  }
+}
+
+/**
+ * Backward bit reader: the stream is read from its last byte towards its
+ * first, starting just below the highest set bit of the last byte (the
+ * end-of-stream padding marker).
+ */
+class BackwardBits {
+  bitPos: number;
+
+  constructor(private readonly src: Uint8Array, private readonly base: number, length: number) {
+    if (length === 0) throw new Error('zstd: empty bitstream');
+    const last = src[base + length - 1];
+    if (last === 0) throw new Error('zstd: bitstream missing end marker');
+    this.bitPos = (length - 1) * 8 + highBit(last);
+  }
+
+  peek(n: number): number {
+    return getBits(this.src, this.base, this.bitPos - n, n);
+  }
+
+  skip(n: number): void {
+    this.bitPos -= n;
+  }
+
+  read(n: number): number {
+    if (n === 0) return 0;
+    const v = this.peek(n);
+    this.bitPos -= n;
+    return v;
+  }
+
+  get overflowed(): boolean {
+    return this.bitPos < 0;
+  }
+}
+
+/** Growable output buffer; matches may reference anything already written. */
+class Output {
+  buf: Uint8Array;
+  length = 0;
+
+  constructor(capacity: number) {
+    this.buf = new Uint8Array(Math.max(capacity, 64));
+  }
+
+  ensure(extra: number): void {
+    if (this.length + extra <= this.buf.length) return;
+    let cap = this.buf.length * 2;
+    while (cap < this.length + extra) cap *= 2;
+    const next = new Uint8Array(cap);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+  }
+
+  push(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.buf.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  fill(value: number, count: number): void {
+    this.ensure(count);
+    this.buf.fill(value, this.length, this.length + count);
+    this.length += count;
+  }
+
+  copyMatch(offset: number, length: number): void {
+    if (offset === 0 || offset > this.length) {
+      throw new Error(`zstd: match offset ${offset} beyond ${this.length} decoded bytes`);
+    }
+    this.ensure(length);
+    let from = this.length - offset;
+    for (let i = 0; i < length; i++) this.buf[this.length++] = this.buf[from++];
+  }
+}
+
+/**
+ * Decompress a zstd stream. `expectedSize` (when known, e.g. from the
+ * ClickHouse frame header) pre-sizes the output and is checked at the end.
+ */
+export function zstdDecompress(src: Uint8Array, expectedSize?: number): Uint8Array {
+  const view = new DataView(src.buffer, src.byteOffset, src.byteLength);
+  const out = new Output(expectedSize ?? src.length * 4);
+  let pos = 0;
+
+  while (pos < src.length) {
+    if (pos + 4 > src.length) throw new Error('zstd: truncated frame magic');
+    const magic = view.getUint32(pos, true);
+    if ((magic & SKIPPABLE_MAGIC_MASK) >>> 0 === SKIPPABLE_MAGIC) {
+      const size = view.getUint32(pos + 4, true);
+      pos += 8 + size;
+      continue;
+    }
+    if (magic !== ZSTD_MAGIC) {
+      throw new Error(`zstd: bad frame magic 0x${magic.toString(16)} at ${pos}`);
+    }
+    pos = decodeFrame(src, view, pos + 4, out);
+  }
+
+  if (expectedSize !== undefined && out.length !== expectedSize) {
+    throw new Error(`zstd: decompressed ${out.length} bytes, expected ${expectedSize}`);
+  }
+  return out.buf.slice(0, out.length);
+}
+
+function decodeFrame(src: Uint8Array, view: DataView, pos: number, out: Output): number {
+  const descriptor = src[pos++];
+  const fcsFlag = descriptor >> 6;
+  const singleSegment = (descriptor >> 5) & 1;
+  const hasChecksum = (descriptor >> 2) & 1;
+  const dictIdFlag = descriptor & 3;
+  if (descriptor & 0x08) throw new Error('zstd: reserved frame header bit set');
+
+  if (!singleSegment) pos += 1; // window descriptor: history is the whole output here
+  const dictIdSize = [0, 1, 2, 4][dictIdFlag];
+  if (dictIdSize > 0) {
+    let dictId = 0;
+    for (let i = 0; i < dictIdSize; i++) dictId += src[pos + i] * 2 ** (8 * i);
+    if (dictId !== 0) throw new Error('zstd: dictionaries are not supported');
+    pos += dictIdSize;
+  }
+  const fcsSize = fcsFlag === 0 ? singleSegment : [0, 2, 4, 8][fcsFlag];
+  pos += fcsSize;
+
+  const state: FrameState = {
+    huffman: null,
+    llTable: null,
+    ofTable: null,
+    mlTable: null,
+    repeatOffsets: [1, 4, 8],
+  };
+
+  while (true) {
+    if (pos + 3 > src.length) throw new Error('zstd: truncated block header');
+    const header = src[pos] | (src[pos + 1] << 8) | (src[pos + 2] << 16);
+    pos += 3;
+    const last = header & 1;
+    const blockType = (header >> 1) & 3;
+    const blockSize = header >> 3;
+
+    switch (blockType) {
+      case BLOCK_RAW:
+        if (pos + blockSize > src.length) throw new Error('zstd: truncated raw block');
+        out.push(src.subarray(pos, pos + blockSize));
+        pos += blockSize;
+        break;
+      case BLOCK_RLE:
+        out.fill(src[pos], blockSize);
+        pos += 1;
+        break;
+      case BLOCK_COMPRESSED:
+        if (pos + blockSize > src.length) throw new Error('zstd: truncated compressed block');
+        decodeCompressedBlock(src, view, pos, blockSize, state, out);
+        pos += blockSize;
+        break;
+      default:
+        throw new Error('zstd: reserved block type');
+    }
+    if (last) break;
+  }
+
+  if (hasChecksum) pos += 4;
+  return pos;
+}
+
+function decodeCompressedBlock(
+  src: Uint8Array,
+  view: DataView,
+  start: number,
+  size: number,
+  state: FrameState,
+  out: Output,
+): void {
+  const end = start + size;
+  const { literals, next } = decodeLiterals(src, view, start, state);
+  decodeSequences(src, next, end, literals, state, out);
+}
+
+// --- literals section -------------------------------------------------------
+
+function decodeLiterals(
+  src: Uint8Array,
+  view: DataView,
+  pos: number,
+  state: FrameState,
+): { literals: Uint8Array; next: number } {
+  const b0 = src[pos];
+  const type = b0 & 3;
+  const sizeFormat = (b0 >> 2) & 3;
+
+  if (type === LITERALS_RAW || type === LITERALS_RLE) {
+    let regenerated: number;
+    let headerSize: number;
+    if (sizeFormat === 0 || sizeFormat === 2) {
+      regenerated = b0 >> 3;
+      headerSize = 1;
+    } else if (sizeFormat === 1) {
+      regenerated = (b0 >> 4) + (src[pos + 1] << 4);
+      headerSize = 2;
+    } else {
+      regenerated = (b0 >> 4) + (src[pos + 1] << 4) + (src[pos + 2] << 12);
+      headerSize = 3;
+    }
+    pos += headerSize;
+    if (type === LITERALS_RAW) {
+      return { literals: src.subarray(pos, pos + regenerated), next: pos + regenerated };
+    }
+    return { literals: new Uint8Array(regenerated).fill(src[pos]), next: pos + 1 };
+  }
+
+  let regenerated: number;
+  let compressed: number;
+  let headerSize: number;
+  let streams = 4;
+  if (sizeFormat === 0 || sizeFormat === 1) {
+    const h = src[pos] | (src[pos + 1] << 8) | (src[pos + 2] << 16);
+    regenerated = (h >> 4) & 0x3ff;
+    compressed = (h >> 14) & 0x3ff;
+    headerSize = 3;
+    if (sizeFormat === 0) streams = 1;
+  } else if (sizeFormat === 2) {
+    const h = view.getUint32(pos, true);
+    regenerated = (h >>> 4) & 0x3fff;
+    compressed = (h >>> 18) & 0x3fff;
+    headerSize = 4;
+  } else {
+    const h = view.getUint32(pos, true);
+    regenerated = (h >>> 4) & 0x3ffff;
+    compressed = (h >>> 22) + src[pos + 4] * 2 ** 10;
+    headerSize = 5;
+  }
+  pos += headerSize;
+  const end = pos + compressed;
+
+  if (type === LITERALS_COMPRESSED) {
+    const { table, next } = readHuffmanTable(src, pos);
+    state.huffman = table;
+    pos = next;
+  } else if (!state.huffman) {
+    throw new Error('zstd: treeless literals without a previous Huffman table');
+  }
+  const table = state.huffman!;
+
+  const literals = new Uint8Array(regenerated);
+  if (streams === 1) {
+    decodeHuffmanStream(src, pos, end - pos, table, literals, 0, regenerated);
+  } else {
+    const s1 = src[pos] | (src[pos + 1] << 8);
+    const s2 = src[pos + 2] | (src[pos + 3] << 8);
+    const s3 = src[pos + 4] | (src[pos + 5] << 8);
+    pos += 6;
+    const s4 = end - pos - s1 - s2 - s3;
+    if (s4 < 0) throw new Error('zstd: invalid Huffman jump table');
+    const segment = Math.ceil(regenerated / 4);
+    const sizes = [s1, s2, s3, s4];
+    let outPos = 0;
+    for (let i = 0; i < 4; i++) {
+      const count = i < 3 ? segment : regenerated - 3 * segment;
+      decodeHuffmanStream(src, pos, sizes[i], table, literals, outPos, count);
+      pos += sizes[i];
+      outPos += count;
+    }
+  }
+  return { literals, next: end };
+}
+
+function readHuffmanTable(src: Uint8Array, pos: number): { table: HuffmanTable; next: number } {
+  const header = src[pos++];
+  let weights: number[];
+  if (header < 128) {
+    // FSE-compressed weights; `header` is the compressed size.
+    const fse = readFseTable(src, pos, 255, HUF_WEIGHT_MAX_LOG);
+    const streamStart = pos + fse.bytesRead;
+    const streamLength = header - fse.bytesRead;
+    weights = decodeFseWeights(src, streamStart, streamLength, fse.table);
+    pos += header;
+  } else {
+    const count = header - 127;
+    weights = [];
+    for (let i = 0; i < count; i++) {
+      const byte = src[pos + (i >> 1)];
+      weights.push(i % 2 === 0 ? byte >> 4 : byte & 0x0f);
+    }
+    pos += Math.ceil(count / 2);
+  }
+  return { table: buildHuffmanTable(weights), next: pos };
+}
+
+function decodeFseWeights(src: Uint8Array, start: number, length: number, table: FseTable): number[] {
+  const bits = new BackwardBits(src, start, length);
+  let state1 = bits.read(table.accuracyLog);
+  let state2 = bits.read(table.accuracyLog);
+  const weights: number[] = [];
+  while (weights.length < 255) {
+    weights.push(table.symbol[state1]);
+    state1 = table.baseline[state1] + bits.read(table.nbBits[state1]);
+    if (bits.overflowed) {
+      weights.push(table.symbol[state2]);
+      break;
+    }
+    weights.push(table.symbol[state2]);
+    state2 = table.baseline[state2] + bits.read(table.nbBits[state2]);
+    if (bits.overflowed) {
+      weights.push(table.symbol[state1]);
+      break;
+    }
+  }
+  return weights;
+}
+
+function buildHuffmanTable(weights: number[]): HuffmanTable {
+  // The last symbol's weight is implied: it completes the sum to a power of 2.
+  let sum = 0;
+  for (const w of weights) if (w > 0) sum += 1 << (w - 1);
+  if (sum === 0) throw new Error('zstd: empty Huffman weights');
+  const maxBits = highBit(sum) + 1;
+  const remainder = (1 << maxBits) - sum;
+  if (remainder & (remainder - 1)) throw new Error('zstd: invalid Huffman weights');
+  const allWeights = [...weights, highBit(remainder) + 1];
+  if (maxBits > HUF_MAX_BITS) throw new Error(`zstd: Huffman code length ${maxBits} too large`);
+
+  const size = 1 << maxBits;
+  const symbol = new Uint8Array(size);
+  const nbBits = new Uint8Array(size);
+  // Codes are handed out from the lowest weight (longest code) upwards; a
+  // symbol of weight w fills 2^(w-1) consecutive slots of the lookup table.
+  let pos = 0;
+  for (let w = 1; w <= maxBits; w++) {
+    for (let s = 0; s < allWeights.length; s++) {
+      if (allWeights[s] !== w) continue;
+      const span = 1 << (w - 1);
+      symbol.fill(s, pos, pos + span);
+      nbBits.fill(maxBits + 1 - w, pos, pos + span);
+      pos += span;
+    }
+  }
+  return { maxBits, symbol, nbBits };
+}
+
+function decodeHuffmanStream(
+  src: Uint8Array,
+  start: number,
+  length: number,
+  table: HuffmanTable,
+  dst: Uint8Array,
+  dstPos: number,
+  count: number,
+): void {
+  const bits = new BackwardBits(src, start, length);
+  for (let i = 0; i < count; i++) {
+    const idx = bits.peek(table.maxBits);
+    dst[dstPos + i] = table.symbol[idx];
+    bits.skip(table.nbBits[idx]);
+  }
+  if (bits.overflowed) throw new Error('zstd: Huffman stream overrun');
+}
+
+// --- FSE tables ---------------------------------------------------------------
+
+function readFseTable(
+  src: Uint8Array,
+  pos: number,
+  maxSymbol: number,
+  maxAccuracyLog: number,
+): { table: FseTable; bytesRead: number } {
+  const bits = new ForwardBits(src, pos);
+  const accuracyLog = bits.read(4) + 5;
+  if (accuracyLog > maxAccuracyLog) throw new Error(`zstd: FSE accuracy log ${accuracyLog} too large`);
+  const tableSize = 1 << accuracyLog;
+
+  const probs: number[] = [];
+  let remaining = tableSize + 1;
+  let threshold = tableSize;
+  let nbBits = accuracyLog + 1;
+  while (remaining > 1 && probs.length <= maxSymbol) {
+    const max = 2 * threshold - 1 - remaining;
+    let count: number;
+    const low = bits.peek(nbBits - 1);
+    if (low < max) {
+      count = low;
+      bits.skip(nbBits - 1);
+    } else {
+      count = bits.peek(nbBits);
+      if (count >= threshold) count -= max;
+      bits.skip(nbBits);
+    }
+    const prob = count - 1;
+    probs.push(prob);
+    remaining -= prob < 0 ? -prob : prob;
+
+    if (prob === 0) {
+      // A zero probability is followed by 2-bit repeat counts of further zeros.
+      let repeat: number;
+      do {
+        repeat = bits.read(2);
+        for (let i = 0; i < repeat; i++) probs.push(0);
+      } while (repeat === 3);
+    }
+    while (remaining < threshold) {
+      nbBits--;
+      threshold >>= 1;
+    }
+  }
+  if (remaining !== 1 || probs.length > maxSymbol + 1) throw new Error('zstd: corrupt FSE table description');
+
+  return { table: buildFseTable(probs, accuracyLog), bytesRead: bits.bytesConsumed };
+}
+
+function buildFseTable(probs: number[], accuracyLog: number): FseTable {
+  const size = 1 << accuracyLog;
+  const symbol = new Uint8Array(size);
+  const nbBits = new Uint8Array(size);
+  const baseline = new Uint16Array(size);
+  const next: number[] = new Array(probs.length);
+
+  let highThreshold = size - 1;
+  for (let s = 0; s < probs.length; s++) {
+    if (probs[s] === -1) {
+      symbol[highThreshold--] = s;
+      next[s] = 1;
+    } else {
+      next[s] = probs[s];
+    }
+  }
+
+  const mask = size - 1;
+  const step = (size >> 1) + (size >> 3) + 3;
+  let pos = 0;
+  for (let s = 0; s < probs.length; s++) {
+    for (let i = 0; i < probs[s]; i++) {
+      symbol[pos] = s;
+      do {
+        pos = (pos + step) & mask;
+      } while (pos > highThreshold);
+    }
+  }
+
+  for (let u = 0; u < size; u++) {
+    const s = symbol[u];
+    const nextState = next[s]++;
+    const bits = accuracyLog - highBit(nextState);
+    nbBits[u] = bits;
+    baseline[u] = (nextState << bits) - size;
+  }
+  return { accuracyLog, symbol, nbBits, baseline };
+}
+
+function rleFseTable(sym: number): FseTable {
+  return {
+    accuracyLog: 0,
+    symbol: Uint8Array.of(sym),
+    nbBits: Uint8Array.of(0),
+    baseline: Uint16Array.of(0),
+  };
+}
+
+const LL_DEFAULT_TABLE = buildFseTable(LL_DEFAULT_NORM, 6);
+const ML_DEFAULT_TABLE = buildFseTable(ML_DEFAULT_NORM, 6);
+const OF_DEFAULT_TABLE = buildFseTable(OF_DEFAULT_NORM, 5);
+
+// --- sequences section --------------------------------------------------------
+
+function selectTable(
+  mode: number,
+  src: Uint8Array,
+  pos: number,
+  defaultTable: FseTable,
+  previous: FseTable | null,
+  maxSymbol: number,
+  maxLog: number,
+): { table: FseTable; next: number } {
+  switch (mode) {
+    case MODE_PREDEFINED:
+      return { table: defaultTable, next: pos };
+    case MODE_RLE:
+      return { table: rleFseTable(src[pos]), next: pos + 1 };
+    case MODE_FSE: {
+      const { table, bytesRead } = readFseTable(src, pos, maxSymbol, maxLog);
+      return { table, next: pos + bytesRead };
+    }
+    case MODE_REPEAT:
+    default:
+      if (!previous) throw new Error('zstd: repeat table mode without a previous table');
+      return { table: previous, next: pos };
+  }
+}
+
+function decodeSequences(
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  literals: Uint8Array,
+  state: FrameState,
+  out: Output,
+): void {
+  const b0 = src[pos];
+  let numSequences: number;
+  if (b0 < 128) {
+    numSequences = b0;
+    pos += 1;
+  } else if (b0 < 255) {
+    numSequences = ((b0 - 128) << 8) + src[pos + 1];
+    pos += 2;
+  } else {
+    numSequences = src[pos + 1] + (src[pos + 2] << 8) + 0x7f00;
+    pos += 3;
+  }
+
+  if (numSequences === 0) {
+    out.push(literals);
+    return;
+  }
+
+  const modes = src[pos++];
+  const ll = selectTable(modes >> 6, src, pos, LL_DEFAULT_TABLE, state.llTable, LL_MAX_SYMBOL, LL_MAX_LOG);
+  pos = ll.next;
+  const of = selectTable((modes >> 4) & 3, src, pos, OF_DEFAULT_TABLE, state.ofTable, OF_MAX_SYMBOL, OF_MAX_LOG);
+  pos = of.next;
+  const ml = selectTable((modes >> 2) & 3, src, pos, ML_DEFAULT_TABLE, state.mlTable, ML_MAX_SYMBOL, ML_MAX_LOG);
+  pos = ml.next;
+  state.llTable = ll.table;
+  state.ofTable = of.table;
+  state.mlTable = ml.table;
+
+  const bits = new BackwardBits(src, pos, end - pos);
+  let llState = bits.read(ll.table.accuracyLog);
+  let ofState = bits.read(of.table.accuracyLog);
+  let mlState = bits.read(ml.table.accuracyLog);
+  const rep = state.repeatOffsets;
+  let litPos = 0;
+
+  for (let i = 0; i < numSequences; i++) {
+    const ofCode = of.table.symbol[ofState];
+    const llCode = ll.table.symbol[llState];
+    const mlCode = ml.table.symbol[mlState];
+    if (llCode > LL_MAX_SYMBOL || mlCode > ML_MAX_SYMBOL || ofCode > OF_MAX_SYMBOL) {
+      throw new Error('zstd: sequence code out of range');
+    }
+
+    const offsetValue = 2 ** ofCode + bits.read(ofCode);
+    const matchLength = ML_BASE[mlCode] + bits.read(ML_BITS[mlCode]);
+    const literalLength = LL_BASE[llCode] + bits.read(LL_BITS[llCode]);
+
+    let offset: number;
+    if (offsetValue > 3) {
+      offset = offsetValue - 3;
+      rep[2] = rep[1];
+      rep[1] = rep[0];
+      rep[0] = offset;
+    } else {
+      const idx = offsetValue - 1 + (literalLength === 0 ? 1 : 0);
+      if (idx === 0) {
+        offset = rep[0];
+      } else {
+        offset = idx === 3 ? rep[0] - 1 : rep[idx];
+        if (idx !== 1) rep[2] = rep[1];
+        rep[1] = rep[0];
+        rep[0] = offset;
+      }
+    }
+
+    if (litPos + literalLength > literals.length) throw new Error('zstd: literal length overruns literals');
+    out.push(literals.subarray(litPos, litPos + literalLength));
+    litPos += literalLength;
+    out.copyMatch(offset, matchLength);
+
+    if (i < numSequences - 1) {
+      llState = ll.table.baseline[llState] + bits.read(ll.table.nbBits[llState]);
+      mlState = ml.table.baseline[mlState] + bits.read(ml.table.nbBits[mlState]);
+      ofState = of.table.baseline[ofState] + bits.read(of.table.nbBits[ofState]);
+    }
+  }
+  if (bits.overflowed) throw new Error('zstd: sequence bitstream overrun');
+
+  out.push(literals.subarray(litPos));
+}
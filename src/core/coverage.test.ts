@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeCoverage } from './coverage';
+import { createDecoder } from './decoder';
+import { NativeEncoder } from './encoder/native-encoder';
+import { RowBinaryEncoder } from './encoder/rowbinary-encoder';
+import { AstNode, ParsedData } from './types/ast';
+import { ClickHouseFormat } from './types/formats';
+
+const leaf = (id: string, start: number, end: number): AstNode => ({
+  id,
+  type: 'UInt8',
+  byteRange: { start, end },
+  value: 0,
+  displayValue: '0',
+});
+
+function trailing(nodes: AstNode[]): ParsedData {
+  return {
+    format: ClickHouseFormat.Native,
+    header: { byteRange: { start: 0, end: 0 }, columnCount: 0, columnCountRange: { start: 0, end: 0 }, columns: [] },
+    totalBytes: 0,
+    trailingNodes: nodes,
+  };
+}
+
+describe('analyzeCoverage', () => {
+  it('accounts for every byte of a RowBinary and a Native decode exactly once', () => {
+    const columns = [
+      { name: 'id', type: 'UInt64' },
+      { name: 'tags', type: 'Array(String)' },
+    ];
+    const rowBinary = new RowBinaryEncoder().encode(columns, [[1n, ['a', 'bc']], [2n, []]]);
+    const native = new NativeEncoder().encode([[{ name: 'n', type: 'Map(String, Array(UInt8))', values: [{ a: [1] }, {}] }]]);
+
+    for (const [data, format] of [
+      [rowBinary, ClickHouseFormat.RowBinaryWithNamesAndTypes],
+      [native, ClickHouseFormat.Native],
+    ] as const) {
+      const report = analyzeCoverage(createDecoder(data, format).decode(), data.length);
+      expect(report).toEqual({
+        totalBytes: data.length,
+        coveredBytes: data.length,
+        coveragePercent: 100,
+        gaps: [],
+        overlaps: [],
+      });
+    }
+  });
+
+  it('reports skipped bytes as gaps and bytes claimed twice as overlaps', () => {
+    const parent: AstNode = { ...leaf('parent', 2, 8), children: [leaf('a', 2, 5), leaf('b', 4, 6)] };
+    const report = analyzeCoverage(trailing([parent, leaf('c', 4, 5), leaf('d', 9, 10)]), 12);
+    expect(report.gaps).toEqual([
+      { start: 0, end: 2 },
+      { start: 6, end: 9 },
+      { start: 10, end: 12 },
+    ]);
+    expect(report.overlaps).toEqual([
+      { byteRange: { start: 4, end: 5 }, nodeIds: ['a', 'c', 'b'] },
+    ]);
+    expect(report.coveredBytes).toBe(5);
+    expect(report.coveragePercent).toBeCloseTo(41.67, 2);
+  });
+
+  it('sees Native Nullable values overlap, each spanning its null-map byte and its value', () => {
+    const data = new NativeEncoder().encode([[{ name: 'n', type: 'Nullable(UInt8)', values: [1, null] }]]);
+    const parsed = createDecoder(data, ClickHouseFormat.Native).decode();
+    const [first, second] = parsed.blocks![0].columns[0].values;
+    expect(analyzeCoverage(parsed, data.length).overlaps).toEqual([
+      { byteRange: { start: second.byteRange.start, end: first.byteRange.end }, nodeIds: [first.id, second.id] },
+    ]);
+  });
+});
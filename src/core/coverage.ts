@@ -0,0 +1,111 @@
+import { AstNode, ByteRange, ParsedData } from './types/ast';
+
+/** Bytes claimed by more than one leaf, and the leaves that claim them. */
+export interface CoverageOverlap {
+  byteRange: ByteRange;
+  nodeIds: string[];
+}
+
+export interface CoverageReport {
+  totalBytes: number;
+  /** Bytes inside at least one leaf node. */
+  coveredBytes: number;
+  /** 0-100; 100 for empty input. */
+  coveragePercent: number;
+  /** Ranges no leaf node claims, in offset order. */
+  gaps: ByteRange[];
+  /** Ranges claimed by several leaves, in offset order. */
+  overlaps: CoverageOverlap[];
+}
+
+interface Leaf {
+  id: string;
+  byteRange: ByteRange;
+}
+
+function collectLeaves(node: AstNode, out: Leaf[]) {
+  if (!node.children || node.children.length === 0) {
+    out.push({ id: node.id, byteRange: node.byteRange });
+    return;
+  }
+  node.children.forEach((child) => collectLeaves(child, out));
+}
+
+/**
+ * Every childless node of a parse. The RowBinary header is listed under the
+ * synthetic ids the AST Tree and Hex View use for it; a Native header only
+ * repeats the first block's column metadata and is skipped.
+ */
+function leaves(parsed: ParsedData): Leaf[] {
+  const out: Leaf[] = [];
+  if (parsed.rows) {
+    out.push({ id: 'rowbinary-header-colcount', byteRange: parsed.header.columnCountRange });
+    parsed.header.columns.forEach((col, i) => {
+      out.push({ id: `rowbinary-header-col-${i}-name`, byteRange: col.nameByteRange });
+      out.push({ id: `rowbinary-header-col-${i}-type`, byteRange: col.typeByteRange });
+    });
+    parsed.rows.forEach((row) => row.values.forEach((node) => collectLeaves(node, out)));
+  }
+  parsed.blocks?.forEach((block) => {
+    collectLeaves(block.header.astNode, out);
+    block.columns.forEach((col) => {
+      collectLeaves(col.metadataNode, out);
+      // A deferred block has no value nodes; its column data counts as one leaf.
+      if (block.deferred) out.push({ id: col.id, byteRange: col.dataByteRange });
+      col.dataPrefixNodes.forEach((node) => collectLeaves(node, out));
+      col.values.forEach((node) => collectLeaves(node, out));
+    });
+  });
+  parsed.trailingNodes?.forEach((node) => collectLeaves(node, out));
+  return out;
+}
+
+/**
+ * Which bytes of a `totalBytes`-long buffer the leaves of a parse account
+ * for. A correct decoder claims every byte exactly once, so gaps point at
+ * skipped bytes and overlaps at bytes read twice. Empty leaves are ignored.
+ *
+ * Some leaves span bytes that are not contiguous (a Native Nullable value runs
+ * from its null-map byte to its value, a LowCardinality value from its
+ * dictionary entry to its index), so those columns overlap by design.
+ */
+export function analyzeCoverage(parsed: ParsedData, totalBytes: number): CoverageReport {
+  const sorted = leaves(parsed)
+    .filter((l) => l.byteRange.start < l.byteRange.end)
+    .sort((a, b) => a.byteRange.start - b.byteRange.start || a.byteRange.end - b.byteRange.end);
+
+  const gaps: ByteRange[] = [];
+  const overlaps: CoverageOverlap[] = [];
+  let coveredBytes = 0;
+  // The leaf reaching furthest so far; later leaves starting before its end overlap it.
+  let reach: Leaf | null = null;
+
+  for (const leaf of sorted) {
+    const { start, end } = leaf.byteRange;
+    const reachEnd = reach ? reach.byteRange.end : 0;
+    if (start > reachEnd) gaps.push({ start: reachEnd, end: start });
+    if (reach && start < reachEnd) {
+      const byteRange = { start, end: Math.min(end, reachEnd) };
+      const last = overlaps[overlaps.length - 1];
+      if (last && last.byteRange.start === byteRange.start && last.byteRange.end === byteRange.end) {
+        last.nodeIds.push(leaf.id);
+      } else {
+        overlaps.push({ byteRange, nodeIds: [reach.id, leaf.id] });
+      }
+    }
+    if (end > reachEnd) {
+      coveredBytes += end - Math.max(start, reachEnd);
+      reach = leaf;
+    }
+  }
+  const reachEnd = reach ? reach.byteRange.end : 0;
+  if (reachEnd < totalBytes) gaps.push({ start: reachEnd, end: totalBytes });
+
+  return {
+    totalBytes,
+    coveredBytes,
+    coveragePercent: totalBytes > 0 ? (coveredBytes / totalBytes) * 100 : 100,
+    gaps,
+    overlaps,
+  };
+}
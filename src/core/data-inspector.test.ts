@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { inspectBytes } from './data-inspector';
+
+function valuesOf(data: Uint8Array, offset: number, decimalScale = 2): Record<string, string | null> {
+  return Object.fromEntries(inspectBytes(data, offset, { decimalScale }).map((i) => [i.type, i.displayValue]));
+}
+
+describe('inspectBytes', () => {
+  it('reads the same bytes as every primitive', () => {
+    const data = new Uint8Array(32).fill(0xff);
+    data.set([0x00, 0x9c, 0xff, 0xff]);
+    const values = valuesOf(data, 1);
+    expect(values['Int8']).toBe('-100');
+    expect(values['UInt8']).toBe('156');
+    expect(values['Int16']).toBe('-100');
+    expect(values['UInt32']).toBe('4294967196');
+    expect(values['Int32']).toBe('-100');
+    expect(values['Decimal32(2)']).toBe('-1.00');
+    expect(values['Decimal64(2)']).toBe('-1.00');
+    expect(values['VarUInt']).toBeNull();
+  });
+
+  it('formats dates, addresses and UUIDs as the decoders do', () => {
+    const data = new Uint8Array([
+      0xe7, 0x11, 0xb3, 0x5c, 0x04, 0xc4, 0xf0, 0x61, 0xa0, 0xdb, 0xd3, 0x6a, 0x00, 0xa6, 0x7b, 0x90,
+    ]);
+    const values = valuesOf(data, 0);
+    expect(values['UUID']).toBe('61f0c404-5cb3-11e7-907b-a6006ad3dba0');
+
+    const date = valuesOf(new Uint8Array([0x01, 0x00, 0x00, 0x00]), 0);
+    expect(date['Date']).toBe('1970-01-02');
+    expect(date['Date32']).toBe('1970-01-02');
+    expect(date['DateTime']).toBe('1970-01-01 00:00:01.000');
+    expect(date['IPv4']).toBe('0.0.0.1');
+    expect(date['BFloat16']).toBe(String(new Float32Array(new Uint32Array([1 << 16]).buffer)[0]));
+  });
+
+  it('reports the bytes each reading takes, and null past the end', () => {
+    const data = new Uint8Array([0x80, 0x80, 0x01, 0x05]);
+    const byType = Object.fromEntries(inspectBytes(data, 0, { decimalScale: 0 }).map((i) => [i.type, i]));
+    expect(byType['VarUInt']).toEqual({ type: 'VarUInt', byteRange: { start: 0, end: 3 }, displayValue: '16384' });
+    expect(byType['UInt32'].byteRange).toEqual({ start: 0, end: 4 });
+    expect(byType['UInt64']).toEqual({ type: 'UInt64', byteRange: { start: 0, end: 8 }, displayValue: null });
+    expect(byType['UUID'].displayValue).toBeNull();
+    expect(byType['Decimal32(0)'].displayValue).toBe('83984512');
+  });
+});
@@ -0,0 +1,99 @@
+import { decodeLEB128BigInt } from './decoder/leb128';
+import { BinaryReader } from './decoder/reader';
+import { formatIPv6, formatUUID } from './decoder/format-utils';
+import { ByteRange } from './types/ast';
+
+/** The bytes at an offset read as one type */
+export interface Interpretation {
+  type: string;
+  /** The bytes the type takes from the offset (past the data when they run out) */
+  byteRange: ByteRange;
+  /** Null when the data ends first */
+  displayValue: string | null;
+}
+
+export interface InspectOptions {
+  /** Scale of the Decimal readings */
+  decimalScale: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDecimal(value: bigint, scale: number): string {
+  const negative = value < 0n;
+  const magnitude = negative ? -value : value;
+  const factor = 10n ** BigInt(scale);
+  const fraction = scale > 0 ? `.${(magnitude % factor).toString().padStart(scale, '0')}` : '';
+  return `${negative ? '-' : ''}${magnitude / factor}${fraction}`;
+}
+
+function formatDate(ms: number): string {
+  const date = new Date(ms);
+  return Number.isNaN(date.getTime()) ? 'out of range' : date.toISOString().split('T')[0];
+}
+
+function formatIPv6Bytes(bytes: Uint8Array): string {
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) groups.push((bytes[i] << 8) | bytes[i + 1]);
+  return formatIPv6(groups);
+}
+
+/**
+ * How each reading is taken: its type name, its width in bytes (0 when it
+ * varies) and the read. Formatted as the decoders display the type.
+ */
+function readings(scale: number): [string, number, (reader: BinaryReader) => string][] {
+  return [
+    ['Int8', 1, (r) => String(r.readInt8().value)],
+    ['UInt8', 1, (r) => String(r.readUInt8().value)],
+    ['Int16', 2, (r) => String(r.readInt16LE().value)],
+    ['UInt16', 2, (r) => String(r.readUInt16LE().value)],
+    ['Int32', 4, (r) => String(r.readInt32LE().value)],
+    ['UInt32', 4, (r) => String(r.readUInt32LE().value)],
+    ['Int64', 8, (r) => r.readInt64LE().value.toString()],
+    ['UInt64', 8, (r) => r.readUInt64LE().value.toString()],
+    ['Int128', 16, (r) => r.readInt128LE().value.toString()],
+    ['UInt128', 16, (r) => r.readUInt128LE().value.toString()],
+    ['Int256', 32, (r) => r.readInt256LE().value.toString()],
+    ['UInt256', 32, (r) => r.readUInt256LE().value.toString()],
+    ['Float32', 4, (r) => String(r.readFloat32LE().value)],
+    ['Float64', 8, (r) => String(r.readFloat64LE().value)],
+    ['BFloat16', 2, (r) => String(r.readBFloat16LE().value)],
+    [`Decimal32(${scale})`, 4, (r) => formatDecimal(BigInt(r.readInt32LE().value), scale)],
+    [`Decimal64(${scale})`, 8, (r) => formatDecimal(r.readInt64LE().value, scale)],
+    [`Decimal128(${scale})`, 16, (r) => formatDecimal(r.readInt128LE().value, scale)],
+    [`Decimal256(${scale})`, 32, (r) => formatDecimal(r.readInt256LE().value, scale)],
+    ['Date', 2, (r) => formatDate(r.readUInt16LE().value * DAY_MS)],
+    ['Date32', 4, (r) => formatDate(r.readInt32LE().value * DAY_MS)],
+    ['DateTime', 4, (r) => new Date(r.readUInt32LE().value * 1000).toISOString().replace('T', ' ').replace('Z', '')],
+    ['UUID', 16, (r) => formatUUID(r.readBytes(16).value)],
+    [
+      'IPv4',
+      4,
+      (r) => {
+        const b = r.readBytes(4).value;
+        return `${b[3]}.${b[2]}.${b[1]}.${b[0]}`;
+      },
+    ],
+    ['IPv6', 16, (r) => formatIPv6Bytes(r.readBytes(16).value)],
+    ['VarUInt', 0, (r) => decodeLEB128BigInt(r).value.toString()],
+  ];
+}
+
+/**
+ * The bytes of `data` from `offset` read as each primitive type the decoders
+ * know, whatever the decode made of them, to spot misaligned or mistyped data.
+ * All little-endian; Decimals use `options.decimalScale`.
+ */
+export function inspectBytes(data: Uint8Array, offset: number, options: InspectOptions): Interpretation[] {
+  return readings(options.decimalScale).map(([type, width, read]) => {
+    const reader = new BinaryReader(data.subarray(offset), offset);
+    try {
+      const displayValue = read(reader);
+      return { type, byteRange: { start: offset, end: reader.offset }, displayValue };
+    } catch {
+      // DataView throws a RangeError past the end; a varint runs out in readUInt8.
+      return { type, byteRange: { start: offset, end: offset + width }, displayValue: null };
+    }
+  });
+}
@@ -0,0 +1,118 @@
+/**
+ * AggregateFunction states, hand-assembled per layout and decoded as
+ * single-column RowBinary (the states are written the same way in Native).
+ */
+import { describe, expect, it } from 'vitest';
+import { createDecoder } from './index';
+import { NativeEncoder } from '../encoder/native-encoder';
+import { parseSchema } from '../parser/schema-parser';
+import { AstNode } from '../types/ast';
+import { ClickHouseFormat } from '../types/formats';
+
+const u32 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24];
+const u64 = (n: number) => [...u32(n), 0, 0, 0, 0];
+const f32 = (n: number) => [...new Uint8Array(Float32Array.of(n).buffer)];
+const str = (s: string) => [s.length, ...new TextEncoder().encode(s)];
+
+function decodeStates(type: string, bytes: number[]): AstNode[] {
+  const parsed = createDecoder(Uint8Array.from(bytes), ClickHouseFormat.RowBinary, {
+    schema: parseSchema(`s ${type}`),
+  }).decode();
+  return parsed.rows!.map((row) => row.values[0]);
+}
+
+const labels = (node: AstNode) => node.children!.map((c) => c.label);
+
+describe('AggregateFunction states', () => {
+  it('decodes uniqExact hash sets of values or of 128-bit hashes', () => {
+    const [numeric] = decodeStates('AggregateFunction(uniqExact, UInt32)', [2, ...u32(5), ...u32(9)]);
+    expect(numeric.displayValue).toBe('uniqExact=2');
+    expect(labels(numeric)).toEqual(['size', '[0]', '[1]']);
+    expect(numeric.children!.slice(1).map((c) => c.value)).toEqual([5, 9]);
+
+    const [strings] = decodeStates('AggregateFunction(uniqExact, String)', [1, ...new Array(16).fill(0xab)]);
+    expect(strings.children![1].type).toBe('UInt128');
+    expect(strings.byteRange).toEqual({ start: 0, end: 17 });
+  });
+
+  it('decodes uniq and uniqCombined containers', () => {
+    const [uniq] = decodeStates('AggregateFunction(uniq, UInt64)', [0, 2, ...u32(1), ...u32(2)]);
+    expect(labels(uniq)).toEqual(['skip_degree', 'size', '[0]', '[1]']);
+    expect(uniq.value).toEqual({ skipDegree: 0, hashes: 2 });
+
+    const [small] = decodeStates('AggregateFunction(uniqCombined, String)', [1, 1, ...u32(7)]);
+    expect(small.displayValue).toBe('uniqCombined: small, 1 hash');
+
+    // 2^12 buckets of 5-bit ranks
+    const [large] = decodeStates('AggregateFunction(uniqCombined(12), UInt64)', [3, ...new Array(2560).fill(0)]);
+    expect(large.type).toBe('AggregateFunction(uniqCombined(12), UInt64)');
+    expect(large.children![1]).toMatchObject({ type: 'HyperLogLog', label: 'ranks', byteRange: { start: 1, end: 2561 } });
+  });
+
+  it('decodes quantileTDigest centroids', () => {
+    const [state] = decodeStates('AggregateFunction(quantileTDigest(0.5), Float64)', [2, ...f32(1.5), ...f32(2), ...f32(4), ...f32(1)]);
+    expect(state.type).toBe('AggregateFunction(quantileTDigest(0.5), Float64)');
+    expect(state.metadata).toMatchObject({ functionName: 'quantileTDigest', params: [0.5] });
+    expect(state.displayValue).toBe('TDigest: 2 centroids');
+    expect(state.value).toEqual([
+      { mean: 1.5, count: 2 },
+      { mean: 4, count: 1 },
+    ]);
+    expect(state.children![1].children!.map((c) => c.label)).toEqual(['mean', 'count']);
+  });
+
+  it('decodes optional single values for min, max, any and argMax', () => {
+    const [max, empty] = decodeStates('AggregateFunction(max, UInt8)', [1, 42, 0]);
+    expect(max.displayValue).toBe('max=42');
+    expect(labels(max)).toEqual(['has', 'value']);
+    expect(empty.value).toBeNull();
+
+    // String keeps an Int32 size (-1 = unset), counting the terminating zero
+    const [min, none] = decodeStates('AggregateFunction(min, String)', [...u32(3), 0x61, 0x62, 0x00, ...u32(-1)]);
+    expect(min.value).toBe('ab');
+    expect(none.displayValue).toBe('min=(none)');
+
+    const [argMax] = decodeStates('AggregateFunction(argMax, String, UInt32)', [...u32(2), 0x78, 0x00, 1, ...u32(10)]);
+    expect(labels(argMax)).toEqual(['result', 'value']);
+    expect(argMax.value).toEqual({ result: 'x', value: 10 });
+  });
+
+  it('decodes groupArray elements', () => {
+    const [state] = decodeStates('AggregateFunction(groupArray, String)', [2, ...str('a'), ...str('bc')]);
+    expect(state.value).toEqual(['a', 'bc']);
+    expect(state.displayValue).toBe('groupArray=["a", "bc"]');
+  });
+
+  it('sums into the widened type and resolves combinators', () => {
+    const [sum] = decodeStates('AggregateFunction(sum, UInt8)', u64(300));
+    expect(sum.children![0]).toMatchObject({ type: 'UInt64', value: 300n });
+
+    const [sumIf] = decodeStates('AggregateFunction(sumIf, Int8, UInt8)', u64(5));
+    expect(sumIf.children![0].type).toBe('Int64');
+
+    const [orNull] = decodeStates('AggregateFunction(maxOrNull, UInt8)', [1, 3, 1]);
+    expect(labels(orNull)).toEqual(['has', 'value', 'has_value']);
+  });
+
+  it('writes a flag before the state of Nullable arguments', () => {
+    const [isNull, set] = decodeStates('AggregateFunction(sum, Nullable(UInt8))', [0, 1, ...u64(7)]);
+    expect(isNull.displayValue).toBe('NULL');
+    expect(set.displayValue).toBe('sum=7');
+    expect(labels(set)).toEqual(['not_null', 'sum']);
+  });
+
+  it('keeps an unknown state as one opaque node instead of failing the block', () => {
+    const data = new NativeEncoder().encode([
+      [
+        { name: 'n', type: 'UInt8', values: [1, 2] },
+        { name: 's', type: 'AggregateFunction(uniqHLL12, UInt64)', values: [Uint8Array.of(0, 1, 2), Uint8Array.of(0, 0)] },
+      ],
+    ]);
+    const parsed = createDecoder(data, ClickHouseFormat.Native).decode();
+    const [first, second] = parsed.blocks![0].columns[1].values;
+    expect(first.metadata).toMatchObject({ opaque: true });
+    expect(first.byteRange.end - first.byteRange.start).toBe(5);
+    expect(second.byteRange.start).toBe(second.byteRange.end);
+    expect(parsed.blocks![0].columns[0].values.map((v) => v.value)).toEqual([1, 2]);
+  });
+});
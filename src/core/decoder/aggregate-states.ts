@@ -0,0 +1,487 @@
+import { BinaryReader } from './reader';
+import { decodeLEB128 } from './leb128';
+import { AstNode } from '../types/ast';
+import { ClickHouseType, typeToString } from '../types/clickhouse-types';
+
+/**
+ * AggregateFunction state layouts.
+ *
+ * States are written by each function's own `serialize()` with no length
+ * prefix, so a state can only be read by something that knows its layout.
+ * Layouts are registered per function name; combinator suffixes (-If,
+ * -Array, -State, -OrNull, -OrDefault) are resolved to the function they
+ * wrap, and a state whose layout is unknown becomes one opaque node.
+ */
+
+type AggregateFunctionType = Extract<ClickHouseType, { kind: 'AggregateFunction' }>;
+type AggregateParam = number | string;
+
+/** What a layout needs from the decoder reading the state. */
+export interface AggregateStateReader {
+  reader: BinaryReader;
+  generateId(): string;
+  /** Decode one value of `type` in its binary (RowBinary) serialization */
+  decodeValue(type: ClickHouseType): AstNode;
+}
+
+/** A decoded state: its parts, and the value and text of the state node. */
+export interface AggregateState {
+  children: AstNode[];
+  value: unknown;
+  displayValue: string;
+}
+
+/**
+ * Reads one serialized state. `argTypes` and `params` are those of the
+ * function itself, after combinators are stripped.
+ */
+export type AggregateStateLayout = (
+  r: AggregateStateReader,
+  argTypes: ClickHouseType[],
+  params: AggregateParam[],
+) => AggregateState;
+
+const layouts = new Map<string, AggregateStateLayout>();
+
+/** Register the state layout of one or more aggregate functions (names are case-insensitive). */
+export function registerAggregateState(names: string | string[], layout: AggregateStateLayout): void {
+  for (const name of Array.isArray(names) ? names : [names]) {
+    layouts.set(name.toLowerCase(), layout);
+  }
+}
+
+// --- node helpers ---------------------------------------------------------------
+
+function varUInt(r: AggregateStateReader, label: string): AstNode {
+  const start = r.reader.offset;
+  const { value } = decodeLEB128(r.reader);
+  return {
+    id: r.generateId(),
+    type: 'VarUInt',
+    byteRange: { start, end: r.reader.offset },
+    value,
+    displayValue: String(value),
+    label,
+  };
+}
+
+function valueNode(r: AggregateStateReader, type: ClickHouseType, label: string): AstNode {
+  const node = r.decodeValue(type);
+  node.label = label;
+  return node;
+}
+
+function group(r: AggregateStateReader, type: string, start: number, label: string, state: AggregateState): AstNode {
+  return {
+    id: r.generateId(),
+    type,
+    byteRange: { start, end: r.reader.offset },
+    value: state.value,
+    displayValue: state.displayValue,
+    children: state.children,
+    label,
+  };
+}
+
+/** A VarUInt size, then that many items labelled `[i]`. */
+function sizedList(r: AggregateStateReader, readItem: (label: string) => AstNode): AstNode[] {
+  const size = varUInt(r, 'size');
+  const children = [size];
+  for (let i = 0; i < (size.value as number); i++) {
+    children.push(readItem(`[${i}]`));
+  }
+  return children;
+}
+
+function listState(name: string, children: AstNode[]): AggregateState {
+  const items = children.slice(1);
+  return {
+    children,
+    value: items.map((c) => c.value),
+    displayValue: `${name}=[${items.map((c) => c.displayValue).join(', ')}]`,
+  };
+}
+
+// --- argument types -------------------------------------------------------------
+
+const NUMERIC_KEY_KINDS = new Set<ClickHouseType['kind']>([
+  'UInt8', 'UInt16', 'UInt32', 'UInt64', 'UInt128', 'UInt256',
+  'Int8', 'Int16', 'Int32', 'Int64', 'Int128', 'Int256',
+  'Float32', 'Float64', 'BFloat16', 'Bool',
+  'Date', 'Date32', 'DateTime', 'UUID', 'IPv4', 'IPv6',
+]);
+
+/**
+ * The type sum() accumulates into (and avg()'s numerator, when `forAvg`):
+ * 64-bit for narrower integers, Float64 for floats, Decimal128 for narrower
+ * decimals. avg() widens 128/256-bit integers to Float64.
+ */
+export function aggregateAccumulatorType(argType: ClickHouseType | undefined, forAvg = false): ClickHouseType {
+  if (!argType) return { kind: 'UInt64' };
+  switch (argType.kind) {
+    case 'UInt8':
+    case 'UInt16':
+    case 'UInt32':
+    case 'UInt64':
+    case 'Bool':
+      return { kind: 'UInt64' };
+    case 'Int8':
+    case 'Int16':
+    case 'Int32':
+    case 'Int64':
+      return { kind: 'Int64' };
+    case 'Float32':
+    case 'Float64':
+    case 'BFloat16':
+      return { kind: 'Float64' };
+    case 'Decimal32':
+    case 'Decimal64':
+    case 'Decimal128':
+      return { kind: 'Decimal128', precision: 38, scale: argType.scale };
+    case 'UInt128':
+    case 'UInt256':
+    case 'Int128':
+    case 'Int256':
+      return forAvg ? { kind: 'Float64' } : argType;
+    default:
+      return argType;
+  }
+}
+
+// --- layouts --------------------------------------------------------------------
+
+registerAggregateState('count', (r) => {
+  const count = varUInt(r, 'count');
+  return { children: [count], value: count.value, displayValue: `count=${count.value}` };
+});
+
+registerAggregateState('sum', (r, [argType]) => {
+  const sum = valueNode(r, aggregateAccumulatorType(argType), 'sum');
+  return { children: [sum], value: sum.value, displayValue: `sum=${sum.displayValue}` };
+});
+
+registerAggregateState('sumWithOverflow', (r, [argType]) => {
+  const sum = valueNode(r, argType ?? { kind: 'UInt64' }, 'sum');
+  return { children: [sum], value: sum.value, displayValue: `sum=${sum.displayValue}` };
+});
+
+registerAggregateState('avg', (r, [argType]) => {
+  // numerator in the widened sum type, VarUInt denominator
+  const numerator = valueNode(r, aggregateAccumulatorType(argType, true), 'numerator (sum)');
+  const denominator = varUInt(r, 'denominator (count)');
+  const sum = numerator.value;
+  const count = denominator.value as number;
+  const avg = count > 0 ? Number(sum) / count : 0;
+  return {
+    children: [numerator, denominator],
+    value: { sum, count, avg },
+    displayValue: `avg=${avg.toFixed(2)} (sum=${sum}, count=${count})`,
+  };
+});
+
+/**
+ * min/max/any keep an optional value: a `has` byte and the value when set,
+ * except String, which writes an Int32 size (-1 when unset) and the bytes.
+ */
+function singleValue(r: AggregateStateReader, type: ClickHouseType, label: string): AstNode {
+  const start = r.reader.offset;
+  const children: AstNode[] = [];
+  let value: AstNode | null = null;
+
+  if (type.kind === 'String') {
+    const { value: size, range } = r.reader.readInt32LE();
+    children.push({ id: r.generateId(), type: 'Int32', byteRange: range, value: size, displayValue: String(size), label: 'size' });
+    if (size >= 0) {
+      const bytesStart = r.reader.offset;
+      const { value: bytes } = r.reader.readBytes(size);
+      // Older servers count a terminating zero in the size
+      const text = new TextDecoder().decode(bytes[size - 1] === 0 ? bytes.subarray(0, size - 1) : bytes);
+      value = {
+        id: r.generateId(),
+        type: 'String',
+        byteRange: { start: bytesStart, end: r.reader.offset },
+        value: text,
+        displayValue: `"${text}"`,
+        label: 'value',
+      };
+    }
+  } else {
+    const { value: has, range } = r.reader.readUInt8();
+    children.push({ id: r.generateId(), type: 'UInt8', byteRange: range, value: has, displayValue: String(has), label: 'has' });
+    if (has) value = valueNode(r, type, 'value');
+  }
+  if (value) children.push(value);
+
+  return group(r, `SingleValue(${typeToString(type)})`, start, label, {
+    children,
+    value: value ? value.value : null,
+    displayValue: value ? value.displayValue : '(none)',
+  });
+}
+
+function singleValueLayout(name: string): AggregateStateLayout {
+  return (r, [argType]) => {
+    const node = singleValue(r, argType ?? { kind: 'UInt64' }, name);
+    return { children: node.children!, value: node.value, displayValue: `${name}=${node.displayValue}` };
+  };
+}
+
+for (const name of ['min', 'max', 'any', 'anyLast']) {
+  registerAggregateState(name, singleValueLayout(name));
+}
+registerAggregateState('first_value', singleValueLayout('any'));
+registerAggregateState('last_value', singleValueLayout('anyLast'));
+
+registerAggregateState('anyHeavy', (r, [argType]) => {
+  const node = singleValue(r, argType ?? { kind: 'UInt64' }, 'value');
+  const counter = valueNode(r, { kind: 'UInt64' }, 'counter');
+  return {
+    children: [node, counter],
+    value: node.value,
+    displayValue: `anyHeavy=${node.displayValue} (counter=${counter.displayValue})`,
+  };
+});
+
+function argMinMaxLayout(name: 'argMin' | 'argMax'): AggregateStateLayout {
+  return (r, [resultType, valueType]) => {
+    // The argument kept, then the value it was chosen by
+    const result = singleValue(r, resultType ?? { kind: 'UInt64' }, 'result');
+    const value = singleValue(r, valueType ?? resultType ?? { kind: 'UInt64' }, 'value');
+    return {
+      children: [result, value],
+      value: { result: result.value, value: value.value },
+      displayValue: `${name}=${result.displayValue} (${name === 'argMin' ? 'min' : 'max'}=${value.displayValue})`,
+    };
+  };
+}
+
+registerAggregateState('argMin', argMinMaxLayout('argMin'));
+registerAggregateState('argMax', argMinMaxLayout('argMax'));
+
+registerAggregateState('groupArray', (r, [argType]) =>
+  listState('groupArray', sizedList(r, (label) => valueNode(r, argType ?? { kind: 'UInt64' }, label))),
+);
+
+registerAggregateState('groupArrayLast', (r, [argType]) => {
+  const children = sizedList(r, (label) => valueNode(r, argType ?? { kind: 'UInt64' }, label));
+  const state = listState('groupArrayLast', children);
+  children.push(valueNode(r, { kind: 'UInt64' }, 'total_values'));
+  return state;
+});
+
+registerAggregateState('groupUniqArray', (r, [argType]) => {
+  const type = argType ?? { kind: 'UInt64' };
+  // Non-numeric elements are kept as their serialized bytes, written as a String
+  const elementType: ClickHouseType = NUMERIC_KEY_KINDS.has(type.kind) ? type : { kind: 'String' };
+  return listState('groupUniqArray', sizedList(r, (label) => valueNode(r, elementType, label)));
+});
+
+registerAggregateState('uniqExact', (r, argTypes) => {
+  // A hash set of the values themselves for one numeric argument, else of
+  // their 128-bit SipHash
+  const single = argTypes.length === 1 && NUMERIC_KEY_KINDS.has(argTypes[0].kind);
+  const keyType: ClickHouseType = single ? argTypes[0] : { kind: 'UInt128' };
+  const children = sizedList(r, (label) => valueNode(r, keyType, label));
+  const size = children[0].value as number;
+  return { children, value: size, displayValue: `uniqExact=${size}` };
+});
+
+registerAggregateState('uniq', (r) => {
+  // UniquesHashSet: skip degree, then the stored 32-bit hashes
+  const { value: skipDegree, range } = r.reader.readUInt8();
+  const skip: AstNode = {
+    id: r.generateId(),
+    type: 'UInt8',
+    byteRange: range,
+    value: skipDegree,
+    displayValue: String(skipDegree),
+    label: 'skip_degree',
+  };
+  const hashes = sizedList(r, (label) => valueNode(r, { kind: 'UInt32' }, label));
+  const size = hashes[0].value as number;
+  return {
+    children: [skip, ...hashes],
+    value: { skipDegree, hashes: size },
+    displayValue: `uniq: ${size} hash${size === 1 ? '' : 'es'} (skip_degree=${skipDegree})`,
+  };
+});
+
+const UNIQ_COMBINED_CONTAINERS: Record<number, string> = { 1: 'small', 2: 'medium', 3: 'large' };
+
+function uniqCombinedLayout(name: string, hashBits: 32 | 64): AggregateStateLayout {
+  return (r, _argTypes, params) => {
+    const precision = typeof params[0] === 'number' ? params[0] : 17;
+    const { value: containerType, range } = r.reader.readUInt8();
+    const container = UNIQ_COMBINED_CONTAINERS[containerType];
+    if (!container) {
+      throw new Error(`${name}: unknown container type ${containerType} at offset ${range.start}`);
+    }
+    const children: AstNode[] = [
+      { id: r.generateId(), type: 'UInt8', byteRange: range, value: containerType, displayValue: container, label: 'container' },
+    ];
+
+    if (container !== 'large') {
+      // Small array or hash set of value hashes
+      const keyType: ClickHouseType = { kind: hashBits === 32 ? 'UInt32' : 'UInt64' };
+      children.push(...sizedList(r, (label) => valueNode(r, keyType, label)));
+      const size = children[1].value as number;
+      return { children, value: { container, hashes: size }, displayValue: `${name}: ${container}, ${size} hash${size === 1 ? '' : 'es'}` };
+    }
+
+    // HyperLogLog: 2^precision packed bucket ranks of 5 (32-bit hash) or 6 bits
+    const buckets = 2 ** precision;
+    const rankBits = hashBits === 32 ? 5 : 6;
+    const start = r.reader.offset;
+    const { value: bytes } = r.reader.readBytes(Math.ceil((buckets * rankBits) / 8));
+    children.push({
+      id: r.generateId(),
+      type: 'HyperLogLog',
+      byteRange: { start, end: r.reader.offset },
+      value: bytes,
+      displayValue: `${buckets} buckets × ${rankBits} bits`,
+      label: 'ranks',
+      metadata: { precision, rankBits },
+    });
+    return { children, value: { container, buckets }, displayValue: `${name}: HyperLogLog, ${buckets} buckets` };
+  };
+}
+
+registerAggregateState('uniqCombined', uniqCombinedLayout('uniqCombined', 32));
+registerAggregateState('uniqCombined64', uniqCombinedLayout('uniqCombined64', 64));
+
+registerAggregateState(
+  ['quantileTDigest', 'quantilesTDigest', 'medianTDigest', 'quantileTDigestWeighted', 'quantilesTDigestWeighted', 'medianTDigestWeighted'],
+  (r) => {
+    // Compressed centroids, each a Float32 mean and a Float32 weight
+    const children = sizedList(r, (label) => {
+      const start = r.reader.offset;
+      const mean = valueNode(r, { kind: 'Float32' }, 'mean');
+      const count = valueNode(r, { kind: 'Float32' }, 'count');
+      return group(r, 'TDigest.Centroid', start, label, {
+        children: [mean, count],
+        value: { mean: mean.value, count: count.value },
+        displayValue: `mean=${mean.displayValue}, count=${count.displayValue}`,
+      });
+    });
+    const size = children[0].value as number;
+    return {
+      children,
+      value: children.slice(1).map((c) => c.value),
+      displayValue: `TDigest: ${size} centroid${size === 1 ? '' : 's'}`,
+    };
+  },
+);
+
+registerAggregateState(
+  ['quantileExact', 'quantilesExact', 'medianExact', 'quantileExactLow', 'quantilesExactLow', 'medianExactLow',
+    'quantileExactHigh', 'quantilesExactHigh', 'medianExactHigh'],
+  (r, [argType]) => listState('values', sizedList(r, (label) => valueNode(r, argType ?? { kind: 'Float64' }, label))),
+);
+
+// --- combinators ----------------------------------------------------------------
+
+type StateReader = (r: AggregateStateReader) => AggregateState;
+
+interface Combinator {
+  suffix: string;
+  /** Argument types of the wrapped function */
+  nestedArgs(argTypes: ClickHouseType[]): ClickHouseType[] | null;
+  /** Bytes the combinator adds around the wrapped state, if any */
+  wrap?(r: AggregateStateReader, nested: StateReader): AggregateState;
+}
+
+/** -OrNull/-OrDefault write a flag byte after the state: whether any row was aggregated. */
+function withTrailingFlag(r: AggregateStateReader, nested: StateReader): AggregateState {
+  const state = nested(r);
+  const { value: flag, range } = r.reader.readUInt8();
+  return {
+    children: [
+      ...state.children,
+      { id: r.generateId(), type: 'UInt8', byteRange: range, value: flag, displayValue: String(flag), label: 'has_value' },
+    ],
+    value: flag ? state.value : null,
+    displayValue: flag ? state.displayValue : `${state.displayValue} (no rows)`,
+  };
+}
+
+const COMBINATORS: Combinator[] = [
+  { suffix: 'If', nestedArgs: (args) => (args.length > 0 ? args.slice(0, -1) : null) },
+  {
+    suffix: 'Array',
+    nestedArgs: (args) => (args.every((a) => a.kind === 'Array') ? args.map((a) => (a.kind === 'Array' ? a.element : a)) : null),
+  },
+  { suffix: 'State', nestedArgs: (args) => args },
+  { suffix: 'OrNull', nestedArgs: (args) => args, wrap: withTrailingFlag },
+  { suffix: 'OrDefault', nestedArgs: (args) => args, wrap: withTrailingFlag },
+];
+
+function resolve(name: string, params: AggregateParam[], argTypes: ClickHouseType[]): StateReader | null {
+  const layout = layouts.get(name.toLowerCase());
+  if (layout) return (r) => layout(r, argTypes, params);
+
+  for (const combinator of COMBINATORS) {
+    if (name.length <= combinator.suffix.length || !name.endsWith(combinator.suffix)) continue;
+    const args = combinator.nestedArgs(argTypes);
+    const nested = args && resolve(name.slice(0, -combinator.suffix.length), params, args);
+    if (nested) return combinator.wrap ? (r) => combinator.wrap!(r, nested) : nested;
+  }
+  return null;
+}
+
+/**
+ * Nullable arguments wrap the state in a flag byte, followed by the state of
+ * the function over the non-Nullable types only when set. count() handles
+ * NULLs itself and writes no flag.
+ */
+function resolveNullable(name: string, params: AggregateParam[], argTypes: ClickHouseType[]): StateReader | null {
+  if (!argTypes.some((a) => a.kind === 'Nullable') || name.toLowerCase() === 'count') {
+    return resolve(name, params, argTypes);
+  }
+  const nested = resolve(name, params, argTypes.map((a) => (a.kind === 'Nullable' ? a.inner : a)));
+  if (!nested) return null;
+  return (r) => {
+    const { value: flag, range } = r.reader.readUInt8();
+    const flagNode: AstNode = { id: r.generateId(), type: 'UInt8', byteRange: range, value: flag, displayValue: String(flag), label: 'not_null' };
+    if (!flag) return { children: [flagNode], value: null, displayValue: 'NULL' };
+    const state = nested(r);
+    return { ...state, children: [flagNode, ...state.children] };
+  };
+}
+
+/**
+ * Decode one AggregateFunction state. A function without a known layout
+ * cannot be skipped (its size is not written), so its node takes every
+ * remaining byte of the buffer, flagged `metadata.opaque`.
+ */
+export function decodeAggregateState(r: AggregateStateReader, type: AggregateFunctionType): AstNode {
+  const start = r.reader.offset;
+  const params = type.params ?? [];
+  const read = resolveNullable(type.functionName, params, type.argTypes);
+
+  let state: AggregateState;
+  if (read) {
+    state = read(r);
+  } else {
+    const { value: bytes } = r.reader.readBytes(r.reader.remaining);
+    state = {
+      children: [],
+      value: bytes,
+      displayValue: `opaque state (no layout for ${type.functionName}): ${bytes.length} bytes to the end of the data`,
+    };
+  }
+
+  return {
+    id: r.generateId(),
+    type: typeToString(type),
+    byteRange: { start, end: r.reader.offset },
+    value: state.value,
+    displayValue: state.displayValue,
+    children: state.children,
+    metadata: {
+      functionName: type.functionName,
+      argTypes: type.argTypes.map(typeToString).join(', '),
+      ...(params.length > 0 ? { params } : {}),
+      ...(read ? {} : { opaque: true }),
+    },
+  };
+}
@@ -1,17 +1,69 @@
 import { BinaryReader } from './reader';
 import { decodeLEB128 } from './leb128';
-import { AstNode, ParsedData } from '../types/ast';
+import { AstNode, ByteRange, Diagnostic, ParsedData } from '../types/ast';
 import { ClickHouseFormat } from '../types/formats';
 
+/** Type of the node covering the bytes a decoder could not decode */
+export const DECODE_ERROR_TYPE = 'DecodeError';
+
+/** What a DecodeError node records about the failure */
+export interface DecodeErrorDetails {
+  /** Where the reader was when decoding failed */
+  offset: number;
+  /** The value being decoded, e.g. a column type or `Native.BlockHeader` */
+  expectedType: string;
+  reason: string;
+}
+
+/**
+ * Byte ranges no decoder got through: DecodeError nodes of a raw decode and
+ * the error nodes a protocol decode emits per stream.
+ */
+export function undecodedRanges(parsed: ParsedData): ByteRange[] {
+  const ranges: ByteRange[] = [];
+  const visit = (node: AstNode) => {
+    if (node.type === DECODE_ERROR_TYPE || node.type === 'Protocol.DecodeError') {
+      ranges.push(node.byteRange);
+      return;
+    }
+    node.children?.forEach(visit);
+  };
+  parsed.trailingNodes?.forEach(visit);
+  return ranges;
+}
+
+/**
+ * Where a decoder's buffer sits in a longer stream decoded window by window
+ * (see stream-decoder): byte offsets start at `origin`, node ids at
+ * `firstNodeId` and row / block indices at `firstIndex`, continuing the
+ * windows before it.
+ */
+export interface StreamWindow {
+  origin: number;
+  firstNodeId: number;
+  firstIndex: number;
+}
+
 /**
  * Abstract base class for format-specific decoders
  */
 export abstract class FormatDecoder {
   protected reader: BinaryReader;
-  protected nodeIdCounter = 0;
+  protected nodeIdCounter: number;
+  protected readonly firstIndex: number;
+  /** Start and type of the value being decoded, reported if decoding fails inside it */
+  protected expecting: { start: number; type: string };
 
-  constructor(data: Uint8Array) {
-    this.reader = new BinaryReader(data);
+  constructor(data: Uint8Array, window?: StreamWindow) {
+    this.reader = new BinaryReader(data, window?.origin);
+    this.nodeIdCounter = window?.firstNodeId ?? 0;
+    this.firstIndex = window?.firstIndex ?? 0;
+    this.expecting = { start: this.reader.offset, type: '' };
+  }
+
+  /** Id the next node would get; where the next window continues */
+  get nextNodeId(): number {
+    return this.nodeIdCounter;
   }
 
   /** Format identifier */
@@ -53,4 +105,44 @@ export abstract class FormatDecoder {
       label,
     };
   }
+
+  /** Record the value about to be decoded, so a failure inside it can name it */
+  protected markExpected(type: string, start: number = this.reader.offset): void {
+    this.expecting = { start, type };
+  }
+
+  /**
+   * Error node for a failed decode, spanning from the start of the value that
+   * failed to the end of the buffer, and the diagnostic pointing at it. What
+   * decoded before that stays in the result.
+   */
+  protected decodeFailure(err: unknown): { node: AstNode; diagnostic: Diagnostic } {
+    const details: DecodeErrorDetails = {
+      offset: Math.min(this.reader.offset, this.reader.end),
+      expectedType: this.expecting.type,
+      // DataView reads past the end throw RangeError with an unhelpful message
+      reason: err instanceof RangeError ? 'unexpected end of data' : err instanceof Error ? err.message : String(err),
+    };
+    const byteRange = { start: Math.min(this.expecting.start, this.reader.end), end: this.reader.end };
+    const node: AstNode = {
+      id: 'decode-error',
+      type: DECODE_ERROR_TYPE,
+      byteRange,
+      value: details,
+      displayValue: `${details.expectedType} at byte ${details.offset}: ${details.reason}`,
+      label: 'decode_error',
+      metadata: { ...details },
+    };
+    const undecoded = byteRange.end - byteRange.start;
+    return {
+      node,
+      diagnostic: {
+        severity: 'error',
+        code: 'decode.incomplete',
+        message: `Decoding stopped at byte ${details.offset} in ${details.expectedType}: ${details.reason} (${undecoded} byte${undecoded === 1 ? '' : 's'} not decoded)`,
+        nodeId: node.id,
+        byteRange,
+      },
+    };
+  }
 }
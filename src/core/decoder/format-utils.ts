@@ -34,3 +34,20 @@ export function formatIPv6(groups: number[]): string {
   const tail = groups.slice(bestStart + bestLen).map((g) => g.toString(16));
   return `${head.join(':')}::${tail.join(':')}`;
 }
+
+/**
+ * Format the 16 bytes of a ClickHouse UUID. They are stored as two
+ * little-endian UInt64 halves, high half first, so each half is reversed:
+ * wire E7 11 B3 5C 04 C4 F0 61 A0 DB D3 6A 00 A6 7B 90 is
+ * 61f0c404-5cb3-11e7-907b-a6006ad3dba0.
+ */
+export function formatUUID(bytes: Uint8Array): string {
+  const hex = (from: number, to: number) => {
+    let out = '';
+    for (let i = from; i >= to; i--) out += bytes[i].toString(16).padStart(2, '0');
+    return out;
+  };
+  const high = hex(7, 0);
+  const low = hex(15, 8);
+  return `${high.slice(0, 8)}-${high.slice(8, 12)}-${high.slice(12)}-${low.slice(0, 4)}-${low.slice(4)}`;
+}
@@ -0,0 +1,33 @@
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { decodeHttpResponse } from './http-response';
+import { ClickHouseFormat, HttpCompression } from '../types/formats';
+
+const enc = (s: string) => [...s].map((c) => c.charCodeAt(0));
+// Single column `x UInt8` with rows [1, 2].
+const NATIVE_BODY = new Uint8Array([0x01, 0x02, 0x01, ...enc('x'), 0x05, ...enc('UInt8'), 0x01, 0x02]);
+
+describe('decodeHttpResponse', () => {
+  it('returns the wire frames and the decoded body of a compressed response', () => {
+    const wireBytes = new Uint8Array(gzipSync(NATIVE_BODY));
+    const layers = decodeHttpResponse(wireBytes, ClickHouseFormat.Native, { compression: HttpCompression.Gzip });
+
+    expect(layers.wire?.data).toBe(wireBytes);
+    expect(layers.wire?.parsed.metadata).toMatchObject({
+      layer: 'wire',
+      compression: HttpCompression.Gzip,
+      decompressedBytes: NATIVE_BODY.length,
+    });
+    expect(layers.wire?.parsed.trailingNodes?.[0].type).toBe('Compression.GzipMember');
+    expect(layers.body.data).toEqual(NATIVE_BODY);
+    expect(layers.body.parsed.blocks?.[0].columns[0].values.map((v) => v.value)).toEqual([1, 2]);
+  });
+
+  it('decodes a plain body when the server ignored the compression request', () => {
+    const layers = decodeHttpResponse(NATIVE_BODY, ClickHouseFormat.Native, { compression: HttpCompression.Zstd });
+
+    expect(layers.wire).toBeNull();
+    expect(layers.body.data).toBe(NATIVE_BODY);
+    expect(layers.body.parsed.blocks).toHaveLength(1);
+  });
+});
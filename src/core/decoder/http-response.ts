@@ -0,0 +1,71 @@
+import { ParsedData } from '../types/ast';
+import { ClickHouseFormat, HttpCompression } from '../types/formats';
+import { looksCompressed, readHttpWireLayer } from '../compression/http-body';
+import { SchemaColumn } from '../parser/schema-parser';
+import { createDecoder } from './index';
+
+export interface DecodedLayer {
+  /** Buffer every AstNode.byteRange of `parsed` indexes into. */
+  data: Uint8Array;
+  parsed: ParsedData;
+}
+
+export interface HttpResponseLayers {
+  /** Requested compression; `wire` is null when the server sent a plain body anyway. */
+  compression: HttpCompression;
+  /** The compressed bytes as received, decoded down to frames / blocks. */
+  wire: DecodedLayer | null;
+  /** The decompressed Native / RowBinary body. */
+  body: DecodedLayer;
+}
+
+/**
+ * Take an HTTP response body out of its compression. The wire layer is a
+ * ParsedData whose trailingNodes are the container frames (metadata.layer is
+ * 'wire'); it is null, and the body is `data` itself, when the body is plain.
+ */
+export function unwrapHttpResponse(
+  data: Uint8Array,
+  format: ClickHouseFormat,
+  compression: HttpCompression,
+): { wire: DecodedLayer | null; body: Uint8Array } {
+  let wire: DecodedLayer | null = null;
+  let body = data;
+
+  if (compression !== HttpCompression.None && looksCompressed(data, compression)) {
+    let idCounter = 0;
+    const layer = readHttpWireLayer(data, compression, () => `wire-${idCounter++}`);
+    const zero = { start: 0, end: 0 };
+    wire = {
+      data,
+      parsed: {
+        format,
+        header: { byteRange: zero, columnCount: 0, columnCountRange: zero, columns: [] },
+        totalBytes: data.length,
+        trailingNodes: layer.nodes,
+        metadata: { layer: 'wire', compression, decompressedBytes: layer.body.length },
+      },
+    };
+    body = layer.body;
+  }
+  return { wire, body };
+}
+
+/**
+ * Decode an HTTP response body that may be compressed: the wire layer as
+ * unwrapHttpResponse reads it, and the body layer the format decoder produced
+ * from the decompressed bytes.
+ */
+export function decodeHttpResponse(
+  data: Uint8Array,
+  format: ClickHouseFormat,
+  options: { compression?: HttpCompression; nativeProtocolVersion?: number; schema?: SchemaColumn[] } = {},
+): HttpResponseLayers {
+  const compression = options.compression ?? HttpCompression.None;
+  const { wire, body } = unwrapHttpResponse(data, format, compression);
+  const parsed = createDecoder(body, format, {
+    nativeProtocolVersion: options.nativeProtocolVersion,
+    schema: options.schema,
+  }).decode();
+  return { compression, wire, body: { data: body, parsed } };
+}
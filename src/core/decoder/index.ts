@@ -4,13 +4,21 @@ import { RowBinaryDecoder } from './rowbinary-decoder';
 import { NativeDecoder } from './native-decoder';
 import { ProtocolDecoder } from './protocol-decoder';
 import { DEFAULT_NATIVE_PROTOCOL_VERSION } from '../types/native-protocol';
+import { SchemaColumn } from '../parser/schema-parser';
 
 // Re-export types and classes
 export { FormatDecoder } from './format-decoder';
 export { RowBinaryDecoder } from './rowbinary-decoder';
+export type { RowBinaryFormat } from './rowbinary-decoder';
 export { NativeDecoder } from './native-decoder';
 export { ProtocolDecoder } from './protocol-decoder';
 export type { ProtocolCapture } from './protocol-decoder';
+export { exchangesOf, selectExchange } from './protocol-exchanges';
+export type { ExchangeStatus, ProtocolExchange } from './protocol-exchanges';
+export { LOG_PRIORITIES, profileEventsOf, serverLogOf } from './protocol-events';
+export type { ProfileEventTotal, ProfileEventType, ServerLogEntry } from './protocol-events';
+export { decodeStream, materializeBlock, StreamCollector } from './stream-decoder';
+export type { ByteSource, StreamItem, StreamOptions } from './stream-decoder';
 export { BinaryReader } from './reader';
 export { decodeLEB128, decodeLEB128BigInt } from './leb128';
 
@@ -25,15 +33,22 @@ export interface Decoder {
  * For NativeProtocol the `data` is the concatenated [c2s][s2c] capture buffer
  * and `options.protocolC2SLength` is the split point (length of the
  * client→server portion).
+ *
+ * RowBinary, RowBinaryWithNames and RowBinaryWithDefaults take their column
+ * types from `options.schema` (see parseSchema).
  */
 export function createDecoder(
   data: Uint8Array,
   format: ClickHouseFormat,
-  options?: { nativeProtocolVersion?: number; protocolC2SLength?: number },
+  options?: { nativeProtocolVersion?: number; protocolC2SLength?: number; schema?: SchemaColumn[] },
 ): Decoder {
   switch (format) {
     case ClickHouseFormat.RowBinaryWithNamesAndTypes:
       return new RowBinaryDecoder(data);
+    case ClickHouseFormat.RowBinary:
+    case ClickHouseFormat.RowBinaryWithNames:
+    case ClickHouseFormat.RowBinaryWithDefaults:
+      return new RowBinaryDecoder(data, format, options?.schema);
     case ClickHouseFormat.Native:
       return new NativeDecoder(data, options?.nativeProtocolVersion ?? DEFAULT_NATIVE_PROTOCOL_VERSION);
     case ClickHouseFormat.NativeProtocol:
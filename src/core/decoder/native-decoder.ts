@@ -1,9 +1,10 @@
-import { FormatDecoder } from './format-decoder';
+import { FormatDecoder, StreamWindow } from './format-decoder';
+import { decodeAggregateState } from './aggregate-states';
 import { BinaryReader } from './reader';
-import { formatIPv6 } from './format-utils';
+import { formatIPv6, formatUUID } from './format-utils';
 import { decodeLEB128, decodeLEB128BigInt } from './leb128';
 import { parseType } from '../parser/type-parser';
-import { ClickHouseType, typeToString } from '../types/clickhouse-types';
+import { ClickHouseType, simpleAggregateValueType, typeToString } from '../types/clickhouse-types';
 import {
   AstNode,
   BlockColumnNode,
@@ -11,6 +12,7 @@ import {
   BlockNode,
   ByteRange,
   ColumnDefinition,
+  Diagnostic,
   HeaderNode,
   NativeBlockInfo,
   NativeBlockInfoField,
@@ -27,6 +29,60 @@ interface DecodedColumnData {
   prefixNodes: AstNode[];
 }
 
+/** Blocks decoded from one window of a Native stream */
+export interface NativeWindow {
+  blocks: BlockNode[];
+  /** Id of each block's first generated node, parallel to `blocks` */
+  firstNodeIds: number[];
+  /** The terminal block, or the DecodeError node of a final window that failed */
+  trailingNodes: AstNode[];
+  diagnostics: Diagnostic[];
+  /** Stream offset just past the last block decoded; the next window starts here */
+  end: number;
+  /** Nothing more to decode: a terminal block, a failure or the end of a final window */
+  done: boolean;
+}
+
+/** A block that failed part-way, carrying the columns decoded before the failure */
+class PartialBlockError extends Error {
+  constructor(
+    readonly block: BlockNode,
+    readonly reason: unknown,
+  ) {
+    super(reason instanceof Error ? reason.message : String(reason));
+    this.name = 'PartialBlockError';
+  }
+}
+
+/** The ParsedData header of a Native decode: the first block's columns */
+export function nativeHeader(blocks: BlockNode[]): HeaderNode {
+  if (blocks.length === 0) {
+    return {
+      byteRange: { start: 0, end: 0 },
+      columnCount: 0,
+      columnCountRange: { start: 0, end: 0 },
+      columns: [],
+    };
+  }
+
+  const firstBlock = blocks[0];
+  const columns: ColumnDefinition[] = firstBlock.columns.map((col) => ({
+    name: col.name,
+    nameByteRange: col.nameByteRange,
+    type: col.type,
+    typeString: col.typeString,
+    typeByteRange: col.typeByteRange,
+  }));
+
+  return {
+    byteRange: { start: 0, end: firstBlock.columns[0]?.metadataByteRange.end ?? 0 },
+    columnCount: columns.length,
+    // For Native format, column count is per-block, use first block's range
+    columnCountRange: firstBlock.header.numColumnsRange,
+    columns,
+  };
+}
+
 /**
  * Native format decoder (column-oriented with blocks)
  *
@@ -44,14 +100,19 @@ export class NativeDecoder extends FormatDecoder {
   readonly format = ClickHouseFormat.Native;
   private readonly protocolVersion: number;
 
-  constructor(data: Uint8Array, protocolVersion: number = 0) {
-    super(data);
+  constructor(data: Uint8Array, protocolVersion: number = 0, window?: StreamWindow) {
+    super(data, window);
     this.protocolVersion = protocolVersion;
   }
 
+  /**
+   * Decode all blocks. Bad or truncated data does not throw: the blocks (and
+   * the columns of a block) decoded before it are returned with a DecodeError
+   * node covering the rest of the buffer.
+   */
   decode(): ParsedData {
-    const { blocks, trailingNodes } = this.decodeBlocks();
-    const header = this.buildHeaderFromBlocks(blocks);
+    const { blocks, trailingNodes, diagnostics } = this.decodeWindow(true);
+    const header = nativeHeader(blocks);
 
     return {
       format: this.format,
@@ -59,6 +120,7 @@ export class NativeDecoder extends FormatDecoder {
       blocks,
       trailingNodes,
       totalBytes: this.reader.length,
+      ...(diagnostics.length > 0 ? { diagnostics } : {}),
     };
   }
 
@@ -68,9 +130,14 @@ export class NativeDecoder extends FormatDecoder {
    * protocol decoder to render the Block carried inside a Data / Totals /
    * Extremes / Log / ProfileEvents packet. Block and column AST node ids embed
    * `index`, so the caller must pass a value unique across the whole stream.
+   * A failure is rethrown as the error that stopped the block.
    */
   decodeProtocolBlock(index: number): BlockNode {
-    return this.decodeBlock(index, { readColumnsWhenZeroRows: true });
+    try {
+      return this.decodeBlock(index, { readColumnsWhenZeroRows: true });
+    } catch (err) {
+      throw err instanceof PartialBlockError ? err.reason : err;
+    }
   }
 
   /**
@@ -82,13 +149,39 @@ export class NativeDecoder extends FormatDecoder {
     return this.reader;
   }
 
-  private decodeBlocks(): { blocks: BlockNode[]; trailingNodes: AstNode[] } {
+  /**
+   * Decode the blocks of one window of a stream. A final window is decoded
+   * like decode() does; otherwise only the complete blocks at its front are,
+   * stopping before the first one that fails so the next window can retry it
+   * with more bytes.
+   */
+  decodeWindow(final: boolean): NativeWindow {
     const blocks: BlockNode[] = [];
+    const firstNodeIds: number[] = [];
     const trailingNodes: AstNode[] = [];
-    let blockIndex = 0;
+    const diagnostics: Diagnostic[] = [];
+    let blockIndex = this.firstIndex;
+    let end = this.reader.offset;
 
     while (this.reader.remaining > 0) {
-      const block = this.decodeBlock(blockIndex);
+      const firstNodeId = this.nodeIdCounter;
+      let block: BlockNode;
+      try {
+        block = this.decodeBlock(blockIndex);
+      } catch (err) {
+        if (!final) {
+          this.nodeIdCounter = firstNodeId;
+          return { blocks, firstNodeIds, trailingNodes, diagnostics, end, done: false };
+        }
+        if (err instanceof PartialBlockError) {
+          blocks.push(err.block);
+          firstNodeIds.push(firstNodeId);
+        }
+        const { node, diagnostic } = this.decodeFailure(err instanceof PartialBlockError ? err.reason : err);
+        trailingNodes.push(node);
+        diagnostics.push(diagnostic);
+        return { blocks, firstNodeIds, trailingNodes, diagnostics, end: this.reader.end, done: true };
+      }
 
       // Empty block (0 columns or 0 rows) signals end
       if (block.columns.length === 0 || block.rowCount === 0) {
@@ -101,18 +194,21 @@ export class NativeDecoder extends FormatDecoder {
           label: 'terminal_block',
           children: [block.header.astNode],
         });
-        break;
+        return { blocks, firstNodeIds, trailingNodes, diagnostics, end: this.reader.offset, done: true };
       }
 
       blocks.push(block);
+      firstNodeIds.push(firstNodeId);
       blockIndex++;
+      end = this.reader.offset;
     }
 
-    return { blocks, trailingNodes };
+    return { blocks, firstNodeIds, trailingNodes, diagnostics, end, done: final };
   }
 
   private decodeBlock(index: number, opts?: { readColumnsWhenZeroRows?: boolean }): BlockNode {
     const startOffset = this.reader.offset;
+    this.markExpected('Native.BlockHeader');
     const blockInfoResult = this.protocolVersion > 0 ? this.decodeBlockInfo(index) : undefined;
     const blockInfo = blockInfoResult?.blockInfo;
 
@@ -195,8 +291,12 @@ export class NativeDecoder extends FormatDecoder {
     // Decode each column
     const columns: BlockColumnNode[] = [];
     for (let i = 0; i < numColumns; i++) {
-      const column = this.decodeBlockColumn(index, i, numRows);
-      columns.push(column);
+      try {
+        columns.push(this.decodeBlockColumn(index, i, numRows));
+      } catch (err) {
+        const partial = { index, byteRange: { start: startOffset, end: this.expecting.start }, header, rowCount: numRows, columns };
+        throw new PartialBlockError(partial, err);
+      }
     }
 
     return {
@@ -212,6 +312,7 @@ export class NativeDecoder extends FormatDecoder {
     const columnId = `block-${blockIndex}-col-${columnIndex}`;
     // Read column name
     const nameStart = this.reader.offset;
+    this.markExpected('Native.ColumnMeta');
     const { value: nameLen } = decodeLEB128(this.reader);
     const { value: nameBytes } = this.reader.readBytes(nameLen);
     const name = TEXT_DECODER.decode(nameBytes);
@@ -261,8 +362,9 @@ export class NativeDecoder extends FormatDecoder {
       children: metadataChildren,
     };
 
-    // Read column data
+    // Read column data; a failure in it spans from the column's name
     const dataStart = this.reader.offset;
+    this.markExpected(typeString, nameStart);
     const { values, prefixNodes } = this.decodeColumnData(type, rowCount, serializationInfo);
     const dataByteRange: ByteRange = { start: dataStart, end: this.reader.offset };
 
@@ -318,7 +420,9 @@ export class NativeDecoder extends FormatDecoder {
       // Geometry - Variant of geo types
       case 'Geometry':
         return { values: this.decodeGeometryColumn(rowCount), prefixNodes: [] };
-      // Geo types - Array-based
+      // Geo types - Tuple- and Array-based
+      case 'Point':
+        return { values: this.decodePointColumn(rowCount), prefixNodes: [] };
       case 'Ring':
         return { values: this.decodeRingColumn(rowCount), prefixNodes: [] };
       case 'Polygon':
@@ -332,7 +436,11 @@ export class NativeDecoder extends FormatDecoder {
       case 'QBit':
         return { values: this.decodeQBitColumn(type.element, type.dimension, rowCount), prefixNodes: [] };
       case 'AggregateFunction':
-        return { values: this.decodeAggregateFunctionColumn(type.functionName, type.argTypes, rowCount), prefixNodes: [] };
+        return { values: this.decodeAggregateFunctionColumn(type, rowCount), prefixNodes: [] };
+      case 'SimpleAggregateFunction':
+        return this.decodeSimpleAggregateFunctionColumn(type, rowCount);
+      case 'Object':
+        return this.decodeObjectColumn(type, rowCount);
     }
 
     // Simple types: decode rowCount values sequentially
@@ -989,7 +1097,14 @@ export class NativeDecoder extends FormatDecoder {
 
       // AggregateFunction
       case 'AggregateFunction':
-        return this.decodeAggregateFunction(type.functionName, type.argTypes);
+        return this.decodeAggregateFunction(type);
+
+      // SimpleAggregateFunction - stored as the function's value type
+      case 'SimpleAggregateFunction': {
+        const node = this.decodeValue(simpleAggregateValueType(type));
+        node.type = typeToString(type);
+        return node;
+      }
 
       // Interval types (all stored as Int64)
       case 'IntervalNanosecond':
@@ -1147,34 +1262,6 @@ export class NativeDecoder extends FormatDecoder {
     };
   }
 
-  private buildHeaderFromBlocks(blocks: BlockNode[]): HeaderNode {
-    if (blocks.length === 0) {
-      return {
-        byteRange: { start: 0, end: 0 },
-        columnCount: 0,
-        columnCountRange: { start: 0, end: 0 },
-        columns: [],
-      };
-    }
-
-    const firstBlock = blocks[0];
-    const columns: ColumnDefinition[] = firstBlock.columns.map((col) => ({
-      name: col.name,
-      nameByteRange: col.nameByteRange,
-      type: col.type,
-      typeString: col.typeString,
-      typeByteRange: col.typeByteRange,
-    }));
-
-    return {
-      byteRange: { start: 0, end: firstBlock.columns[0]?.metadataByteRange.end ?? 0 },
-      columnCount: columns.length,
-      // For Native format, column count is per-block, use first block's range
-      columnCountRange: firstBlock.header.numColumnsRange,
-      columns,
-    };
-  }
-
   private createDefaultNode(type: ClickHouseType, rowIndex: number): AstNode {
     const typeName = typeToString(type);
     const byteRange = { start: this.reader.offset, end: this.reader.offset };
@@ -1206,6 +1293,11 @@ export class NativeDecoder extends FormatDecoder {
       case 'String':
       case 'FixedString':
         return this.createDefaultValueNode(typeName, '', '""', rowIndex, byteRange);
+      case 'SimpleAggregateFunction': {
+        const node = this.createDefaultNode(simpleAggregateValueType(type), rowIndex);
+        node.type = typeName;
+        return node;
+      }
       default:
         throw new Error(`Native format: sparse default materialization not supported for ${typeName}`);
     }
@@ -1589,31 +1681,7 @@ export class NativeDecoder extends FormatDecoder {
   private decodeUUID(): AstNode {
     const { value: bytes, range } = this.reader.readBytes(16);
 
-    // ClickHouse UUID has special byte ordering
-    const hex = (b: number) => b.toString(16).padStart(2, '0');
-
-    const uuid = [
-      hex(bytes[7]),
-      hex(bytes[6]),
-      hex(bytes[5]),
-      hex(bytes[4]),
-      '-',
-      hex(bytes[3]),
-      hex(bytes[2]),
-      '-',
-      hex(bytes[1]),
-      hex(bytes[0]),
-      '-',
-      hex(bytes[15]),
-      hex(bytes[14]),
-      '-',
-      hex(bytes[13]),
-      hex(bytes[12]),
-      hex(bytes[11]),
-      hex(bytes[10]),
-      hex(bytes[9]),
-      hex(bytes[8]),
-    ].join('');
+    const uuid = formatUUID(bytes);
 
     return {
       id: this.generateId(),
@@ -1757,9 +1825,7 @@ export class NativeDecoder extends FormatDecoder {
       children.push(child);
     }
 
-    const typeStr = names
-      ? `Tuple(${elements.map((e, i) => `${names[i]} ${typeToString(e)}`).join(', ')})`
-      : `Tuple(${elements.map(typeToString).join(', ')})`;
+    const typeStr = typeToString({ kind: 'Tuple', elements, names });
 
     return {
       id: this.generateId(),
@@ -1777,9 +1843,7 @@ export class NativeDecoder extends FormatDecoder {
    * - For Tuple(A, B) with N rows: A0, A1, ..., A(N-1), B0, B1, ..., B(N-1)
    */
   private decodeTupleColumn(elements: ClickHouseType[], names: string[] | undefined, rowCount: number): AstNode[] {
-    const typeStr = names
-      ? `Tuple(${elements.map((e, i) => `${names[i]} ${typeToString(e)}`).join(', ')})`
-      : `Tuple(${elements.map(typeToString).join(', ')})`;
+    const typeStr = typeToString({ kind: 'Tuple', elements, names });
 
     // Read all values for each element type
     const elementColumns: AstNode[][] = [];
@@ -1971,7 +2035,7 @@ export class NativeDecoder extends FormatDecoder {
       elements: fields.map((f) => f.type),
       names: fields.map((f) => f.name),
     };
-    const typeStr = `Nested(${fields.map((f) => `${f.name} ${typeToString(f.type)}`).join(', ')})`;
+    const typeStr = typeToString({ kind: 'Nested', fields });
     const values = this.decodeArrayColumn(elementType, rowCount);
     for (const node of values) {
       node.type = typeStr;
@@ -4109,6 +4173,36 @@ export class NativeDecoder extends FormatDecoder {
   // Geo type column decoders
   // =========================================
 
+  /**
+   * Point = Tuple(Float64, Float64) in columnar format: all X's, then all Y's
+   */
+  private decodePointColumn(rowCount: number): AstNode[] {
+    const allX: AstNode[] = [];
+    for (let i = 0; i < rowCount; i++) {
+      allX.push(this.decodeFloat64());
+    }
+    const allY: AstNode[] = [];
+    for (let i = 0; i < rowCount; i++) {
+      allY.push(this.decodeFloat64());
+    }
+
+    const points: AstNode[] = [];
+    for (let i = 0; i < rowCount; i++) {
+      allX[i].label = 'x';
+      allY[i].label = 'y';
+      points.push({
+        id: this.generateId(),
+        type: 'Point',
+        byteRange: { start: allX[i].byteRange.start, end: allY[i].byteRange.end },
+        value: [allX[i].value, allY[i].value],
+        displayValue: `(${allX[i].displayValue}, ${allY[i].displayValue})`,
+        label: `[${i}]`,
+        children: [allX[i], allY[i]],
+      });
+    }
+    return points;
+  }
+
   /**
    * Ring = Array(Point) in columnar format
    */
@@ -4129,30 +4223,7 @@ export class NativeDecoder extends FormatDecoder {
       prevOffset = offsets[i];
     }
 
-    // Read all points (columnar - all X's first, then all Y's)
-    const allX: AstNode[] = [];
-    for (let i = 0; i < totalPoints; i++) {
-      allX.push(this.decodeFloat64());
-    }
-    const allY: AstNode[] = [];
-    for (let i = 0; i < totalPoints; i++) {
-      allY.push(this.decodeFloat64());
-    }
-
-    // Assemble points
-    const allPoints: AstNode[] = [];
-    for (let i = 0; i < totalPoints; i++) {
-      allX[i].label = 'x';
-      allY[i].label = 'y';
-      allPoints.push({
-        id: this.generateId(),
-        type: 'Point',
-        byteRange: { start: allX[i].byteRange.start, end: allY[i].byteRange.end },
-        value: [allX[i].value, allY[i].value],
-        displayValue: `(${allX[i].displayValue}, ${allY[i].displayValue})`,
-        children: [allX[i], allY[i]],
-      });
-    }
+    const allPoints = this.decodePointColumn(totalPoints);
 
     // Distribute to rings
     const values: AstNode[] = [];
@@ -4470,12 +4541,12 @@ export class NativeDecoder extends FormatDecoder {
     return values[0];
   }
 
-  // AggregateFunction column decoder - stored as length-prefixed binary states
-  private decodeAggregateFunctionColumn(functionName: string, argTypes: ClickHouseType[], rowCount: number): AstNode[] {
+  // AggregateFunction column decoder - states written back to back, no length prefix
+  private decodeAggregateFunctionColumn(type: Extract<ClickHouseType, { kind: 'AggregateFunction' }>, rowCount: number): AstNode[] {
     const values: AstNode[] = [];
 
     for (let i = 0; i < rowCount; i++) {
-      const node = this.decodeAggregateFunction(functionName, argTypes);
+      const node = this.decodeAggregateFunction(type);
       node.label = `[${i}]`;
       values.push(node);
     }
@@ -4484,84 +4555,68 @@ export class NativeDecoder extends FormatDecoder {
   }
 
   // Single AggregateFunction value decoder - format is function-specific, NO length prefix
-  private decodeAggregateFunction(functionName: string, argTypes: ClickHouseType[]): AstNode {
-    const startOffset = this.reader.offset;
-    const children: AstNode[] = [];
-    const funcLower = functionName.toLowerCase();
-
-    const argTypesStr = argTypes.map(typeToString).join(', ');
-    const typeStr = argTypesStr
-      ? `AggregateFunction(${functionName}, ${argTypesStr})`
-      : `AggregateFunction(${functionName})`;
-
-    let displayValue: string;
-    let value: unknown;
-
-    if (funcLower === 'avg') {
-      // avg: numerator (type depends on arg) + VarUInt denominator
-      const numNode = argTypes.length > 0
-        ? this.decodeValue(argTypes[0])
-        : this.decodeUInt64();
-      numNode.label = 'numerator (sum)';
-      children.push(numNode);
-
-      const denomStart = this.reader.offset;
-      const { value: denominator } = decodeLEB128(this.reader);
-      const denomNode: AstNode = {
-        id: this.generateId(),
-        type: 'VarUInt',
-        byteRange: { start: denomStart, end: this.reader.offset },
-        value: denominator,
-        displayValue: String(denominator),
-        label: 'denominator (count)',
-      };
-      children.push(denomNode);
-
-      const sum = numNode.value;
-      const avg = denominator > 0 ? Number(sum) / denominator : 0;
-      displayValue = `avg=${avg.toFixed(2)} (sum=${sum}, count=${denominator})`;
-      value = { sum, count: denominator, avg };
-    } else if (funcLower === 'sum') {
-      // sum: fixed-size value based on argument type
-      const sumNode = argTypes.length > 0
-        ? this.decodeValue(argTypes[0])
-        : this.decodeUInt64();
-      sumNode.label = 'sum';
-      children.push(sumNode);
-      displayValue = `sum=${sumNode.displayValue}`;
-      value = sumNode.value;
-    } else if (funcLower === 'count') {
-      // count: VarUInt
-      const countStart = this.reader.offset;
-      const { value: count } = decodeLEB128(this.reader);
-      const countNode: AstNode = {
-        id: this.generateId(),
-        type: 'VarUInt',
-        byteRange: { start: countStart, end: this.reader.offset },
-        value: count,
-        displayValue: String(count),
-        label: 'count',
-      };
-      children.push(countNode);
-      displayValue = `count=${count}`;
-      value = count;
-    } else {
-      // Unknown aggregate function - we can't decode without knowing the format
-      throw new Error(
-        `AggregateFunction(${functionName}) has no length prefix and format is unknown. ` +
-        `Supported: avg, sum, count`
-      );
+  private decodeAggregateFunction(type: Extract<ClickHouseType, { kind: 'AggregateFunction' }>): AstNode {
+    return decodeAggregateState(
+      { reader: this.reader, generateId: () => this.generateId(), decodeValue: (t) => this.decodeValue(t) },
+      type,
+    );
+  }
+
+  // SimpleAggregateFunction column decoder - the column of the function's value type, retyped
+  private decodeSimpleAggregateFunctionColumn(
+    type: Extract<ClickHouseType, { kind: 'SimpleAggregateFunction' }>,
+    rowCount: number,
+  ): DecodedColumnData {
+    const data = this.decodeColumnData(simpleAggregateValueType(type), rowCount);
+    const typeStr = typeToString(type);
+    for (const node of data.values) {
+      node.type = typeStr;
     }
+    return data;
+  }
 
-    return {
-      id: this.generateId(),
-      type: typeStr,
-      byteRange: { start: startOffset, end: this.reader.offset },
-      value,
-      displayValue,
-      children,
-      metadata: { functionName, argTypes: argTypesStr },
-    };
+  /**
+   * Legacy Object('json') column (ClickHouse 22.3 - 24.x).
+   * Prefix: UInt8 serialization kind (0 = TUPLE, 1 = STRING), then for TUPLE
+   * the String name of the tuple type the objects were flattened into.
+   * Data: that tuple column, or a String column of JSON text.
+   */
+  private decodeObjectColumn(type: Extract<ClickHouseType, { kind: 'Object' }>, rowCount: number): DecodedColumnData {
+    const kindNode = this.decodeUInt8();
+    const kind = kindNode.value as number;
+    kindNode.label = 'serialization_kind';
+    kindNode.displayValue = kind === 0 ? 'TUPLE' : kind === 1 ? 'STRING' : `unknown (${kind})`;
+
+    if (kind === 1) {
+      return { values: this.decodeColumnData({ kind: 'String' }, rowCount).values, prefixNodes: [kindNode] };
+    }
+    if (kind !== 0) {
+      throw new Error(`Object column: unknown serialization kind ${kind}`);
+    }
+
+    const typeNameNode = this.decodeString();
+    typeNameNode.label = 'tuple_type';
+    const tupleType = parseType(typeNameNode.value as string);
+    const data = this.decodeColumnData(tupleType, rowCount);
+    const typeStr = typeToString(type);
+    for (const node of data.values) {
+      node.value = this.objectFromTuple(node);
+      node.type = typeStr;
+      node.displayValue = JSON.stringify(this.convertBigIntForDisplay(node.value));
+    }
+    return { values: data.values, prefixNodes: [kindNode, typeNameNode, ...data.prefixNodes] };
+  }
+
+  /** Rebuild a JSON object from a decoded (possibly nested) named tuple node */
+  private objectFromTuple(node: AstNode): unknown {
+    if (!node.children || !node.type.startsWith('Tuple(')) {
+      return node.value;
+    }
+    const obj: Record<string, unknown> = {};
+    for (const child of node.children) {
+      obj[child.label ?? ''] = this.objectFromTuple(child);
+    }
+    return obj;
   }
 
   /**
@@ -129,9 +129,43 @@ describe('NativeDecoder protocol-aware parsing', () => {
       0x07,
     ]);
 
-    expect(() => new NativeDecoder(bytes, 54473).decode()).toThrow(
-      'BlockInfo field 3 requires protocol version 54480+',
-    );
+    const parsed = new NativeDecoder(bytes, 54473).decode();
+    expect(parsed.blocks).toEqual([]);
+    expect(parsed.trailingNodes![0]).toMatchObject({
+      type: 'DecodeError',
+      byteRange: { start: 0, end: bytes.length },
+      metadata: { expectedType: 'Native.BlockHeader', reason: expect.stringContaining('BlockInfo field 3 requires protocol version 54480+') },
+    });
+  });
+
+  it('keeps the columns decoded before a truncated one', () => {
+    const bytes = new Uint8Array([
+      0x02, // numColumns
+      0x02, // numRows
+      ...encodeString('a'),
+      ...encodeString('UInt8'),
+      0x01,
+      0x02,
+      ...encodeString('b'),
+      ...encodeString('UInt32'),
+      0x05,
+      0x00,
+      0x00,
+      0x00,
+      0x06, // second UInt32 cut short
+    ]);
+    const bStart = 2 + 2 + 6 + 2;
+
+    const parsed = new NativeDecoder(bytes, 0).decode();
+    const [block] = parsed.blocks!;
+    expect(block.columns.map((c) => c.values.map((v) => v.value))).toEqual([[1, 2]]);
+    expect(block.byteRange).toEqual({ start: 0, end: bStart });
+    expect(parsed.trailingNodes![0]).toMatchObject({
+      type: 'DecodeError',
+      byteRange: { start: bStart, end: bytes.length },
+      metadata: { offset: bStart + 13, expectedType: 'UInt32', reason: 'unexpected end of data' },
+    });
+    expect(parsed.diagnostics).toEqual([expect.objectContaining({ severity: 'error', code: 'decode.incomplete', nodeId: 'decode-error' })]);
   });
 
   it('parses replicated serialization kind stacks', () => {
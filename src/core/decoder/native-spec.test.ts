@@ -430,3 +430,29 @@ describe('Native spec — JSON', () => {
     expect(nodes[0].value).toEqual({ a: 7, b: 'hi' });
   });
 });
+
+describe('Native spec — legacy Object and SimpleAggregateFunction', () => {
+  it("Object('json') TUPLE kind — flattened tuple column rebuilt into objects", () => {
+    const data = [
+      0x00, // serialization kind TUPLE
+      ...encodeString('Tuple(a Int8, b Tuple(c String))'),
+      0x01, 0x02, // a: [1, 2]
+      0x01, 0x78, 0x00, // b.c: ["x", ""]
+    ];
+    const nodes = decodeColumn("Object('json')", data, 2);
+    expect(nodes.map((n) => n.value)).toEqual([{ a: 1, b: { c: 'x' } }, { a: 2, b: { c: '' } }]);
+    expect(nodes[0].type).toBe("Object('json')");
+    expect(nodes[0].displayValue).toBe('{"a":1,"b":{"c":"x"}}');
+  });
+
+  it("Object(Nullable('json')) STRING kind — JSON text column", () => {
+    const data = [0x01, ...encodeString('{"a":1}')];
+    expect(values("Object(Nullable('json'))", data, 1)).toEqual(['{"a":1}']);
+  });
+
+  it('SimpleAggregateFunction(sum, UInt64) — stored as the value type', () => {
+    const nodes = decodeColumn('SimpleAggregateFunction(sum, UInt64)', [...u64(7), ...u64(9)], 2);
+    expect(nodes.map((n) => n.value)).toEqual([7n, 9n]);
+    expect(nodes[0].type).toBe('SimpleAggregateFunction(sum, UInt64)');
+  });
+});
@@ -0,0 +1,177 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { encodeProtocolScript } from '../encoder/protocol-encoder';
+import { ProtocolScript, ScriptPacket, scriptFromCapture } from '../encoder/protocol-script';
+import { AstNode } from '../types/ast';
+import { dechunk, negotiateChunked } from './protocol-chunks';
+import { ProtocolDecoder } from './protocol-decoder';
+import { decodeChprotoDump, parseChprotoDump } from './protocol-dump';
+import { analyzeByteRange } from './test-helpers';
+
+/**
+ * Chunked dumps made with encodeProtocolScript from 01-simple-select (their
+ * meta says `synthetic`), not captures from a server: they only show the
+ * decoder agrees with the encoder, so they stay out of fixtures/protocol.
+ */
+const SYNTHETIC = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'synthetic');
+
+/** One compressed query, both directions framed as `modes` say, the server's result split over two chunks */
+function session(modes: { client: [string, string]; server: [string, string] }): ProtocolScript {
+  const packets: ScriptPacket[] = [
+    { dir: 'client', type: 'ClientHello', protocol_version: 54483 },
+    {
+      dir: 'server',
+      type: 'ServerHello',
+      protocol_version: 54483,
+      proto_send_chunked_srv: modes.server[0],
+      proto_recv_chunked_srv: modes.server[1],
+    },
+    { dir: 'client', type: 'Addendum', proto_send_chunked: modes.client[0], proto_recv_chunked: modes.client[1] },
+    { dir: 'client', type: 'Query', query_id: 'q-1', compression: 1, query_body: 'SELECT number FROM numbers(3)' },
+    { dir: 'client', type: 'Data' },
+    {
+      dir: 'server',
+      type: 'Data',
+      block: { rows: 3, columns: [{ name: 'number', type: 'UInt8', data: '000102' }] },
+      chunks: [20, 36],
+    },
+    { dir: 'server', type: 'EndOfStream' },
+  ];
+  return { packets };
+}
+
+const BOTH_CHUNKED = session({ client: ['chunked', 'chunked'], server: ['chunked_optional', 'chunked_optional'] });
+
+function labels(node: AstNode): string[] {
+  return (node.children ?? []).map((child) => String(child.label));
+}
+
+describe('negotiateChunked', () => {
+  it.each([
+    ['chunked', 'chunked', true],
+    ['notchunked', 'notchunked', false],
+    ['chunked_optional', 'notchunked', false],
+    ['notchunked_optional', 'chunked', true],
+    ['chunked', 'notchunked_optional', true],
+    ['notchunked', 'chunked_optional', false],
+    ['chunked', 'notchunked', null],
+    ['notchunked', 'chunked', null],
+  ])('server %s, client %s → %s', (server, client, expected) => {
+    expect(negotiateChunked(server, client)).toBe(expected);
+  });
+});
+
+describe('dechunk', () => {
+  it('strips sizes and end markers, mapping the payload back onto the source', () => {
+    const bytes = Uint8Array.of(0xff, 2, 0, 0, 0, 0xa, 0xb, 1, 0, 0, 0, 0xc, 0, 0, 0, 0, 5, 0, 0, 0, 0xd);
+    const { data, headers, runs } = dechunk(bytes, 1, bytes.length);
+    expect(Array.from(data)).toEqual([0xa, 0xb, 0xc, 0xd]);
+    expect(headers.map((h) => [h.byteRange.start, h.size])).toEqual([[1, 2], [7, 1], [12, 0], [16, 5]]);
+    expect(runs).toEqual([
+      { offset: 0, start: 5, length: 2 },
+      { offset: 2, start: 11, length: 1 },
+      { offset: 3, start: 20, length: 1 },
+    ]);
+  });
+
+  it('reports a size cut off by the end of the capture', () => {
+    const { data, headers } = dechunk(Uint8Array.of(1, 0, 0, 0, 0xa, 0, 0), 0, 7);
+    expect(Array.from(data)).toEqual([0xa]);
+    expect(headers[1]).toEqual({ byteRange: { start: 5, end: 7 }, size: null });
+  });
+});
+
+describe('ProtocolDecoder — chunked framing', () => {
+  it('decodes chunked packets as the unchunked ones, with their chunk headers as nodes', () => {
+    const plain = ProtocolDecoder.fromCapture(
+      encodeProtocolScript(session({ client: ['notchunked', 'notchunked'], server: ['notchunked', 'notchunked'] })),
+    ).decode();
+    const chunked = ProtocolDecoder.fromCapture(encodeProtocolScript(BOTH_CHUNKED)).decode();
+    expect(chunked.metadata?.chunked).toEqual({ client: true, server: true });
+    expect(plain.metadata?.chunked).toBeUndefined();
+    expect(chunked.diagnostics).toBeUndefined();
+
+    const [client, server] = chunked.trailingNodes!;
+    const [plainClient, plainServer] = plain.trailingNodes!;
+    expect(labels(client)).toEqual(labels(plainClient));
+    expect(labels(server)).toEqual(labels(plainServer));
+    expect(labels(client.children![2])).toEqual(['chunk_size', ...labels(plainClient.children![2]), 'chunk_end']);
+    expect(labels(server.children![1])).toEqual([
+      'chunk_size',
+      'packet_type',
+      'table_name',
+      'compressed_frame',
+      'chunk_size',
+      'block',
+      'chunk_end',
+    ]);
+    expect(labels(plainServer.children![1])).toEqual(['packet_type', 'table_name', 'compressed_frame', 'block']);
+  });
+
+  it('maps nodes of a packet split over chunks around the chunk headers', () => {
+    const capture = encodeProtocolScript(BOTH_CHUNKED);
+    const [, server] = ProtocolDecoder.fromCapture(capture).decode().trailingNodes!;
+    const data = server.children![1];
+    const [first, , , frame, second, , end] = data.children!;
+    expect(data.byteRange).toEqual({ start: first.byteRange.start, end: end.byteRange.end });
+    expect(second.byteRange.start).toBe(first.byteRange.end + 20);
+    // The compressed frame spans the second chunk size, so its range covers it.
+    expect(frame.byteRange.start).toBeLessThan(second.byteRange.start);
+    expect(frame.byteRange.end).toBe(end.byteRange.start);
+
+    const block = data.children!.find((child) => child.label === 'block')!;
+    const column = block.children![1];
+    const values = column.children![column.children!.length - 1];
+    const c2s = capture.c2s.length;
+    expect(capture.s2c[values.byteRange.start - c2s]).toBe(2);
+  });
+
+  it('places the headers of a packet split into many chunks in order', () => {
+    const script = structuredClone(BOTH_CHUNKED);
+    script.packets.find((packet) => packet.chunks)!.chunks = Array.from({ length: 14 }, () => 4);
+    const [, server] = ProtocolDecoder.fromCapture(encodeProtocolScript(script)).decode().trailingNodes!;
+    const data = server.children![1];
+    const headers = data.children!.filter((child) => child.type === 'Protocol.ChunkHeader');
+    expect(headers.map((header) => header.label)).toEqual([...Array<string>(14).fill('chunk_size'), 'chunk_end']);
+    const starts = data.children!.map((child) => child.byteRange.start);
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+    expect(data.byteRange).toEqual({ start: headers[0].byteRange.start, end: headers[14].byteRange.end });
+    expect(server.children![2].children!.filter((child) => child.type === 'Protocol.ChunkHeader')).toHaveLength(2);
+  });
+
+  it('reads each direction as it settled, with optional sides following the other', () => {
+    const { parsed } = decodeChprotoDump(new Uint8Array(readFileSync(path.join(SYNTHETIC, 'chunked-optional.chproto'))));
+    expect(parsed.metadata?.chunked).toEqual({ client: true, server: false });
+    const [client, server] = parsed.trailingNodes!;
+    expect(labels(client.children![2])[0]).toBe('chunk_size');
+    expect(server.children!.every((packet) => !labels(packet).includes('chunk_size'))).toBe(true);
+  });
+
+  it('reports conflicting modes and reads the direction unchunked', () => {
+    const script = session({ client: ['chunked', 'notchunked'], server: ['notchunked', 'notchunked'] });
+    const parsed = ProtocolDecoder.fromCapture(encodeProtocolScript(script)).decode();
+    expect(parsed.diagnostics?.map((d) => d.code)).toEqual(['protocol.chunked-conflict']);
+    expect(parsed.metadata?.chunked).toBeUndefined();
+    const [client] = parsed.trailingNodes!;
+    expect(client.children!.every((packet) => packet.type !== 'Protocol.DecodeError')).toBe(true);
+  });
+});
+
+describe.each(['chunked.chproto', 'chunked-optional.chproto'])('synthetic %s', (name) => {
+  const bytes = () => new Uint8Array(readFileSync(path.join(SYNTHETIC, name)));
+
+  it('is marked as synthetic', () => {
+    expect(parseChprotoDump(bytes()).meta).toMatchObject({ synthetic: true, generator: 'encodeProtocolScript' });
+  });
+
+  it('decodes with full coverage and re-encodes byte for byte', () => {
+    const { combined, parsed } = decodeChprotoDump(bytes());
+    expect(analyzeByteRange(parsed, combined.length).coveragePercent).toBe(100);
+    const capture = parseChprotoDump(bytes());
+    const encoded = encodeProtocolScript(scriptFromCapture(capture));
+    expect(encoded.c2s).toEqual(capture.c2s);
+    expect(encoded.s2c).toEqual(capture.s2c);
+  });
+});
@@ -0,0 +1,84 @@
+import { ByteRange } from '../types/ast';
+
+/**
+ * Chunked packet framing of the native protocol (v54470+). Each side states in
+ * its handshake how it sends and receives packets — the client in the
+ * Addendum (`proto_send_chunked`, `proto_recv_chunked`), the server in
+ * ServerHello (`proto_send_chunked_srv`, `proto_recv_chunked_srv`) — as
+ * "chunked" or "notchunked", with an "_optional" suffix when it also accepts
+ * the other. Once a direction settles on chunked, every packet after the
+ * handshake goes out as one or more chunks (a UInt32 LE size, then that many
+ * bytes) followed by a zero size that ends the packet.
+ */
+
+/** Byte width of a chunk size, and of the zero that ends a packet */
+export const CHUNK_HEADER_SIZE = 4;
+
+/** Whether each direction of a connection is chunked */
+export interface ChunkedDirections {
+  client: boolean;
+  server: boolean;
+}
+
+/**
+ * Settle one direction as the server does: an optional side follows the other
+ * and two firm sides must agree. Returns null when they conflict, which the
+ * server answers by refusing the connection.
+ *
+ * @param server the server's mode for the direction (`proto_recv_chunked_srv` for client → server)
+ * @param client the client's mode for it (`proto_send_chunked` for client → server)
+ */
+export function negotiateChunked(server: string, client: string): boolean | null {
+  const chunked = (mode: string) => mode.startsWith('chunked');
+  const optional = (mode: string) => mode.endsWith('_optional');
+  if (optional(server)) return chunked(client);
+  if (optional(client)) return chunked(server);
+  return chunked(server) === chunked(client) ? chunked(server) : null;
+}
+
+/** One chunk size on the wire; 0 ends a packet, null is a size cut off by the end of the capture */
+export interface ChunkHeader {
+  byteRange: ByteRange;
+  size: number | null;
+}
+
+/** A chunked byte range with its framing stripped */
+export interface Dechunked {
+  /** The chunk payloads, back to back */
+  data: Uint8Array;
+  headers: ChunkHeader[];
+  /** Where the payloads came from: `length` bytes at `offset` into `data` start at `start` in the source */
+  runs: { offset: number; start: number; length: number }[];
+}
+
+/**
+ * Read `bytes[start, end)` as a run of chunks and return their payloads and
+ * headers. A chunk cut short by `end` keeps the payload bytes that are there,
+ * so the packet decoder reports the truncation where it happens.
+ */
+export function dechunk(bytes: Uint8Array, start: number, end: number): Dechunked {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headers: ChunkHeader[] = [];
+  const runs: Dechunked['runs'] = [];
+  let offset = 0;
+  let pos = start;
+  while (pos < end) {
+    if (pos + CHUNK_HEADER_SIZE > end) {
+      headers.push({ byteRange: { start: pos, end }, size: null });
+      break;
+    }
+    const size = view.getUint32(pos, true);
+    headers.push({ byteRange: { start: pos, end: pos + CHUNK_HEADER_SIZE }, size });
+    pos += CHUNK_HEADER_SIZE;
+    const length = Math.min(size, end - pos);
+    if (length > 0) {
+      runs.push({ offset, start: pos, length });
+      offset += length;
+      pos += length;
+    }
+  }
+
+  const data = new Uint8Array(offset);
+  for (const run of runs) data.set(bytes.subarray(run.start, run.start + run.length), run.offset);
+  return { data, headers, runs };
+}
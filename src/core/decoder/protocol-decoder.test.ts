@@ -17,6 +17,9 @@ import { describe, expect, it } from 'vitest';
 import { ProtocolDecoder } from './protocol-decoder';
 import { parseChprotoDump } from './protocol-dump';
 import { analyzeByteRange, formatUncoveredRanges } from './test-helpers';
+import { cityHash128 } from '../compression/cityhash';
+import { encodeProtocolScript } from '../encoder/protocol-encoder';
+import { scriptFromCapture } from '../encoder/protocol-script';
 import { AstNode, ParsedData } from '../types/ast';
 
 const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'protocol');
@@ -190,3 +193,276 @@ describe('ProtocolDecoder — structural expectations', () => {
     expect(entries.length).toBeGreaterThanOrEqual(2);
   });
 });
+
+// --- compressed captures ------------------------------------------------------
+//
+// No fixture was captured with compression on, so these tests rewrite the
+// plaintext fixtures the way a compressing client and server would have sent
+// them: the Query's `compression` flag becomes 1 and every Block body is
+// replaced by one or more compressed frames.
+
+const METHOD_NONE = 0x02;
+const METHOD_LZ4 = 0x82;
+const METHOD_ZSTD = 0x90;
+
+function compressedFrame(method: number, payload: Uint8Array, uncompressedSize: number): Uint8Array {
+  const out = new Uint8Array(25 + payload.length);
+  const view = new DataView(out.buffer);
+  view.setUint8(16, method);
+  view.setUint32(17, 9 + payload.length, true);
+  view.setUint32(21, uncompressedSize, true);
+  out.set(payload, 25);
+  const hash = cityHash128(out.subarray(16));
+  view.setBigUint64(0, hash.low, true);
+  view.setBigUint64(8, hash.high, true);
+  return out;
+}
+
+/** LZ4 block holding `data` as a single literal run. */
+function lz4Literals(data: Uint8Array): Uint8Array {
+  const ext: number[] = [];
+  if (data.length >= 15) {
+    let rest = data.length - 15;
+    while (rest >= 255) {
+      ext.push(255);
+      rest -= 255;
+    }
+    ext.push(rest);
+  }
+  return Uint8Array.from([Math.min(data.length, 15) << 4, ...ext, ...data]);
+}
+
+/** Single-segment zstd frame holding `data` as one raw block. */
+function zstdRaw(data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(4 + 1 + 4 + 3 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, 0xfd2fb528, true);
+  view.setUint8(4, 0xa0); // 4-byte content size, single segment
+  view.setUint32(5, data.length, true);
+  const blockHeader = (data.length << 3) | 1; // raw, last block
+  out.set([blockHeader & 0xff, (blockHeader >> 8) & 0xff, (blockHeader >> 16) & 0xff], 9);
+  out.set(data, 12);
+  return out;
+}
+
+type Wrap = (body: Uint8Array) => Uint8Array;
+
+const WRAPS: Record<string, Wrap> = {
+  none: (b) => compressedFrame(METHOD_NONE, b, b.length),
+  lz4: (b) => compressedFrame(METHOD_LZ4, lz4Literals(b), b.length),
+  zstd: (b) => compressedFrame(METHOD_ZSTD, zstdRaw(b), b.length),
+  'two frames': (b) => {
+    const half = b.length >> 1;
+    const first = compressedFrame(METHOD_LZ4, lz4Literals(b.subarray(0, half)), half);
+    const second = compressedFrame(METHOD_NONE, b.subarray(half), b.length - half);
+    return Uint8Array.from([...first, ...second]);
+  },
+  // Frames far smaller than a value, so reads straddle many frame boundaries.
+  'many frames': (b) => {
+    const frames: number[] = [];
+    for (let i = 0; i < b.length; i += 5) frames.push(...WRAPS.none(b.subarray(i, i + 5)));
+    return Uint8Array.from(frames);
+  },
+};
+
+const COMPRESSIBLE = new Set(['Protocol.Data', 'Protocol.Totals', 'Protocol.Extremes']);
+const COMPRESSIBLE_FROM_54481 = new Set(['Protocol.Log', 'Protocol.ProfileEvents']);
+
+/** Re-encode a fixture as if the query had been sent with `compression = 1`. */
+function compressFixture(name: string, wrap: Wrap): { c2s: Uint8Array; s2c: Uint8Array } {
+  const cap = loadCapture(name);
+  const { parsed } = decodeFixture(name);
+  const negotiated = parsed.metadata?.negotiatedVersion as number;
+  const combined = new Uint8Array(cap.c2s.length + cap.s2c.length);
+  combined.set(cap.c2s, 0);
+  combined.set(cap.s2c, cap.c2s.length);
+
+  const edits: { start: number; end: number; bytes: Uint8Array }[] = [];
+  for (const section of parsed.trailingNodes!) {
+    for (const packet of section.children ?? []) {
+      if (packet.type === 'Protocol.Query') {
+        const flag = packet.children!.find((c) => c.label === 'compression')!;
+        edits.push({ ...flag.byteRange, bytes: Uint8Array.of(1) });
+      }
+      const framed = COMPRESSIBLE.has(packet.type)
+        || (COMPRESSIBLE_FROM_54481.has(packet.type) && negotiated >= 54481);
+      if (!framed) continue;
+      const block = packet.children!.find((c) => c.type === 'Native.Block')!;
+      const { start, end } = block.byteRange;
+      edits.push({ start, end, bytes: wrap(combined.subarray(start, end)) });
+    }
+  }
+
+  const c2s: number[] = [];
+  const s2c: number[] = [];
+  let pos = 0;
+  const emit = (from: number, to: number) => {
+    for (let i = from; i < to; i++) (i < cap.c2s.length ? c2s : s2c).push(combined[i]);
+  };
+  for (const edit of edits.sort((a, b) => a.start - b.start)) {
+    emit(pos, edit.start);
+    (edit.start < cap.c2s.length ? c2s : s2c).push(...edit.bytes);
+    pos = edit.end;
+  }
+  emit(pos, combined.length);
+  return { c2s: Uint8Array.from(c2s), s2c: Uint8Array.from(s2c) };
+}
+
+function blockValues(parsed: ParsedData): string[] {
+  const out: string[] = [];
+  for (const node of allNodes(parsed)) {
+    if (node.type !== 'Native.Block') continue;
+    walk(node, (n) => {
+      if (!n.children?.length) out.push(`${n.label}=${n.displayValue}`);
+    });
+  }
+  return out;
+}
+
+describe('ProtocolDecoder — compressed blocks', () => {
+  const cases = FIXTURES.flatMap((name) => Object.keys(WRAPS).map((wrap) => [name, wrap] as const));
+
+  describe.each(cases)('%s (%s)', (name, wrapName) => {
+    const decodeCompressed = () => {
+      const cap = compressFixture(name, WRAPS[wrapName]);
+      const parsed = ProtocolDecoder.fromCapture(cap).decode();
+      return { parsed, cap };
+    };
+
+    it('decodes with no error nodes and 100% coverage', () => {
+      const { parsed, cap } = decodeCompressed();
+      const errors = allNodes(parsed).filter((n) => n.type === 'Protocol.DecodeError');
+      expect(errors.map((e) => e.displayValue)).toEqual([]);
+      const coverage = analyzeByteRange(parsed, cap.c2s.length + cap.s2c.length);
+      expect(coverage.coveragePercent).toBe(100);
+    });
+
+    it('decodes the same block contents as the plaintext capture', () => {
+      const { parsed } = decodeCompressed();
+      expect(blockValues(parsed)).toEqual(blockValues(decodeFixture(name).parsed));
+    });
+
+    it('shows every frame with a valid checksum', () => {
+      const { parsed } = decodeCompressed();
+      const frames = allNodes(parsed).filter((n) => n.type === 'Compression.Frame');
+      expect(frames.length).toBeGreaterThan(0);
+      expect(frames.every((f) => f.metadata?.checksumValid === true)).toBe(true);
+    });
+  });
+
+  it('maps NONE-frame nodes byte-for-byte onto the capture', () => {
+    const cap = compressFixture('02-mixed-types.chproto', WRAPS.none);
+    const combined = Uint8Array.from([...cap.c2s, ...cap.s2c]);
+    const parsed = ProtocolDecoder.fromCapture(cap).decode();
+    const original = decodeFixture('02-mixed-types.chproto');
+    const origCap = loadCapture('02-mixed-types.chproto');
+    const origCombined = Uint8Array.from([...origCap.c2s, ...origCap.s2c]);
+
+    const leaves = (p: ParsedData) => {
+      const out: AstNode[] = [];
+      for (const node of allNodes(p)) {
+        if (node.type === 'Native.Block') walk(node, (n) => !n.children?.length && out.push(n));
+      }
+      return out;
+    };
+    const mapped = leaves(parsed);
+    const plain = leaves(original.parsed);
+    expect(mapped.length).toBe(plain.length);
+    mapped.forEach((node, i) => {
+      const a = combined.subarray(node.byteRange.start, node.byteRange.end);
+      const b = origCombined.subarray(plain[i].byteRange.start, plain[i].byteRange.end);
+      expect(a).toEqual(b);
+      expect(node.metadata?.decompressedRange).toBeDefined();
+    });
+  });
+
+  it('flags a frame whose checksum does not match', () => {
+    const cap = compressFixture('01-simple-select.chproto', (b) => {
+      const f = compressedFrame(METHOD_NONE, b, b.length);
+      f[0] ^= 0xff;
+      return f;
+    });
+    const parsed = ProtocolDecoder.fromCapture(cap).decode();
+    const frames = allNodes(parsed).filter((n) => n.type === 'Compression.Frame');
+    expect(frames.some((f) => f.metadata?.checksumValid === false)).toBe(true);
+    expect(allNodes(parsed).filter((n) => n.type === 'Protocol.DecodeError')).toEqual([]);
+  });
+
+  it('plaintext captures have no frame nodes', () => {
+    const { parsed } = decodeFixture('01-simple-select.chproto');
+    expect(allNodes(parsed).some((n) => n.type === 'Compression.Frame')).toBe(false);
+  });
+});
+
+// --- INSERT flow ----------------------------------------------------------------
+
+describe('ProtocolDecoder — INSERT flow', () => {
+  /** Decode the insert fixture after `edit` rewrites its client stream. */
+  function decodeInsert(edit: (c2s: Uint8Array) => Uint8Array = (c2s) => c2s): ParsedData {
+    const cap = loadCapture('07-insert.chproto');
+    return ProtocolDecoder.fromCapture({ ...cap, c2s: edit(new Uint8Array(cap.c2s)) }).decode();
+  }
+
+  /** Overwrite the last occurrence of `from` (the data block's copy) with a same-length `to`. */
+  function replaceLast(c2s: Uint8Array, from: string, to: string): Uint8Array {
+    const needle = Buffer.from(from);
+    const at = Buffer.from(c2s).lastIndexOf(needle);
+    expect(at).toBeGreaterThan(0);
+    c2s.set(Buffer.from(to), at);
+    return c2s;
+  }
+
+  it('tags the schema, data and terminating blocks and reports no diagnostics', () => {
+    const parsed = decodeInsert();
+    const [client, server] = parsed.trailingNodes!;
+    const roles = (section: AstNode) =>
+      section.children!.filter((p) => p.metadata?.insertRole).map((p) => p.metadata!.insertRole);
+    expect(roles(client)).toEqual(['data', 'end']);
+    expect(roles(server)).toEqual(['schema']);
+    expect(parsed.diagnostics).toBeUndefined();
+    expect(parsed.metadata?.insertFlows).toEqual([
+      expect.objectContaining({
+        schema: [
+          { name: 'x', type: 'UInt32' },
+          { name: 's', type: 'String' },
+        ],
+        dataBlocks: 1,
+        rows: 3,
+      }),
+    ]);
+  });
+
+  it('reports column name and type mismatches against the insert schema', () => {
+    // Date32 is 4 bytes wide like UInt32, so the block still decodes.
+    const parsed = decodeInsert((c2s) => replaceLast(replaceLast(c2s, 'UInt32', 'Date32'), '\x01x\x06', '\x01y\x06'));
+    expect(allNodes(parsed).filter((n) => n.type === 'Protocol.DecodeError')).toEqual([]);
+    expect(parsed.diagnostics?.map((d) => [d.severity, d.code])).toEqual([
+      ['error', 'insert.column-name'],
+      ['error', 'insert.column-type'],
+    ]);
+    const dataPacket = parsed.trailingNodes![0].children!.find((p) => p.metadata?.insertRole === 'data')!;
+    expect(parsed.diagnostics![1]).toMatchObject({ nodeId: dataPacket.id, byteRange: dataPacket.byteRange });
+    expect(parsed.diagnostics![1].message).toContain('Date32');
+  });
+
+  it('warns when the client never sends the terminating empty block', () => {
+    const parsed = decodeInsert((c2s) => c2s.subarray(0, c2s.length - 14));
+    expect(parsed.diagnostics?.map((d) => d.code)).toEqual(['insert.unterminated']);
+  });
+
+  it('does not count an Exception before any Query as an answer', () => {
+    const script = scriptFromCapture(loadCapture('07-insert.chproto'));
+    const hello = script.packets.findIndex((p) => p.type === 'ServerHello');
+    script.packets.splice(hello, 0, { dir: 'server', type: 'Exception', code: 516, message: 'Authentication failed' });
+    const parsed = ProtocolDecoder.fromCapture(encodeProtocolScript(script)).decode();
+    expect(parsed.diagnostics).toBeUndefined();
+    expect(parsed.metadata?.insertFlows).toEqual([expect.objectContaining({ dataBlocks: 1, rows: 3 })]);
+    expect((parsed.metadata?.insertFlows as { schema: unknown }[])[0].schema).not.toBeNull();
+  });
+
+  it('leaves SELECT conversations alone', () => {
+    const { parsed } = decodeFixture('01-simple-select.chproto');
+    expect(parsed.metadata?.insertFlows).toBeUndefined();
+    expect(parsed.diagnostics).toBeUndefined();
+  });
+});
@@ -1,76 +1,22 @@
-import { BinaryReader } from './reader';
+import { BinaryReader, isEndOfData } from './reader';
 import { decodeLEB128 } from './leb128';
 import { NativeDecoder } from './native-decoder';
-import { AstNode, BlockNode, ByteRange, HeaderNode, ParsedData } from '../types/ast';
+import { segmentExchanges } from './protocol-exchanges';
+import { CHUNK_HEADER_SIZE, ChunkedDirections, ChunkHeader, dechunk, negotiateChunked } from './protocol-chunks';
+import {
+  COMPRESSED_FRAME_CHECKSUM_SIZE,
+  COMPRESSED_FRAME_HEADER_SIZE,
+  CompressedFrame,
+  CompressionMethod,
+  compressedFrameToAst,
+  readCompressedFrame,
+} from '../compression/compressed-frame';
+import { AstNode, BlockNode, ByteRange, Diagnostic, HeaderNode, ParsedData } from '../types/ast';
 import { ClickHouseFormat } from '../types/formats';
+import { ClientPacket, NATIVE_PROTOCOL_FEATURES as F, ServerPacket } from '../types/native-protocol';
 
 const TEXT_DECODER = new TextDecoder();
 
-/**
- * Protocol feature gates, keyed by the protocol version that introduced them.
- * A feature is active when the negotiated version is >= its value. See
- * docs/full_native_protocol_spec.md (the feature table).
- */
-const F = {
-  BLOCK_INFO: 51903,
-  TIMEZONE: 54058,
-  QUOTA_KEY_IN_CLIENT_INFO: 54060,
-  DISPLAY_NAME: 54372,
-  VERSION_PATCH: 54401,
-  WRITE_CLIENT_INFO: 54420,
-  SETTINGS_AS_STRINGS: 54429,
-  INTERSERVER_SECRET: 54441,
-  OPEN_TELEMETRY: 54442,
-  DISTRIBUTED_DEPTH: 54448,
-  INITIAL_QUERY_START_TIME: 54449,
-  PARALLEL_REPLICAS: 54453,
-  ADDENDUM: 54458,
-  PARAMETERS: 54459,
-  SERVER_QUERY_TIME_IN_PROGRESS: 54460,
-  PASSWORD_COMPLEXITY_RULES: 54461,
-  INTERSERVER_SECRET_V2: 54462,
-  TOTAL_BYTES_IN_PROGRESS: 54463,
-  TIMEZONE_UPDATES: 54464,
-  ROWS_BEFORE_AGGREGATION: 54469,
-  CHUNKED_PROTOCOL: 54470,
-  VERSIONED_PARALLEL_REPLICAS: 54471,
-  INTERSERVER_EXTERNALLY_GRANTED_ROLES: 54472,
-  SERVER_SETTINGS: 54474,
-  QUERY_AND_LINE_NUMBERS: 54475,
-  JWT_IN_INTERSERVER: 54476,
-  QUERY_PLAN_SERIALIZATION: 54477,
-  VERSIONED_CLUSTER_FUNCTION: 54479,
-} as const;
-
-/** Client → Server packet type codes. */
-const ClientPacket = {
-  Hello: 0,
-  Query: 1,
-  Data: 2,
-  Cancel: 3,
-  Ping: 4,
-  SSHChallengeRequest: 11,
-  SSHChallengeResponse: 12,
-} as const;
-
-/** Server → Client packet type codes. */
-const ServerPacket = {
-  Hello: 0,
-  Data: 1,
-  Exception: 2,
-  Progress: 3,
-  Pong: 4,
-  EndOfStream: 5,
-  ProfileInfo: 6,
-  Totals: 7,
-  Extremes: 8,
-  Log: 10,
-  TableColumns: 11,
-  ProfileEvents: 14,
-  TimezoneUpdate: 17,
-  SSHChallenge: 18,
-} as const;
-
 /**
  * Server packet codes that can legitimately appear as the *first* packet after
  * ServerHello. Used to absorb undocumented trailing version VarUInts that some
@@ -92,6 +38,19 @@ const VALID_FIRST_SERVER_PACKET = new Set<number>([
   ServerPacket.TimezoneUpdate,
 ]);
 
+/**
+ * One Query packet and the Data blocks exchanged for it, collected while the
+ * two streams are decoded so INSERT flows can be checked afterwards.
+ */
+interface QueryFlow {
+  queryNode: AstNode;
+  queryBody: string;
+  clientBlocks: { packet: AstNode; block: BlockNode }[];
+  serverBlocks: { packet: AstNode; block: BlockNode }[];
+}
+
+const INSERT_QUERY = /^\s*INSERT\b/i;
+
 export interface ProtocolCapture {
   /** Concatenated client → server byte stream. */
   c2s: Uint8Array;
@@ -100,6 +59,17 @@ export interface ProtocolCapture {
   meta?: Record<string, unknown>;
 }
 
+/** Whole server packets read off the front of a stream still arriving (see ProtocolDecoder.readServerPackets). */
+export interface ServerPacketsRead {
+  packets: AstNode[];
+  /** Bytes the packets span */
+  length: number;
+  /** Why the bytes after `length` do not decode */
+  error?: string;
+  /** Whether those bytes are only cut off, so more of them may complete the packet, rather than malformed */
+  cutOff?: boolean;
+}
+
 /**
  * Decoder for the ClickHouse native TCP protocol. It consumes a capture of one
  * connection's two per-direction byte streams (as produced by the proxy
@@ -109,8 +79,23 @@ export interface ProtocolCapture {
  * for Data-family packets — the full Native Block subtree (reused from
  * NativeDecoder) nested underneath.
  *
- * Compression and TLS are out of scope: captures are expected to be plaintext,
- * uncompressed (localhost clickhouse-client disables compression by default).
+ * Compression is honoured per query: when a Query packet sets `compression`,
+ * the Block bodies of that query's Data-family packets are read as a stream of
+ * compressed frames (see src/core/compression), decompressed, and decoded with
+ * a separate NativeDecoder; the resulting nodes are mapped back onto the frame
+ * payload bytes. TLS is out of scope: captures are expected to be plaintext.
+ *
+ * Chunked framing (v54470+) is honoured per direction as the handshake
+ * negotiates it (see protocol-chunks): both handshakes are read first, then
+ * the packets after them are decoded from the streams with their chunk
+ * headers stripped, their nodes mapped back onto the capture, and each chunk
+ * header shown as a node of the packet it frames.
+ *
+ * INSERT queries are modelled as a flow: the server's first Data block is the
+ * insert schema (0 rows, the table's columns) and every non-empty client block
+ * that follows must match it column-for-column; the client ends the data with
+ * an empty block. Mismatches are reported as ParsedData.diagnostics rather
+ * than decode errors, since the bytes themselves decoded fine.
  */
 export class ProtocolDecoder {
   readonly format = ClickHouseFormat.NativeProtocol;
@@ -119,21 +104,44 @@ export class ProtocolDecoder {
   private readonly total: number;
   private readonly meta?: Record<string, unknown>;
   private readonly negotiated: number;
-  private readonly native: NativeDecoder;
-  private readonly r: BinaryReader;
+  /**
+   * The buffer packets are read from and its direction bounds: `combined`
+   * until the handshake is read, then `combined` with the chunk framing of any
+   * chunked direction stripped.
+   */
+  private bytes: Uint8Array;
+  private c2sEnd: number;
+  private end: number;
+  /** Where the runs of `bytes` lie in `combined`, when they differ */
+  private runs: { offset: number; start: number; length: number }[] = [];
+  private native: NativeDecoder;
+  private r: BinaryReader;
+  /** The chunked modes each side announced in its handshake */
+  private readonly chunkModes: { clientSend?: string; clientRecv?: string; serverSend?: string; serverRecv?: string } = {};
+  private addendum: AstNode | null = null;
   private idCounter = 0;
   private blockIndex = 0;
+  /** `compression` flag of every Query packet, in client send order. */
+  private readonly queryCompression: boolean[] = [];
+  /** Index into queryCompression of the query the server is answering. */
+  private serverQueryIndex = 0;
+  /** One entry per Query packet, parallel to queryCompression. */
+  private readonly flows: QueryFlow[] = [];
 
   /**
    * @param combined  the concatenated [c2s][s2c] byte buffer (rawData for the hex viewer)
    * @param c2sLength byte length of the client→server portion (the split point)
+   * @param negotiatedVersion the version to read at, when the hellos are not in `combined`
    */
-  constructor(combined: Uint8Array, c2sLength: number, meta?: Record<string, unknown>) {
+  constructor(combined: Uint8Array, c2sLength: number, meta?: Record<string, unknown>, negotiatedVersion?: number) {
     this.combined = combined;
     this.c2sLength = c2sLength;
     this.total = combined.length;
+    this.bytes = combined;
+    this.c2sEnd = c2sLength;
+    this.end = combined.length;
     this.meta = meta;
-    this.negotiated = this.computeNegotiatedVersion();
+    this.negotiated = negotiatedVersion ?? this.computeNegotiatedVersion();
     // NativeDecoder reads `combined`; we drive its reader for all framing too,
     // so packet-framing reads and block decoding share one offset cursor.
     this.native = new NativeDecoder(combined, this.negotiated);
@@ -148,9 +156,51 @@ export class ProtocolDecoder {
     return new ProtocolDecoder(combined, capture.c2s.length, capture.meta);
   }
 
+  /**
+   * Read the whole packets at the start of `s2c`, a server stream past its
+   * handshake on an unchunked connection at `negotiatedVersion`. Lets a live
+   * client read each packet once as bytes come in rather than re-decode its
+   * whole capture; the packets' byte ranges are offsets into `s2c`.
+   */
+  static readServerPackets(s2c: Uint8Array, negotiatedVersion: number): ServerPacketsRead {
+    return new ProtocolDecoder(s2c, 0, undefined, negotiatedVersion).readWholeServerPackets(Infinity);
+  }
+
+  /**
+   * Read the ServerHello (or the Exception refusing the handshake) at the
+   * start of `s2c`. Its layout depends on both hellos, so `c2s` must hold the
+   * ClientHello; byte ranges are offsets into [c2s][s2c].
+   */
+  static readServerHello(c2s: Uint8Array, s2c: Uint8Array): ServerPacketsRead {
+    const combined = new Uint8Array(c2s.length + s2c.length);
+    combined.set(c2s, 0);
+    combined.set(s2c, c2s.length);
+    const decoder = new ProtocolDecoder(combined, c2s.length);
+    decoder.r.skip(c2s.length);
+    return decoder.readWholeServerPackets(1);
+  }
+
   decode(): ParsedData {
-    const clientPackets = this.decodeClientStream();
-    const serverPackets = this.decodeServerStream();
+    const diagnostics: Diagnostic[] = [];
+    // Chunking starts after each side's handshake and is only known once both
+    // have been read, so the handshakes come first.
+    const clientPackets = this.decodeClientHandshake();
+    const clientRest = this.r.offset;
+    this.r.skip(Math.max(0, this.c2sLength - this.r.offset));
+    const serverPackets = this.decodeServerHandshake();
+    const chunked = this.settleChunking(diagnostics);
+    const framing = this.unframe(clientRest, this.r.offset, chunked);
+    const clientRestPackets = this.decodeClientStream();
+    this.r.skip(Math.max(0, framing.serverStart - this.r.offset));
+    const serverRestPackets = this.decodeServerStream();
+    if (this.runs.length > 0) {
+      const visited = new Set<AstNode>();
+      for (const packet of [...clientRestPackets, ...serverRestPackets]) this.remapChunked(packet, visited);
+    }
+    clientPackets.push(...clientRestPackets);
+    serverPackets.push(...serverRestPackets);
+    this.placeChunkHeaders(framing.client, clientPackets);
+    this.placeChunkHeaders(framing.server, serverPackets);
 
     const clientSection: AstNode = {
       id: this.nid(),
@@ -171,18 +221,30 @@ export class ProtocolDecoder {
       children: serverPackets,
     };
 
+    const exchanges = segmentExchanges(clientPackets, serverPackets);
+    const insertFlows = this.flows
+      .filter((flow) => INSERT_QUERY.test(flow.queryBody))
+      .map((flow) => this.checkInsertFlow(flow, diagnostics));
+
     return {
       format: this.format,
       header: this.emptyHeader(),
       totalBytes: this.total,
       trailingNodes: [clientSection, serverSection],
-      metadata: { negotiatedVersion: this.negotiated, ...this.meta },
+      metadata: {
+        negotiatedVersion: this.negotiated,
+        ...(chunked.client || chunked.server ? { chunked } : {}),
+        ...(exchanges.length > 0 ? { exchanges } : {}),
+        ...(insertFlows.length > 0 ? { insertFlows } : {}),
+        ...this.meta,
+      },
+      ...(diagnostics.length > 0 ? { diagnostics } : {}),
     };
   }
 
   // --- stream loops -------------------------------------------------------
 
-  private decodeClientStream(): AstNode[] {
+  private decodeClientHandshake(): AstNode[] {
     const packets: AstNode[] = [];
     if (this.c2sLength === 0) return packets;
 
@@ -192,8 +254,21 @@ export class ProtocolDecoder {
     if (this.negotiated >= F.ADDENDUM && this.r.offset < this.c2sLength) {
       packets.push(this.guard(() => this.decodeAddendum(), 'client', packets));
     }
-    // 3. Remaining client packets (Query, Data, Ping, Cancel, ...).
-    while (this.r.offset < this.c2sLength) {
+    return packets;
+  }
+
+  /** The first server packet: ServerHello, or the Exception refusing the handshake. */
+  private decodeServerHandshake(): AstNode[] {
+    const packets: AstNode[] = [];
+    if (this.total - this.c2sLength === 0) return packets;
+    packets.push(this.guard(() => this.decodeServerPacket(), 'server', packets));
+    return packets;
+  }
+
+  /** Remaining client packets (Query, Data, Ping, Cancel, ...). */
+  private decodeClientStream(): AstNode[] {
+    const packets: AstNode[] = [];
+    while (this.r.offset < this.c2sEnd) {
       const before = this.r.offset;
       packets.push(this.guard(() => this.decodeClientPacket(), 'client', packets));
       if (this.r.offset <= before) break; // no progress: stop to avoid a loop
@@ -201,10 +276,26 @@ export class ProtocolDecoder {
     return packets;
   }
 
+  /** Up to `limit` server packets from the cursor, stopping before one that is cut off or malformed. */
+  private readWholeServerPackets(limit: number): ServerPacketsRead {
+    const start = this.r.offset;
+    const packets: AstNode[] = [];
+    let end = start;
+    while (end < this.total && packets.length < limit) {
+      try {
+        packets.push(this.decodeServerPacket());
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        return { packets, length: end - start, error, cutOff: isEndOfData(err) };
+      }
+      end = this.r.offset;
+    }
+    return { packets, length: end - start };
+  }
+
   private decodeServerStream(): AstNode[] {
     const packets: AstNode[] = [];
-    if (this.total - this.c2sLength === 0) return packets;
-    while (this.r.offset < this.total) {
+    while (this.r.offset < this.end) {
       const before = this.r.offset;
       packets.push(this.guard(() => this.decodeServerPacket(), 'server', packets));
       if (this.r.offset <= before) break;
@@ -222,7 +313,7 @@ export class ProtocolDecoder {
     try {
       return fn();
     } catch (err) {
-      const end = dir === 'client' ? this.c2sLength : this.total;
+      const end = dir === 'client' ? this.c2sEnd : this.end;
       // Consume the remainder so the stream loop terminates.
       this.r.skip(Math.max(0, end - this.r.offset));
       return {
@@ -258,8 +349,11 @@ export class ProtocolDecoder {
     // The Addendum has no packet type byte — fields go raw on the wire.
     children.push(this.str('quota_key').node);
     if (this.negotiated >= F.CHUNKED_PROTOCOL) {
-      children.push(this.str('proto_send_chunked').node);
-      children.push(this.str('proto_recv_chunked').node);
+      const send = this.str('proto_send_chunked');
+      const recv = this.str('proto_recv_chunked');
+      children.push(send.node, recv.node);
+      this.chunkModes.clientSend = send.value;
+      this.chunkModes.clientRecv = recv.value;
     }
     if (this.negotiated >= F.VERSIONED_PARALLEL_REPLICAS) {
       children.push(this.vu('parallel_replicas_protocol_version').node);
@@ -267,7 +361,8 @@ export class ProtocolDecoder {
     if (this.negotiated >= F.VERSIONED_CLUSTER_FUNCTION) {
       children.push(this.vu('cluster_function_protocol_version').node);
     }
-    return this.packet('Addendum', start, children);
+    this.addendum = this.packet('Addendum', start, children);
+    return this.addendum;
   }
 
   private decodeClientPacket(): AstNode {
@@ -277,7 +372,7 @@ export class ProtocolDecoder {
       case ClientPacket.Query:
         return this.decodeQuery(start);
       case ClientPacket.Data:
-        return this.decodeDataPacket('Data', ClientPacket.Data, start);
+        return this.decodeDataPacket('Data', ClientPacket.Data, start, this.clientCompressionActive());
       case ClientPacket.Cancel:
         return this.bodylessPacket('Cancel', ClientPacket.Cancel, start);
       case ClientPacket.Ping:
@@ -314,12 +409,17 @@ export class ProtocolDecoder {
       children.push(this.str('cluster_secret').node);
     }
     children.push(this.vu('stage').node);
-    children.push(this.vu('compression').node);
-    children.push(this.str('query_body').node);
+    const compression = this.vu('compression');
+    children.push(compression.node);
+    this.queryCompression.push(compression.value !== 0);
+    const body = this.str('query_body');
+    children.push(body.node);
     if (this.negotiated >= F.PARAMETERS) {
       children.push(this.decodeSettingsList('parameters'));
     }
-    return this.packet('Query', start, children);
+    const node = this.packet('Query', start, children);
+    this.flows.push({ queryNode: node, queryBody: body.value, clientBlocks: [], serverBlocks: [] });
+    return node;
   }
 
   private decodeClientInfo(): AstNode {
@@ -393,6 +493,15 @@ export class ProtocolDecoder {
 
   // --- server packets -----------------------------------------------------
 
+  /**
+   * The server finished answering a query. An Exception that refuses the
+   * handshake arrives before the client stream is decoded, when there is no
+   * Query for it to answer, and leaves the index alone.
+   */
+  private queryAnswered(): void {
+    if (this.serverQueryIndex < this.flows.length) this.serverQueryIndex += 1;
+  }
+
   private decodeServerPacket(): AstNode {
     const start = this.r.offset;
     const { value: type } = this.peekTypeOrThrow();
@@ -400,27 +509,31 @@ export class ProtocolDecoder {
       case ServerPacket.Hello:
         return this.decodeServerHello(start);
       case ServerPacket.Data:
-        return this.decodeDataPacket('Data', ServerPacket.Data, start);
-      case ServerPacket.Exception:
-        return this.decodeException(start);
+        return this.decodeDataPacket('Data', ServerPacket.Data, start, this.serverCompressionActive('Data'));
+      case ServerPacket.Exception: {
+        const node = this.decodeException(start);
+        this.queryAnswered();
+        return node;
+      }
       case ServerPacket.Progress:
         return this.decodeProgress(start);
       case ServerPacket.Pong:
         return this.bodylessPacket('Pong', ServerPacket.Pong, start);
       case ServerPacket.EndOfStream:
+        this.queryAnswered();
         return this.bodylessPacket('EndOfStream', ServerPacket.EndOfStream, start);
       case ServerPacket.ProfileInfo:
         return this.decodeProfileInfo(start);
       case ServerPacket.Totals:
-        return this.decodeDataPacket('Totals', ServerPacket.Totals, start);
+        return this.decodeDataPacket('Totals', ServerPacket.Totals, start, this.serverCompressionActive('Totals'));
       case ServerPacket.Extremes:
-        return this.decodeDataPacket('Extremes', ServerPacket.Extremes, start);
+        return this.decodeDataPacket('Extremes', ServerPacket.Extremes, start, this.serverCompressionActive('Extremes'));
       case ServerPacket.Log:
-        return this.decodeDataPacket('Log', ServerPacket.Log, start);
+        return this.decodeDataPacket('Log', ServerPacket.Log, start, this.serverCompressionActive('Log'));
       case ServerPacket.TableColumns:
         return this.decodeTableColumns(start);
       case ServerPacket.ProfileEvents:
-        return this.decodeDataPacket('ProfileEvents', ServerPacket.ProfileEvents, start);
+        return this.decodeDataPacket('ProfileEvents', ServerPacket.ProfileEvents, start, this.serverCompressionActive('ProfileEvents'));
       case ServerPacket.TimezoneUpdate: {
         const children = [this.typeNode('TimezoneUpdate', type), this.str('timezone').node];
         return this.packet('TimezoneUpdate', start, children);
@@ -455,8 +568,11 @@ export class ProtocolDecoder {
       children.push(this.vu('version_patch').node);
     }
     if (this.negotiated >= F.CHUNKED_PROTOCOL) {
-      children.push(this.str('proto_send_chunked_srv').node);
-      children.push(this.str('proto_recv_chunked_srv').node);
+      const send = this.str('proto_send_chunked_srv');
+      const recv = this.str('proto_recv_chunked_srv');
+      children.push(send.node, recv.node);
+      this.chunkModes.serverSend = send.value;
+      this.chunkModes.serverRecv = recv.value;
     }
     if (this.negotiated >= F.PASSWORD_COMPLEXITY_RULES) {
       children.push(this.decodePasswordRules());
@@ -478,9 +594,11 @@ export class ProtocolDecoder {
     // absent from the public spec and source. Consume any trailing VarUInt
     // that can't begin a valid post-hello server packet so the stream stays
     // aligned. See docs/full_native_protocol_spec.md — this is a known gap.
+    // On a chunked stream the next packet starts with its chunk size instead.
+    const chunked = this.chunking().server === true;
     while (this.r.offset < this.total) {
       const peeked = this.peekVarUInt();
-      if (peeked === null || VALID_FIRST_SERVER_PACKET.has(peeked)) break;
+      if (peeked === null || (chunked ? this.chunkFollows() : VALID_FIRST_SERVER_PACKET.has(peeked))) break;
       const node = this.vu('hello_tail_extra_version').node;
       node.metadata = { specGap: true };
       children.push(node);
@@ -570,12 +688,377 @@ export class ProtocolDecoder {
 
   // --- Data-family packets (table_name + Block) ---------------------------
 
-  private decodeDataPacket(name: string, typeCode: number, start: number): AstNode {
+  private decodeDataPacket(name: string, typeCode: number, start: number, compressed: boolean): AstNode {
     const children: AstNode[] = [this.typeNode(name, typeCode)];
     children.push(this.str('table_name').node);
-    const block = this.native.decodeProtocolBlock(this.blockIndex++);
-    children.push(this.blockToAst(block));
-    return this.packet(name, start, children);
+    let block: BlockNode;
+    if (compressed) {
+      const decoded = this.decodeCompressedBlock(start < this.c2sEnd ? this.c2sEnd : this.end);
+      block = decoded.block;
+      children.push(...decoded.nodes);
+    } else {
+      block = this.native.decodeProtocolBlock(this.blockIndex++);
+      children.push(this.blockToAst(block));
+    }
+    const packet = this.packet(name, start, children);
+    if (name === 'Log') packet.displayValue = `Log · ${block.rowCount} message(s)`;
+    if (name === 'ProfileEvents') packet.displayValue = `ProfileEvents · ${block.rowCount} counter(s)`;
+    if (name === 'Data') {
+      if (start < this.c2sEnd) {
+        this.flows[this.flows.length - 1]?.clientBlocks.push({ packet, block });
+      } else {
+        this.flows[this.serverQueryIndex]?.serverBlocks.push({ packet, block });
+      }
+    }
+    return packet;
+  }
+
+  /** Client Data packets are compressed when the latest Query asked for it. */
+  private clientCompressionActive(): boolean {
+    return this.queryCompression[this.queryCompression.length - 1] ?? false;
+  }
+
+  /**
+   * Server packets follow the query currently being answered (queries are
+   * answered in order, each ending with EndOfStream or Exception). Log and
+   * ProfileEvents bodies are only framed from v54481 on.
+   */
+  private serverCompressionActive(name: string): boolean {
+    if (!(this.queryCompression[this.serverQueryIndex] ?? false)) return false;
+    if (name === 'Log' || name === 'ProfileEvents') {
+      return this.negotiated >= F.COMPRESSED_LOGS_PROFILE_EVENTS;
+    }
+    return true;
+  }
+
+  /**
+   * Read the compressed frames carrying one Block and decode the Block from
+   * the decompressed bytes. A Block bigger than the sender's buffer spans
+   * several frames and the last one always ends at the Block boundary, so the
+   * Block is decoded through a reader that pulls the next frame only when a
+   * read runs past the bytes decompressed so far, and must consume them
+   * exactly. Returns the frame nodes followed by the Block node, whose byte
+   * ranges are mapped onto the frame payloads, and the Block as decoded (in
+   * decompressed coordinates).
+   */
+  private decodeCompressedBlock(end: number): { nodes: AstNode[]; block: BlockNode } {
+    const index = this.blockIndex++;
+    const frames: CompressedFrame[] = [];
+    const nextFrame = (): Uint8Array | null => {
+      if (frames.length > 0 && !this.compressedFrameFollows(end)) return null;
+      const frame = readCompressedFrame(this.bytes, this.r.offset, end);
+      this.r.skip(frame.byteRange.end - frame.byteRange.start);
+      frames.push(frame);
+      return frame.data;
+    };
+    const inner = new NativeDecoder(nextFrame()!, this.negotiated);
+    inner.sharedReader.refillFrom(nextFrame);
+    const block = inner.decodeProtocolBlock(index);
+    if (inner.sharedReader.remaining !== 0) {
+      throw new Error(
+        `block ${index} ends ${inner.sharedReader.remaining} byte(s) before the end of its compressed frame(s)`,
+      );
+    }
+
+    const frameNodes = frames.map((f) => compressedFrameToAst(f, () => this.nid()));
+    const blockNode = this.remapDecompressed(this.blockToAst(block), frames, `c${index}:`);
+    blockNode.metadata = {
+      ...blockNode.metadata,
+      compressed: true,
+      frames: frames.length,
+      decompressedBytes: inner.sharedReader.length,
+    };
+    return { nodes: [...frameNodes, blockNode], block };
+  }
+
+  /** Whether the bytes at the cursor look like the start of another compressed frame. */
+  private compressedFrameFollows(end: number): boolean {
+    const headerStart = this.r.offset + COMPRESSED_FRAME_CHECKSUM_SIZE;
+    if (headerStart + COMPRESSED_FRAME_HEADER_SIZE > end) return false;
+    const method = this.bytes[headerStart];
+    return method === CompressionMethod.None || method === CompressionMethod.LZ4 || method === CompressionMethod.ZSTD;
+  }
+
+  /**
+   * Rewrite a subtree decoded from decompressed bytes so it points into the
+   * capture. NONE frames map byte-for-byte; LZ4/ZSTD bytes have no positional
+   * correspondence, so a range maps to the payloads of the frames it touches.
+   * The original offsets are kept in `metadata.decompressedRange`, and ids get
+   * `prefix` since the inner NativeDecoder numbers its nodes from scratch.
+   */
+  private remapDecompressed(node: AstNode, frames: CompressedFrame[], prefix: string): AstNode {
+    const segments: { start: number; end: number; frame: CompressedFrame }[] = [];
+    let offset = 0;
+    for (const frame of frames) {
+      segments.push({ start: offset, end: offset + frame.data.length, frame });
+      offset += frame.data.length;
+    }
+    const segmentAt = (d: number) => segments.find((s) => d < s.end) ?? segments[segments.length - 1];
+    const mapStart = (d: number): number => {
+      const s = segmentAt(d);
+      if (s.frame.method === CompressionMethod.None) {
+        return s.frame.payloadRange.start + Math.min(d - s.start, s.end - s.start);
+      }
+      return s.frame.payloadRange.start;
+    };
+    const mapEnd = (d: number): number => {
+      const s = segmentAt(d - 1);
+      if (s.frame.method === CompressionMethod.None) return s.frame.payloadRange.start + (d - s.start);
+      return s.frame.payloadRange.end;
+    };
+    const visit = (n: AstNode): AstNode => {
+      const { start, end } = n.byteRange;
+      const mappedStart = mapStart(start);
+      return {
+        ...n,
+        id: `${prefix}${n.id}`,
+        byteRange: { start: mappedStart, end: end > start ? mapEnd(end) : mappedStart },
+        metadata: { ...n.metadata, decompressedRange: { start, end } },
+        children: n.children?.map(visit),
+      };
+    };
+    return visit(node);
+  }
+
+  // --- chunked framing ------------------------------------------------------
+
+  /**
+   * Whether each direction is chunked, from the modes both handshakes
+   * announced: false until both are known, null where the sides conflict.
+   */
+  private chunking(): { client: boolean | null; server: boolean | null } {
+    const { clientSend, clientRecv, serverSend, serverRecv } = this.chunkModes;
+    if (clientSend === undefined || clientRecv === undefined || serverSend === undefined || serverRecv === undefined) {
+      return { client: false, server: false };
+    }
+    return { client: negotiateChunked(serverRecv, clientSend), server: negotiateChunked(serverSend, clientRecv) };
+  }
+
+  /** Settle the chunking of both directions, reporting a conflicting one and reading it unchunked. */
+  private settleChunking(diagnostics: Diagnostic[]): ChunkedDirections {
+    const chunking = this.chunking();
+    const { clientSend, clientRecv, serverSend, serverRecv } = this.chunkModes;
+    const conflicts = [
+      chunking.client === null && `client sends ${clientSend} but the server receives ${serverRecv}`,
+      chunking.server === null && `server sends ${serverSend} but the client receives ${clientRecv}`,
+    ];
+    for (const conflict of conflicts) {
+      if (!conflict) continue;
+      diagnostics.push({
+        severity: 'error',
+        code: 'protocol.chunked-conflict',
+        message: `chunked framing conflict: ${conflict}; the server refuses such a connection, read as not chunked`,
+        ...(this.addendum ? { nodeId: this.addendum.id, byteRange: this.addendum.byteRange } : {}),
+      });
+    }
+    return { client: chunking.client === true, server: chunking.server === true };
+  }
+
+  /** Whether the bytes at the cursor look like a chunk size followed by the start of a server packet. */
+  private chunkFollows(): boolean {
+    const bytes = this.r.peekBytes(CHUNK_HEADER_SIZE + 1);
+    if (bytes.length <= CHUNK_HEADER_SIZE) return false;
+    const size = (bytes[0] | (bytes[1] << 8) | (bytes[2] << 16) | (bytes[3] << 24)) >>> 0;
+    return size > 0 && VALID_FIRST_SERVER_PACKET.has(bytes[CHUNK_HEADER_SIZE]);
+  }
+
+  /**
+   * Switch the reader to the packets after the handshakes: the client's from
+   * `clientRest`, the server's from `serverRest`, each with its chunk framing
+   * stripped when chunked. Leaves the reader at the client's and returns where
+   * the server's start, with the chunk headers of each direction.
+   */
+  private unframe(
+    clientRest: number,
+    serverRest: number,
+    chunked: ChunkedDirections,
+  ): { serverStart: number; client: ChunkHeader[]; server: ChunkHeader[] } {
+    const headers: { client: ChunkHeader[]; server: ChunkHeader[] } = { client: [], server: [] };
+    let serverStart = serverRest;
+    if (chunked.client || chunked.server) {
+      const parts: Uint8Array[] = [];
+      let offset = 0;
+      const raw = (start: number, end: number) => {
+        if (end <= start) return;
+        parts.push(this.combined.subarray(start, end));
+        this.runs.push({ offset, start, length: end - start });
+        offset += end - start;
+      };
+      const rest = (start: number, end: number, dir: 'client' | 'server') => {
+        if (!chunked[dir]) return raw(start, end);
+        const stripped = dechunk(this.combined, start, end);
+        parts.push(stripped.data);
+        this.runs.push(...stripped.runs.map((run) => ({ ...run, offset: offset + run.offset })));
+        offset += stripped.data.length;
+        headers[dir] = stripped.headers;
+      };
+      raw(0, clientRest);
+      rest(clientRest, this.c2sLength, 'client');
+      this.c2sEnd = offset;
+      raw(this.c2sLength, serverRest);
+      serverStart = offset;
+      rest(serverRest, this.total, 'server');
+      this.end = offset;
+      this.bytes = new Uint8Array(offset);
+      parts.reduce((at, part) => (this.bytes.set(part, at), at + part.length), 0);
+    }
+    this.native = new NativeDecoder(this.bytes, this.negotiated);
+    this.r = this.native.sharedReader;
+    this.r.skip(clientRest);
+    return { serverStart, ...headers };
+  }
+
+  /**
+   * Map a subtree decoded from the unframed buffer back onto the capture, in
+   * place: the INSERT flows and exchanges hold on to these very nodes.
+   */
+  private remapChunked(node: AstNode, visited: Set<AstNode>): void {
+    if (visited.has(node)) return;
+    visited.add(node);
+    const { start, end } = node.byteRange;
+    const mappedStart = this.runAt(start, false);
+    node.byteRange = { start: mappedStart, end: end > start ? this.runAt(end, true) : mappedStart };
+    for (const child of node.children ?? []) this.remapChunked(child, visited);
+  }
+
+  /**
+   * Capture offset of unframed offset `d`, from the last run starting at or
+   * before it (strictly before it for the end of a range, so a range ending
+   * at a chunk boundary ends in its own chunk). The runs are in offset order.
+   */
+  private runAt(d: number, end: boolean): number {
+    let lo = 0;
+    let hi = this.runs.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      const { offset } = this.runs[mid];
+      if (end ? offset < d : offset <= d) lo = mid;
+      else hi = mid - 1;
+    }
+    const run = this.runs[lo];
+    return run.start + (d - run.offset);
+  }
+
+  /**
+   * Add each chunk header to the packet it frames: the packet starting right
+   * after it, else the one it lies in or ends (a packet's later chunks and
+   * its end marker). The packet's range grows to cover its headers.
+   */
+  private placeChunkHeaders(headers: ChunkHeader[], packets: AstNode[]): void {
+    if (packets.length === 0) return;
+    // Headers and packets are both in capture order: walk them together.
+    const starts = packets.map((packet) => packet.byteRange.start);
+    const placed = new Map<AstNode, AstNode[]>();
+    let last = -1;
+    for (const header of headers) {
+      const { start, end } = header.byteRange;
+      while (last + 1 < starts.length && starts[last + 1] <= start) last++;
+      const owner = starts[last + 1] === end ? packets[last + 1] : packets[Math.max(last, 0)];
+      const nodes = placed.get(owner) ?? [];
+      nodes.push(this.chunkHeaderNode(header));
+      placed.set(owner, nodes);
+    }
+    for (const [owner, nodes] of placed) {
+      owner.children = [...(owner.children ?? []), ...nodes].sort((a, b) => a.byteRange.start - b.byteRange.start);
+      owner.byteRange = {
+        start: Math.min(owner.byteRange.start, nodes[0].byteRange.start),
+        end: Math.max(owner.byteRange.end, nodes[nodes.length - 1].byteRange.end),
+      };
+    }
+  }
+
+  private chunkHeaderNode({ byteRange, size }: ChunkHeader): AstNode {
+    return {
+      id: this.nid(),
+      type: 'Protocol.ChunkHeader',
+      byteRange,
+      value: size,
+      displayValue: size === null ? 'truncated chunk size' : size === 0 ? 'end of packet' : `chunk · ${size} byte(s)`,
+      label: size === 0 ? 'chunk_end' : 'chunk_size',
+    };
+  }
+
+  // --- INSERT flow ----------------------------------------------------------
+
+  /**
+   * Tag the packets of one INSERT conversation and check the client's blocks
+   * against the server's insert schema. Returns a summary for metadata.
+   */
+  private checkInsertFlow(flow: QueryFlow, diagnostics: Diagnostic[]): Record<string, unknown> {
+    const schema = flow.serverBlocks[0];
+    const report = (severity: Diagnostic['severity'], code: string, message: string, node: AstNode) => {
+      const diagnostic: Diagnostic = { severity, code, message, nodeId: node.id, byteRange: node.byteRange };
+      diagnostics.push(diagnostic);
+      node.metadata = { ...node.metadata, diagnostics: [...((node.metadata?.diagnostics as Diagnostic[]) ?? []), diagnostic] };
+    };
+
+    if (schema) {
+      const columns = schema.block.columns.map((c) => `${c.name} ${c.typeString}`).join(', ');
+      schema.packet.displayValue = `Data · insert schema (${columns})`;
+      schema.packet.metadata = { ...schema.packet.metadata, insertRole: 'schema' };
+    }
+
+    let dataBlocks = 0;
+    let rows = 0;
+    flow.clientBlocks.forEach(({ packet, block }, i) => {
+      const isLast = i === flow.clientBlocks.length - 1;
+      if (block.columns.length === 0 && block.rowCount === 0) {
+        if (isLast && dataBlocks > 0) {
+          packet.displayValue = 'Data · end of insert data';
+          packet.metadata = { ...packet.metadata, insertRole: 'end' };
+        }
+        return;
+      }
+      dataBlocks += 1;
+      rows += block.rowCount;
+      packet.displayValue = `Data · insert data (${block.rowCount} row(s))`;
+      packet.metadata = { ...packet.metadata, insertRole: 'data' };
+
+      if (!schema) {
+        report('warning', 'insert.no-schema', 'INSERT data block sent without a server insert schema block', packet);
+        return;
+      }
+      const expected = schema.block.columns;
+      if (block.columns.length !== expected.length) {
+        report(
+          'error',
+          'insert.column-count',
+          `INSERT block has ${block.columns.length} column(s); the insert schema has ${expected.length}`,
+          packet,
+        );
+      }
+      block.columns.slice(0, expected.length).forEach((col, j) => {
+        if (col.name !== expected[j].name) {
+          report(
+            'error',
+            'insert.column-name',
+            `INSERT block column ${j} is '${col.name}'; the insert schema expects '${expected[j].name}'`,
+            packet,
+          );
+        }
+        if (col.typeString !== expected[j].typeString) {
+          report(
+            'error',
+            'insert.column-type',
+            `INSERT block column '${col.name}' is ${col.typeString}; the insert schema expects ${expected[j].typeString}`,
+            packet,
+          );
+        }
+      });
+    });
+
+    const last = flow.clientBlocks[flow.clientBlocks.length - 1];
+    if (dataBlocks > 0 && last && last.block.columns.length + last.block.rowCount > 0) {
+      report('warning', 'insert.unterminated', 'INSERT data is not followed by the terminating empty block', last.packet);
+    }
+
+    return {
+      queryNodeId: flow.queryNode.id,
+      schemaNodeId: schema?.packet.id ?? null,
+      schema: schema?.block.columns.map((c) => ({ name: c.name, type: c.typeString })) ?? null,
+      dataBlocks,
+      rows,
+    };
   }
 
   private blockToAst(block: BlockNode): AstNode {
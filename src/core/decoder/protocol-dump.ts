@@ -1,29 +1,53 @@
-import { ProtocolCapture } from './protocol-decoder';
+import { ProtocolCapture, ProtocolDecoder } from './protocol-decoder';
+import { ParsedData } from '../types/ast';
 
 /**
  * Parser for the `.chproto` capture dump format written by the proxy harness
  * (scripts/native-proxy.mjs). The format is:
  *
- *   magic     "CHPROTO1"   (8 bytes ASCII)
+ *   magic     "CHPROTO2"   (8 bytes ASCII; "CHPROTO1" for dumps without times)
  *   metaLen   u32 LE
  *   meta      metaLen bytes (UTF-8 JSON)
- *   segments  repeated: [dir u8][len u32 LE][len bytes]
+ *   segments  repeated: [dir u8][time u64 LE, CHPROTO2 only][len u32 LE][len bytes]
  *
- * where dir 0 = client→server, 1 = server→client. Segments of the same
- * direction are concatenated into one contiguous stream (a packet may be split
- * across TCP segments, so each direction must be decoded as one buffer).
+ * where dir 0 = client→server, 1 = server→client, and time is microseconds
+ * since the connection was accepted. Segments of the same direction are
+ * concatenated into one contiguous stream (a packet may be split across TCP
+ * segments, so each direction must be decoded as one buffer); where each
+ * segment lies in its stream, and when it was seen, is kept in `segments`.
+ * encodeChprotoDump writes the same format without Node's Buffer, so dumps can
+ * also be produced in the browser.
  */
 const MAGIC = 'CHPROTO1';
+const MAGIC_TIMED = 'CHPROTO2';
 const DIR_C2S = 0;
 const DIR_S2C = 1;
 const TEXT_DECODER = new TextDecoder();
+const TEXT_ENCODER = new TextEncoder();
 
-export function parseChprotoDump(buf: Uint8Array): ProtocolCapture {
+/** One captured TCP segment, located in its direction's stream */
+export interface CaptureSegment {
+  /** 0 = client → server, 1 = server → client */
+  dir: number;
+  /** Where the segment starts in `c2s` / `s2c` */
+  offset: number;
+  length: number;
+  /** Microseconds since the connection was accepted (CHPROTO2 dumps only) */
+  time?: number;
+}
+
+/** A dump's capture, with the TCP segments its streams were recorded as, in the order seen */
+export interface ChprotoCapture extends ProtocolCapture {
+  segments: CaptureSegment[];
+}
+
+export function parseChprotoDump(buf: Uint8Array): ChprotoCapture {
   const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
   const magic = TEXT_DECODER.decode(buf.subarray(0, MAGIC.length));
-  if (magic !== MAGIC) {
+  if (magic !== MAGIC && magic !== MAGIC_TIMED) {
     throw new Error('not a CHPROTO dump (bad magic)');
   }
+  const timed = magic === MAGIC_TIMED;
   let pos = MAGIC.length;
   const metaLen = view.getUint32(pos, true);
   pos += 4;
@@ -32,9 +56,16 @@ export function parseChprotoDump(buf: Uint8Array): ProtocolCapture {
 
   const c2sChunks: Uint8Array[] = [];
   const s2cChunks: Uint8Array[] = [];
+  const segments: CaptureSegment[] = [];
+  const streamLength = [0, 0];
   while (pos < buf.length) {
     const dir = view.getUint8(pos);
     pos += 1;
+    let time: number | undefined;
+    if (timed) {
+      time = Number(view.getBigUint64(pos, true));
+      pos += 8;
+    }
     const len = view.getUint32(pos, true);
     pos += 4;
     const chunk = buf.subarray(pos, pos + len);
@@ -42,9 +73,62 @@ export function parseChprotoDump(buf: Uint8Array): ProtocolCapture {
     if (dir === DIR_C2S) c2sChunks.push(chunk);
     else if (dir === DIR_S2C) s2cChunks.push(chunk);
     else throw new Error(`unknown segment direction ${dir}`);
+    segments.push({ dir, offset: streamLength[dir], length: chunk.length, ...(time !== undefined ? { time } : {}) });
+    streamLength[dir] += chunk.length;
   }
 
-  return { c2s: concat(c2sChunks), s2c: concat(s2cChunks), meta };
+  return { c2s: concat(c2sChunks), s2c: concat(s2cChunks), meta, segments };
+}
+
+/**
+ * Decode a dump as the NativeProtocol conversation it records. The nodes index
+ * into `combined`: the client stream followed by the server stream.
+ */
+export function decodeChprotoDump(buf: Uint8Array): {
+  combined: Uint8Array;
+  parsed: ParsedData;
+  c2sLength: number;
+  segments: CaptureSegment[];
+} {
+  const capture = parseChprotoDump(buf);
+  const combined = new Uint8Array(capture.c2s.length + capture.s2c.length);
+  combined.set(capture.c2s, 0);
+  combined.set(capture.s2c, capture.c2s.length);
+  const parsed = new ProtocolDecoder(combined, capture.c2s.length).decode();
+  return { combined, parsed, c2sLength: capture.c2s.length, segments: capture.segments };
+}
+
+export interface ChprotoSegment {
+  dir: number;
+  data: Uint8Array;
+  /** Microseconds since the connection was accepted */
+  time?: number;
+}
+
+/** Write a dump: CHPROTO2 when every segment has its time, CHPROTO1 otherwise. */
+export function encodeChprotoDump(capture: { meta?: Record<string, unknown>; segments: ChprotoSegment[] }): Uint8Array {
+  const timed = capture.segments.length > 0 && capture.segments.every((seg) => seg.time !== undefined);
+  const meta = TEXT_ENCODER.encode(JSON.stringify(capture.meta ?? {}));
+  const chunks: Uint8Array[] = [TEXT_ENCODER.encode(timed ? MAGIC_TIMED : MAGIC), u32(meta.length), meta];
+  for (const seg of capture.segments) {
+    if (seg.dir !== DIR_C2S && seg.dir !== DIR_S2C) throw new Error(`unknown segment direction ${seg.dir}`);
+    chunks.push(Uint8Array.of(seg.dir));
+    if (timed) chunks.push(u64(seg.time!));
+    chunks.push(u32(seg.data.length), seg.data);
+  }
+  return concat(chunks);
+}
+
+function u32(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value, true);
+  return out;
+}
+
+function u64(value: number): Uint8Array {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setBigUint64(0, BigInt(Math.round(value)), true);
+  return out;
 }
 
 function concat(chunks: Uint8Array[]): Uint8Array {
@@ -0,0 +1,117 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { encodeProtocolScript } from '../encoder/protocol-encoder';
+import { ProtocolScript, ScriptPacket } from '../encoder/protocol-script';
+import { ProtocolDecoder } from './protocol-decoder';
+import { parseChprotoDump } from './protocol-dump';
+import { profileEventsOf, serverLogOf } from './protocol-events';
+
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'protocol');
+
+function decodeFixture(name: string) {
+  return ProtocolDecoder.fromCapture(parseChprotoDump(readFileSync(path.join(FIXTURE_DIR, name)))).decode();
+}
+
+type EventRow = [host: string, thread: number, type: 'increment' | 'gauge', name: string, value: number];
+
+function profileEvents(rows: EventRow[]): ScriptPacket {
+  const column = (name: string, type: string, pick: (row: EventRow) => unknown) => ({
+    name,
+    type,
+    values: rows.map(pick),
+  });
+  return {
+    dir: 'server',
+    type: 'ProfileEvents',
+    table_name: '',
+    block: {
+      rows: rows.length,
+      columns: [
+        column('host_name', 'String', (row) => row[0]),
+        column('current_time', 'DateTime', () => 1781006644),
+        column('thread_id', 'UInt64', (row) => BigInt(row[1])),
+        column('type', "Enum8('increment' = 1, 'gauge' = 2)", (row) => row[2]),
+        column('name', 'String', (row) => row[3]),
+        column('value', 'Int64', (row) => BigInt(row[4])),
+      ],
+    },
+  };
+}
+
+/** Two queries on one connection, the first reporting its counters twice and per thread */
+const SESSION: ProtocolScript = {
+  packets: [
+    { dir: 'client', type: 'ClientHello', protocol_version: 54483 },
+    { dir: 'server', type: 'ServerHello', version_major: 26, version_minor: 2, protocol_version: 54483 },
+    { dir: 'client', type: 'Addendum' },
+    { dir: 'client', type: 'Query', query_id: 'q-1', query_body: 'SELECT count() FROM t' },
+    { dir: 'client', type: 'Data' },
+    profileEvents([
+      ['a', 0, 'increment', 'SelectedRows', 10],
+      ['a', 7, 'increment', 'SelectedRows', 4],
+      ['a', 7, 'increment', 'SelectedRows', 6],
+      ['a', 0, 'gauge', 'MemoryTrackerUsage', 100],
+      ['b', 9, 'increment', 'SelectedRows', 3],
+    ]),
+    profileEvents([
+      ['a', 0, 'increment', 'SelectedRows', 5],
+      ['a', 0, 'gauge', 'MemoryTrackerUsage', 80],
+      ['b', 9, 'gauge', 'MemoryTrackerUsage', 20],
+    ]),
+    { dir: 'server', type: 'EndOfStream' },
+    { dir: 'client', type: 'Query', query_id: 'q-2', query_body: 'SELECT 1' },
+    { dir: 'client', type: 'Data' },
+    profileEvents([['a', 0, 'increment', 'SelectedRows', 1]]),
+    { dir: 'server', type: 'EndOfStream' },
+  ],
+};
+
+function decodeSession() {
+  return ProtocolDecoder.fromCapture(encodeProtocolScript(SESSION)).decode();
+}
+
+describe('server log', () => {
+  it('reads every row of the Log packets', () => {
+    const entries = serverLogOf(decodeFixture('06-logs.chproto'));
+    expect(entries).toHaveLength(11);
+    expect(entries[0]).toMatchObject({
+      time: '2026-06-09 12:04:04.776416',
+      level: 'Debug',
+      priority: 7,
+      source: 'executeQuery',
+      exchange: 0,
+    });
+    expect(entries.every((entry) => entry.text !== '' && entry.nodeId !== entry.packetId)).toBe(true);
+  });
+
+  it('is empty for a capture without Log packets', () => {
+    expect(serverLogOf(decodeSession())).toEqual([]);
+  });
+});
+
+describe('profile events', () => {
+  it('sums increments and keeps the latest gauge reading per host', () => {
+    expect(profileEventsOf(decodeSession(), 0)).toEqual([
+      // Host a's thread 7 rows are covered by its thread_id 0 rows; host b only sent per-thread rows.
+      { name: 'SelectedRows', type: 'increment', value: 18, samples: 3 },
+      { name: 'MemoryTrackerUsage', type: 'gauge', value: 100, samples: 3 },
+    ]);
+  });
+
+  it('adds up every exchange unless narrowed to one', () => {
+    const parsed = decodeSession();
+    expect(profileEventsOf(parsed, 1)).toEqual([{ name: 'SelectedRows', type: 'increment', value: 1, samples: 1 }]);
+    expect(profileEventsOf(parsed).find((event) => event.name === 'SelectedRows')?.value).toBe(19);
+  });
+
+  it('reads the counters of a real capture', () => {
+    const events = profileEventsOf(decodeFixture('06-logs.chproto'));
+    expect(events).toHaveLength(40);
+    expect(events.find((event) => event.name === 'MemoryTrackerPeakUsage')).toMatchObject({
+      type: 'gauge',
+      value: 637519,
+    });
+  });
+});
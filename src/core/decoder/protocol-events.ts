@@ -0,0 +1,162 @@
+import { AstNode, ParsedData } from '../types/ast';
+
+/**
+ * What the server reports about its own work while answering a query: the
+ * `send_logs_level` messages it forwards in Log packets and the counters in
+ * ProfileEvents packets. Both arrive as Native blocks with a fixed set of
+ * columns; these helpers read those columns back out of a decoded capture.
+ */
+
+/** Poco message priorities, as the Log `priority` column carries them */
+export const LOG_PRIORITIES: Record<number, string> = {
+  1: 'Fatal',
+  2: 'Critical',
+  3: 'Error',
+  4: 'Warning',
+  5: 'Notice',
+  6: 'Information',
+  7: 'Debug',
+  8: 'Trace',
+  9: 'Test',
+};
+
+/** One row of a Log packet */
+export interface ServerLogEntry {
+  /** The Log packet the row came from */
+  packetId: string;
+  /** Node of the row's `text` value */
+  nodeId: string;
+  /** `event_time` with `event_time_microseconds`, as `YYYY-MM-DD hh:mm:ss.uuuuuu` UTC */
+  time: string;
+  host: string;
+  queryId: string;
+  threadId: string;
+  priority: number;
+  /** Name of `priority` (Debug, Information, ...) */
+  level: string;
+  source: string;
+  text: string;
+  /** Index of the exchange the packet answers */
+  exchange?: number;
+}
+
+/** How a ProfileEvents counter adds up: deltas since the last packet, or a current reading */
+export type ProfileEventType = 'increment' | 'gauge';
+
+/** One ProfileEvents counter over a capture */
+export interface ProfileEventTotal {
+  name: string;
+  type: ProfileEventType;
+  /** Sum of the increments, or the latest gauge reading (summed over hosts) */
+  value: number;
+  /** Rows that went into `value` */
+  samples: number;
+}
+
+/** The first Native block in a packet (under its frames when compressed) */
+function blockOf(node: AstNode): AstNode | null {
+  if (node.type === 'Native.Block') return node;
+  for (const child of node.children ?? []) {
+    const block = blockOf(child);
+    if (block) return block;
+  }
+  return null;
+}
+
+/** The value nodes of a block's columns, by column name */
+function columnsOf(packet: AstNode): { rows: number; columns: Map<string, AstNode[]> } {
+  const block = blockOf(packet);
+  const columns = new Map<string, AstNode[]>();
+  if (!block) return { rows: 0, columns };
+  const { rows } = block.value as { rows: number };
+  for (const column of (block.children ?? []).slice(1)) {
+    const children = column.children ?? [];
+    columns.set(String(column.label), rows > 0 ? children.slice(-rows) : []);
+  }
+  return { rows, columns };
+}
+
+function serverPackets(parsed: ParsedData, label: string): AstNode[] {
+  const server = parsed.trailingNodes?.[1];
+  return (server?.children ?? []).filter((packet) => packet.label === label);
+}
+
+function formatTime(seconds: unknown, micros: unknown): string {
+  const date = seconds instanceof Date ? seconds : new Date(Number(seconds ?? 0) * 1000);
+  const stamp = Number.isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 19).replace('T', ' ');
+  return micros === undefined ? stamp : `${stamp}.${String(micros).padStart(6, '0')}`;
+}
+
+/** The rows of every Log packet the server sent, in the order sent */
+export function serverLogOf(parsed: ParsedData): ServerLogEntry[] {
+  const entries: ServerLogEntry[] = [];
+  for (const packet of serverPackets(parsed, 'Log')) {
+    const { rows, columns } = columnsOf(packet);
+    const at = (name: string, row: number) => columns.get(name)?.[row]?.value;
+    const text = columns.get('text') ?? [];
+    for (let row = 0; row < rows; row++) {
+      const priority = Number(at('priority', row) ?? 0);
+      entries.push({
+        packetId: packet.id,
+        nodeId: text[row]?.id ?? packet.id,
+        time: formatTime(at('event_time', row), at('event_time_microseconds', row)),
+        host: String(at('host_name', row) ?? ''),
+        queryId: String(at('query_id', row) ?? ''),
+        threadId: String(at('thread_id', row) ?? ''),
+        priority,
+        level: LOG_PRIORITIES[priority] ?? String(priority),
+        source: String(at('source', row) ?? ''),
+        text: String(at('text', row) ?? ''),
+        ...(packet.metadata?.exchange !== undefined ? { exchange: packet.metadata.exchange as number } : {}),
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * The ProfileEvents counters of a capture, or of one of its exchanges, one
+ * per event name in the order first seen. A row with thread_id 0 covers the
+ * whole query on its host and per-thread rows break it down, so only the
+ * former are counted when a host sent any. Increments are deltas since the
+ * previous packet and add up; a gauge is a reading, so the latest one of each
+ * host counts.
+ */
+export function profileEventsOf(parsed: ParsedData, exchange?: number): ProfileEventTotal[] {
+  const rows: { host: string; thread: string; type: ProfileEventType; name: string; value: number }[] = [];
+  for (const packet of serverPackets(parsed, 'ProfileEvents')) {
+    if (exchange !== undefined && packet.metadata?.exchange !== exchange) continue;
+    const { rows: count, columns } = columnsOf(packet);
+    const at = (name: string, row: number) => columns.get(name)?.[row]?.value;
+    for (let row = 0; row < count; row++) {
+      rows.push({
+        host: String(at('host_name', row) ?? ''),
+        thread: String(at('thread_id', row) ?? ''),
+        type: Number(at('type', row)) === 2 ? 'gauge' : 'increment',
+        name: String(at('name', row) ?? ''),
+        value: Number(at('value', row) ?? 0),
+      });
+    }
+  }
+
+  const groupHosts = new Set(rows.filter((row) => row.thread === '0').map((row) => row.host));
+  const totals = new Map<string, ProfileEventTotal>();
+  const gauges = new Map<string, Map<string, number>>();
+  for (const row of rows) {
+    if (groupHosts.has(row.host) && row.thread !== '0') continue;
+    let total = totals.get(row.name);
+    if (!total) {
+      total = { name: row.name, type: row.type, value: 0, samples: 0 };
+      totals.set(row.name, total);
+    }
+    total.samples += 1;
+    if (row.type === 'increment') {
+      total.value += row.value;
+      continue;
+    }
+    const readings = gauges.get(row.name) ?? new Map<string, number>();
+    gauges.set(row.name, readings.set(row.host, row.value));
+    total.value = [...readings.values()].reduce((sum, value) => sum + value, 0);
+  }
+  return [...totals.values()];
+}
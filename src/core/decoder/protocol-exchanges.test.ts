@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { encodeProtocolScript } from '../encoder/protocol-encoder';
+import { ProtocolScript } from '../encoder/protocol-script';
+import { ProtocolDecoder } from './protocol-decoder';
+import { exchangesOf, selectExchange } from './protocol-exchanges';
+
+/** A pooled connection: two queries with a Ping between them, the second failing, and a third left unanswered */
+const SESSION: ProtocolScript = {
+  packets: [
+    { dir: 'client', type: 'ClientHello', protocol_version: 54483 },
+    { dir: 'server', type: 'ServerHello', version_major: 26, version_minor: 2, protocol_version: 54483 },
+    { dir: 'client', type: 'Addendum' },
+    { dir: 'client', type: 'Query', query_id: 'q-1', query_body: 'SELECT number FROM numbers(3)' },
+    { dir: 'client', type: 'Data' },
+    { dir: 'server', type: 'Progress', rows: 3, bytes: 3, total_rows: 3 },
+    {
+      dir: 'server',
+      type: 'Data',
+      block: { rows: 3, columns: [{ name: 'number', type: 'UInt8', data: '000102' }] },
+    },
+    { dir: 'server', type: 'EndOfStream' },
+    { dir: 'client', type: 'Ping' },
+    { dir: 'server', type: 'Pong' },
+    { dir: 'client', type: 'Query', query_id: 'q-2', query_body: 'SELECT nope' },
+    { dir: 'client', type: 'Data' },
+    { dir: 'server', type: 'Exception', code: 47, message: 'Unknown identifier nope' },
+    { dir: 'client', type: 'Query', query_id: 'q-3', query_body: 'SELECT 1' },
+    { dir: 'client', type: 'Data' },
+  ],
+};
+
+function decodeSession() {
+  return ProtocolDecoder.fromCapture(encodeProtocolScript(SESSION)).decode();
+}
+
+describe('protocol exchanges', () => {
+  it('splits a connection into one exchange per query', () => {
+    const exchanges = exchangesOf(decodeSession());
+    expect(exchanges.map(({ queryId, query, status, rows }) => ({ queryId, query, status, rows }))).toEqual([
+      { queryId: 'q-1', query: 'SELECT number FROM numbers(3)', status: 'ok', rows: 3 },
+      { queryId: 'q-2', query: 'SELECT nope', status: 'exception', rows: 0 },
+      { queryId: 'q-3', query: 'SELECT 1', status: 'incomplete', rows: 0 },
+    ]);
+    expect(exchanges[1].exception).toBe('Unknown identifier nope');
+  });
+
+  it('tags the packets of each exchange and leaves hellos and ping / pong out', () => {
+    const [client, server] = decodeSession().trailingNodes!;
+    const tags = (packets: typeof client.children) => packets!.map((p) => `${p.label}:${p.metadata?.exchange ?? '-'}`);
+    expect(tags(client.children)).toEqual([
+      'ClientHello:-',
+      'Addendum:-',
+      'Query:0',
+      'Data:0',
+      'Ping:-',
+      'Query:1',
+      'Data:1',
+      'Query:2',
+      'Data:2',
+    ]);
+    expect(tags(server.children)).toEqual([
+      'ServerHello:-',
+      'Progress:0',
+      'Data:0',
+      'EndOfStream:0',
+      'Pong:-',
+      'Exception:1',
+    ]);
+  });
+
+  it('cuts a decode down to one exchange', () => {
+    const parsed = decodeSession();
+    const selected = selectExchange(parsed, 1);
+    const [client, server] = selected.trailingNodes!;
+    expect(client.children!.map((p) => p.label)).toEqual(['Query', 'Data']);
+    expect(server.children!.map((p) => p.label)).toEqual(['Exception']);
+    expect(exchangesOf(selected)).toEqual([exchangesOf(parsed)[1]]);
+    expect(selected.metadata?.negotiatedVersion).toBe(parsed.metadata?.negotiatedVersion);
+    expect(() => selectExchange(parsed, 3)).toThrow('no query 3; the capture has 3');
+  });
+});
@@ -0,0 +1,138 @@
+import { AstNode, ParsedData } from '../types/ast';
+
+/** How the server ended an exchange: EndOfStream, Exception, or not at all within the capture */
+export type ExchangeStatus = 'ok' | 'exception' | 'incomplete';
+
+/**
+ * One query on a connection: the client's Query with the data sent after it,
+ * and the server's packets up to its EndOfStream / Exception.
+ */
+export interface ProtocolExchange {
+  index: number;
+  queryId: string;
+  query: string;
+  status: ExchangeStatus;
+  /** Rows in the server's Data blocks */
+  rows: number;
+  /** Message of the Exception that ended the exchange */
+  exception?: string;
+  queryNodeId: string;
+  clientPacketIds: string[];
+  serverPacketIds: string[];
+}
+
+/** Client packets that belong to the Query before them */
+const QUERY_FOLLOW_UPS = new Set(['Data', 'Cancel']);
+/** Server packets outside any exchange */
+const CONNECTION_PACKETS = new Set(['ServerHello', 'Pong']);
+
+function childValue(node: AstNode, label: string): unknown {
+  return node.children?.find((child) => child.label === label)?.value;
+}
+
+/** Rows of the first Native block in a packet (under its frames when compressed) */
+function blockRows(node: AstNode): number {
+  if (node.type === 'Native.Block') return (node.value as { rows: number }).rows;
+  for (const child of node.children ?? []) {
+    const rows = blockRows(child);
+    if (rows >= 0) return rows;
+  }
+  return -1;
+}
+
+function exceptionMessage(packet: AstNode): string | undefined {
+  const exception = packet.children?.find((child) => child.label === 'exception');
+  return exception ? String(childValue(exception, 'message')) : undefined;
+}
+
+function tag(packet: AstNode, index: number): void {
+  packet.metadata = { ...packet.metadata, exchange: index };
+}
+
+/**
+ * Split a connection's packets into per-query exchanges, tagging each packet
+ * with the index of its exchange (`metadata.exchange`). Hellos, Ping / Pong
+ * and anything else between exchanges stay untagged. The server answers
+ * queries in order, so its packets are assigned to the oldest unanswered one.
+ */
+export function segmentExchanges(clientPackets: AstNode[], serverPackets: AstNode[]): ProtocolExchange[] {
+  const exchanges: ProtocolExchange[] = [];
+  let current: ProtocolExchange | null = null;
+  for (const packet of clientPackets) {
+    if (packet.label === 'Query') {
+      current = {
+        index: exchanges.length,
+        queryId: String(childValue(packet, 'query_id') ?? ''),
+        query: String(childValue(packet, 'query_body') ?? ''),
+        status: 'incomplete',
+        rows: 0,
+        queryNodeId: packet.id,
+        clientPacketIds: [],
+        serverPacketIds: [],
+      };
+      exchanges.push(current);
+    } else if (!current || !QUERY_FOLLOW_UPS.has(packet.label ?? '')) {
+      current = null;
+      continue;
+    }
+    current.clientPacketIds.push(packet.id);
+    tag(packet, current.index);
+  }
+
+  let answering = 0;
+  for (const packet of serverPackets) {
+    const exchange = exchanges[answering];
+    if (!exchange || CONNECTION_PACKETS.has(packet.label ?? '')) continue;
+    exchange.serverPacketIds.push(packet.id);
+    tag(packet, exchange.index);
+    if (packet.label === 'Data') exchange.rows += Math.max(blockRows(packet), 0);
+    if (packet.label === 'EndOfStream' || packet.label === 'Exception') {
+      exchange.status = packet.label === 'EndOfStream' ? 'ok' : 'exception';
+      if (packet.label === 'Exception') exchange.exception = exceptionMessage(packet);
+      answering += 1;
+    }
+  }
+  return exchanges;
+}
+
+/** The exchanges the decoder found in a protocol capture (none for other formats) */
+export function exchangesOf(parsed: ParsedData): ProtocolExchange[] {
+  return (parsed.metadata?.exchanges as ProtocolExchange[] | undefined) ?? [];
+}
+
+/**
+ * A protocol decode cut down to one exchange: each stream keeps only that
+ * exchange's packets, with the diagnostics and INSERT summary about them.
+ * Byte ranges still index into the whole capture.
+ */
+export function selectExchange(parsed: ParsedData, index: number): ParsedData {
+  const exchanges = exchangesOf(parsed);
+  const exchange = exchanges[index];
+  if (!exchange) {
+    throw new Error(`Exchange: no query ${index}; the capture has ${exchanges.length} (0-${exchanges.length - 1})`);
+  }
+  const kept = new Set([...exchange.clientPacketIds, ...exchange.serverPacketIds]);
+  const trailingNodes = parsed.trailingNodes?.map((stream) => {
+    const children = (stream.children ?? []).filter((packet) => kept.has(packet.id));
+    return {
+      ...stream,
+      value: children.length,
+      displayValue: `${stream.label} · query ${index} · ${children.length} packet(s)`,
+      children,
+    };
+  });
+  const ranges = (trailingNodes ?? []).flatMap((stream) => stream.children.map((packet) => packet.byteRange));
+  const inExchange = (range: { start: number; end: number } | undefined) =>
+    !!range && ranges.some((r) => range.start >= r.start && range.end <= r.end);
+  const insertFlows = parsed.metadata?.insertFlows as { queryNodeId: string }[] | undefined;
+  const flows = insertFlows?.filter((flow) => flow.queryNodeId === exchange.queryNodeId);
+
+  const metadata: Record<string, unknown> = { ...parsed.metadata, exchanges: [exchange] };
+  delete metadata.insertFlows;
+  if (flows && flows.length > 0) metadata.insertFlows = flows;
+  const selected: ParsedData = { ...parsed, trailingNodes, metadata };
+  delete selected.diagnostics;
+  const diagnostics = parsed.diagnostics?.filter((d) => inExchange(d.byteRange));
+  if (diagnostics && diagnostics.length > 0) selected.diagnostics = diagnostics;
+  return selected;
+}
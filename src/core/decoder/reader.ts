@@ -1,20 +1,50 @@
 import { ByteRange } from '../types/ast';
 
+const END_OF_DATA = 'Unexpected end of data';
+
+/**
+ * Whether `err` is a read past the end of the data, i.e. the bytes are cut
+ * short rather than malformed. DataView reads throw RangeError; readBytes
+ * says how many bytes it needed.
+ */
+export function isEndOfData(err: unknown): boolean {
+  return err instanceof RangeError || (err instanceof Error && err.message.startsWith(END_OF_DATA));
+}
+
 /**
- * Binary reader with byte-range tracking for highlighting
+ * Binary reader with byte-range tracking for highlighting.
+ *
+ * `origin` is the offset of `data` within a longer stream: offsets and
+ * ranges are reported relative to the stream, so a window decoded on its own
+ * indexes into the same buffer as the windows before it.
+ *
+ * A reader given a `source` (see refillFrom) reads across the chunks it hands
+ * out, as if they were one buffer: a read running past the end appends the
+ * next chunk first.
  */
 export class BinaryReader {
   private data: DataView;
   private bytes: Uint8Array;
   private pos: number = 0;
+  private readonly origin: number;
+  private source: (() => Uint8Array | null) | null = null;
+  /** Backing store the chunks from `source` are appended to; `bytes` is its filled front */
+  private buffer: Uint8Array;
 
-  constructor(data: Uint8Array) {
+  constructor(data: Uint8Array, origin = 0) {
     this.bytes = data;
+    this.buffer = data;
     this.data = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    this.origin = origin;
   }
 
   get offset(): number {
-    return this.pos;
+    return this.origin + this.pos;
+  }
+
+  /** Stream offset just past the last byte */
+  get end(): number {
+    return this.origin + this.bytes.length;
   }
 
   get remaining(): number {
@@ -25,22 +55,54 @@ export class BinaryReader {
     return this.bytes.length;
   }
 
+  /**
+   * Pull further bytes from `source` whenever a read needs more than are
+   * left, until it returns null. The buffer grows geometrically, so reading
+   * across N chunks copies each byte a bounded number of times.
+   */
+  refillFrom(source: () => Uint8Array | null): void {
+    this.source = source;
+  }
+
+  /** Make `count` bytes from the cursor readable if the source has them; a read beyond still fails as usual */
+  private ensure(count: number): void {
+    while (this.source && this.pos + count > this.bytes.length) {
+      const chunk = this.source();
+      if (!chunk) {
+        this.source = null;
+        return;
+      }
+      const length = this.bytes.length + chunk.length;
+      if (length > this.buffer.length || this.buffer === this.bytes) {
+        const grown = new Uint8Array(Math.max(length, this.buffer.length * 2));
+        grown.set(this.bytes);
+        this.buffer = grown;
+      }
+      this.buffer.set(chunk, this.bytes.length);
+      this.bytes = this.buffer.subarray(0, length);
+      this.data = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+    }
+  }
+
   peekBytes(count: number): Uint8Array {
+    this.ensure(count);
     return this.bytes.slice(this.pos, Math.min(this.pos + count, this.bytes.length));
   }
 
   private makeRange(start: number): ByteRange {
-    return { start, end: this.pos };
+    return { start: this.origin + start, end: this.offset };
   }
 
   // Unsigned integers
   readUInt8(): { value: number; range: ByteRange } {
+    this.ensure(1);
     const start = this.pos;
     const value = this.data.getUint8(this.pos++);
     return { value, range: this.makeRange(start) };
   }
 
   readUInt16LE(): { value: number; range: ByteRange } {
+    this.ensure(2);
     const start = this.pos;
     const value = this.data.getUint16(this.pos, true);
     this.pos += 2;
@@ -48,6 +110,7 @@ export class BinaryReader {
   }
 
   readUInt32LE(): { value: number; range: ByteRange } {
+    this.ensure(4);
     const start = this.pos;
     const value = this.data.getUint32(this.pos, true);
     this.pos += 4;
@@ -55,6 +118,7 @@ export class BinaryReader {
   }
 
   readUInt64LE(): { value: bigint; range: ByteRange } {
+    this.ensure(8);
     const start = this.pos;
     const value = this.data.getBigUint64(this.pos, true);
     this.pos += 8;
@@ -64,6 +128,7 @@ export class BinaryReader {
   // For 128-bit unsigned integers
   // Read as two 64-bit unsigned halves and combine
   readUInt128LE(): { value: bigint; range: ByteRange } {
+    this.ensure(16);
     const start = this.pos;
     const low = this.data.getBigUint64(this.pos, true);
     const high = this.data.getBigUint64(this.pos + 8, true);
@@ -75,6 +140,7 @@ export class BinaryReader {
   // For 256-bit unsigned integers
   // Read as four 64-bit unsigned halves and combine
   readUInt256LE(): { value: bigint; range: ByteRange } {
+    this.ensure(32);
     const start = this.pos;
     const p0 = this.data.getBigUint64(this.pos, true);
     const p1 = this.data.getBigUint64(this.pos + 8, true);
@@ -87,12 +153,14 @@ export class BinaryReader {
 
   // Signed integers
   readInt8(): { value: number; range: ByteRange } {
+    this.ensure(1);
     const start = this.pos;
     const value = this.data.getInt8(this.pos++);
     return { value, range: this.makeRange(start) };
   }
 
   readInt16LE(): { value: number; range: ByteRange } {
+    this.ensure(2);
     const start = this.pos;
     const value = this.data.getInt16(this.pos, true);
     this.pos += 2;
@@ -100,6 +168,7 @@ export class BinaryReader {
   }
 
   readInt32LE(): { value: number; range: ByteRange } {
+    this.ensure(4);
     const start = this.pos;
     const value = this.data.getInt32(this.pos, true);
     this.pos += 4;
@@ -107,6 +176,7 @@ export class BinaryReader {
   }
 
   readInt64LE(): { value: bigint; range: ByteRange } {
+    this.ensure(8);
     const start = this.pos;
     const value = this.data.getBigInt64(this.pos, true);
     this.pos += 8;
@@ -131,6 +201,7 @@ export class BinaryReader {
 
   // Floating point
   readFloat32LE(): { value: number; range: ByteRange } {
+    this.ensure(4);
     const start = this.pos;
     const value = this.data.getFloat32(this.pos, true);
     this.pos += 4;
@@ -138,6 +209,7 @@ export class BinaryReader {
   }
 
   readFloat64LE(): { value: number; range: ByteRange } {
+    this.ensure(8);
     const start = this.pos;
     const value = this.data.getFloat64(this.pos, true);
     this.pos += 8;
@@ -146,6 +218,7 @@ export class BinaryReader {
 
   // BFloat16 - read as UInt16 and convert
   readBFloat16LE(): { value: number; range: ByteRange } {
+    this.ensure(2);
     const start = this.pos;
     const bfloat16Bits = this.data.getUint16(this.pos, true);
     this.pos += 2;
@@ -162,6 +235,10 @@ export class BinaryReader {
 
   // Raw bytes
   readBytes(length: number): { value: Uint8Array; range: ByteRange } {
+    this.ensure(length);
+    if (length > this.remaining) {
+      throw new Error(`${END_OF_DATA}: ${length} byte(s) needed at offset ${this.offset}, ${this.remaining} left`);
+    }
     const start = this.pos;
     const value = this.bytes.slice(this.pos, this.pos + length);
     this.pos += length;
@@ -170,6 +247,7 @@ export class BinaryReader {
 
   // Skip bytes
   skip(length: number): void {
+    this.ensure(length);
     this.pos += length;
   }
 }
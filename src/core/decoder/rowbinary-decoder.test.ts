@@ -0,0 +1,114 @@
+/**
+ * The schema-driven RowBinary variants: RowBinary (no header),
+ * RowBinaryWithNames (names header only) and RowBinaryWithDefaults (a default
+ * marker before every value). Bodies are hand-assembled for
+ * `id UInt32, name Nullable(String)`.
+ */
+import { describe, expect, it } from 'vitest';
+import { RowBinaryDecoder } from './rowbinary-decoder';
+import { createDecoder } from './index';
+import { parseSchema } from '../parser/schema-parser';
+import { ClickHouseFormat } from '../types/formats';
+
+const SCHEMA = parseSchema('id UInt32, name Nullable(String)');
+
+const enc = (s: string) => [...new TextEncoder().encode(s)];
+const str = (s: string) => [s.length, ...enc(s)];
+
+// Row 1: id=1, name='ab'; row 2: id=2, name=NULL.
+const VALUES = [0x01, 0x00, 0x00, 0x00, 0x00, ...str('ab'), 0x02, 0x00, 0x00, 0x00, 0x01];
+
+describe('RowBinaryDecoder with a schema', () => {
+  it('decodes plain RowBinary with columns taken from the schema', () => {
+    const parsed = createDecoder(Uint8Array.from(VALUES), ClickHouseFormat.RowBinary, { schema: SCHEMA }).decode();
+    expect(parsed.format).toBe(ClickHouseFormat.RowBinary);
+    expect(parsed.header.byteRange).toEqual({ start: 0, end: 0 });
+    expect(parsed.header.columns.map((c) => [c.name, c.typeString])).toEqual([
+      ['id', 'UInt32'],
+      ['name', 'Nullable(String)'],
+    ]);
+    expect(parsed.rows?.map((r) => r.values.map((v) => v.value))).toEqual([
+      [1, 'ab'],
+      [2, null],
+    ]);
+    expect(parsed.rows?.[0].byteRange).toEqual({ start: 0, end: 8 });
+  });
+
+  it('reads names from a RowBinaryWithNames header and types from the schema', () => {
+    const header = [0x02, ...str('user_id'), ...str('user_name')];
+    const data = Uint8Array.from([...header, ...VALUES]);
+    const parsed = new RowBinaryDecoder(data, ClickHouseFormat.RowBinaryWithNames, SCHEMA).decode();
+    expect(parsed.header.byteRange).toEqual({ start: 0, end: header.length });
+    expect(parsed.header.columns.map((c) => c.name)).toEqual(['user_id', 'user_name']);
+    expect(parsed.header.columns[1].typeString).toBe('Nullable(String)');
+    expect(parsed.header.columns[1].typeByteRange).toEqual({ start: header.length, end: header.length });
+    expect(parsed.rows).toHaveLength(2);
+  });
+
+  it('rejects a RowBinaryWithNames header that disagrees with the schema', () => {
+    const data = Uint8Array.of(0x01, ...str('id'), 0x01, 0x00, 0x00, 0x00);
+    const parsed = new RowBinaryDecoder(data, ClickHouseFormat.RowBinaryWithNames, SCHEMA).decode();
+    expect(parsed.rows).toEqual([]);
+    expect(parsed.trailingNodes![0]).toMatchObject({
+      type: 'DecodeError',
+      byteRange: { start: 0, end: data.length },
+      metadata: { expectedType: 'RowBinaryWithNames header', reason: expect.stringMatching(/1 column\(s\) but the schema has 2/) },
+    });
+  });
+
+  it('keeps the rows and values before a truncated value', () => {
+    // Row 2's name claims 5 bytes but only 2 follow.
+    const data = Uint8Array.from([...VALUES.slice(0, 8), 0x02, 0x00, 0x00, 0x00, 0x00, 0x05, ...enc('cd')]);
+    const parsed = new RowBinaryDecoder(data, ClickHouseFormat.RowBinary, SCHEMA).decode();
+    expect(parsed.rows?.map((r) => r.values.map((v) => v.value))).toEqual([[1, 'ab'], [2]]);
+    expect(parsed.rows![1].byteRange).toEqual({ start: 8, end: 12 });
+    expect(parsed.trailingNodes).toEqual([
+      expect.objectContaining({
+        type: 'DecodeError',
+        byteRange: { start: 12, end: data.length },
+        value: { offset: 14, expectedType: 'Nullable(String)', reason: 'Unexpected end of data: 5 byte(s) needed at offset 14, 2 left' },
+      }),
+    ]);
+    expect(parsed.diagnostics?.[0].message).toBe(
+      'Decoding stopped at byte 14 in Nullable(String): Unexpected end of data: 5 byte(s) needed at offset 14, 2 left (4 bytes not decoded)',
+    );
+  });
+
+  it('gives each RowBinaryWithDefaults value its default-marker node', () => {
+    // Row 1: id=7, name=DEFAULT; row 2: id=DEFAULT, name='x'.
+    const data = Uint8Array.of(0x00, 0x07, 0x00, 0x00, 0x00, 0x01, 0x01, 0x00, 0x00, ...str('x'));
+    const parsed = new RowBinaryDecoder(data, ClickHouseFormat.RowBinaryWithDefaults, SCHEMA).decode();
+    const [row1, row2] = parsed.rows!;
+
+    const [id, name] = row1.values;
+    expect(id.value).toBe(7);
+    expect(id.byteRange).toEqual({ start: 0, end: 5 });
+    expect(id.children?.[0]).toMatchObject({ label: 'default_marker', value: 0, byteRange: { start: 0, end: 1 } });
+    expect(id.children?.[1].type).toBe('UInt32');
+    expect(name).toMatchObject({ displayValue: 'DEFAULT', value: null, metadata: { isDefault: true } });
+    expect(name.children).toHaveLength(1);
+    expect(name.byteRange).toEqual({ start: 5, end: 6 });
+
+    expect(row2.values.map((v) => v.value)).toEqual([null, 'x']);
+    expect(row2.byteRange).toEqual({ start: 6, end: data.length });
+  });
+
+  it('treats any nonzero default marker as DEFAULT, as ClickHouse reads it as a bool', () => {
+    // Row 1: id=DEFAULT (marker 2), name='y'; row 2: id=3, name=DEFAULT (marker 0xff).
+    const data = Uint8Array.of(0x02, 0x00, 0x00, ...str('y'), 0x00, 0x03, 0x00, 0x00, 0x00, 0xff);
+    const parsed = new RowBinaryDecoder(data, ClickHouseFormat.RowBinaryWithDefaults, SCHEMA).decode();
+    expect(parsed.rows?.map((r) => r.values.map((v) => v.value))).toEqual([
+      [null, 'y'],
+      [3, null],
+    ]);
+    const [id] = parsed.rows![0].values;
+    expect(id).toMatchObject({ displayValue: 'DEFAULT', byteRange: { start: 0, end: 1 } });
+    expect(id.children?.[0]).toMatchObject({ label: 'default_marker', value: 2, displayValue: '2' });
+    expect(parsed.rows![1].values[1].children?.[0].value).toBe(0xff);
+    expect(parsed.trailingNodes).toBeUndefined();
+  });
+
+  it('requires a schema for the header-less variants', () => {
+    expect(() => createDecoder(Uint8Array.from(VALUES), ClickHouseFormat.RowBinary).decode()).toThrow(/needs a schema/);
+  });
+});
@@ -127,6 +127,7 @@ export const SMOKE_TEST_CASES: SmokeTestCase[] = [
   // ============================================================
   { name: 'Tuple simple', query: "SELECT (42, 'hello')::Tuple(UInt32, String) as val" },
   { name: 'Tuple named', query: "SELECT CAST((42, 'test'), 'Tuple(id UInt32, name String)') as val" },
+  { name: 'Tuple quoted names', query: "SELECT CAST((1, 'x'), 'Tuple(`first id` UInt32, `2nd` String)') as val" },
   { name: 'Tuple nested', query: "SELECT ((1, 2), 'outer')::Tuple(Tuple(UInt8, UInt8), String) as val" },
 
   // ============================================================
@@ -192,6 +193,8 @@ export const SMOKE_TEST_CASES: SmokeTestCase[] = [
   { name: 'JSON typed IPv4', query: "SELECT '{\"ip\": \"127.0.0.1\"}'::JSON(ip IPv4) as json_ipv4", settings: { allow_experimental_json_type: 1 } },
   { name: 'JSON nested', query: "SELECT '{\"id\": 1, \"nested\": {\"x\": 10, \"y\": 20}}'::JSON as val", settings: { allow_experimental_json_type: 1 } },
   { name: 'JSON with other columns', query: "SELECT '{\"name\": \"test\", \"value\": 42}'::JSON as json_col, 42::UInt8 as uint8_col, 'hello'::String as string_col", settings: { allow_experimental_json_type: 1 } },
+  { name: 'JSON SKIP paths', query: "SELECT '{\"a\": 1, \"b\": {\"c\": 2}, \"tmp_x\": 3}'::JSON(a UInt32, SKIP b.c, SKIP REGEXP '^tmp') AS val", settings: { allow_experimental_json_type: 1 } },
+  { name: 'JSON max_dynamic_types', query: "SELECT '{\"a\": 1}'::JSON(max_dynamic_paths=8, max_dynamic_types=4) AS val", settings: { allow_experimental_json_type: 1 } },
   { name: 'JSON max_dynamic_paths', query: "SELECT '{\"a\": 1, \"b\": 2, \"c\": 3}'::JSON(max_dynamic_paths=2) AS col", settings: { allow_experimental_json_type: 1 } },
 
   // ============================================================
@@ -219,6 +222,11 @@ export const SMOKE_TEST_CASES: SmokeTestCase[] = [
   { name: 'countState', query: 'SELECT countState() FROM numbers(10)' },
   { name: 'sumState Float64', query: 'SELECT sumState(toFloat64(number)) FROM numbers(10)' },
   { name: 'avgState Float64', query: 'SELECT avgState(toFloat64(number)) FROM numbers(10)' },
+  { name: 'quantileState with parameter', query: 'SELECT quantileState(0.9)(number) FROM numbers(10)' },
+  { name: 'SimpleAggregateFunction sum', query: "SELECT CAST(number, 'SimpleAggregateFunction(sum, UInt64)') AS val FROM numbers(3)" },
+  { name: 'SimpleAggregateFunction anyLast Nullable', query: "SELECT CAST(toNullable('x'), 'SimpleAggregateFunction(anyLast, Nullable(String))') AS val" },
+  { name: 'SimpleAggregateFunction groupArrayArray', query: "SELECT CAST([1, 2], 'SimpleAggregateFunction(groupArrayArray, Array(UInt8))') AS val" },
+  { name: 'SimpleAggregateFunction LowCardinality', query: "SELECT CAST('a', 'SimpleAggregateFunction(any, LowCardinality(String))') AS val" },
 
   // ============================================================
   // MULTIPLE COLUMNS AND ROWS
@@ -279,6 +287,8 @@ export const SMOKE_TEST_CASES: SmokeTestCase[] = [
   // ============================================================
   { name: 'Enum8 negative', query: "SELECT CAST('neg', 'Enum8(\\'neg\\' = -128, \\'pos\\' = 127)') as val" },
   { name: 'Enum special chars', query: "SELECT CAST('hello world', 'Enum8(\\'hello world\\' = 1)') as val" },
+  { name: 'Enum quotes in names', query: "SELECT CAST('it\\'s', 'Enum8(\\'it\\\\\\'s\\' = 1, \\'a,b\\' = 2)') as val" },
+  { name: 'Enum without explicit values', query: "SELECT CAST('b', 'Enum(\\'a\\', \\'b\\')') as val" },
 
   // ============================================================
   // EDGE CASES - IP
@@ -0,0 +1,131 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { createDecoder } from './index';
+import { parseChprotoDump } from './protocol-dump';
+import { ProtocolDecoder } from './protocol-decoder';
+import { decodeStream, materializeBlock, StreamCollector, StreamItem } from './stream-decoder';
+import { NativeEncoder } from '../encoder/native-encoder';
+import { RowBinaryEncoder } from '../encoder/rowbinary-encoder';
+import { parseSchema } from '../parser/schema-parser';
+import { ParsedData } from '../types/ast';
+import { ClickHouseFormat } from '../types/formats';
+
+/** The bytes in `size`-byte chunks, noting how many were handed out */
+function chunked(data: Uint8Array, size: number) {
+  const progress = { pulled: 0 };
+  async function* source() {
+    for (let i = 0; i < data.length; i += size) {
+      progress.pulled = Math.min(i + size, data.length);
+      yield data.slice(i, i + size);
+    }
+  }
+  return { source: source(), progress };
+}
+
+async function collect(items: AsyncIterable<StreamItem>, format: ClickHouseFormat) {
+  const collector = new StreamCollector(format);
+  const all: StreamItem[] = [];
+  for await (const item of items) {
+    collector.add(item);
+    all.push(item);
+  }
+  return { parsed: collector.result(), items: all };
+}
+
+const NATIVE = new NativeEncoder().encode([
+  [
+    { name: 'id', type: 'UInt32', values: [1, 2, 3] },
+    { name: 's', type: 'Array(String)', values: [['a'], [], ['bc', 'd']] },
+  ],
+  [
+    { name: 'id', type: 'UInt32', values: [4] },
+    { name: 's', type: 'Array(String)', values: [['e']] },
+  ],
+]);
+
+describe('decodeStream', () => {
+  it('yields Native blocks as they arrive, identical to a whole-buffer decode', async () => {
+    const { source, progress } = chunked(NATIVE, 5);
+    const firstBlockAt: number[] = [];
+    const collector = new StreamCollector(ClickHouseFormat.Native);
+    for await (const item of decodeStream(source, ClickHouseFormat.Native)) {
+      if (item.kind === 'block') firstBlockAt.push(progress.pulled);
+      collector.add(item);
+    }
+    expect(firstBlockAt[0]).toBeLessThan(NATIVE.length);
+    expect(collector.result()).toEqual(createDecoder(NATIVE, ClickHouseFormat.Native).decode());
+  });
+
+  it('collects into arrays every result shares rather than copying them per call', async () => {
+    const collector = new StreamCollector(ClickHouseFormat.Native);
+    const seen: ParsedData[] = [];
+    for await (const item of decodeStream(chunked(NATIVE, 5).source, ClickHouseFormat.Native)) {
+      collector.add(item);
+      seen.push(collector.result());
+    }
+    const last = collector.result();
+    expect(seen[0].blocks).toBe(last.blocks);
+    expect(seen[0].blocks).toHaveLength(last.blocks!.length);
+  });
+
+  it('decodes the RowBinary family from a ReadableStream', async () => {
+    const columns = [
+      { name: 'id', type: 'UInt64' },
+      { name: 'tags', type: 'Array(String)' },
+    ];
+    const rows = Array.from({ length: 20 }, (_, i) => [BigInt(i), ['x'.repeat(i)]]);
+    const withTypes = new RowBinaryEncoder().encode(columns, rows);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < withTypes.length; i += 7) controller.enqueue(withTypes.slice(i, i + 7));
+        controller.close();
+      },
+    });
+    const { parsed, items } = await collect(decodeStream(stream, ClickHouseFormat.RowBinaryWithNamesAndTypes), ClickHouseFormat.RowBinaryWithNamesAndTypes);
+    expect(parsed).toEqual(createDecoder(withTypes, ClickHouseFormat.RowBinaryWithNamesAndTypes).decode());
+    expect(items.map((i) => i.kind).slice(0, 2)).toEqual(['header', 'row']);
+
+    const schema = parseSchema('id UInt64, tags Array(String)');
+    const plain = withTypes.subarray(parsed.header.byteRange.end);
+    const { parsed: fromPlain } = await collect(
+      decodeStream(chunked(plain, 3).source, ClickHouseFormat.RowBinary, { schema }),
+      ClickHouseFormat.RowBinary,
+    );
+    expect(fromPlain).toEqual(createDecoder(plain, ClickHouseFormat.RowBinary, { schema }).decode());
+  });
+
+  it('ends a truncated stream with the DecodeError a whole-buffer decode reports', async () => {
+    const truncated = NATIVE.subarray(0, NATIVE.length - 2);
+    const { parsed } = await collect(decodeStream(chunked(truncated, 4).source, ClickHouseFormat.Native), ClickHouseFormat.Native);
+    const whole = createDecoder(truncated, ClickHouseFormat.Native).decode();
+    expect(parsed).toEqual(whole);
+    expect(parsed.trailingNodes![0].type).toBe('DecodeError');
+  });
+
+  it('defers Native column values until a block is materialized', async () => {
+    const { parsed } = await collect(
+      decodeStream(chunked(NATIVE, 64).source, ClickHouseFormat.Native, { deferValues: true }),
+      ClickHouseFormat.Native,
+    );
+    const whole = createDecoder(NATIVE, ClickHouseFormat.Native).decode();
+    const [first, second] = parsed.blocks!;
+    expect(first.deferred).toBeDefined();
+    expect(first.columns.map((c) => c.values.length)).toEqual([0, 0]);
+    expect(materializeBlock(NATIVE, second, 0)).toEqual(whole.blocks![1]);
+    expect(materializeBlock(NATIVE, first, 0)).toEqual(whole.blocks![0]);
+  });
+
+  it('yields the packets of a .chproto dump', async () => {
+    const dir = fileURLToPath(new URL('./fixtures/protocol/', import.meta.url));
+    const name = readdirSync(dir).find((f) => f.endsWith('.chproto'))!;
+    const dump = new Uint8Array(readFileSync(`${dir}${name}`));
+    const items: StreamItem[] = [];
+    for await (const item of decodeStream(chunked(dump, 1000).source, ClickHouseFormat.NativeProtocol)) items.push(item);
+
+    const [client, server] = ProtocolDecoder.fromCapture(parseChprotoDump(dump)).decode().trailingNodes!;
+    const packets = (direction: string) => items.flatMap((i) => (i.kind === 'packet' && i.direction === direction ? [i.packet] : []));
+    expect(packets('client')).toEqual(client.children);
+    expect(packets('server')).toEqual(server.children);
+  });
+});
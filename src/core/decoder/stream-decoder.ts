@@ -0,0 +1,259 @@
+import { NativeDecoder, nativeHeader } from './native-decoder';
+import { ProtocolDecoder } from './protocol-decoder';
+import { parseChprotoDump } from './protocol-dump';
+import { RowBinaryDecoder, RowBinaryFormat } from './rowbinary-decoder';
+import { SchemaColumn } from '../parser/schema-parser';
+import { AstNode, BlockNode, Diagnostic, HeaderNode, ParsedData, RowNode } from '../types/ast';
+import { ClickHouseFormat, FORMAT_METADATA } from '../types/formats';
+import { DEFAULT_NATIVE_PROTOCOL_VERSION } from '../types/native-protocol';
+
+/** Bytes arriving in chunks: a web ReadableStream, or any async iterable such as a Node stream */
+export type ByteSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+/** One piece of a decode, yielded as soon as its bytes have arrived */
+export type StreamItem =
+  | { kind: 'header'; header: HeaderNode }
+  | { kind: 'row'; row: RowNode }
+  | { kind: 'block'; block: BlockNode }
+  | { kind: 'packet'; direction: 'client' | 'server'; packet: AstNode }
+  | { kind: 'trailing'; node: AstNode }
+  | { kind: 'diagnostic'; diagnostic: Diagnostic }
+  | { kind: 'end'; totalBytes: number; metadata?: Record<string, unknown> };
+
+export interface StreamOptions {
+  nativeProtocolVersion?: number;
+  schema?: SchemaColumn[];
+  /**
+   * Leave Native column values out of the yielded blocks (see
+   * BlockNode.deferred), so a large result is held as block and column
+   * headers only; materializeBlock brings a block's values back.
+   */
+  deferValues?: boolean;
+}
+
+async function* chunksOf(source: ByteSource): AsyncGenerator<Uint8Array> {
+  if (!('getReader' in source)) {
+    yield* source;
+    return;
+  }
+  const reader = source.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/** A Native block without its column values, remembering where its node ids start */
+function deferBlock(block: BlockNode, firstNodeId: number): BlockNode {
+  return {
+    ...block,
+    columns: block.columns.map((col) => ({ ...col, dataPrefixNodes: [], values: [] })),
+    deferred: { firstNodeId },
+  };
+}
+
+/**
+ * Decode a stream window by window. The bytes not yet decoded are kept; once
+ * enough have arrived, the complete rows / blocks at their front are decoded
+ * and yielded and their bytes dropped. A window that yields nothing waits
+ * for twice its size before the next try, so a huge block is decoded a
+ * logarithmic number of times. Node ids, row / block indices and byte
+ * offsets continue across windows, matching a decode() of the whole buffer.
+ *
+ * Native and the RowBinary family decode incrementally; only Native column
+ * values can be deferred, RowBinary rows are yielded with their values. A
+ * NativeProtocol source is a `.chproto` dump and is not decoded incrementally:
+ * its server packets' byte ranges follow the whole client stream, and their
+ * framing depends on the client's Query packets, so the dump is read to its
+ * end and its packets are then yielded in one go.
+ */
+export async function* decodeStream(
+  source: ByteSource,
+  format: ClickHouseFormat,
+  options: StreamOptions = {},
+): AsyncGenerator<StreamItem> {
+  if (format === ClickHouseFormat.NativeProtocol) {
+    yield* decodeChprotoStream(source);
+    return;
+  }
+  if (FORMAT_METADATA[format].needsSchema && !options.schema) {
+    throw new Error(`${format} needs a schema (column names and types)`);
+  }
+
+  const protocolVersion = options.nativeProtocolVersion ?? DEFAULT_NATIVE_PROTOCOL_VERSION;
+  let pending: Uint8Array[] = [];
+  let pendingLength = 0;
+  let origin = 0;
+  let firstNodeId = 0;
+  let firstIndex = 0;
+  let header: HeaderNode | undefined;
+  let wanted = 0;
+  let done = false;
+  let totalBytes = 0;
+
+  /** Decode the pending bytes; false when no row / block was complete yet. */
+  function* decodeWindow(final: boolean): Generator<StreamItem, boolean> {
+    const data = concat(pending);
+    const window = { origin, firstNodeId, firstIndex };
+    let end: number;
+
+    if (format === ClickHouseFormat.Native) {
+      const decoder = new NativeDecoder(data, protocolVersion, window);
+      const result = decoder.decodeWindow(final);
+      for (let i = 0; i < result.blocks.length; i++) {
+        const block = result.blocks[i];
+        yield { kind: 'block', block: options.deferValues ? deferBlock(block, result.firstNodeIds[i]) : block };
+      }
+      for (const node of result.trailingNodes) yield { kind: 'trailing', node };
+      for (const diagnostic of result.diagnostics) yield { kind: 'diagnostic', diagnostic };
+      firstIndex += result.blocks.length;
+      firstNodeId = decoder.nextNodeId;
+      done = result.done;
+      end = result.end;
+    } else {
+      const decoder = new RowBinaryDecoder(data, format as RowBinaryFormat, options.schema, window);
+      const result = decoder.decodeWindow(final, header);
+      if (!header && result.header) {
+        header = result.header;
+        yield { kind: 'header', header };
+      }
+      for (const row of result.rows) yield { kind: 'row', row };
+      for (const node of result.trailingNodes) yield { kind: 'trailing', node };
+      for (const diagnostic of result.diagnostics) yield { kind: 'diagnostic', diagnostic };
+      firstIndex += result.rows.length;
+      firstNodeId = decoder.nextNodeId;
+      done = final;
+      end = result.end;
+    }
+
+    const progressed = end > origin;
+    const rest = data.subarray(end - origin);
+    pending = rest.length > 0 ? [rest] : [];
+    pendingLength = rest.length;
+    origin = end;
+    return progressed;
+  }
+
+  for await (const chunk of chunksOf(source)) {
+    totalBytes += chunk.length;
+    // Like decode(), ignore whatever follows a terminal block.
+    if (done || chunk.length === 0) continue;
+    pending.push(chunk);
+    pendingLength += chunk.length;
+    if (pendingLength < wanted) continue;
+    const progressed = yield* decodeWindow(false);
+    wanted = progressed ? 0 : pendingLength * 2;
+  }
+  if (!done) yield* decodeWindow(true);
+  yield { kind: 'end', totalBytes };
+}
+
+/** Read a whole `.chproto` dump, then yield its packets client stream first. */
+async function* decodeChprotoStream(source: ByteSource): AsyncGenerator<StreamItem> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of chunksOf(source)) chunks.push(chunk);
+  const parsed = ProtocolDecoder.fromCapture(parseChprotoDump(concat(chunks))).decode();
+  const [client, server] = parsed.trailingNodes ?? [];
+  for (const packet of client?.children ?? []) yield { kind: 'packet', direction: 'client', packet };
+  for (const packet of server?.children ?? []) yield { kind: 'packet', direction: 'server', packet };
+  for (const diagnostic of parsed.diagnostics ?? []) yield { kind: 'diagnostic', diagnostic };
+  yield { kind: 'end', totalBytes: parsed.totalBytes, metadata: parsed.metadata };
+}
+
+/**
+ * Decode the column values of a block left out by `deferValues`, from the
+ * buffer its byte ranges index into. The nodes get the ids the streaming
+ * decode gave them; a block with its values is returned as is.
+ */
+export function materializeBlock(data: Uint8Array, block: BlockNode, nativeProtocolVersion: number): BlockNode {
+  if (!block.deferred) return block;
+  const { start, end } = block.byteRange;
+  const decoder = new NativeDecoder(data.subarray(start, end), nativeProtocolVersion, {
+    origin: start,
+    firstNodeId: block.deferred.firstNodeId,
+    firstIndex: block.index,
+  });
+  const [full] = decoder.decodeWindow(true).blocks;
+  if (!full) throw new Error(`Block ${block.index}: no block at byte ${start}`);
+  return full;
+}
+
+/**
+ * Gathers the rows / blocks of a Native or RowBinary stream into ParsedData,
+ * so a consumer can show what has arrived so far. Items are appended to the
+ * collector's own arrays, which every result() shares, so following a stream
+ * of N rows in batches costs O(N) rather than a copy per batch. Packets of a
+ * protocol stream are not gathered.
+ */
+export class StreamCollector {
+  private header: HeaderNode | null = null;
+  private readonly rows: RowNode[] = [];
+  private readonly blocks: BlockNode[] = [];
+  private readonly trailingNodes: AstNode[] = [];
+  private readonly diagnostics: Diagnostic[] = [];
+  private totalBytes = 0;
+
+  constructor(private readonly format: ClickHouseFormat) {}
+
+  add(item: StreamItem): void {
+    switch (item.kind) {
+      case 'header':
+        this.header = item.header;
+        break;
+      case 'row':
+        this.rows.push(item.row);
+        this.totalBytes = item.row.byteRange.end;
+        break;
+      case 'block':
+        this.blocks.push(item.block);
+        this.totalBytes = item.block.byteRange.end;
+        break;
+      case 'trailing':
+        this.trailingNodes.push(item.node);
+        break;
+      case 'diagnostic':
+        this.diagnostics.push(item.diagnostic);
+        break;
+      case 'end':
+        this.totalBytes = item.totalBytes;
+        break;
+      case 'packet':
+        break;
+    }
+  }
+
+  /**
+   * What has been collected so far. Its rows / blocks / trailing nodes are a
+   * read-only view that grows as later items are added.
+   */
+  result(): ParsedData {
+    const native = this.format === ClickHouseFormat.Native;
+    const empty = { start: 0, end: 0 };
+    return {
+      format: this.format,
+      header: native
+        ? nativeHeader(this.blocks)
+        : (this.header ?? { byteRange: empty, columnCount: 0, columnCountRange: empty, columns: [] }),
+      totalBytes: this.totalBytes,
+      ...(native ? { blocks: this.blocks } : { rows: this.rows }),
+      ...(native || this.trailingNodes.length > 0 ? { trailingNodes: this.trailingNodes } : {}),
+      ...(this.diagnostics.length > 0 ? { diagnostics: this.diagnostics } : {}),
+    };
+  }
+}
@@ -2,6 +2,7 @@ import { StartedClickHouseContainer, ClickHouseContainer } from '@testcontainers
 import { RowBinaryDecoder } from './rowbinary-decoder';
 import { NativeDecoder } from './native-decoder';
 import { ParsedData, AstNode } from '../types/ast';
+import { analyzeCoverage } from '../coverage';
 
 const IMAGE = 'clickhouse/clickhouse-server:latest';
 
@@ -296,117 +297,13 @@ export interface ByteCoverageResult {
  * Goes through all childless nodes and checks if the entire data is covered
  */
 export function analyzeByteRange(data: ParsedData, dataLength: number): ByteCoverageResult {
-  // Collect all leaf nodes from the AST
-  const leafNodes: AstNode[] = [];
-
-  // Include the column count LEB128 from the header
-  if (data.header.columnCountRange) {
-    leafNodes.push({
-      id: 'header-column-count',
-      type: 'VarUInt',
-      byteRange: data.header.columnCountRange,
-      value: data.header.columnCount,
-      displayValue: String(data.header.columnCount),
-    });
-  }
-
-  // From header
-  for (const col of data.header.columns) {
-    // Column names and types are leaf nodes (no children)
-    leafNodes.push({
-      id: 'header-col-name',
-      type: 'String',
-      byteRange: col.nameByteRange,
-      value: col.name,
-      displayValue: col.name,
-    });
-    leafNodes.push({
-      id: 'header-col-type',
-      type: 'String',
-      byteRange: col.typeByteRange,
-      value: col.typeString,
-      displayValue: col.typeString,
-    });
-  }
-
-  // From rows (RowBinary format)
-  if (data.rows) {
-    for (const row of data.rows) {
-      for (const node of row.values) {
-        leafNodes.push(...collectLeafNodes(node));
-      }
-    }
-  }
-
-  // From blocks (Native format)
-  if (data.blocks) {
-    for (const block of data.blocks) {
-      leafNodes.push(...collectLeafNodes(block.header.astNode));
-      for (const col of block.columns) {
-        leafNodes.push(...collectLeafNodes(col.metadataNode));
-        for (const node of col.dataPrefixNodes) {
-          leafNodes.push(...collectLeafNodes(node));
-        }
-        for (const node of col.values) {
-          leafNodes.push(...collectLeafNodes(node));
-        }
-      }
-    }
-  }
-
-  for (const node of data.trailingNodes ?? []) {
-    leafNodes.push(...collectLeafNodes(node));
-  }
-
-  // Sort by start position and merge overlapping ranges
-  const sortedRanges = leafNodes
-    .map(n => ({ start: n.byteRange.start, end: n.byteRange.end }))
-    .filter(r => r.start < r.end) // Filter out zero-length ranges
-    .sort((a, b) => a.start - b.start);
-
-  // Merge overlapping ranges
-  const mergedRanges: Array<{ start: number; end: number }> = [];
-  for (const range of sortedRanges) {
-    if (mergedRanges.length === 0) {
-      mergedRanges.push({ ...range });
-    } else {
-      const last = mergedRanges[mergedRanges.length - 1];
-      if (range.start <= last.end) {
-        // Overlapping or adjacent - extend
-        last.end = Math.max(last.end, range.end);
-      } else {
-        // Gap - add new range
-        mergedRanges.push({ ...range });
-      }
-    }
-  }
-
-  // Find uncovered ranges
-  const uncoveredRanges: Array<{ start: number; end: number }> = [];
-  let expectedStart = 0;
-
-  for (const range of mergedRanges) {
-    if (range.start > expectedStart) {
-      uncoveredRanges.push({ start: expectedStart, end: range.start });
-    }
-    expectedStart = range.end;
-  }
-
-  // Check for gap at the end
-  if (expectedStart < dataLength) {
-    uncoveredRanges.push({ start: expectedStart, end: dataLength });
-  }
-
-  // Calculate coverage
-  const coveredBytes = mergedRanges.reduce((sum, r) => sum + (r.end - r.start), 0);
-  const coveragePercent = dataLength > 0 ? (coveredBytes / dataLength) * 100 : 100;
-
+  const report = analyzeCoverage(data, dataLength);
   return {
-    totalBytes: dataLength,
-    coveredBytes,
-    uncoveredRanges,
-    coveragePercent,
-    isComplete: uncoveredRanges.length === 0,
+    totalBytes: report.totalBytes,
+    coveredBytes: report.coveredBytes,
+    uncoveredRanges: report.gaps,
+    coveragePercent: report.coveragePercent,
+    isComplete: report.gaps.length === 0,
   };
 }
 
@@ -699,6 +699,55 @@ export const VALIDATION_TEST_CASES: ValidationTestCase[] = [
       expect(node.children![0].value).toBeCloseTo(45.0, 5);
     }),
   },
+  {
+    name: 'sumState accumulates narrow integers in UInt64',
+    query: 'SELECT sumState(toUInt8(number)) FROM numbers(30)',
+    ...bothFormats((r) => {
+      const node = r.getNode(0, 0);
+      expect(node.type).toBe('AggregateFunction(sum, UInt8)');
+      expect(node.children![0].type).toBe('UInt64');
+      expect(node.children![0].value).toBe(435n);
+    }),
+  },
+  {
+    name: 'maxState and argMaxState structure',
+    query: 'SELECT maxState(number), argMaxState(toString(number), number) FROM numbers(10)',
+    ...bothFormats((r) => {
+      const max = r.getNode(0, 0);
+      expect(max.displayValue).toBe('max=9');
+      expect(max.children!.map((c) => c.label)).toEqual(['has', 'value']);
+      const argMax = r.getNode(0, 1);
+      expect(argMax.value).toEqual({ result: '9', value: 9n });
+    }),
+  },
+  {
+    name: 'groupArrayState structure',
+    query: 'SELECT groupArrayState(number) FROM numbers(3)',
+    ...bothFormats((r) => {
+      const node = r.getNode(0, 0);
+      expect(node.value).toEqual([0n, 1n, 2n]);
+      expect(node.children![0].label).toBe('size');
+    }),
+  },
+  {
+    name: 'uniqExactState structure',
+    query: 'SELECT uniqExactState(toUInt32(number % 4)) FROM numbers(10)',
+    ...bothFormats((r) => {
+      const node = r.getNode(0, 0);
+      expect(node.displayValue).toBe('uniqExact=4');
+      expect(node.children!.slice(1).map((c) => c.value as number).sort()).toEqual([0, 1, 2, 3]);
+    }),
+  },
+  {
+    name: 'quantileTDigestState structure',
+    query: 'SELECT quantileTDigestState(0.5)(toFloat64(number)) FROM numbers(3)',
+    ...bothFormats((r) => {
+      const node = r.getNode(0, 0);
+      expect(node.type).toBe('AggregateFunction(quantileTDigest(0.5), Float64)');
+      const centroids = node.value as { mean: number; count: number }[];
+      expect(centroids.reduce((n, c) => n + c.count, 0)).toBe(3);
+    }),
+  },
 
   // ============================================================
   // MULTIPLE COLUMNS AND ROWS
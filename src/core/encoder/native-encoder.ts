@@ -0,0 +1,604 @@
+import { parseType } from '../parser/type-parser';
+import { ClickHouseType, simpleAggregateValueType, typeToString } from '../types/clickhouse-types';
+import { NATIVE_PROTOCOL_FEATURES as F } from '../types/native-protocol';
+import {
+  TypedValue,
+  asArray,
+  GEOMETRY_VARIANTS,
+  compareNames,
+  describe,
+  flattenPaths,
+  geoAsComposite,
+  inferType,
+  jsonText,
+  mapEntries,
+  mismatch,
+  placeholder,
+  toBFloat16Bits,
+  toFloat,
+  tupleElements,
+  writeLeafValue,
+} from './values';
+import { BinaryWriter } from './writer';
+
+export { TypedValue } from './values';
+
+/**
+ * Native format encoder, the inverse of NativeDecoder: it takes columns of JS
+ * values with their ClickHouse types and writes Native Blocks for a chosen
+ * `client_protocol_version` (0 = the legacy HTTP layout, without BlockInfo).
+ *
+ * Columns are written the way ClickHouse's NativeWriter writes them: every
+ * column's state prefix (LowCardinality keys version, Variant mode, Dynamic
+ * and JSON structure) comes first, then its data streams, and a Block without
+ * rows carries no column data at all. Dynamic and JSON use the serialization
+ * version the server would pick for the protocol version (V1 before v54473,
+ * V2 from it), or the FLATTENED / JSON-as-String layouts when asked to.
+ *
+ * Values take the shapes NativeDecoder produces (numbers, bigints for 64-bit
+ * and wider integers, Dates, strings, arrays, objects), plus the obvious
+ * alternatives (numeric strings, `Map`s, `{x, y}` points, enum names). Two
+ * exceptions: a bigint Decimal is the raw unscaled integer, and Time64 is its
+ * raw tick count. Variant and Dynamic rows pick their type from the value;
+ * wrap a value in TypedValue where that is ambiguous.
+ */
+
+export type NativeColumnSerialization = 'default' | 'sparse' | 'replicated';
+
+export interface NativeColumn {
+  name: string;
+  type: ClickHouseType | string;
+  values: unknown[];
+  /**
+   * Serialization kind announced in the column's serialization info
+   * (v54454+). SPARSE needs v54465 (v54483 for Nullable), REPLICATED v54482.
+   */
+  serialization?: NativeColumnSerialization;
+}
+
+/** BlockInfo fields, written when the protocol version is above 0. */
+export interface NativeBlockInfoInput {
+  isOverflows?: boolean;
+  bucketNum?: number;
+  /** Field 3, v54480+. */
+  outOfOrderBuckets?: number[];
+}
+
+export interface NativeEncoderOptions {
+  /** output_format_native_use_flattened_dynamic_and_json_serialization */
+  flattenDynamicAndJson?: boolean;
+  /** output_format_native_write_json_as_string */
+  jsonAsString?: boolean;
+}
+
+const SPARSE_END_OF_GRANULE_FLAG = 1n << 62n;
+const DEFAULT_MAX_DYNAMIC_TYPES = 32;
+const DEFAULT_MAX_DYNAMIC_PATHS = 1024;
+
+/**
+ * One column's streams, resolved from its type and values before anything is
+ * written, because prefixes (Dynamic types, JSON paths, LowCardinality
+ * dictionaries) depend on the data.
+ */
+interface ColumnPlan {
+  type: ClickHouseType;
+  values: unknown[];
+  children: ColumnPlan[];
+  /** Variant / Dynamic: per-row wire discriminator. */
+  discriminators?: number[];
+  /** Dynamic: type names; JSON: dynamic path names, after the typed-path children. */
+  names?: string[];
+  /** Dynamic / JSON serialization version. */
+  version?: number;
+  /** LowCardinality: per-row dictionary index. */
+  indexes?: number[];
+}
+
+export class NativeEncoder {
+  private readonly protocolVersion: number;
+  private readonly options: NativeEncoderOptions;
+
+  constructor(protocolVersion: number = 0, options: NativeEncoderOptions = {}) {
+    this.protocolVersion = protocolVersion;
+    this.options = options;
+  }
+
+  /** An HTTP-style Native body: the given Blocks back to back. */
+  encode(blocks: NativeColumn[][]): Uint8Array {
+    const w = new BinaryWriter();
+    for (const columns of blocks) w.writeBytes(this.encodeBlock(columns));
+    return w.toBytes();
+  }
+
+  /** One Block: BlockInfo (protocol > 0), counts, then each column. */
+  encodeBlock(columns: NativeColumn[], info: NativeBlockInfoInput = {}): Uint8Array {
+    const rows = columns[0]?.values.length ?? 0;
+    for (const column of columns) {
+      if (column.values.length !== rows) {
+        throw new Error(`Native encoder: column "${column.name}" has ${column.values.length} values, expected ${rows}`);
+      }
+    }
+    const w = new BinaryWriter();
+    if (this.protocolVersion > 0) this.writeBlockInfo(w, info);
+    w.writeVarUInt(columns.length).writeVarUInt(rows);
+    for (const column of columns) {
+      w.writeString(column.name).writeString(typeof column.type === 'string' ? column.type : typeToString(column.type));
+      w.writeBytes(this.encodeColumn(column));
+    }
+    return w.toBytes();
+  }
+
+  /**
+   * A column's bytes after its name and type: the serialization info
+   * (v54454+) and the data, or only the info when there are no rows.
+   */
+  encodeColumn(column: NativeColumn): Uint8Array {
+    const type = typeof column.type === 'string' ? parseType(column.type) : column.type;
+    const kind = column.serialization ?? 'default';
+    const w = new BinaryWriter();
+    try {
+      this.writeSerializationInfo(w, type, kind);
+      if (column.values.length === 0) return w.toBytes();
+      if (kind === 'sparse') {
+        this.writeSparse(w, type, column.values);
+      } else if (kind === 'replicated') {
+        this.writeReplicated(w, type, column.values);
+      } else {
+        this.writeColumn(w, type, column.values);
+      }
+    } catch (err) {
+      throw new Error(`Native encoder: column "${column.name}" (${typeToString(type)}): ${(err as Error).message}`);
+    }
+    return w.toBytes();
+  }
+
+  private writeBlockInfo(w: BinaryWriter, info: NativeBlockInfoInput): void {
+    w.writeVarUInt(1).writeUInt8(info.isOverflows ? 1 : 0);
+    w.writeVarUInt(2).writeInt32LE(info.bucketNum ?? -1);
+    if (info.outOfOrderBuckets !== undefined) {
+      if (this.protocolVersion < F.OUT_OF_ORDER_BUCKETS) {
+        throw new Error(`Native encoder: out_of_order_buckets needs protocol v${F.OUT_OF_ORDER_BUCKETS}+`);
+      }
+      w.writeVarUInt(3).writeVarUInt(info.outOfOrderBuckets.length);
+      for (const bucket of info.outOfOrderBuckets) w.writeInt32LE(bucket);
+    }
+    w.writeVarUInt(0);
+  }
+
+  private writeSerializationInfo(w: BinaryWriter, type: ClickHouseType, kind: NativeColumnSerialization): void {
+    if (this.protocolVersion < F.CUSTOM_SERIALIZATION) {
+      if (kind !== 'default') {
+        throw new Error(`${kind} serialization needs protocol v${F.CUSTOM_SERIALIZATION}+`);
+      }
+      return;
+    }
+    if (kind === 'default') {
+      w.writeUInt8(0);
+      return;
+    }
+    if (kind === 'sparse') {
+      const nullable = type.kind === 'Nullable';
+      const needed = nullable ? F.NULLABLE_SPARSE_SERIALIZATION : F.SPARSE_SERIALIZATION;
+      if (this.protocolVersion < needed) throw new Error(`sparse serialization needs protocol v${needed}+`);
+      if (!nullable && !hasSparseDefault(type)) {
+        throw new Error(`sparse serialization is not supported for ${typeToString(type)}`);
+      }
+      w.writeUInt8(1).writeUInt8(1);
+      return;
+    }
+    if (this.protocolVersion < F.REPLICATED_SERIALIZATION) {
+      throw new Error(`replicated serialization needs protocol v${F.REPLICATED_SERIALIZATION}+`);
+    }
+    if (type.kind === 'Tuple') throw new Error('replicated serialization is not supported for Tuple');
+    w.writeUInt8(1).writeUInt8(4);
+  }
+
+  /**
+   * SPARSE: VarUInt group sizes — the run of defaults before each
+   * non-default row, the last one flagged end-of-granule — then only the
+   * non-default values (for Nullable, the non-NULL inner values).
+   */
+  private writeSparse(w: BinaryWriter, type: ClickHouseType, values: unknown[]): void {
+    const nullable = type.kind === 'Nullable';
+    const valueType = nullable ? type.inner : type;
+    const kept: unknown[] = [];
+    let current = 0;
+    values.forEach((value, row) => {
+      const isDefault = nullable ? value === null || value === undefined : this.isDefaultValue(valueType, value);
+      if (isDefault) return;
+      w.writeVarUInt(row - current);
+      current = row + 1;
+      kept.push(value);
+    });
+    w.writeVarUInt(BigInt(values.length - current) | SPARSE_END_OF_GRANULE_FLAG);
+    this.writeColumn(w, valueType, kept);
+  }
+
+  /**
+   * REPLICATED: the row count, an index per row into the distinct values,
+   * then those values as a regular column.
+   */
+  private writeReplicated(w: BinaryWriter, type: ClickHouseType, values: unknown[]): void {
+    const distinct = new Map<string, number>();
+    const unique: unknown[] = [];
+    const indexes = values.map((value) => {
+      const key = this.valueKey(type, value);
+      let index = distinct.get(key);
+      if (index === undefined) {
+        index = unique.length;
+        distinct.set(key, index);
+        unique.push(value);
+      }
+      return index;
+    });
+    const width = smallestIndexWidth(unique.length);
+    w.writeVarUInt(values.length).writeUInt8(width);
+    for (const index of indexes) writeIndex(w, index, width);
+    w.writeVarUInt(unique.length);
+    this.writeColumn(w, type, unique);
+  }
+
+  private writeColumn(w: BinaryWriter, type: ClickHouseType, values: unknown[]): void {
+    const plan = this.plan(type, values);
+    this.writePrefix(w, plan);
+    this.writeData(w, plan);
+  }
+
+  // --- planning ---------------------------------------------------------------
+
+  private plan(type: ClickHouseType, values: unknown[]): ColumnPlan {
+    switch (type.kind) {
+      case 'Array': {
+        const arrays = values.map((v) => asArray(v, type));
+        return { type, values: arrays, children: [this.plan(type.element, arrays.flat())] };
+      }
+      case 'Nested':
+        return this.plan(nestedAsArray(type), values);
+      case 'Map': {
+        const entries = values.map((v) => mapEntries(v, type));
+        const flat = entries.flat();
+        return {
+          type,
+          values: entries,
+          children: [this.plan(type.key, flat.map((e) => e[0])), this.plan(type.value, flat.map((e) => e[1]))],
+        };
+      }
+      case 'Tuple': {
+        const rows = values.map((v) => tupleElements(v, type));
+        return { type, values: rows, children: type.elements.map((el, i) => this.plan(el, rows.map((r) => r[i]))) };
+      }
+      case 'Nullable': {
+        const inner = values.map((v) => (v === null || v === undefined ? placeholder(type.inner) : v));
+        return { type, values, children: [this.plan(type.inner, inner)] };
+      }
+      case 'LowCardinality':
+        return this.planLowCardinality(type, values);
+      case 'Variant':
+        return this.planVariant(type, type.variants, values);
+      case 'Geometry':
+        return this.planVariant(type, GEOMETRY_VARIANTS.map((kind) => ({ kind })), values);
+      case 'Point':
+      case 'Ring':
+      case 'LineString':
+      case 'Polygon':
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        return this.plan(geoAsComposite(type.kind), values);
+      case 'Dynamic':
+        return this.planDynamic(type, values, this.dynamicVersion());
+      case 'JSON':
+        return this.planJSON(type, values);
+      case 'SimpleAggregateFunction':
+        return this.plan(simpleAggregateValueType(type), values);
+      default:
+        return { type, values, children: [] };
+    }
+  }
+
+  /**
+   * The dictionary holds placeholder slots first — the default value, or NULL
+   * and the default for Nullable — then each distinct value in first-seen order.
+   */
+  private planLowCardinality(type: Extract<ClickHouseType, { kind: 'LowCardinality' }>, values: unknown[]): ColumnPlan {
+    const nullable = type.inner.kind === 'Nullable';
+    const dictType = type.inner.kind === 'Nullable' ? type.inner.inner : type.inner;
+    const dictionary = nullable ? [placeholder(dictType), placeholder(dictType)] : [placeholder(dictType)];
+    const positions = new Map<string, number>([[this.valueKey(dictType, dictionary[0]), dictionary.length - 1]]);
+    const indexes = values.map((value) => {
+      if (value === null || value === undefined) {
+        if (!nullable) throw new Error(`NULL in ${typeToString(type)}`);
+        return 0;
+      }
+      const key = this.valueKey(dictType, value);
+      let index = positions.get(key);
+      if (index === undefined) {
+        index = dictionary.length;
+        positions.set(key, index);
+        dictionary.push(value);
+      }
+      return index;
+    });
+    return { type, values, indexes, children: [this.plan(dictType, dictionary)] };
+  }
+
+  private planVariant(type: ClickHouseType, variants: ClickHouseType[], values: unknown[]): ColumnPlan {
+    const groups: unknown[][] = variants.map(() => []);
+    const discriminators = values.map((value) => {
+      if (value === null || value === undefined) return 0xff;
+      const index = this.variantIndex(variants, value);
+      groups[index].push(value instanceof TypedValue ? value.value : value);
+      return index;
+    });
+    return { type, values, discriminators, children: variants.map((v, i) => this.plan(v, groups[i])) };
+  }
+
+  private variantIndex(variants: ClickHouseType[], value: unknown): number {
+    if (value instanceof TypedValue) {
+      const wanted = typeToString(value.type);
+      const index = variants.findIndex((v) => typeToString(v) === wanted);
+      if (index < 0) throw new Error(`${wanted} is not one of the variants`);
+      return index;
+    }
+    // The first variant (in the sorted order of the type) that accepts the value.
+    const index = variants.findIndex((v) => {
+      try {
+        this.writeColumn(new BinaryWriter(16), v, [value]);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+    if (index < 0) throw new Error(`no variant accepts ${describe(value)}`);
+    return index;
+  }
+
+  private dynamicVersion(): number {
+    if (this.options.flattenDynamicAndJson) return 3;
+    return this.protocolVersion >= F.V2_DYNAMIC_AND_JSON_SERIALIZATION ? 2 : 1;
+  }
+
+  /**
+   * Rows are grouped by their (given or inferred) type; the type names are
+   * sorted, which is also the order of the V1/V2 discriminators once the
+   * never-used SharedVariant slot is placed among them.
+   */
+  private planDynamic(type: ClickHouseType, values: unknown[], version: number): ColumnPlan {
+    const rowTypes = values.map((value) => inferType(value));
+    const byName = new Map<string, ClickHouseType>();
+    for (const t of rowTypes) if (t) byName.set(typeToString(t), t);
+    const names = [...byName.keys()].sort();
+    const maxTypes = type.kind === 'Dynamic' ? (type.maxTypes ?? DEFAULT_MAX_DYNAMIC_TYPES) : DEFAULT_MAX_DYNAMIC_TYPES;
+    if (version !== 3 && names.length > maxTypes) {
+      throw new Error(`${names.length} types exceed max_types=${maxTypes}; the shared variant is not written`);
+    }
+
+    const groups: unknown[][] = names.map(() => []);
+    const wireOrder = version === 3 ? names : [...names, 'SharedVariant'].sort();
+    const nullDiscriminator = version === 3 ? names.length : 0xff;
+    const discriminators = rowTypes.map((t, row) => {
+      if (!t) return nullDiscriminator;
+      const name = typeToString(t);
+      const value = values[row];
+      groups[names.indexOf(name)].push(value instanceof TypedValue ? value.value : value);
+      return wireOrder.indexOf(name);
+    });
+    return {
+      type,
+      values,
+      version,
+      names,
+      discriminators,
+      children: names.map((name, i) => this.plan(byName.get(name)!, groups[i])),
+    };
+  }
+
+  /**
+   * Typed paths come from the type, in name order; every other path seen in
+   * the rows becomes a dynamic path (a Dynamic sub-column, NULL where a row
+   * lacks it). The shared-data store is always written empty.
+   */
+  private planJSON(type: Extract<ClickHouseType, { kind: 'JSON' }>, values: unknown[]): ColumnPlan {
+    if (this.options.jsonAsString) {
+      return { type, values: values.map((v) => jsonText(v)), version: 1, children: [] };
+    }
+    const version = this.options.flattenDynamicAndJson
+      ? 3
+      : this.protocolVersion >= F.V2_DYNAMIC_AND_JSON_SERIALIZATION ? 2 : 0;
+    const rows = values.map((value) => flattenPaths(value));
+    const typed = [...(type.typedPaths ?? new Map<string, ClickHouseType>()).entries()].sort((a, b) =>
+      compareNames(a[0], b[0]),
+    );
+    const typedNames = new Set(typed.map(([name]) => name));
+    const dynamic = new Set<string>();
+    for (const row of rows) for (const path of row.keys()) if (!typedNames.has(path)) dynamic.add(path);
+    const names = [...dynamic].sort(compareNames);
+    const maxPaths = type.maxDynamicPaths ?? DEFAULT_MAX_DYNAMIC_PATHS;
+    if (version !== 3 && names.length > maxPaths) {
+      throw new Error(`${names.length} paths exceed max_dynamic_paths=${maxPaths}; shared data is not written`);
+    }
+
+    const dynamicVersion = version === 3 ? 3 : version === 2 ? 2 : 1;
+    const children = [
+      ...typed.map(([name, t]) => this.plan(t, rows.map((row) => (row.has(name) ? row.get(name) : placeholder(t))))),
+      ...names.map((name) =>
+        this.planDynamic({ kind: 'Dynamic' }, rows.map((row) => row.get(name) ?? null), dynamicVersion),
+      ),
+    ];
+    return { type, values, version, names, children };
+  }
+
+  // --- writing --------------------------------------------------------------------
+
+  private writePrefix(w: BinaryWriter, plan: ColumnPlan): void {
+    switch (plan.type.kind) {
+      case 'LowCardinality':
+        w.writeUInt64LE(1n);
+        return;
+      case 'Variant':
+      case 'Geometry':
+        w.writeUInt64LE(0n);
+        break;
+      case 'Dynamic':
+        this.writeDynamicStructure(w, plan);
+        break;
+      case 'JSON':
+        w.writeUInt64LE(BigInt(plan.version!));
+        if (plan.version === 1) return;
+        if (plan.version === 0) {
+          const type = plan.type as Extract<ClickHouseType, { kind: 'JSON' }>;
+          w.writeVarUInt(type.maxDynamicPaths ?? DEFAULT_MAX_DYNAMIC_PATHS);
+        }
+        w.writeVarUInt(plan.names!.length);
+        for (const name of plan.names!) w.writeString(name);
+        break;
+    }
+    for (const child of plan.children) this.writePrefix(w, child);
+  }
+
+  private writeDynamicStructure(w: BinaryWriter, plan: ColumnPlan): void {
+    w.writeUInt64LE(BigInt(plan.version!));
+    if (plan.version === 1) {
+      const type = plan.type as Extract<ClickHouseType, { kind: 'Dynamic' }>;
+      w.writeVarUInt(type.maxTypes ?? DEFAULT_MAX_DYNAMIC_TYPES);
+    }
+    w.writeVarUInt(plan.names!.length);
+    for (const name of plan.names!) w.writeString(name);
+    // V1/V2 wrap the types in a Variant, whose mode word follows.
+    if (plan.version !== 3) w.writeUInt64LE(0n);
+  }
+
+  private writeData(w: BinaryWriter, plan: ColumnPlan): void {
+    const { type, values, children } = plan;
+    if (values.length === 0) return;
+    switch (type.kind) {
+      case 'Array':
+      case 'Map': {
+        let offset = 0n;
+        for (const value of values) {
+          offset += BigInt((value as unknown[]).length);
+          w.writeUInt64LE(offset);
+        }
+        break;
+      }
+      case 'Nullable':
+        for (const value of values) w.writeUInt8(value === null || value === undefined ? 1 : 0);
+        break;
+      case 'LowCardinality': {
+        const dictionarySize = children[0].values.length;
+        const width = smallestIndexWidth(dictionarySize);
+        // Index type in the low byte; HasAdditionalKeys | NeedUpdateDictionary.
+        w.writeUInt64LE(BigInt(Math.log2(width)) | 0x600n);
+        w.writeUInt64LE(BigInt(dictionarySize));
+        this.writeData(w, children[0]);
+        w.writeUInt64LE(BigInt(values.length));
+        for (const index of plan.indexes!) writeIndex(w, index, width);
+        return;
+      }
+      case 'Variant':
+      case 'Geometry':
+        for (const disc of plan.discriminators!) w.writeUInt8(disc);
+        break;
+      case 'Dynamic': {
+        const width = plan.version === 3 ? smallestIndexWidth(plan.names!.length + 1) : 1;
+        for (const disc of plan.discriminators!) writeIndex(w, disc, width);
+        break;
+      }
+      case 'JSON':
+        if (plan.version === 1) {
+          for (const text of values) w.writeString(text as string);
+          return;
+        }
+        for (const child of children) this.writeData(w, child);
+        // Shared data offsets: every row has no shared paths.
+        if (plan.version !== 3) for (let i = 0; i < values.length; i++) w.writeUInt64LE(0n);
+        return;
+      case 'QBit':
+        writeQBit(w, type, values);
+        return;
+      case 'Tuple':
+        break;
+      default:
+        for (const value of values) writeLeafValue(w, type, value);
+        return;
+    }
+    for (const child of children) this.writeData(w, child);
+  }
+
+  /** Whether `value` is its type's default, i.e. encodes to zero bytes (or an empty String). */
+  private isDefaultValue(type: ClickHouseType, value: unknown): boolean {
+    const w = new BinaryWriter(16);
+    writeLeafValue(w, type, value);
+    return w.toBytes().every((b) => b === 0);
+  }
+
+  /** Identity of a value for dictionaries: its encoding as a one-row column. */
+  private valueKey(type: ClickHouseType, value: unknown): string {
+    const w = new BinaryWriter(16);
+    this.writeColumn(w, type, [value]);
+    return Array.from(w.toBytes(), (b) => b.toString(16).padStart(2, '0')).join('');
+  }
+}
+
+// --- type helpers -------------------------------------------------------------
+
+/** Types whose sparse defaults NativeDecoder can materialize. */
+function hasSparseDefault(type: ClickHouseType): boolean {
+  return /^(U?Int\d+|Float\d+|BFloat16|Decimal\d+|Bool|String|FixedString)$/.test(type.kind);
+}
+
+function nestedAsArray(type: Extract<ClickHouseType, { kind: 'Nested' }>): ClickHouseType {
+  return {
+    kind: 'Array',
+    element: { kind: 'Tuple', elements: type.fields.map((f) => f.type), names: type.fields.map((f) => f.name) },
+  };
+}
+
+function smallestIndexWidth(count: number): number {
+  if (count <= 0xff) return 1;
+  if (count <= 0xffff) return 2;
+  if (count <= 0xffffffff) return 4;
+  return 8;
+}
+
+function writeIndex(w: BinaryWriter, index: number, width: number): void {
+  if (width === 1) w.writeUInt8(index);
+  else if (width === 2) w.writeUInt16LE(index);
+  else if (width === 4) w.writeUInt32LE(index);
+  else w.writeUInt64LE(BigInt(index));
+}
+
+/**
+ * QBit columns are bit-transposed: for each bit plane (most significant
+ * first), one run of rows, each row packing element i into bit i % 8 of
+ * byte i / 8.
+ */
+function writeQBit(w: BinaryWriter, type: Extract<ClickHouseType, { kind: 'QBit' }>, values: unknown[]): void {
+  const bitsPerElement = type.element.kind === 'Float64' ? 64 : type.element.kind === 'BFloat16' ? 16 : 32;
+  const bytesPerRow = Math.ceil(type.dimension / 8);
+  const rows = values.map((value) => {
+    const vector = asArray(value, type);
+    if (vector.length !== type.dimension) throw mismatch(value, type);
+    return vector.map((element) => floatBits(toFloat(element, type), bitsPerElement));
+  });
+  for (let plane = 0; plane < bitsPerElement; plane++) {
+    const bit = BigInt(bitsPerElement - 1 - plane);
+    for (const row of rows) {
+      const packed = new Uint8Array(bytesPerRow);
+      row.forEach((bits, i) => {
+        if ((bits >> bit) & 1n) packed[i >> 3] |= 1 << (i & 7);
+      });
+      w.writeBytes(packed);
+    }
+  }
+}
+
+function floatBits(value: number, width: number): bigint {
+  const view = new DataView(new ArrayBuffer(8));
+  if (width === 64) {
+    view.setFloat64(0, value);
+    return view.getBigUint64(0);
+  }
+  if (width === 16) return BigInt(toBFloat16Bits(value));
+  view.setFloat32(0, value);
+  return BigInt(view.getUint32(0));
+}
@@ -0,0 +1,185 @@
+/**
+ * The packet-stream encoder against the decoder: recorded captures must
+ * survive decode → script → encode byte for byte, and hand-written or edited
+ * scripts must decode cleanly with the edits in place.
+ */
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { encodeProtocolScript } from './protocol-encoder';
+import { scriptFromCapture, type ProtocolScript, type ScriptPacket } from './protocol-script';
+import { encodeChprotoDump, parseChprotoDump } from '../decoder/protocol-dump';
+import { ProtocolDecoder } from '../decoder/protocol-decoder';
+import { AstNode, ParsedData } from '../types/ast';
+
+const FIXTURES = join(__dirname, '../decoder/fixtures/protocol');
+const fixtures = readdirSync(FIXTURES).filter((f) => f.endsWith('.chproto'));
+
+function loadScript(name: string): ProtocolScript {
+  const capture = parseChprotoDump(new Uint8Array(readFileSync(join(FIXTURES, name))));
+  // Through JSON, as `chfx encode` hands it to an editor.
+  return JSON.parse(JSON.stringify(scriptFromCapture(capture))) as ProtocolScript;
+}
+
+function decode(script: ProtocolScript): ParsedData {
+  return ProtocolDecoder.fromCapture(encodeProtocolScript(script)).decode();
+}
+
+function packets(parsed: ParsedData): { client: AstNode[]; server: AstNode[] } {
+  const [client, server] = parsed.trailingNodes!;
+  return { client: client.children!, server: server.children! };
+}
+
+function field(node: AstNode, label: string): AstNode {
+  const found = node.children!.find((c) => c.label === label);
+  if (!found) throw new Error(`no ${label} under ${node.label}`);
+  return found;
+}
+
+function decodeErrors(parsed: ParsedData): AstNode[] {
+  const { client, server } = packets(parsed);
+  return [...client, ...server].filter((p) => p.type === 'Protocol.DecodeError');
+}
+
+const MINIMAL: ProtocolScript = {
+  packets: [
+    { dir: 'client', type: 'ClientHello', protocol_version: 54483 },
+    { dir: 'server', type: 'ServerHello', version_major: 26, version_minor: 2, protocol_version: 54483 },
+    { dir: 'client', type: 'Addendum' },
+    { dir: 'client', type: 'Query', query_body: 'SELECT 42 AS x', settings: { max_threads: '1' } },
+    { dir: 'client', type: 'Data' },
+    { dir: 'server', type: 'Progress', rows: 1, bytes: 1, total_rows: 1 },
+    { dir: 'server', type: 'Data', block: { rows: 1, columns: [{ name: 'x', type: 'UInt8', data: '2a' }] } },
+    { dir: 'server', type: 'EndOfStream' },
+  ],
+};
+
+describe('encodeProtocolScript', () => {
+  it.each(fixtures)('re-encodes %s byte for byte from its script', (name) => {
+    const capture = parseChprotoDump(new Uint8Array(readFileSync(join(FIXTURES, name))));
+    const encoded = encodeProtocolScript(loadScript(name));
+    expect(Buffer.from(encoded.c2s).equals(Buffer.from(capture.c2s))).toBe(true);
+    expect(Buffer.from(encoded.s2c).equals(Buffer.from(capture.s2c))).toBe(true);
+
+    const dump = parseChprotoDump(encodeChprotoDump(encoded));
+    expect(Buffer.from(dump.c2s).equals(Buffer.from(capture.c2s))).toBe(true);
+    expect(Buffer.from(dump.s2c).equals(Buffer.from(capture.s2c))).toBe(true);
+    expect(dump.meta).toMatchObject({ protocolVersion: 54482 });
+  });
+
+  it('fills in defaults so a minimal hand-written script decodes cleanly', () => {
+    const parsed = decode(MINIMAL);
+    expect(decodeErrors(parsed)).toEqual([]);
+    expect(parsed.metadata?.negotiatedVersion).toBe(54483);
+
+    const { client, server } = packets(parsed);
+    expect(client.map((p) => p.label)).toEqual(['ClientHello', 'Addendum', 'Query', 'Data']);
+    expect(server.map((p) => p.label)).toEqual(['ServerHello', 'Progress', 'Data', 'EndOfStream']);
+    const settings = field(client[2], 'settings');
+    expect(settings.children!.map((c) => c.label)).toEqual(['max_threads', 'terminator']);
+
+    const column = field(server[2], 'block').children![1];
+    expect(column.label).toBe('x');
+    expect(column.children![1].value).toBe(42);
+  });
+
+  it('carries an edited field into the decoded capture', () => {
+    const script = loadScript('01-simple-select.chproto');
+    const query = script.packets.find((p) => p.type === 'Query')!;
+    query.query_body = 'SELECT 43 AS a, \'hey\' AS b';
+    (query.client_info as Record<string, unknown>).client_name = 'my-driver';
+
+    const parsed = decode(script);
+    expect(decodeErrors(parsed)).toEqual([]);
+    const decoded = packets(parsed).client.find((p) => p.label === 'Query')!;
+    expect(field(decoded, 'query_body').value).toBe(script.packets[2].query_body);
+    expect(field(field(decoded, 'ClientInfo'), 'client_name').value).toBe('my-driver');
+  });
+
+  it('omits fields the negotiated version does not carry', () => {
+    const script: ProtocolScript = {
+      packets: MINIMAL.packets
+        .filter((p) => p.type !== 'Addendum')
+        .map((p) => (p.type.endsWith('Hello') ? { ...p, protocol_version: 54441 } : p)),
+    };
+    const parsed = decode(script);
+    expect(decodeErrors(parsed)).toEqual([]);
+    const { client } = packets(parsed);
+    expect(client.map((p) => p.label)).toEqual(['ClientHello', 'Query', 'Data']);
+    expect(client[1].children!.map((c) => c.label)).not.toContain('parameters');
+    const blockInfo = field(field(field(client[2], 'block'), 'header'), 'blockInfo');
+    expect(blockInfo.children!.map((c) => c.label)).toEqual(['is_overflows', 'bucket_num', 'terminator']);
+
+    // An Addendum does not exist before v54458.
+    expect(() => encodeProtocolScript({ packets: [...script.packets, MINIMAL.packets[2]] })).toThrow(/Addendum needs protocol v54458/);
+  });
+
+  it('wraps Blocks of a compressed query in checksummed NONE frames', () => {
+    const script: ProtocolScript = {
+      packets: MINIMAL.packets.map((p) => (p.type === 'Query' ? { ...p, compression: 1 } : p)),
+    };
+    const parsed = decode(script);
+    expect(decodeErrors(parsed)).toEqual([]);
+    const data = packets(parsed).server.find((p) => p.label === 'Data')!;
+    const frame = data.children!.find((c) => c.type === 'Compression.Frame')!;
+    expect(frame).toBeDefined();
+    expect(field(data, 'block').metadata?.compressed).toBe(true);
+
+    // The frames are kept verbatim when the capture is scripted again.
+    const again = scriptFromCapture(encodeProtocolScript(script));
+    const scripted = again.packets.filter((p) => p.dir === 'server' && p.type === 'Data')[0];
+    expect(scripted.frames).toHaveLength(1);
+    expect(scripted.block).toBeUndefined();
+    const encoded = encodeProtocolScript(again);
+    expect(Buffer.from(encoded.s2c).equals(Buffer.from(encodeProtocolScript(script).s2c))).toBe(true);
+  });
+
+  it('encodes block columns given as values', () => {
+    const script: ProtocolScript = {
+      packets: MINIMAL.packets.map((p) =>
+        p.type === 'Data' && p.dir === 'server'
+          ? {
+              ...p,
+              block: {
+                columns: [
+                  { name: 'n', type: 'Nullable(UInt32)', values: [1, null] },
+                  { name: 's', type: 'LowCardinality(String)', values: ['a', 'a'] },
+                ],
+              },
+            }
+          : p,
+      ),
+    };
+    const parsed = decode(script);
+    expect(decodeErrors(parsed)).toEqual([]);
+    const data = packets(parsed).server.find((p) => p.label === 'Data')!;
+    const columns = field(data, 'block').children!.slice(1);
+    expect(columns.map((c) => c.children!.slice(1).map((v) => v.value))).toEqual([
+      [1, null],
+      ['a', 'a'],
+    ]);
+  });
+
+  it('writes an Exception chain and names the packet a script error is in', () => {
+    const script: ProtocolScript = {
+      packets: [
+        { dir: 'client', type: 'ClientHello' },
+        {
+          dir: 'server',
+          type: 'Exception',
+          exceptions: [
+            { code: 60, message: 'Unknown table' },
+            { code: 1000, name: 'Poco::Exception', message: 'cause' },
+          ],
+        },
+      ],
+    };
+    const [exception] = packets(decode(script)).server;
+    expect(exception.children!.map((c) => c.label)).toEqual(['packet_type', 'exception', 'nested_exception[1]']);
+
+    const broken: ScriptPacket = { dir: 'server', type: 'Progress', rows: 'many' };
+    expect(() => encodeProtocolScript({ packets: [...script.packets, broken] })).toThrow(
+      /packet 2 \(server Progress\): `rows` must be an integer/,
+    );
+  });
+});
@@ -0,0 +1,527 @@
+import { cityHash128 } from '../compression/cityhash';
+import { CompressionMethod } from '../compression/compressed-frame';
+import { CHUNK_HEADER_SIZE, type ChunkedDirections, negotiateChunked } from '../decoder/protocol-chunks';
+import {
+  ClientPacket,
+  CURRENT_NATIVE_PROTOCOL_VERSION,
+  NATIVE_PROTOCOL_FEATURES as F,
+  ServerPacket,
+} from '../types/native-protocol';
+import { NativeEncoder } from './native-encoder';
+import { BinaryWriter } from './writer';
+import {
+  fromHex,
+  type ProtocolScript,
+  type ScriptBlock,
+  type ScriptDirection,
+  type ScriptPacket,
+  type ScriptSetting,
+} from './protocol-script';
+
+/**
+ * Encoder for the native TCP protocol, the inverse of ProtocolDecoder: it
+ * writes a ProtocolScript's packets in wire order, with every field gated on
+ * the negotiated version exactly as the decoder reads it. The negotiated
+ * version is min(ClientHello, ServerHello) `protocol_version`, as in a real
+ * handshake.
+ *
+ * Compression follows the script's Query packets the way the decoder tracks
+ * it: Data-family packets of a query with `compression` set are written as
+ * compressed frames — the packet's `frames` when given, otherwise its Block
+ * wrapped in a single NONE frame with a valid checksum.
+ *
+ * Chunked framing is negotiated from the Addendum and ServerHello modes the
+ * same way: in a chunked direction every packet after the handshake is
+ * written as one chunk (or the sizes its `chunks` lists) and an end marker.
+ */
+
+/** A script encoded as the two byte streams of a capture, in `.chproto` terms. */
+export interface EncodedProtocolScript {
+  c2s: Uint8Array;
+  s2c: Uint8Array;
+  /** One segment per run of same-direction packets, in script order. */
+  segments: { dir: 0 | 1; data: Uint8Array }[];
+  meta: Record<string, unknown>;
+}
+
+/** Packets sent before chunked framing starts. */
+const HANDSHAKE_PACKETS = new Set(['ClientHello', 'Addendum', 'ServerHello']);
+
+/** Query settings flags (BaseSettingsHelpers::Flags). */
+export const SETTING_IMPORTANT = 0x01;
+export const SETTING_CUSTOM = 0x02;
+
+const DATA_FAMILY: Record<ScriptDirection, Record<string, number>> = {
+  client: { Data: ClientPacket.Data },
+  server: {
+    Data: ServerPacket.Data,
+    Totals: ServerPacket.Totals,
+    Extremes: ServerPacket.Extremes,
+    Log: ServerPacket.Log,
+    ProfileEvents: ServerPacket.ProfileEvents,
+  },
+};
+
+export function encodeProtocolScript(script: ProtocolScript): EncodedProtocolScript {
+  if (!Array.isArray(script?.packets)) {
+    throw new Error('protocol script needs a `packets` array');
+  }
+  const version = negotiatedVersion(script.packets);
+  const chunked = chunkedDirections(script.packets, version);
+  const queryCompression: boolean[] = [];
+  let serverQueryIndex = 0;
+  const streams: Record<ScriptDirection, BinaryWriter> = { client: new BinaryWriter(), server: new BinaryWriter() };
+  const segments: EncodedProtocolScript['segments'] = [];
+
+  script.packets.forEach((packet, i) => {
+    const where = `packet ${i} (${String(packet?.dir)} ${String(packet?.type)})`;
+    if (packet?.dir !== 'client' && packet?.dir !== 'server') {
+      throw new Error(`${where}: \`dir\` must be "client" or "server"`);
+    }
+    let compressed = false;
+    if (packet.type in DATA_FAMILY[packet.dir]) {
+      compressed = packet.dir === 'client'
+        ? (queryCompression[queryCompression.length - 1] ?? false)
+        : (queryCompression[serverQueryIndex] ?? false) &&
+          (!['Log', 'ProfileEvents'].includes(packet.type) || version >= F.COMPRESSED_LOGS_PROFILE_EVENTS);
+    }
+    let bytes: Uint8Array;
+    try {
+      bytes = encodeProtocolPacket(packet, version, compressed);
+    } catch (err) {
+      throw new Error(`${where}: ${(err as Error).message}`);
+    }
+    if (chunked[packet.dir] && !HANDSHAKE_PACKETS.has(packet.type)) {
+      try {
+        bytes = chunkPacket(bytes, packet.chunks);
+      } catch (err) {
+        throw new Error(`${where}: ${(err as Error).message}`);
+      }
+    }
+    if (packet.dir === 'client' && packet.type === 'Query') queryCompression.push(num(packet, 'compression', 0) !== 0);
+    if (packet.dir === 'server' && (packet.type === 'EndOfStream' || packet.type === 'Exception')) serverQueryIndex += 1;
+
+    streams[packet.dir].writeBytes(bytes);
+    const dir = packet.dir === 'client' ? 0 : 1;
+    const last = segments[segments.length - 1];
+    if (last?.dir === dir) last.data = concat(last.data, bytes);
+    else segments.push({ dir, data: bytes });
+  });
+
+  return {
+    c2s: streams.client.toBytes(),
+    s2c: streams.server.toBytes(),
+    segments,
+    meta: { ...script.meta, protocolVersion: version },
+  };
+}
+
+/**
+ * Encode one packet for the negotiated `version`. `compressed` says whether a
+ * Data-family packet belongs to a query that negotiated compression.
+ */
+export function encodeProtocolPacket(packet: ScriptPacket, version: number, compressed = false): Uint8Array {
+  const w = new BinaryWriter();
+  const family = DATA_FAMILY[packet.dir][packet.type];
+  if (family !== undefined) {
+    w.writeVarUInt(family).writeString(str(packet, 'table_name'));
+    writeDataBody(w, packet, version, compressed);
+    return w.toBytes();
+  }
+  if (packet.dir === 'client') {
+    writeClientPacket(w, packet, version);
+  } else {
+    writeServerPacket(w, packet, version);
+  }
+  return w.toBytes();
+}
+
+function writeClientPacket(w: BinaryWriter, p: ScriptPacket, version: number): void {
+  switch (p.type) {
+    case 'ClientHello':
+      w.writeVarUInt(ClientPacket.Hello)
+        .writeString(str(p, 'client_name', 'chfx'))
+        .writeVarUInt(num(p, 'version_major', 0))
+        .writeVarUInt(num(p, 'version_minor', 0))
+        .writeVarUInt(num(p, 'protocol_version', CURRENT_NATIVE_PROTOCOL_VERSION))
+        .writeString(str(p, 'database'))
+        .writeString(str(p, 'user', 'default'))
+        .writeString(str(p, 'password'));
+      return;
+    case 'Addendum':
+      // No packet type: the Addendum directly follows the handshake.
+      if (version < F.ADDENDUM) throw new Error(`Addendum needs protocol v${F.ADDENDUM}+; negotiated ${version}`);
+      w.writeString(str(p, 'quota_key'));
+      if (version >= F.CHUNKED_PROTOCOL) {
+        w.writeString(str(p, 'proto_send_chunked', 'notchunked')).writeString(str(p, 'proto_recv_chunked', 'notchunked'));
+      }
+      if (version >= F.VERSIONED_PARALLEL_REPLICAS) w.writeVarUInt(num(p, 'parallel_replicas_protocol_version', 0));
+      if (version >= F.VERSIONED_CLUSTER_FUNCTION) w.writeVarUInt(num(p, 'cluster_function_protocol_version', 0));
+      return;
+    case 'Query':
+      writeQuery(w, p, version);
+      return;
+    case 'Cancel':
+      w.writeVarUInt(ClientPacket.Cancel);
+      return;
+    case 'Ping':
+      w.writeVarUInt(ClientPacket.Ping);
+      return;
+    case 'SSHChallengeRequest':
+      w.writeVarUInt(ClientPacket.SSHChallengeRequest);
+      return;
+    case 'SSHChallengeResponse':
+      w.writeVarUInt(ClientPacket.SSHChallengeResponse).writeString(str(p, 'signature'));
+      return;
+    default:
+      throw new Error(`unknown client packet type "${p.type}"`);
+  }
+}
+
+function writeQuery(w: BinaryWriter, p: ScriptPacket, version: number): void {
+  w.writeVarUInt(ClientPacket.Query).writeString(str(p, 'query_id'));
+  if (version >= F.WRITE_CLIENT_INFO) {
+    writeClientInfo(w, record(p, 'client_info'), version);
+  }
+  if (version < F.SETTINGS_AS_STRINGS) {
+    throw new Error(`Query settings below v${F.SETTINGS_AS_STRINGS} (binary settings) are not supported; negotiated ${version}`);
+  }
+  writeSettingsList(w, p.settings, SETTING_IMPORTANT, 'settings');
+  if (version >= F.INTERSERVER_EXTERNALLY_GRANTED_ROLES) {
+    // A serialized, empty list of role names unless given.
+    w.writeString(str(p, 'external_roles', '\u0000'));
+  }
+  if (version >= F.INTERSERVER_SECRET) w.writeString(str(p, 'cluster_secret'));
+  w.writeVarUInt(num(p, 'stage', 2)).writeVarUInt(num(p, 'compression', 0)).writeString(str(p, 'query_body'));
+  if (version >= F.PARAMETERS) writeSettingsList(w, p.parameters, SETTING_CUSTOM, 'parameters');
+}
+
+function writeClientInfo(w: BinaryWriter, info: Record<string, unknown>, version: number): void {
+  w.writeUInt8(num(info, 'query_kind', 1))
+    .writeString(str(info, 'initial_user'))
+    .writeString(str(info, 'initial_query_id'))
+    .writeString(str(info, 'initial_address', '0.0.0.0:0'));
+  if (version >= F.INITIAL_QUERY_START_TIME) w.writeInt64LE(big(info, 'initial_time'));
+  const iface = num(info, 'query_interface', 1);
+  w.writeUInt8(iface);
+  const isTcp = iface === 1;
+  if (isTcp) {
+    w.writeString(str(info, 'os_user'))
+      .writeString(str(info, 'client_hostname'))
+      .writeString(str(info, 'client_name', 'chfx'))
+      .writeVarUInt(num(info, 'client_version_major', 0))
+      .writeVarUInt(num(info, 'client_version_minor', 0))
+      .writeVarUInt(num(info, 'client_protocol_version', version));
+  }
+  if (version >= F.QUOTA_KEY_IN_CLIENT_INFO) w.writeString(str(info, 'quota_key'));
+  if (version >= F.DISTRIBUTED_DEPTH) w.writeVarUInt(num(info, 'distributed_depth', 0));
+  if (version >= F.VERSION_PATCH && isTcp) w.writeVarUInt(num(info, 'client_version_patch', 0));
+  if (version >= F.OPEN_TELEMETRY) {
+    const trace = info.open_telemetry;
+    if (trace === null || trace === undefined) {
+      w.writeUInt8(0);
+    } else {
+      const t = trace as Record<string, unknown>;
+      w.writeUInt8(1)
+        .writeBytes(fixedHex(t, 'trace_id', 16))
+        .writeBytes(fixedHex(t, 'span_id', 8))
+        .writeString(str(t, 'trace_state'))
+        .writeUInt8(num(t, 'trace_flags', 0));
+    }
+  }
+  if (version >= F.PARALLEL_REPLICAS) {
+    w.writeVarUInt(num(info, 'collaborate_with_initiator', 0))
+      .writeVarUInt(num(info, 'count_participating_replicas', 0))
+      .writeVarUInt(num(info, 'number_of_current_replica', 0));
+  }
+  if (version >= F.QUERY_AND_LINE_NUMBERS) {
+    w.writeVarUInt(num(info, 'script_query_number', 0)).writeVarUInt(num(info, 'script_line_number', 0));
+  }
+  if (version >= F.JWT_IN_INTERSERVER) {
+    const jwt = info.jwt;
+    if (jwt === null || jwt === undefined) w.writeUInt8(0);
+    else w.writeUInt8(1).writeString(str(info, 'jwt'));
+  }
+}
+
+function writeServerPacket(w: BinaryWriter, p: ScriptPacket, version: number): void {
+  switch (p.type) {
+    case 'ServerHello':
+      writeServerHello(w, p, version);
+      return;
+    case 'Exception': {
+      w.writeVarUInt(ServerPacket.Exception);
+      const chain = Array.isArray(p.exceptions) ? (p.exceptions as Record<string, unknown>[]) : [p];
+      chain.forEach((ex, i) => {
+        w.writeInt32LE(num(ex, 'code', 0))
+          .writeString(str(ex, 'name', 'DB::Exception'))
+          .writeString(str(ex, 'message'))
+          .writeString(str(ex, 'stack_trace'))
+          .writeUInt8(i < chain.length - 1 ? 1 : 0);
+      });
+      return;
+    }
+    case 'Progress':
+      w.writeVarUInt(ServerPacket.Progress)
+        .writeVarUInt(num(p, 'rows', 0))
+        .writeVarUInt(num(p, 'bytes', 0))
+        .writeVarUInt(num(p, 'total_rows', 0));
+      if (version >= F.TOTAL_BYTES_IN_PROGRESS) w.writeVarUInt(num(p, 'total_bytes', 0));
+      if (version >= F.WRITE_CLIENT_INFO) w.writeVarUInt(num(p, 'wrote_rows', 0)).writeVarUInt(num(p, 'wrote_bytes', 0));
+      if (version >= F.SERVER_QUERY_TIME_IN_PROGRESS) w.writeVarUInt(num(p, 'elapsed_ns', 0));
+      return;
+    case 'Pong':
+      w.writeVarUInt(ServerPacket.Pong);
+      return;
+    case 'EndOfStream':
+      w.writeVarUInt(ServerPacket.EndOfStream);
+      return;
+    case 'ProfileInfo':
+      w.writeVarUInt(ServerPacket.ProfileInfo)
+        .writeVarUInt(num(p, 'rows', 0))
+        .writeVarUInt(num(p, 'blocks', 0))
+        .writeVarUInt(num(p, 'bytes', 0))
+        .writeUInt8(bool(p, 'applied_limit'))
+        .writeVarUInt(num(p, 'rows_before_limit', 0))
+        .writeUInt8(bool(p, 'calculated_rows_before_limit'));
+      if (version >= F.ROWS_BEFORE_AGGREGATION) {
+        w.writeUInt8(bool(p, 'applied_aggregation')).writeVarUInt(num(p, 'rows_before_aggregation', 0));
+      }
+      return;
+    case 'TableColumns':
+      w.writeVarUInt(ServerPacket.TableColumns)
+        .writeString(str(p, 'external_table'))
+        .writeString(str(p, 'columns_description'));
+      return;
+    case 'TimezoneUpdate':
+      w.writeVarUInt(ServerPacket.TimezoneUpdate).writeString(str(p, 'timezone'));
+      return;
+    case 'SSHChallenge':
+      w.writeVarUInt(ServerPacket.SSHChallenge).writeString(str(p, 'challenge'));
+      return;
+    default:
+      throw new Error(`unknown server packet type "${p.type}"`);
+  }
+}
+
+function writeServerHello(w: BinaryWriter, p: ScriptPacket, version: number): void {
+  w.writeVarUInt(ServerPacket.Hello)
+    .writeString(str(p, 'server_name', 'ClickHouse'))
+    .writeVarUInt(num(p, 'version_major', 0))
+    .writeVarUInt(num(p, 'version_minor', 0))
+    .writeVarUInt(num(p, 'protocol_version', CURRENT_NATIVE_PROTOCOL_VERSION));
+  if (version >= F.VERSIONED_PARALLEL_REPLICAS) w.writeVarUInt(num(p, 'parallel_replicas_protocol_version', 0));
+  if (version >= F.TIMEZONE) w.writeString(str(p, 'timezone', 'UTC'));
+  if (version >= F.DISPLAY_NAME) w.writeString(str(p, 'display_name'));
+  if (version >= F.VERSION_PATCH) w.writeVarUInt(num(p, 'version_patch', 0));
+  if (version >= F.CHUNKED_PROTOCOL) {
+    w.writeString(str(p, 'proto_send_chunked_srv', 'notchunked_optional'))
+      .writeString(str(p, 'proto_recv_chunked_srv', 'notchunked_optional'));
+  }
+  if (version >= F.PASSWORD_COMPLEXITY_RULES) {
+    const rules = list(p, 'password_complexity_rules');
+    w.writeVarUInt(rules.length);
+    for (const rule of rules) w.writeString(str(rule, 'pattern')).writeString(str(rule, 'message'));
+  }
+  if (version >= F.INTERSERVER_SECRET_V2) w.writeUInt64LE(big(p, 'nonce'));
+  if (version >= F.SERVER_SETTINGS) writeSettingsList(w, p.server_settings, 0, 'server_settings');
+  if (version >= F.QUERY_PLAN_SERIALIZATION) w.writeVarUInt(num(p, 'query_plan_serialization_version', 0));
+  if (version >= F.VERSIONED_CLUSTER_FUNCTION) w.writeVarUInt(num(p, 'cluster_function_protocol_version', 0));
+  const tail = p.hello_tail ?? [];
+  if (!Array.isArray(tail)) throw new Error('`hello_tail` must be an array of numbers');
+  for (const value of tail) w.writeVarUInt(asNumber(value, 'hello_tail'));
+}
+
+// --- Data-family packets ----------------------------------------------------
+
+function writeDataBody(w: BinaryWriter, p: ScriptPacket, version: number, compressed: boolean): void {
+  if (compressed && p.frames !== undefined) {
+    if (!Array.isArray(p.frames)) throw new Error('`frames` must be an array of hex strings');
+    for (const frame of p.frames) w.writeBytes(fromHex(String(frame)));
+    return;
+  }
+  if (p.frames !== undefined) {
+    throw new Error('`frames` given, but the query did not negotiate compression');
+  }
+  const block = encodeBlock((p.block ?? {}) as ScriptBlock, version);
+  w.writeBytes(compressed ? encodeNoneFrame(block) : block);
+}
+
+/** Serialize a protocol Block (BlockInfo, counts, then each column) for `version`. */
+export function encodeBlock(block: ScriptBlock, version: number): Uint8Array {
+  if (block.hex !== undefined) return fromHex(block.hex);
+  const w = new BinaryWriter();
+  if (version >= F.BLOCK_INFO) {
+    const info = block.info ?? {};
+    w.writeVarUInt(1).writeUInt8(info.is_overflows ? 1 : 0);
+    w.writeVarUInt(2).writeInt32LE(asNumber(info.bucket_num ?? -1, 'bucket_num'));
+    if (version >= F.OUT_OF_ORDER_BUCKETS) {
+      const buckets = info.out_of_order_buckets ?? [];
+      w.writeVarUInt(3).writeVarUInt(buckets.length);
+      for (const bucket of buckets) w.writeInt32LE(asNumber(bucket, 'out_of_order_buckets'));
+    }
+    w.writeVarUInt(0);
+  }
+  const columns = block.columns ?? [];
+  const rows = block.rows ?? columns.find((c) => c.data === undefined && c.values)?.values?.length ?? 0;
+  w.writeVarUInt(columns.length).writeVarUInt(asNumber(rows, 'rows'));
+  const native = new NativeEncoder(version);
+  for (const column of columns) {
+    w.writeString(str(column, 'name')).writeString(str(column, 'type'));
+    if (column.data === undefined && column.values !== undefined) {
+      if (!Array.isArray(column.values)) throw new Error('`values` must be an array');
+      w.writeBytes(native.encodeColumn({ name: column.name, type: column.type, values: column.values }));
+      continue;
+    }
+    if (version >= F.CUSTOM_SERIALIZATION) w.writeBytes(fromHex(column.serialization ?? '00'));
+    w.writeBytes(fromHex(column.data ?? ''));
+  }
+  return w.toBytes();
+}
+
+/** Wrap `data` in one uncompressed (method NONE) frame with its CityHash128 checksum. */
+export function encodeNoneFrame(data: Uint8Array): Uint8Array {
+  const w = new BinaryWriter(25 + data.length)
+    .writeUInt64LE(0n)
+    .writeUInt64LE(0n)
+    .writeUInt8(CompressionMethod.None)
+    .writeUInt32LE(9 + data.length)
+    .writeUInt32LE(data.length)
+    .writeBytes(data);
+  const frame = w.toBytes();
+  const hash = cityHash128(frame.subarray(16));
+  const view = new DataView(frame.buffer);
+  view.setBigUint64(0, hash.low, true);
+  view.setBigUint64(8, hash.high, true);
+  return frame;
+}
+
+// --- helpers ----------------------------------------------------------------
+
+/** min(ClientHello, ServerHello) protocol_version, as ProtocolDecoder computes it. */
+function negotiatedVersion(packets: ScriptPacket[]): number {
+  const hello = (dir: ScriptDirection, type: string) => {
+    const packet = packets.find((p) => p.dir === dir);
+    return packet?.type === type ? num(packet, 'protocol_version', CURRENT_NATIVE_PROTOCOL_VERSION) : null;
+  };
+  const client = hello('client', 'ClientHello');
+  const server = hello('server', 'ServerHello');
+  if (client !== null && server !== null) return Math.min(client, server);
+  return client ?? server ?? 0;
+}
+
+/**
+ * Which directions are chunked, from the first Addendum and ServerHello and
+ * their defaults, as ProtocolDecoder settles it; a conflict reads as not chunked.
+ */
+function chunkedDirections(packets: ScriptPacket[], version: number): ChunkedDirections {
+  const addendum = packets.find((p) => p.dir === 'client' && p.type === 'Addendum');
+  const hello = packets.find((p) => p.dir === 'server' && p.type === 'ServerHello');
+  if (version < F.CHUNKED_PROTOCOL || !addendum || !hello) return { client: false, server: false };
+  const client = negotiateChunked(
+    str(hello, 'proto_recv_chunked_srv', 'notchunked_optional'),
+    str(addendum, 'proto_send_chunked', 'notchunked'),
+  );
+  const server = negotiateChunked(
+    str(hello, 'proto_send_chunked_srv', 'notchunked_optional'),
+    str(addendum, 'proto_recv_chunked', 'notchunked'),
+  );
+  return { client: client === true, server: server === true };
+}
+
+/** Frame one packet as chunks of the given sizes (one chunk by default) and the end marker. */
+function chunkPacket(bytes: Uint8Array, sizes: unknown): Uint8Array {
+  let chunks = [bytes.length];
+  if (sizes !== undefined && sizes !== null) {
+    if (!Array.isArray(sizes)) throw new Error('`chunks` must be an array of chunk sizes');
+    chunks = sizes.map((size) => asNumber(size, 'chunks'));
+    if (chunks.some((size) => size <= 0) || chunks.reduce((a, b) => a + b, 0) !== bytes.length) {
+      throw new Error(`\`chunks\` must be positive sizes adding up to the packet's ${bytes.length} byte(s)`);
+    }
+  }
+  const w = new BinaryWriter(bytes.length + (chunks.length + 1) * CHUNK_HEADER_SIZE);
+  let offset = 0;
+  for (const size of chunks) {
+    w.writeUInt32LE(size).writeBytes(bytes.subarray(offset, offset + size));
+    offset += size;
+  }
+  return w.writeUInt32LE(0).toBytes();
+}
+
+/** A settings-style list: (name, flags, value) triples ended by an empty name. */
+function writeSettingsList(w: BinaryWriter, entries: unknown, defaultFlags: number, field: string): void {
+  let settings: ScriptSetting[];
+  if (entries === undefined || entries === null) {
+    settings = [];
+  } else if (Array.isArray(entries)) {
+    settings = entries as ScriptSetting[];
+  } else if (typeof entries === 'object') {
+    settings = Object.entries(entries).map(([name, value]) => ({ name, value: String(value) }));
+  } else {
+    throw new Error(`\`${field}\` must be a list of {name, value, flags} or a {name: value} object`);
+  }
+  for (const setting of settings) {
+    w.writeString(str(setting, 'name'))
+      .writeVarUInt(num(setting, 'flags', defaultFlags))
+      .writeString(str(setting, 'value'));
+  }
+  w.writeString('');
+}
+
+function str(obj: object, key: string, fallback = ''): string {
+  const value = (obj as Record<string, unknown>)[key];
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== 'string') throw new Error(`\`${key}\` must be a string`);
+  return value;
+}
+
+function num(obj: object, key: string, fallback: number): number {
+  const value = (obj as Record<string, unknown>)[key];
+  return value === undefined || value === null ? fallback : asNumber(value, key);
+}
+
+function asNumber(value: unknown, key: string): number {
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+  if (typeof value === 'string' && /^-?\d+$/.test(value)) return Number(value);
+  throw new Error(`\`${key}\` must be an integer`);
+}
+
+/** 64-bit fields are strings in JSON (they exceed Number precision). */
+function big(obj: object, key: string): bigint {
+  const value = (obj as Record<string, unknown>)[key];
+  if (value === undefined || value === null) return 0n;
+  if ((typeof value === 'string' && /^-?\d+$/.test(value)) || (typeof value === 'number' && Number.isInteger(value))) {
+    return BigInt(value);
+  }
+  throw new Error(`\`${key}\` must be an integer (a string for 64-bit values)`);
+}
+
+function bool(obj: object, key: string): number {
+  const value = (obj as Record<string, unknown>)[key];
+  return value === true || value === 1 ? 1 : 0;
+}
+
+function record(obj: object, key: string): Record<string, unknown> {
+  const value = (obj as Record<string, unknown>)[key] ?? {};
+  if (typeof value !== 'object' || Array.isArray(value)) throw new Error(`\`${key}\` must be an object`);
+  return value as Record<string, unknown>;
+}
+
+function list(obj: object, key: string): Record<string, unknown>[] {
+  const value = (obj as Record<string, unknown>)[key] ?? [];
+  if (!Array.isArray(value)) throw new Error(`\`${key}\` must be an array`);
+  return value as Record<string, unknown>[];
+}
+
+function fixedHex(obj: object, key: string, size: number): Uint8Array {
+  const bytes = fromHex(str(obj, key, '00'.repeat(size)));
+  if (bytes.length !== size) throw new Error(`\`${key}\` must be ${size} bytes of hex`);
+  return bytes;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a, 0);
+  out.set(b, a.length);
+  return out;
+}
@@ -0,0 +1,215 @@
+import { ProtocolDecoder, type ProtocolCapture } from '../decoder/protocol-decoder';
+import { AstNode } from '../types/ast';
+
+/**
+ * A native-protocol conversation as editable JSON: one entry per packet, in
+ * the order the packets crossed the wire, with the same packet and field names
+ * ProtocolDecoder uses for its nodes (`ClientHello.protocol_version`,
+ * `Query.query_body`, `Progress.rows`, ...). encodeProtocolScript turns it into
+ * the two byte streams of a capture; scriptFromCapture goes the other way, so
+ * a capture can be decoded, edited and re-encoded.
+ *
+ * Fields that the negotiated protocol version does not put on the wire are
+ * ignored, and missing fields take neutral defaults (0, '', the current
+ * protocol version for hellos), so a hand-written script only needs the
+ * fields it cares about.
+ *
+ * On a chunked connection a packet split across several chunks lists their
+ * sizes as `chunks`; otherwise it is written as one.
+ */
+export interface ProtocolScript {
+  meta?: Record<string, unknown>;
+  packets: ScriptPacket[];
+}
+
+export type ScriptDirection = 'client' | 'server';
+
+/** `type` is the decoder's packet name; the other keys are its field labels. */
+export interface ScriptPacket {
+  dir: ScriptDirection;
+  type: string;
+  [field: string]: unknown;
+}
+
+/** One entry of a settings-style list (Query settings/parameters, server_settings). */
+export interface ScriptSetting {
+  name: string;
+  value: string;
+  flags?: number;
+}
+
+/**
+ * A Native Block as carried by Data-family packets. Column bodies stay raw
+ * (hex), so names, types, the row count and BlockInfo can be edited while the
+ * values are kept; a hand-written column may give `values` instead. `hex`
+ * replaces the whole Block with the given bytes.
+ */
+export interface ScriptBlock {
+  info?: { is_overflows?: boolean; bucket_num?: number; out_of_order_buckets?: number[] };
+  rows?: number;
+  columns?: ScriptBlockColumn[];
+  hex?: string;
+}
+
+export interface ScriptBlockColumn {
+  name: string;
+  type: string;
+  /** Serialization info bytes (v54454+); defaults to `00`, no custom serialization. */
+  serialization?: string;
+  /** The column's data bytes. */
+  data?: string;
+  /** The column's values, encoded with NativeEncoder when `data` is absent. */
+  values?: unknown[];
+}
+
+const LIST_FIELDS = new Set(['settings', 'parameters', 'server_settings']);
+
+/**
+ * Decode a capture and describe it as a script. Block bodies and compressed
+ * frames are copied as hex, so encoding the result reproduces the capture
+ * byte for byte; packets that failed to decode are not representable and
+ * make this throw.
+ */
+export function scriptFromCapture(capture: ProtocolCapture): ProtocolScript {
+  const combined = new Uint8Array(capture.c2s.length + capture.s2c.length);
+  combined.set(capture.c2s, 0);
+  combined.set(capture.s2c, capture.c2s.length);
+  const parsed = new ProtocolDecoder(combined, capture.c2s.length).decode();
+  const [client, server] = parsed.trailingNodes ?? [];
+  // Chunk sizes are framing, not packet content: leave them out of the bytes copied as hex.
+  const framing = [...(client?.children ?? []), ...(server?.children ?? [])]
+    .flatMap((packet) => packet.children ?? [])
+    .filter((child) => child.type === 'Protocol.ChunkHeader')
+    .map((child) => child.byteRange);
+  const hex = (node: AstNode, start = node.byteRange.start) => {
+    const { end } = node.byteRange;
+    let out = '';
+    let from = start;
+    for (const range of framing) {
+      if (range.end <= from || range.start >= end) continue;
+      out += toHex(combined.subarray(from, range.start));
+      from = range.end;
+    }
+    return out + toHex(combined.subarray(from, end));
+  };
+
+  const toPacket = (node: AstNode, dir: ScriptDirection): ScriptPacket => {
+    if (node.type === 'Protocol.DecodeError') {
+      throw new Error(`cannot script a capture with undecodable ${dir} bytes at ${node.byteRange.start}: ${String(node.value)}`);
+    }
+    const packet: ScriptPacket = { dir, type: String(node.label) };
+    for (const child of node.children ?? []) {
+      if (child.label === 'packet_type') continue;
+      if (child.type === 'Protocol.ChunkHeader') {
+        if (child.label === 'chunk_size') ((packet.chunks ??= []) as number[]).push(Number(child.value));
+      } else if (child.type === 'Compression.Frame') {
+        ((packet.frames ??= []) as string[]).push(hex(child));
+      } else if (child.label === 'block') {
+        if (!child.metadata?.compressed) packet.block = blockFromAst(child, hex);
+      } else if (child.label === 'hello_tail_extra_version') {
+        ((packet.hello_tail ??= []) as number[]).push(Number(child.value));
+      } else if (child.label === 'exception' || child.label?.startsWith('nested_exception')) {
+        const { code, name, message, stack_trace } = leaves(child);
+        ((packet.exceptions ??= []) as unknown[]).push({ code, name, message, stack_trace });
+      } else {
+        Object.assign(packet, fieldFromAst(child));
+      }
+    }
+    if ((packet.chunks as number[] | undefined)?.length === 1) delete packet.chunks;
+    return packet;
+  };
+
+  const packets = [
+    ...(client?.children ?? []).map((n) => toPacket(n, 'client')),
+    ...(server?.children ?? []).map((n) => toPacket(n, 'server')),
+  ];
+  return { ...(capture.meta ? { meta: capture.meta } : {}), packets };
+}
+
+/** One packet child as `{ field: value }`; groups become nested values. */
+function fieldFromAst(node: AstNode): Record<string, unknown> {
+  const label = node.label ?? '';
+  if (!node.children) return { [label]: jsonValue(node.value) };
+  if (LIST_FIELDS.has(label)) {
+    const entries = node.children.filter((c) => c.label !== 'terminator').map((entry) => {
+      const { key, flags, value } = leaves(entry);
+      return { name: key, value, flags };
+    });
+    return { [label]: entries };
+  }
+  if (label === 'password_complexity_rules') {
+    const rules = node.children.filter((c) => c.children).map((rule) => {
+      const { pattern, message } = leaves(rule);
+      return { pattern, message };
+    });
+    return { password_complexity_rules: rules };
+  }
+  if (label === 'ClientInfo') {
+    const info: Record<string, unknown> = {};
+    for (const child of node.children) {
+      if (child.label === 'OpenTelemetry') {
+        const { has_trace, ...trace } = leaves(child);
+        info.open_telemetry = has_trace === 1 ? trace : null;
+      } else if (child.label === 'jwt_present') {
+        info.jwt = null;
+      } else {
+        Object.assign(info, fieldFromAst(child));
+      }
+    }
+    return { client_info: info };
+  }
+  return { [label]: leaves(node) };
+}
+
+function blockFromAst(node: AstNode, hex: (node: AstNode, start?: number) => string): ScriptBlock {
+  const [header, ...columnNodes] = node.children ?? [];
+  const headerFields = header?.children ?? [];
+  const block: ScriptBlock = {};
+  const blockInfo = headerFields.find((c) => c.label === 'blockInfo');
+  if (blockInfo) {
+    block.info = {};
+    for (const field of blockInfo.children ?? []) {
+      if (field.label !== 'terminator') {
+        (block.info as Record<string, unknown>)[field.label ?? ''] = field.value;
+      }
+    }
+  }
+  block.rows = Number(headerFields.find((c) => c.label === 'numRows')?.value ?? 0);
+  block.columns = columnNodes.map((column) => {
+    const meta = column.children?.[0];
+    const fields = meta?.children ?? [];
+    const serialization = fields.find((c) => c.label === 'serialization');
+    return {
+      name: String(fields.find((c) => c.label === 'name')?.value ?? ''),
+      type: String(fields.find((c) => c.label === 'type')?.value ?? ''),
+      ...(serialization ? { serialization: hex(serialization) } : {}),
+      data: meta ? hex(column, meta.byteRange.end) : '',
+    };
+  });
+  return block;
+}
+
+/** Leaf children of a group as `{ label: value }`. */
+function leaves(node: AstNode): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const child of node.children ?? []) {
+    if (!child.children) out[child.label ?? ''] = jsonValue(child.value);
+  }
+  return out;
+}
+
+function jsonValue(value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function fromHex(hex: string): Uint8Array {
+  const clean = hex.replace(/\s+/g, '');
+  if (clean.length % 2 !== 0 || /[^0-9a-f]/i.test(clean)) {
+    throw new Error(`invalid hex string: ${hex.length > 40 ? `${hex.slice(0, 40)}…` : hex}`);
+  }
+  return Uint8Array.from(clean.match(/../g) ?? [], (b) => parseInt(b, 16));
+}
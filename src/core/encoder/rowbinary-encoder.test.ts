@@ -0,0 +1,175 @@
+/**
+ * RowBinaryEncoder against RowBinaryDecoder: random rows (seeded) in every
+ * RowBinary variant must decode back to the values they were built from, and
+ * Dynamic / JSON values must carry types the decoder reads back.
+ */
+import { describe, expect, it } from 'vitest';
+import { RowBinaryEncoder, type RowBinaryColumn } from './rowbinary-encoder';
+import { LEAVES, randomType, randomValue, rng } from './test-values';
+import { TypedValue } from './values';
+import { RowBinaryDecoder, type RowBinaryFormat } from '../decoder/rowbinary-decoder';
+import { parseType } from '../parser/type-parser';
+import { typeToString } from '../types/clickhouse-types';
+import { ClickHouseFormat } from '../types/formats';
+
+const FORMATS: RowBinaryFormat[] = [
+  ClickHouseFormat.RowBinaryWithNamesAndTypes,
+  ClickHouseFormat.RowBinary,
+  ClickHouseFormat.RowBinaryWithNames,
+  ClickHouseFormat.RowBinaryWithDefaults,
+];
+
+/** RowBinary has no column prefixes, so these may appear at any depth. */
+const ANY_DEPTH = [
+  ...LEAVES,
+  'LowCardinality(String)', 'LowCardinality(Nullable(String))', 'Variant(Array(UInt8), String, UInt64)',
+  'Dynamic', 'Point', 'Ring', 'Polygon', 'MultiPolygon', 'QBit(Float32, 5)',
+];
+
+function decode(bytes: Uint8Array, format: RowBinaryFormat, columns: RowBinaryColumn[]): unknown[][] {
+  const schema = columns.map((c) => {
+    const type = typeof c.type === 'string' ? parseType(c.type) : c.type;
+    return { name: c.name, type, typeString: typeToString(type) };
+  });
+  const parsed = new RowBinaryDecoder(bytes, format, schema).decode();
+  expect(parsed.header!.columns.map((c) => c.name)).toEqual(columns.map((c) => c.name));
+  return parsed.rows!.map((row) => row.values.map((v) => v.value));
+}
+
+describe('RowBinaryEncoder round trip', () => {
+  it.each(FORMATS)('decodes random rows back to their values in %s', (format) => {
+    for (let seed = 1; seed <= 60; seed++) {
+      const r = rng(seed * 104729 + format.length);
+      const columns = Array.from({ length: r.int(1, 3) }, (_, i) => ({ name: `c${i}`, type: randomType(r, 2, ANY_DEPTH) }));
+      const types = columns.map((c) => parseType(c.type));
+      const generated = Array.from({ length: r.int(1, 5) }, () =>
+        types.map((type): [unknown, unknown] =>
+          format === ClickHouseFormat.RowBinaryWithDefaults && r.next() < 0.2
+            ? [undefined, null]
+            : randomValue(r, type, 'fields'),
+        ),
+      );
+      const context = `seed ${seed}: ${columns.map((c) => c.type).join(' | ')}`;
+      let decoded: unknown[][];
+      try {
+        const bytes = new RowBinaryEncoder(format).encode(columns, generated.map((row) => row.map((v) => v[0])));
+        decoded = decode(bytes, format, columns);
+      } catch (err) {
+        throw new Error(`${context}: ${(err as Error).message}`);
+      }
+      expect(decoded, context).toEqual(generated.map((row) => row.map((v) => v[1])));
+    }
+  });
+
+  it('writes the RowBinaryWithNamesAndTypes header and takes rows as objects', () => {
+    const columns = [
+      { name: 'id', type: 'UInt8' },
+      { name: 's', type: parseType('Nullable(String)') },
+    ];
+    const bytes = new RowBinaryEncoder().encode(columns, [{ id: 7, s: 'hi' }, { id: 8, s: null }]);
+    expect(Array.from(bytes)).toEqual([
+      2, 2, ...Buffer.from('id'), 1, ...Buffer.from('s'),
+      5, ...Buffer.from('UInt8'), 16, ...Buffer.from('Nullable(String)'),
+      7, 0, 2, ...Buffer.from('hi'),
+      8, 1,
+    ]);
+    expect(decode(bytes, ClickHouseFormat.RowBinaryWithNamesAndTypes, columns)).toEqual([
+      [7, 'hi'],
+      [8, null],
+    ]);
+  });
+
+  it('tags Dynamic values with a binary type encoding the decoder reads back', () => {
+    const values = [
+      new TypedValue("DateTime('Europe/Amsterdam')", 1700000000),
+      new TypedValue("DateTime64(6, 'UTC')", 1700000000123456n),
+      new TypedValue('FixedString(3)', 'abc'),
+      new TypedValue("Enum8('a' = -1, 'b' = 2)", 'a'),
+      new TypedValue("Enum16('x' = 300)", 300),
+      new TypedValue('Decimal(20, 4)', '-12.5'),
+      new TypedValue('Tuple(a UInt8, b Array(String))', { a: 1, b: ['x'] }),
+      new TypedValue('Map(String, Nullable(Int32))', { k: null }),
+      new TypedValue('Variant(String, UInt64)', 5n),
+      new TypedValue('LowCardinality(String)', 'lc'),
+      new TypedValue('Time64(3)', 1500n),
+      new TypedValue('IPv6', '::1'),
+      new TypedValue('BFloat16', 1.5),
+      new TypedValue('JSON(a UInt8)', { a: 1, b: 'x' }),
+      [1, null, 3],
+      null,
+    ];
+    const columns = [{ name: 'd', type: 'Dynamic' }];
+    const bytes = new RowBinaryEncoder().encode(columns, values.map((v) => [v]));
+    const parsed = new RowBinaryDecoder(bytes).decode();
+    expect(parsed.rows!.map((row) => row.values[0].metadata?.decodedType ?? null)).toEqual([
+      "DateTime('Europe/Amsterdam')",
+      "DateTime64(6, 'UTC')",
+      'FixedString(3)',
+      "Enum8('a' = -1, 'b' = 2)",
+      "Enum16('x' = 300)",
+      'Decimal128(4)',
+      'Tuple(a UInt8, b Array(String))',
+      'Map(String, Nullable(Int32))',
+      'Variant(String, UInt64)',
+      'LowCardinality(String)',
+      'Time64(3)',
+      'IPv6',
+      'BFloat16',
+      'JSON(a UInt8)',
+      'Array(Nullable(Int64))',
+      null,
+    ]);
+    expect(parsed.rows!.map((row) => row.values[0].value)).toEqual([
+      new Date(1700000000000),
+      new Date(1700000000123),
+      'abc',
+      -1,
+      300,
+      '-125000',
+      [1, ['x']],
+      { k: null },
+      5n,
+      'lc',
+      '1500',
+      '::1',
+      1.5,
+      { a: 1, b: 'x' },
+      [1n, null, 3n],
+      null,
+    ]);
+  });
+
+  it('writes typed JSON paths always and dynamic paths unless NULL', () => {
+    const columns = [{ name: 'j', type: 'JSON(id UInt32, tags Array(String))' }];
+    const rows = [[{ id: 1, user: { name: 'ann', age: null } }], [{}]];
+    const bytes = new RowBinaryEncoder().encode(columns, rows);
+    expect(decode(bytes, ClickHouseFormat.RowBinaryWithNamesAndTypes, columns)).toEqual([
+      [{ id: 1, tags: [], 'user.name': 'ann' }],
+      [{ id: 0, tags: [] }],
+    ]);
+  });
+
+  it('takes Nested values as one array per field', () => {
+    const columns = [{ name: 'n', type: 'Nested(a UInt8, b String)' }];
+    const bytes = new RowBinaryEncoder().encode(columns, [[{ a: [1, 2], b: ['x', 'y'] }]]);
+    expect(decode(bytes, ClickHouseFormat.RowBinaryWithNamesAndTypes, columns)).toEqual([[{ a: [1, 2], b: ['x', 'y'] }]]);
+  });
+
+  it('marks missing values in RowBinaryWithDefaults', () => {
+    const encoder = new RowBinaryEncoder(ClickHouseFormat.RowBinaryWithDefaults);
+    const bytes = encoder.encode([{ name: 'a', type: 'UInt8' }, { name: 'b', type: 'UInt8' }], [{ a: 5 }]);
+    expect(Array.from(bytes)).toEqual([0, 5, 1]);
+  });
+
+  it('names the row and column it cannot encode', () => {
+    const encoder = new RowBinaryEncoder();
+    const columns = [{ name: 'x', type: 'Int8' }];
+    expect(() => encoder.encode(columns, [[1], [200]])).toThrow(
+      'RowBinary encoder: row 1, column "x" (Int8): 200 is out of range for Int8',
+    );
+    expect(() => encoder.encode(columns, [[1, 2]])).toThrow('RowBinary encoder: row 0 has 2 values, expected 1');
+    expect(() => encoder.encode(columns, ['1'])).toThrow(/row 0 must be an array or an object/);
+    expect(() => encoder.encodeValue('Dynamic', new TypedValue('IntervalDay', 1n))).toThrow(/no binary type encoding/);
+    expect(() => encoder.encodeValue('Variant(UInt8, Bool)', 'x')).toThrow(/no variant accepts "x"/);
+  });
+});
@@ -0,0 +1,368 @@
+import { RowBinaryFormat } from '../decoder/rowbinary-decoder';
+import { parseType } from '../parser/type-parser';
+import { ClickHouseType, simpleAggregateValueType, typeToString } from '../types/clickhouse-types';
+import { ClickHouseFormat } from '../types/formats';
+import {
+  GEOMETRY_VARIANTS,
+  TypedValue,
+  asArray,
+  compareNames,
+  describe,
+  flattenPaths,
+  geoAsComposite,
+  inferType,
+  isPlainObject,
+  mapEntries,
+  placeholder,
+  tupleElements,
+  writeLeafValue,
+} from './values';
+import { BinaryWriter } from './writer';
+
+/**
+ * RowBinary family encoder, the inverse of RowBinaryDecoder: a schema and rows
+ * of JS values in, the header the format calls for (names and types, names
+ * only, or none) and the rows out.
+ *
+ * Values take the same shapes as NativeEncoder's. Rows are arrays in column
+ * order or objects keyed by column name; in RowBinaryWithDefaults a missing
+ * (undefined) value is written as the "use the column DEFAULT" marker.
+ * Variant and Dynamic rows pick their type from the value (wrap it in a
+ * TypedValue where that is ambiguous); a Dynamic value is preceded by its
+ * type in ClickHouse's binary type encoding.
+ */
+
+export interface RowBinaryColumn {
+  name: string;
+  type: ClickHouseType | string;
+}
+
+export class RowBinaryEncoder {
+  readonly format: RowBinaryFormat;
+
+  constructor(format: RowBinaryFormat = ClickHouseFormat.RowBinaryWithNamesAndTypes) {
+    this.format = format;
+  }
+
+  /** The header followed by every row. */
+  encode(columns: RowBinaryColumn[], rows: unknown[]): Uint8Array {
+    const w = new BinaryWriter();
+    const types = columns.map((c) => (typeof c.type === 'string' ? parseType(c.type) : c.type));
+    this.writeHeader(w, columns);
+    rows.forEach((row, index) => {
+      const values = rowValues(row, columns, index);
+      columns.forEach((column, i) => {
+        try {
+          this.writeColumnValue(w, types[i], values[i]);
+        } catch (err) {
+          throw new Error(
+            `RowBinary encoder: row ${index}, column "${column.name}" (${typeToString(types[i])}): ${(err as Error).message}`,
+          );
+        }
+      });
+    });
+    return w.toBytes();
+  }
+
+  /** One value as it appears in a row, without the WithDefaults marker. */
+  encodeValue(type: ClickHouseType | string, value: unknown): Uint8Array {
+    const w = new BinaryWriter(16);
+    this.writeValue(w, typeof type === 'string' ? parseType(type) : type, value);
+    return w.toBytes();
+  }
+
+  private writeHeader(w: BinaryWriter, columns: RowBinaryColumn[]): void {
+    if (this.format === ClickHouseFormat.RowBinary || this.format === ClickHouseFormat.RowBinaryWithDefaults) return;
+    w.writeVarUInt(columns.length);
+    for (const column of columns) w.writeString(column.name);
+    if (this.format === ClickHouseFormat.RowBinaryWithNames) return;
+    for (const column of columns) {
+      w.writeString(typeof column.type === 'string' ? column.type : typeToString(column.type));
+    }
+  }
+
+  private writeColumnValue(w: BinaryWriter, type: ClickHouseType, value: unknown): void {
+    if (this.format === ClickHouseFormat.RowBinaryWithDefaults) {
+      w.writeUInt8(value === undefined ? 1 : 0);
+      if (value === undefined) return;
+    }
+    this.writeValue(w, type, value);
+  }
+
+  private writeValue(w: BinaryWriter, type: ClickHouseType, value: unknown): void {
+    switch (type.kind) {
+      case 'Array':
+      case 'QBit': {
+        const items = asArray(value, type);
+        if (type.kind === 'QBit' && items.length !== type.dimension) {
+          throw new Error(`${typeToString(type)} needs ${type.dimension} elements, got ${items.length}`);
+        }
+        w.writeVarUInt(items.length);
+        for (const item of items) this.writeValue(w, type.element, item);
+        return;
+      }
+      case 'Tuple': {
+        const items = tupleElements(value, type);
+        type.elements.forEach((element, i) => this.writeValue(w, element, items[i]));
+        return;
+      }
+      case 'Map': {
+        const entries = mapEntries(value, type);
+        w.writeVarUInt(entries.length);
+        for (const [key, item] of entries) {
+          this.writeValue(w, type.key, key);
+          this.writeValue(w, type.value, item);
+        }
+        return;
+      }
+      case 'Nested':
+        this.writeNested(w, type, value);
+        return;
+      case 'Nullable':
+        if (value === null || value === undefined) {
+          w.writeUInt8(1);
+          return;
+        }
+        w.writeUInt8(0);
+        this.writeValue(w, type.inner, value);
+        return;
+      case 'LowCardinality':
+        // No dictionary in RowBinary: the value is written as its inner type.
+        this.writeValue(w, type.inner, value);
+        return;
+      case 'Variant':
+        this.writeVariant(w, type.variants, value);
+        return;
+      case 'Geometry':
+        this.writeVariant(w, GEOMETRY_VARIANTS.map((kind) => ({ kind })), value);
+        return;
+      case 'Point':
+      case 'Ring':
+      case 'LineString':
+      case 'Polygon':
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        this.writeValue(w, geoAsComposite(type.kind), value);
+        return;
+      case 'Dynamic':
+        this.writeDynamic(w, value);
+        return;
+      case 'JSON':
+        this.writeJSON(w, type, value);
+        return;
+      case 'SimpleAggregateFunction':
+        this.writeValue(w, simpleAggregateValueType(type), value);
+        return;
+      default:
+        writeLeafValue(w, type, value);
+    }
+  }
+
+  /**
+   * One array per field, as RowBinaryDecoder reads it. The value is either
+   * that shape (`{field: [...]}`) or a list of rows (objects or tuples).
+   */
+  private writeNested(w: BinaryWriter, type: Extract<ClickHouseType, { kind: 'Nested' }>, value: unknown): void {
+    let columns: unknown[][];
+    if (isPlainObject(value)) {
+      columns = type.fields.map((f) => asArray(value[f.name] ?? [], type));
+    } else {
+      const rows = asArray(value, type);
+      columns = type.fields.map((f, i) =>
+        rows.map((row) => (Array.isArray(row) ? row[i] : isPlainObject(row) ? row[f.name] : row)),
+      );
+    }
+    type.fields.forEach((field, i) => {
+      w.writeVarUInt(columns[i].length);
+      for (const item of columns[i]) this.writeValue(w, field.type, item);
+    });
+  }
+
+  private writeVariant(w: BinaryWriter, variants: ClickHouseType[], value: unknown): void {
+    if (value === null || value === undefined) {
+      w.writeUInt8(0xff);
+      return;
+    }
+    const index = this.variantIndex(variants, value);
+    w.writeUInt8(index);
+    this.writeValue(w, variants[index], value instanceof TypedValue ? value.value : value);
+  }
+
+  private variantIndex(variants: ClickHouseType[], value: unknown): number {
+    if (value instanceof TypedValue) {
+      const wanted = typeToString(value.type);
+      const index = variants.findIndex((v) => typeToString(v) === wanted);
+      if (index < 0) throw new Error(`${wanted} is not one of the variants`);
+      return index;
+    }
+    // The first variant (in the sorted order of the type) that accepts the value.
+    const index = variants.findIndex((v) => {
+      try {
+        this.writeValue(new BinaryWriter(16), v, value);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+    if (index < 0) throw new Error(`no variant accepts ${describe(value)}`);
+    return index;
+  }
+
+  private writeDynamic(w: BinaryWriter, value: unknown): void {
+    const type = inferType(value);
+    if (!type) {
+      w.writeUInt8(0x00);
+      return;
+    }
+    writeBinaryType(w, type);
+    this.writeValue(w, type, value instanceof TypedValue ? value.value : value);
+  }
+
+  /**
+   * A path count, then each path with its value: typed paths always (their
+   * default when the row lacks them), dynamic paths only when not NULL, as
+   * Dynamic values.
+   */
+  private writeJSON(w: BinaryWriter, type: Extract<ClickHouseType, { kind: 'JSON' }>, value: unknown): void {
+    const paths = flattenPaths(value instanceof TypedValue ? value.value : value);
+    const typed = type.typedPaths ?? new Map<string, ClickHouseType>();
+    const entries: [string, ClickHouseType | null, unknown][] = [];
+    for (const [path, pathType] of typed) {
+      entries.push([path, pathType, paths.has(path) ? paths.get(path) : placeholder(pathType)]);
+    }
+    for (const [path, item] of paths) {
+      if (!typed.has(path) && item !== null) entries.push([path, null, item]);
+    }
+    entries.sort((a, b) => compareNames(a[0], b[0]));
+    w.writeVarUInt(entries.length);
+    for (const [path, pathType, item] of entries) {
+      w.writeString(path);
+      if (pathType) this.writeValue(w, pathType, item);
+      else this.writeDynamic(w, item);
+    }
+  }
+}
+
+/** A row's values in column order, from an array or an object keyed by column name. */
+function rowValues(row: unknown, columns: RowBinaryColumn[], index: number): unknown[] {
+  if (Array.isArray(row)) {
+    if (row.length !== columns.length) {
+      throw new Error(`RowBinary encoder: row ${index} has ${row.length} values, expected ${columns.length}`);
+    }
+    return row;
+  }
+  if (isPlainObject(row)) return columns.map((c) => row[c.name]);
+  throw new Error(`RowBinary encoder: row ${index} must be an array or an object, got ${describe(row)}`);
+}
+
+/**
+ * ClickHouse's binary type encoding (BinaryTypeIndex and parameters), the
+ * type tag of a Dynamic value; the inverse of RowBinaryDecoder's reader.
+ */
+function writeBinaryType(w: BinaryWriter, type: ClickHouseType): void {
+  switch (type.kind) {
+    case 'UInt8': w.writeUInt8(0x01); return;
+    case 'UInt16': w.writeUInt8(0x02); return;
+    case 'UInt32': w.writeUInt8(0x03); return;
+    case 'UInt64': w.writeUInt8(0x04); return;
+    case 'UInt128': w.writeUInt8(0x05); return;
+    case 'UInt256': w.writeUInt8(0x06); return;
+    case 'Int8': w.writeUInt8(0x07); return;
+    case 'Int16': w.writeUInt8(0x08); return;
+    case 'Int32': w.writeUInt8(0x09); return;
+    case 'Int64': w.writeUInt8(0x0a); return;
+    case 'Int128': w.writeUInt8(0x0b); return;
+    case 'Int256': w.writeUInt8(0x0c); return;
+    case 'Float32': w.writeUInt8(0x0d); return;
+    case 'Float64': w.writeUInt8(0x0e); return;
+    case 'Date': w.writeUInt8(0x0f); return;
+    case 'Date32': w.writeUInt8(0x10); return;
+    case 'DateTime':
+      if (type.timezone) w.writeUInt8(0x12).writeString(type.timezone);
+      else w.writeUInt8(0x11);
+      return;
+    case 'DateTime64':
+      w.writeUInt8(type.timezone ? 0x14 : 0x13).writeUInt8(type.precision);
+      if (type.timezone) w.writeString(type.timezone);
+      return;
+    case 'String': w.writeUInt8(0x15); return;
+    case 'FixedString':
+      w.writeUInt8(0x16).writeVarUInt(type.length);
+      return;
+    case 'Enum8':
+    case 'Enum16':
+      w.writeUInt8(type.kind === 'Enum8' ? 0x17 : 0x18).writeVarUInt(type.values.size);
+      for (const [number, name] of type.values) {
+        w.writeString(name);
+        if (type.kind === 'Enum8') w.writeUInt8(number & 0xff);
+        else w.writeUInt16LE(number & 0xffff);
+      }
+      return;
+    case 'Decimal32':
+    case 'Decimal64':
+    case 'Decimal128':
+    case 'Decimal256':
+      w.writeUInt8(0x19 + ['Decimal32', 'Decimal64', 'Decimal128', 'Decimal256'].indexOf(type.kind));
+      w.writeVarUInt(type.precision).writeVarUInt(type.scale);
+      return;
+    case 'UUID': w.writeUInt8(0x1d); return;
+    case 'Array':
+      w.writeUInt8(0x1e);
+      writeBinaryType(w, type.element);
+      return;
+    case 'Tuple':
+      w.writeUInt8(type.names ? 0x20 : 0x1f).writeVarUInt(type.elements.length);
+      type.elements.forEach((element, i) => {
+        if (type.names) w.writeString(type.names[i]);
+        writeBinaryType(w, element);
+      });
+      return;
+    case 'Nothing': w.writeUInt8(0x00); return;
+    case 'Nullable':
+      w.writeUInt8(0x23);
+      writeBinaryType(w, type.inner);
+      return;
+    case 'LowCardinality':
+      w.writeUInt8(0x26);
+      writeBinaryType(w, type.inner);
+      return;
+    case 'Map':
+      w.writeUInt8(0x27);
+      writeBinaryType(w, type.key);
+      writeBinaryType(w, type.value);
+      return;
+    case 'IPv4': w.writeUInt8(0x28); return;
+    case 'IPv6': w.writeUInt8(0x29); return;
+    case 'Variant':
+      w.writeUInt8(0x2a).writeVarUInt(type.variants.length);
+      for (const variant of type.variants) writeBinaryType(w, variant);
+      return;
+    case 'Dynamic':
+      w.writeUInt8(0x2b).writeVarUInt(type.maxTypes ?? 0);
+      return;
+    case 'Bool': w.writeUInt8(0x2d); return;
+    case 'JSON': {
+      const typed = [...(type.typedPaths ?? new Map<string, ClickHouseType>())];
+      // Serialization version, max_dynamic_paths, max_dynamic_types, typed
+      // paths, skip paths, skip regexps.
+      w.writeUInt8(0x30).writeUInt8(0).writeVarUInt(type.maxDynamicPaths ?? 0).writeUInt8(type.maxDynamicTypes ?? 0);
+      w.writeVarUInt(typed.length);
+      for (const [path, pathType] of typed) {
+        w.writeString(path);
+        writeBinaryType(w, pathType);
+      }
+      for (const strings of [type.skipPaths ?? [], type.skipRegexps ?? []]) {
+        w.writeVarUInt(strings.length);
+        for (const str of strings) w.writeString(str);
+      }
+      return;
+    }
+    case 'BFloat16': w.writeUInt8(0x31); return;
+    case 'Time': w.writeUInt8(0x32); return;
+    case 'Time64':
+      w.writeUInt8(0x34).writeUInt8(type.precision);
+      return;
+    default:
+      throw new Error(`${typeToString(type)} has no binary type encoding RowBinaryDecoder can read`);
+  }
+}
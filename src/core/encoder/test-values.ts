@@ -0,0 +1,220 @@
+/**
+ * Seeded random ClickHouse types and values for the encoder round-trip
+ * tests: each value comes with the shape the decoders give back for it.
+ */
+import { formatIPv6 } from '../decoder/format-utils';
+import { ClickHouseType } from '../types/clickhouse-types';
+import { TypedValue } from './values';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** mulberry32: a small seeded PRNG. */
+export function rng(seed: number) {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const big = (bits: number, signed: boolean) => {
+    let v = 0n;
+    for (let i = 0; i < bits; i += 16) v = (v << 16n) | BigInt(int(0, 0xffff));
+    v &= (1n << BigInt(bits)) - 1n;
+    return signed && v >= 1n << BigInt(bits - 1) ? v - (1n << BigInt(bits)) : v;
+  };
+  const pick = <T>(items: readonly T[]): T => items[int(0, items.length - 1)];
+  const text = (max: number) =>
+    Array.from({ length: int(0, max) }, () => pick(['a', 'b', 'z', ' ', 'é', '✓', '0', '"'])).join('');
+  return { next, int, big, pick, text };
+}
+export type Rng = ReturnType<typeof rng>;
+
+export const LEAVES = [
+  'UInt8', 'UInt16', 'UInt32', 'UInt64', 'UInt128', 'UInt256',
+  'Int8', 'Int16', 'Int32', 'Int64', 'Int128', 'Int256',
+  'Float32', 'Float64', 'BFloat16', 'Bool', 'String', 'FixedString(5)',
+  'Date', 'Date32', 'DateTime', "DateTime('UTC')", 'DateTime64(3)', "DateTime64(6, 'UTC')", 'Time', 'Time64(3)',
+  'UUID', 'IPv4', 'IPv6', 'Decimal32(2)', 'Decimal64(4)', 'Decimal128(6)', 'Decimal256(10)',
+  "Enum8('a' = 1, 'b' = -3)", "Enum16('x' = 1000, 'y' = 2)", 'IntervalDay',
+];
+
+export function randomType(r: Rng, depth: number, leaves: readonly string[] = LEAVES): string {
+  if (depth === 0 || r.next() < 0.45) return r.pick(leaves);
+  const inner = () => randomType(r, depth - 1, leaves);
+  switch (r.int(0, 5)) {
+    case 0:
+      return `Array(${inner()})`;
+    case 1:
+      return `Tuple(${inner()}, ${inner()})`;
+    case 2:
+      return `Tuple(a ${inner()}, b ${inner()})`;
+    case 3:
+      return `Map(String, ${inner()})`;
+    case 4:
+      return `Nullable(${r.pick(LEAVES)})`;
+    default:
+      return `Nested(n ${inner()}, m ${inner()})`;
+  }
+}
+
+/**
+ * A value for `type` as [encoder input, what the decoder yields for it]. The
+ * decoders agree on every shape but Nested: NativeDecoder reads it as
+ * Array(Tuple) rows, RowBinaryDecoder as one array per field.
+ */
+export function randomValue(r: Rng, type: ClickHouseType, nested: 'rows' | 'fields' = 'rows'): [unknown, unknown] {
+  const same = (v: unknown): [unknown, unknown] => [v, v];
+  switch (type.kind) {
+    case 'UInt8':
+    case 'UInt16':
+    case 'UInt32':
+      return same(Number(r.big(Number(type.kind.slice(4)), false)));
+    case 'Int8':
+    case 'Int16':
+    case 'Int32':
+      return same(Number(r.big(Number(type.kind.slice(3)), true)));
+    case 'UInt64':
+    case 'UInt128':
+    case 'UInt256':
+      return same(r.big(Number(type.kind.slice(4)), false));
+    case 'Int64':
+    case 'Int128':
+    case 'Int256':
+    case 'IntervalDay':
+      return same(r.big(type.kind === 'IntervalDay' ? 64 : Number(type.kind.slice(3)), true));
+    case 'Float32':
+      return same(Math.fround((r.next() - 0.5) * 1e6));
+    case 'Float64':
+      return same((r.next() - 0.5) * 1e12);
+    case 'BFloat16': {
+      const view = new DataView(new ArrayBuffer(4));
+      view.setFloat32(0, (r.next() - 0.5) * 1000);
+      view.setUint16(2, 0);
+      return same(view.getFloat32(0));
+    }
+    case 'Bool':
+      return same(r.next() < 0.5);
+    case 'String':
+      return same(r.text(12));
+    case 'FixedString':
+      return same(r.text(1));
+    case 'Date':
+    case 'Date32': {
+      const days = type.kind === 'Date' ? r.int(0, 65535) : r.int(-25567, 120000);
+      return same(new Date(days * DAY_MS));
+    }
+    case 'DateTime':
+      return same(new Date(r.int(0, 0xffffffff) * 1000));
+    case 'DateTime64':
+      return same(new Date(r.int(-2e12, 4e12)));
+    case 'Time':
+      return same(r.int(-3599999, 3599999));
+    case 'Time64': {
+      const ticks = r.big(40, true);
+      return [ticks, ticks.toString()];
+    }
+    case 'UUID': {
+      const hex = Array.from({ length: 32 }, () => r.int(0, 15).toString(16)).join('');
+      return same(`${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`);
+    }
+    case 'IPv4':
+      return same(Array.from({ length: 4 }, () => r.int(0, 255)).join('.'));
+    case 'IPv6':
+      return same(formatIPv6(Array.from({ length: 8 }, () => (r.next() < 0.4 ? 0 : r.int(0, 0xffff)))));
+    case 'Decimal32':
+    case 'Decimal64': {
+      const raw = r.int(-2e9, 2e9);
+      const text = `${raw < 0 ? '-' : ''}${String(Math.abs(raw)).padStart(type.scale + 1, '0').replace(new RegExp(`(\\d{${type.scale}})$`), '.$1')}`;
+      return [text, raw / 10 ** type.scale];
+    }
+    case 'Decimal128':
+    case 'Decimal256': {
+      const raw = r.big(100, true);
+      return [raw, raw.toString()];
+    }
+    case 'Enum8':
+    case 'Enum16': {
+      const [value, name] = r.pick([...type.values.entries()]);
+      return [r.next() < 0.5 ? value : name, value];
+    }
+    case 'Array':
+    case 'Ring':
+    case 'LineString':
+    case 'Polygon':
+    case 'MultiLineString':
+    case 'MultiPolygon':
+    case 'Nested': {
+      const element: ClickHouseType =
+        type.kind === 'Array' ? type.element
+        : type.kind === 'Nested' ? { kind: 'Tuple', elements: type.fields.map((f) => f.type) }
+        : type.kind === 'Ring' || type.kind === 'LineString' ? { kind: 'Point' }
+        : type.kind === 'MultiPolygon' ? { kind: 'Polygon' }
+        : { kind: 'Ring' };
+      const items = Array.from({ length: r.int(0, 3) }, () => randomValue(r, element, nested));
+      const decoded = items.map((i) => i[1]);
+      if (type.kind === 'Nested' && nested === 'fields') {
+        const fields = type.fields.map((f, n) => [f.name, decoded.map((row) => (row as unknown[])[n])]);
+        return [items.map((i) => i[0]), Object.fromEntries(fields)];
+      }
+      return [items.map((i) => i[0]), decoded];
+    }
+    case 'Point': {
+      const point = [r.next() * 100, -r.next() * 100];
+      return [r.next() < 0.5 ? point : { x: point[0], y: point[1] }, point];
+    }
+    case 'Tuple': {
+      const items = type.elements.map((e) => randomValue(r, e, nested));
+      return [items.map((i) => i[0]), items.map((i) => i[1])];
+    }
+    case 'Map': {
+      const input = new Map<unknown, unknown>();
+      const expected: Record<string, unknown> = {};
+      for (let i = r.int(0, 3); i > 0; i--) {
+        const key = `k${r.int(0, 9)}`;
+        const [value, decoded] = randomValue(r, type.value, nested);
+        input.set(key, value);
+        expected[key] = decoded;
+      }
+      return [input, expected];
+    }
+    case 'Nullable':
+    case 'LowCardinality':
+      return r.next() < 0.3 && (type.kind === 'Nullable' || type.inner.kind === 'Nullable')
+        ? same(null)
+        : randomValue(r, type.inner.kind === 'Nullable' ? type.inner.inner : type.inner, nested);
+    case 'Variant': {
+      if (r.next() < 0.2) return same(null);
+      const variant = r.pick(type.variants);
+      const [input, expected] = randomValue(r, variant, nested);
+      return [r.next() < 0.5 ? new TypedValue(variant, input) : input, expected];
+    }
+    case 'Dynamic':
+      switch (r.int(0, 5)) {
+        case 0:
+          return same(null);
+        case 1: {
+          const n = r.int(-1e6, 1e6);
+          return [n, BigInt(n)];
+        }
+        case 2:
+          return same(r.text(6));
+        case 3:
+          return same(r.next() < 0.5);
+        case 4:
+          return same(r.int(1, 1e6) + 0.5);
+        default: {
+          const n = r.int(0, 255);
+          return [new TypedValue('UInt8', n), n];
+        }
+      }
+    case 'QBit': {
+      const vector = Array.from({ length: type.dimension }, () => Math.fround(r.next() * 10 - 5));
+      return same(vector);
+    }
+    default:
+      throw new Error(`no generator for ${type.kind}`);
+  }
+}
@@ -0,0 +1,523 @@
+import { aggregateAccumulatorType } from '../decoder/aggregate-states';
+import { parseType } from '../parser/type-parser';
+import { ClickHouseType, simpleAggregateValueType, typeToString } from '../types/clickhouse-types';
+import { BinaryWriter } from './writer';
+
+/**
+ * Values → bytes pieces shared by NativeEncoder and RowBinaryEncoder. Both
+ * formats write a leaf value (a number, string, date, address, ...) the same
+ * way; they differ in how composites, NULLs and Variant / Dynamic / JSON rows
+ * are laid out, which stays with each encoder.
+ */
+
+/** A value with an explicit ClickHouse type, for Variant, Dynamic and JSON rows. */
+export class TypedValue {
+  readonly type: ClickHouseType;
+
+  constructor(type: ClickHouseType | string, readonly value: unknown) {
+    this.type = typeof type === 'string' ? parseType(type) : type;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TEXT_ENCODER = new TextEncoder();
+
+/** Same order as the decoders' Geometry variants (alphabetical). */
+export const GEOMETRY_VARIANTS = ['LineString', 'MultiLineString', 'MultiPolygon', 'Point', 'Polygon', 'Ring'] as const;
+
+/** One value of a leaf type, laid out the same in Native columns and RowBinary rows. */
+export function writeLeafValue(w: BinaryWriter, type: ClickHouseType, value: unknown): void {
+  switch (type.kind) {
+    case 'UInt8':
+    case 'UInt16':
+    case 'UInt32':
+    case 'UInt64':
+    case 'UInt128':
+    case 'UInt256':
+      writeInteger(w, toBigInt(value, type), Number(type.kind.slice(4)) / 8, false, type);
+      return;
+    case 'Int8':
+    case 'Int16':
+    case 'Int32':
+    case 'Int64':
+    case 'Int128':
+    case 'Int256':
+      writeInteger(w, toBigInt(value, type), Number(type.kind.slice(3)) / 8, true, type);
+      return;
+    case 'IntervalNanosecond':
+    case 'IntervalMicrosecond':
+    case 'IntervalMillisecond':
+    case 'IntervalSecond':
+    case 'IntervalMinute':
+    case 'IntervalHour':
+    case 'IntervalDay':
+    case 'IntervalWeek':
+    case 'IntervalMonth':
+    case 'IntervalQuarter':
+    case 'IntervalYear':
+      writeInteger(w, toBigInt(value, type), 8, true, type);
+      return;
+    case 'Float32':
+      w.writeFloat32LE(toFloat(value, type));
+      return;
+    case 'Float64':
+      w.writeFloat64LE(toFloat(value, type));
+      return;
+    case 'BFloat16':
+      w.writeUInt16LE(toBFloat16Bits(toFloat(value, type)));
+      return;
+    case 'Bool':
+      if (typeof value !== 'boolean' && value !== 0 && value !== 1) throw mismatch(value, type);
+      w.writeUInt8(value ? 1 : 0);
+      return;
+    case 'String':
+      if (typeof value !== 'string' && !(value instanceof Uint8Array)) throw mismatch(value, type);
+      w.writeString(value);
+      return;
+    case 'FixedString': {
+      if (typeof value !== 'string' && !(value instanceof Uint8Array)) throw mismatch(value, type);
+      const bytes = typeof value === 'string' ? TEXT_ENCODER.encode(value) : value;
+      if (bytes.length > type.length) throw new Error(`${describe(value)} is longer than ${typeToString(type)}`);
+      const padded = new Uint8Array(type.length);
+      padded.set(bytes);
+      w.writeBytes(padded);
+      return;
+    }
+    case 'Nothing':
+      if (value !== null && value !== undefined) throw mismatch(value, type);
+      w.writeUInt8(0);
+      return;
+    case 'Date':
+      writeInteger(w, BigInt(toDays(value, type)), 2, false, type);
+      return;
+    case 'Date32':
+      writeInteger(w, BigInt(toDays(value, type)), 4, true, type);
+      return;
+    case 'DateTime':
+      writeInteger(w, toSeconds(value, type), 4, false, type);
+      return;
+    case 'DateTime64':
+      writeInteger(w, toTicks(value, type.precision, type), 8, true, type);
+      return;
+    case 'Time':
+      writeInteger(w, toBigInt(value, type), 4, true, type);
+      return;
+    case 'Time64':
+      writeInteger(w, toBigInt(value, type), 8, true, type);
+      return;
+    case 'UUID':
+      w.writeBytes(uuidBytes(value, type));
+      return;
+    case 'IPv4':
+      w.writeBytes(ipv4Bytes(value, type));
+      return;
+    case 'IPv6':
+      w.writeBytes(ipv6Bytes(value, type));
+      return;
+    case 'Decimal32':
+    case 'Decimal64':
+    case 'Decimal128':
+    case 'Decimal256':
+      writeInteger(w, toUnscaledDecimal(value, type.scale, type), Number(type.kind.slice(7)) / 8, true, type);
+      return;
+    case 'Enum8':
+    case 'Enum16':
+      writeInteger(w, BigInt(enumValue(value, type)), type.kind === 'Enum8' ? 1 : 2, true, type);
+      return;
+    case 'AggregateFunction':
+      writeAggregateState(w, type, value);
+      return;
+    default:
+      throw new Error(`${typeToString(type)} is not a leaf type the encoders can write`);
+  }
+}
+
+/**
+ * States carry no length prefix and each function has its own layout, so
+ * only avg (as {sum, count}), sum and count are built from values, in the
+ * widened type the server accumulates in; any other state must be given as
+ * its raw bytes.
+ */
+function writeAggregateState(
+  w: BinaryWriter,
+  type: Extract<ClickHouseType, { kind: 'AggregateFunction' }>,
+  value: unknown,
+): void {
+  if (value instanceof Uint8Array) {
+    w.writeBytes(value);
+    return;
+  }
+  const argType = type.argTypes[0];
+  switch (type.functionName.toLowerCase()) {
+    case 'avg': {
+      const { sum, count } = (value ?? {}) as { sum?: unknown; count?: unknown };
+      writeLeafValue(w, aggregateAccumulatorType(argType, true), sum ?? 0);
+      w.writeVarUInt(toBigInt(count ?? 0, type));
+      return;
+    }
+    case 'sum':
+      writeLeafValue(w, aggregateAccumulatorType(argType), value);
+      return;
+    case 'count':
+      w.writeVarUInt(toBigInt(value, type));
+      return;
+    default:
+      throw new Error(`${typeToString(type)} states must be given as raw bytes (Uint8Array)`);
+  }
+}
+
+// --- value conversion ---------------------------------------------------------
+
+/** Geo types are Tuple(Float64, Float64) points and nested Arrays of them. */
+export function geoAsComposite(kind: 'Point' | 'Ring' | 'LineString' | 'Polygon' | 'MultiLineString' | 'MultiPolygon'): ClickHouseType {
+  const point: ClickHouseType = { kind: 'Tuple', elements: [{ kind: 'Float64' }, { kind: 'Float64' }], names: ['x', 'y'] };
+  const ring: ClickHouseType = { kind: 'Array', element: point };
+  const polygon: ClickHouseType = { kind: 'Array', element: ring };
+  switch (kind) {
+    case 'Point':
+      return point;
+    case 'Ring':
+    case 'LineString':
+      return ring;
+    case 'Polygon':
+    case 'MultiLineString':
+      return polygon;
+    case 'MultiPolygon':
+      return { kind: 'Array', element: polygon };
+  }
+}
+
+/** The value written in place of a NULL, a missing typed path or a dictionary placeholder. */
+export function placeholder(type: ClickHouseType): unknown {
+  switch (type.kind) {
+    case 'UInt64':
+    case 'UInt128':
+    case 'UInt256':
+    case 'Int64':
+    case 'Int128':
+    case 'Int256':
+    case 'DateTime64':
+    case 'Time64':
+    case 'Decimal128':
+    case 'Decimal256':
+      return 0n;
+    case 'String':
+    case 'FixedString':
+      return '';
+    case 'Bool':
+      return false;
+    case 'Nothing':
+    case 'Nullable':
+    case 'Variant':
+    case 'Geometry':
+    case 'Dynamic':
+      return null;
+    case 'UUID':
+      return '00000000-0000-0000-0000-000000000000';
+    case 'IPv4':
+      return '0.0.0.0';
+    case 'IPv6':
+      return '::';
+    case 'Enum8':
+    case 'Enum16':
+      return Math.min(...type.values.keys());
+    case 'Array':
+    case 'Map':
+    case 'Nested':
+    case 'Ring':
+    case 'LineString':
+    case 'Polygon':
+    case 'MultiLineString':
+    case 'MultiPolygon':
+      return [];
+    case 'Tuple':
+      return type.elements.map(placeholder);
+    case 'Point':
+      return [0, 0];
+    case 'LowCardinality':
+      return placeholder(type.inner);
+    case 'JSON':
+      return {};
+    case 'QBit':
+      return new Array<number>(type.dimension).fill(0);
+    case 'AggregateFunction':
+      return type.functionName.toLowerCase() === 'avg' ? { sum: 0, count: 0 } : 0;
+    case 'SimpleAggregateFunction':
+      return placeholder(simpleAggregateValueType(type));
+    default:
+      return 0;
+  }
+}
+
+/**
+ * The Dynamic type of a row: a TypedValue's own type, or one inferred from
+ * the JS value the way JSON input is typed. null means NULL.
+ */
+export function inferType(value: unknown): ClickHouseType | null {
+  if (value instanceof TypedValue) return value.type;
+  if (value === null || value === undefined) return null;
+  switch (typeof value) {
+    case 'boolean':
+      return { kind: 'Bool' };
+    case 'string':
+      return { kind: 'String' };
+    case 'number':
+      return Number.isInteger(value) ? { kind: 'Int64' } : { kind: 'Float64' };
+    case 'bigint':
+      if (value >= -(1n << 63n) && value < 1n << 63n) return { kind: 'Int64' };
+      return value >= 0n && value < 1n << 64n ? { kind: 'UInt64' } : { kind: 'Int128' };
+  }
+  if (value instanceof Date) return { kind: 'DateTime64', precision: 3 };
+  if (value instanceof Uint8Array) return { kind: 'String' };
+  if (Array.isArray(value)) {
+    const elements = value.map(inferType);
+    const present = elements.filter((t): t is ClickHouseType => t !== null);
+    const names = new Set(present.map(typeToString));
+    if (names.size > 1) {
+      throw new Error(`cannot infer one element type for ${describe(value)}; wrap it in a TypedValue`);
+    }
+    let element: ClickHouseType = present[0] ?? { kind: 'Nothing' };
+    if (present.length < elements.length) element = { kind: 'Nullable', inner: element };
+    return { kind: 'Array', element };
+  }
+  throw new Error(`cannot infer a type for ${describe(value)}; wrap it in a TypedValue`);
+}
+
+/** A JSON row as path → value, nested objects joined with dots. */
+export function flattenPaths(value: unknown, prefix = '', out = new Map<string, unknown>()): Map<string, unknown> {
+  if (value === null || value === undefined) return out;
+  if (!isPlainObject(value)) {
+    throw new Error(`JSON rows must be objects, got ${describe(value)}`);
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix + key;
+    if (isPlainObject(child)) {
+      flattenPaths(child, `${path}.`, out);
+    } else if (child !== undefined) {
+      out.set(path, child);
+    }
+  }
+  return out;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/** Byte-wise name order, as ClickHouse sorts paths. */
+export function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Serialize a JSON row as text, keeping bigints exact. */
+export function jsonText(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof TypedValue) return jsonText(value.value);
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (value instanceof Uint8Array) return JSON.stringify(new TextDecoder().decode(value));
+  if (Array.isArray(value)) return `[${value.map(jsonText).join(',')}]`;
+  if (typeof value === 'object') {
+    const fields = Object.entries(value).filter(([, v]) => v !== undefined);
+    return `{${fields.map(([k, v]) => `${JSON.stringify(k)}:${jsonText(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function describe(value: unknown): string {
+  if (typeof value === 'bigint') return `${value}n`;
+  if (value instanceof Date) return `Date(${Number.isNaN(value.getTime()) ? 'invalid' : value.toISOString()})`;
+  if (value instanceof Uint8Array) return `Uint8Array(${value.length})`;
+  try {
+    const text = JSON.stringify(value) ?? String(value);
+    return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+  } catch {
+    return String(value);
+  }
+}
+
+export function mismatch(value: unknown, type: ClickHouseType): Error {
+  return new Error(`cannot encode ${describe(value)} as ${typeToString(type)}`);
+}
+
+export function asArray(value: unknown, type: ClickHouseType): unknown[] {
+  if (!Array.isArray(value)) throw mismatch(value, type);
+  return value;
+}
+
+export function mapEntries(value: unknown, type: ClickHouseType): [unknown, unknown][] {
+  if (value instanceof Map) return [...value.entries()];
+  if (Array.isArray(value) && value.every((e) => Array.isArray(e) && e.length === 2)) {
+    return value as [unknown, unknown][];
+  }
+  if (isPlainObject(value)) return Object.entries(value);
+  throw mismatch(value, type);
+}
+
+export function tupleElements(value: unknown, type: Extract<ClickHouseType, { kind: 'Tuple' }>): unknown[] {
+  if (Array.isArray(value) && value.length === type.elements.length) return value;
+  if (type.names && isPlainObject(value)) return type.names.map((name) => value[name]);
+  throw mismatch(value, type);
+}
+
+export function toBigInt(value: unknown, type: ClickHouseType): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^\s*[+-]?\d+\s*$/.test(value)) return BigInt(value.trim());
+  if (typeof value === 'boolean') return value ? 1n : 0n;
+  throw mismatch(value, type);
+}
+
+export function toFloat(value: unknown, type: ClickHouseType): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string') {
+    const text = value.trim().toLowerCase();
+    if (text === 'nan') return NaN;
+    if (text === 'inf' || text === '+inf') return Infinity;
+    if (text === '-inf') return -Infinity;
+    const parsed = Number(value);
+    if (text !== '' && !Number.isNaN(parsed)) return parsed;
+  }
+  throw mismatch(value, type);
+}
+
+/** Float32 bits rounded to the upper 16 (round half to even). */
+export function toBFloat16Bits(value: number): number {
+  if (Number.isNaN(value)) return 0x7fc0;
+  const view = new DataView(new ArrayBuffer(4));
+  view.setFloat32(0, value);
+  const bits = view.getUint32(0);
+  return ((bits + 0x7fff + ((bits >>> 16) & 1)) >>> 16) & 0xffff;
+}
+
+/** Two's complement little-endian, checked against the type's range. */
+export function writeInteger(w: BinaryWriter, value: bigint, bytes: number, signed: boolean, type: ClickHouseType): void {
+  const bits = BigInt(bytes * 8);
+  const min = signed ? -(1n << (bits - 1n)) : 0n;
+  const max = signed ? (1n << (bits - 1n)) - 1n : (1n << bits) - 1n;
+  if (value < min || value > max) {
+    throw new Error(`${value} is out of range for ${typeToString(type)}`);
+  }
+  let unsigned = value < 0n ? value + (1n << bits) : value;
+  for (let i = 0; i < bytes; i++) {
+    w.writeUInt8(Number(unsigned & 0xffn));
+    unsigned >>= 8n;
+  }
+}
+
+/** Milliseconds since the epoch; strings are ISO-like and read as UTC unless they say otherwise. */
+function toMillis(value: unknown, type: ClickHouseType): number {
+  let ms = NaN;
+  if (value instanceof Date) {
+    ms = value.getTime();
+  } else if (typeof value === 'string') {
+    let text = value.trim().replace(' ', 'T');
+    if (text.includes('T') && !/(Z|[+-]\d\d:?\d\d)$/i.test(text)) text += 'Z';
+    ms = Date.parse(text);
+  }
+  if (Number.isNaN(ms)) throw mismatch(value, type);
+  return ms;
+}
+
+/** Date / Date32: a number is already days since the epoch. */
+function toDays(value: unknown, type: ClickHouseType): number {
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+  return Math.floor(toMillis(value, type) / DAY_MS);
+}
+
+/** DateTime: a number or bigint is already seconds since the epoch. */
+function toSeconds(value: unknown, type: ClickHouseType): bigint {
+  if (typeof value === 'number' || typeof value === 'bigint') return toBigInt(value, type);
+  return BigInt(Math.floor(toMillis(value, type) / 1000));
+}
+
+/** DateTime64(p): a number or bigint is already the tick count. */
+function toTicks(value: unknown, precision: number, type: ClickHouseType): bigint {
+  if (typeof value === 'number' || typeof value === 'bigint') return toBigInt(value, type);
+  const ms = BigInt(toMillis(value, type));
+  if (precision >= 3) return ms * 10n ** BigInt(precision - 3);
+  const divisor = 10n ** BigInt(3 - precision);
+  return ms >= 0n ? ms / divisor : -((-ms + divisor - 1n) / divisor);
+}
+
+/** A bigint is the raw unscaled value; numbers and strings are decimal values scaled (and truncated) to `scale`. */
+function toUnscaledDecimal(value: unknown, scale: number, type: ClickHouseType): bigint {
+  if (typeof value === 'bigint') return value;
+  let text: string;
+  if (typeof value === 'number' && Number.isFinite(value)) text = value.toFixed(Math.min(scale, 100));
+  else if (typeof value === 'string') text = value.trim();
+  else throw mismatch(value, type);
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (match[2] === '' && !match[3])) throw mismatch(value, type);
+  const fraction = (match[3] ?? '').padEnd(scale, '0').slice(0, scale);
+  const unscaled = BigInt(`${match[2] || '0'}${fraction}`);
+  return match[1] === '-' ? -unscaled : unscaled;
+}
+
+function enumValue(value: unknown, type: Extract<ClickHouseType, { kind: 'Enum8' | 'Enum16' }>): number {
+  if (typeof value === 'number' && type.values.has(value)) return value;
+  if (typeof value === 'string') {
+    for (const [number, name] of type.values) if (name === value) return number;
+  }
+  throw mismatch(value, type);
+}
+
+/** Text order is bytes 0..15; the wire holds each 8-byte half reversed. */
+function uuidBytes(value: unknown, type: ClickHouseType): Uint8Array {
+  const hex = typeof value === 'string' ? value.replace(/-/g, '') : '';
+  if (!/^[0-9a-f]{32}$/i.test(hex)) throw mismatch(value, type);
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    const byte = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    bytes[i < 8 ? 7 - i : 23 - i] = byte;
+  }
+  return bytes;
+}
+
+function parseIPv4(text: string): number[] | null {
+  const parts = text.split('.');
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p) && Number(p) <= 255)) return null;
+  return parts.map(Number);
+}
+
+/** IPv4 is a little-endian UInt32: "a.b.c.d" goes on the wire as d c b a. */
+function ipv4Bytes(value: unknown, type: ClickHouseType): Uint8Array {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffffff) {
+    return Uint8Array.of(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, value >>> 24);
+  }
+  const octets = typeof value === 'string' ? parseIPv4(value.trim()) : null;
+  if (!octets) throw mismatch(value, type);
+  return Uint8Array.from(octets.reverse());
+}
+
+/** Sixteen bytes in network order; accepts "::" shorthand and a dotted IPv4 tail. */
+function ipv6Bytes(value: unknown, type: ClickHouseType): Uint8Array {
+  if (typeof value !== 'string') throw mismatch(value, type);
+  let text = value.trim().toLowerCase();
+  const tail: number[] = [];
+  const dotted = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (dotted) {
+    const octets = parseIPv4(dotted[1]);
+    if (!octets) throw mismatch(value, type);
+    tail.push((octets[0] << 8) | octets[1], (octets[2] << 8) | octets[3]);
+    text = text.slice(0, -dotted[1].length);
+    text = text.endsWith('::') ? text : text.slice(0, -1);
+  }
+  const halves = text.split('::');
+  const group = (part: string) => (part === '' ? [] : part.split(':'));
+  const head = group(halves[0]);
+  const rest = halves.length === 2 ? group(halves[1]) : [];
+  const missing = 8 - tail.length - head.length - rest.length;
+  if (halves.length > 2 || (halves.length === 1 && missing !== 0) || missing < 0) throw mismatch(value, type);
+  const groups = [...head, ...new Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  if (!groups.every((g) => /^[0-9a-f]{1,4}$/.test(g))) throw mismatch(value, type);
+  const words = [...groups.map((g) => parseInt(g, 16)), ...tail];
+  const bytes = new Uint8Array(16);
+  words.forEach((word, i) => {
+    bytes[i * 2] = word >> 8;
+    bytes[i * 2 + 1] = word & 0xff;
+  });
+  return bytes;
+}
@@ -0,0 +1,115 @@
+const TEXT_ENCODER = new TextEncoder();
+
+/**
+ * Growable little-endian byte writer, the counterpart of BinaryReader.
+ * VarUInt and String use ClickHouse's wire encoding (unsigned LEB128, and a
+ * LEB128 length followed by the UTF-8 bytes).
+ */
+export class BinaryWriter {
+  private buf: Uint8Array;
+  private view: DataView;
+  private pos = 0;
+
+  constructor(initialCapacity = 256) {
+    this.buf = new Uint8Array(initialCapacity);
+    this.view = new DataView(this.buf.buffer);
+  }
+
+  get length(): number {
+    return this.pos;
+  }
+
+  /** The bytes written so far (a copy, so the writer can keep going). */
+  toBytes(): Uint8Array {
+    return this.buf.slice(0, this.pos);
+  }
+
+  writeUInt8(value: number): this {
+    this.ensure(1);
+    this.view.setUint8(this.pos++, value);
+    return this;
+  }
+
+  writeUInt16LE(value: number): this {
+    this.ensure(2);
+    this.view.setUint16(this.pos, value, true);
+    this.pos += 2;
+    return this;
+  }
+
+  writeInt32LE(value: number): this {
+    this.ensure(4);
+    this.view.setInt32(this.pos, value, true);
+    this.pos += 4;
+    return this;
+  }
+
+  writeUInt32LE(value: number): this {
+    this.ensure(4);
+    this.view.setUint32(this.pos, value, true);
+    this.pos += 4;
+    return this;
+  }
+
+  writeInt64LE(value: bigint): this {
+    this.ensure(8);
+    this.view.setBigInt64(this.pos, value, true);
+    this.pos += 8;
+    return this;
+  }
+
+  writeUInt64LE(value: bigint): this {
+    this.ensure(8);
+    this.view.setBigUint64(this.pos, value, true);
+    this.pos += 8;
+    return this;
+  }
+
+  writeFloat32LE(value: number): this {
+    this.ensure(4);
+    this.view.setFloat32(this.pos, value, true);
+    this.pos += 4;
+    return this;
+  }
+
+  writeFloat64LE(value: number): this {
+    this.ensure(8);
+    this.view.setFloat64(this.pos, value, true);
+    this.pos += 8;
+    return this;
+  }
+
+  writeVarUInt(value: number | bigint): this {
+    let v = BigInt(value);
+    if (v < 0n) throw new RangeError(`VarUInt cannot encode a negative value: ${value}`);
+    do {
+      let byte = Number(v & 0x7fn);
+      v >>= 7n;
+      if (v !== 0n) byte |= 0x80;
+      this.writeUInt8(byte);
+    } while (v !== 0n);
+    return this;
+  }
+
+  writeBytes(bytes: Uint8Array): this {
+    this.ensure(bytes.length);
+    this.buf.set(bytes, this.pos);
+    this.pos += bytes.length;
+    return this;
+  }
+
+  writeString(value: string | Uint8Array): this {
+    const bytes = typeof value === 'string' ? TEXT_ENCODER.encode(value) : value;
+    return this.writeVarUInt(bytes.length).writeBytes(bytes);
+  }
+
+  private ensure(extra: number): void {
+    if (this.pos + extra <= this.buf.length) return;
+    let capacity = Math.max(16, this.buf.length * 2);
+    while (capacity < this.pos + extra) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buf.subarray(0, this.pos));
+    this.buf = next;
+    this.view = new DataView(next.buffer);
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  anchorNodeId,
+  applyByteEdit,
+  carryExpanded,
+  deepestNodeAt,
+  deleteEdit,
+  indexNodes,
+  insertEdit,
+  mapOffset,
+  overwriteEdit,
+  parseHexBytes,
+} from './hex-edit';
+import { RowBinaryDecoder } from './decoder/rowbinary-decoder';
+import { RowBinaryEncoder } from './encoder/rowbinary-encoder';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe('byte edits', () => {
+  it('overwrites, inserts and deletes', () => {
+    const data = bytes(1, 2, 3, 4);
+    expect(Array.from(applyByteEdit(data, overwriteEdit(data, 1, bytes(9, 9))))).toEqual([1, 9, 9, 4]);
+    expect(Array.from(applyByteEdit(data, overwriteEdit(data, 3, bytes(7, 8))))).toEqual([1, 2, 3, 7, 8]);
+    expect(Array.from(applyByteEdit(data, insertEdit(0, bytes(0))))).toEqual([0, 1, 2, 3, 4]);
+    expect(Array.from(applyByteEdit(data, deleteEdit(1, 3)))).toEqual([1, 4]);
+    expect(Array.from(data)).toEqual([1, 2, 3, 4]);
+    expect(() => applyByteEdit(data, deleteEdit(3, 6))).toThrow('Byte edit: [3, 6) is outside the 4-byte buffer');
+  });
+
+  it('maps offsets through an edit', () => {
+    const edit = { offset: 2, deleteCount: 2, insert: bytes(0, 0, 0) };
+    expect([0, 1, 2, 3, 4, 5].map((o) => mapOffset(o, edit))).toEqual([0, 1, 2, 2, 5, 6]);
+    expect(mapOffset(2, insertEdit(2, bytes(0)))).toBe(3);
+  });
+
+  it('parses typed hex bytes', () => {
+    expect(Array.from(parseHexBytes('0a FF'))).toEqual([10, 255]);
+    expect(Array.from(parseHexBytes('0x0a,0x0b'))).toEqual([10, 11]);
+    expect(Array.from(parseHexBytes(''))).toEqual([]);
+    expect(() => parseHexBytes('abc')).toThrow('is not a sequence of hex bytes');
+    expect(() => parseHexBytes('zz')).toThrow('is not a sequence of hex bytes');
+  });
+});
+
+describe('node anchoring', () => {
+  const columns = [
+    { name: 's', type: 'String' },
+    { name: 'n', type: 'UInt16' },
+  ];
+  const data = new RowBinaryEncoder().encode(columns, [['ab', 1], ['cd', 2]]);
+  const before = new RowBinaryDecoder(data).decode();
+  // Offset of row 0's string length prefix.
+  const prefix = before.rows![0].values[0].byteRange.start;
+
+  it('finds the deepest node at an offset', () => {
+    const node = deepestNodeAt(before, before.rows![1].values[1].byteRange.start);
+    expect(node?.id).toBe(before.rows![1].values[1].id);
+    expect(deepestNodeAt(before, 0)).toBeNull();
+  });
+
+  it('keeps the node in the same slot after an earlier value grows', () => {
+    // "ab" -> "abx": bump the length prefix and insert the extra byte.
+    const edited = applyByteEdit(applyByteEdit(data, overwriteEdit(data, prefix, bytes(3))), insertEdit(prefix + 3, bytes(0x78)));
+    const after = new RowBinaryDecoder(edited).decode();
+    expect(after.rows![0].values[0].value).toBe('abx');
+    const id = anchorNodeId(indexNodes(before), indexNodes(after), before.rows![1].values[1].id, insertEdit(prefix + 3, bytes(0x78)));
+    expect(id).toBe(after.rows![1].values[1].id);
+    expect(after.rows![1].values[1].value).toBe(2);
+  });
+
+  it('falls back to the node at the mapped offset when the slot changes type', () => {
+    const [row0, row1] = before.rows!;
+    // Same bytes, but row-0/value-1 now holds the String node.
+    const swapped = { ...before, rows: [{ ...row0, values: [row0.values[1], row0.values[0]] }, row1] };
+    expect(anchorNodeId(indexNodes(before), indexNodes(swapped), row0.values[1].id, null)).toBe(row0.values[1].id);
+    expect(anchorNodeId(indexNodes(before), indexNodes(swapped), 'rowbinary-header', null)).toBe('rowbinary-header');
+  });
+
+  it('carries expanded nodes by position', () => {
+    const after = new RowBinaryDecoder(data).decode();
+    const ids = new Set(['row-0', before.rows![1].values[0].id]);
+    expect(carryExpanded(indexNodes(before), indexNodes(after), ids)).toEqual(
+      new Set(['row-0', after.rows![1].values[0].id]),
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { AstNode, ParsedData } from './types/ast';
+
+/**
+ * One change to a byte buffer: remove `deleteCount` bytes at `offset` and put
+ * `insert` in their place. Overwrite, insert and delete are all this shape.
+ */
+export interface ByteEdit {
+  offset: number;
+  deleteCount: number;
+  insert: Uint8Array;
+}
+
+/** Overwrite bytes starting at `offset`; writing past the end appends. */
+export function overwriteEdit(data: Uint8Array, offset: number, bytes: Uint8Array): ByteEdit {
+  return { offset, deleteCount: Math.min(bytes.length, data.length - offset), insert: bytes };
+}
+
+/** Insert bytes before `offset`. */
+export function insertEdit(offset: number, bytes: Uint8Array): ByteEdit {
+  return { offset, deleteCount: 0, insert: bytes };
+}
+
+/** Delete the bytes in [start, end). */
+export function deleteEdit(start: number, end: number): ByteEdit {
+  return { offset: start, deleteCount: end - start, insert: new Uint8Array(0) };
+}
+
+/** A copy of `data` with the edit applied. */
+export function applyByteEdit(data: Uint8Array, edit: ByteEdit): Uint8Array {
+  if (edit.offset < 0 || edit.deleteCount < 0 || edit.offset + edit.deleteCount > data.length) {
+    throw new Error(
+      `Byte edit: [${edit.offset}, ${edit.offset + edit.deleteCount}) is outside the ${data.length}-byte buffer`,
+    );
+  }
+  const out = new Uint8Array(data.length - edit.deleteCount + edit.insert.length);
+  out.set(data.subarray(0, edit.offset), 0);
+  out.set(edit.insert, edit.offset);
+  out.set(data.subarray(edit.offset + edit.deleteCount), edit.offset + edit.insert.length);
+  return out;
+}
+
+/**
+ * Where a byte offset of the old buffer lands in the edited one. Offsets
+ * inside a deleted or overwritten range map to the start of the edit.
+ */
+export function mapOffset(offset: number, edit: ByteEdit): number {
+  if (offset < edit.offset) return offset;
+  if (offset < edit.offset + edit.deleteCount) return edit.offset;
+  return offset + edit.insert.length - edit.deleteCount;
+}
+
+/**
+ * Parse hex typed by the user ("0a ff", "0x0AFF", "0a,ff") into bytes.
+ * Throws on anything that is not an even run of hex digits.
+ */
+export function parseHexBytes(text: string): Uint8Array {
+  const digits = text.replace(/0x/gi, '').replace(/[\s,]/g, '');
+  if (!/^[0-9a-fA-F]*$/.test(digits) || digits.length % 2 !== 0) {
+    throw new Error(`Byte edit: "${text}" is not a sequence of hex bytes`);
+  }
+  const bytes = new Uint8Array(digits.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Top-level AstNodes of a parse, each under a key naming its structural slot
+ * (`row-1/value-2`, `block-0/col-3/prefix-0`, ...). Keys do not depend on node
+ * ids, which every decode hands out afresh.
+ */
+function rootNodes(parsed: ParsedData): [string, AstNode][] {
+  const roots: [string, AstNode][] = [];
+  parsed.rows?.forEach((row, i) => {
+    row.values.forEach((node, j) => roots.push([`row-${i}/value-${j}`, node]));
+  });
+  parsed.blocks?.forEach((block, i) => {
+    roots.push([`block-${i}/header`, block.header.astNode]);
+    block.columns.forEach((col, j) => {
+      roots.push([`block-${i}/col-${j}/meta`, col.metadataNode]);
+      col.dataPrefixNodes.forEach((node, k) => roots.push([`block-${i}/col-${j}/prefix-${k}`, node]));
+      col.values.forEach((node, k) => roots.push([`block-${i}/col-${j}/value-${k}`, node]));
+    });
+  });
+  parsed.trailingNodes?.forEach((node, i) => roots.push([`trailing-${i}`, node]));
+  return roots;
+}
+
+/**
+ * Every AstNode of a parse by id and by structural path: the root slot
+ * followed by child indices (`row-0/value-2/1/0`).
+ */
+export interface NodeIndex {
+  parsed: ParsedData;
+  pathById: Map<string, string>;
+  nodeByPath: Map<string, AstNode>;
+}
+
+export function indexNodes(parsed: ParsedData): NodeIndex {
+  const pathById = new Map<string, string>();
+  const nodeByPath = new Map<string, AstNode>();
+  function visit(node: AstNode, path: string) {
+    pathById.set(node.id, path);
+    nodeByPath.set(path, node);
+    node.children?.forEach((child, i) => visit(child, `${path}/${i}`));
+  }
+  rootNodes(parsed).forEach(([root, node]) => visit(node, root));
+  return { parsed, pathById, nodeByPath };
+}
+
+/** The deepest node whose byte range contains `offset`. */
+export function deepestNodeAt(parsed: ParsedData, offset: number): AstNode | null {
+  let deepest: AstNode | null = null;
+  let deepestDepth = -1;
+  function visit(node: AstNode, depth: number) {
+    if (offset >= node.byteRange.start && offset < node.byteRange.end && depth > deepestDepth) {
+      deepest = node;
+      deepestDepth = depth;
+    }
+    node.children?.forEach((child) => visit(child, depth + 1));
+  }
+  rootNodes(parsed).forEach(([, node]) => visit(node, 0));
+  return deepest as AstNode | null;
+}
+
+/**
+ * The id in `after` of the node equivalent to `id` in `before`: the node in
+ * the same structural slot when it still has the same type, otherwise the
+ * deepest node at the old start offset mapped through the edit. Ids that are
+ * not AstNodes (rows, blocks, header entries) are stable and kept as is.
+ */
+export function anchorNodeId(before: NodeIndex, after: NodeIndex, id: string, edit: ByteEdit | null): string | null {
+  const path = before.pathById.get(id);
+  if (path === undefined) return id;
+  const old = before.nodeByPath.get(path)!;
+  const same = after.nodeByPath.get(path);
+  if (same && same.type === old.type) return same.id;
+  const start = edit ? mapOffset(old.byteRange.start, edit) : old.byteRange.start;
+  return deepestNodeAt(after.parsed, start)?.id ?? null;
+}
+
+/**
+ * Carry a set of expanded node ids over to a new parse by structural path.
+ * Nodes whose slot is gone are dropped; non-AstNode ids are kept.
+ */
+export function carryExpanded(before: NodeIndex, after: NodeIndex, ids: Set<string>): Set<string> {
+  const carried = new Set<string>();
+  for (const id of ids) {
+    const path = before.pathById.get(id);
+    if (path === undefined) {
+      carried.add(id);
+      continue;
+    }
+    const node = after.nodeByPath.get(path);
+    if (node) carried.add(node.id);
+  }
+  return carried;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseSchema } from './schema-parser';
+
+describe('parseSchema', () => {
+  it('splits on top-level commas and newlines only', () => {
+    const columns = parseSchema("id UInt64, m Map(String, Array(Tuple(a UInt8, b String)))\ne Enum8('a,b' = 1, 'c' = 2)");
+    expect(columns.map((c) => [c.name, c.typeString])).toEqual([
+      ['id', 'UInt64'],
+      ['m', 'Map(String, Array(Tuple(a UInt8, b String)))'],
+      ['e', "Enum8('a,b' = 1, 'c' = 2)"],
+    ]);
+    expect(columns[1].type.kind).toBe('Map');
+  });
+
+  it('accepts quoted names and ignores blank entries', () => {
+    const columns = parseSchema('`my col` String,\n\n"x.y" LowCardinality(String),');
+    expect(columns.map((c) => c.name)).toEqual(['my col', 'x.y']);
+  });
+
+  it('rejects missing types, unknown types and unbalanced input', () => {
+    expect(() => parseSchema('id')).toThrow(/Missing type/);
+    expect(() => parseSchema('id UInt65')).toThrow(/Unknown simple type/);
+    expect(() => parseSchema('a Array(UInt8')).toThrow(/Unbalanced parentheses/);
+    expect(() => parseSchema(' , ')).toThrow(/no columns/);
+  });
+});
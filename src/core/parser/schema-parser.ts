@@ -0,0 +1,86 @@
+import { parseType } from './type-parser';
+import { ClickHouseType } from '../types/clickhouse-types';
+
+/**
+ * One column of an out-of-band schema, as supplied for formats whose body
+ * carries no (or only partial) header.
+ */
+export interface SchemaColumn {
+  name: string;
+  type: ClickHouseType;
+  typeString: string;
+}
+
+/**
+ * Parse a column list in the `structure` syntax ClickHouse uses for
+ * `input()` / `file()`: `id UInt64, name String, tags Array(String)`.
+ * Columns are separated by top-level commas or newlines; names may be
+ * back-quoted or double-quoted. Each type string is validated with parseType.
+ */
+export function parseSchema(text: string): SchemaColumn[] {
+  const columns: SchemaColumn[] = [];
+  for (const entry of splitTopLevel(text)) {
+    const { name, rest } = readColumnName(entry, text);
+    const typeString = rest.trim();
+    if (!typeString) {
+      throw new Error(`Missing type for column '${name}' in schema: ${text}`);
+    }
+    columns.push({ name, type: parseType(typeString), typeString });
+  }
+  if (columns.length === 0) {
+    throw new Error('Schema has no columns');
+  }
+  return columns;
+}
+
+/** Split on commas / newlines outside parentheses and quotes, dropping empty entries. */
+function splitTopLevel(text: string): string[] {
+  const entries: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === '`') quote = ch;
+    else if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (depth === 0 && (ch === ',' || ch === '\n')) {
+      entries.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  if (quote || depth !== 0) {
+    throw new Error(`Unbalanced ${quote ? 'quotes' : 'parentheses'} in schema: ${text}`);
+  }
+  entries.push(text.slice(start));
+  return entries.map((e) => e.trim()).filter((e) => e.length > 0);
+}
+
+function readColumnName(entry: string, text: string): { name: string; rest: string } {
+  const quote = entry[0];
+  if (quote === '`' || quote === '"') {
+    let name = '';
+    for (let i = 1; i < entry.length; i++) {
+      const ch = entry[i];
+      if (ch === '\\' && i + 1 < entry.length) {
+        name += entry[++i];
+      } else if (ch === quote) {
+        return { name, rest: entry.slice(i + 1) };
+      } else {
+        name += ch;
+      }
+    }
+    throw new Error(`Unterminated column name in schema: ${text}`);
+  }
+  const match = /^([A-Za-z_][A-Za-z0-9_.]*)(\s[\s\S]*)?$/.exec(entry);
+  if (!match) {
+    throw new Error(`Expected '<name> <type>' but got '${entry}' in schema: ${text}`);
+  }
+  return { name: match[1], rest: match[2] ?? '' };
+}
@@ -90,19 +90,29 @@ export function tokenize(input: string): Token[] {
         num += input[i];
         i++;
       }
-      tokens.push({ type: 'NUMBER', value: parseInt(num, 10) });
+      // Fractional part (aggregate function parameters such as quantile(0.5))
+      if (input[i] === '.' && /[0-9]/.test(input[i + 1] ?? '')) {
+        num += input[i];
+        i++;
+        while (i < input.length && /[0-9]/.test(input[i])) {
+          num += input[i];
+          i++;
+        }
+      }
+      tokens.push({ type: 'NUMBER', value: Number(num) });
       continue;
     }
 
-    // Backtick-quoted identifier (for JSON paths like `a.b`)
-    if (input[i] === '`') {
+    // Quoted identifier: backticks (JSON paths like `a.b`) or double quotes
+    if (input[i] === '`' || input[i] === '"') {
+      const quote = input[i];
       let ident = '';
-      i++; // skip opening backtick
-      while (i < input.length && input[i] !== '`') {
+      i++; // skip opening quote
+      while (i < input.length && input[i] !== quote) {
         if (input[i] === '\\' && i + 1 < input.length) {
-          // Handle escaped backtick
-          if (input[i + 1] === '`') {
-            ident += '`';
+          // Handle escaped quote or backslash
+          if (input[i + 1] === quote || input[i + 1] === '\\') {
+            ident += input[i + 1];
             i += 2;
           } else {
             ident += input[i];
@@ -113,15 +123,15 @@ export function tokenize(input: string): Token[] {
           i++;
         }
       }
-      i++; // skip closing backtick
+      i++; // skip closing quote
       tokens.push({ type: 'IDENTIFIER', value: ident });
       continue;
     }
 
-    // Identifier (type names, field names)
+    // Identifier (type names, field names, dotted JSON paths like a.b)
     if (/[a-zA-Z_]/.test(input[i])) {
       let ident = '';
-      while (i < input.length && /[a-zA-Z0-9_]/.test(input[i])) {
+      while (i < input.length && /[a-zA-Z0-9_.]/.test(input[i])) {
         ident += input[i];
         i++;
       }
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseType } from './type-parser';
+import { typeToString } from '../types/clickhouse-types';
+
+const roundTrip = (type: string) => typeToString(parseType(type));
+
+describe('parseType', () => {
+  it('round-trips the type names the server writes in headers', () => {
+    for (const type of [
+      'SimpleAggregateFunction(sum, UInt64)',
+      'SimpleAggregateFunction(groupArrayArray, Array(Nullable(String)))',
+      'AggregateFunction(quantiles(0.5, 0.9), Float64)',
+      "Object('json')",
+      "Object(Nullable('json'))",
+      'Tuple(`first id` UInt32, `2nd` String)',
+      "Enum8('it\\'s' = 1, 'a,b' = 2)",
+      "JSON(max_dynamic_paths=8, max_dynamic_types=4, a UInt32, SKIP `b.c`, SKIP REGEXP '^tmp')",
+    ]) {
+      expect(roundTrip(type)).toBe(type);
+    }
+  });
+
+  it('parses SimpleAggregateFunction like AggregateFunction', () => {
+    expect(parseType('SimpleAggregateFunction(anyLast, Nullable(String))')).toEqual({
+      kind: 'SimpleAggregateFunction',
+      functionName: 'anyLast',
+      argTypes: [{ kind: 'Nullable', inner: { kind: 'String' } }],
+    });
+  });
+
+  it('numbers Enum elements without explicit values and sizes plain Enum', () => {
+    expect(parseType("Enum8('a', 'b' = 5, 'c')")).toEqual({
+      kind: 'Enum8',
+      values: new Map([[1, 'a'], [5, 'b'], [6, 'c']]),
+    });
+    expect(parseType("Enum('x' = 1000)").kind).toBe('Enum16');
+  });
+
+  it('accepts double-quoted names and a JSON path literally named SKIP', () => {
+    expect(roundTrip('Tuple("a b" String, c UInt8)')).toBe('Tuple(`a b` String, c UInt8)');
+    expect(parseType('JSON(a.b UInt8, SKIP c.d)')).toMatchObject({ typedPaths: new Map([['a.b', { kind: 'UInt8' }]]), skipPaths: ['c.d'] });
+    expect(parseType('JSON(SKIP String)')).toMatchObject({ typedPaths: new Map([['SKIP', { kind: 'String' }]]) });
+  });
+});
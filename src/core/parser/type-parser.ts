@@ -1,6 +1,56 @@
 import { tokenize, Token } from './type-lexer';
 import { ClickHouseType, typeToString } from '../types/clickhouse-types';
 
+/** Types without parameters */
+const simpleTypes: Record<string, ClickHouseType> = {
+  UInt8: { kind: 'UInt8' },
+  UInt16: { kind: 'UInt16' },
+  UInt32: { kind: 'UInt32' },
+  UInt64: { kind: 'UInt64' },
+  UInt128: { kind: 'UInt128' },
+  UInt256: { kind: 'UInt256' },
+  Int8: { kind: 'Int8' },
+  Int16: { kind: 'Int16' },
+  Int32: { kind: 'Int32' },
+  Int64: { kind: 'Int64' },
+  Int128: { kind: 'Int128' },
+  Int256: { kind: 'Int256' },
+  Float32: { kind: 'Float32' },
+  Float64: { kind: 'Float64' },
+  BFloat16: { kind: 'BFloat16' },
+  String: { kind: 'String' },
+  Bool: { kind: 'Bool' },
+  Date: { kind: 'Date' },
+  Date32: { kind: 'Date32' },
+  Time: { kind: 'Time' },
+  UUID: { kind: 'UUID' },
+  IPv4: { kind: 'IPv4' },
+  IPv6: { kind: 'IPv6' },
+  Nothing: { kind: 'Nothing' },
+  Point: { kind: 'Point' },
+  Ring: { kind: 'Ring' },
+  Polygon: { kind: 'Polygon' },
+  MultiPolygon: { kind: 'MultiPolygon' },
+  LineString: { kind: 'LineString' },
+  MultiLineString: { kind: 'MultiLineString' },
+  Geometry: { kind: 'Geometry' },
+  Dynamic: { kind: 'Dynamic' },
+  JSON: { kind: 'JSON' },
+  DateTime: { kind: 'DateTime' },
+  // Interval types (all stored as Int64)
+  IntervalNanosecond: { kind: 'IntervalNanosecond' },
+  IntervalMicrosecond: { kind: 'IntervalMicrosecond' },
+  IntervalMillisecond: { kind: 'IntervalMillisecond' },
+  IntervalSecond: { kind: 'IntervalSecond' },
+  IntervalMinute: { kind: 'IntervalMinute' },
+  IntervalHour: { kind: 'IntervalHour' },
+  IntervalDay: { kind: 'IntervalDay' },
+  IntervalWeek: { kind: 'IntervalWeek' },
+  IntervalMonth: { kind: 'IntervalMonth' },
+  IntervalQuarter: { kind: 'IntervalQuarter' },
+  IntervalYear: { kind: 'IntervalYear' },
+};
+
 /**
  * Parse a ClickHouse type string into a structured type object
  */
@@ -35,56 +85,6 @@ export function parseType(typeString: string): ClickHouseType {
 
     const typeName = token.value;
 
-    // Simple types without parameters
-    const simpleTypes: Record<string, ClickHouseType> = {
-      UInt8: { kind: 'UInt8' },
-      UInt16: { kind: 'UInt16' },
-      UInt32: { kind: 'UInt32' },
-      UInt64: { kind: 'UInt64' },
-      UInt128: { kind: 'UInt128' },
-      UInt256: { kind: 'UInt256' },
-      Int8: { kind: 'Int8' },
-      Int16: { kind: 'Int16' },
-      Int32: { kind: 'Int32' },
-      Int64: { kind: 'Int64' },
-      Int128: { kind: 'Int128' },
-      Int256: { kind: 'Int256' },
-      Float32: { kind: 'Float32' },
-      Float64: { kind: 'Float64' },
-      BFloat16: { kind: 'BFloat16' },
-      String: { kind: 'String' },
-      Bool: { kind: 'Bool' },
-      Date: { kind: 'Date' },
-      Date32: { kind: 'Date32' },
-      Time: { kind: 'Time' },
-      UUID: { kind: 'UUID' },
-      IPv4: { kind: 'IPv4' },
-      IPv6: { kind: 'IPv6' },
-      Nothing: { kind: 'Nothing' },
-      Point: { kind: 'Point' },
-      Ring: { kind: 'Ring' },
-      Polygon: { kind: 'Polygon' },
-      MultiPolygon: { kind: 'MultiPolygon' },
-      LineString: { kind: 'LineString' },
-      MultiLineString: { kind: 'MultiLineString' },
-      Geometry: { kind: 'Geometry' },
-      Dynamic: { kind: 'Dynamic' },
-      JSON: { kind: 'JSON' },
-      DateTime: { kind: 'DateTime' },
-      // Interval types (all stored as Int64)
-      IntervalNanosecond: { kind: 'IntervalNanosecond' },
-      IntervalMicrosecond: { kind: 'IntervalMicrosecond' },
-      IntervalMillisecond: { kind: 'IntervalMillisecond' },
-      IntervalSecond: { kind: 'IntervalSecond' },
-      IntervalMinute: { kind: 'IntervalMinute' },
-      IntervalHour: { kind: 'IntervalHour' },
-      IntervalDay: { kind: 'IntervalDay' },
-      IntervalWeek: { kind: 'IntervalWeek' },
-      IntervalMonth: { kind: 'IntervalMonth' },
-      IntervalQuarter: { kind: 'IntervalQuarter' },
-      IntervalYear: { kind: 'IntervalYear' },
-    };
-
     // If next token is not LPAREN, it's a simple type
     if (peek()?.type !== 'LPAREN') {
       if (simpleTypes[typeName]) {
@@ -169,9 +169,10 @@ export function parseType(typeString: string): ClickHouseType {
         return { kind: 'Time64', precision };
       }
 
+      case 'Enum':
       case 'Enum8':
       case 'Enum16': {
-        return parseEnum(typeName as 'Enum8' | 'Enum16');
+        return parseEnum(typeName as 'Enum' | 'Enum8' | 'Enum16');
       }
 
       case 'Variant': {
@@ -201,24 +202,37 @@ export function parseType(typeString: string): ClickHouseType {
       }
 
       case 'JSON': {
-        // Parse JSON type with optional parameters and typed paths:
-        // JSON(max_dynamic_paths=N, path1 Type1, path2 Type2, ...)
+        // Parse JSON type with optional parameters, typed paths and skip hints:
+        // JSON(max_dynamic_paths=N, max_dynamic_types=M, path1 Type1, SKIP path2, SKIP REGEXP 're', ...)
         const typedPaths = new Map<string, ClickHouseType>();
+        const skipPaths: string[] = [];
+        const skipRegexps: string[] = [];
         let maxDynamicPaths: number | undefined;
+        let maxDynamicTypes: number | undefined;
 
         while (peek()?.type !== 'RPAREN') {
-          // Identifier (could be a parameter name or path name)
+          // Identifier (could be a parameter name, path name or SKIP)
           const identToken = expect('IDENTIFIER') as { type: 'IDENTIFIER'; value: string };
           const ident = identToken.value;
+          const next = peek();
 
           // Check if this is a parameter assignment (identifier=value)
-          if (peek()?.type === 'EQUALS') {
+          if (next?.type === 'EQUALS') {
             consume(); // consume '='
             const valueToken = expect('NUMBER') as { type: 'NUMBER'; value: number };
             if (ident === 'max_dynamic_paths') {
               maxDynamicPaths = valueToken.value;
+            } else if (ident === 'max_dynamic_types') {
+              maxDynamicTypes = valueToken.value;
             }
             // Skip unknown parameters silently
+          } else if (ident.toUpperCase() === 'SKIP' && next?.type === 'IDENTIFIER' && next.value.toUpperCase() === 'REGEXP' && tokens[pos + 1]?.type === 'STRING') {
+            // SKIP REGEXP 'pattern'
+            consume(); // REGEXP
+            skipRegexps.push((consume() as { type: 'STRING'; value: string }).value);
+          } else if (ident.toUpperCase() === 'SKIP' && next?.type === 'IDENTIFIER' && !isTypeStart(pos)) {
+            // SKIP path (a path literally named "SKIP" is followed by its type instead)
+            skipPaths.push((consume() as { type: 'IDENTIFIER'; value: string }).value);
           } else {
             // This is a typed path: path Type
             const pathType = parseTypeExpr();
@@ -235,6 +249,9 @@ export function parseType(typeString: string): ClickHouseType {
           kind: 'JSON',
           typedPaths: typedPaths.size > 0 ? typedPaths : undefined,
           maxDynamicPaths,
+          maxDynamicTypes,
+          skipPaths: skipPaths.length > 0 ? skipPaths : undefined,
+          skipRegexps: skipRegexps.length > 0 ? skipRegexps : undefined,
         };
       }
 
@@ -251,10 +268,24 @@ export function parseType(typeString: string): ClickHouseType {
         return { kind: 'QBit', element, dimension };
       }
 
-      case 'AggregateFunction': {
-        // AggregateFunction(functionName, argType1, argType2, ...)
+      case 'AggregateFunction':
+      case 'SimpleAggregateFunction': {
+        // AggregateFunction(functionName[(param, ...)], argType1, argType2, ...)
         const funcNameToken = expect('IDENTIFIER') as { type: 'IDENTIFIER'; value: string };
         const functionName = funcNameToken.value;
+        const params: (number | string)[] = [];
+        if (peek()?.type === 'LPAREN') {
+          consume(); // LPAREN
+          while (peek()?.type !== 'RPAREN') {
+            if (params.length > 0) expect('COMMA');
+            const param = consume();
+            if (param.type !== 'NUMBER' && param.type !== 'STRING') {
+              throw new Error(`Expected aggregate function parameter, got ${param.type} in type string: ${typeString}`);
+            }
+            params.push(param.value);
+          }
+          expect('RPAREN');
+        }
         const argTypes: ClickHouseType[] = [];
 
         while (peek()?.type === 'COMMA') {
@@ -262,7 +293,23 @@ export function parseType(typeString: string): ClickHouseType {
           argTypes.push(parseTypeExpr());
         }
         expect('RPAREN');
-        return { kind: 'AggregateFunction', functionName, argTypes };
+        return params.length > 0
+          ? { kind: typeName, functionName, params, argTypes }
+          : { kind: typeName, functionName, argTypes };
+      }
+
+      case 'Object': {
+        // Legacy JSON object: Object('json') or Object(Nullable('json'))
+        let nullable = false;
+        if (peek()?.type === 'IDENTIFIER' && (peek() as { value: string }).value === 'Nullable') {
+          consume();
+          expect('LPAREN');
+          nullable = true;
+        }
+        const schema = (expect('STRING') as { type: 'STRING'; value: string }).value;
+        if (nullable) expect('RPAREN');
+        expect('RPAREN');
+        return nullable ? { kind: 'Object', schema, nullable } : { kind: 'Object', schema };
       }
 
       default:
@@ -270,6 +317,12 @@ export function parseType(typeString: string): ClickHouseType {
     }
   }
 
+  /** Whether the token at `index` is a bare type name such as `String` (used to tell `SKIP path` from a path named SKIP). */
+  function isTypeStart(index: number): boolean {
+    const token = tokens[index];
+    return token?.type === 'IDENTIFIER' && (tokens[index + 1]?.type === 'LPAREN' || token.value in simpleTypes);
+  }
+
   function parseTuple(): ClickHouseType {
     const elements: ClickHouseType[] = [];
     const names: string[] = [];
@@ -349,14 +402,20 @@ export function parseType(typeString: string): ClickHouseType {
     return { kind: 'Tuple', elements, names: hasNames ? names : undefined };
   }
 
-  function parseEnum(enumKind: 'Enum8' | 'Enum16'): ClickHouseType {
+  function parseEnum(enumKind: 'Enum' | 'Enum8' | 'Enum16'): ClickHouseType {
     const values = new Map<number, string>();
+    // Elements without an explicit value continue from the previous one, starting at 1
+    let nextValue = 1;
 
     while (peek()?.type !== 'RPAREN') {
       const name = (expect('STRING') as { type: 'STRING'; value: string }).value;
-      expect('EQUALS');
-      const value = (expect('NUMBER') as { type: 'NUMBER'; value: number }).value;
+      let value = nextValue;
+      if (peek()?.type === 'EQUALS') {
+        consume();
+        value = (expect('NUMBER') as { type: 'NUMBER'; value: number }).value;
+      }
       values.set(value, name);
+      nextValue = value + 1;
 
       if (peek()?.type === 'COMMA') {
         consume();
@@ -364,6 +423,11 @@ export function parseType(typeString: string): ClickHouseType {
     }
     consume(); // RPAREN
 
+    if (enumKind === 'Enum') {
+      // Plain Enum takes the narrowest width that holds every value
+      const fitsInt8 = [...values.keys()].every((v) => v >= -128 && v <= 127);
+      return { kind: fitsInt8 ? 'Enum8' : 'Enum16', values };
+    }
     return { kind: enumKind, values };
   }
 
@@ -0,0 +1,98 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { decodeChprotoDump } from './decoder/protocol-dump';
+import { ProtocolDecoder } from './decoder/protocol-decoder';
+import { encodeProtocolScript } from './encoder/protocol-encoder';
+import { ProtocolScript, ScriptPacket } from './encoder/protocol-script';
+import { checkConformance } from './protocol-conformance';
+
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'decoder', 'fixtures', 'protocol');
+
+const HANDSHAKE: ScriptPacket[] = [
+  { dir: 'client', type: 'ClientHello', protocol_version: 54483 },
+  { dir: 'server', type: 'ServerHello', version_major: 26, version_minor: 2, protocol_version: 54483 },
+  { dir: 'client', type: 'Addendum' },
+];
+
+function check(packets: ScriptPacket[]) {
+  const script: ProtocolScript = { packets: [...HANDSHAKE, ...packets] };
+  return checkConformance(ProtocolDecoder.fromCapture(encodeProtocolScript(script)).decode());
+}
+
+const codes = (report: ReturnType<typeof check>) => report.findings.map((f) => f.code);
+
+describe('checkConformance', () => {
+  it('finds nothing wrong with the captured fixtures', () => {
+    for (const name of readdirSync(FIXTURE_DIR).filter((f) => f.endsWith('.chproto'))) {
+      const { parsed } = decodeChprotoDump(readFileSync(path.join(FIXTURE_DIR, name)));
+      expect({ name, findings: checkConformance(parsed).findings }).toEqual({ name, findings: [] });
+    }
+  });
+
+  it('flags a query whose first Data block is not empty, and one never ended', () => {
+    const report = check([
+      { dir: 'client', type: 'Query', query_id: 'q-1', query_body: 'SELECT 1' },
+      { dir: 'client', type: 'Data', block: { rows: 1, columns: [{ name: 'x', type: 'UInt8', data: '01' }] } },
+      { dir: 'server', type: 'Progress', rows: 1, bytes: 1, total_rows: 1 },
+    ]);
+    expect(codes(report)).toEqual(['query.empty-block-first', 'query.end-of-stream']);
+    expect(report.findings[0].message).toBe('query 0 (q-1) must be followed by an empty Data block; got a block of 1 row(s) × 1 column(s)');
+    expect(report.errors).toBe(2);
+    expect(report.rules.find((r) => r.id === 'query.end-of-stream')?.findings).toBe(1);
+  });
+
+  it('lets external tables come before the empty block', () => {
+    const report = check([
+      { dir: 'client', type: 'Query', query_body: 'SELECT * FROM ext' },
+      { dir: 'client', type: 'Data', table_name: 'ext', block: { rows: 1, columns: [{ name: 'x', type: 'UInt8', data: '01' }] } },
+      { dir: 'client', type: 'Data' },
+      { dir: 'server', type: 'EndOfStream' },
+    ]);
+    expect(report.findings).toEqual([]);
+  });
+
+  it('flags client packets after Cancel and unanswered server packets', () => {
+    const report = check([
+      { dir: 'client', type: 'Query', query_body: 'SELECT 1' },
+      { dir: 'client', type: 'Data' },
+      { dir: 'client', type: 'Cancel' },
+      { dir: 'client', type: 'Data' },
+      { dir: 'server', type: 'EndOfStream' },
+      { dir: 'server', type: 'Progress', rows: 0, bytes: 0, total_rows: 0 },
+      { dir: 'server', type: 'Pong' },
+    ]);
+    expect(report.findings.map(({ severity, code }) => `${severity} ${code}`)).toEqual([
+      'error cancel.client-silent',
+      'error server.unsolicited',
+      'warning ping.pong',
+    ]);
+    expect(report.findings[0].nodeId).toBeDefined();
+  });
+
+  it('flags an Addendum sent below its protocol version', () => {
+    const hello = encodeProtocolScript({ packets: [{ dir: 'client', type: 'ClientHello', protocol_version: 54450 }] });
+    const capture = encodeProtocolScript({
+      packets: [
+        { dir: 'client', type: 'ClientHello', protocol_version: 54450 },
+        { dir: 'server', type: 'ServerHello', version_major: 24, version_minor: 1, protocol_version: 54450 },
+        { dir: 'client', type: 'Query', query_body: 'SELECT 1' },
+        { dir: 'client', type: 'Data' },
+        { dir: 'server', type: 'EndOfStream' },
+      ],
+    });
+    // An empty quota_key, as a client that ignores the negotiated version writes it
+    const c2s = new Uint8Array([...hello.c2s, 0, ...capture.c2s.subarray(hello.c2s.length)]);
+    const report = checkConformance(ProtocolDecoder.fromCapture({ ...capture, c2s }).decode());
+    expect(codes(report)).toContain('handshake.addendum');
+  });
+
+  it('runs only the rules asked for', () => {
+    const parsed = ProtocolDecoder.fromCapture(
+      encodeProtocolScript({ packets: [...HANDSHAKE, { dir: 'client', type: 'Query', query_body: 'SELECT 1' }] }),
+    ).decode();
+    expect(checkConformance(parsed, ['handshake.addendum']).rules.map((r) => r.id)).toEqual(['handshake.addendum']);
+    expect(() => checkConformance(parsed, ['no.such-rule'])).toThrow('unknown rule no.such-rule');
+  });
+});
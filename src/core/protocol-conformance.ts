@@ -0,0 +1,245 @@
+import { exchangesOf, ProtocolExchange } from './decoder/protocol-exchanges';
+import { AstNode, Diagnostic, ParsedData } from './types/ast';
+import { NATIVE_PROTOCOL_FEATURES as F } from './types/native-protocol';
+
+/** What a rule sees of a decoded capture */
+export interface ConformanceContext {
+  negotiatedVersion: number;
+  clientPackets: AstNode[];
+  serverPackets: AstNode[];
+  exchanges: ProtocolExchange[];
+  /** Every packet by id */
+  packets: Map<string, AstNode>;
+}
+
+/** One check of the native protocol spec; reports each violation it finds */
+export interface ConformanceRule {
+  /** Stable dotted identifier, used as the code of its findings */
+  id: string;
+  description: string;
+  check(ctx: ConformanceContext, report: (finding: RuleFinding) => void): void;
+}
+
+/** A finding as a rule reports it; the rule id becomes its code */
+export interface RuleFinding {
+  severity?: Diagnostic['severity'];
+  message: string;
+  node?: AstNode;
+}
+
+export interface ConformanceReport {
+  negotiatedVersion: number;
+  rules: { id: string; description: string; findings: number }[];
+  findings: Diagnostic[];
+  errors: number;
+  warnings: number;
+}
+
+function childValue(node: AstNode, label: string): unknown {
+  return node.children?.find((child) => child.label === label)?.value;
+}
+
+/** The first Native block in a packet (under its frames when compressed) */
+function blockOf(node: AstNode): { rows: number; columns: number } | null {
+  if (node.type === 'Native.Block') return node.value as { rows: number; columns: number };
+  for (const child of node.children ?? []) {
+    const block = blockOf(child);
+    if (block) return block;
+  }
+  return null;
+}
+
+function describeQuery(exchange: ProtocolExchange): string {
+  return exchange.queryId ? `query ${exchange.index} (${exchange.queryId})` : `query ${exchange.index}`;
+}
+
+/** Server packets that belong to the connection rather than to a query */
+const CONNECTION_PACKETS = new Set(['ServerHello', 'Pong']);
+
+/** The checks `checkConformance` runs, in order */
+export const CONFORMANCE_RULES: ConformanceRule[] = [
+  {
+    id: 'packet.decode-error',
+    description: 'Every packet decodes as the negotiated protocol revision lays it out',
+    check(ctx, report) {
+      for (const packet of [...ctx.clientPackets, ...ctx.serverPackets]) {
+        if (packet.type === 'Protocol.DecodeError') {
+          report({ message: `packet did not decode, rest of the stream skipped: ${String(packet.value)}`, node: packet });
+        }
+      }
+    },
+  },
+  {
+    id: 'handshake.hello-first',
+    description: 'The client opens with ClientHello; the server answers with ServerHello or an Exception',
+    check(ctx, report) {
+      const [client] = ctx.clientPackets;
+      const [server] = ctx.serverPackets;
+      if (client && client.label !== 'ClientHello') {
+        report({ message: `client opened with ${client.label}, not ClientHello`, node: client });
+      }
+      if (server && server.label !== 'ServerHello' && server.label !== 'Exception') {
+        report({ message: `server answered the handshake with ${server.label}, not ServerHello`, node: server });
+      }
+    },
+  },
+  {
+    id: 'handshake.addendum',
+    description: `The client sends an Addendum after the handshake exactly when the negotiated version is ≥ ${F.ADDENDUM}`,
+    check(ctx, report) {
+      const [hello, next] = ctx.clientPackets;
+      if (hello?.label !== 'ClientHello' || !next) return;
+      if (ctx.negotiatedVersion >= F.ADDENDUM && next.label !== 'Addendum') {
+        report({
+          message: `negotiated v${ctx.negotiatedVersion} needs an Addendum after the handshake; got ${next.label}`,
+          node: next,
+        });
+      }
+      // An empty quota_key reads as a second ClientHello (packet type 0).
+      if (ctx.negotiatedVersion < F.ADDENDUM && (next.label === 'ClientHello' || next.type === 'Protocol.DecodeError')) {
+        report({
+          message: `bytes after the handshake do not start a packet; an Addendum is only sent from v${F.ADDENDUM}, negotiated v${ctx.negotiatedVersion}`,
+          node: next,
+        });
+      }
+    },
+  },
+  {
+    id: 'query.settings-terminator',
+    description: 'Query settings and parameters lists end with an empty name',
+    check(ctx, report) {
+      for (const exchange of ctx.exchanges) {
+        const query = ctx.packets.get(exchange.queryNodeId)!;
+        for (const list of query.children ?? []) {
+          if (list.label !== 'settings' && list.label !== 'parameters') continue;
+          const last = list.children?.[list.children.length - 1];
+          if (last?.label !== 'terminator') {
+            report({ message: `${list.label} of ${describeQuery(exchange)} are not terminated`, node: list });
+          }
+        }
+      }
+    },
+  },
+  {
+    id: 'query.empty-block-first',
+    description: 'After a Query (and any external tables) the client sends an empty Data block',
+    check(ctx, report) {
+      for (const exchange of ctx.exchanges) {
+        const data = exchange.clientPacketIds
+          .slice(1)
+          .map((id) => ctx.packets.get(id)!)
+          // External tables come first, each under its own name.
+          .find((packet) => packet.label !== 'Data' || !childValue(packet, 'table_name'));
+        const query = ctx.packets.get(exchange.queryNodeId)!;
+        if (!data) {
+          if (exchange.status !== 'incomplete') {
+            report({ message: `${describeQuery(exchange)} was not followed by the empty Data block`, node: query });
+          }
+          continue;
+        }
+        const block = data.label === 'Data' ? blockOf(data) : null;
+        if (!block || block.rows !== 0 || block.columns !== 0) {
+          const got = block ? `a block of ${block.rows} row(s) × ${block.columns} column(s)` : data.label;
+          report({ message: `${describeQuery(exchange)} must be followed by an empty Data block; got ${got}`, node: data });
+        }
+      }
+    },
+  },
+  {
+    id: 'cancel.client-silent',
+    description: 'The client sends nothing more for a query after its Cancel',
+    check(ctx, report) {
+      for (const exchange of ctx.exchanges) {
+        const packets = exchange.clientPacketIds.map((id) => ctx.packets.get(id)!);
+        const cancel = packets.findIndex((packet) => packet.label === 'Cancel');
+        if (cancel < 0) continue;
+        for (const packet of packets.slice(cancel + 1)) {
+          report({ message: `client sent ${packet.label} after cancelling ${describeQuery(exchange)}`, node: packet });
+        }
+      }
+    },
+  },
+  {
+    id: 'query.end-of-stream',
+    description: 'The server ends every query with EndOfStream or an Exception',
+    check(ctx, report) {
+      for (const exchange of ctx.exchanges) {
+        if (exchange.status !== 'incomplete') continue;
+        report({
+          message: `${describeQuery(exchange)} got no EndOfStream or Exception before the capture ended`,
+          node: ctx.packets.get(exchange.queryNodeId),
+        });
+      }
+    },
+  },
+  {
+    id: 'server.unsolicited',
+    description: 'Every server packet other than ServerHello and Pong answers a query',
+    check(ctx, report) {
+      ctx.serverPackets.forEach((packet, i) => {
+        if (packet.type === 'Protocol.DecodeError' || CONNECTION_PACKETS.has(packet.label ?? '')) return;
+        if (packet.metadata?.exchange !== undefined) return;
+        // The server refuses a handshake with an Exception in place of ServerHello.
+        if (i === 0 && packet.label === 'Exception') return;
+        report({ message: `server sent ${packet.label} with no query to answer`, node: packet });
+      });
+    },
+  },
+  {
+    id: 'ping.pong',
+    description: 'The server sends a Pong only in answer to a Ping',
+    check(ctx, report) {
+      const pings = ctx.clientPackets.filter((packet) => packet.label === 'Ping').length;
+      const pongs = ctx.serverPackets.filter((packet) => packet.label === 'Pong');
+      for (const pong of pongs.slice(pings)) {
+        report({ severity: 'warning', message: `server sent ${pongs.length} Pong(s) for ${pings} Ping(s)`, node: pong });
+      }
+    },
+  },
+];
+
+/**
+ * Check a decoded native-protocol capture against the protocol spec: run each
+ * rule over its packets and exchanges and collect what they report. Findings
+ * are errors unless a rule says otherwise; any error means the capture
+ * violates the spec. `rules` narrows the check to rule ids.
+ */
+export function checkConformance(parsed: ParsedData, rules: string[] = []): ConformanceReport {
+  const [client, server] = parsed.trailingNodes ?? [];
+  const ctx: ConformanceContext = {
+    negotiatedVersion: Number(parsed.metadata?.negotiatedVersion ?? 0),
+    clientPackets: client?.children ?? [],
+    serverPackets: server?.children ?? [],
+    exchanges: exchangesOf(parsed),
+    packets: new Map(),
+  };
+  for (const packet of [...ctx.clientPackets, ...ctx.serverPackets]) ctx.packets.set(packet.id, packet);
+
+  const unknown = rules.filter((id) => !CONFORMANCE_RULES.some((rule) => rule.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Conformance: unknown rule ${unknown.join(', ')}; expected one of ${CONFORMANCE_RULES.map((r) => r.id).join(', ')}`);
+  }
+  const selected = rules.length > 0 ? CONFORMANCE_RULES.filter((rule) => rules.includes(rule.id)) : CONFORMANCE_RULES;
+
+  const findings: Diagnostic[] = [];
+  const summary = selected.map((rule) => {
+    const before = findings.length;
+    rule.check(ctx, ({ severity = 'error', message, node }) =>
+      findings.push({
+        severity,
+        code: rule.id,
+        message,
+        ...(node ? { nodeId: node.id, byteRange: node.byteRange } : {}),
+      }),
+    );
+    return { id: rule.id, description: rule.description, findings: findings.length - before };
+  });
+  const errors = findings.filter((finding) => finding.severity === 'error').length;
+  return {
+    negotiatedVersion: ctx.negotiatedVersion,
+    rules: summary,
+    findings,
+    errors,
+    warnings: findings.length - errors,
+  };
+}
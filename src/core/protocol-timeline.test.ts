@@ -0,0 +1,66 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { decodeChprotoDump, encodeChprotoDump, parseChprotoDump } from './decoder/protocol-dump';
+import { buildTimeline } from './protocol-timeline';
+
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'decoder', 'fixtures', 'protocol');
+
+/** A fixture rewritten as CHPROTO2, its segments `step` µs apart */
+function timedFixture(name: string, step = 1000): Uint8Array {
+  const capture = parseChprotoDump(readFileSync(path.join(FIXTURE_DIR, name)));
+  const segments = capture.segments.map((segment, i) => ({
+    dir: segment.dir,
+    data: (segment.dir === 0 ? capture.c2s : capture.s2c).subarray(segment.offset, segment.offset + segment.length),
+    time: i * step,
+  }));
+  return encodeChprotoDump({ meta: capture.meta, segments });
+}
+
+describe('CHPROTO2 dumps', () => {
+  it('round-trip the segment times and decode like the untimed dump', () => {
+    const original = readFileSync(path.join(FIXTURE_DIR, '05-multiblock.chproto'));
+    const dump = timedFixture('05-multiblock.chproto');
+    expect(new TextDecoder().decode(dump.subarray(0, 8))).toBe('CHPROTO2');
+
+    const timed = parseChprotoDump(dump);
+    const untimed = parseChprotoDump(original);
+    expect(timed.c2s).toEqual(untimed.c2s);
+    expect(timed.s2c).toEqual(untimed.s2c);
+    expect(timed.segments.map((s) => s.time)).toEqual(untimed.segments.map((_, i) => i * 1000));
+    expect(untimed.segments.every((s) => s.time === undefined)).toBe(true);
+  });
+});
+
+describe('buildTimeline', () => {
+  it('interleaves client and server packets in the order their segments were seen', () => {
+    const { parsed, c2sLength, segments } = decodeChprotoDump(timedFixture('05-multiblock.chproto'));
+    const timeline = buildTimeline(parsed, segments, c2sLength)!;
+
+    const times = timeline.events.map((e) => e.time);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    expect(timeline.events[0]).toMatchObject({ from: 'client', packet: 'ClientHello', time: 0 });
+    expect(timeline.events.length).toBe(parsed.trailingNodes!.reduce((n, s) => n + s.children!.length, 0));
+    const query = timeline.events.findIndex((e) => e.packet === 'Query');
+    const serverHello = timeline.events.findIndex((e) => e.from === 'server');
+    expect(serverHello).toBeLessThan(query);
+    expect(timeline.duration).toBe((segments.length - 1) * 1000);
+  });
+
+  it('times each query from Query to first Data and EndOfStream', () => {
+    const { parsed, c2sLength, segments } = decodeChprotoDump(timedFixture('05-multiblock.chproto'));
+    const [timing] = buildTimeline(parsed, segments, c2sLength)!.queries;
+    expect(timing.query.packet).toBe('Query');
+    expect(timing.firstData).toBeGreaterThan(0);
+    expect(timing.duration).toBeGreaterThanOrEqual(timing.firstData!);
+    expect(timing.progressIntervals.every((gap) => gap >= 0)).toBe(true);
+  });
+
+  it('is null for a dump without times', () => {
+    const { parsed, c2sLength, segments } = decodeChprotoDump(
+      readFileSync(path.join(FIXTURE_DIR, '05-multiblock.chproto')),
+    );
+    expect(buildTimeline(parsed, segments, c2sLength)).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import { CaptureSegment } from './decoder/protocol-dump';
+import { AstNode, ByteRange, ParsedData } from './types/ast';
+
+/** One packet of the conversation, placed in time */
+export interface TimelineEvent {
+  from: 'client' | 'server';
+  /** Packet name (Query, Data, Progress, ...) */
+  packet: string;
+  nodeId: string;
+  type: string;
+  displayValue: string;
+  byteRange: ByteRange;
+  /** Ids of the nodes above the packet (its stream), to open it in the AST Tree */
+  path: string[];
+  /** Microseconds since the connection was accepted, when the packet's last byte was seen */
+  time: number;
+}
+
+/** How long one query took, as seen on the wire */
+export interface QueryTiming {
+  /** The Query packet's event */
+  query: TimelineEvent;
+  /** From the Query to the server's first Data packet */
+  firstData: number | null;
+  /** Between the query and its first Progress, then between consecutive ones */
+  progressIntervals: number[];
+  /** From the Query to its EndOfStream or Exception */
+  duration: number | null;
+}
+
+/** A capture's packets, client and server interleaved in the order they were seen */
+export interface ProtocolTimeline {
+  events: TimelineEvent[];
+  queries: QueryTiming[];
+  /** From the first segment to the last */
+  duration: number;
+}
+
+/** Segment start offsets in the combined buffer, with their times, per direction */
+interface TimedStream {
+  starts: number[];
+  times: number[];
+}
+
+function timedStream(segments: CaptureSegment[], dir: number, base: number): TimedStream {
+  const stream: TimedStream = { starts: [], times: [] };
+  for (const segment of segments) {
+    if (segment.dir !== dir || segment.length === 0) continue;
+    stream.starts.push(base + segment.offset);
+    stream.times.push(segment.time!);
+  }
+  return stream;
+}
+
+/** When the byte at `offset` was seen: the time of the last segment starting at or before it */
+function timeAt(stream: TimedStream, offset: number): number {
+  let lo = 0;
+  let hi = stream.starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (stream.starts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return stream.times[lo] ?? 0;
+}
+
+function timeQueries(events: TimelineEvent[]): QueryTiming[] {
+  const queries: QueryTiming[] = [];
+  let current: QueryTiming | null = null;
+  let lastProgress = 0;
+  for (const event of events) {
+    if (event.from === 'client') {
+      if (event.packet !== 'Query') continue;
+      current = { query: event, firstData: null, progressIntervals: [], duration: null };
+      lastProgress = event.time;
+      queries.push(current);
+      continue;
+    }
+    if (!current || current.duration !== null) continue;
+    const since = event.time - current.query.time;
+    if (event.packet === 'Data' && current.firstData === null) current.firstData = since;
+    else if (event.packet === 'Progress') {
+      current.progressIntervals.push(event.time - lastProgress);
+      lastProgress = event.time;
+    } else if (event.packet === 'EndOfStream' || event.packet === 'Exception') current.duration = since;
+  }
+  return queries;
+}
+
+/** Whether every segment of a capture has its time (a CHPROTO2 dump) */
+export function isTimed(segments: CaptureSegment[] | undefined): segments is CaptureSegment[] {
+  return !!segments && segments.length > 0 && segments.every((segment) => segment.time !== undefined);
+}
+
+/** `micros` as milliseconds (or seconds from 10 s on) */
+export function formatMicros(micros: number): string {
+  return micros >= 10_000_000 ? `${(micros / 1_000_000).toFixed(2)} s` : `${(micros / 1000).toFixed(3)} ms`;
+}
+
+/**
+ * Order the packets of a decoded capture by when they were seen, from the
+ * segment times of a CHPROTO2 dump, and time each query: Query to first
+ * Data, the gaps between Progress packets and Query to EndOfStream. A packet
+ * counts from the segment carrying its last byte. Null when the capture has
+ * no times (a CHPROTO1 dump, or a capture made without the proxy).
+ */
+export function buildTimeline(
+  parsed: ParsedData,
+  segments: CaptureSegment[],
+  c2sLength: number,
+): ProtocolTimeline | null {
+  if (!isTimed(segments)) return null;
+  const [clientStream, serverStream] = parsed.trailingNodes ?? [];
+  if (!clientStream || !serverStream) return null;
+
+  const placed = (stream: AstNode, from: TimelineEvent['from'], timed: TimedStream): TimelineEvent[] =>
+    (stream.children ?? []).map((packet) => ({
+      from,
+      packet: packet.label ?? packet.type,
+      nodeId: packet.id,
+      type: packet.type,
+      displayValue: packet.displayValue,
+      byteRange: packet.byteRange,
+      path: [stream.id],
+      time: timeAt(timed, Math.max(packet.byteRange.start, packet.byteRange.end - 1)),
+    }));
+
+  const client = placed(clientStream, 'client', timedStream(segments, 0, 0));
+  const server = placed(serverStream, 'server', timedStream(segments, 1, c2sLength));
+  // Merge the two streams, each already in time order; on a tie the client goes first.
+  const events: TimelineEvent[] = [];
+  let c = 0;
+  let s = 0;
+  while (c < client.length || s < server.length) {
+    if (s >= server.length || (c < client.length && client[c].time <= server[s].time)) events.push(client[c++]);
+    else events.push(server[s++]);
+  }
+
+  let first = Infinity;
+  let last = -Infinity;
+  for (const segment of segments) {
+    first = Math.min(first, segment.time!);
+    last = Math.max(last, segment.time!);
+  }
+  return { events, queries: timeQueries(events), duration: last - first };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { createDecoder } from './decoder';
+import { materializeBlock } from './decoder/stream-decoder';
+import { NativeEncoder } from './encoder/native-encoder';
+import { RowBinaryEncoder } from './encoder/rowbinary-encoder';
+import { parseSearch, searchParsed } from './search';
+import { flattenTree } from './tree-lines';
+import { BlockNode } from './types/ast';
+import { ClickHouseFormat } from './types/formats';
+
+const rowBinary = createDecoder(
+  new RowBinaryEncoder().encode(
+    [
+      { name: 'user_id', type: 'UInt32' },
+      { name: 'name', type: 'Nullable(String)' },
+    ],
+    [
+      [7, 'Ann'],
+      [42, null],
+      [420, 'Bob'],
+    ],
+  ),
+  ClickHouseFormat.RowBinaryWithNamesAndTypes,
+).decode();
+
+const NATIVE = new NativeEncoder().encode([
+  [
+    { name: 'id', type: 'UInt8', values: [1, 42] },
+    { name: 'tags', type: 'Array(String)', values: [['x'], ['forty-two']] },
+    { name: 'n', type: 'Nullable(UInt8)', values: [null, 5] },
+  ],
+]);
+
+const find = (expr: string, parsed = rowBinary) => searchParsed(parsed, parseSearch(expr)).matches;
+
+describe('parseSearch', () => {
+  it('rejects an empty expression and unterminated quotes and regexes', () => {
+    expect(() => parseSearch('  ')).toThrow('empty expression');
+    expect(() => parseSearch('"abc')).toThrow('unterminated quote');
+    expect(() => parseSearch('value:/ab')).toThrow('unterminated regex');
+    expect(() => parseSearch('/(/')).toThrow('Search:');
+  });
+});
+
+describe('searchParsed', () => {
+  it('finds a column value by exact match, with its row in the path', () => {
+    const [hit, ...rest] = find('column=user_id value=42');
+    expect(rest).toEqual([]);
+    expect(hit).toMatchObject({ label: 'user_id', column: 'user_id', displayValue: '42', path: ['row-1'] });
+    expect(hit.byteRange.end - hit.byteRange.start).toBe(4);
+    // A bare term is a case-insensitive substring of any field.
+    expect(find('42').map((m) => m.displayValue)).toEqual(['42', '420']);
+  });
+
+  it('filters by type, metadata and regex', () => {
+    expect(find('type:Nullable value=NULL').map((m) => m.path)).toEqual([['row-1']]);
+    const native = createDecoder(NATIVE, ClickHouseFormat.Native).decode();
+    expect(find('meta:isNull=true', native).map((m) => [m.column, m.label])).toEqual([['n', '[0]']]);
+    expect(find('type=String value:/^"[A-Z][a-z]+"$/').map((m) => m.displayValue)).toEqual(['"Ann"', '"Bob"']);
+    expect(find('type=String column=name').map((m) => m.nodeId)).toContain('rowbinary-header-col-1-name');
+  });
+
+  it('gives paths that open the tree down to the match', () => {
+    const parsed = createDecoder(NATIVE, ClickHouseFormat.Native).decode();
+    const [hit] = find('value:forty', parsed);
+    expect(hit).toMatchObject({ column: 'tags', block: 0 });
+    const lines = flattenTree(parsed, { depth: 0, expanded: new Set(hit.path), collapsed: new Set() });
+    expect(lines.map((l) => l.id)).toContain(hit.nodeId);
+  });
+
+  it('searches deferred blocks through materialize and stops at the limit', () => {
+    const parsed = createDecoder(NATIVE, ClickHouseFormat.Native).decode();
+    const deferred = {
+      ...parsed,
+      blocks: parsed.blocks!.map((b) => ({ ...b, columns: b.columns.map((c) => ({ ...c, values: [] })), deferred: { firstNodeId: 0 } })),
+    };
+    expect(find('value=42', deferred)).toEqual([]);
+    const materialize = (block: BlockNode) => materializeBlock(NATIVE, block, 0);
+    expect(searchParsed(deferred, parseSearch('value=42'), { materialize }).matches).toEqual(find('value=42', parsed));
+
+    const limited = searchParsed(parsed, parseSearch('type:UInt'), { limit: 2 });
+    expect(limited.matches).toHaveLength(2);
+    expect(limited.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,281 @@
+import { AstNode, BlockNode, ByteRange, ParsedData } from './types/ast';
+
+/** What a search term looks at; `column` is the column a node was decoded for. */
+export type SearchField = 'value' | 'label' | 'type' | 'meta' | 'column';
+
+const FIELDS: SearchField[] = ['value', 'label', 'type', 'meta', 'column'];
+/** Fields a term without a `field:` prefix looks at */
+const ANY_FIELD: SearchField[] = ['value', 'label', 'type', 'meta'];
+
+export interface SearchTerm {
+  fields: SearchField[];
+  test: (text: string) => boolean;
+}
+
+export interface SearchMatch {
+  nodeId: string;
+  type: string;
+  /** The node's label, or the column name for a row's top-level value */
+  label?: string;
+  column?: string;
+  displayValue: string;
+  byteRange: ByteRange;
+  /** Ids of the AST tree lines above the node, outermost first; opening them shows it */
+  path: string[];
+  /** Index of the Native block the node is in */
+  block?: number;
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  /** More nodes matched than `limit` */
+  truncated: boolean;
+}
+
+export interface SearchOptions extends Pick<WalkOptions, 'materialize'> {
+  /** Stop after this many matches */
+  limit?: number;
+}
+
+function readRegex(expr: string, start: number): { source: string; flags: string; end: number } {
+  let i = start + 1;
+  while (i < expr.length && expr[i] !== '/') i += expr[i] === '\\' ? 2 : 1;
+  if (i >= expr.length) throw new Error(`Search: unterminated regex at ${start}`);
+  const flags = /^[a-z]*/.exec(expr.slice(i + 1))![0];
+  return { source: expr.slice(start + 1, i), flags, end: i + 1 + flags.length };
+}
+
+function compileRegex(source: string, flags: string): RegExp {
+  try {
+    return new RegExp(source, flags.replace('g', ''));
+  } catch (err) {
+    throw new Error(`Search: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Parse a search expression: terms separated by spaces, all of which one node
+ * must match.
+ *
+ * - `42` / `"two words"`: the value, label, type or metadata contains the
+ *   text, ignoring case
+ * - `/^0x[0-9a-f]+$/i`: one of those matches the regex
+ * - `field:text`, `field:/regex/`: only that field (value, label, type, meta, column)
+ * - `field=text`: the field is exactly the text
+ *
+ * `meta` is each metadata entry as `key=value`, so `meta:isNull=true` finds
+ * the null markers of a Native Nullable column; `column=user_id value=42`
+ * finds a column's value.
+ */
+export function parseSearch(expr: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  let i = 0;
+  while (i < expr.length) {
+    if (/\s/.test(expr[i])) {
+      i++;
+      continue;
+    }
+    const prefix = /^(\w+)([:=])/.exec(expr.slice(i));
+    let fields = ANY_FIELD;
+    let exact = false;
+    if (prefix && FIELDS.includes(prefix[1] as SearchField)) {
+      fields = [prefix[1] as SearchField];
+      exact = prefix[2] === '=';
+      i += prefix[0].length;
+    }
+
+    let test: (text: string) => boolean;
+    if (expr[i] === '/') {
+      const { source, flags, end } = readRegex(expr, i);
+      const regex = compileRegex(source, flags);
+      test = (text) => regex.test(text);
+      i = end;
+    } else {
+      let text: string;
+      if (expr[i] === '"') {
+        const close = expr.indexOf('"', i + 1);
+        if (close < 0) throw new Error(`Search: unterminated quote at ${i}`);
+        text = expr.slice(i + 1, close);
+        i = close + 1;
+      } else {
+        const end = expr.slice(i).search(/\s/);
+        text = end < 0 ? expr.slice(i) : expr.slice(i, i + end);
+        i += text.length;
+      }
+      const lower = text.toLowerCase();
+      test = exact ? (value) => value === text : (value) => value.toLowerCase().includes(lower);
+    }
+    terms.push({ fields, test });
+  }
+  if (terms.length === 0) throw new Error('Search: empty expression');
+  return terms;
+}
+
+function metaText(value: unknown): string {
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+  }
+  return String(value);
+}
+
+function fieldTexts(field: SearchField, node: AstNode, label: string | undefined, column: string | undefined): string[] {
+  switch (field) {
+    case 'value':
+      return [node.displayValue];
+    case 'label':
+      return label === undefined ? [] : [label];
+    case 'type':
+      return [node.type];
+    case 'meta':
+      return Object.entries(node.metadata ?? {}).map(([key, value]) => `${key}=${metaText(value)}`);
+    case 'column':
+      return column === undefined ? [] : [column];
+  }
+}
+
+/** Where a node sits in the AST tree */
+export interface NodePlace {
+  /** The node's label, or the column name for a row's top-level value */
+  label?: string;
+  column?: string;
+  /** Ids of the AST tree lines above the node, outermost first */
+  path: string[];
+  block?: number;
+}
+
+export interface WalkOptions {
+  /** Decode the values of a block streamed without them; such blocks are skipped otherwise */
+  materialize?: (block: BlockNode) => BlockNode;
+  /** Whether to look at the nodes in a byte range (a row, a block, a node and its children) */
+  enter?: (range: ByteRange) => boolean;
+}
+
+/**
+ * Call `visit` for every node of a parse in tree order, until it returns
+ * false. The RowBinary header's column count, names and types are visited as
+ * nodes under the ids the AST Tree gives them.
+ */
+export function walkParse(
+  parsed: ParsedData,
+  visit: (node: AstNode, place: NodePlace) => boolean,
+  options: WalkOptions = {},
+): void {
+  const enter = options.enter ?? (() => true);
+
+  function walk(node: AstNode, place: NodePlace): boolean {
+    if (!enter(node.byteRange)) return true;
+    const label = node.label ?? place.label;
+    if (!visit(node, { ...place, label })) return false;
+    if (!node.children) return true;
+    const childPlace = { path: [...place.path, node.id], column: place.column, block: place.block };
+    return node.children.every((child) => walk(child, childPlace));
+  }
+
+  function walkHeader(): boolean {
+    const header = parsed.header;
+    if (!enter(header.byteRange)) return true;
+    const countNode: AstNode = {
+      id: 'rowbinary-header-colcount',
+      type: 'LEB128',
+      byteRange: header.columnCountRange,
+      value: header.columnCount,
+      displayValue: String(header.columnCount),
+      label: 'columnCount',
+    };
+    if (!walk(countNode, { path: ['rowbinary-header'] })) return false;
+    return header.columns.every((col, i) => {
+      const id = `rowbinary-header-col-${i}`;
+      const place = { path: ['rowbinary-header', id], column: col.name };
+      const nameNode: AstNode = {
+        id: `${id}-name`,
+        type: 'String',
+        byteRange: col.nameByteRange,
+        value: col.name,
+        displayValue: col.name,
+        label: 'name',
+      };
+      const typeNode: AstNode = {
+        id: `${id}-type`,
+        type: 'String',
+        byteRange: col.typeByteRange,
+        value: col.typeString,
+        displayValue: col.typeString,
+        label: 'type',
+      };
+      return walk(nameNode, place) && walk(typeNode, place);
+    });
+  }
+
+  function walkBlock(stored: BlockNode, index: number): boolean {
+    if (!enter(stored.byteRange)) return true;
+    const block = stored.deferred && options.materialize ? options.materialize(stored) : stored;
+    const blockId = `block-${index}`;
+    if (!walk(block.header.astNode, { path: [blockId], block: index })) return false;
+    return block.columns.every((col) => {
+      const place = { path: [blockId, col.id], column: col.name, block: index };
+      return (
+        walk(col.metadataNode, place) &&
+        col.dataPrefixNodes.every((node) => walk(node, place)) &&
+        col.values.every((node) => walk(node, place))
+      );
+    });
+  }
+
+  function walkAll(): boolean {
+    if (parsed.rows) {
+      if (!walkHeader()) return false;
+      const rowsDone = parsed.rows.every(
+        (row, i) =>
+          !enter(row.byteRange) ||
+          row.values.every((node, j) => {
+            const column = parsed.header.columns[j]?.name;
+            return walk(node, { path: [`row-${i}`], label: column, column });
+          }),
+      );
+      if (!rowsDone) return false;
+    }
+    if (!(parsed.blocks ?? []).every(walkBlock)) return false;
+    return (parsed.trailingNodes ?? []).every((node) => walk(node, { path: [] }));
+  }
+
+  walkAll();
+}
+
+/** A node and its place, as listed in search results */
+export function matchOf(node: AstNode, place: NodePlace): SearchMatch {
+  return {
+    nodeId: node.id,
+    type: node.type,
+    label: place.label,
+    column: place.column,
+    displayValue: node.displayValue,
+    byteRange: node.byteRange,
+    path: place.path,
+    block: place.block,
+  };
+}
+
+/** Every node of a parse that matches all `terms`, in tree order. */
+export function searchParsed(parsed: ParsedData, terms: SearchTerm[], options: SearchOptions = {}): SearchResult {
+  const limit = options.limit ?? Infinity;
+  const matches: SearchMatch[] = [];
+  let truncated = false;
+
+  walkParse(
+    parsed,
+    (node, place) => {
+      const hit = terms.every((term) =>
+        term.fields.some((field) => fieldTexts(field, node, place.label, place.column).some(term.test)),
+      );
+      if (!hit) return true;
+      if (matches.length >= limit) {
+        truncated = true;
+        return false;
+      }
+      matches.push(matchOf(node, place));
+      return true;
+    },
+    { materialize: options.materialize },
+  );
+  return { matches, truncated };
+}
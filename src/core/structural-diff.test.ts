@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { diffParsed, type DiffInput } from './structural-diff';
+import { createDecoder } from './decoder';
+import { NativeEncoder } from './encoder/native-encoder';
+import { RowBinaryEncoder } from './encoder/rowbinary-encoder';
+import { ClickHouseFormat } from './types/formats';
+
+function rowBinary(rows: unknown[][]): DiffInput {
+  const columns = [
+    { name: 'id', type: 'UInt64' },
+    { name: 'tags', type: 'Array(String)' },
+  ];
+  const data = new RowBinaryEncoder().encode(columns, rows);
+  return { data, parsed: createDecoder(data, ClickHouseFormat.RowBinaryWithNamesAndTypes).decode() };
+}
+
+const changes = (input: ReturnType<typeof diffParsed>) =>
+  input.entries.filter((e) => e.status !== 'unchanged').map((e) => [e.status, e.path, e.a?.value, e.b?.value]);
+
+describe('diffParsed', () => {
+  it('reports nothing but unchanged nodes for identical input', () => {
+    const a = rowBinary([[1n, ['x']]]);
+    const diff = diffParsed(a, rowBinary([[1n, ['x']]]));
+    expect(diff.summary).toEqual({ added: 0, removed: 0, changed: 0, unchanged: diff.entries.length });
+  });
+
+  it('aligns rows and labelled values by path', () => {
+    const diff = diffParsed(rowBinary([[1n, ['a', 'b']], [2n, []]]), rowBinary([[1n, ['a', 'c', 'd']], [3n, []], [4n, []]]));
+    expect(changes(diff)).toEqual([
+      ['changed', 'row[0]/tags/length', '2', '3'],
+      ['changed', 'row[0]/tags/[1]', '"b"', '"c"'],
+      ['added', 'row[0]/tags/[2]', undefined, '"d"'],
+      ['changed', 'row[1]/id', '2', '3'],
+      ['added', 'row[2]/id', undefined, '4'],
+      ['added', 'row[2]/tags', undefined, '[0 elements]'],
+      ['added', 'row[2]/tags/length', undefined, '0'],
+    ]);
+    // Each side's range points into its own buffer.
+    const id = diff.entries.find((e) => e.path === 'row[1]/id')!;
+    expect(id.b!.byteRange.start - id.a!.byteRange.start).toBe(2);
+  });
+
+  it('lists nodes only in the first input as removed and header type changes as changed', () => {
+    const a = rowBinary([[1n, []], [2n, []]]);
+    const data = new RowBinaryEncoder().encode([{ name: 'id', type: 'UInt32' }, { name: 'tags', type: 'Array(String)' }], [[1, []]]);
+    const b = { data, parsed: createDecoder(data, ClickHouseFormat.RowBinaryWithNamesAndTypes).decode() };
+    const diff = diffParsed(a, b);
+    expect(changes(diff)).toEqual([
+      ['changed', 'header/column[id]', 'id: UInt64', 'id: UInt32'],
+      ['changed', 'header/column[id]/type', '"UInt64"', '"UInt32"'],
+      ['changed', 'row[0]/id', '1', '1'],
+      ['removed', 'row[1]/id', '2', undefined],
+      ['removed', 'row[1]/tags', '[0 elements]', undefined],
+      ['removed', 'row[1]/tags/length', '0', undefined],
+    ]);
+  });
+
+  it('names Native blocks and columns in paths', () => {
+    const native = (values: number[]): DiffInput => {
+      const data = new NativeEncoder().encode([[{ name: 'n', type: 'UInt8', values }]]);
+      return { data, parsed: createDecoder(data, ClickHouseFormat.Native).decode() };
+    };
+    const diff = diffParsed(native([1, 2]), native([1, 5]));
+    expect(changes(diff)).toEqual([['changed', 'block[0]/column[n]/[1]', '2', '5']]);
+  });
+});
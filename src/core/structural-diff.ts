@@ -0,0 +1,182 @@
+import { AstNode, ByteRange, ParsedData } from './types/ast';
+
+/** A decoded buffer: the bytes and the tree whose byteRanges index into them. */
+export interface DiffInput {
+  data: Uint8Array;
+  parsed: ParsedData;
+}
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/** One side of an aligned node. */
+export interface DiffSide {
+  nodeId: string;
+  type: string;
+  value: string;
+  byteRange: ByteRange;
+}
+
+export interface DiffEntry {
+  /** Label path, e.g. `block[0]/column[id]/[3]` or `row[1]/tags/[0]`. */
+  path: string;
+  depth: number;
+  status: DiffStatus;
+  a?: DiffSide;
+  b?: DiffSide;
+}
+
+export interface StructuralDiff {
+  summary: Record<DiffStatus, number>;
+  entries: DiffEntry[];
+}
+
+interface PathEntry {
+  path: string;
+  depth: number;
+  side: DiffSide;
+  leaf: boolean;
+}
+
+function side(node: AstNode): DiffSide {
+  return { nodeId: node.id, type: node.type, value: node.displayValue, byteRange: node.byteRange };
+}
+
+/** Segment names for siblings: their labels (or `[i]`), repeats numbered `#2`, `#3`, ... */
+function segments(labels: (string | undefined)[]): string[] {
+  const seen = new Map<string, number>();
+  return labels.map((label, i) => {
+    const base = label ?? `[${i}]`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}#${count}`;
+  });
+}
+
+/**
+ * Every node of a parse in document order under its label path. Paths name
+ * blocks, columns and rows by index or name and nested values by their
+ * labels, so the same slot gets the same path in two decodes of related data.
+ */
+function flatten(parsed: ParsedData): PathEntry[] {
+  const out: PathEntry[] = [];
+
+  function visit(node: AstNode, path: string, depth: number) {
+    const children = node.children ?? [];
+    out.push({ path, depth, side: side(node), leaf: children.length === 0 });
+    const names = segments(children.map((c) => c.label));
+    children.forEach((child, i) => visit(child, `${path}/${names[i]}`, depth + 1));
+  }
+
+  if (parsed.rows) {
+    const columnNames = segments(parsed.header.columns.map((c) => c.name));
+    // Header entries reuse the Hex View's synthetic ids for the header rows.
+    parsed.header.columns.forEach((col, i) => {
+      const path = `header/column[${columnNames[i]}]`;
+      const id = `rowbinary-header-col-${i}`;
+      const field = (name: string, value: string, byteRange: ByteRange): PathEntry => ({
+        path: `${path}/${name}`,
+        depth: 2,
+        side: { nodeId: `${id}-${name}`, type: 'String', value: JSON.stringify(value), byteRange },
+        leaf: true,
+      });
+      out.push(
+        {
+          path,
+          depth: 1,
+          side: {
+            nodeId: id,
+            type: col.typeString,
+            value: `${col.name}: ${col.typeString}`,
+            byteRange: { start: col.nameByteRange.start, end: col.typeByteRange.end },
+          },
+          leaf: false,
+        },
+        field('name', col.name, col.nameByteRange),
+        field('type', col.typeString, col.typeByteRange),
+      );
+    });
+    parsed.rows.forEach((row, i) => {
+      row.values.forEach((node, j) => visit(node, `row[${i}]/${columnNames[j] ?? `[${j}]`}`, 1));
+    });
+  }
+
+  parsed.blocks?.forEach((block, i) => {
+    visit(block.header.astNode, `block[${i}]/header`, 1);
+    const columnNames = segments(block.columns.map((c) => c.name));
+    block.columns.forEach((col, j) => {
+      const prefix = `block[${i}]/column[${columnNames[j]}]`;
+      visit(col.metadataNode, `${prefix}/meta`, 2);
+      col.dataPrefixNodes.forEach((node, k) => visit(node, `${prefix}/prefix[${k}]`, 2));
+      const names = segments(col.values.map((v) => v.label));
+      col.values.forEach((node, k) => visit(node, `${prefix}/${names[k]}`, 2));
+    });
+  });
+
+  if (parsed.trailingNodes) {
+    const names = segments(parsed.trailingNodes.map((n) => n.label));
+    parsed.trailingNodes.forEach((node, i) => visit(node, names[i], 0));
+  }
+
+  return out;
+}
+
+function sameBytes(a: DiffInput, ra: ByteRange, b: DiffInput, rb: ByteRange): boolean {
+  if (ra.end - ra.start !== rb.end - rb.start) return false;
+  for (let i = 0; i < ra.end - ra.start; i++) {
+    if (a.data[ra.start + i] !== b.data[rb.start + i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Align two decoded trees by label path and classify every node. A node is
+ * changed when its type differs or, for leaves, when its value or bytes
+ * differ; containers whose contents moved report that through their
+ * children. Entries follow `a`'s order, with nodes only in `b` placed after
+ * the node they follow in `b`.
+ */
+export function diffParsed(a: DiffInput, b: DiffInput): StructuralDiff {
+  const left = flatten(a.parsed);
+  const right = flatten(b.parsed);
+  const leftPaths = new Set(left.map((e) => e.path));
+  const rightByPath = new Map(right.map((e) => [e.path, e]));
+
+  // Nodes only in b, grouped under the last shared path before them.
+  const addedAfter = new Map<string | null, PathEntry[]>();
+  let anchor: string | null = null;
+  for (const entry of right) {
+    if (leftPaths.has(entry.path)) {
+      anchor = entry.path;
+    } else {
+      const group = addedAfter.get(anchor) ?? [];
+      group.push(entry);
+      addedAfter.set(anchor, group);
+    }
+  }
+
+  const entries: DiffEntry[] = [];
+  const summary: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  const push = (entry: DiffEntry) => {
+    summary[entry.status]++;
+    entries.push(entry);
+  };
+  const pushAdded = (key: string | null) => {
+    for (const e of addedAfter.get(key) ?? []) push({ path: e.path, depth: e.depth, status: 'added', b: e.side });
+  };
+
+  pushAdded(null);
+  for (const l of left) {
+    const r = rightByPath.get(l.path);
+    if (!r) {
+      push({ path: l.path, depth: l.depth, status: 'removed', a: l.side });
+      continue;
+    }
+    const changed =
+      l.side.type !== r.side.type ||
+      (l.leaf && r.leaf && (l.side.value !== r.side.value || !sameBytes(a, l.side.byteRange, b, r.side.byteRange)));
+    push({ path: l.path, depth: l.depth, status: changed ? 'changed' : 'unchanged', a: l.side, b: r.side });
+    pushAdded(l.path);
+  }
+
+  return { summary, entries };
+}
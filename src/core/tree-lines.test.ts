@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createDecoder } from './decoder';
+import { NativeEncoder } from './encoder/native-encoder';
+import { RowBinaryEncoder } from './encoder/rowbinary-encoder';
+import { defaultExpandDepth, flattenTree, toggleLine, TreeExpansion } from './tree-lines';
+import { ClickHouseFormat } from './types/formats';
+
+const expandTo = (depth: number): TreeExpansion => ({ depth, expanded: new Set(), collapsed: new Set() });
+
+const rowBinary = createDecoder(
+  new RowBinaryEncoder().encode(
+    [
+      { name: 'id', type: 'UInt8' },
+      { name: 'tags', type: 'Array(String)' },
+    ],
+    [
+      [1, ['a', 'b']],
+      [2, []],
+    ],
+  ),
+  ClickHouseFormat.RowBinaryWithNamesAndTypes,
+).decode();
+
+describe('flattenTree', () => {
+  it('shows rows and their values at the default depth, the header closed', () => {
+    const lines = flattenTree(rowBinary, expandTo(defaultExpandDepth(rowBinary)));
+    expect(lines.map((l) => [l.kind, l.depth, l.parent, l.expanded])).toEqual([
+      ['header', 0, -1, false],
+      ['row', 0, -1, true],
+      ['node', 1, 1, false],
+      ['node', 1, 1, false],
+      ['row', 0, -1, true],
+      ['node', 1, 4, false],
+      ['node', 1, 4, false],
+    ]);
+    expect(lines[3]).toMatchObject({ label: 'tags', expandable: true });
+  });
+
+  it('starts the rows of a large result closed', () => {
+    const large = { ...rowBinary, rows: Array.from({ length: 5000 }, () => rowBinary.rows![0]) };
+    expect(defaultExpandDepth(large)).toBe(0);
+    expect(flattenTree(large, expandTo(defaultExpandDepth(large)))).toHaveLength(5001);
+  });
+
+  it('opens every line above an expand depth', () => {
+    const lines = flattenTree(rowBinary, expandTo(3));
+    expect(lines.filter((l) => l.kind === 'column-name' || l.kind === 'column-type')).toHaveLength(4);
+    // Both tags arrays now show their length and elements.
+    const values = lines.flatMap((l) => (l.depth === 2 && l.kind === 'node' ? [l.node.value] : []));
+    expect(values).toEqual([2, 'a', 'b', 0]);
+    expect(flattenTree(rowBinary, expandTo(0)).map((l) => l.kind)).toEqual(['header', 'row', 'row']);
+  });
+
+  it('records a toggled line only where it differs from the depth default', () => {
+    let expansion = expandTo(1);
+    const row = flattenTree(rowBinary, expansion)[1];
+    expansion = toggleLine(expansion, row);
+    expect([...expansion.collapsed]).toEqual(['row-0']);
+    expect(flattenTree(rowBinary, expansion).map((l) => l.kind)).toEqual(['header', 'row', 'row', 'node', 'node']);
+
+    expansion = toggleLine(expansion, flattenTree(rowBinary, expansion)[1]);
+    expect(expansion.collapsed.size + expansion.expanded.size).toBe(0);
+
+    const tags = flattenTree(rowBinary, expansion)[3];
+    expansion = toggleLine(expansion, tags);
+    expect([...expansion.expanded]).toEqual([tags.id]);
+    expect(flattenTree(rowBinary, expansion)).toHaveLength(10);
+  });
+
+  it('keeps a block with deferred values closed until it is opened explicitly', () => {
+    const parsed = createDecoder(
+      new NativeEncoder().encode([[{ name: 'n', type: 'UInt8', values: [1, 2] }]]),
+      ClickHouseFormat.Native,
+    ).decode();
+    const deferred = { ...parsed, blocks: parsed.blocks!.map((b) => ({ ...b, deferred: { firstNodeId: 0 } })) };
+
+    expect(flattenTree(deferred, expandTo(4))).toHaveLength(1);
+    const lines = flattenTree(deferred, { depth: 4, expanded: new Set(['block-0']), collapsed: new Set() });
+    expect(lines[0].expanded).toBe(true);
+    expect(flattenTree(parsed, expandTo(1)).map((l) => l.kind)).toEqual(['block', 'node', 'column']);
+  });
+});
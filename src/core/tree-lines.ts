@@ -0,0 +1,141 @@
+import { AstNode, BlockColumnNode, BlockNode, ParsedData, RowNode } from './types/ast';
+import { ClickHouseFormat } from './types/formats';
+
+/**
+ * Which lines of the AST tree are open. Every line above `depth` is, so
+ * "expand to depth N" is one number however many nodes there are; the two
+ * sets hold the lines the user opened or closed against that default.
+ */
+export interface TreeExpansion {
+  depth: number;
+  expanded: Set<string>;
+  collapsed: Set<string>;
+}
+
+/** One line of the flattened tree; `parent` is the index of the line it sits under, -1 at the top. */
+export type TreeLine = {
+  id: string;
+  depth: number;
+  parent: number;
+  expandable: boolean;
+  expanded: boolean;
+} & (
+  | { kind: 'header' }
+  | { kind: 'column-count' }
+  | { kind: 'column-def' | 'column-name' | 'column-type'; column: number }
+  | { kind: 'row'; row: RowNode }
+  | { kind: 'block'; block: BlockNode }
+  | { kind: 'column'; block: BlockNode; column: BlockColumnNode }
+  | { kind: 'node'; node: AstNode; label?: string }
+);
+
+/** A line before its open state is known */
+type NewLine = TreeLine extends infer L ? (L extends TreeLine ? Omit<L, 'expanded'> : never) : never;
+
+/**
+ * Past this many rows, rows and blocks start closed: the first tree of a
+ * large result is then one line per row or block rather than one per value.
+ */
+const OPEN_ROWS_LIMIT = 1000;
+
+/**
+ * Open by default: rows and blocks (unless there are more than
+ * OPEN_ROWS_LIMIT rows), and for a protocol capture its two streams and their
+ * packets.
+ */
+export function defaultExpandDepth(parsed: ParsedData): number {
+  if (parsed.metadata?.layer === 'wire') return 0;
+  if (parsed.format === ClickHouseFormat.NativeProtocol) return 2;
+  const rows = parsed.rows?.length ?? (parsed.blocks ?? []).reduce((n, block) => n + block.rowCount, 0);
+  return rows > OPEN_ROWS_LIMIT ? 0 : 1;
+}
+
+/**
+ * Whether a line is open when the user has not opened or closed it. The
+ * RowBinary header opens a level later than the rows, so the default depth
+ * shows the rows' values; a block with deferred values only opens on request.
+ */
+function openByDefault(expansion: TreeExpansion, line: NewLine): boolean {
+  if (line.kind === 'header') return 1 < expansion.depth;
+  if (line.kind === 'block' && line.block.deferred) return false;
+  return line.depth < expansion.depth;
+}
+
+function isOpen(expansion: TreeExpansion, line: NewLine): boolean {
+  if (expansion.expanded.has(line.id)) return true;
+  if (expansion.collapsed.has(line.id)) return false;
+  return openByDefault(expansion, line);
+}
+
+/** `expansion` with `line` flipped, recording it only where it differs from the default. */
+export function toggleLine(expansion: TreeExpansion, line: TreeLine): TreeExpansion {
+  const open = !line.expanded;
+  const expanded = new Set(expansion.expanded);
+  const collapsed = new Set(expansion.collapsed);
+  expanded.delete(line.id);
+  collapsed.delete(line.id);
+  if (open !== openByDefault(expansion, line)) (open ? expanded : collapsed).add(line.id);
+  return { depth: expansion.depth, expanded, collapsed };
+}
+
+/**
+ * The lines of the AST tree that are visible under `expansion`, in display
+ * order. Only open lines are descended into, so the cost follows what is on
+ * show rather than the size of the parse.
+ */
+export function flattenTree(parsed: ParsedData, expansion: TreeExpansion): TreeLine[] {
+  const lines: TreeLine[] = [];
+
+  function push(line: NewLine): boolean {
+    const expanded = line.expandable && isOpen(expansion, line);
+    lines.push({ ...line, expanded } as TreeLine);
+    return expanded;
+  }
+
+  function pushNode(node: AstNode, depth: number, parent: number, label?: string) {
+    const index = lines.length;
+    const expandable = !!node.children && node.children.length > 0;
+    if (push({ kind: 'node', id: node.id, depth, parent, expandable, node, label })) {
+      node.children!.forEach((child) => pushNode(child, depth + 1, index));
+    }
+  }
+
+  if (parsed.rows) {
+    const header = lines.length;
+    if (push({ kind: 'header', id: 'rowbinary-header', depth: 0, parent: -1, expandable: true })) {
+      push({ kind: 'column-count', id: 'rowbinary-header-colcount', depth: 1, parent: header, expandable: false });
+      parsed.header.columns.forEach((_, column) => {
+        const id = `rowbinary-header-col-${column}`;
+        const def = lines.length;
+        if (push({ kind: 'column-def', id, depth: 1, parent: header, expandable: true, column })) {
+          push({ kind: 'column-name', id: `${id}-name`, depth: 2, parent: def, expandable: false, column });
+          push({ kind: 'column-type', id: `${id}-type`, depth: 2, parent: def, expandable: false, column });
+        }
+      });
+    }
+    parsed.rows.forEach((row, i) => {
+      const index = lines.length;
+      if (push({ kind: 'row', id: `row-${i}`, depth: 0, parent: -1, expandable: true, row })) {
+        row.values.forEach((node, j) => pushNode(node, 1, index, parsed.header.columns[j]?.name));
+      }
+    });
+  }
+
+  parsed.blocks?.forEach((block, i) => {
+    const id = `block-${i}`;
+    const index = lines.length;
+    if (!push({ kind: 'block', id, depth: 0, parent: -1, expandable: true, block })) return;
+    pushNode(block.header.astNode, 1, index);
+    block.columns.forEach((column) => {
+      const columnIndex = lines.length;
+      if (push({ kind: 'column', id: column.id, depth: 1, parent: index, expandable: true, block, column })) {
+        pushNode(column.metadataNode, 2, columnIndex);
+        column.dataPrefixNodes.forEach((node) => pushNode(node, 2, columnIndex));
+        column.values.forEach((node, k) => pushNode(node, 2, columnIndex, `[${k}]`));
+      }
+    });
+  });
+
+  parsed.trailingNodes?.forEach((node) => pushNode(node, 0, -1));
+  return lines;
+}
@@ -75,6 +75,12 @@ export interface BlockNode {
   header: BlockHeaderNode;
   rowCount: number;
   columns: BlockColumnNode[];
+  /**
+   * Set when the column values (and data prefixes) were left out while
+   * streaming; materializeBlock decodes them from the block's bytes, handing
+   * out node ids from `firstNodeId` as the first decode did.
+   */
+  deferred?: { firstNodeId: number };
 }
 
 /**
@@ -137,4 +143,19 @@ export interface ParsedData {
   trailingNodes?: AstNode[];
   /** Optional decoder-specific metadata (for example the negotiated protocol version). */
   metadata?: Record<string, unknown>;
+  /** Problems found in data that otherwise decoded (for example an INSERT block not matching its table). */
+  diagnostics?: Diagnostic[];
+}
+
+/**
+ * A finding reported alongside a successful decode
+ */
+export interface Diagnostic {
+  severity: 'error' | 'warning';
+  /** Stable dotted identifier, e.g. `insert.column-type` */
+  code: string;
+  message: string;
+  /** Node the finding is about, when there is one */
+  nodeId?: string;
+  byteRange?: ByteRange;
 }
@@ -54,7 +54,16 @@ export type ClickHouseType =
   // Advanced
   | { kind: 'Variant'; variants: ClickHouseType[] }
   | { kind: 'Dynamic'; maxTypes?: number }
-  | { kind: 'JSON'; typedPaths?: Map<string, ClickHouseType>; maxDynamicPaths?: number }
+  | {
+      kind: 'JSON';
+      typedPaths?: Map<string, ClickHouseType>;
+      maxDynamicPaths?: number;
+      maxDynamicTypes?: number;
+      skipPaths?: string[];
+      skipRegexps?: string[];
+    }
+  // Legacy experimental JSON: Object('json'), Object(Nullable('json'))
+  | { kind: 'Object'; schema: string; nullable?: boolean }
   // Geo
   | { kind: 'Point' }
   | { kind: 'Ring' }
@@ -68,7 +77,9 @@ export type ClickHouseType =
   // QBit vector type
   | { kind: 'QBit'; element: ClickHouseType; dimension: number }
   // Aggregate function state
-  | { kind: 'AggregateFunction'; functionName: string; argTypes: ClickHouseType[] }
+  | { kind: 'AggregateFunction'; functionName: string; params?: (number | string)[]; argTypes: ClickHouseType[] }
+  // Stored as the plain value of its argument type
+  | { kind: 'SimpleAggregateFunction'; functionName: string; params?: (number | string)[]; argTypes: ClickHouseType[] }
   // Interval types (all stored as Int64)
   | { kind: 'IntervalNanosecond' }
   | { kind: 'IntervalMicrosecond' }
@@ -156,7 +167,7 @@ export function typeToString(type: ClickHouseType): string {
     case 'Enum8':
     case 'Enum16': {
       const entries = Array.from(type.values.entries())
-        .map(([val, name]) => `'${name}' = ${val}`)
+        .map(([val, name]) => `${quoteString(name)} = ${val}`)
         .join(', ');
       return `${type.kind}(${entries})`;
     }
@@ -167,7 +178,9 @@ export function typeToString(type: ClickHouseType): string {
 
     case 'Tuple': {
       if (type.names && type.names.length === type.elements.length) {
-        const parts = type.elements.map((el, i) => `${type.names![i]} ${typeToString(el)}`);
+        const parts = type.elements.map((el, i) =>
+          type.names![i] ? `${quoteIdentifier(type.names![i])} ${typeToString(el)}` : typeToString(el),
+        );
         return `Tuple(${parts.join(', ')})`;
       }
       return `Tuple(${type.elements.map(typeToString).join(', ')})`;
@@ -196,16 +209,28 @@ export function typeToString(type: ClickHouseType): string {
       if (type.maxDynamicPaths !== undefined) {
         params.push(`max_dynamic_paths=${type.maxDynamicPaths}`);
       }
+      if (type.maxDynamicTypes !== undefined) {
+        params.push(`max_dynamic_types=${type.maxDynamicTypes}`);
+      }
       if (type.typedPaths) {
         for (const [path, pathType] of type.typedPaths) {
-          params.push(`${path} ${typeToString(pathType)}`);
+          params.push(`${quoteIdentifier(path)} ${typeToString(pathType)}`);
         }
       }
+      for (const path of type.skipPaths ?? []) {
+        params.push(`SKIP ${quoteIdentifier(path)}`);
+      }
+      for (const regexp of type.skipRegexps ?? []) {
+        params.push(`SKIP REGEXP ${quoteString(regexp)}`);
+      }
       return params.length > 0 ? `JSON(${params.join(', ')})` : 'JSON';
     }
 
+    case 'Object':
+      return type.nullable ? `Object(Nullable(${quoteString(type.schema)}))` : `Object(${quoteString(type.schema)})`;
+
     case 'Nested': {
-      const fields = type.fields.map((f) => `${f.name} ${typeToString(f.type)}`);
+      const fields = type.fields.map((f) => `${quoteIdentifier(f.name)} ${typeToString(f.type)}`);
       return `Nested(${fields.join(', ')})`;
     }
 
@@ -213,10 +238,47 @@ export function typeToString(type: ClickHouseType): string {
       return `QBit(${typeToString(type.element)}, ${type.dimension})`;
 
     case 'AggregateFunction': {
+      const fn = aggregateFunctionToString(type);
       const args = type.argTypes.map(typeToString).join(', ');
-      return args ? `AggregateFunction(${type.functionName}, ${args})` : `AggregateFunction(${type.functionName})`;
+      return args ? `AggregateFunction(${fn}, ${args})` : `AggregateFunction(${fn})`;
     }
+
+    case 'SimpleAggregateFunction':
+      return `SimpleAggregateFunction(${aggregateFunctionToString(type)}, ${type.argTypes.map(typeToString).join(', ')})`;
+  }
+}
+
+/** A type-string identifier, backquoted unless it is a plain word: `a`, `` `a.b` ``, `` `my field` `` */
+export function quoteIdentifier(name: string): string {
+  return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name) ? name : `\`${name.replace(/([\\`])/g, '\\$1')}\``;
+}
+
+/** A single-quoted string literal in a type string (Enum names, timezones, JSON SKIP REGEXP) */
+export function quoteString(value: string): string {
+  return `'${value.replace(/([\\'])/g, '\\$1')}'`;
+}
+
+/**
+ * The type a SimpleAggregateFunction column is stored as: its argument type,
+ * e.g. `UInt64` for `SimpleAggregateFunction(sum, UInt64)`.
+ */
+export function simpleAggregateValueType(type: Extract<ClickHouseType, { kind: 'SimpleAggregateFunction' }>): ClickHouseType {
+  if (type.argTypes.length !== 1) {
+    throw new Error(`${typeToString(type)} must have exactly one argument type`);
   }
+  return type.argTypes[0];
+}
+
+/**
+ * The function part of an AggregateFunction type, with its parameters:
+ * `quantileTDigest(0.5)`, `uniqCombined(12)`, `sum`
+ */
+export function aggregateFunctionToString(
+  type: Extract<ClickHouseType, { kind: 'AggregateFunction' | 'SimpleAggregateFunction' }>,
+): string {
+  if (!type.params?.length) return type.functionName;
+  const params = type.params.map((p) => (typeof p === 'string' ? quoteString(p) : String(p)));
+  return `${type.functionName}(${params.join(', ')})`;
 }
 
 /**
@@ -302,6 +364,7 @@ export function getTypeColor(type: ClickHouseType): string {
     case 'Variant':
     case 'Dynamic':
     case 'JSON':
+    case 'Object':
       return 'var(--type-special)';
 
     // Geo types
@@ -323,6 +386,9 @@ export function getTypeColor(type: ClickHouseType): string {
     case 'AggregateFunction':
       return 'var(--type-special)';
 
+    case 'SimpleAggregateFunction':
+      return type.argTypes[0] ? getTypeColor(type.argTypes[0]) : 'var(--type-default)';
+
     default:
       return 'var(--type-default)';
   }
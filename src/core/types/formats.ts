@@ -3,6 +3,12 @@
  */
 export enum ClickHouseFormat {
   RowBinaryWithNamesAndTypes = 'RowBinaryWithNamesAndTypes',
+  /** Values only; column names and types come from a user-supplied schema. */
+  RowBinary = 'RowBinary',
+  /** Column names in the header; types come from a user-supplied schema. */
+  RowBinaryWithNames = 'RowBinaryWithNames',
+  /** Like RowBinary, with a default-marker byte before every value (input-only). */
+  RowBinaryWithDefaults = 'RowBinaryWithDefaults',
   Native = 'Native',
   /** Native TCP protocol capture (packet stream), not an HTTP FORMAT. */
   NativeProtocol = 'NativeProtocol',
@@ -16,6 +22,8 @@ export interface FormatMetadata {
   displayName: string;
   description: string;
   supportsBlocks: boolean;
+  /** The body does not carry the column types, so decoding needs an out-of-band schema. */
+  needsSchema: boolean;
 }
 
 /**
@@ -27,17 +35,65 @@ export const FORMAT_METADATA: Record<ClickHouseFormat, FormatMetadata> = {
     displayName: 'RowBinary (Names+Types)',
     description: 'Row-oriented binary format with header',
     supportsBlocks: false,
+    needsSchema: false,
+  },
+  [ClickHouseFormat.RowBinary]: {
+    id: ClickHouseFormat.RowBinary,
+    displayName: 'RowBinary (schema)',
+    description: 'Row-oriented binary values without a header; columns come from the schema',
+    supportsBlocks: false,
+    needsSchema: true,
+  },
+  [ClickHouseFormat.RowBinaryWithNames]: {
+    id: ClickHouseFormat.RowBinaryWithNames,
+    displayName: 'RowBinary (Names)',
+    description: 'Row-oriented binary format with a names-only header; types come from the schema',
+    supportsBlocks: false,
+    needsSchema: true,
+  },
+  [ClickHouseFormat.RowBinaryWithDefaults]: {
+    id: ClickHouseFormat.RowBinaryWithDefaults,
+    displayName: 'RowBinary (Defaults)',
+    description: 'INSERT-only RowBinary with a per-value default marker byte; columns come from the schema',
+    supportsBlocks: false,
+    needsSchema: true,
   },
   [ClickHouseFormat.Native]: {
     id: ClickHouseFormat.Native,
     displayName: 'Native format (HTTP)',
     description: 'Column-oriented Native format body fetched over HTTP',
     supportsBlocks: true,
+    needsSchema: false,
   },
   [ClickHouseFormat.NativeProtocol]: {
     id: ClickHouseFormat.NativeProtocol,
     displayName: 'Native protocol + format (TCP)',
     description: 'Full native TCP protocol packet stream (handshake, packets, and Native blocks) captured via proxy',
     supportsBlocks: true,
+    needsSchema: false,
+  },
+};
+
+/**
+ * Compression requested for an HTTP query response.
+ * - `native`: `compress=1` — ClickHouse compressed frames (checksum + LZ4 by default)
+ * - `gzip` / `zstd` / `lz4`: `enable_http_compression=1` + `Accept-Encoding`
+ */
+export enum HttpCompression {
+  None = 'none',
+  Native = 'native',
+  Gzip = 'gzip',
+  Zstd = 'zstd',
+  Lz4 = 'lz4',
+}
+
+export const HTTP_COMPRESSION_METADATA: Record<HttpCompression, { displayName: string; description: string }> = {
+  [HttpCompression.None]: { displayName: 'None', description: 'Uncompressed response body' },
+  [HttpCompression.Native]: {
+    displayName: 'Native (compress=1)',
+    description: 'ClickHouse compressed frames, as used by the native protocol',
   },
+  [HttpCompression.Gzip]: { displayName: 'gzip', description: 'HTTP Content-Encoding: gzip' },
+  [HttpCompression.Zstd]: { displayName: 'zstd', description: 'HTTP Content-Encoding: zstd' },
+  [HttpCompression.Lz4]: { displayName: 'lz4', description: 'HTTP Content-Encoding: lz4 (LZ4 frame format)' },
 };
@@ -72,3 +72,75 @@ const NATIVE_PROTOCOL_PRESET_VALUES = new Set(
 export function isNativeProtocolVersion(value: number): boolean {
   return NATIVE_PROTOCOL_PRESET_VALUES.has(value);
 }
+
+/**
+ * Protocol feature gates, keyed by the protocol version that introduced them.
+ * A feature is active when the negotiated version is >= its value. See
+ * docs/full_native_protocol_spec.md (the feature table).
+ */
+export const NATIVE_PROTOCOL_FEATURES = {
+  BLOCK_INFO: 51903,
+  TIMEZONE: 54058,
+  QUOTA_KEY_IN_CLIENT_INFO: 54060,
+  DISPLAY_NAME: 54372,
+  VERSION_PATCH: 54401,
+  WRITE_CLIENT_INFO: 54420,
+  SETTINGS_AS_STRINGS: 54429,
+  INTERSERVER_SECRET: 54441,
+  OPEN_TELEMETRY: 54442,
+  DISTRIBUTED_DEPTH: 54448,
+  INITIAL_QUERY_START_TIME: 54449,
+  PARALLEL_REPLICAS: 54453,
+  CUSTOM_SERIALIZATION: 54454,
+  ADDENDUM: 54458,
+  PARAMETERS: 54459,
+  SERVER_QUERY_TIME_IN_PROGRESS: 54460,
+  PASSWORD_COMPLEXITY_RULES: 54461,
+  INTERSERVER_SECRET_V2: 54462,
+  TOTAL_BYTES_IN_PROGRESS: 54463,
+  TIMEZONE_UPDATES: 54464,
+  SPARSE_SERIALIZATION: 54465,
+  ROWS_BEFORE_AGGREGATION: 54469,
+  CHUNKED_PROTOCOL: 54470,
+  VERSIONED_PARALLEL_REPLICAS: 54471,
+  INTERSERVER_EXTERNALLY_GRANTED_ROLES: 54472,
+  V2_DYNAMIC_AND_JSON_SERIALIZATION: 54473,
+  SERVER_SETTINGS: 54474,
+  QUERY_AND_LINE_NUMBERS: 54475,
+  JWT_IN_INTERSERVER: 54476,
+  QUERY_PLAN_SERIALIZATION: 54477,
+  VERSIONED_CLUSTER_FUNCTION: 54479,
+  OUT_OF_ORDER_BUCKETS: 54480,
+  COMPRESSED_LOGS_PROFILE_EVENTS: 54481,
+  REPLICATED_SERIALIZATION: 54482,
+  NULLABLE_SPARSE_SERIALIZATION: 54483,
+} as const;
+
+/** Client → Server packet type codes. */
+export const ClientPacket = {
+  Hello: 0,
+  Query: 1,
+  Data: 2,
+  Cancel: 3,
+  Ping: 4,
+  SSHChallengeRequest: 11,
+  SSHChallengeResponse: 12,
+} as const;
+
+/** Server → Client packet type codes. */
+export const ServerPacket = {
+  Hello: 0,
+  Data: 1,
+  Exception: 2,
+  Progress: 3,
+  Pong: 4,
+  EndOfStream: 5,
+  ProfileInfo: 6,
+  Totals: 7,
+  Extremes: 8,
+  Log: 10,
+  TableColumns: 11,
+  ProfileEvents: 14,
+  TimezoneUpdate: 17,
+  SSHChallenge: 18,
+} as const;
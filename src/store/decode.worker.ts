@@ -0,0 +1,138 @@
+/**
+ * Decodes off the main thread, so the page stays responsive while a large
+ * result loads. A response body is streamed through decodeStream and its rows
+ * / blocks are posted back in batches as they are decoded; Native column
+ * values are deferred and the store materializes a block when it is expanded.
+ * A protocol capture is decoded in one go, a `.chproto` file being read here
+ * rather than on the main thread.
+ */
+import { unwrapHttpResponse } from '../core/decoder/http-response';
+import { CaptureSegment, decodeChprotoDump } from '../core/decoder/protocol-dump';
+import { ProtocolDecoder } from '../core/decoder/protocol-decoder';
+import { decodeStream, StreamItem } from '../core/decoder/stream-decoder';
+import { SchemaColumn } from '../core/parser/schema-parser';
+import { ParsedData } from '../core/types/ast';
+import { ClickHouseFormat, HttpCompression } from '../core/types/formats';
+
+export type DecodeRequest =
+  /** A Native / RowBinary response body, as a file or as the bytes of a query result */
+  | {
+      kind: 'body';
+      data: Blob | Uint8Array;
+      format: ClickHouseFormat;
+      compression: HttpCompression;
+      nativeProtocolVersion?: number;
+      schema?: SchemaColumn[];
+    }
+  /** A `.chproto` dump, as a file or bytes, or the joined streams of a live capture split at `c2sLength` */
+  | { kind: 'capture'; data: Blob | Uint8Array; c2sLength?: number };
+
+export type DecodeResponse =
+  /** The body was compressed: its wire layer, and the decompressed bytes the items index into */
+  | { type: 'wire'; wire: ParsedData; body: Uint8Array }
+  /** The next bytes of a file streamed from disk, sent ahead of the items decoded from them */
+  | { type: 'bytes'; data: Uint8Array }
+  | { type: 'items'; items: StreamItem[] }
+  | { type: 'done' }
+  | { type: 'capture'; combined: Uint8Array; parsed: ParsedData; c2sLength: number; segments: CaptureSegment[] }
+  | { type: 'error'; message: string };
+
+/** Minimum time between batches, so the main thread re-renders a few times a second */
+const BATCH_INTERVAL_MS = 200;
+/** Bytes handed to the decoder at a time when the body is already in memory */
+const CHUNK_SIZE = 1 << 20;
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<DecodeRequest>) => void) | null;
+  postMessage: (message: DecodeResponse, transfer?: Transferable[]) => void;
+};
+
+async function* chunks(data: Uint8Array): AsyncGenerator<Uint8Array> {
+  for (let i = 0; i < data.length; i += CHUNK_SIZE) yield data.subarray(i, i + CHUNK_SIZE);
+}
+
+/** Copy of the chunks read since the last batch, for the main thread's copy of the file */
+function joinChunks(read: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(read.reduce((n, chunk) => n + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of read) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return joined;
+}
+
+/** Stream a file, keeping each chunk in `read` until it is posted */
+async function* tee(file: Blob, read: Uint8Array[]): AsyncGenerator<Uint8Array> {
+  const reader = file.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    read.push(value);
+    yield value;
+  }
+}
+
+async function decodeBody(request: Extract<DecodeRequest, { kind: 'body' }>): Promise<void> {
+  let source: AsyncIterable<Uint8Array>;
+  // A plain file is read here only: the main thread gets its bytes with the items.
+  let read: Uint8Array[] | null = null;
+  if (request.data instanceof Blob && request.compression === HttpCompression.None) {
+    read = [];
+    source = tee(request.data, read);
+  } else {
+    const data = request.data instanceof Blob ? new Uint8Array(await request.data.arrayBuffer()) : request.data;
+    const { wire, body } = unwrapHttpResponse(data, request.format, request.compression);
+    if (wire) scope.postMessage({ type: 'wire', wire: wire.parsed, body });
+    source = chunks(body);
+  }
+
+  const items = decodeStream(source, request.format, {
+    nativeProtocolVersion: request.nativeProtocolVersion,
+    schema: request.schema,
+    deferValues: true,
+  });
+  let batch: StreamItem[] = [];
+  let lastPost = performance.now();
+  const post = () => {
+    if (read?.length) {
+      const data = joinChunks(read.splice(0));
+      scope.postMessage({ type: 'bytes', data }, [data.buffer]);
+    }
+    scope.postMessage({ type: 'items', items: batch });
+    batch = [];
+    lastPost = performance.now();
+  };
+  for await (const item of items) {
+    batch.push(item);
+    if (performance.now() - lastPost >= BATCH_INTERVAL_MS) post();
+  }
+  post();
+  scope.postMessage({ type: 'done' });
+}
+
+async function decodeCapture(request: Extract<DecodeRequest, { kind: 'capture' }>): Promise<void> {
+  const data = request.data instanceof Blob ? new Uint8Array(await request.data.arrayBuffer()) : request.data;
+  const { combined, parsed, c2sLength, segments } =
+    request.c2sLength === undefined
+      ? decodeChprotoDump(data)
+      : {
+          combined: data,
+          parsed: new ProtocolDecoder(data, request.c2sLength).decode(),
+          c2sLength: request.c2sLength,
+          segments: [],
+        };
+  scope.postMessage({ type: 'capture', combined, parsed, c2sLength, segments }, [combined.buffer]);
+}
+
+scope.onmessage = async ({ data: request }) => {
+  try {
+    if (request.kind === 'body') {
+      await decodeBody(request);
+    } else {
+      await decodeCapture(request);
+    }
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: (error as Error).message });
+  }
+};
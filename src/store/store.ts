@@ -1,12 +1,69 @@
 import { create } from 'zustand';
 import { clickhouse, DEFAULT_QUERY } from '../core/clickhouse/client';
 import { createDecoder } from '../core/decoder';
-import { parseChprotoDump } from '../core/decoder/protocol-dump';
-import { AstNode, ParsedData } from '../core/types/ast';
-import { ClickHouseFormat } from '../core/types/formats';
+import { materializeBlock, StreamCollector } from '../core/decoder/stream-decoder';
+import { CaptureSegment, decodeChprotoDump } from '../core/decoder/protocol-dump';
+import { decodeHttpResponse, DecodedLayer, HttpResponseLayers } from '../core/decoder/http-response';
+import { ParsedData } from '../core/types/ast';
+import { anchorNodeId, applyByteEdit, ByteEdit, carryExpanded, indexNodes, mapOffset } from '../core/hex-edit';
+import { diffParsed, StructuralDiff } from '../core/structural-diff';
+import { parseSchema, SchemaColumn } from '../core/parser/schema-parser';
+import { SearchMatch } from '../core/search';
+import { defaultExpandDepth, toggleLine, TreeExpansion, TreeLine } from '../core/tree-lines';
+import { ClickHouseFormat, FORMAT_METADATA, HttpCompression } from '../core/types/formats';
 import { DEFAULT_NATIVE_PROTOCOL_VERSION } from '../core/types/native-protocol';
+import type { DecodeRequest, DecodeResponse } from './decode.worker';
+
+export type LayerName = 'wire' | 'body';
+/** What the top panel shows: the SQL query editor, the RowBinary row builder or the diff inputs. */
+export type InputMode = 'query' | 'builder' | 'diff';
+export type DiffSideName = 'a' | 'b';
+
+/** One input of the diff view: decoded bytes and where they came from. */
+export interface DiffSource {
+  label: string;
+  data: Uint8Array;
+  parsed: ParsedData;
+}
+
+/**
+ * How the loaded bytes were decoded, so an edited copy can be decoded the
+ * same way. `compression` is what the HTTP request asked for; it applies when
+ * the wire layer is the one being edited.
+ */
+export interface DecodeContext {
+  format: ClickHouseFormat;
+  nativeProtocolVersion?: number;
+  compression?: HttpCompression;
+  schema?: SchemaColumn[];
+  protocolC2SLength?: number;
+  /** When each TCP segment of a capture was seen (CHPROTO2), for the timeline */
+  protocolSegments?: CaptureSegment[];
+}
+
+/** How far the worker has got with the running decode. */
+export interface DecodeProgress {
+  /** Bytes up to the end of the last decoded row / block */
+  bytesDecoded: number;
+  totalBytes: number;
+  blocks: number;
+  rows: number;
+}
+
+/** The decoded view as loaded, restored by revertEdits. */
+interface LoadedView {
+  rawData: Uint8Array | null;
+  parsedData: ParsedData | null;
+  parseError: Error | null;
+  layers: { wire: DecodedLayer; body: DecodedLayer } | null;
+  activeLayer: LayerName;
+  decodeContext: DecodeContext | null;
+}
 
 interface AppState {
+  inputMode: InputMode;
+  setInputMode: (mode: InputMode) => void;
+
   // Query
   query: string;
   setQuery: (query: string) => void;
@@ -16,224 +73,654 @@ interface AppState {
   setFormat: (format: ClickHouseFormat) => void;
   nativeProtocolVersion: number;
   setNativeProtocolVersion: (version: number) => void;
+  compression: HttpCompression;
+  setCompression: (compression: HttpCompression) => void;
+  /** Column list (`name Type, ...`) for formats that do not carry their types. */
+  schema: string;
+  setSchema: (schema: string) => void;
 
   // Data
   rawData: Uint8Array | null;
   parsedData: ParsedData | null;
   parseError: Error | null;
   isLoading: boolean;
+  /** Set while a response body decodes in the worker; what it has decoded so far is in parsedData. */
+  decodeProgress: DecodeProgress | null;
   queryTiming: number | null;
+  /**
+   * Both views of a compressed HTTP response: the frames as received and the
+   * decompressed body. rawData/parsedData hold whichever is active.
+   */
+  layers: { wire: DecodedLayer; body: DecodedLayer } | null;
+  activeLayer: LayerName;
+  setActiveLayer: (layer: LayerName) => void;
+
+  /** Set whenever rawData came from a decode; null before the first load. */
+  decodeContext: DecodeContext | null;
+  /** Number of byte edits applied since the data was loaded. */
+  editCount: number;
+  /** The view before the first edit, kept so the edits can be reverted. */
+  uneditedView: LoadedView | null;
 
   // Actions
   executeQuery: () => Promise<void>;
   loadFile: (file: File) => Promise<void>;
+  /** Stop the running query or decode, keeping the rows / blocks decoded so far. */
+  cancelDecode: () => void;
+  /** Show bytes built in the UI (the row builder) as if they had been loaded. */
+  loadEncoded: (data: Uint8Array, format: ClickHouseFormat, schema?: SchemaColumn[]) => void;
+  /**
+   * Apply an overwrite / insert / delete to the bytes in the Hex View and
+   * decode them again, keeping the active node on its equivalent.
+   */
+  editBytes: (edit: ByteEdit) => void;
+  revertEdits: () => void;
+
+  // Diff mode
+  diffSources: Record<DiffSideName, DiffSource | null>;
+  diffResult: StructuralDiff | null;
+  diffError: Error | null;
+  /** Path of the selected diff entry, highlighted in both hex panes. */
+  diffActivePath: string | null;
+  loadDiffFile: (side: DiffSideName, file: File) => Promise<void>;
+  /** Run the query twice, at each Native protocol version, and diff the bodies. */
+  runDiffQueries: (versionA: number, versionB: number) => Promise<void>;
+  setDiffActivePath: (path: string | null) => void;
 
   // UI state
   activeNodeId: string | null;
   activeCopyText: string | null;
   hoveredNodeId: string | null;
-  expandedNodes: Set<string>;
+  /** Which AST tree lines are open */
+  expansion: TreeExpansion;
   scrollRequest: { byteOffset: number; id: number } | null;
 
   // UI actions
   setActiveNode: (id: string | null, copyText?: string | null) => void;
   setHoveredNode: (id: string | null) => void;
-  toggleExpanded: (id: string) => void;
-  expandAll: () => void;
+  toggleExpanded: (line: TreeLine) => void;
+  /** Open every line above `depth` (0 closes everything), dropping per-line choices */
+  expandToDepth: (depth: number) => void;
   collapseAll: () => void;
+  /** Decode the values of a block loaded without them, and expand it */
+  materializeBlock: (index: number) => void;
+  /** Open the tree down to a search match, select it and scroll the Hex View to it */
+  revealMatch: (match: SearchMatch) => void;
   scrollToHex: (byteOffset: number) => void;
   clearScrollTarget: () => void;
 }
 
+/** The tree as first shown for a parse */
+function defaultExpansion(parsedData: ParsedData): TreeExpansion {
+  return { depth: defaultExpandDepth(parsedData), expanded: new Set(), collapsed: new Set() };
+}
+
+/** Parsed schema when the format needs one; throws on a malformed column list. */
+function schemaFor(format: ClickHouseFormat, schema: string): SchemaColumn[] | undefined {
+  return FORMAT_METADATA[format].needsSchema ? parseSchema(schema) : undefined;
+}
+
 /**
- * Collect all node IDs from parsed data (for expandAll)
+ * Bumped by every load and by cancelDecode. A load that finds a newer number
+ * after an await was cancelled or superseded and drops its result.
  */
-function collectAllNodeIds(parsedData: ParsedData): string[] {
-  const ids: string[] = [];
+let loadGeneration = 0;
+/** Stops the worker of the running decode, if any */
+let cancelWorker: (() => void) | null = null;
 
-  function visitNode(node: AstNode) {
-    ids.push(node.id);
-    node.children?.forEach(visitNode);
-  }
+/**
+ * Start a load: stop the decode still running for an earlier one, so it
+ * neither competes for the CPU nor reports progress, and return the load's
+ * generation.
+ */
+function beginLoad(): number {
+  cancelWorker?.();
+  return ++loadGeneration;
+}
 
-  // Row-based formats (RowBinary)
-  parsedData.rows?.forEach((row, i) => {
-    ids.push(`row-${i}`);
-    row.values.forEach(visitNode);
+/**
+ * Run a decode in a Web Worker. `handle` sees each message; the first value
+ * it returns settles the promise. cancelDecode or the next load terminates
+ * the worker.
+ */
+function decodeInWorker<T>(request: DecodeRequest, handle: (message: DecodeResponse) => T | undefined): Promise<T> {
+  const worker = new Worker(new URL('./decode.worker.ts', import.meta.url), { type: 'module' });
+  let cancel: (() => void) | null = null;
+  return new Promise<T>((resolve, reject) => {
+    cancel = () => {
+      worker.terminate();
+      reject(new Error('Decode cancelled'));
+    };
+    cancelWorker = cancel;
+    worker.onmessage = ({ data: message }: MessageEvent<DecodeResponse>) => {
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+        return;
+      }
+      const result = handle(message);
+      if (result !== undefined) resolve(result);
+    };
+    worker.onerror = (event) => reject(new Error(`Decode worker: ${event.message}`));
+    worker.postMessage(request);
+  }).finally(() => {
+    worker.terminate();
+    // A later load may already have started its own worker.
+    if (cancelWorker === cancel) cancelWorker = null;
   });
+}
 
-  // Block-based formats (Native)
-  parsedData.blocks?.forEach((block, i) => {
-    ids.push(`block-${i}`);
-    visitNode(block.header.astNode);
-    block.columns.forEach((col, j) => {
-      ids.push(`block-${i}-col-${j}`);
-      visitNode(col.metadataNode);
-      col.dataPrefixNodes.forEach(visitNode);
-      col.values.forEach(visitNode);
-    });
+/**
+ * Decode a response body in the worker. `raw` is the body as received, or
+ * for a file the worker streams, a buffer of the file's size that its bytes
+ * fill as they arrive; `onProgress` gets the buffer the nodes index into (the
+ * decompressed body for a compressed one), what has been decoded so far and
+ * how far that is through the whole body after each batch.
+ */
+function decodeBodyInWorker(
+  request: Extract<DecodeRequest, { kind: 'body' }>,
+  raw: Uint8Array,
+  onProgress: (data: Uint8Array, partial: ParsedData, progress: DecodeProgress) => void,
+): Promise<HttpResponseLayers> {
+  const collector = new StreamCollector(request.format);
+  let wire: DecodedLayer | null = null;
+  let body = raw;
+  // A streamed file's body is only what has arrived; the whole is the file's size.
+  let totalBytes = raw.length;
+  let received = 0;
+  return decodeInWorker(request, (message) => {
+    if (message.type === 'wire') {
+      wire = { data: raw, parsed: message.wire };
+      body = message.body;
+      totalBytes = body.length;
+    } else if (message.type === 'bytes') {
+      raw.set(message.data, received);
+      received += message.data.length;
+      body = raw.subarray(0, received);
+    } else if (message.type === 'items') {
+      message.items.forEach((item) => collector.add(item));
+      const partial = collector.result();
+      onProgress(body, partial, progressOf(partial, totalBytes));
+    } else if (message.type === 'done') {
+      return { compression: request.compression, wire, body: { data: body, parsed: collector.result() } };
+    }
+    return undefined;
   });
-
-  parsedData.trailingNodes?.forEach(visitNode);
-
-  return ids;
 }
 
 /**
- * Get the default expanded nodes (rows or blocks)
+ * Decode a `.chproto` dump (a file is read by the worker), or a live capture
+ * split at `c2sLength`, in the worker.
  */
-function getDefaultExpanded(parsedData: ParsedData): Set<string> {
-  const expanded = new Set<string>();
-  // Row-based formats (RowBinary)
-  parsedData.rows?.forEach((_, i) => {
-    expanded.add(`row-${i}`);
-  });
-  // Block-based formats (Native)
-  parsedData.blocks?.forEach((_, i) => {
-    expanded.add(`block-${i}`);
-  });
-  // Protocol captures: expand the two direction sections and each packet so
-  // the conversation timeline is visible, but leave packet fields collapsed.
-  if (parsedData.format === ClickHouseFormat.NativeProtocol) {
-    parsedData.trailingNodes?.forEach((section) => {
-      expanded.add(section.id);
-      section.children?.forEach((packet) => expanded.add(packet.id));
-    });
-  }
-  return expanded;
+function decodeCaptureInWorker(
+  data: Blob | Uint8Array,
+  c2sLength?: number,
+): Promise<{ combined: Uint8Array; parsed: ParsedData; c2sLength: number; segments: CaptureSegment[] }> {
+  return decodeInWorker({ kind: 'capture', data, c2sLength }, (message) =>
+    message.type === 'capture' ? message : undefined,
+  );
+}
+
+function progressOf(parsed: ParsedData, totalBytes: number): DecodeProgress {
+  return {
+    bytesDecoded: parsed.totalBytes,
+    totalBytes,
+    blocks: parsed.blocks?.length ?? 0,
+    rows: parsed.rows?.length ?? (parsed.blocks ?? []).reduce((n, block) => n + block.rowCount, 0),
+  };
+}
+
+/** Both diff sides, and their diff once both are loaded. */
+function withDiffSource(state: AppState, side: DiffSideName, source: DiffSource) {
+  const diffSources = { ...state.diffSources, [side]: source };
+  const { a, b } = diffSources;
+  return {
+    diffSources,
+    diffResult: a && b ? diffParsed(a, b) : null,
+    diffError: null,
+    diffActivePath: null,
+  };
 }
 
 /** State to clear all data before loading new data */
 const getLoadingState = () => ({
   isLoading: true,
+  decodeProgress: null,
   parseError: null,
   queryTiming: null,
   rawData: null,
   parsedData: null,
+  layers: null,
+  activeLayer: 'body' as LayerName,
   activeNodeId: null,
   activeCopyText: null,
   hoveredNodeId: null,
-  expandedNodes: new Set<string>(),
+  expansion: { depth: 0, expanded: new Set<string>(), collapsed: new Set<string>() },
   scrollRequest: null,
+  decodeContext: null,
+  editCount: 0,
+  uneditedView: null,
 });
 
 /** State after successful data load */
-const getSuccessState = (data: Uint8Array, parsed: ParsedData, timing: number | null) => ({
+const getSuccessState = (
+  data: Uint8Array,
+  parsed: ParsedData,
+  timing: number | null,
+  decodeContext: DecodeContext,
+) => ({
   rawData: data,
   parsedData: parsed,
   isLoading: false,
+  decodeProgress: null,
   parseError: null,
   queryTiming: timing,
-  expandedNodes: getDefaultExpanded(parsed),
+  expansion: defaultExpansion(parsed),
+  decodeContext,
+  editCount: 0,
+  uneditedView: null,
+});
+
+/** State after decoding an HTTP body, keeping the wire layer when it was compressed */
+const getHttpSuccessState = (response: HttpResponseLayers, timing: number | null, decodeContext: DecodeContext) => ({
+  ...getSuccessState(response.body.data, response.body.parsed, timing, decodeContext),
+  layers: response.wire ? { wire: response.wire, body: response.body } : null,
+  activeLayer: 'body' as LayerName,
 });
 
 /** State after failed data load */
 const getErrorState = (error: Error) => ({
   parseError: error,
   isLoading: false,
+  decodeProgress: null,
   rawData: null,
   parsedData: null,
 });
 
+/** `expansion` with the lines `ids` open */
+function openLines(expansion: TreeExpansion, ids: string[]): TreeExpansion {
+  const expanded = new Set(expansion.expanded);
+  const collapsed = new Set(expansion.collapsed);
+  for (const id of ids) {
+    expanded.add(id);
+    collapsed.delete(id);
+  }
+  return { depth: expansion.depth, expanded, collapsed };
+}
+
+/**
+ * The loaded parse with the values of deferred block `index` decoded; throws
+ * when they do not decode. Null when there is no such block.
+ */
+function withMaterializedBlock(state: AppState, index: number) {
+  const block = state.parsedData?.blocks?.[index];
+  if (!state.parsedData || !state.rawData || !block) return null;
+  const version = state.decodeContext?.nativeProtocolVersion ?? DEFAULT_NATIVE_PROTOCOL_VERSION;
+  const blocks = [...state.parsedData.blocks!];
+  blocks[index] = materializeBlock(state.rawData, block, version);
+  const parsedData = { ...state.parsedData, blocks };
+  // Keep the body layer in step, so switching to the wire layer and back keeps the values.
+  const layers =
+    state.layers && state.activeLayer === 'body'
+      ? { ...state.layers, body: { data: state.rawData, parsed: parsedData } }
+      : state.layers;
+  return { parsedData, layers };
+}
+
+/**
+ * Active node and expanded nodes moved from the current parse onto its
+ * re-decoded successor. Node ids are handed out afresh by every decode, so
+ * they are matched by position in the tree rather than by id.
+ */
+function carryAnchors(state: AppState, next: ParsedData | null, edit: ByteEdit | null) {
+  if (!state.parsedData || !next) {
+    return { activeNodeId: null, activeCopyText: null, expansion: next ? defaultExpansion(next) : state.expansion };
+  }
+  const before = indexNodes(state.parsedData);
+  const after = indexNodes(next);
+  const activeNodeId = state.activeNodeId && anchorNodeId(before, after, state.activeNodeId, edit);
+  return {
+    activeNodeId,
+    // The copy text described the node as it was decoded before.
+    activeCopyText: null,
+    expansion: {
+      depth: state.expansion.depth,
+      expanded: carryExpanded(before, after, state.expansion.expanded),
+      collapsed: carryExpanded(before, after, state.expansion.collapsed),
+    },
+  };
+}
+
+/**
+ * Decode edited bytes the way the loaded ones were. Editing the compressed
+ * wire layer decodes both layers again; editing a body (or anything else)
+ * decodes just that buffer, dropping a wire layer it no longer matches.
+ */
+function decodeEdited(
+  data: Uint8Array,
+  context: DecodeContext,
+  layer: LayerName,
+): Pick<LoadedView, 'rawData' | 'parsedData' | 'layers' | 'activeLayer'> {
+  if (layer === 'wire') {
+    const response = decodeHttpResponse(data, context.format, context);
+    if (response.wire) {
+      return {
+        rawData: data,
+        parsedData: response.wire.parsed,
+        layers: { wire: response.wire, body: response.body },
+        activeLayer: 'wire',
+      };
+    }
+    return { rawData: data, parsedData: response.body.parsed, layers: null, activeLayer: 'body' };
+  }
+  const parsed = createDecoder(data, context.format, context).decode();
+  return { rawData: data, parsedData: parsed, layers: null, activeLayer: 'body' };
+}
+
 export const useStore = create<AppState>((set, get) => ({
   // Initial state
+  inputMode: 'query',
   query: DEFAULT_QUERY,
   format: ClickHouseFormat.RowBinaryWithNamesAndTypes,
   nativeProtocolVersion: DEFAULT_NATIVE_PROTOCOL_VERSION,
+  compression: HttpCompression.None,
+  schema: '',
   rawData: null,
   parsedData: null,
   parseError: null,
   isLoading: false,
+  decodeProgress: null,
   queryTiming: null,
+  layers: null,
+  activeLayer: 'body',
   activeNodeId: null,
   activeCopyText: null,
   hoveredNodeId: null,
-  expandedNodes: new Set(),
+  expansion: { depth: 0, expanded: new Set(), collapsed: new Set() },
   scrollRequest: null,
+  decodeContext: null,
+  editCount: 0,
+  uneditedView: null,
+  diffSources: { a: null, b: null },
+  diffResult: null,
+  diffError: null,
+  diffActivePath: null,
 
+  setInputMode: (inputMode) => set({ inputMode }),
   setQuery: (query) => set({ query }),
   setFormat: (format) => set({ format }),
   setNativeProtocolVersion: (nativeProtocolVersion) => set({ nativeProtocolVersion }),
+  setCompression: (compression) => set({ compression }),
+  setSchema: (schema) => set({ schema }),
+
+  setActiveLayer: (layer) =>
+    set((state) => {
+      if (!state.layers || state.activeLayer === layer) return state;
+      const { data, parsed } = state.layers[layer];
+      return {
+        activeLayer: layer,
+        rawData: data,
+        parsedData: parsed,
+        activeNodeId: null,
+        activeCopyText: null,
+        hoveredNodeId: null,
+        expansion: defaultExpansion(parsed),
+        scrollRequest: null,
+      };
+    }),
 
   executeQuery: async () => {
-    const { query, format, nativeProtocolVersion } = get();
+    const { query, format, nativeProtocolVersion, compression, schema } = get();
+    const generation = beginLoad();
     set(getLoadingState());
 
     try {
       if (format === ClickHouseFormat.NativeProtocol) {
         // Capture the full native TCP packet stream via the proxy harness
         // (desktop only) and decode the conversation, not just one format body.
-        const { combined, c2sLength, timing } = await clickhouse.captureProtocol(query);
-        const decoder = createDecoder(combined, format, { protocolC2SLength: c2sLength });
-        const parsed = decoder.decode();
-        set(getSuccessState(combined, parsed, timing));
+        const { combined, c2sLength, timing, segments } = await clickhouse.captureProtocol(query);
+        if (generation !== loadGeneration) return;
+        const { parsed } = await decodeCaptureInWorker(combined, c2sLength);
+        if (generation !== loadGeneration) return;
+        set(
+          getSuccessState(combined, parsed, timing, {
+            format,
+            protocolC2SLength: c2sLength,
+            protocolSegments: segments,
+          }),
+        );
         return;
       }
 
-      const { data, timing } = await clickhouse.query({ query, format, nativeProtocolVersion });
-      const decoder = createDecoder(data, format, { nativeProtocolVersion });
-      const parsed = decoder.decode();
-      set(getSuccessState(data, parsed, timing));
+      const columns = schemaFor(format, schema);
+      const { data, timing } = await clickhouse.query({ query, format, nativeProtocolVersion, compression });
+      if (generation !== loadGeneration) return;
+      const context = { format, compression, nativeProtocolVersion, schema: columns };
+      const request = { kind: 'body' as const, data, format, compression, nativeProtocolVersion, schema: columns };
+      const response = await decodeBodyInWorker(request, data, (body, partial, progress) => {
+        if (generation !== loadGeneration) return;
+        set({ rawData: body, parsedData: partial, decodeContext: context, decodeProgress: progress });
+      });
+      if (generation !== loadGeneration) return;
+      set(getHttpSuccessState(response, timing, context));
     } catch (error) {
+      if (generation !== loadGeneration) return;
       console.error('Query execution failed:', error);
       set(getErrorState(error as Error));
     }
   },
 
   loadFile: async (file: File) => {
-    const { format, nativeProtocolVersion } = get();
+    const { format, nativeProtocolVersion, compression, schema } = get();
+    const generation = beginLoad();
     set(getLoadingState());
 
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      const data = new Uint8Array(arrayBuffer);
-
       // A .chproto capture (or the NativeProtocol format) is decoded as a
-      // protocol packet stream. The dump carries the c2s/s2c split itself.
+      // protocol packet stream. The dump carries the c2s/s2c split itself; it
+      // is read and decoded whole, in the worker (see decodeStream).
       if (file.name.endsWith('.chproto') || format === ClickHouseFormat.NativeProtocol) {
-        const capture = parseChprotoDump(data);
-        const combined = new Uint8Array(capture.c2s.length + capture.s2c.length);
-        combined.set(capture.c2s, 0);
-        combined.set(capture.s2c, capture.c2s.length);
-        const decoder = createDecoder(combined, ClickHouseFormat.NativeProtocol, {
-          protocolC2SLength: capture.c2s.length,
-        });
-        const parsed = decoder.decode();
-        set(getSuccessState(combined, parsed, null));
+        const { combined, parsed, c2sLength, segments } = await decodeCaptureInWorker(file);
+        if (generation !== loadGeneration) return;
+        set(
+          getSuccessState(combined, parsed, null, {
+            format: ClickHouseFormat.NativeProtocol,
+            protocolC2SLength: c2sLength,
+            protocolSegments: segments,
+          }),
+        );
         return;
       }
 
-      const decoder = createDecoder(data, format, { nativeProtocolVersion });
-      const parsed = decoder.decode();
-      set(getSuccessState(data, parsed, null));
+      // A saved response body may be compressed like a live one. A plain one
+      // is streamed from the file by the worker, which sends its bytes back
+      // batch by batch instead of the whole file being read here first.
+      const columns = schemaFor(format, schema);
+      const context = { format, compression, nativeProtocolVersion, schema: columns };
+      const streamed = compression === HttpCompression.None;
+      const data = streamed ? new Uint8Array(file.size) : new Uint8Array(await file.arrayBuffer());
+      if (generation !== loadGeneration) return;
+      const request = {
+        kind: 'body' as const,
+        data: streamed ? file : data,
+        format,
+        compression,
+        nativeProtocolVersion,
+        schema: columns,
+      };
+      const response = await decodeBodyInWorker(request, data, (body, partial, progress) => {
+        if (generation !== loadGeneration) return;
+        set({ rawData: body, parsedData: partial, decodeContext: context, decodeProgress: progress });
+      });
+      if (generation !== loadGeneration) return;
+      set(getHttpSuccessState(response, null, context));
     } catch (error) {
+      if (generation !== loadGeneration) return;
       console.error('File load failed:', error);
       set(getErrorState(error as Error));
     }
   },
 
-  setActiveNode: (id, copyText) => set({ activeNodeId: id, activeCopyText: copyText ?? null }),
-  setHoveredNode: (id) => set({ hoveredNodeId: id }),
+  cancelDecode: () => {
+    beginLoad();
+    set({ isLoading: false, decodeProgress: null });
+  },
 
-  toggleExpanded: (id) =>
+  loadEncoded: (data, format, schema) => {
+    try {
+      const parsed = createDecoder(data, format, { schema }).decode();
+      // Keep what the user expanded: the tree is rebuilt on every edit.
+      const { expansion } = get();
+      set({
+        ...getSuccessState(data, parsed, null, { format, schema }),
+        expansion: { ...expansion, depth: Math.max(expansion.depth, defaultExpandDepth(parsed)) },
+        layers: null,
+        activeLayer: 'body',
+        scrollRequest: null,
+      });
+    } catch (error) {
+      set(getErrorState(error as Error));
+    }
+  },
+
+  editBytes: (edit) =>
     set((state) => {
-      const newExpanded = new Set(state.expandedNodes);
-      if (newExpanded.has(id)) {
-        newExpanded.delete(id);
-      } else {
-        newExpanded.add(id);
+      if (!state.rawData || !state.decodeContext) return state;
+      const data = applyByteEdit(state.rawData, edit);
+      // A protocol capture is c2s bytes then s2c bytes; keep the split on the
+      // same byte when the edit lands before it.
+      const context =
+        state.decodeContext.protocolC2SLength === undefined
+          ? state.decodeContext
+          : { ...state.decodeContext, protocolC2SLength: mapOffset(state.decodeContext.protocolC2SLength, edit) };
+      const edited = {
+        editCount: state.editCount + 1,
+        uneditedView: state.uneditedView ?? {
+          rawData: state.rawData,
+          parsedData: state.parsedData,
+          parseError: state.parseError,
+          layers: state.layers,
+          activeLayer: state.activeLayer,
+          decodeContext: state.decodeContext,
+        },
+        decodeContext: context,
+        hoveredNodeId: null,
+      };
+      try {
+        const view = decodeEdited(data, context, state.activeLayer);
+        return { ...edited, ...view, parseError: null, ...carryAnchors(state, view.parsedData, edit) };
+      } catch (error) {
+        // Keep the edited bytes on screen so the next edit can fix them.
+        return {
+          ...edited,
+          rawData: data,
+          parsedData: null,
+          parseError: error as Error,
+          layers: null,
+          activeNodeId: null,
+          activeCopyText: null,
+        };
       }
-      return { expandedNodes: newExpanded };
     }),
 
-  expandAll: () =>
+  revertEdits: () =>
+    set((state) => {
+      const view = state.uneditedView;
+      if (!view) return state;
+      return {
+        ...view,
+        editCount: 0,
+        uneditedView: null,
+        hoveredNodeId: null,
+        ...carryAnchors(state, view.parsedData, null),
+      };
+    }),
+
+  loadDiffFile: async (side, file) => {
+    const { format, nativeProtocolVersion, compression, schema } = get();
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      let source: DiffSource;
+      if (file.name.endsWith('.chproto') || format === ClickHouseFormat.NativeProtocol) {
+        const { combined, parsed } = decodeChprotoDump(data);
+        source = { label: file.name, data: combined, parsed };
+      } else {
+        const columns = schemaFor(format, schema);
+        const { body } = decodeHttpResponse(data, format, { compression, nativeProtocolVersion, schema: columns });
+        source = { label: file.name, data: body.data, parsed: body.parsed };
+      }
+      set((state) => withDiffSource(state, side, source));
+    } catch (error) {
+      console.error('Diff file load failed:', error);
+      set({ diffError: new Error(`${side.toUpperCase()}: ${(error as Error).message}`) });
+    }
+  },
+
+  runDiffQueries: async (versionA, versionB) => {
+    const { query, format, compression, schema } = get();
+    if (format === ClickHouseFormat.NativeProtocol) {
+      set({ diffError: new Error('Query diffs compare HTTP bodies; pick Native or a RowBinary format, or load two captures') });
+      return;
+    }
+    set({ isLoading: true, diffError: null });
+    try {
+      const columns = schemaFor(format, schema);
+      for (const [side, version] of [['a', versionA], ['b', versionB]] as const) {
+        const { data } = await clickhouse.query({ query, format, nativeProtocolVersion: version, compression });
+        const { body } = decodeHttpResponse(data, format, { compression, nativeProtocolVersion: version, schema: columns });
+        const label = `${format} @ ${version}`;
+        set((state) => withDiffSource(state, side, { label, data: body.data, parsed: body.parsed }));
+      }
+      set({ isLoading: false });
+    } catch (error) {
+      console.error('Diff query failed:', error);
+      set({ isLoading: false, diffError: error as Error });
+    }
+  },
+
+  setDiffActivePath: (diffActivePath) => set({ diffActivePath }),
+
+  setActiveNode: (id, copyText) => set({ activeNodeId: id, activeCopyText: copyText ?? null }),
+  setHoveredNode: (id) => set({ hoveredNodeId: id }),
+
+  toggleExpanded: (line) => set((state) => ({ expansion: toggleLine(state.expansion, line) })),
+
+  expandToDepth: (depth) => set({ expansion: { depth, expanded: new Set(), collapsed: new Set() } }),
+
+  collapseAll: () => set({ expansion: { depth: 0, expanded: new Set(), collapsed: new Set() } }),
+
+  materializeBlock: (index) =>
     set((state) => {
-      if (!state.parsedData) return state;
-      const allIds = collectAllNodeIds(state.parsedData);
-      return { expandedNodes: new Set(allIds) };
+      try {
+        const materialized = withMaterializedBlock(state, index);
+        if (!materialized) return state;
+        return { ...materialized, expansion: openLines(state.expansion, [`block-${index}`]) };
+      } catch (error) {
+        console.error('Block decode failed:', error);
+        return state;
+      }
     }),
 
-  collapseAll: () => set({ expandedNodes: new Set() }),
+  revealMatch: (match) => {
+    set((state) => {
+      let materialized: ReturnType<typeof withMaterializedBlock> = null;
+      if (match.block !== undefined && state.parsedData?.blocks?.[match.block]?.deferred) {
+        try {
+          materialized = withMaterializedBlock(state, match.block);
+        } catch (error) {
+          console.error('Block decode failed:', error);
+          return state;
+        }
+      }
+      const label = match.label ? `${match.label}: ` : '';
+      return {
+        ...materialized,
+        expansion: openLines(state.expansion, match.path),
+        activeNodeId: match.nodeId,
+        activeCopyText: `${label}${match.displayValue} (${match.type})`,
+      };
+    });
+    get().scrollToHex(match.byteRange.start);
+  },
 
   scrollToHex: (byteOffset) => {
     // Use a unique ID for each scroll request to ensure the effect always fires
@@ -2,6 +2,10 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 // @ts-expect-error - plain ESM helper, no type declarations
 import { captureServerPlugin } from './scripts/capture-middleware.mjs'
+import {
+  PROXY_ACCEPT_ENCODING_HEADER,
+  PROXY_CONTENT_ENCODING_HEADER,
+} from './src/core/clickhouse/request-params'
 
 const isElectron = !!process.env.ELECTRON;
 
@@ -46,6 +50,24 @@ export default defineConfig(async () => {
           target: 'http://localhost:8123',
           changeOrigin: true,
           rewrite: (path: string) => path.replace(/^\/clickhouse/, ''),
+          // Pass compressed responses through to the page undecoded: the browser
+          // cannot choose Accept-Encoding itself and would inflate gzip/zstd.
+          configure: (proxy) => {
+            proxy.on('proxyReq', (proxyReq, req) => {
+              const wanted = req.headers[PROXY_ACCEPT_ENCODING_HEADER]
+              if (typeof wanted === 'string') {
+                proxyReq.setHeader('accept-encoding', wanted)
+                proxyReq.removeHeader(PROXY_ACCEPT_ENCODING_HEADER)
+              }
+            })
+            proxy.on('proxyRes', (proxyRes) => {
+              const encoding = proxyRes.headers['content-encoding']
+              if (encoding) {
+                delete proxyRes.headers['content-encoding']
+                proxyRes.headers[PROXY_CONTENT_ENCODING_HEADER] = encoding
+              }
+            })
+          },
         },
       },
     },